@@ -0,0 +1,20 @@
+"use client";
+
+import { FreightRegister } from "@/components/features";
+
+export default function FreightRegisterPage() {
+  return (
+    <div className="flex h-full max-h-full w-full flex-col overflow-hidden px-4 py-3">
+      <div className="mb-3">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Freight Register
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          Transporter freight from gate entries by period, less shortage
+          deductions, ready to export or invoice
+        </p>
+      </div>
+      <FreightRegister />
+    </div>
+  );
+}
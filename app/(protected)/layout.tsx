@@ -8,8 +8,9 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import { usePathname, useRouter } from "next/navigation";
-import { AuthGuard } from "@/components/layout/auth-guard";
+import { AuthGuard, RoutePermissionGuard } from "@/components/layout/auth-guard";
 import { AppSidebar } from "@/components/layout/sidebar";
+import { CommandPalette } from "@/components/layout/command-palette";
 import {
   SidebarProvider,
   SidebarInset,
@@ -19,7 +20,8 @@ import { ThemeToggle } from "@/components/theme/theme-toggle";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ArrowLeft, Search, ChevronRight } from "lucide-react";
-import { modules } from "@/lib/data/modules";
+import { filterModulesByAccess } from "@/lib/data/modules";
+import { useAuth } from "@/lib/contexts/auth-context";
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -31,6 +33,7 @@ import {
 
 function HeaderSearch() {
   const router = useRouter();
+  const { canAccessRoute } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -46,7 +49,7 @@ function HeaderSearch() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const filteredModules = modules
+  const filteredModules = filterModulesByAccess(canAccessRoute)
     .map((category) => {
       const matchesCategory =
         category.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -311,9 +314,10 @@ export default function ProtectedLayout({
             </div>
           </header>
           <div className="flex min-h-0 w-full flex-1 flex-col overflow-hidden">
-            {children}
+            <RoutePermissionGuard>{children}</RoutePermissionGuard>
           </div>
         </SidebarInset>
+        <CommandPalette />
       </SidebarProvider>
     </AuthGuard>
   );
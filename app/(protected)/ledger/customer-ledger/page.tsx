@@ -0,0 +1,15 @@
+"use client";
+
+import { CustomerLedgerView } from "@/components/forms/ledger/customer-ledger-view";
+
+export default function CustomerLedgerPage() {
+  return (
+    <div className="flex h-full w-full overflow-hidden">
+      <div className="flex min-w-0 flex-1 flex-col overflow-hidden">
+        <div className="flex min-h-0 flex-1 flex-col overflow-hidden">
+          <CustomerLedgerView />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { PayablesWorkspace } from "@/components/features";
+
+export default function PayablesPage() {
+  return (
+    <div className="flex h-full max-h-full w-full flex-col overflow-hidden px-4 py-3">
+      <div className="mb-3">
+        <h1 className="text-2xl font-semibold tracking-tight">Payables</h1>
+        <p className="text-muted-foreground text-sm">
+          Open vendor entries by due date; tick what to pay and create the
+          payment vouchers in one run
+        </p>
+      </div>
+      <PayablesWorkspace />
+    </div>
+  );
+}
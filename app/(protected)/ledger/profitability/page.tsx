@@ -0,0 +1,15 @@
+"use client";
+
+import { ProfitabilityView } from "@/components/forms/ledger/profitability-view";
+
+export default function ProfitabilityPage() {
+  return (
+    <div className="flex h-full w-full overflow-hidden">
+      <div className="flex min-w-0 flex-1 flex-col overflow-hidden">
+        <div className="flex min-h-0 flex-1 flex-col overflow-hidden">
+          <ProfitabilityView />
+        </div>
+      </div>
+    </div>
+  );
+}
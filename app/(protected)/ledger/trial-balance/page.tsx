@@ -0,0 +1,15 @@
+"use client";
+
+import { TrialBalanceView } from "@/components/forms/ledger/trial-balance-view";
+
+export default function TrialBalancePage() {
+  return (
+    <div className="flex h-full w-full overflow-hidden">
+      <div className="flex min-w-0 flex-1 flex-col overflow-hidden">
+        <div className="flex min-h-0 flex-1 flex-col overflow-hidden">
+          <TrialBalanceView />
+        </div>
+      </div>
+    </div>
+  );
+}
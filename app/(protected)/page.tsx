@@ -12,11 +12,12 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { modules } from "@/lib/data/modules";
+import { filterModulesByAccess } from "@/lib/data/modules";
+import { KpiDashboard } from "@/components/features";
 import { Search, Calendar, Clock, Settings, ChevronRight, LayoutGrid } from "lucide-react";
 
 export default function DashboardPage() {
-  const { username } = useAuth();
+  const { username, canAccessRoute } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [greeting, setGreeting] = useState("Welcome");
   const [currentDate, setCurrentDate] = useState("");
@@ -52,8 +53,8 @@ export default function DashboardPage() {
     return () => clearInterval(interval);
   }, []);
 
-  // Filter modules and subitems in real-time
-  const filteredModules = modules
+  // Filter modules and subitems in real-time (only routes the user may open)
+  const filteredModules = filterModulesByAccess(canAccessRoute)
     .map((category) => {
       const matchesCategory =
         category.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -116,7 +117,7 @@ export default function DashboardPage() {
           <Search className="text-muted-foreground absolute top-3 left-3.5 h-4 w-4" />
           <Input
             type="text"
-            placeholder="Search modules, forms, reports..."
+            placeholder="Search modules, forms, reports... (Ctrl+K to open a document by number)"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="h-10 w-full pl-9 pr-3 text-[14px] bg-background/30 rounded-[var(--radius)] border border-border focus-visible:ring-primary/30"
@@ -134,10 +135,13 @@ export default function DashboardPage() {
         </div>
       </div>
 
-      {/* Modules Grid */}
+      {/* KPI widgets; module cards only appear while searching */}
+      {searchQuery === "" ? (
+        <KpiDashboard />
+      ) : (
       <div className="pb-6">
         <h2 className="mb-4 text-[12px] font-bold uppercase tracking-wider text-muted-foreground">
-          {searchQuery !== "" ? `Search Results (${filteredModules.length})` : "System Modules & Components"}
+          {`Search Results (${filteredModules.length})`}
         </h2>
         
         {filteredModules.length === 0 ? (
@@ -239,6 +243,7 @@ export default function DashboardPage() {
           </div>
         )}
       </div>
+      )}
 
     </div>
   );
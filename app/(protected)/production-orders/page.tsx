@@ -2,6 +2,7 @@
 
 import { FinishedOrdersView } from "@/components/forms/production-orders";
 import { ReleasedOrdersView } from "@/components/forms/production-orders/released-orders-view";
+import { ProductionOrderScanButton } from "@/components/forms/production-orders/production-order-scan-button";
 import {
   FormStackProvider,
   FormStackPanel,
@@ -34,10 +35,13 @@ export default function ProductionOrderPage() {
                     Manage and track production orders
                   </p>
                 </div>
-                <TabsList className="grid w-100 grid-cols-2">
-                  <TabsTrigger value="released">Released</TabsTrigger>
-                  <TabsTrigger value="finished">Finished</TabsTrigger>
-                </TabsList>
+                <div className="flex items-center gap-2">
+                  <ProductionOrderScanButton />
+                  <TabsList className="grid w-100 grid-cols-2">
+                    <TabsTrigger value="released">Released</TabsTrigger>
+                    <TabsTrigger value="finished">Finished</TabsTrigger>
+                  </TabsList>
+                </div>
               </div>
             </div>
 
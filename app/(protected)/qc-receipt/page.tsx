@@ -1,13 +1,29 @@
 "use client";
 
+import { useState } from "react";
 import {
   FormStackProvider,
   FormStackPanel,
   MiniAccessPanel,
 } from "@/components/form-stack";
 import { QCReceiptView } from "@/components/forms/qc-receipt/qc-receipt-view";
+import { getInitialSearchParam } from "@/lib/utils/search-params";
+
+/** `?status=` values accepted from dashboard links */
+const STATUS_PARAM_MAP = {
+  pending: "Pending Approval",
+  approved: "Approved",
+} as const;
 
 export default function QCReceiptPage() {
+  const [statusParam] = useState(() =>
+    getInitialSearchParam(
+      "status",
+      ["pending", "approved", ""] as const,
+      "",
+    ),
+  );
+  const statusFilter = statusParam ? STATUS_PARAM_MAP[statusParam] : undefined;
 
   return (
     <FormStackProvider formScope="qc-receipt">
@@ -24,7 +40,7 @@ export default function QCReceiptPage() {
 
           <div className="flex min-h-0 flex-1 flex-col overflow-hidden px-4 py-3">
             <div className="flex-1 mt-0 h-full">
-              <QCReceiptView skipDateFilter={true} />
+              <QCReceiptView statusFilter={statusFilter} skipDateFilter={true} />
             </div>
           </div>
         </div>
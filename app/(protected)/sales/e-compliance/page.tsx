@@ -0,0 +1,20 @@
+"use client";
+
+import { ComplianceWorkspace } from "@/components/features";
+
+export default function CompliancePage() {
+  return (
+    <div className="flex h-full max-h-full w-full flex-col overflow-hidden px-4 py-3">
+      <div className="mb-3">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          E-Invoice &amp; E-Way Bill
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          Track IRN and e-way bill status of posted documents and generate or
+          cancel them in bulk
+        </p>
+      </div>
+      <ComplianceWorkspace />
+    </div>
+  );
+}
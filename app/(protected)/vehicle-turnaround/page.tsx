@@ -0,0 +1,20 @@
+"use client";
+
+import { VehicleTurnaround } from "@/components/features";
+
+export default function VehicleTurnaroundPage() {
+  return (
+    <div className="flex h-full max-h-full w-full flex-col overflow-hidden px-4 py-3">
+      <div className="mb-3">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Vehicle Turnaround
+        </h1>
+        <p className="text-muted-foreground text-sm">
+          How long vehicles wait at the gate, in QC and at unloading, by
+          vehicle and by day for each location
+        </p>
+      </div>
+      <VehicleTurnaround />
+    </div>
+  );
+}
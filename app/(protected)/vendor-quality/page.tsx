@@ -0,0 +1,32 @@
+"use client";
+
+import {
+  FormStackProvider,
+  FormStackPanel,
+  MiniAccessPanel,
+} from "@/components/form-stack";
+import { VendorQualityScorecard } from "@/components/features";
+
+export default function VendorQualityPage() {
+  return (
+    <FormStackProvider formScope="vendor-quality">
+      <div className="flex h-full max-h-full w-full overflow-hidden">
+        <div className="flex min-w-0 flex-1 flex-col overflow-hidden px-4 py-3">
+          <div className="mb-3">
+            <h1 className="text-2xl font-semibold tracking-tight">
+              Vendor Quality Scorecard
+            </h1>
+            <p className="text-muted-foreground text-sm">
+              Rejection, deviation and rebates per vendor from posted QC
+              receipts, with the trend and the parameters behind them
+            </p>
+          </div>
+          <VendorQualityScorecard />
+        </div>
+
+        <FormStackPanel />
+        <MiniAccessPanel />
+      </div>
+    </FormStackProvider>
+  );
+}
@@ -0,0 +1,112 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { ERP_COMPANY, erpFetch } from "@/lib/api/server";
+import {
+  buildSessionUser,
+  resolveFallbackRole,
+  type WebUserAccessRecord,
+} from "@/lib/auth/permissions";
+import { setSessionCookie, signSessionToken } from "@/lib/auth/session";
+
+/**
+ * Login route
+ * Validates user credentials against ERP, derives the role/permission model
+ * from the WebUser record and issues the per-user session cookie
+ * Users without a Role on the record sign in with the fallback role
+ * (AUTH_FALLBACK_ROLE, see lib/auth/permissions)
+ */
+
+export const dynamic = "force-dynamic";
+
+interface LoginBody {
+  userID?: string;
+  password?: string;
+  rememberMe?: boolean;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+async function getWebUserRecord(
+  userID: string,
+): Promise<WebUserAccessRecord | null> {
+  const filter = `User_Name eq '${userID.replace(/'/g, "''")}'`;
+  const endpoint = `/Webuser?company='${encodeURIComponent(ERP_COMPANY)}'&$filter=${encodeURIComponent(filter)}`;
+  const response = await erpFetch(endpoint);
+  if (!response.ok) return null;
+  const data = (await response.json()) as { value?: WebUserAccessRecord[] };
+  return data.value?.[0] ?? null;
+}
+
+export async function POST(request: NextRequest) {
+  let body: LoginBody;
+  try {
+    body = (await request.json()) as LoginBody;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid login request");
+  }
+
+  const userID = (body.userID || "").trim().toUpperCase();
+  const password = body.password || "";
+  if (!userID || !password) {
+    return errorResponse(400, "INVALID_REQUEST", "User ID and password are required");
+  }
+
+  let loginResponse: Response;
+  try {
+    loginResponse = await erpFetch(
+      `/API_WebVesionLoginWebuser?Company=${encodeURIComponent(ERP_COMPANY)}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userID, password }),
+      },
+    );
+  } catch (error) {
+    console.error("[Auth] ERP login request failed:", error);
+    return errorResponse(502, "NETWORK_ERROR", "Unable to reach the ERP server");
+  }
+
+  // Pass ERP errors through unchanged so the login form can show them
+  if (!loginResponse.ok) {
+    return new NextResponse(await loginResponse.arrayBuffer(), {
+      status: loginResponse.status,
+      statusText: loginResponse.statusText,
+      headers: {
+        "content-type":
+          loginResponse.headers.get("content-type") || "application/json",
+      },
+    });
+  }
+
+  const loginResult =
+    loginResponse.status === 204
+      ? { value: "OK" }
+      : ((await loginResponse.json()) as { value?: string });
+
+  // "First Login" and invalid credentials do not get a session
+  if (loginResult.value !== "OK") {
+    return NextResponse.json({ value: loginResult.value ?? "" });
+  }
+
+  const webUser = await getWebUserRecord(userID).catch((error) => {
+    console.error("[Auth] Failed to load WebUser record:", error);
+    return null;
+  });
+  if (!webUser) {
+    return errorResponse(403, "PROFILE_NOT_FOUND", "Unable to load your user profile");
+  }
+
+  const user = buildSessionUser(webUser, resolveFallbackRole(process.env.AUTH_FALLBACK_ROLE));
+  if (!user) {
+    return errorResponse(
+      403,
+      "ROLE_NOT_ASSIGNED",
+      "No web role is assigned to your user. Please contact your administrator.",
+    );
+  }
+  const rememberMe = Boolean(body.rememberMe);
+  const response = NextResponse.json({ value: "OK", user });
+  setSessionCookie(response, signSessionToken(user, rememberMe), rememberMe);
+  return response;
+}
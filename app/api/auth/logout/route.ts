@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/auth/session";
+
+/**
+ * Logout route
+ * Clears the per-user session cookie
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth/session";
+
+/**
+ * Session route
+ * Returns the signed-in user (role, permissions, posting window) from the session cookie
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: { code: "UNAUTHORIZED", message: "Not signed in" } },
+      { status: 401 },
+    );
+  }
+  return NextResponse.json({ user });
+}
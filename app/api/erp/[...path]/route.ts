@@ -0,0 +1,292 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { ERP_API_BASE_URL, createErpAuthHeader } from "@/lib/api/server";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import { authorizeErpRequest } from "@/lib/auth/erp-access";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  type IdempotencyClaim,
+  type IdempotentResponse,
+} from "@/lib/offline/server-store";
+import { getQCApprovalViolation } from "@/lib/qc-approval/server-erp";
+import { getWeighmentLockViolation } from "@/lib/weighbridge/server-gate-entry";
+
+/**
+ * Server-side proxy for ERP OData V4 API
+ * All client calls from apiRequest are routed through /api/erp/*
+ * System credentials are attached here and never reach the browser
+ * Requests require a valid session cookie (see app/api/auth) and the
+ * session role's permission for the entity or action (see lib/auth/erp-access)
+ * Captured weighbridge weights are locked until a supervisor releases them,
+ * and QC receipts are locked while with the approvers and posted only once approved
+ * A create sent with an Idempotency-Key is forwarded once; repeats get the
+ * ERP's first response back (see lib/offline/server-store)
+ */
+
+export const dynamic = "force-dynamic";
+
+const PROXY_PREFIX = "/api/erp";
+
+/**
+ * ERP endpoints reachable without a session
+ * (password reset during first login and forgot password)
+ */
+const PUBLIC_ENDPOINTS = [
+  "/API_ResetPasswordWebuser",
+  "/API_ForgetPasswordForWebUser",
+];
+
+/** Request headers forwarded from the browser to the ERP API */
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "content-type",
+  "if-match",
+  "if-none-match",
+  "prefer",
+  "odata-version",
+  "odata-maxversion",
+];
+
+/** Response headers forwarded from the ERP API back to the browser */
+const FORWARDED_RESPONSE_HEADERS = [
+  "content-type",
+  "etag",
+  "location",
+  "odata-version",
+  "odata-entityid",
+  "preference-applied",
+];
+
+const MUTATION_METHODS = ["POST", "PATCH", "PUT", "DELETE"];
+
+/** Sent by the offline outbox with each queued create */
+const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+function getErpPath(request: NextRequest): string {
+  return request.nextUrl.pathname.slice(PROXY_PREFIX.length) || "/";
+}
+
+/**
+ * Builds the upstream ERP URL, keeping the path and OData query string
+ * exactly as encoded by the client
+ */
+function buildUpstreamUrl(request: NextRequest): string {
+  return `${ERP_API_BASE_URL}${getErpPath(request)}${request.nextUrl.search}`;
+}
+
+function buildUpstreamHeaders(request: NextRequest): Headers {
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  headers.set("Authorization", createErpAuthHeader());
+  if (!headers.has("accept")) headers.set("Accept", "application/json");
+  return headers;
+}
+
+/**
+ * Parses a JSON request body for authorization checks
+ * Non-JSON or empty bodies yield null
+ */
+function parseJsonBody(body: ArrayBuffer | undefined): unknown {
+  if (!body || body.byteLength === 0) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    return null;
+  }
+}
+
+async function proxyRequest(request: NextRequest): Promise<NextResponse> {
+  if (!ERP_API_BASE_URL) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "PROXY_NOT_CONFIGURED",
+          message: "ERP API base URL is not configured on the server",
+        },
+      },
+      { status: 500 },
+    );
+  }
+
+  const erpPath = getErpPath(request);
+  const isPublicEndpoint = PUBLIC_ENDPOINTS.includes(erpPath);
+  const user = isPublicEndpoint ? null : getSessionFromRequest(request);
+  if (!isPublicEndpoint && !user) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Your session has expired. Please sign in again.",
+        },
+      },
+      { status: 401 },
+    );
+  }
+
+  const method = request.method.toUpperCase();
+  const hasBody = method !== "GET" && method !== "HEAD";
+  const body = hasBody ? await request.arrayBuffer() : undefined;
+
+  if (user) {
+    const jsonBody = parseJsonBody(body);
+    const reason = authorizeErpRequest(user, method, erpPath, jsonBody);
+    if (reason) {
+      return NextResponse.json(
+        { error: { code: "FORBIDDEN", message: reason } },
+        { status: 403 },
+      );
+    }
+
+    let lockReason: string | null;
+    try {
+      lockReason =
+        (await getWeighmentLockViolation(method, erpPath, jsonBody)) ??
+        (await getQCApprovalViolation(method, erpPath, jsonBody));
+    } catch (error) {
+      console.error("[ERP Proxy] Lock check failed:", error);
+      return NextResponse.json(
+        {
+          error: {
+            code: "LOCK_CHECK_FAILED",
+            message: "The record could not be checked. Please try again.",
+          },
+        },
+        { status: 503 },
+      );
+    }
+    if (lockReason) {
+      return NextResponse.json(
+        { error: { code: "RECORD_LOCKED", message: lockReason } },
+        { status: 409 },
+      );
+    }
+  }
+
+  // Creates queued offline carry a key; a repeat of one the ERP already
+  // answered gets that answer instead of creating the record again
+  const idempotencyKey =
+    user && method === "POST" ? request.headers.get(IDEMPOTENCY_KEY_HEADER) : null;
+  let claim: IdempotencyClaim | null = null;
+  if (user && idempotencyKey) {
+    try {
+      claim = await claimIdempotencyKey(user.userID, idempotencyKey);
+    } catch (error) {
+      console.error("[ERP Proxy] Idempotency check failed:", error);
+      return NextResponse.json(
+        {
+          error: {
+            code: "IDEMPOTENCY_CHECK_FAILED",
+            message: "The request could not be checked. Please try again.",
+          },
+        },
+        { status: 503 },
+      );
+    }
+    if (!claim.claimed) {
+      const { response } = claim.record;
+      if (!response) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "REQUEST_IN_PROGRESS",
+              message:
+                "An earlier attempt of this change is still being saved. Retry in a moment, or check the ERP before discarding it.",
+            },
+          },
+          { status: 409 },
+        );
+      }
+      return new NextResponse(response.body, {
+        status: response.status,
+        headers: response.headers,
+      });
+    }
+  }
+
+  /** Record the ERP's answer to a claimed create, or give the claim up */
+  const settleClaim = async (response: IdempotentResponse | null) => {
+    if (!user || !idempotencyKey || !claim) return;
+    try {
+      if (response) {
+        await completeIdempotencyKey(user.userID, idempotencyKey, response);
+      } else {
+        await releaseIdempotencyKey(user.userID, idempotencyKey, claim.record);
+      }
+    } catch (error) {
+      console.error("[ERP Proxy] Idempotency record failed:", error);
+    }
+  };
+
+  const init: RequestInit = {
+    method,
+    headers: buildUpstreamHeaders(request),
+    body: body && body.byteLength > 0 ? body : undefined,
+    cache: "no-store",
+  };
+
+  const url = buildUpstreamUrl(request);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, init);
+
+    // Handle redirect body-stripping: 301/302 redirects convert POST→GET, losing the body.
+    // If a mutation request was redirected and failed, retry to the final URL with original method/body.
+    if (upstream.redirected && !upstream.ok && MUTATION_METHODS.includes(method)) {
+      console.warn(
+        `[ERP Proxy] ${method} was redirected (${url} → ${upstream.url}), retrying with body...`,
+      );
+      upstream = await fetch(upstream.url, init);
+    }
+  } catch (error) {
+    console.error("[ERP Proxy] Upstream request failed:", error);
+    await settleClaim(null);
+    return NextResponse.json(
+      {
+        error: {
+          code: "NETWORK_ERROR",
+          message: "Unable to reach the ERP server",
+        },
+      },
+      { status: 502 },
+    );
+  }
+
+  const responseHeaders = new Headers();
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+
+  // Error bodies are passed through unchanged so apiRequest can parse OData errors
+  const responseBody =
+    upstream.status === 204 || upstream.status === 304
+      ? null
+      : await upstream.arrayBuffer();
+
+  await settleClaim(
+    upstream.ok
+      ? {
+          status: upstream.status,
+          body: responseBody ? new TextDecoder().decode(responseBody) : null,
+          headers: Object.fromEntries(responseHeaders),
+        }
+      : null,
+  );
+
+  return new NextResponse(responseBody, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = proxyRequest;
+export const POST = proxyRequest;
+export const PATCH = proxyRequest;
+export const PUT = proxyRequest;
+export const DELETE = proxyRequest;
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import {
+  appendEWayBillChange,
+  listEWayBillChanges,
+} from "@/lib/eway-bill/server-store";
+import type { EWayBillChange, NewEWayBillChange } from "@/lib/eway-bill/types";
+
+/**
+ * E-way bill history route
+ * Lists and records the Part-B updates of a document
+ * The signed-in user is recorded as the author of each change
+ */
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function unauthorized() {
+  return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+}
+
+export async function GET(request: NextRequest) {
+  if (!getSessionFromRequest(request)) return unauthorized();
+
+  const docType = request.nextUrl.searchParams.get("docType");
+  const docNo = request.nextUrl.searchParams.get("docNo");
+  if (!docType || !docNo) {
+    return errorResponse(400, "INVALID_REQUEST", "Document type and number are required");
+  }
+
+  const changes = await listEWayBillChanges(docType, docNo);
+  return NextResponse.json({ changes });
+}
+
+export async function POST(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return unauthorized();
+
+  let body: Partial<NewEWayBillChange>;
+  try {
+    body = (await request.json()) as Partial<NewEWayBillChange>;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid change");
+  }
+
+  if (
+    !body.docType ||
+    !body.docNo ||
+    !body.eWayBillNo ||
+    !body.vehicleNo ||
+    !body.reasonCode
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_REQUEST",
+      "Document, e-way bill, vehicle and reason are required",
+    );
+  }
+
+  const change: EWayBillChange = {
+    id: crypto.randomUUID(),
+    docType: body.docType,
+    docNo: body.docNo,
+    eWayBillNo: body.eWayBillNo,
+    vehicleNo: body.vehicleNo,
+    reasonCode: body.reasonCode,
+    reasonRemark: body.reasonRemark || "",
+    changedBy: user.userID,
+    changedAt: Date.now(),
+  };
+
+  const saved = await appendEWayBillChange(change);
+  return NextResponse.json({ change: saved });
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import { getBilledFreightInvoiceMarks } from "@/lib/freight/server-erp";
+
+/**
+ * Freight invoice lookup route
+ * Returns which of the given gate entries were already invoiced on a purchase
+ * invoice that is still in the ERP
+ * The keys are posted rather than put in the URL, since a register can hold
+ * thousands of entries
+ */
+
+export const dynamic = "force-dynamic";
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+export async function POST(request: NextRequest) {
+  if (!getSessionFromRequest(request)) {
+    return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+  }
+
+  let entryKeys: unknown;
+  try {
+    ({ entryKeys } = (await request.json()) as { entryKeys?: unknown });
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid lookup");
+  }
+  if (!Array.isArray(entryKeys) || !entryKeys.every((key) => typeof key === "string")) {
+    return errorResponse(400, "INVALID_REQUEST", "Gate entries are required");
+  }
+
+  try {
+    const marks = await getBilledFreightInvoiceMarks(entryKeys as string[]);
+    return NextResponse.json({ marks });
+  } catch (error) {
+    return errorResponse(
+      502,
+      "ERP_ERROR",
+      error instanceof Error ? error.message : "Failed to check the freight invoices",
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import { getBilledFreightInvoiceMarks } from "@/lib/freight/server-erp";
+import { recordFreightInvoiceMarks } from "@/lib/freight/server-store";
+import type { FreightInvoiceMark } from "@/lib/freight/types";
+
+/**
+ * Freight invoices route
+ * Records the purchase invoice a transporter's freight was billed on against
+ * each gate entry, so the freight register does not bill it again
+ * An entry is only recorded once; a second invoice for it is refused while
+ * the first is still in the ERP
+ */
+
+export const dynamic = "force-dynamic";
+
+interface RecordBody {
+  invoiceNo?: string;
+  entryKeys?: unknown;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function unauthorized() {
+  return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+}
+
+function alreadyInvoiced(entryKeys: string[]) {
+  const entryNos = entryKeys.map((key) => key.slice(key.indexOf(":") + 1));
+  return errorResponse(409, "CONFLICT", `Freight already invoiced for ${entryNos.join(", ")}`);
+}
+
+export async function POST(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return unauthorized();
+  if (!hasPermission(user.permissions, "purchase", "edit")) {
+    return errorResponse(
+      403,
+      "FORBIDDEN",
+      "You do not have permission to create purchase invoices",
+    );
+  }
+
+  let body: RecordBody;
+  try {
+    body = (await request.json()) as RecordBody;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid freight invoice");
+  }
+
+  const { invoiceNo, entryKeys } = body;
+  if (
+    !invoiceNo ||
+    !Array.isArray(entryKeys) ||
+    entryKeys.length === 0 ||
+    !entryKeys.every((key) => typeof key === "string" && key)
+  ) {
+    return errorResponse(400, "INVALID_REQUEST", "Invoice number and gate entries are required");
+  }
+
+  const invoicedAt = Date.now();
+  const marks: FreightInvoiceMark[] = (entryKeys as string[]).map((entryKey) => ({
+    entryKey,
+    invoiceNo,
+    invoicedBy: user.userID,
+    invoicedAt,
+  }));
+  try {
+    // Releases the marks of invoices deleted or cancelled in the ERP first
+    const billed = await getBilledFreightInvoiceMarks(entryKeys as string[]);
+    if (billed.length > 0) return alreadyInvoiced(billed.map((mark) => mark.entryKey));
+
+    const existing = await recordFreightInvoiceMarks(marks);
+    if (existing.length > 0) return alreadyInvoiced(existing);
+  } catch (error) {
+    return errorResponse(
+      502,
+      "STORE_ERROR",
+      error instanceof Error ? error.message : "The freight invoice could not be recorded",
+    );
+  }
+  return NextResponse.json({ marks });
+}
@@ -0,0 +1,142 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { canApproveQCReceipts, hasPermission } from "@/lib/auth/permissions";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import { evaluateQCReceipt } from "@/lib/qc/evaluation";
+import {
+  loadQCApproval,
+  writeQCApprovalHeader,
+  type LoadedQCApproval,
+} from "@/lib/qc-approval/server-erp";
+import { appendQCApprovalEvent } from "@/lib/qc-approval/server-store";
+import {
+  applyQCApprovalTransition,
+  getQCApprovalHeaderFields,
+  validateQCApprovalTransition,
+} from "@/lib/qc-approval/workflow";
+import type {
+  QCApprovalActor,
+  QCApprovalTransitionInput,
+} from "@/lib/qc-approval/types";
+
+/**
+ * QC approvals route
+ * Reads a QC receipt's approval and audit trail, and records submissions,
+ * approvals and returns by the signed-in user
+ * The status is written to the ERP header and the deviation is computed from
+ * the ERP lines, so neither is taken from the browser
+ */
+
+export const dynamic = "force-dynamic";
+
+interface TransitionBody extends Partial<QCApprovalTransitionInput> {
+  receiptNo?: string;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function unauthorized() {
+  return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+}
+
+function erpError(error: unknown) {
+  return errorResponse(
+    502,
+    "ERP_ERROR",
+    error instanceof Error ? error.message : "Failed to read the QC receipt",
+  );
+}
+
+export async function GET(request: NextRequest) {
+  if (!getSessionFromRequest(request)) return unauthorized();
+
+  const receiptNo = request.nextUrl.searchParams.get("receiptNo");
+  if (!receiptNo) {
+    return errorResponse(400, "INVALID_REQUEST", "Receipt number is required");
+  }
+
+  try {
+    const { record } = await loadQCApproval(receiptNo);
+    return NextResponse.json({ record });
+  } catch (error) {
+    return erpError(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return unauthorized();
+
+  let body: TransitionBody;
+  try {
+    body = (await request.json()) as TransitionBody;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid approval action");
+  }
+
+  const { receiptNo, action, comment } = body;
+  if (
+    !receiptNo ||
+    (action !== "submit" && action !== "approve" && action !== "return") ||
+    (comment !== undefined && typeof comment !== "string")
+  ) {
+    return errorResponse(400, "INVALID_REQUEST", "Receipt number and action are required");
+  }
+
+  const actor: QCApprovalActor = {
+    userID: user.userID,
+    canSubmit: hasPermission(user.permissions, "qc", "edit"),
+    canApprove: canApproveQCReceipts(user),
+  };
+  const input: QCApprovalTransitionInput = { action, comment };
+
+  let loaded: LoadedQCApproval;
+  try {
+    loaded = await loadQCApproval(receiptNo);
+  } catch (error) {
+    return erpError(error);
+  }
+  const { header, lines, record } = loaded;
+
+  const conflict =
+    validateQCApprovalTransition(record, actor, input) ??
+    (action === "submit" &&
+    evaluateQCReceipt(lines, header.Inspection_Quantity || 0).kind === "pending"
+      ? "Enter all mandatory parameters before submitting"
+      : null);
+  if (conflict) {
+    return errorResponse(409, "CONFLICT", conflict);
+  }
+
+  const next = applyQCApprovalTransition(record, actor, input, Date.now());
+  const event = next.events[next.events.length - 1];
+
+  let etag: string;
+  try {
+    etag = await writeQCApprovalHeader(
+      receiptNo,
+      header["@odata.etag"] || "*",
+      getQCApprovalHeaderFields(next.status, user.userID),
+    );
+  } catch (error) {
+    return erpError(error);
+  }
+
+  try {
+    await appendQCApprovalEvent(receiptNo, event);
+  } catch (error) {
+    // Without its trail entry the transition is undone on the header
+    console.error("Error recording QC approval event:", error);
+    await writeQCApprovalHeader(receiptNo, etag, {
+      Approval_Status: header.Approval_Status,
+      Approve: header.Approve,
+      Approved_By: header.Approved_By,
+    }).catch((rollbackError) => {
+      console.error("Error rolling back QC approval:", rollbackError);
+    });
+    return errorResponse(502, "STORE_ERROR", "The approval could not be recorded. Please try again.");
+  }
+
+  return NextResponse.json({ record: next });
+}
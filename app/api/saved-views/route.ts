@@ -0,0 +1,118 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import {
+  deleteSharedView,
+  listSharedViews,
+  upsertSharedView,
+} from "@/lib/saved-views/server-store";
+import type { SavedView, SavedViewState } from "@/lib/saved-views/types";
+
+/**
+ * Saved views route
+ * Lists, saves and deletes the team-wide (shared) saved views of a document list
+ * Only the owner of a view can overwrite or delete it
+ * A shared store outage is answered with 503 STORE_UNAVAILABLE
+ */
+
+export const dynamic = "force-dynamic";
+
+interface SaveViewBody {
+  id?: string;
+  listKey?: string;
+  name?: string;
+  state?: SavedViewState;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function unauthorized() {
+  return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+}
+
+function storeUnavailable(error: unknown) {
+  console.error("Error reaching the shared views store:", error);
+  return errorResponse(
+    503,
+    "STORE_UNAVAILABLE",
+    "Shared views are unavailable right now. Please try again.",
+  );
+}
+
+export async function GET(request: NextRequest) {
+  if (!getSessionFromRequest(request)) return unauthorized();
+
+  const listKey = request.nextUrl.searchParams.get("list");
+  if (!listKey) {
+    return errorResponse(400, "INVALID_REQUEST", "List is required");
+  }
+
+  try {
+    const views = await listSharedViews(listKey);
+    return NextResponse.json({ views });
+  } catch (error) {
+    return storeUnavailable(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return unauthorized();
+
+  let body: SaveViewBody;
+  try {
+    body = (await request.json()) as SaveViewBody;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid saved view");
+  }
+
+  const name = (body.name || "").trim();
+  if (!body.id || !body.listKey || !name || typeof body.state?.filters !== "object") {
+    return errorResponse(400, "INVALID_REQUEST", "View ID, list, name and state are required");
+  }
+
+  const now = Date.now();
+  const view: SavedView = {
+    id: body.id,
+    listKey: body.listKey,
+    name,
+    state: body.state,
+    owner: user.userID,
+    shared: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  let saved: SavedView | null;
+  try {
+    saved = await upsertSharedView(view);
+  } catch (error) {
+    return storeUnavailable(error);
+  }
+  if (!saved) {
+    return errorResponse(403, "FORBIDDEN", "Only the owner can change a shared view");
+  }
+  return NextResponse.json({ view: saved });
+}
+
+export async function DELETE(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return unauthorized();
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return errorResponse(400, "INVALID_REQUEST", "View ID is required");
+  }
+
+  let deleted: boolean;
+  try {
+    deleted = await deleteSharedView(id, user.userID);
+  } catch (error) {
+    return storeUnavailable(error);
+  }
+  if (!deleted) {
+    return errorResponse(404, "NOT_FOUND", "Shared view not found or not owned by you");
+  }
+  return NextResponse.json({ ok: true });
+}
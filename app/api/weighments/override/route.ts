@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { canOverrideWeighments } from "@/lib/auth/permissions";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import { updateWeighmentRecord } from "@/lib/weighbridge/server-store";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+
+/**
+ * Weighment override route
+ * Records a supervisor releasing the captured weights of a gate entry for
+ * manual editing or recapture; the reason is kept with the weighments
+ */
+
+export const dynamic = "force-dynamic";
+
+interface OverrideBody {
+  direction?: GateEntryDirection;
+  entryNo?: string;
+  reason?: string;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+export async function POST(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+  if (!canOverrideWeighments(user)) {
+    return errorResponse(403, "FORBIDDEN", "Only a supervisor can override weighments");
+  }
+
+  let body: OverrideBody;
+  try {
+    body = (await request.json()) as OverrideBody;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid override");
+  }
+
+  const reason = (body.reason || "").trim();
+  if ((body.direction !== "Inward" && body.direction !== "Outward") || !body.entryNo || !reason) {
+    return errorResponse(400, "INVALID_REQUEST", "Direction, entry number and reason are required");
+  }
+
+  const record = await updateWeighmentRecord(body.direction, body.entryNo, (current) => ({
+    ...current,
+    overrides: [
+      ...current.overrides,
+      { reason, overriddenBy: user.userID, overriddenAt: Date.now() },
+    ],
+  }));
+  return NextResponse.json({ record });
+}
@@ -0,0 +1,142 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getSessionFromRequest } from "@/lib/auth/session";
+import { WEIGHBRIDGE_SIMULATOR_ENABLED } from "@/lib/weighbridge/config";
+import { writeHeaderWeight } from "@/lib/weighbridge/server-gate-entry";
+import {
+  getWeighmentRecord,
+  updateWeighmentRecord,
+} from "@/lib/weighbridge/server-store";
+import type {
+  CaptureWeighmentInput,
+  GateEntryDirection,
+  Weighment,
+} from "@/lib/weighbridge/types";
+import {
+  WEIGHMENT_FIELDS,
+  isWeighmentReleased,
+  isWeighmentSource,
+} from "@/lib/weighbridge/weighments";
+
+/**
+ * Weighments route
+ * Reads and records the weighbridge weighments of a gate entry
+ * A capture is recorded first and then written to the ERP header; when the
+ * header write fails the capture is rolled back
+ * A captured weighment is only replaced after a supervisor override
+ * Simulator captures are refused unless the simulator is enabled (never in production)
+ */
+
+export const dynamic = "force-dynamic";
+
+interface CaptureBody extends Partial<CaptureWeighmentInput> {
+  direction?: GateEntryDirection;
+  entryNo?: string;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function unauthorized() {
+  return errorResponse(401, "UNAUTHORIZED", "Not signed in");
+}
+
+function isDirection(value: unknown): value is GateEntryDirection {
+  return value === "Inward" || value === "Outward";
+}
+
+export async function GET(request: NextRequest) {
+  if (!getSessionFromRequest(request)) return unauthorized();
+
+  const direction = request.nextUrl.searchParams.get("direction");
+  const entryNo = request.nextUrl.searchParams.get("entryNo");
+  if (!isDirection(direction) || !entryNo) {
+    return errorResponse(400, "INVALID_REQUEST", "Direction and entry number are required");
+  }
+
+  const record = await getWeighmentRecord(direction, entryNo);
+  return NextResponse.json({ record });
+}
+
+export async function POST(request: NextRequest) {
+  const user = getSessionFromRequest(request);
+  if (!user) return unauthorized();
+  // The header is written with system credentials, so check the role here
+  if (!hasPermission(user.permissions, "gate-entry", "edit")) {
+    return errorResponse(403, "FORBIDDEN", "You do not have permission to edit gate entries");
+  }
+
+  let body: CaptureBody;
+  try {
+    body = (await request.json()) as CaptureBody;
+  } catch {
+    return errorResponse(400, "INVALID_REQUEST", "Invalid weighment");
+  }
+
+  const { direction, entryNo, stage, weight, source } = body;
+  if (source === "simulator" && !WEIGHBRIDGE_SIMULATOR_ENABLED) {
+    return errorResponse(
+      403,
+      "FORBIDDEN",
+      "Simulated weights cannot be recorded; capture the weight from the weighbridge",
+    );
+  }
+  if (
+    !isDirection(direction) ||
+    !entryNo ||
+    (stage !== "first" && stage !== "second") ||
+    typeof weight !== "number" ||
+    !(weight > 0) ||
+    !isWeighmentSource(source, WEIGHBRIDGE_SIMULATOR_ENABLED)
+  ) {
+    return errorResponse(
+      400,
+      "INVALID_REQUEST",
+      "Direction, entry number, stage, weight and source are required",
+    );
+  }
+
+  const captured: Weighment = {
+    weight,
+    capturedAt: Date.now(),
+    capturedBy: user.userID,
+    source,
+  };
+  let conflict: string | null = null;
+  let previous: Weighment | undefined;
+  const record = await updateWeighmentRecord(direction, entryNo, (current) => {
+    if (current[stage] && !isWeighmentReleased(current, stage)) {
+      conflict = "Weighment already captured; a supervisor override is required to recapture";
+      return null;
+    }
+    if (stage === "second" && !current.first) {
+      conflict = "Capture the first weighment before the second";
+      return null;
+    }
+    previous = current[stage];
+    return { ...current, [stage]: captured };
+  });
+
+  if (!record) {
+    return errorResponse(409, "CONFLICT", conflict ?? "Weighment not recorded");
+  }
+
+  try {
+    await writeHeaderWeight(direction, entryNo, WEIGHMENT_FIELDS[direction][stage], weight);
+  } catch (error) {
+    await updateWeighmentRecord(direction, entryNo, (current) =>
+      current[stage]?.capturedAt === captured.capturedAt
+        ? { ...current, [stage]: previous }
+        : null,
+    ).catch((rollbackError) => {
+      console.error("Error rolling back weighment:", rollbackError);
+    });
+    return errorResponse(
+      502,
+      "ERP_ERROR",
+      error instanceof Error ? error.message : "Failed to update the gate entry",
+    );
+  }
+  return NextResponse.json({ record });
+}
@@ -4,6 +4,7 @@ import "./globals.css";
 import { ThemeProvider } from "@/components/theme/theme-provider";
 import { AuthProvider } from "@/lib/contexts/auth-context";
 import { ErrorProvider } from "@/lib/contexts/error-context";
+import { ConflictProvider } from "@/lib/contexts/conflict-context";
 import { Toaster } from "sonner";
 import { cn } from "@/lib/utils";
 
@@ -51,7 +52,9 @@ export default function RootLayout({
           disableTransitionOnChange
         >
           <ErrorProvider>
-            <AuthProvider>{children}</AuthProvider>
+            <ConflictProvider>
+              <AuthProvider>{children}</AuthProvider>
+            </ConflictProvider>
           </ErrorProvider>
           <Toaster richColors position="top-right" />
         </ThemeProvider>
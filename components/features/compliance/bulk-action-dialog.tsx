@@ -0,0 +1,153 @@
+"use client";
+
+/**
+ * Bulk compliance action dialog
+ * Confirms the action, runs it document by document and lists each result
+ */
+
+import { useState } from "react";
+import { CheckCircle2, Loader2, MinusCircle, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import {
+  COMPLIANCE_SOURCE_LABELS,
+  runBulkComplianceAction,
+  type BulkResult,
+  type ComplianceActionDefinition,
+  type ComplianceDocument,
+} from "@/lib/compliance";
+
+interface BulkActionDialogProps {
+  action: ComplianceActionDefinition | null;
+  documents: ComplianceDocument[];
+  onOpenChange: (open: boolean) => void;
+  /** Called once a run finishes so the list can reload */
+  onCompleted: () => void;
+}
+
+const RESULT_ICONS = {
+  success: <CheckCircle2 className="h-4 w-4 text-emerald-600" />,
+  failed: <XCircle className="text-destructive h-4 w-4" />,
+  skipped: <MinusCircle className="text-muted-foreground h-4 w-4" />,
+};
+
+export function BulkActionDialog({
+  action,
+  documents,
+  onOpenChange,
+  onCompleted,
+}: BulkActionDialogProps) {
+  const [results, setResults] = useState<BulkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const eligibleCount = action
+    ? documents.filter((doc) => !action.getSkipReason(doc)).length
+    : 0;
+  const hasRun = results.length > 0;
+  const isDone = hasRun && !isRunning;
+  const counts = {
+    success: results.filter((r) => r.status === "success").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+    setIsRunning(true);
+    setResults([]);
+    try {
+      await runBulkComplianceAction(action, documents, (result) =>
+        setResults((prev) => [...prev, result]),
+      );
+    } finally {
+      setIsRunning(false);
+      onCompleted();
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isRunning) return;
+    if (!open) setResults([]);
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={!!action} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{action?.label}</DialogTitle>
+          <DialogDescription>
+            {isDone
+              ? `${counts.success} succeeded, ${counts.failed} failed, ${counts.skipped} skipped`
+              : `${eligibleCount} of ${documents.length} selected document(s) will be processed; the rest are skipped.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasRun && (
+          <div className="space-y-3">
+            <Progress value={(results.length / documents.length) * 100} />
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              {results.map((result) => (
+                <div
+                  key={result.key}
+                  className="flex items-start gap-2 border-b px-3 py-2 text-sm last:border-b-0"
+                >
+                  <span className="mt-0.5 shrink-0">
+                    {RESULT_ICONS[result.status]}
+                  </span>
+                  <span className="w-32 shrink-0 font-medium">{result.no}</span>
+                  <span className="text-muted-foreground w-32 shrink-0 text-xs leading-5">
+                    {COMPLIANCE_SOURCE_LABELS[result.source]}
+                  </span>
+                  <span
+                    className={
+                      result.status === "failed"
+                        ? "text-destructive break-words"
+                        : "text-muted-foreground"
+                    }
+                  >
+                    {result.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isDone ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                disabled={isRunning}
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant={action?.destructive ? "destructive" : "default"}
+                disabled={isRunning || eligibleCount === 0}
+                onClick={handleRun}
+              >
+                {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isRunning
+                  ? `Processing ${results.length + 1} of ${documents.length}`
+                  : action?.label}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,418 @@
+"use client";
+
+/**
+ * E-invoice / e-way bill compliance workspace
+ * Lists posted invoices, credit memos and transfer shipments with their IRN
+ * and e-way bill status and runs generate/cancel actions in bulk
+ */
+
+import { Fragment, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  Loader2,
+  RefreshCw,
+  Search,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DateInput } from "@/components/ui/date-input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/date";
+import {
+  ALL_COMPLIANCE_SOURCES,
+  COMPLIANCE_ACTIONS,
+  COMPLIANCE_SOURCE_LABELS,
+  formatValidityCountdown,
+  getEWayBillStatus,
+  useComplianceDocuments,
+  type ComplianceActionDefinition,
+  type ComplianceDocument,
+  type ComplianceSource,
+  type EWayBillStatus,
+  type IrnStatus,
+} from "@/lib/compliance";
+import { BulkActionDialog } from "./bulk-action-dialog";
+
+type StatusFilter = "all" | "irn-pending" | "ewb-pending" | "expiring" | "expired";
+
+const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+  all: "All statuses",
+  "irn-pending": "IRN pending",
+  "ewb-pending": "E-way bill pending",
+  expiring: "Expiring soon",
+  expired: "Expired",
+};
+
+const IRN_BADGES: Record<IrnStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-amber-500/10 text-amber-600 dark:text-amber-400" },
+  generated: { label: "Generated", className: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400" },
+  cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground" },
+};
+
+const VALIDITY_CLASSES: Record<EWayBillStatus, string> = {
+  pending: "text-muted-foreground",
+  active: "text-emerald-600 dark:text-emerald-400",
+  expiring: "text-amber-600 dark:text-amber-400 font-medium",
+  expired: "text-destructive font-medium",
+};
+
+interface PendingRun {
+  action: ComplianceActionDefinition;
+  documents: ComplianceDocument[];
+}
+
+function matchesStatus(
+  doc: ComplianceDocument,
+  filter: StatusFilter,
+  now: number,
+): boolean {
+  switch (filter) {
+    case "all":
+      return true;
+    case "irn-pending":
+      return doc.irnStatus === "pending";
+    case "ewb-pending":
+      return !doc.eWayBillNo;
+    case "expiring":
+    case "expired":
+      return getEWayBillStatus(doc.eWayBillNo, doc.validUntil, now) === filter;
+  }
+}
+
+export function ComplianceWorkspace() {
+  const {
+    filters,
+    updateFilters,
+    documents,
+    truncatedSources,
+    error,
+    isLoading,
+    now,
+    refetch,
+  } = useComplianceDocuments();
+  const { can } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [search, setSearch] = useState("");
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [pendingRun, setPendingRun] = useState<PendingRun | null>(null);
+
+  const summary = useMemo(
+    () => ({
+      "irn-pending": documents.filter((doc) => matchesStatus(doc, "irn-pending", now)).length,
+      "ewb-pending": documents.filter((doc) => matchesStatus(doc, "ewb-pending", now)).length,
+      expiring: documents.filter((doc) => matchesStatus(doc, "expiring", now)).length,
+      expired: documents.filter((doc) => matchesStatus(doc, "expired", now)).length,
+    }),
+    [documents, now],
+  );
+
+  const visibleDocuments = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return documents
+      .filter((doc) => matchesStatus(doc, statusFilter, now))
+      .filter(
+        (doc) =>
+          !term ||
+          [doc.no, doc.party, doc.vehicleNo, doc.eWayBillNo, doc.irnNo].some(
+            (value) => value.toLowerCase().includes(term),
+          ),
+      )
+      .sort(
+        (a, b) =>
+          b.postingDate.localeCompare(a.postingDate) || b.no.localeCompare(a.no),
+      );
+  }, [documents, statusFilter, search, now]);
+
+  const selectedDocuments = visibleDocuments.filter((doc) =>
+    selectedKeys.has(doc.key),
+  );
+  const allSelected =
+    visibleDocuments.length > 0 &&
+    selectedDocuments.length === visibleDocuments.length;
+
+  const toggleSource = (source: ComplianceSource) => {
+    const active = filters.sources.includes(source);
+    // Keep at least one source selected
+    if (active && filters.sources.length === 1) return;
+    updateFilters({
+      sources: active
+        ? filters.sources.filter((s) => s !== source)
+        : ALL_COMPLIANCE_SOURCES.filter(
+            (s) => s === source || filters.sources.includes(s),
+          ),
+    });
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(
+      allSelected ? new Set() : new Set(visibleDocuments.map((doc) => doc.key)),
+    );
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {(Object.keys(summary) as Array<keyof typeof summary>).map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setStatusFilter(statusFilter === key ? "all" : key)}
+            className={cn(
+              "bg-card rounded-[var(--radius)] border px-3 py-2 text-left transition-colors hover:border-primary/60",
+              statusFilter === key && "border-primary",
+            )}
+          >
+            <div className="text-muted-foreground text-[12px] font-semibold">
+              {STATUS_FILTER_LABELS[key]}
+            </div>
+            <div
+              className={cn(
+                "text-2xl font-bold tracking-tight",
+                key === "expired" && summary.expired > 0 && "text-destructive",
+                key === "expiring" &&
+                  summary.expiring > 0 &&
+                  "text-amber-600 dark:text-amber-400",
+              )}
+            >
+              {isLoading ? "-" : summary[key]}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-36">
+          <DateInput
+            value={filters.fromDate}
+            onChange={(value) => updateFilters({ fromDate: value })}
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">to</span>
+        <div className="w-36">
+          <DateInput
+            value={filters.toDate}
+            onChange={(value) => updateFilters({ toDate: value })}
+          />
+        </div>
+
+        <div className="flex items-center gap-1">
+          {ALL_COMPLIANCE_SOURCES.map((source) => (
+            <Button
+              key={source}
+              size="sm"
+              variant={filters.sources.includes(source) ? "secondary" : "outline"}
+              onClick={() => toggleSource(source)}
+            >
+              {COMPLIANCE_SOURCE_LABELS[source]}
+            </Button>
+          ))}
+        </div>
+
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as StatusFilter)}
+        >
+          <SelectTrigger className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {STATUS_FILTER_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="relative w-56">
+          <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
+          <Input
+            placeholder="Document, party, vehicle..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8 pl-8"
+          />
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={refetch}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn("mr-1 h-4 w-4", isLoading && "animate-spin")} />
+            Refresh
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" disabled={selectedDocuments.length === 0}>
+                Bulk Actions ({selectedDocuments.length})
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {COMPLIANCE_ACTIONS.map((action, index) => (
+                <Fragment key={action.id}>
+                  {index === 2 && <DropdownMenuSeparator />}
+                  <DropdownMenuItem
+                    className={cn(action.destructive && "text-destructive")}
+                    disabled={!action.isAllowed(can)}
+                    onClick={() =>
+                      setPendingRun({ action, documents: selectedDocuments })
+                    }
+                  >
+                    {action.label}
+                  </DropdownMenuItem>
+                </Fragment>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {truncatedSources.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Only the latest documents are shown for{" "}
+          {truncatedSources.map((s) => COMPLIANCE_SOURCE_LABELS[s]).join(", ")}.
+          Narrow the date range to see all.
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={toggleAll}
+                  aria-label="Select all"
+                />
+              </TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Document No</TableHead>
+              <TableHead>Posting Date</TableHead>
+              <TableHead>Party</TableHead>
+              <TableHead>Branch</TableHead>
+              <TableHead>Vehicle No</TableHead>
+              <TableHead>IRN</TableHead>
+              <TableHead>E-Way Bill No</TableHead>
+              <TableHead>Validity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && documents.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="h-24 text-center">
+                  <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={10} className="text-destructive h-24 text-center">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : visibleDocuments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="text-muted-foreground h-24 text-center">
+                  No documents found
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleDocuments.map((doc) => {
+                const eWayBillStatus = getEWayBillStatus(doc.eWayBillNo, doc.validUntil, now);
+                const irnBadge = IRN_BADGES[doc.irnStatus];
+                return (
+                  <TableRow
+                    key={doc.key}
+                    data-state={selectedKeys.has(doc.key) ? "selected" : undefined}
+                  >
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedKeys.has(doc.key)}
+                        onCheckedChange={() => toggleSelected(doc.key)}
+                        aria-label={`Select ${doc.no}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {COMPLIANCE_SOURCE_LABELS[doc.source]}
+                    </TableCell>
+                    <TableCell className="font-medium">{doc.no}</TableCell>
+                    <TableCell>{formatDate(doc.postingDate)}</TableCell>
+                    <TableCell className="max-w-48 truncate">{doc.party}</TableCell>
+                    <TableCell>{doc.branchCode || "-"}</TableCell>
+                    <TableCell>{doc.vehicleNo || "-"}</TableCell>
+                    <TableCell>
+                      <Badge className={irnBadge.className} title={doc.irnNo || undefined}>
+                        {irnBadge.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{doc.eWayBillNo || "-"}</TableCell>
+                    <TableCell className={VALIDITY_CLASSES[eWayBillStatus]}>
+                      {eWayBillStatus === "pending"
+                        ? "Not generated"
+                        : doc.validUntil === null
+                          ? "-"
+                          : formatValidityCountdown(doc.validUntil, now)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <BulkActionDialog
+        action={pendingRun?.action ?? null}
+        documents={pendingRun?.documents ?? []}
+        onOpenChange={(open) => !open && setPendingRun(null)}
+        onCompleted={() => {
+          setSelectedKeys(new Set());
+          refetch();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+/**
+ * KPI dashboard - live work-queue counts for the home page
+ * Each card opens its list page pre-filtered; the widget set is chosen per user
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, ChevronRight, RefreshCw, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDashboardKpis, type KpiWidgetDefinition, type KpiWidgetState } from "@/lib/dashboard";
+
+function KpiWidgetCard({
+  widget,
+  state,
+}: {
+  widget: KpiWidgetDefinition;
+  state: KpiWidgetState;
+}) {
+  const Icon = widget.icon;
+
+  return (
+    <Link href={widget.href} className="group">
+      <Card className="h-full border border-border/80 bg-card/75 shadow-xs transition-all duration-300 hover:-translate-y-0.5 hover:border-primary/60">
+        <CardContent className="flex items-start gap-3 p-3">
+          <div
+            className={`flex h-9 w-9 shrink-0 items-center justify-center rounded-[var(--radius)] ${widget.accentClass}`}
+          >
+            <Icon className="h-4.5 w-4.5" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="text-muted-foreground truncate text-[12px] font-semibold">
+              {widget.title}
+            </div>
+            {state.isLoading ? (
+              <Skeleton className="mt-1 h-7 w-14" />
+            ) : state.error ? (
+              <div
+                className="mt-1 flex items-center gap-1 text-[12px] text-red-600 dark:text-red-400"
+                title={state.error}
+              >
+                <AlertTriangle className="h-3.5 w-3.5" />
+                Unavailable
+              </div>
+            ) : (
+              <div className="text-2xl font-bold tracking-tight">
+                {state.count?.toLocaleString() ?? "-"}
+              </div>
+            )}
+            <div className="text-muted-foreground/80 truncate text-[11px]">
+              {widget.description}
+            </div>
+          </div>
+          <ChevronRight className="text-muted-foreground/60 group-hover:text-primary mt-1 h-3.5 w-3.5 transition-all group-hover:translate-x-0.5" />
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
+
+export function KpiDashboard() {
+  const {
+    availableWidgets,
+    visibleWidgets,
+    visibleWidgetIds,
+    widgetStates,
+    refresh,
+    updateVisibleWidgets,
+  } = useDashboardKpis();
+  const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [draftIds, setDraftIds] = useState<string[]>([]);
+
+  const openConfig = () => {
+    setDraftIds(visibleWidgetIds);
+    setIsConfigOpen(true);
+  };
+
+  const toggleDraft = (id: string, checked: boolean) => {
+    setDraftIds((prev) => {
+      if (!checked) return prev.filter((existing) => existing !== id);
+      // Keep the catalogue order when re-enabling a widget
+      const order = availableWidgets.map((widget) => widget.id);
+      return [...prev, id].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    });
+  };
+
+  return (
+    <div className="pb-6">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-muted-foreground text-[12px] font-bold tracking-wider uppercase">
+          Today&apos;s Work Queues
+        </h2>
+        <div className="flex items-center gap-1.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refresh}
+            className="h-7 gap-1.5 px-2 text-xs"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openConfig}
+            className="h-7 gap-1.5 px-2 text-xs"
+          >
+            <Settings2 className="h-3.5 w-3.5" />
+            Customize
+          </Button>
+        </div>
+      </div>
+
+      {visibleWidgets.length === 0 ? (
+        <div className="text-muted-foreground rounded-[var(--radius)] border border-dashed p-6 text-center text-[13px]">
+          No widgets selected. Use Customize to choose what appears here.
+        </div>
+      ) : (
+        <div className="grid gap-2.5 sm:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4">
+          {visibleWidgets.map((widget) => (
+            <KpiWidgetCard
+              key={widget.id}
+              widget={widget}
+              state={widgetStates[widget.id]}
+            />
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isConfigOpen} onOpenChange={setIsConfigOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Customize dashboard</DialogTitle>
+            <DialogDescription>
+              Choose the widgets shown on your home page. Your selection is saved
+              for your user on this device.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            {availableWidgets.map((widget) => (
+              <label
+                key={widget.id}
+                className="hover:bg-muted/50 flex cursor-pointer items-center gap-2.5 rounded-[var(--radius)] p-1.5 text-sm"
+              >
+                <Checkbox
+                  checked={draftIds.includes(widget.id)}
+                  onCheckedChange={(checked) => toggleDraft(widget.id, checked === true)}
+                />
+                <widget.icon className="text-muted-foreground h-4 w-4" />
+                <span>{widget.title}</span>
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfigOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                updateVisibleWidgets(draftIds);
+                setIsConfigOpen(false);
+              }}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+/**
+ * Freight invoice draft dialog
+ * Collects the transporter vendor, G/L account and vendor invoice number,
+ * creates the draft and opens it on the purchase invoice page
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AccountSelect } from "@/components/forms/account-select";
+import { TransporterSelect } from "@/components/forms/shared/transporter-select";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { toastError } from "@/lib/errors";
+import { queueFormStackAction } from "@/lib/form-stack/storage";
+import {
+  createFreightInvoiceDraft,
+  formatFreightAmount,
+  getFreightInvoiceDescription,
+  type FreightGroup,
+} from "@/lib/freight";
+
+interface FreightInvoiceDialogProps {
+  group: FreightGroup | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FreightInvoiceDialog({
+  group,
+  onOpenChange,
+}: FreightInvoiceDialogProps) {
+  return (
+    <Dialog open={!!group} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Draft Freight Invoice</DialogTitle>
+          <DialogDescription>
+            {group
+              ? `${group.transporter} · ${getFreightInvoiceDescription(group)}`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+        {group && (
+          <FreightInvoiceForm
+            key={group.key}
+            group={group}
+            onClose={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FreightInvoiceForm({
+  group,
+  onClose,
+}: {
+  group: FreightGroup;
+  onClose: () => void;
+}) {
+  const router = useRouter();
+  const { userID } = useAuth();
+  const [vendorNo, setVendorNo] = useState("");
+  const [vendorName, setVendorName] = useState<string | undefined>(undefined);
+  const [glAccountNo, setGlAccountNo] = useState("");
+  const [vendorInvoiceNo, setVendorInvoiceNo] = useState("");
+  const [postingDate, setPostingDate] = useState(() =>
+    format(new Date(), "yyyy-MM-dd"),
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canSubmit =
+    !!vendorNo && !!glAccountNo && !!vendorInvoiceNo.trim() && !!postingDate;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    try {
+      const invoiceNo = await createFreightInvoiceDraft(group, {
+        vendorNo,
+        vendorName,
+        vendorInvoiceNo: vendorInvoiceNo.trim(),
+        glAccountNo,
+        postingDate,
+        userId: userID ?? undefined,
+      });
+      toast.success(`Purchase invoice ${invoiceNo} created`);
+      queueFormStackAction("purchase", {
+        type: "open",
+        formType: "purchase-document",
+        options: {
+          title: `Invoice ${invoiceNo}${vendorName ? ` - ${vendorName}` : ""}`,
+          context: {
+            documentType: "invoice",
+            mode: "view",
+            orderNo: invoiceNo,
+            vendorName,
+          },
+          autoCloseOnSuccess: false,
+        },
+      });
+      onClose();
+      router.push("/purchase/invoice");
+    } catch (error) {
+      toastError(error, "Failed to create the freight invoice");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-2 rounded-md border px-3 py-2 text-sm">
+        <div>
+          <div className="text-muted-foreground text-xs">Freight</div>
+          <div className="font-medium">{formatFreightAmount(group.freightAmount)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground text-xs">Shortage deduction</div>
+          <div className="font-medium">{formatFreightAmount(group.deduction)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground text-xs">Payable</div>
+          <div className="font-semibold">{formatFreightAmount(group.payable)}</div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label>Transporter (Vendor)</Label>
+          <TransporterSelect
+            value={vendorNo}
+            onChange={(value, transporter) => {
+              setVendorNo(value);
+              setVendorName(transporter?.Name);
+            }}
+            placeholder="Select transporter"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Freight G/L Account</Label>
+          <AccountSelect
+            accountType="G/L Account"
+            value={glAccountNo}
+            onChange={setGlAccountNo}
+            placeholder="Select G/L account"
+            modal
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Vendor Invoice No</Label>
+            <Input
+              value={vendorInvoiceNo}
+              onChange={(e) => setVendorInvoiceNo(e.target.value)}
+              placeholder="Transporter's bill number"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Posting Date</Label>
+            <DateInput value={postingDate} onChange={setPostingDate} />
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Create Draft
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
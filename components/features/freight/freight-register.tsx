@@ -0,0 +1,505 @@
+"use client";
+
+/**
+ * Transporter freight register
+ * Freight of inward and outward gate entries by transporter and period,
+ * less shortage deductions, with Excel export and purchase invoice drafts
+ */
+
+import { Fragment, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FilePlus2,
+  Loader2,
+  RefreshCw,
+  Search,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/date";
+import { exportToExcel } from "@/lib/utils/export";
+import {
+  ALL_FREIGHT_DIRECTIONS,
+  formatFreightAmount,
+  useFreightRegister,
+  type FreightGroup,
+  type FreightPeriod,
+  type ShortageRules,
+} from "@/lib/freight";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import { FreightInvoiceDialog } from "./freight-invoice-dialog";
+
+const PERIOD_LABELS: Record<FreightPeriod, string> = {
+  day: "By day",
+  week: "By week",
+  month: "By month",
+};
+
+const SUMMARY_COLUMNS = [
+  { id: "transporter", label: "Transporter" },
+  { id: "periodLabel", label: "Period" },
+  { id: "entryCount", label: "Entries" },
+  { id: "bags", label: "Bags" },
+  { id: "netWeight", label: "Net Weight (kg)" },
+  { id: "shortageKg", label: "Shortage (kg)" },
+  { id: "freightAmount", label: "Freight" },
+  { id: "deduction", label: "Deduction" },
+  { id: "payable", label: "Payable" },
+];
+
+const DETAIL_COLUMNS = [
+  { id: "transporter", label: "Transporter" },
+  { id: "periodLabel", label: "Period" },
+  { id: "direction", label: "Direction" },
+  { id: "no", label: "Gate Entry No" },
+  { id: "postingDate", label: "Posting Date" },
+  { id: "vehicleNo", label: "Vehicle No" },
+  { id: "locationCode", label: "Location" },
+  { id: "bags", label: "Bags" },
+  { id: "perBagFreight", label: "Per Bag Freight" },
+  { id: "expectedWeight", label: "Expected Weight (kg)" },
+  { id: "netWeight", label: "Net Weight (kg)" },
+  { id: "shortageKg", label: "Shortage (kg)" },
+  { id: "freightAmount", label: "Freight" },
+  { id: "deduction", label: "Deduction" },
+  { id: "payable", label: "Payable" },
+];
+
+const RULE_FIELDS: Array<{ key: keyof ShortageRules; label: string; step: string }> = [
+  { key: "bagWeightKg", label: "Bag weight (kg)", step: "0.01" },
+  { key: "tolerancePercent", label: "Tolerance (%)", step: "0.01" },
+  { key: "ratePerKg", label: "Deduction rate (per kg)", step: "0.01" },
+];
+
+export function FreightRegister() {
+  const { can } = useAuth();
+  const {
+    filters,
+    updateFilters,
+    rules,
+    setRules,
+    groups,
+    truncatedDirections,
+    error,
+    isLoading,
+    refetch,
+  } = useFreightRegister();
+  const [search, setSearch] = useState("");
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+  const [invoiceGroup, setInvoiceGroup] = useState<FreightGroup | null>(null);
+
+  const canDraftInvoice = can("purchase", "edit");
+
+  const visibleGroups = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return groups;
+    return groups.filter(
+      (group) =>
+        group.transporter.toLowerCase().includes(term) ||
+        group.entries.some(
+          (entry) =>
+            entry.no.toLowerCase().includes(term) ||
+            entry.vehicleNo.toLowerCase().includes(term),
+        ),
+    );
+  }, [groups, search]);
+
+  const totals = useMemo(
+    () => ({
+      entries: visibleGroups.reduce((sum, g) => sum + g.entries.length, 0),
+      freightAmount: visibleGroups.reduce((sum, g) => sum + g.freightAmount, 0),
+      deduction: visibleGroups.reduce((sum, g) => sum + g.deduction, 0),
+      payable: visibleGroups.reduce((sum, g) => sum + g.payable, 0),
+    }),
+    [visibleGroups],
+  );
+
+  const toggleDirection = (direction: GateEntryDirection) => {
+    const active = filters.directions.includes(direction);
+    // Keep at least one direction selected
+    if (active && filters.directions.length === 1) return;
+    updateFilters({
+      directions: active
+        ? filters.directions.filter((d) => d !== direction)
+        : ALL_FREIGHT_DIRECTIONS.filter(
+            (d) => d === direction || filters.directions.includes(d),
+          ),
+    });
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const updateRule = (key: keyof ShortageRules, value: string) => {
+    const parsed = parseFloat(value);
+    setRules({ ...rules, [key]: isNaN(parsed) || parsed < 0 ? 0 : parsed });
+  };
+
+  const handleExport = (detailed: boolean) => {
+    const appliedFilters = [
+      `Posting Date: ${formatDate(filters.fromDate)} to ${formatDate(filters.toDate)}`,
+      `Direction: ${filters.directions.join(", ")}`,
+      `Period: ${PERIOD_LABELS[filters.period]}`,
+      `Shortage: ${rules.bagWeightKg} kg per bag, ${rules.tolerancePercent}% tolerance, ${rules.ratePerKg} per kg`,
+      ...(search.trim() ? [`Search: ${search.trim()}`] : []),
+    ];
+    const filename = `Freight_Register_${filters.fromDate}_${filters.toDate}`;
+
+    if (detailed) {
+      const rows = visibleGroups.flatMap((group) =>
+        group.entries.map((entry) => ({
+          ...entry,
+          periodLabel: group.periodLabel,
+          postingDate: formatDate(entry.postingDate),
+        })),
+      );
+      exportToExcel(
+        rows,
+        DETAIL_COLUMNS.map((col) => col.id),
+        appliedFilters,
+        `${filename}_Details`,
+        DETAIL_COLUMNS,
+      );
+      return;
+    }
+
+    const rows = visibleGroups.map((group) => ({
+      ...group,
+      entryCount: group.entries.length,
+    }));
+    exportToExcel(
+      rows,
+      SUMMARY_COLUMNS.map((col) => col.id),
+      appliedFilters,
+      filename,
+      SUMMARY_COLUMNS,
+    );
+  };
+
+  const summaryCards = [
+    { label: "Gate entries", value: totals.entries.toLocaleString() },
+    { label: "Freight", value: formatFreightAmount(totals.freightAmount) },
+    { label: "Shortage deductions", value: formatFreightAmount(totals.deduction) },
+    { label: "Payable", value: formatFreightAmount(totals.payable) },
+  ];
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {summaryCards.map((card) => (
+          <div
+            key={card.label}
+            className="bg-card rounded-[var(--radius)] border px-3 py-2"
+          >
+            <div className="text-muted-foreground text-[12px] font-semibold">
+              {card.label}
+            </div>
+            <div className="text-2xl font-bold tracking-tight">
+              {isLoading ? "-" : card.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-36">
+          <DateInput
+            value={filters.fromDate}
+            onChange={(value) => updateFilters({ fromDate: value })}
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">to</span>
+        <div className="w-36">
+          <DateInput
+            value={filters.toDate}
+            onChange={(value) => updateFilters({ toDate: value })}
+          />
+        </div>
+
+        <div className="flex items-center gap-1">
+          {ALL_FREIGHT_DIRECTIONS.map((direction) => (
+            <Button
+              key={direction}
+              size="sm"
+              variant={filters.directions.includes(direction) ? "secondary" : "outline"}
+              onClick={() => toggleDirection(direction)}
+            >
+              {direction}
+            </Button>
+          ))}
+        </div>
+
+        <Select
+          value={filters.period}
+          onValueChange={(value) => updateFilters({ period: value as FreightPeriod })}
+        >
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PERIOD_LABELS) as FreightPeriod[]).map((period) => (
+              <SelectItem key={period} value={period}>
+                {PERIOD_LABELS[period]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              Shortage Rules
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-64 space-y-3">
+            {RULE_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label className="text-xs">{field.label}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={rules[field.key]}
+                  onChange={(e) => updateRule(field.key, e.target.value)}
+                  className="h-8"
+                />
+              </div>
+            ))}
+            <p className="text-muted-foreground text-xs">
+              Applies to inward entries. Shortage beyond the tolerance is
+              deducted from the freight.
+            </p>
+          </PopoverContent>
+        </Popover>
+
+        <div className="relative w-56">
+          <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
+          <Input
+            placeholder="Transporter, entry, vehicle..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8 pl-8"
+          />
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={refetch}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn("mr-1 h-4 w-4", isLoading && "animate-spin")} />
+            Refresh
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" disabled={isLoading || visibleGroups.length === 0}>
+                <Download className="mr-1 h-4 w-4" />
+                Export
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport(false)}>
+                Summary by transporter
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport(true)}>
+                Gate entry details
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {truncatedDirections.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Only the latest gate entries are included for{" "}
+          {truncatedDirections.join(", ")}. Narrow the date range to see all.
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Transporter</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead className="text-right">Entries</TableHead>
+              <TableHead className="text-right">Bags</TableHead>
+              <TableHead className="text-right">Net Weight (kg)</TableHead>
+              <TableHead className="text-right">Shortage (kg)</TableHead>
+              <TableHead className="text-right">Freight</TableHead>
+              <TableHead className="text-right">Deduction</TableHead>
+              <TableHead className="text-right">Payable</TableHead>
+              <TableHead className="w-32" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && groups.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={11} className="h-24 text-center">
+                  <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={11} className="text-destructive h-24 text-center">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : visibleGroups.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={11} className="text-muted-foreground h-24 text-center">
+                  No freight found
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleGroups.map((group) => {
+                const expanded = expandedKeys.has(group.key);
+                return (
+                  <Fragment key={group.key}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => toggleExpanded(group.key)}
+                    >
+                      <TableCell>
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-56 truncate font-medium">
+                        {group.transporter}
+                      </TableCell>
+                      <TableCell>{group.periodLabel}</TableCell>
+                      <TableCell className="text-right">{group.entries.length}</TableCell>
+                      <TableCell className="text-right">{group.bags.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{group.netWeight.toLocaleString()}</TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right",
+                          group.shortageKg > 0 && "text-amber-600 dark:text-amber-400",
+                        )}
+                      >
+                        {group.shortageKg.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatFreightAmount(group.freightAmount)}
+                      </TableCell>
+                      <TableCell
+                        className={cn("text-right", group.deduction > 0 && "text-destructive")}
+                      >
+                        {formatFreightAmount(group.deduction)}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatFreightAmount(group.payable)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!canDraftInvoice || !(group.payable > 0)}
+                          title={
+                            canDraftInvoice
+                              ? "Create a purchase invoice for this freight"
+                              : "You do not have permission to create purchase invoices"
+                          }
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setInvoiceGroup(group);
+                          }}
+                        >
+                          <FilePlus2 className="mr-1 h-4 w-4" />
+                          Draft Invoice
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expanded &&
+                      group.entries.map((entry) => (
+                        <TableRow key={entry.key} className="bg-muted/30 text-xs">
+                          <TableCell />
+                          <TableCell className="text-muted-foreground">
+                            {entry.direction} · {entry.no}
+                          </TableCell>
+                          <TableCell>{formatDate(entry.postingDate)}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {entry.vehicleNo || "-"}
+                          </TableCell>
+                          <TableCell className="text-right">{entry.bags.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{entry.netWeight.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">
+                            {entry.shortageKg ? entry.shortageKg.toLocaleString() : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatFreightAmount(entry.freightAmount)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {entry.deduction ? formatFreightAmount(entry.deduction) : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatFreightAmount(entry.payable)}
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                      ))}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <FreightInvoiceDialog
+        group={invoiceGroup}
+        onOpenChange={(open) => !open && setInvoiceGroup(null)}
+      />
+    </div>
+  );
+}
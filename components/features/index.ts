@@ -3,5 +3,9 @@
  * Export all feature components from here
  */
 
-// Example: export { UserProfile } from './user-profile';
-// Add feature component exports here as they are created
+export { KpiDashboard } from "./dashboard/kpi-dashboard";
+export { ComplianceWorkspace } from "./compliance/compliance-workspace";
+export { FreightRegister } from "./freight/freight-register";
+export { VehicleTurnaround } from "./turnaround/vehicle-turnaround";
+export { VendorQualityScorecard } from "./vendor-quality/vendor-quality-scorecard";
+export { PayablesWorkspace } from "./payables/payables-workspace";
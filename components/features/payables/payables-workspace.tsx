@@ -0,0 +1,499 @@
+"use client";
+
+/**
+ * Payables workspace
+ * Open vendor entries bucketed by due date, vendors with TDS sections flagged;
+ * ticked entries make up a payment proposal that becomes Cash Payment vouchers
+ */
+
+import { Fragment, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Loader2,
+  RefreshCw,
+  Search,
+  WalletCards,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/lib/contexts/auth-context";
+import {
+  DUE_BUCKETS,
+  PAYABLES_MAX_ENTRIES,
+  canProposeEntry,
+  emptyDueBuckets,
+  formatPayableAmount,
+  getProposalAmount,
+  usePayables,
+  type DueBucketKey,
+  type PayableEntry,
+  type PaymentProposalLine,
+  type PaymentRunResult,
+} from "@/lib/payables";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/date";
+import { exportToExcel } from "@/lib/utils/export";
+import { PaymentProposalDialog } from "./payment-proposal-dialog";
+
+type BucketFilter = DueBucketKey | "all";
+
+const BUCKET_CLASSES: Partial<Record<DueBucketKey, string>> = {
+  overdue: "text-destructive",
+  thisWeek: "text-amber-600 dark:text-amber-400",
+};
+
+const EXPORT_COLUMNS = [
+  { id: "vendorNo", label: "Vendor No" },
+  { id: "vendorName", label: "Vendor Name" },
+  { id: "tds", label: "TDS Sections" },
+  { id: "documentType", label: "Document Type" },
+  { id: "documentNo", label: "Document No" },
+  { id: "externalDocumentNo", label: "External Document No" },
+  { id: "postingDate", label: "Posting Date" },
+  { id: "dueDate", label: "Due Date" },
+  { id: "daysToDue", label: "Days to Due" },
+  { id: "bucket", label: "Bucket" },
+  { id: "amountDue", label: "Amount Due" },
+  { id: "onHold", label: "On Hold" },
+  { id: "appliedTo", label: "Applied To" },
+];
+
+const BUCKET_LABELS = Object.fromEntries(
+  DUE_BUCKETS.map(({ key, label }) => [key, label]),
+) as Record<DueBucketKey, string>;
+
+function formatDaysToDue(days: number): string {
+  if (days < 0) return `${-days} ${days === -1 ? "day" : "days"} overdue`;
+  if (days === 0) return "Due today";
+  return `In ${days} ${days === 1 ? "day" : "days"}`;
+}
+
+export function PayablesWorkspace() {
+  const { can } = useAuth();
+  const { vendors, asOfDate, tdsSections, isLoadingTDS, truncated, error, isLoading, refetch } =
+    usePayables();
+  const [bucketFilter, setBucketFilter] = useState<BucketFilter>("all");
+  const [search, setSearch] = useState("");
+  const [expandedVendors, setExpandedVendors] = useState<Set<string>>(new Set());
+  const [selectedEntryNos, setSelectedEntryNos] = useState<Set<number>>(new Set());
+  const [proposal, setProposal] = useState<PaymentProposalLine[] | null>(null);
+
+  const canPay = can("voucher", "edit");
+
+  const summary = useMemo(() => {
+    const totals = emptyDueBuckets();
+    for (const vendor of vendors) {
+      for (const { key } of DUE_BUCKETS) totals[key] += vendor.buckets[key];
+    }
+    return totals;
+  }, [vendors]);
+
+  // Vendors and entries matching the bucket and search
+  const visibleVendors = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return vendors
+      .map((vendor) => {
+        const vendorMatches =
+          !term ||
+          vendor.vendorNo.toLowerCase().includes(term) ||
+          vendor.vendorName.toLowerCase().includes(term);
+        const entries = vendor.entries.filter(
+          (payable) =>
+            (bucketFilter === "all" || payable.bucket === bucketFilter) &&
+            (vendorMatches ||
+              [payable.entry.Document_No, payable.entry.External_Document_No].some((value) =>
+                (value || "").toLowerCase().includes(term),
+              )),
+        );
+        return { vendor, entries };
+      })
+      .filter(({ entries }) => entries.length > 0);
+  }, [vendors, bucketFilter, search]);
+
+  const proposalLines = useMemo<PaymentProposalLine[]>(
+    () =>
+      vendors
+        .map((vendor) => ({
+          vendor,
+          entries: vendor.entries.filter(
+            (payable) => canProposeEntry(payable) && selectedEntryNos.has(payable.entry.Entry_No),
+          ),
+        }))
+        .filter(({ entries }) => entries.length > 0),
+    [vendors, selectedEntryNos],
+  );
+  const proposalTotal = proposalLines.reduce(
+    (sum, line) => sum + getProposalAmount(line.entries),
+    0,
+  );
+
+  const toggleExpanded = (vendorNo: string) => {
+    setExpandedVendors((prev) => {
+      const next = new Set(prev);
+      if (next.has(vendorNo)) {
+        next.delete(vendorNo);
+      } else {
+        next.add(vendorNo);
+      }
+      return next;
+    });
+  };
+
+  const toggleEntry = (entryNo: number) => {
+    setSelectedEntryNos((prev) => {
+      const next = new Set(prev);
+      if (next.has(entryNo)) {
+        next.delete(entryNo);
+      } else {
+        next.add(entryNo);
+      }
+      return next;
+    });
+  };
+
+  const toggleVendor = (entries: PayableEntry[], checked: boolean) => {
+    setSelectedEntryNos((prev) => {
+      const next = new Set(prev);
+      for (const payable of entries) {
+        if (!canProposeEntry(payable)) continue;
+        if (checked) next.add(payable.entry.Entry_No);
+        else next.delete(payable.entry.Entry_No);
+      }
+      return next;
+    });
+  };
+
+  const handleCompleted = (results: PaymentRunResult[]) => {
+    // Entries that could not be applied stay ticked for the next run
+    const paidVendors = new Map(
+      results
+        .filter((result) => result.documentNo)
+        .map((result) => [result.vendorNo, new Set(result.failedEntries)]),
+    );
+    setSelectedEntryNos((prev) => {
+      const next = new Set(prev);
+      for (const line of proposal ?? []) {
+        const failed = paidVendors.get(line.vendor.vendorNo);
+        if (!failed) continue;
+        for (const payable of line.entries) {
+          if (!failed.has(payable.entry.Entry_No)) next.delete(payable.entry.Entry_No);
+        }
+      }
+      return next;
+    });
+    refetch();
+  };
+
+  const handleExport = () => {
+    const rows = visibleVendors.flatMap(({ vendor, entries }) =>
+      entries.map((payable) => ({
+        vendorNo: vendor.vendorNo,
+        vendorName: vendor.vendorName,
+        tds: (tdsSections[vendor.vendorNo] ?? []).map((s) => s.TDS_Section).join(", "),
+        documentType: payable.entry.Document_Type,
+        documentNo: payable.entry.Document_No,
+        externalDocumentNo: payable.entry.External_Document_No,
+        postingDate: formatDate(payable.entry.Posting_Date),
+        dueDate: formatDate(payable.dueDate),
+        daysToDue: payable.daysToDue,
+        bucket: BUCKET_LABELS[payable.bucket],
+        amountDue: payable.amountDue,
+        onHold: payable.onHold ? "Yes" : "",
+        appliedTo: payable.appliedTo,
+      })),
+    );
+    exportToExcel(
+      rows,
+      EXPORT_COLUMNS.map((col) => col.id),
+      [
+        `Due dates as of ${formatDate(asOfDate)}`,
+        ...(bucketFilter !== "all" ? [`Bucket: ${BUCKET_LABELS[bucketFilter]}`] : []),
+        ...(search.trim() ? [`Search: ${search.trim()}`] : []),
+      ],
+      `Payables_${asOfDate}`,
+      EXPORT_COLUMNS,
+    );
+  };
+
+  const colSpan = DUE_BUCKETS.length + 4;
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {DUE_BUCKETS.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setBucketFilter(bucketFilter === key ? "all" : key)}
+            className={cn(
+              "bg-card rounded-[var(--radius)] border px-3 py-2 text-left transition-colors hover:border-primary/60",
+              bucketFilter === key && "border-primary",
+            )}
+          >
+            <div className="text-muted-foreground text-[12px] font-semibold">{label}</div>
+            <div
+              className={cn(
+                "text-2xl font-bold tracking-tight",
+                summary[key] > 0 && BUCKET_CLASSES[key],
+              )}
+            >
+              {isLoading ? "-" : formatPayableAmount(summary[key])}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-64">
+          <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
+          <Input
+            placeholder="Vendor, document no..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8 pl-8"
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">
+          Due dates as of {formatDate(asOfDate)}
+          {isLoadingTDS && !isLoading && " · checking TDS sections..."}
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={refetch} disabled={isLoading}>
+            <RefreshCw className={cn("mr-1 h-4 w-4", isLoading && "animate-spin")} />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isLoading || visibleVendors.length === 0}
+          >
+            <Download className="mr-1 h-4 w-4" />
+            Export
+          </Button>
+          <Button
+            size="sm"
+            disabled={!canPay || proposalLines.length === 0}
+            title={
+              canPay
+                ? "Create Cash Payment vouchers for the ticked entries"
+                : "You do not have permission to create vouchers"
+            }
+            onClick={() => setProposal(proposalLines)}
+          >
+            <WalletCards className="mr-1 h-4 w-4" />
+            Payment Proposal
+            {proposalLines.length > 0 && ` (${formatPayableAmount(proposalTotal)})`}
+          </Button>
+        </div>
+      </div>
+
+      {truncated && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Only the first {PAYABLES_MAX_ENTRIES.toLocaleString()} open entries were loaded.
+          Use the vendor ledger for vendors missing here.
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead className="w-10" />
+              <TableHead>Vendor / Document</TableHead>
+              {DUE_BUCKETS.map(({ key, label }) => (
+                <TableHead key={key} className="text-right">
+                  {label}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && vendors.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="h-24 text-center">
+                  <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-destructive h-24 text-center">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : visibleVendors.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-muted-foreground h-24 text-center">
+                  Nothing to pay
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleVendors.map(({ vendor, entries }) => {
+                const expanded = expandedVendors.has(vendor.vendorNo);
+                const payable = entries.filter(canProposeEntry);
+                const selectedCount = payable.filter((p) =>
+                  selectedEntryNos.has(p.entry.Entry_No),
+                ).length;
+                const sections = tdsSections[vendor.vendorNo] ?? [];
+                return (
+                  <Fragment key={vendor.vendorNo}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => toggleExpanded(vendor.vendorNo)}
+                    >
+                      <TableCell>
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          checked={
+                            selectedCount === 0
+                              ? false
+                              : selectedCount === payable.length
+                                ? true
+                                : "indeterminate"
+                          }
+                          disabled={!canPay || payable.length === 0}
+                          onCheckedChange={(checked) => toggleVendor(entries, checked === true)}
+                          aria-label={`Select ${vendor.vendorName || vendor.vendorNo}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="max-w-64 truncate font-medium" title={vendor.vendorName}>
+                            {vendor.vendorName || vendor.vendorNo}
+                          </span>
+                          {sections.length > 0 && (
+                            <span
+                              className="rounded bg-violet-100 px-1.5 py-0.5 text-[10px] font-bold text-violet-700 uppercase dark:bg-violet-500/20 dark:text-violet-300"
+                              title={sections
+                                .map((s) =>
+                                  [s.TDS_Section, s.TDS_Section_Description]
+                                    .filter(Boolean)
+                                    .join(" - "),
+                                )
+                                .join("\n")}
+                            >
+                              TDS {sections.map((s) => s.TDS_Section).join(", ")}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-muted-foreground text-xs">
+                          {vendor.vendorNo} · {entries.length}{" "}
+                          {entries.length === 1 ? "entry" : "entries"}
+                          {selectedCount > 0 && ` · ${selectedCount} ticked`}
+                        </div>
+                      </TableCell>
+                      {DUE_BUCKETS.map(({ key }) => (
+                        <TableCell
+                          key={key}
+                          className={cn(
+                            "text-right tabular-nums",
+                            vendor.buckets[key] > 0 && BUCKET_CLASSES[key],
+                          )}
+                        >
+                          {vendor.buckets[key] ? formatPayableAmount(vendor.buckets[key]) : "-"}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold tabular-nums">
+                        {formatPayableAmount(vendor.total)}
+                      </TableCell>
+                    </TableRow>
+                    {expanded &&
+                      entries.map((item) => (
+                        <TableRow
+                          key={item.entry.Entry_No}
+                          className="bg-muted/30 text-xs"
+                          data-state={
+                            selectedEntryNos.has(item.entry.Entry_No) ? "selected" : undefined
+                          }
+                        >
+                          <TableCell />
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedEntryNos.has(item.entry.Entry_No)}
+                              disabled={!canPay || !canProposeEntry(item)}
+                              onCheckedChange={() => toggleEntry(item.entry.Entry_No)}
+                              title={
+                                item.onHold
+                                  ? "On hold"
+                                  : item.appliedTo
+                                    ? `Already applied to ${item.appliedTo}`
+                                    : undefined
+                              }
+                              aria-label={`Select ${item.entry.Document_No}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">
+                              {item.entry.Document_Type} · {item.entry.Document_No}
+                              {item.onHold && (
+                                <span className="text-destructive ml-2 text-[10px] font-bold uppercase">
+                                  On hold
+                                </span>
+                              )}
+                              {item.appliedTo && (
+                                <span className="ml-2 text-[10px] font-bold text-amber-600 uppercase">
+                                  Applied to {item.appliedTo}
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-muted-foreground">
+                              {[
+                                item.entry.External_Document_No,
+                                `Posted ${formatDate(item.entry.Posting_Date)}`,
+                                `Due ${formatDate(item.dueDate)}`,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                              {" · "}
+                              <span className={cn(item.daysToDue < 0 && "text-destructive")}>
+                                {formatDaysToDue(item.daysToDue)}
+                              </span>
+                            </div>
+                          </TableCell>
+                          {DUE_BUCKETS.map(({ key }) => (
+                            <TableCell key={key} className="text-right tabular-nums">
+                              {item.bucket === key ? formatPayableAmount(item.amountDue) : ""}
+                            </TableCell>
+                          ))}
+                          <TableCell />
+                        </TableRow>
+                      ))}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <PaymentProposalDialog
+        lines={proposal}
+        tdsSections={tdsSections}
+        onOpenChange={(open) => !open && setProposal(null)}
+        onCompleted={handleCompleted}
+      />
+    </div>
+  );
+}
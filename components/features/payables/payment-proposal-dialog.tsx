@@ -0,0 +1,267 @@
+"use client";
+
+/**
+ * Payment proposal dialog
+ * Collects the paying account, posting date and each vendor's TDS section,
+ * then creates the Cash Payment vouchers vendor by vendor and lists each result
+ */
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AccountSelect } from "@/components/forms/account-select";
+import type { TDSGroupCode } from "@/lib/api/services/tds.service";
+import { useAuth } from "@/lib/contexts/auth-context";
+import {
+  formatPayableAmount,
+  getProposalAmount,
+  runPaymentProposal,
+  type PaymentProposalLine,
+  type PaymentRunResult,
+} from "@/lib/payables";
+
+interface PaymentProposalDialogProps {
+  lines: PaymentProposalLine[] | null;
+  tdsSections: Record<string, TDSGroupCode[]>;
+  onOpenChange: (open: boolean) => void;
+  /** Called once a run finishes so the list can reload */
+  onCompleted: (results: PaymentRunResult[]) => void;
+}
+
+const NO_TDS = "NA";
+
+function getResultIcon(result: PaymentRunResult) {
+  if (!result.documentNo) return <XCircle className="text-destructive h-4 w-4" />;
+  if (result.failedEntries.length > 0) {
+    return <AlertTriangle className="h-4 w-4 text-amber-600" />;
+  }
+  return <CheckCircle2 className="h-4 w-4 text-emerald-600" />;
+}
+
+function getResultMessage(result: PaymentRunResult): string {
+  if (!result.documentNo) return result.error || "Not created";
+  const applied = `${result.appliedEntries} ${result.appliedEntries === 1 ? "entry" : "entries"} applied`;
+  if (result.failedEntries.length === 0) return `${result.documentNo} · ${applied}`;
+  const failed = `${result.documentNo} · ${applied}; could not apply entries ${result.failedEntries.join(", ")}`;
+  return result.error ? `${failed}. ${result.error}` : `${failed}; amount reduced to the applied entries`;
+}
+
+export function PaymentProposalDialog({
+  lines,
+  tdsSections,
+  onOpenChange,
+  onCompleted,
+}: PaymentProposalDialogProps) {
+  const { userID } = useAuth();
+  const [balAccountNo, setBalAccountNo] = useState("");
+  const [postingDate, setPostingDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [vendorTds, setVendorTds] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<PaymentRunResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const proposal = lines ?? [];
+  const total = proposal.reduce((sum, line) => sum + getProposalAmount(line.entries), 0);
+  const hasRun = results.length > 0;
+  const isDone = hasRun && !isRunning;
+  const created = results.filter((result) => result.documentNo).length;
+
+  const handleRun = async () => {
+    if (!balAccountNo || !postingDate) return;
+    setIsRunning(true);
+    setResults([]);
+    const selectedTds = Object.fromEntries(
+      Object.entries(vendorTds).filter(([, section]) => section && section !== NO_TDS),
+    );
+    const runResults: PaymentRunResult[] = [];
+    try {
+      await runPaymentProposal(
+        proposal,
+        {
+          balAccountNo,
+          postingDate,
+          tdsSections: selectedTds,
+          userId: userID ?? undefined,
+        },
+        (result) => {
+          runResults.push(result);
+          setResults((prev) => [...prev, result]);
+        },
+      );
+    } finally {
+      setIsRunning(false);
+      onCompleted(runResults);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isRunning) return;
+    if (!open) {
+      setResults([]);
+      setVendorTds({});
+    }
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={!!lines} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payment Proposal</DialogTitle>
+          <DialogDescription>
+            {isDone
+              ? `${created} of ${results.length} voucher(s) created in the WEB batch. Review, attach documents and post them from Cash Payment vouchers.`
+              : `${proposal.length} Cash Payment voucher(s) for ${formatPayableAmount(total)}, one per vendor, with the ticked entries applied.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasRun ? (
+          <div className="space-y-3">
+            <Progress value={(results.length / proposal.length) * 100} />
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              {results.map((result) => (
+                <div
+                  key={result.vendorNo}
+                  className="flex items-start gap-2 border-b px-3 py-2 text-sm last:border-b-0"
+                >
+                  <span className="mt-0.5 shrink-0">{getResultIcon(result)}</span>
+                  <span className="w-44 shrink-0 truncate font-medium" title={result.vendorName}>
+                    {result.vendorName || result.vendorNo}
+                  </span>
+                  <span className="w-28 shrink-0 text-right tabular-nums">
+                    {formatPayableAmount(result.amount)}
+                  </span>
+                  <span
+                    className={
+                      result.documentNo ? "text-muted-foreground" : "text-destructive break-words"
+                    }
+                  >
+                    {getResultMessage(result)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Paid From (G/L Account)</Label>
+                <AccountSelect
+                  accountType="G/L Account"
+                  value={balAccountNo}
+                  onChange={setBalAccountNo}
+                  placeholder="Select bank or cash account"
+                  modal
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Posting Date</Label>
+                <DateInput value={postingDate} onChange={setPostingDate} />
+              </div>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              {proposal.map(({ vendor, entries }) => {
+                const sections = tdsSections[vendor.vendorNo] ?? [];
+                const amount = getProposalAmount(entries);
+                return (
+                  <div
+                    key={vendor.vendorNo}
+                    className="flex items-center gap-2 border-b px-3 py-2 text-sm last:border-b-0"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium" title={vendor.vendorName}>
+                        {vendor.vendorName || vendor.vendorNo}
+                      </div>
+                      <div className="text-muted-foreground text-xs">
+                        {vendor.vendorNo} · {entries.length}{" "}
+                        {entries.length === 1 ? "entry" : "entries"}
+                      </div>
+                    </div>
+                    {sections.length > 0 && (
+                      <Select
+                        value={vendorTds[vendor.vendorNo] ?? NO_TDS}
+                        onValueChange={(value) =>
+                          setVendorTds((prev) => ({ ...prev, [vendor.vendorNo]: value }))
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-40" title="TDS section">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TDS}>No TDS</SelectItem>
+                          {sections.map((section) => (
+                            <SelectItem key={section.TDS_Section} value={section.TDS_Section!}>
+                              {section.TDS_Section}
+                              {section.TDS_Section_Description
+                                ? ` - ${section.TDS_Section_Description}`
+                                : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <span
+                      className={
+                        amount > 0
+                          ? "w-28 text-right font-semibold tabular-nums"
+                          : "text-destructive w-28 text-right font-semibold tabular-nums"
+                      }
+                      title={amount > 0 ? undefined : "Nothing to pay; this vendor is skipped"}
+                    >
+                      {formatPayableAmount(amount)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isDone ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                disabled={isRunning}
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                disabled={isRunning || !balAccountNo || !postingDate || proposal.length === 0}
+                onClick={handleRun}
+              >
+                {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isRunning
+                  ? `Creating ${results.length + 1} of ${proposal.length}`
+                  : "Create Vouchers"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
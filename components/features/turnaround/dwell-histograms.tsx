@@ -0,0 +1,103 @@
+"use client";
+
+/**
+ * Daily dwell histograms
+ * One chart per location: a bar per arrival day, stacked by dwell bucket
+ */
+
+import { format } from "date-fns";
+import {
+  DWELL_BUCKETS,
+  formatDwell,
+  toTimestamp,
+  type LocationHistogram,
+} from "@/lib/turnaround";
+
+/** Shortest to longest dwell */
+const BUCKET_CLASSES = [
+  "bg-emerald-500",
+  "bg-lime-500",
+  "bg-amber-500",
+  "bg-orange-500",
+  "bg-red-500",
+];
+
+const CHART_HEIGHT_PX = 128;
+
+function formatDay(date: string): string {
+  const at = toTimestamp(date);
+  return at === null ? date : format(at, "dd/MM");
+}
+
+export function DwellHistograms({
+  histograms,
+}: {
+  histograms: LocationHistogram[];
+}) {
+  if (histograms.length === 0) {
+    return (
+      <div className="text-muted-foreground flex h-24 items-center justify-center text-sm">
+        No completed visits in this range
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-muted-foreground flex flex-wrap items-center gap-3 text-xs">
+        {DWELL_BUCKETS.map((bucket, index) => (
+          <span key={bucket.id} className="flex items-center gap-1">
+            <span className={`h-2.5 w-2.5 rounded-sm ${BUCKET_CLASSES[index]}`} />
+            {bucket.label}
+          </span>
+        ))}
+      </div>
+
+      {histograms.map((histogram) => {
+        const maxTotal = Math.max(...histogram.days.map((day) => day.total), 1);
+        return (
+          <div key={histogram.locationCode} className="rounded-md border p-3">
+            <div className="mb-2 text-sm font-semibold">
+              {histogram.locationCode}
+            </div>
+            <div className="flex items-end gap-1 overflow-x-auto pb-1">
+              {histogram.days.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex w-10 shrink-0 flex-col items-center gap-1"
+                  title={[
+                    `${formatDay(day.date)}: ${day.total} visit${day.total === 1 ? "" : "s"}, average ${formatDwell(day.avgDwellMinutes)}`,
+                    ...DWELL_BUCKETS.map(
+                      (bucket, index) => `${bucket.label}: ${day.counts[index]}`,
+                    ),
+                  ].join("\n")}
+                >
+                  <span className="text-muted-foreground text-[10px]">
+                    {day.total}
+                  </span>
+                  <div
+                    className="flex w-6 flex-col-reverse overflow-hidden rounded-sm"
+                    style={{ height: (day.total / maxTotal) * CHART_HEIGHT_PX }}
+                  >
+                    {day.counts.map((count, index) =>
+                      count > 0 ? (
+                        <div
+                          key={DWELL_BUCKETS[index].id}
+                          className={BUCKET_CLASSES[index]}
+                          style={{ flexGrow: count }}
+                        />
+                      ) : null,
+                    )}
+                  </div>
+                  <span className="text-muted-foreground text-[10px]">
+                    {formatDay(day.date)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
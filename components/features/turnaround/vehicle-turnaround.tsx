@@ -0,0 +1,448 @@
+"use client";
+
+/**
+ * Vehicle turnaround analytics
+ * Dwell time of gate entry visits split into stages, per-vehicle summaries
+ * and daily dwell histograms per location
+ */
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2, RefreshCw, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import {
+  ALL_TURNAROUND_DIRECTIONS,
+  buildDailyHistograms,
+  formatDwell,
+  getBottleneck,
+  getStageLabel,
+  summarizeVehicles,
+  useVehicleTurnaround,
+  type TurnaroundStage,
+  type VehicleVisit,
+} from "@/lib/turnaround";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import { DwellHistograms } from "./dwell-histograms";
+
+type TurnaroundTab = "visits" | "vehicles" | "daily";
+
+const ALL_LOCATIONS = "__all__";
+
+const STAGE_CLASSES: Record<TurnaroundStage, string> = {
+  qc: "bg-amber-500",
+  unload: "bg-sky-500",
+  posting: "bg-violet-500",
+};
+
+function formatTime(at: number | null): string {
+  return at === null ? "-" : format(at, "dd/MM/yyyy HH:mm");
+}
+
+function StageBar({ visit }: { visit: VehicleVisit }) {
+  const total = visit.stages.reduce((sum, stage) => sum + stage.minutes, 0);
+  if (total <= 0) return <span className="text-muted-foreground">-</span>;
+
+  return (
+    <div className="flex h-2 w-32 overflow-hidden rounded-full bg-muted">
+      {visit.stages.map(({ stage, minutes }) =>
+        minutes > 0 ? (
+          <div
+            key={stage}
+            className={STAGE_CLASSES[stage]}
+            style={{ width: `${(minutes / total) * 100}%` }}
+            title={`${getStageLabel(stage, visit.direction)}: ${formatDwell(minutes)}`}
+          />
+        ) : null,
+      )}
+    </div>
+  );
+}
+
+function StatusRow({
+  colSpan,
+  isLoading,
+  error,
+  isEmpty,
+}: {
+  colSpan: number;
+  isLoading: boolean;
+  error: string | null;
+  isEmpty: boolean;
+}) {
+  if (isLoading) {
+    return (
+      <TableRow>
+        <TableCell colSpan={colSpan} className="h-24 text-center">
+          <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+        </TableCell>
+      </TableRow>
+    );
+  }
+  if (error) {
+    return (
+      <TableRow>
+        <TableCell colSpan={colSpan} className="text-destructive h-24 text-center">
+          {error}
+        </TableCell>
+      </TableRow>
+    );
+  }
+  if (isEmpty) {
+    return (
+      <TableRow>
+        <TableCell colSpan={colSpan} className="text-muted-foreground h-24 text-center">
+          No visits found
+        </TableCell>
+      </TableRow>
+    );
+  }
+  return null;
+}
+
+export function VehicleTurnaround() {
+  const {
+    filters,
+    updateFilters,
+    visits,
+    locations,
+    truncatedSources,
+    error,
+    isLoading,
+    refetch,
+  } = useVehicleTurnaround();
+  const [tab, setTab] = useState<TurnaroundTab>("visits");
+  const [search, setSearch] = useState("");
+
+  const visibleVisits = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return visits;
+    return visits.filter((visit) =>
+      [visit.no, visit.vehicleNo, visit.transporter, visit.sourceNo].some(
+        (value) => value.toLowerCase().includes(term),
+      ),
+    );
+  }, [visits, search]);
+
+  const vehicles = useMemo(() => summarizeVehicles(visibleVisits), [visibleVisits]);
+  const histograms = useMemo(
+    () => buildDailyHistograms(visibleVisits),
+    [visibleVisits],
+  );
+
+  const summary = useMemo(() => {
+    const completed = visibleVisits.filter((visit) => visit.posted);
+    const bottleneck = getBottleneck(completed);
+    return [
+      { label: "Visits", value: visibleVisits.length.toLocaleString() },
+      {
+        label: "On site now",
+        value: (visibleVisits.length - completed.length).toLocaleString(),
+      },
+      {
+        label: "Average dwell",
+        value:
+          completed.length > 0
+            ? formatDwell(
+                completed.reduce((sum, visit) => sum + visit.dwellMinutes, 0) /
+                  completed.length,
+              )
+            : "-",
+      },
+      {
+        label: "Main bottleneck",
+        value: bottleneck ? getStageLabel(bottleneck) : "-",
+      },
+    ];
+  }, [visibleVisits]);
+
+  const toggleDirection = (direction: GateEntryDirection) => {
+    const active = filters.directions.includes(direction);
+    // Keep at least one direction selected
+    if (active && filters.directions.length === 1) return;
+    updateFilters({
+      directions: active
+        ? filters.directions.filter((d) => d !== direction)
+        : ALL_TURNAROUND_DIRECTIONS.filter(
+            (d) => d === direction || filters.directions.includes(d),
+          ),
+    });
+  };
+
+  return (
+    <Tabs
+      value={tab}
+      onValueChange={(value) => setTab(value as TurnaroundTab)}
+      className="flex min-h-0 flex-1 flex-col gap-3"
+    >
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {summary.map((card) => (
+          <div
+            key={card.label}
+            className="bg-card rounded-[var(--radius)] border px-3 py-2"
+          >
+            <div className="text-muted-foreground text-[12px] font-semibold">
+              {card.label}
+            </div>
+            <div className="text-2xl font-bold tracking-tight">
+              {isLoading ? "-" : card.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-36">
+          <DateInput
+            value={filters.fromDate}
+            onChange={(value) => updateFilters({ fromDate: value })}
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">to</span>
+        <div className="w-36">
+          <DateInput
+            value={filters.toDate}
+            onChange={(value) => updateFilters({ toDate: value })}
+          />
+        </div>
+
+        <div className="flex items-center gap-1">
+          {ALL_TURNAROUND_DIRECTIONS.map((direction) => (
+            <Button
+              key={direction}
+              size="sm"
+              variant={filters.directions.includes(direction) ? "secondary" : "outline"}
+              onClick={() => toggleDirection(direction)}
+            >
+              {direction}
+            </Button>
+          ))}
+        </div>
+
+        <Select
+          value={filters.locationCode || ALL_LOCATIONS}
+          onValueChange={(value) =>
+            updateFilters({ locationCode: value === ALL_LOCATIONS ? "" : value })
+          }
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+            {locations.map((location) => (
+              <SelectItem key={location} value={location}>
+                {location}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="relative w-56">
+          <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
+          <Input
+            placeholder="Vehicle, entry, transporter..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8 pl-8"
+          />
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          <TabsList>
+            <TabsTrigger value="visits">Visits</TabsTrigger>
+            <TabsTrigger value="vehicles">Vehicles</TabsTrigger>
+            <TabsTrigger value="daily">Daily by Location</TabsTrigger>
+          </TabsList>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={refetch}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn("mr-1 h-4 w-4", isLoading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {truncatedSources.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Only part of {truncatedSources.join(", ")} was loaded. Narrow the
+          date range for complete figures.
+        </div>
+      )}
+
+      <TabsContent value="visits" className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead>Gate Entry</TableHead>
+              <TableHead>Vehicle No</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Arrived</TableHead>
+              <TableHead>Departed</TableHead>
+              <TableHead>QC</TableHead>
+              <TableHead>Receipt / Shipment</TableHead>
+              <TableHead className="text-right">Dwell</TableHead>
+              <TableHead>Stages</TableHead>
+              <TableHead>Bottleneck</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <StatusRow
+              colSpan={11}
+              isLoading={isLoading}
+              error={error}
+              isEmpty={visibleVisits.length === 0}
+            />
+            {!isLoading &&
+              !error &&
+              visibleVisits.map((visit) => (
+                <TableRow key={visit.key}>
+                  <TableCell>
+                    <div className="font-medium">{visit.no}</div>
+                    <div className="text-muted-foreground text-xs">
+                      {visit.direction}
+                    </div>
+                  </TableCell>
+                  <TableCell>{visit.vehicleNo || "-"}</TableCell>
+                  <TableCell>{visit.locationCode || "-"}</TableCell>
+                  <TableCell className="text-xs">
+                    {visit.sourceNo ? (
+                      <>
+                        <div>{visit.sourceNo}</div>
+                        <div className="text-muted-foreground">{visit.sourceType}</div>
+                      </>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatTime(visit.arrivedAt)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {visit.posted ? (
+                      formatTime(visit.departedAt)
+                    ) : (
+                      <Badge className="bg-amber-500/10 text-amber-600 dark:text-amber-400">
+                        On site
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {visit.qcDocuments.join(", ") || "-"}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {visit.unloadDocuments.join(", ") || "-"}
+                  </TableCell>
+                  <TableCell className="text-right font-medium whitespace-nowrap">
+                    {formatDwell(visit.dwellMinutes)}
+                  </TableCell>
+                  <TableCell>
+                    <StageBar visit={visit} />
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {visit.bottleneck ? (
+                      <span className="flex items-center gap-1">
+                        <span
+                          className={cn("h-2 w-2 rounded-full", STAGE_CLASSES[visit.bottleneck])}
+                        />
+                        {getStageLabel(visit.bottleneck, visit.direction)}
+                      </span>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      </TabsContent>
+
+      <TabsContent value="vehicles" className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead>Vehicle No</TableHead>
+              <TableHead>Transporter</TableHead>
+              <TableHead className="text-right">Visits</TableHead>
+              <TableHead className="text-right">On Site</TableHead>
+              <TableHead className="text-right">Average Dwell</TableHead>
+              <TableHead className="text-right">Longest Dwell</TableHead>
+              <TableHead>Bottleneck</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <StatusRow
+              colSpan={7}
+              isLoading={isLoading}
+              error={error}
+              isEmpty={vehicles.length === 0}
+            />
+            {!isLoading &&
+              !error &&
+              vehicles.map((vehicle) => (
+                <TableRow key={vehicle.vehicleNo}>
+                  <TableCell className="font-medium">{vehicle.vehicleNo}</TableCell>
+                  <TableCell className="max-w-56 truncate">
+                    {vehicle.transporter || "-"}
+                  </TableCell>
+                  <TableCell className="text-right">{vehicle.visits}</TableCell>
+                  <TableCell className="text-right">{vehicle.onSite || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {vehicle.visits > vehicle.onSite
+                      ? formatDwell(vehicle.avgDwellMinutes)
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {vehicle.visits > vehicle.onSite
+                      ? formatDwell(vehicle.maxDwellMinutes)
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {vehicle.bottleneck ? getStageLabel(vehicle.bottleneck) : "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      </TabsContent>
+
+      <TabsContent value="daily" className="min-h-0 flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center">
+            <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="text-destructive flex h-24 items-center justify-center text-sm">
+            {error}
+          </div>
+        ) : (
+          <DwellHistograms histograms={histograms} />
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
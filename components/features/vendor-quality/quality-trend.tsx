@@ -0,0 +1,62 @@
+"use client";
+
+/**
+ * Monthly quality trend
+ * Rejection and deviation shares of the inspected quantity as stacked bars
+ */
+
+import type { QualityTrendPoint } from "@/lib/qc";
+
+export function QualityTrend({ points }: { points: QualityTrendPoint[] }) {
+  if (points.length === 0) {
+    return (
+      <div className="text-muted-foreground py-6 text-center text-sm">
+        No receipts in this period
+      </div>
+    );
+  }
+
+  // Scale to the worst month so small rates stay visible
+  const scale = Math.max(
+    ...points.map((point) => point.rejectionRate + point.deviationRate),
+    1,
+  );
+
+  return (
+    <div className="space-y-1.5">
+      {points.map((point) => (
+        <div key={point.periodKey} className="flex items-center gap-2 text-xs">
+          <div className="text-muted-foreground w-16 shrink-0">{point.label}</div>
+          <div className="bg-muted flex h-3 flex-1 overflow-hidden rounded-full">
+            <div
+              className="bg-red-500"
+              style={{ width: `${(point.rejectionRate / scale) * 100}%` }}
+              title={`Rejected: ${point.rejectionRate}%`}
+            />
+            <div
+              className="bg-orange-400"
+              style={{ width: `${(point.deviationRate / scale) * 100}%` }}
+              title={`Accepted with deviation: ${point.deviationRate}%`}
+            />
+          </div>
+          <div className="w-40 shrink-0 text-right tabular-nums">
+            <span className="text-red-600 dark:text-red-400">{point.rejectionRate}%</span>
+            {" / "}
+            <span className="text-orange-600 dark:text-orange-400">
+              {point.deviationRate}%
+            </span>
+            <span className="text-muted-foreground"> · {point.receipts} QC</span>
+          </div>
+        </div>
+      ))}
+      <div className="text-muted-foreground flex gap-4 pt-1 text-[11px]">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-full bg-red-500" /> Rejected
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-full bg-orange-400" /> Accepted with deviation
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+/**
+ * One vendor's scorecard: monthly trend, per-parameter averages from the
+ * receipt lines and the receipts themselves, which open in the form stack
+ */
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useFormStackContext } from "@/lib/form-stack/form-stack-context";
+import { cn } from "@/lib/utils";
+import {
+  buildQualityTrend,
+  PARAMETER_SAMPLE_RECEIPTS,
+  useVendorParameterScores,
+  type ParameterScore,
+  type QCReceiptSummary,
+  type VendorScore,
+} from "@/lib/qc";
+import { QualityTrend } from "./quality-trend";
+
+type DetailTab = "trend" | "parameters" | "receipts";
+
+function formatQty(value: number): string {
+  return value.toLocaleString("en-IN", { maximumFractionDigits: 3 });
+}
+
+function formatDate(value: string): string {
+  const [year, month, day] = value.split("-").map(Number);
+  if (!year || year < 1900) return "-";
+  return format(new Date(year, month - 1, day), "dd/MM/yyyy");
+}
+
+function formatSpec(parameter: ParameterScore): string {
+  if (parameter.isText) return "Text";
+  if (parameter.maxValue) return `${parameter.minValue} – ${parameter.maxValue}`;
+  return parameter.minValue ? `≥ ${parameter.minValue}` : "-";
+}
+
+function ParameterTable({ vendor }: { vendor: VendorScore }) {
+  const { parameters, sampledReceipts, error, isLoading } =
+    useVendorParameterScores(vendor);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-24 items-center justify-center">
+        <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+  if (error) {
+    return <div className="text-destructive py-6 text-center text-sm">{error}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {vendor.receipts.length > PARAMETER_SAMPLE_RECEIPTS && (
+        <p className="text-muted-foreground text-xs">
+          Averages over the latest {sampledReceipts} of {vendor.receipts.length}{" "}
+          receipts
+        </p>
+      )}
+      <Table>
+        <TableHeader className="bg-muted/50">
+          <TableRow>
+            <TableHead>Parameter</TableHead>
+            <TableHead>Specification</TableHead>
+            <TableHead className="text-right">Samples</TableHead>
+            <TableHead className="text-right">Avg Actual</TableHead>
+            <TableHead className="text-right">Avg Deviation %</TableHead>
+            <TableHead className="text-right">Deviations</TableHead>
+            <TableHead className="text-right">Failures</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {parameters.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-muted-foreground h-24 text-center">
+                No parameters recorded
+              </TableCell>
+            </TableRow>
+          )}
+          {parameters.map((parameter) => (
+            <TableRow key={parameter.code}>
+              <TableCell>
+                <div className="font-medium">{parameter.description}</div>
+                <div className="text-muted-foreground text-xs">{parameter.code}</div>
+              </TableCell>
+              <TableCell className="text-xs whitespace-nowrap">
+                {formatSpec(parameter)} {parameter.unitOfMeasure}
+              </TableCell>
+              <TableCell className="text-right">{parameter.samples}</TableCell>
+              <TableCell className="text-right">{parameter.avgActual ?? "-"}</TableCell>
+              <TableCell className="text-right">
+                {parameter.avgDeviationPercent || "-"}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-right",
+                  parameter.deviations > 0 && "text-orange-600 dark:text-orange-400",
+                )}
+              >
+                {parameter.deviations || "-"}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-right",
+                  parameter.failures > 0 && "font-semibold text-red-600 dark:text-red-400",
+                )}
+              >
+                {parameter.failures || "-"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function VendorQualityDetail({ vendor }: { vendor: VendorScore }) {
+  const { openTab } = useFormStackContext();
+  const [tab, setTab] = useState<DetailTab>("trend");
+  const trend = useMemo(() => buildQualityTrend(vendor.receipts), [vendor]);
+
+  const openReceipt = (receipt: QCReceiptSummary) => {
+    openTab("qc-receipt-detail", {
+      title: `Posted QC Detail: ${receipt.no}`,
+      context: { receipt: receipt.header, isPosted: true },
+    });
+  };
+
+  return (
+    <Tabs
+      value={tab}
+      onValueChange={(value) => setTab(value as DetailTab)}
+      className="flex min-h-0 flex-1 flex-col gap-2"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-semibold">{vendor.vendorName || vendor.vendorNo}</div>
+          <div className="text-muted-foreground text-xs">
+            {vendor.vendorNo} · {vendor.receipts.length} receipts · {vendor.items} items
+          </div>
+        </div>
+        <TabsList>
+          <TabsTrigger value="trend">Trend</TabsTrigger>
+          <TabsTrigger value="parameters">Parameters</TabsTrigger>
+          <TabsTrigger value="receipts">Receipts</TabsTrigger>
+        </TabsList>
+      </div>
+
+      <TabsContent value="trend" className="min-h-0 flex-1 overflow-auto">
+        <QualityTrend points={trend} />
+      </TabsContent>
+
+      <TabsContent value="parameters" className="min-h-0 flex-1 overflow-auto">
+        <ParameterTable vendor={vendor} />
+      </TabsContent>
+
+      <TabsContent value="receipts" className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead>QC No</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Accepted</TableHead>
+              <TableHead className="text-right">Deviation</TableHead>
+              <TableHead className="text-right">Rejected</TableHead>
+              <TableHead className="text-right">Rebate %</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {vendor.receipts.map((receipt) => (
+              <TableRow
+                key={receipt.no}
+                className="cursor-pointer"
+                onClick={() => openReceipt(receipt)}
+              >
+                <TableCell>
+                  <div className="font-medium">{receipt.no}</div>
+                  <div className="text-muted-foreground text-xs">
+                    {receipt.purchaseReceiptNo || receipt.vehicleNo}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatDate(receipt.qcDate)}
+                </TableCell>
+                <TableCell className="max-w-48 truncate" title={receipt.itemName}>
+                  {receipt.itemName || receipt.itemNo}
+                </TableCell>
+                <TableCell className="text-right">{formatQty(receipt.accepted)}</TableCell>
+                <TableCell className="text-right">
+                  {receipt.deviation ? formatQty(receipt.deviation) : "-"}
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right",
+                    receipt.rejected > 0 && "font-semibold text-red-600 dark:text-red-400",
+                  )}
+                >
+                  {receipt.rejected ? formatQty(receipt.rejected) : "-"}
+                </TableCell>
+                <TableCell className="text-right">{receipt.rebatePercent || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TabsContent>
+    </Tabs>
+  );
+}
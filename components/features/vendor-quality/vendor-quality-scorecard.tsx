@@ -0,0 +1,240 @@
+"use client";
+
+/**
+ * Vendor quality scorecard
+ * Rejection, deviation and rebate per vendor from posted QC receipts, with
+ * the overall trend until a vendor is picked for the drill-down
+ */
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, Loader2, RefreshCw, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { SCORECARD_MAX_RECEIPTS, useVendorScorecard } from "@/lib/qc";
+import { QualityTrend } from "./quality-trend";
+import { VendorQualityDetail } from "./vendor-quality-detail";
+
+function formatQty(value: number): string {
+  return value.toLocaleString("en-IN", { maximumFractionDigits: 3 });
+}
+
+function rateClass(rate: number): string | undefined {
+  if (rate >= 5) return "font-semibold text-red-600 dark:text-red-400";
+  if (rate > 0) return "text-orange-600 dark:text-orange-400";
+  return undefined;
+}
+
+export function VendorQualityScorecard() {
+  const {
+    filters,
+    updateFilters,
+    receipts,
+    vendors,
+    trend,
+    truncated,
+    error,
+    isLoading,
+    refetch,
+  } = useVendorScorecard();
+  const [search, setSearch] = useState(filters.searchTerm);
+  const [selectedVendorNo, setSelectedVendorNo] = useState<string | null>(null);
+
+  const selectedVendor = useMemo(
+    () => vendors.find((vendor) => vendor.vendorNo === selectedVendorNo) ?? null,
+    [vendors, selectedVendorNo],
+  );
+
+  const summary = useMemo(() => {
+    const inspected = vendors.reduce((sum, vendor) => sum + vendor.inspected, 0);
+    const rejected = vendors.reduce((sum, vendor) => sum + vendor.rejected, 0);
+    const rebate = vendors.reduce((sum, vendor) => sum + vendor.rebateQuantity, 0);
+    return [
+      { label: "Vendors", value: vendors.length.toLocaleString() },
+      { label: "Receipts", value: receipts.length.toLocaleString() },
+      {
+        label: "Rejection rate",
+        value: inspected > 0 ? `${Math.round((rejected / inspected) * 10000) / 100}%` : "-",
+      },
+      { label: "Rebate quantity", value: formatQty(Math.round(rebate * 100) / 100) },
+    ];
+  }, [vendors, receipts]);
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {summary.map((card) => (
+          <div
+            key={card.label}
+            className="bg-card rounded-[var(--radius)] border px-3 py-2"
+          >
+            <div className="text-muted-foreground text-[12px] font-semibold">
+              {card.label}
+            </div>
+            <div className="text-2xl font-bold tracking-tight">
+              {isLoading ? "-" : card.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-36">
+          <DateInput
+            value={filters.fromDate}
+            onChange={(value) => updateFilters({ fromDate: value })}
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">to</span>
+        <div className="w-36">
+          <DateInput
+            value={filters.toDate}
+            onChange={(value) => updateFilters({ toDate: value })}
+          />
+        </div>
+
+        {/* Searching goes to the ERP, so it runs on Enter rather than per keystroke */}
+        <form
+          className="relative w-64"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateFilters({ searchTerm: search });
+          }}
+        >
+          <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
+          <Input
+            placeholder="Vendor, item, QC no... (Enter)"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onBlur={() => updateFilters({ searchTerm: search })}
+            className="h-8 pl-8"
+          />
+        </form>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={refetch}
+          disabled={isLoading}
+          className="ml-auto"
+        >
+          <RefreshCw className={cn("mr-1 h-4 w-4", isLoading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {truncated && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Only the latest {SCORECARD_MAX_RECEIPTS.toLocaleString()} receipts were
+          loaded. Narrow the date range for complete figures.
+        </div>
+      )}
+
+      <div className="flex min-h-0 flex-1 flex-col gap-3 lg:flex-row">
+        <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+          <Table>
+            <TableHeader className="bg-muted/50 sticky top-0 z-10">
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead className="text-right">Receipts</TableHead>
+                <TableHead className="text-right">Inspected</TableHead>
+                <TableHead className="text-right">Rejected %</TableHead>
+                <TableHead className="text-right">Deviation %</TableHead>
+                <TableHead className="text-right">Avg Rebate %</TableHead>
+                <TableHead className="text-right">Rebate Qty</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-destructive h-24 text-center">
+                    {error}
+                  </TableCell>
+                </TableRow>
+              ) : vendors.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-muted-foreground h-24 text-center">
+                    No posted QC receipts found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                vendors.map((vendor) => (
+                  <TableRow
+                    key={vendor.vendorNo}
+                    className="cursor-pointer"
+                    data-state={vendor.vendorNo === selectedVendorNo ? "selected" : undefined}
+                    onClick={() =>
+                      setSelectedVendorNo((prev) =>
+                        prev === vendor.vendorNo ? null : vendor.vendorNo,
+                      )
+                    }
+                  >
+                    <TableCell>
+                      <div className="max-w-56 truncate font-medium" title={vendor.vendorName}>
+                        {vendor.vendorName || vendor.vendorNo}
+                      </div>
+                      <div className="text-muted-foreground text-xs">{vendor.vendorNo}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {vendor.receipts.length}
+                      {vendor.rejectedReceipts > 0 && (
+                        <span className="text-muted-foreground text-xs">
+                          {" "}({vendor.rejectedReceipts} rej.)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatQty(vendor.inspected)}</TableCell>
+                    <TableCell className={cn("text-right", rateClass(vendor.rejectionRate))}>
+                      {vendor.rejectionRate}%
+                    </TableCell>
+                    <TableCell className="text-right">{vendor.deviationRate}%</TableCell>
+                    <TableCell className="text-right">
+                      {vendor.avgRebatePercent || "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {vendor.rebateQuantity ? formatQty(vendor.rebateQuantity) : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex min-h-0 flex-col rounded-md border p-3 lg:w-[45%]">
+          {selectedVendor ? (
+            <VendorQualityDetail key={selectedVendor.vendorNo} vendor={selectedVendor} />
+          ) : (
+            <div className="flex min-h-0 flex-1 flex-col gap-2">
+              <div>
+                <div className="font-semibold">All vendors</div>
+                <div className="text-muted-foreground text-xs">
+                  Select a vendor for its parameters and receipts
+                </div>
+              </div>
+              <div className="min-h-0 flex-1 overflow-auto">
+                {!isLoading && <QualityTrend points={trend} />}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,12 @@
 
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { X, ChevronLeft, ChevronRight, Menu } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useFormStackContext } from "@/lib/form-stack/form-stack-context";
 import { getFormComponent } from "@/lib/form-stack/form-registry";
+import { FOCUS_LINE_CONTEXT_KEY } from "@/lib/form-stack/deep-link";
 import type { FormComponent } from "@/lib/form-stack/types";
 import { FormStackTabs } from "./form-stack-tabs";
 import { MiniAccessPanel } from "./mini-access-panel";
@@ -36,6 +37,45 @@ export function FormStackPanel() {
   // Use formType as dependency, not the full currentTab object to avoid unnecessary reloads
   const currentFormType = currentTab?.formType;
   const currentTabId = currentTab?.id;
+  const focusLineNo = currentTab?.context?.[FOCUS_LINE_CONTEXT_KEY] as
+    | number
+    | undefined;
+  const contentRef = useRef<HTMLDivElement>(null);
+  const focusedLinesRef = useRef(new Set<string>());
+
+  // Scroll to and highlight the line a shared link points at once its row renders
+  useEffect(() => {
+    if (!currentTabId || typeof focusLineNo !== "number" || !FormComponent) {
+      return;
+    }
+    const key = `${currentTabId}:${focusLineNo}`;
+    if (focusedLinesRef.current.has(key)) return;
+
+    const highlightClasses = ["ring-2", "ring-primary", "ring-inset"];
+    let attempts = 0;
+    let clearHighlight: ReturnType<typeof setTimeout> | undefined;
+    const timer = setInterval(() => {
+      const row = contentRef.current?.querySelector<HTMLElement>(
+        `[data-line-no="${focusLineNo}"]`,
+      );
+      if (!row && ++attempts < 40) return;
+      clearInterval(timer);
+      if (!row) return;
+
+      focusedLinesRef.current.add(key);
+      row.scrollIntoView({ block: "center" });
+      row.classList.add(...highlightClasses);
+      clearHighlight = setTimeout(
+        () => row.classList.remove(...highlightClasses),
+        4000,
+      );
+    }, 250);
+
+    return () => {
+      clearInterval(timer);
+      if (clearHighlight) clearTimeout(clearHighlight);
+    };
+  }, [currentTabId, focusLineNo, FormComponent]);
 
   const getPanelWidthClass = () => {
     const formType = currentTab?.formType;
@@ -207,7 +247,7 @@ export function FormStackPanel() {
         </div>
 
         {/* Content */}
-        <div className="flex-1 overflow-y-auto">
+        <div ref={contentRef} className="flex-1 overflow-y-auto">
           {tabs.length === 0 ? (
             <div className="flex h-full flex-col items-center justify-center px-4 py-12 text-center">
               <div className="bg-muted/50 mb-4 flex h-20 w-20 items-center justify-center rounded-full">
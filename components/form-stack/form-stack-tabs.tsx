@@ -6,7 +6,8 @@
 "use client";
 
 import React, { useState } from "react";
-import { X } from "lucide-react";
+import { Link2, X } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import {
   AlertDialog,
@@ -19,10 +20,14 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useFormStackContext } from "@/lib/form-stack/form-stack-context";
+import { buildFormTabLink, getTabDocumentNo } from "@/lib/form-stack/deep-link";
+import type { FormTab } from "@/lib/form-stack/types";
+import { toastError } from "@/lib/errors";
 import { cn } from "@/lib/utils";
 
 export function FormStackTabs() {
-  const { tabs, activeTabId, switchTab, closeTab } = useFormStackContext();
+  const { tabs, activeTabId, formScope, switchTab, closeTab } =
+    useFormStackContext();
   const [tabToClose, setTabToClose] = useState<string | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
@@ -43,6 +48,16 @@ export function FormStackTabs() {
     }
   };
 
+  const handleCopyLink = async (e: React.MouseEvent, tab: FormTab) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(buildFormTabLink(formScope, tab));
+      toast.success("Link copied to clipboard");
+    } catch (error) {
+      toastError(error, "Failed to copy link");
+    }
+  };
+
   const handleConfirmClose = () => {
     if (tabToClose) {
       closeTab(tabToClose);
@@ -88,6 +103,18 @@ export function FormStackTabs() {
                 {tab.title}
                 {isUnsaved && <span className="ml-1 text-orange-500">*</span>}
               </span>
+              {getTabDocumentNo(tab.context) && (
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  className="h-5 w-5 shrink-0 opacity-0 transition-opacity group-hover:opacity-100"
+                  onClick={(e) => handleCopyLink(e, tab)}
+                  title="Copy link"
+                >
+                  <Link2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Copy link to tab</span>
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="icon-sm"
@@ -59,12 +59,22 @@ import {
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
+import { isQueuedOfflineError } from "@/lib/api/client";
 import { SourceLookupModal } from "./source-lookup-modal";
 import { LineEntryModal } from "./line-entry-modal";
 import { CascadingDimensionSelect } from "@/components/forms/cascading-dimension-select";
 import { getAuthCredentials } from "@/lib/auth/storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 import { isPostingDateValid } from "@/lib/utils/posting-date";
 import { formatDate } from "@/lib/utils/date";
+import { WeighbridgeCapture } from "@/components/forms/shared/weighbridge-capture";
+import { canOverrideWeighments } from "@/lib/auth/permissions";
+import {
+  computeNetWeight,
+  getLockedWeightFields,
+  useWeighments,
+  type WeightField,
+} from "@/lib/weighbridge";
 
 interface InwardGateEntryFormProps {
   tabId: string;
@@ -140,6 +150,9 @@ export function InwardGateEntryForm({
   const [isConfirmPostOpen, setIsConfirmPostOpen] = useState(false);
 
   const { tab, markAsSaved, updateTab, closeTab } = useFormStack(tabId);
+  const { can, user } = useAuth();
+  const weighments = useWeighments("Inward", entry.No);
+  const lockedWeights = getLockedWeightFields("Inward", weighments.record);
 
   const fetchLines = useCallback(async () => {
     if (!initialEntry?.No) return;
@@ -244,6 +257,20 @@ export function InwardGateEntryForm({
     updateTab({ isSaved: false });
   };
 
+  // The weighments route has already written the weight to the header
+  const handleWeighmentCaptured = (field: WeightField, weight: number) => {
+    setEntry((prev) => {
+      const next = { ...prev, [field]: weight };
+      next.Net_Weight = computeNetWeight(
+        next.Gross_Weight || 0,
+        next.Tier_Weight || 0,
+      );
+      return next;
+    });
+    const onRefetch = context?.refetch as (() => void) | undefined;
+    onRefetch?.();
+  };
+
   async function handleSave() {
     setIsSaving(true);
     try {
@@ -319,6 +346,13 @@ export function InwardGateEntryForm({
       }
       markAsSaved();
     } catch (error: any) {
+      if (isQueuedOfflineError(error)) {
+        // Header is kept in the offline outbox and created once back online
+        toast.info(error.message);
+        markAsSaved();
+        closeTab();
+        return;
+      }
       console.error("Error saving gate entry:", error);
       toastError(error, "Failed to save");
     } finally {
@@ -516,7 +550,7 @@ export function InwardGateEntryForm({
             </Button>
             <Button
               onClick={handlePostClick}
-              disabled={isPosting}
+              disabled={isPosting || !can("gate-entry", "post")}
               size="sm"
               className="h-8 bg-green-600 text-white hover:bg-green-700"
             >
@@ -670,13 +704,22 @@ export function InwardGateEntryForm({
                 min={0}
                 onFocus={(e) => e.target.select()}
                 value={entry.Gross_Weight || 0}
+                readOnly={lockedWeights.Gross_Weight}
+                title={
+                  lockedWeights.Gross_Weight
+                    ? "Captured from the weighbridge"
+                    : undefined
+                }
                 onChange={(e) =>
                   handleInputChange(
                     "Gross_Weight",
                     e.target.value,
                   )
                 }
-                className="h-8 text-xs"
+                className={cn(
+                  "h-8 text-xs",
+                  lockedWeights.Gross_Weight && "bg-muted/30 cursor-not-allowed",
+                )}
               />
             </div>
 
@@ -689,13 +732,22 @@ export function InwardGateEntryForm({
                 min={0}
                 onFocus={(e) => e.target.select()}
                 value={entry.Tier_Weight || 0}
+                readOnly={lockedWeights.Tier_Weight}
+                title={
+                  lockedWeights.Tier_Weight
+                    ? "Captured from the weighbridge"
+                    : undefined
+                }
                 onChange={(e) =>
                   handleInputChange(
                     "Tier_Weight",
                     e.target.value,
                   )
                 }
-                className="h-8 text-xs"
+                className={cn(
+                  "h-8 text-xs",
+                  lockedWeights.Tier_Weight && "bg-muted/30 cursor-not-allowed",
+                )}
               />
             </div>
 
@@ -803,6 +855,17 @@ export function InwardGateEntryForm({
           </div>
         </section>
 
+        {mode !== "create" && (
+          <WeighbridgeCapture
+            direction="Inward"
+            entryNo={entry.No}
+            weighments={weighments}
+            onCaptured={handleWeighmentCaptured}
+            canOverride={canOverrideWeighments(user)}
+            disabled={entry.Status === "Posted"}
+          />
+        )}
+
         {/* Line Items */}
         <section className="space-y-3 pt-2">
           <div className="flex items-center justify-between">
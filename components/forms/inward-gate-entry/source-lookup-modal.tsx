@@ -28,6 +28,14 @@ import {
 } from "@/lib/api/services/inward-gate-entry.service";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDate } from "@/lib/utils/date";
+import { toast } from "sonner";
+import { toastError } from "@/lib/errors";
+import { ScanButton } from "@/components/forms/shared/barcode-scanner-dialog";
+import {
+  parseScanPayload,
+  useWedgeScanner,
+  type ScanPayload,
+} from "@/lib/scanner";
 
 interface SourceLookupModalProps {
   isOpen: boolean;
@@ -121,6 +129,16 @@ export function SourceLookupModal({
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const loadSource = useCallback(
+    (params: Parameters<typeof getPurchaseOrders>[0]) => {
+      if (sourceType === "Purchase Order") return getPurchaseOrders(params);
+      if (sourceType === "Sales Return Order") return getSalesReturnOrders(params);
+      if (sourceType === "Transfer Receipt") return getTransferOrders(params);
+      return Promise.resolve(undefined);
+    },
+    [sourceType],
+  );
+
   const fetchData = useCallback(async (page: number, isNewSearch: boolean) => {
     const requestId = ++lastRequestId.current;
     
@@ -148,14 +166,7 @@ export function SourceLookupModal({
         $orderby: sortColumn && sortDirection ? `${sortColumn} ${sortDirection}` : undefined,
       };
 
-      let result;
-      if (sourceType === "Purchase Order") {
-        result = await getPurchaseOrders(params);
-      } else if (sourceType === "Sales Return Order") {
-        result = await getSalesReturnOrders(params);
-      } else if (sourceType === "Transfer Receipt") {
-        result = await getTransferOrders(params);
-      }
+      const result = await loadSource(params);
 
       if (requestId !== lastRequestId.current) return;
 
@@ -186,7 +197,7 @@ export function SourceLookupModal({
         }
       }
     }
-  }, [sourceType, debouncedSearch, branchCode, locationCode, columnFilters, sortColumn, sortDirection]);
+  }, [loadSource, debouncedSearch, branchCode, locationCode, columnFilters, sortColumn, sortDirection]);
 
   // Reset and fetch page 1 when search params, sorting or open state changes
   useEffect(() => {
@@ -243,6 +254,34 @@ export function SourceLookupModal({
     }
   }, [isOpen, fetchData]);
 
+  /** Select the scanned document when it matches exactly, otherwise search for it */
+  const handleScan = async (payload: ScanPayload) => {
+    const code = payload.documentNo || payload.raw;
+    try {
+      const result = await loadSource({
+        $top: 10,
+        $skip: 0,
+        searchTerm: code,
+        branchCode: branchCode || undefined,
+        locationCode: locationCode || undefined,
+        filters: {},
+      });
+      const match = result?.data.find(
+        (item) => String(item.No || item["No."] || "").toUpperCase() === code.toUpperCase(),
+      );
+      if (match) {
+        onSelect(match.No || match["No."], match);
+        return;
+      }
+      toast.info(`No ${sourceType} matches ${code} exactly`);
+      setSearchQuery(code);
+    } catch (error) {
+      toastError(error, "Failed to look up scanned document");
+    }
+  };
+
+  useWedgeScanner((code) => handleScan(parseScanPayload(code)), isOpen);
+
   const activeFiltersCount = Object.keys(columnFilters).length + (searchQuery ? 1 : 0);
 
   return (
@@ -262,6 +301,11 @@ export function SourceLookupModal({
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
+          <ScanButton
+            onScan={handleScan}
+            title={`Scan ${sourceType}`}
+            className="h-9 shrink-0"
+          />
           {activeFiltersCount > 0 && (
             <Button 
               variant="ghost" 
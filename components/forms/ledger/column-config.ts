@@ -58,3 +58,42 @@ export const VENDOR_LEDGER_COLUMNS: ColumnConfig[] = [
   { id: "Creditors_Type", label: "Creditors Type", filterType: "text" },
   { id: "Mandi_Name", label: "Mandi Name", filterType: "text" },
 ];
+
+export const CUSTOMER_LEDGER_COLUMNS: ColumnConfig[] = [
+  // ── Core Identification ──
+  { id: "Entry_No", label: "Entry No.", filterType: "number" },
+  { id: "Posting_Date", label: "Posting Date", filterType: "date" },
+  { id: "Document_Type", label: "Document Type", filterType: "text" },
+  { id: "Document_No", label: "Document No.", filterType: "text" },
+  { id: "External_Document_No", label: "External Doc No.", filterType: "text" },
+  { id: "Customer_No", label: "Customer No.", filterType: "text" },
+  { id: "CustomerName", label: "Customer Name", filterType: "text" },
+
+  // ── Financials ──
+  { id: "Debit_Amount", label: "Debit", filterType: "number" },
+  { id: "Credit_Amount", label: "Credit", filterType: "number" },
+  { id: "Amount", label: "Amount", filterType: "number" },
+  { id: "Remaining_Amount", label: "Remaining", filterType: "number" },
+  { id: "Amount_LCY", label: "Amount (LCY)", filterType: "number" },
+  { id: "Original_Amount", label: "Original Amount", filterType: "number" },
+
+  // ── Dates ──
+  { id: "Due_Date", label: "Due Date", filterType: "date" },
+  { id: "Document_Date", label: "Doc Date", filterType: "date" },
+  { id: "Closed_at_Date", label: "Closed Date", filterType: "date" },
+
+  // ── Payment & Status ──
+  { id: "Payment_Method_Code", label: "Payment Method", filterType: "text" },
+  { id: "Salesperson_Code", label: "Salesperson", filterType: "text" },
+  { id: "Open", label: "Status (Open)", filterType: "boolean" },
+
+  // ── Dimensions & Location ──
+  { id: "Global_Dimension_1_Code", label: "LOB", filterType: "text" },
+  { id: "Global_Dimension_2_Code", label: "Branch", filterType: "text" },
+  { id: "Location_Code", label: "Location Code", filterType: "text" },
+
+  // ── Tracking ──
+  { id: "User_ID", label: "User ID", filterType: "text" },
+  { id: "Source_Code", label: "Source Code", filterType: "text" },
+  { id: "Reason_Code", label: "Reason Code", filterType: "text" },
+];
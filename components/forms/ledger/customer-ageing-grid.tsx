@@ -0,0 +1,252 @@
+"use client";
+
+/**
+ * Receivables ageing grid
+ * One row per customer across all customers; once a customer is picked,
+ * one row per open document with its amount in the bucket it falls in
+ */
+
+import { useMemo } from "react";
+import { AlertTriangle, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/date";
+import { exportToExcel } from "@/lib/utils/export";
+import {
+  AGEING_BUCKETS,
+  AGEING_MAX_ENTRIES,
+  emptyAgeingBuckets,
+  getAgeingBucket,
+  getDaysOverdue,
+  type AgeingBucketKey,
+  type AgeingBuckets,
+  type UseReceivablesAgeingResult,
+} from "@/lib/receivables";
+
+interface CustomerAgeingGridProps {
+  customerNo: string;
+  ageing: UseReceivablesAgeingResult;
+  onSelectCustomer: (customerNo: string) => void;
+}
+
+interface AgeingRow {
+  key: string;
+  title: string;
+  subtitle: string;
+  dueDate?: string;
+  daysOverdue?: number;
+  buckets: AgeingBuckets;
+  total: number;
+}
+
+const BUCKET_CLASSES: Partial<Record<AgeingBucketKey, string>> = {
+  days61to90: "text-orange-600 dark:text-orange-400",
+  over90: "font-semibold text-red-600 dark:text-red-400",
+};
+
+function formatAmount(value: number): string {
+  if (!value) return "-";
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function CustomerAgeingGrid({ customerNo, ageing, onSelectCustomer }: CustomerAgeingGridProps) {
+  const { customers, asOfDate, truncated, error, isLoading } = ageing;
+
+  const rows = useMemo<AgeingRow[]>(() => {
+    if (!customerNo) {
+      return customers.map((customer) => ({
+        key: customer.customerNo,
+        title: customer.customerName || customer.customerNo,
+        subtitle: customer.customerNo,
+        daysOverdue: customer.maxDaysOverdue,
+        buckets: customer.buckets,
+        total: customer.total,
+      }));
+    }
+    return customers.flatMap((customer) =>
+      customer.entries.map((entry) => {
+        const daysOverdue = getDaysOverdue(entry, asOfDate);
+        const remaining = Number(entry.Remaining_Amount) || 0;
+        return {
+          key: String(entry.Entry_No),
+          title: entry.Document_No,
+          subtitle: [entry.Document_Type, formatDate(entry.Posting_Date)]
+            .filter(Boolean)
+            .join(" · "),
+          dueDate: entry.Due_Date,
+          daysOverdue,
+          buckets: { ...emptyAgeingBuckets(), [getAgeingBucket(daysOverdue)]: remaining },
+          total: remaining,
+        };
+      }),
+    );
+  }, [customers, customerNo, asOfDate]);
+
+  const totals = useMemo(() => {
+    const buckets = emptyAgeingBuckets();
+    for (const row of rows) {
+      for (const { key } of AGEING_BUCKETS) buckets[key] += row.buckets[key];
+    }
+    return { buckets, total: rows.reduce((sum, row) => sum + row.total, 0) };
+  }, [rows]);
+
+  const handleExport = () => {
+    const columns = [
+      { id: "title", label: customerNo ? "Document No." : "Customer" },
+      { id: "subtitle", label: customerNo ? "Document" : "Customer No." },
+      ...(customerNo ? [{ id: "dueDate", label: "Due Date" }] : []),
+      { id: "daysOverdue", label: customerNo ? "Days Overdue" : "Oldest Overdue (days)" },
+      ...AGEING_BUCKETS.map(({ key, label }) => ({ id: key, label })),
+      { id: "total", label: "Total" },
+    ];
+    exportToExcel(
+      rows.map((row) => ({
+        ...row,
+        ...row.buckets,
+        dueDate: row.dueDate ? formatDate(row.dueDate) : "",
+      })),
+      columns.map((col) => col.id),
+      [
+        `Ageing as of ${formatDate(asOfDate)} on due date`,
+        ...(customerNo ? [`Customer No: ${customerNo}`] : []),
+      ],
+      customerNo ? `Receivables_Ageing_${customerNo}` : "Receivables_Ageing",
+      columns,
+    );
+  };
+
+  const colSpan = AGEING_BUCKETS.length + 3;
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="text-sm">
+          <span className="font-semibold">
+            {customerNo ? "Open documents" : "All customers"}
+          </span>
+          <span className="text-muted-foreground">
+            {" "}
+            · days past due date as of {formatDate(asOfDate)}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto h-8 gap-2"
+          onClick={handleExport}
+          disabled={isLoading || rows.length === 0}
+        >
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </div>
+
+      {truncated && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Only the first {AGEING_MAX_ENTRIES.toLocaleString()} open entries were
+          loaded. Pick a customer for complete figures.
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead>{customerNo ? "Document" : "Customer"}</TableHead>
+              <TableHead className="text-right">
+                {customerNo ? "Due / Days" : "Oldest (days)"}
+              </TableHead>
+              {AGEING_BUCKETS.map(({ key, label }) => (
+                <TableHead key={key} className="text-right">
+                  {label}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="h-24 text-center">
+                  <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-destructive h-24 text-center">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-muted-foreground h-24 text-center">
+                  Nothing outstanding
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => (
+                <TableRow
+                  key={row.key}
+                  className={cn(!customerNo && "cursor-pointer")}
+                  onClick={customerNo ? undefined : () => onSelectCustomer(row.key)}
+                  title={customerNo ? undefined : "Show this customer's open documents"}
+                >
+                  <TableCell>
+                    <div className="max-w-64 truncate font-medium" title={row.title}>
+                      {row.title}
+                    </div>
+                    <div className="text-muted-foreground text-xs">{row.subtitle}</div>
+                  </TableCell>
+                  <TableCell className="text-right text-xs">
+                    {row.dueDate && <div>{formatDate(row.dueDate)}</div>}
+                    <div className={cn(!!row.daysOverdue && row.daysOverdue > 90 && BUCKET_CLASSES.over90)}>
+                      {row.daysOverdue && row.daysOverdue > 0 ? row.daysOverdue : "-"}
+                    </div>
+                  </TableCell>
+                  {AGEING_BUCKETS.map(({ key }) => (
+                    <TableCell
+                      key={key}
+                      className={cn("text-right tabular-nums", row.buckets[key] > 0 && BUCKET_CLASSES[key])}
+                    >
+                      {formatAmount(row.buckets[key])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-semibold tabular-nums">
+                    {formatAmount(row.total)}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          {!isLoading && rows.length > 0 && (
+            <TableFooter className="bg-muted sticky bottom-0">
+              <TableRow>
+                <TableCell colSpan={2} className="font-bold">
+                  Total
+                </TableCell>
+                {AGEING_BUCKETS.map(({ key }) => (
+                  <TableCell key={key} className="text-right font-bold tabular-nums">
+                    {formatAmount(totals.buckets[key])}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-bold tabular-nums">
+                  {formatAmount(totals.total)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+    </div>
+  );
+}
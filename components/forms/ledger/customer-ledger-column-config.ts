@@ -0,0 +1,399 @@
+/**
+ * Column Configuration for Customer Ledger Table
+ * Defines all available columns, their metadata, and default visibility
+ */
+
+import { getAuthCredentials } from "@/lib/auth/storage";
+import { getCookie, setCookie } from "@/lib/utils/cookies";
+import type { ColumnConfig } from "./vendor-ledger-column-config";
+
+export type { ColumnConfig };
+
+// Default columns for Ledger
+export const LEDGER_DEFAULT_COLUMNS: ColumnConfig[] = [
+  {
+    id: "Posting_Date",
+    label: "Posting Date",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "date",
+  },
+  {
+    id: "Document_Type",
+    label: "Doc Type",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "Document_No",
+    label: "Doc No.",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "External_Document_No",
+    label: "Ext. Doc No.",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "Description",
+    label: "Description",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "Debit_Amount",
+    label: "Debit",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "number",
+  },
+  {
+    id: "Credit_Amount",
+    label: "Credit",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "number",
+  },
+  {
+    id: "Amount",
+    label: "Amount",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "number",
+  },
+];
+
+// Default columns for Outstanding
+export const OUTSTANDING_DEFAULT_COLUMNS: ColumnConfig[] = [
+  {
+    id: "Posting_Date",
+    label: "Posting Date",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "date",
+  },
+  {
+    id: "Document_Type",
+    label: "Doc Type",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "Document_No",
+    label: "Doc No.",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "External_Document_No",
+    label: "Ext. Doc No.",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "text",
+  },
+  {
+    id: "Amount",
+    label: "Amount",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "number",
+  },
+  {
+    id: "Remaining_Amount",
+    label: "Remaining",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "number",
+  },
+  {
+    id: "Due_Date",
+    label: "Due Date",
+    sortable: true,
+    defaultVisible: true,
+    filterType: "date",
+  },
+];
+
+export const OPTIONAL_COLUMNS: ColumnConfig[] = [
+  {
+    id: "Entry_No",
+    label: "Entry No",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+  {
+    id: "Open",
+    label: "Status",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "boolean",
+  },
+
+  // ── Financial Balance & Advanced ──
+  {
+    id: "Amount_LCY",
+    label: "Amount (LCY)",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+  {
+    id: "Debit_Amount_LCY",
+    label: "Debit (LCY)",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+  {
+    id: "Credit_Amount_LCY",
+    label: "Credit (LCY)",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+  {
+    id: "Original_Amount",
+    label: "Original Amount",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+  {
+    id: "Remaining_Amt_LCY",
+    label: "Remaining Amount (LCY)",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+  {
+    id: "Closed_by_Amount",
+    label: "Closed by Amount",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+
+  // ── Payment ──
+  {
+    id: "Payment_Method_Code",
+    label: "Payment Method",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Payment_Terms_Code",
+    label: "Payment Terms",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Salesperson_Code",
+    label: "Salesperson",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+
+  // ── Document Metadata ──
+  {
+    id: "Document_Date",
+    label: "Document Date",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "date",
+  },
+  {
+    id: "Closed_at_Date",
+    label: "Closed at Date",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "date",
+  },
+  {
+    id: "Customer_No",
+    label: "Customer No",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "CustomerName",
+    label: "Customer Name",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Customer_Posting_Group",
+    label: "Customer Posting Group",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Currency_Code",
+    label: "Currency Code",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+
+  // ── Location & Dimensions ──
+  {
+    id: "Location_Code",
+    label: "Location Code",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Global_Dimension_1_Code",
+    label: "LOB",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Global_Dimension_2_Code",
+    label: "Branch",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Dimension_Set_ID",
+    label: "Dimension Set ID",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "number",
+  },
+
+  // ── Tracking ──
+  {
+    id: "User_ID",
+    label: "User ID",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Source_Code",
+    label: "Source Code",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Reason_Code",
+    label: "Reason Code",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "text",
+  },
+  {
+    id: "Reversed",
+    label: "Reversed",
+    sortable: true,
+    defaultVisible: false,
+    filterType: "boolean",
+  },
+];
+
+export const ALL_COLUMNS: ColumnConfig[] = [
+  ...LEDGER_DEFAULT_COLUMNS,
+  ...OUTSTANDING_DEFAULT_COLUMNS.filter(oc => !LEDGER_DEFAULT_COLUMNS.some(lc => lc.id === oc.id)),
+  ...OPTIONAL_COLUMNS,
+];
+
+/** Columns offered under "Additional Columns" for the given tab */
+export function getOptionalColumns(isOutstanding: boolean = false): ColumnConfig[] {
+  const defaults = isOutstanding ? OUTSTANDING_DEFAULT_COLUMNS : LEDGER_DEFAULT_COLUMNS;
+  return ALL_COLUMNS.filter((col) => !defaults.some((dc) => dc.id === col.id));
+}
+
+export function getDefaultVisibleColumns(isOutstanding: boolean = false): string[] {
+  const columns = isOutstanding ? OUTSTANDING_DEFAULT_COLUMNS : LEDGER_DEFAULT_COLUMNS;
+  return columns.map((col) => col.id);
+}
+
+const STORAGE_KEY_LEDGER = "customerLedger_visibleColumns";
+const STORAGE_KEY_OUTSTANDING = "customerOutstanding_visibleColumns";
+
+export function loadVisibleColumns(isOutstanding: boolean = false): string[] {
+  try {
+    const stored = localStorage.getItem(isOutstanding ? STORAGE_KEY_OUTSTANDING : STORAGE_KEY_LEDGER);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (error) {
+    console.error("Error loading visible columns:", error);
+  }
+  return getDefaultVisibleColumns(isOutstanding);
+}
+
+export function saveVisibleColumns(columns: string[], isOutstanding: boolean = false): void {
+  try {
+    const key = isOutstanding ? STORAGE_KEY_OUTSTANDING : STORAGE_KEY_LEDGER;
+    localStorage.setItem(key, JSON.stringify(columns));
+  } catch (error) {
+    console.error("Error saving visible columns:", error);
+  }
+}
+
+const WIDTHS_COOKIE_PREFIX = "sf_cledger_widths_";
+const ORDER_KEY = "customerLedger_columnOrder";
+
+function getWidthsKey(): string {
+  const userID = getAuthCredentials()?.userID || "default";
+  return `${WIDTHS_COOKIE_PREFIX}${userID}`;
+}
+
+export function loadColumnWidths(): Record<string, number> {
+  try {
+    const stored = getCookie(getWidthsKey());
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveColumnWidths(widths: Record<string, number>): void {
+  try {
+    setCookie(getWidthsKey(), JSON.stringify(widths));
+  } catch {}
+}
+
+export function loadColumnOrder(): string[] {
+  try {
+    const stored = localStorage.getItem(ORDER_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveColumnOrder(order: string[]): void {
+  try {
+    localStorage.setItem(ORDER_KEY, JSON.stringify(order));
+  } catch {}
+}
+
+export function resetCustomerTableUI(): void {
+  try {
+    setCookie(getWidthsKey(), "", -1);
+    localStorage.removeItem(ORDER_KEY);
+  } catch {}
+}
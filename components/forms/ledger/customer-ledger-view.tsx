@@ -0,0 +1,213 @@
+"use client";
+
+import { AccountSelect } from "@/components/forms/account-select";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText, Loader2, RefreshCcw } from "lucide-react";
+import { useState } from "react";
+import { useReceivablesAgeing, useStatementOfAccount } from "@/lib/receivables";
+import { CustomerAgeingGrid } from "./customer-ageing-grid";
+import { CustomerLedgerFilterBar } from "./customer-ledger-filter-bar";
+import { CustomerLedgerTable } from "./customer-ledger-table";
+import { useCustomerLedger } from "./use-customer-ledger";
+
+type CustomerLedgerTab = "ledger" | "outstanding" | "ageing";
+
+export function CustomerLedgerView() {
+  const [activeTab, setActiveTab] = useState<CustomerLedgerTab>("ledger");
+  const [ageingCustomerNo, setAgeingCustomerNo] = useState("");
+
+  const ledgerState = useCustomerLedger({ isOutstanding: false });
+  const outstandingState = useCustomerLedger({ isOutstanding: true });
+  const ageing = useReceivablesAgeing(ageingCustomerNo, activeTab === "ageing");
+  const statement = useStatementOfAccount();
+
+  const isAgeing = activeTab === "ageing";
+  const currentState = activeTab === "outstanding" ? outstandingState : ledgerState;
+  const selectedCustomerNo = isAgeing ? ageingCustomerNo : currentState.filters.customerNo || "";
+
+  const { customerNo, fromDate, toDate } = ledgerState.filters;
+  const canPrintStatement = !!(customerNo && fromDate && toDate);
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab as CustomerLedgerTab);
+  };
+
+  const handleCustomerChange = (value: string) => {
+    if (isAgeing) setAgeingCustomerNo(value);
+    else currentState.onFilterChange({ customerNo: value });
+  };
+
+  return (
+    <div className="flex h-full w-full flex-col gap-2 p-4 overflow-hidden">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="space-y-0.5">
+          <h1 className="text-2xl font-semibold tracking-tight">Customer Ledger</h1>
+          <p className="text-sm text-muted-foreground">
+            Transaction history, outstanding documents and receivables ageing
+          </p>
+        </div>
+        
+        <div className="flex items-center gap-3 bg-muted/50 p-1 rounded-lg border shadow-sm">
+          <Tabs
+            value={activeTab}
+            onValueChange={handleTabChange}
+            className="w-[330px]"
+          >
+            <TabsList className="grid w-full grid-cols-3 h-8 p-0">
+              <TabsTrigger
+                value="ledger"
+                className="h-7 text-xs font-medium"
+              >
+                Ledger
+              </TabsTrigger>
+              <TabsTrigger
+                value="outstanding"
+                className="h-7 text-xs font-medium"
+              >
+                Outstanding
+              </TabsTrigger>
+              <TabsTrigger
+                value="ageing"
+                className="h-7 text-xs font-medium"
+              >
+                Ageing
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="h-4 w-px bg-border mx-1" />
+
+          {activeTab === "ledger" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => statement.generate(customerNo || "", fromDate || "", toDate || "")}
+              disabled={!canPrintStatement || statement.isGenerating}
+              title={canPrintStatement ? undefined : "Select a customer and a date range"}
+              className="h-8 px-3 text-xs"
+            >
+              {statement.isGenerating ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin mr-2" />
+              ) : (
+                <FileText className="mr-2 h-3.5 w-3.5" />
+              )}
+              Statement
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => (isAgeing ? ageing.refetch() : currentState.refetch())}
+            disabled={isAgeing ? ageing.isLoading : currentState.isLoading}
+            className="h-8 px-3 text-xs"
+          >
+            {(isAgeing ? ageing.isLoading : currentState.isLoading) ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin mr-2" />
+            ) : (
+              <RefreshCcw className="mr-2 h-3.5 w-3.5" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Filter Orchestration Bar */}
+      <div className="flex flex-col md:flex-row items-start md:items-center gap-4 bg-card border p-4 rounded-lg shadow-sm">
+        <div className="w-full md:w-[380px]">
+          <AccountSelect
+            accountType="Customer"
+            value={selectedCustomerNo}
+            onChange={handleCustomerChange}
+            placeholder={isAgeing ? "All customers" : "Search for a customer..."}
+            className="h-9 w-full"
+          />
+        </div>
+
+        {isAgeing ? (
+          selectedCustomerNo && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setAgeingCustomerNo("")}
+              className="h-9 text-xs"
+            >
+              Show all customers
+            </Button>
+          )
+        ) : (
+          <CustomerLedgerFilterBar
+            filters={currentState.filters}
+            visibleColumns={currentState.visibleColumns}
+            totalCount={currentState.totalCount}
+            currentFilterString={currentState.currentFilterString}
+            humanReadableFilters={currentState.humanReadableFilters}
+            onFilterChange={currentState.onFilterChange}
+            onColumnToggle={currentState.onColumnToggle}
+            onResetColumns={currentState.onResetColumns}
+            onShowAllColumns={currentState.onShowAllColumns}
+            onAddAdditionalFilter={currentState.onAddAdditionalFilter}
+            onRemoveAdditionalFilter={currentState.onRemoveAdditionalFilter}
+            onSuccess={() => currentState.refetch()}
+            onClearFilters={() => {
+              currentState.onFilterChange({
+                fromDate: "",
+                toDate: "",
+                customerNo: "",
+                search: "",
+                columnFilters: {},
+                additionalFilters: [],
+              });
+            }}
+            isLoading={currentState.isLoading}
+            openingBalance={currentState.openingBalance}
+            closingBalance={currentState.closingBalance}
+            currentEntries={currentState.entries}
+            savedViews={currentState.savedViews}
+          />
+        )}
+      </div>
+
+      {/* Main Table Container */}
+      <div className="flex-1 min-h-0 bg-card rounded-lg border shadow-sm overflow-hidden flex flex-col">
+        {isAgeing ? (
+          <CustomerAgeingGrid
+            customerNo={ageingCustomerNo}
+            ageing={ageing}
+            onSelectCustomer={setAgeingCustomerNo}
+          />
+        ) : (
+          <CustomerLedgerTable
+            entries={currentState.entries}
+            isLoading={currentState.isLoading}
+            isFetchingNextPage={currentState.isFetchingNextPage}
+            hasMore={currentState.hasMore}
+            loadMore={currentState.loadMore}
+            openingBalance={currentState.openingBalance}
+            closingBalance={currentState.closingBalance}
+            debitSum={currentState.debitSum}
+            creditSum={currentState.creditSum}
+            onSort={currentState.onSort}
+            onColumnFilterChange={currentState.onColumnFilterChange}
+            sortField={currentState.filters.sortField}
+            sortOrder={currentState.filters.sortOrder}
+            columnFilters={currentState.filters.columnFilters}
+            visibleColumns={currentState.visibleColumns}
+            columnWidths={currentState.columnWidths}
+            setColumnWidths={currentState.setColumnWidths}
+            saveColumnWidths={currentState.saveColumnWidths}
+            columnOrder={currentState.columnOrder}
+            setColumnOrder={currentState.setColumnOrder}
+            saveColumnOrder={currentState.saveColumnOrder}
+            customerNo={currentState.filters.customerNo}
+            fromDate={currentState.filters.fromDate}
+            toDate={currentState.filters.toDate}
+            isOutstanding={activeTab === "outstanding"}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+/**
+ * GL entry drill-down
+ * The GL entry table for one account over a period and extra conditions,
+ * sized to sit inside an expanded report row
+ */
+
+import type { FilterCondition } from "@/components/forms/report-ledger/types";
+import { GLEntryTable } from "./gl-entry-table";
+import { useGLEntry } from "./use-gl-entry";
+
+interface GLEntryDrillDownProps {
+  accountNo: string;
+  fromDate: string;
+  toDate: string;
+  additionalFilters?: FilterCondition[];
+}
+
+export function GLEntryDrillDown({
+  accountNo,
+  fromDate,
+  toDate,
+  additionalFilters,
+}: GLEntryDrillDownProps) {
+  const gl = useGLEntry({ accountNo, fromDate, toDate, additionalFilters });
+
+  return (
+    <div className="bg-background flex h-[420px] flex-col border-y">
+      <GLEntryTable
+        entries={gl.entries}
+        isLoading={gl.isLoading}
+        isFetchingNextPage={gl.isFetchingNextPage}
+        hasMore={gl.hasMore}
+        loadMore={gl.loadMore}
+        openingBalance={gl.openingBalance}
+        closingBalance={gl.closingBalance}
+        debitSum={gl.debitSum}
+        creditSum={gl.creditSum}
+        onSort={gl.onSort}
+        onColumnFilterChange={gl.onColumnFilterChange}
+        sortField={gl.filters.sortField}
+        sortOrder={gl.filters.sortOrder}
+        columnFilters={gl.filters.columnFilters}
+        visibleColumns={gl.visibleColumns}
+        columnWidths={gl.columnWidths}
+        setColumnWidths={gl.setColumnWidths}
+        saveColumnWidths={gl.saveColumnWidths}
+        columnOrder={gl.columnOrder}
+        setColumnOrder={gl.setColumnOrder}
+        saveColumnOrder={gl.saveColumnOrder}
+        accountNo={gl.filters.accountNo}
+        fromDate={gl.filters.fromDate}
+        toDate={gl.filters.toDate}
+      />
+    </div>
+  );
+}
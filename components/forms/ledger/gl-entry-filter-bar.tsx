@@ -7,6 +7,8 @@ import { Label } from "@/components/ui/label";
 import { DateInput } from "@/components/ui/date-input";
 import type { GLEntryFilters, GLEntry } from "@/lib/api/services/gl-entry.service";
 import { GLEntryColumnVisibility } from "./gl-entry-column-visibility";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 import { GLEntryExportDialog } from "./gl-entry-export-dialog";
 import { DynamicFilterBuilder } from "../report-ledger/dynamic-filter-builder";
 import type { FilterCondition } from "../report-ledger/types";
@@ -34,6 +36,7 @@ interface GLEntryFilterBarProps {
   openingBalance?: number;
   closingBalance?: number;
   currentEntries?: GLEntry[];
+  savedViews?: SavedViewsController;
 }
 
 export function GLEntryFilterBar({
@@ -50,6 +53,7 @@ export function GLEntryFilterBar({
   openingBalance,
   closingBalance,
   currentEntries = [],
+  savedViews,
 }: GLEntryFilterBarProps) {
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [filterPopoverOpen, setFilterPopoverOpen] = useState(false);
@@ -205,6 +209,8 @@ export function GLEntryFilterBar({
           Export
         </Button>
 
+        {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
         <GLEntryColumnVisibility
           visibleColumns={visibleColumns}
           onColumnToggle={onColumnToggle}
@@ -44,6 +44,7 @@ export function GLEntryView() {
     setColumnOrder,
     saveColumnOrder,
     currentFilterString,
+    savedViews,
   } = useGLEntry();
 
   const [reportDialogOpen, setReportDialogOpen] = useState(false);
@@ -132,6 +133,7 @@ export function GLEntryView() {
           openingBalance={openingBalance}
           closingBalance={closingBalance}
           currentEntries={entries}
+          savedViews={savedViews}
         />
       </div>
 
@@ -0,0 +1,489 @@
+"use client";
+
+/**
+ * Profitability
+ * Revenue, COGS, expenses and margins per LOB, branch and location
+ * combination against an earlier period. A row expands into its income
+ * statement accounts, and an account into the GL entry table behind it
+ */
+
+import { Fragment, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Loader2,
+  RefreshCcw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DimensionSelect } from "@/components/forms/dimension-select";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/date";
+import { exportToExcel } from "@/lib/utils/export";
+import { TRIAL_BALANCE_DIMENSIONS } from "@/lib/trial-balance";
+import {
+  COMPARISON_MODES,
+  formatDimensionValue,
+  getRowConditions,
+  useProfitability,
+  type ComparisonMode,
+  type ProfitabilityDimensionKey,
+  type ProfitabilityFigures,
+  type ProfitabilityFilters,
+} from "@/lib/profitability";
+import { GLEntryDrillDown } from "./gl-entry-drill-down";
+
+const FIGURE_COLUMNS: Array<{ id: keyof ProfitabilityFigures; label: string }> = [
+  { id: "revenue", label: "Revenue" },
+  { id: "cogs", label: "COGS" },
+  { id: "grossMargin", label: "Gross Margin" },
+  { id: "expenses", label: "Expenses" },
+  { id: "netMargin", label: "Net Margin" },
+  { id: "marginPct", label: "Margin %" },
+];
+
+function formatAmount(value: number): string {
+  if (!value) return "-";
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatPct(value: number | null): string {
+  return value === null ? "-" : `${value.toFixed(1)}%`;
+}
+
+function signClass(value: number): string | undefined {
+  if (value < 0) return "text-red-600 dark:text-red-400";
+  return undefined;
+}
+
+function FigureCells({
+  figures,
+  comparison,
+  className,
+}: {
+  figures: ProfitabilityFigures;
+  comparison: ProfitabilityFigures | null | undefined;
+  className?: string;
+}) {
+  const change = comparison ? Math.round((figures.netMargin - comparison.netMargin) * 100) / 100 : 0;
+  return (
+    <>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(figures.revenue)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(figures.cogs)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", signClass(figures.grossMargin), className)}>
+        {formatAmount(figures.grossMargin)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(figures.expenses)}
+      </TableCell>
+      <TableCell
+        className={cn("text-right font-medium tabular-nums", signClass(figures.netMargin), className)}
+      >
+        {formatAmount(figures.netMargin)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", signClass(figures.marginPct ?? 0), className)}>
+        {formatPct(figures.marginPct)}
+      </TableCell>
+      {comparison !== undefined && (
+        <>
+          <TableCell className={cn("text-muted-foreground text-right tabular-nums", className)}>
+            {comparison ? formatAmount(comparison.netMargin) : "-"}
+          </TableCell>
+          <TableCell className={cn("text-right tabular-nums", signClass(change), className)}>
+            {change > 0 ? "+" : ""}
+            {formatAmount(change)}
+          </TableCell>
+        </>
+      )}
+    </>
+  );
+}
+
+export function ProfitabilityView() {
+  const { filters, updateFilters, profitability, error, isLoading, enabled, refetch } =
+    useProfitability();
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [expandedAccount, setExpandedAccount] = useState<string | null>(null);
+
+  const groupDimensions = TRIAL_BALANCE_DIMENSIONS.filter(({ key }) =>
+    filters.groupBy.includes(key),
+  );
+  const hasComparison = filters.comparison !== "none";
+  const comparisonPeriod = profitability?.comparisonPeriod ?? null;
+  const colSpan = 1 + groupDimensions.length + FIGURE_COLUMNS.length + (hasComparison ? 2 : 0);
+
+  const handleFiltersChange = (next: Partial<ProfitabilityFilters>) => {
+    setExpandedRow(null);
+    setExpandedAccount(null);
+    updateFilters(next);
+  };
+
+  const toggleGroupBy = (dimension: ProfitabilityDimensionKey) => {
+    const selected = filters.groupBy.includes(dimension);
+    if (selected && filters.groupBy.length === 1) return;
+    handleFiltersChange({
+      groupBy: TRIAL_BALANCE_DIMENSIONS.map(({ key }) => key).filter((key) =>
+        key === dimension ? !selected : filters.groupBy.includes(key),
+      ),
+    });
+  };
+
+  const handleExport = () => {
+    if (!profitability) return;
+    const columns = [
+      ...groupDimensions.map(({ key, label }) => ({ id: key, label })),
+      ...FIGURE_COLUMNS,
+      ...(comparisonPeriod
+        ? [
+            { id: "priorNetMargin", label: "Prior Net Margin" },
+            { id: "change", label: "Change" },
+          ]
+        : []),
+    ];
+    const toExportRow = (
+      figures: ProfitabilityFigures,
+      comparison: ProfitabilityFigures | null,
+      dimensions: Partial<Record<ProfitabilityDimensionKey, string>>,
+    ) => ({
+      ...dimensions,
+      ...figures,
+      marginPct: figures.marginPct ?? "",
+      priorNetMargin: comparison?.netMargin ?? "",
+      change: comparison ? Math.round((figures.netMargin - comparison.netMargin) * 100) / 100 : "",
+    });
+
+    const rows = profitability.rows.map((row) =>
+      toExportRow(
+        row.figures,
+        row.comparison,
+        Object.fromEntries(
+          groupDimensions.map(({ key }) => [key, formatDimensionValue(row.dimensions[key])]),
+        ),
+      ),
+    );
+    rows.push(
+      toExportRow(profitability.totals, profitability.comparisonTotals, {
+        [groupDimensions[0].key]: "Total",
+      }),
+    );
+
+    exportToExcel(
+      rows,
+      columns.map((col) => col.id),
+      [
+        `Posting Date: ${formatDate(filters.fromDate)} to ${formatDate(filters.toDate)}`,
+        ...(comparisonPeriod
+          ? [
+              `Compared with: ${formatDate(comparisonPeriod.fromDate)} to ${formatDate(comparisonPeriod.toDate)}`,
+            ]
+          : []),
+        ...TRIAL_BALANCE_DIMENSIONS.filter(({ key }) => filters[key]).map(
+          ({ key, label }) => `${label}: ${filters[key]}`,
+        ),
+      ],
+      `Profitability_${filters.fromDate}_${filters.toDate}`,
+      columns,
+    );
+  };
+
+  return (
+    <div className="flex h-full w-full flex-col gap-2 overflow-hidden p-4">
+      <div className="flex flex-col justify-between gap-4 md:flex-row md:items-end">
+        <div className="space-y-0.5">
+          <h1 className="text-2xl font-semibold tracking-tight">Profitability</h1>
+          <p className="text-muted-foreground text-sm">
+            Revenue, costs and margins per LOB, branch and location; click a row
+            for its accounts
+          </p>
+        </div>
+
+        <div className="bg-muted/50 flex items-center gap-3 rounded-lg border p-1 shadow-sm">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleExport}
+            disabled={isLoading || !profitability || profitability.rows.length === 0}
+            className="h-8 px-3 text-xs"
+          >
+            <Download className="mr-2 h-3.5 w-3.5" />
+            Export
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refetch}
+            disabled={isLoading || !enabled}
+            className="h-8 px-3 text-xs"
+          >
+            {isLoading ? (
+              <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <RefreshCcw className="mr-2 h-3.5 w-3.5" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-card flex flex-wrap items-center gap-2 rounded-lg border p-4 shadow-sm">
+        <div className="w-36">
+          <DateInput
+            value={filters.fromDate}
+            onChange={(value) => handleFiltersChange({ fromDate: value })}
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">to</span>
+        <div className="w-36">
+          <DateInput
+            value={filters.toDate}
+            onChange={(value) => handleFiltersChange({ toDate: value })}
+          />
+        </div>
+        <Select
+          value={filters.comparison}
+          onValueChange={(value) => handleFiltersChange({ comparison: value as ComparisonMode })}
+        >
+          <SelectTrigger className="h-8 w-52" title="Compare with">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {COMPARISON_MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {TRIAL_BALANCE_DIMENSIONS.map(({ key, label, dimensionType }) => (
+          <div key={key} className="w-40">
+            <DimensionSelect
+              dimensionType={dimensionType}
+              value={filters[key]}
+              onChange={(value) => handleFiltersChange({ [key]: value })}
+              placeholder={`All ${label}s`}
+            />
+          </div>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          <span className="text-muted-foreground mr-1 text-sm">Group by</span>
+          {TRIAL_BALANCE_DIMENSIONS.map(({ key, label }) => (
+            <Button
+              key={key}
+              variant={filters.groupBy.includes(key) ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => toggleGroupBy(key)}
+              className="h-8 px-3 text-xs"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {comparisonPeriod && (
+        <p className="text-muted-foreground px-1 text-xs">
+          Compared with {formatDate(comparisonPeriod.fromDate)} to{" "}
+          {formatDate(comparisonPeriod.toDate)}
+        </p>
+      )}
+      {profitability?.truncated && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          The ERP could not total the entries, and not all of them could be read.
+          Figures are incomplete; narrow the slice or period.
+        </div>
+      )}
+
+      <div className="bg-card min-h-0 flex-1 overflow-auto rounded-lg border shadow-sm">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead className="w-8" />
+              {groupDimensions.map(({ key, label }) => (
+                <TableHead key={key}>{label}</TableHead>
+              ))}
+              {FIGURE_COLUMNS.map((col) => (
+                <TableHead key={col.id} className="text-right">
+                  {col.label}
+                </TableHead>
+              ))}
+              {hasComparison && (
+                <>
+                  <TableHead className="text-right">Prior</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!enabled ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-muted-foreground h-24 text-center">
+                  Select a valid date range
+                </TableCell>
+              </TableRow>
+            ) : isLoading && !profitability ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="h-24 text-center">
+                  <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-destructive h-24 text-center">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : !profitability || profitability.rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={colSpan} className="text-muted-foreground h-24 text-center">
+                  No revenue or costs found
+                </TableCell>
+              </TableRow>
+            ) : (
+              profitability.rows.map((row) => {
+                const expanded = expandedRow === row.key;
+                return (
+                  <Fragment key={row.key}>
+                    <TableRow
+                      className={cn("cursor-pointer", isLoading && "opacity-60")}
+                      onClick={() => {
+                        setExpandedRow(expanded ? null : row.key);
+                        setExpandedAccount(null);
+                      }}
+                    >
+                      <TableCell>
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      {groupDimensions.map(({ key }) => (
+                        <TableCell
+                          key={key}
+                          className={cn("font-medium", !row.dimensions[key] && "text-muted-foreground")}
+                        >
+                          {formatDimensionValue(row.dimensions[key])}
+                        </TableCell>
+                      ))}
+                      <FigureCells
+                        figures={row.figures}
+                        comparison={hasComparison ? row.comparison : undefined}
+                      />
+                    </TableRow>
+                    {expanded &&
+                      row.accounts.map((account) => {
+                        const rowConditions = getRowConditions(filters, row);
+                        const accountExpanded =
+                          rowConditions !== null && expandedAccount === account.accountNo;
+                        const change = account.amount - account.comparisonAmount;
+                        return (
+                          <Fragment key={account.accountNo}>
+                            <TableRow
+                              className={`bg-muted/20 text-xs ${rowConditions ? "cursor-pointer" : ""}`}
+                              onClick={() => {
+                                if (!rowConditions) return;
+                                setExpandedAccount(accountExpanded ? null : account.accountNo);
+                              }}
+                              title={
+                                rowConditions
+                                  ? "Show the entries behind this amount"
+                                  : "Entries with a blank dimension cannot be listed"
+                              }
+                            >
+                              <TableCell />
+                              <TableCell colSpan={groupDimensions.length}>
+                                <span className="inline-flex items-center gap-1 pl-2">
+                                  {!rowConditions ? (
+                                    <span className="w-3.5" />
+                                  ) : accountExpanded ? (
+                                    <ChevronDown className="h-3.5 w-3.5" />
+                                  ) : (
+                                    <ChevronRight className="h-3.5 w-3.5" />
+                                  )}
+                                  <span className="font-medium">{account.accountNo}</span>
+                                  <span className="text-muted-foreground ml-1">
+                                    {account.accountName}
+                                  </span>
+                                </span>
+                              </TableCell>
+                              {FIGURE_COLUMNS.map((col) => (
+                                <TableCell key={col.id} className="text-right tabular-nums">
+                                  {col.id === account.line ? formatAmount(account.amount) : ""}
+                                </TableCell>
+                              ))}
+                              {hasComparison && (
+                                <>
+                                  <TableCell className="text-muted-foreground text-right tabular-nums">
+                                    {formatAmount(account.comparisonAmount)}
+                                  </TableCell>
+                                  <TableCell className="text-right tabular-nums">
+                                    {change > 0 ? "+" : ""}
+                                    {formatAmount(Math.round(change * 100) / 100)}
+                                  </TableCell>
+                                </>
+                              )}
+                            </TableRow>
+                            {accountExpanded && rowConditions && (
+                              <TableRow className="hover:bg-transparent">
+                                <TableCell colSpan={colSpan} className="p-0">
+                                  <GLEntryDrillDown
+                                    key={`${row.key}|${account.accountNo}|${JSON.stringify(filters)}`}
+                                    accountNo={account.accountNo}
+                                    fromDate={filters.fromDate}
+                                    toDate={filters.toDate}
+                                    additionalFilters={rowConditions}
+                                  />
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+          {enabled && profitability && profitability.rows.length > 0 && (
+            <TableFooter className="bg-muted sticky bottom-0">
+              <TableRow>
+                <TableCell colSpan={1 + groupDimensions.length} className="font-bold">
+                  Total
+                </TableCell>
+                <FigureCells
+                  figures={profitability.totals}
+                  comparison={hasComparison ? profitability.comparisonTotals : undefined}
+                  className="font-bold"
+                />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+    </div>
+  );
+}
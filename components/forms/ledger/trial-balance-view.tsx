@@ -0,0 +1,362 @@
+"use client";
+
+/**
+ * Trial balance
+ * Every G/L account's opening balance, period debits and credits and closing
+ * balance by account category, sliced by LOB, branch and location. An
+ * account expands into the GL entry table for the same period and slice
+ */
+
+import { Fragment, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Loader2,
+  RefreshCcw,
+  Search,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DateInput } from "@/components/ui/date-input";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DimensionSelect } from "@/components/forms/dimension-select";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/date";
+import { exportToExcel } from "@/lib/utils/export";
+import {
+  TRIAL_BALANCE_DIMENSIONS,
+  getDimensionConditions,
+  useTrialBalance,
+  type TrialBalanceCategory,
+  type TrialBalanceFilters,
+  type TrialBalanceTotals,
+} from "@/lib/trial-balance";
+import { GLEntryDrillDown } from "./gl-entry-drill-down";
+
+const EXPORT_COLUMNS = [
+  { id: "accountNo", label: "Account No" },
+  { id: "accountName", label: "Account Name" },
+  { id: "category", label: "Category" },
+  { id: "opening", label: "Opening Balance" },
+  { id: "debit", label: "Debit" },
+  { id: "credit", label: "Credit" },
+  { id: "closingDebit", label: "Closing Debit" },
+  { id: "closingCredit", label: "Closing Credit" },
+];
+
+const COL_SPAN = 7;
+
+function formatAmount(value: number): string {
+  if (!value) return "-";
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Signed balance as Dr/Cr */
+function formatBalance(value: number): string {
+  if (!value) return "-";
+  return `${formatAmount(Math.abs(value))} ${value > 0 ? "Dr" : "Cr"}`;
+}
+
+function TotalCells({ totals, className }: { totals: TrialBalanceTotals; className?: string }) {
+  return (
+    <>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatBalance(totals.opening)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(totals.debit)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(totals.credit)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(totals.closingDebit)}
+      </TableCell>
+      <TableCell className={cn("text-right tabular-nums", className)}>
+        {formatAmount(totals.closingCredit)}
+      </TableCell>
+    </>
+  );
+}
+
+export function TrialBalanceView() {
+  const { filters, updateFilters, trialBalance, error, isLoading, enabled, refetch } =
+    useTrialBalance();
+  const [search, setSearch] = useState("");
+  const [expandedAccount, setExpandedAccount] = useState<string | null>(null);
+
+  const categories = useMemo<TrialBalanceCategory[]>(() => {
+    const term = search.trim().toLowerCase();
+    if (!trialBalance) return [];
+    if (!term) return trialBalance.categories;
+    return trialBalance.categories
+      .map((category) => ({
+        ...category,
+        rows: category.rows.filter(
+          (row) =>
+            row.accountNo.toLowerCase().includes(term) ||
+            row.accountName.toLowerCase().includes(term),
+        ),
+      }))
+      .filter((category) => category.rows.length > 0);
+  }, [trialBalance, search]);
+
+  const totals = trialBalance?.totals;
+  const isSliced = TRIAL_BALANCE_DIMENSIONS.some(({ key }) => filters[key]);
+  const difference = totals ? Math.round((totals.closingDebit - totals.closingCredit) * 100) / 100 : 0;
+
+  const handleFiltersChange = (next: Partial<TrialBalanceFilters>) => {
+    setExpandedAccount(null);
+    updateFilters(next);
+  };
+
+  const handleExport = () => {
+    if (!trialBalance) return;
+    const rows = trialBalance.categories.flatMap((category) => [
+      ...category.rows.map((row) => ({
+        ...row,
+        category: category.label,
+        closingDebit: row.closing > 0 ? row.closing : 0,
+        closingCredit: row.closing < 0 ? -row.closing : 0,
+      })),
+      { accountName: `Total ${category.label}`, ...category.totals },
+    ]);
+    rows.push({ accountName: "Grand Total", ...trialBalance.totals });
+
+    exportToExcel(
+      rows,
+      EXPORT_COLUMNS.map((col) => col.id),
+      [
+        `Posting Date: ${formatDate(filters.fromDate)} to ${formatDate(filters.toDate)}`,
+        ...TRIAL_BALANCE_DIMENSIONS.filter(({ key }) => filters[key]).map(
+          ({ key, label }) => `${label}: ${filters[key]}`,
+        ),
+        "Opening balance is signed: debit positive, credit negative",
+      ],
+      `Trial_Balance_${filters.fromDate}_${filters.toDate}`,
+      EXPORT_COLUMNS,
+    );
+  };
+
+  return (
+    <div className="flex h-full w-full flex-col gap-2 overflow-hidden p-4">
+      <div className="flex flex-col justify-between gap-4 md:flex-row md:items-end">
+        <div className="space-y-0.5">
+          <h1 className="text-2xl font-semibold tracking-tight">Trial Balance</h1>
+          <p className="text-muted-foreground text-sm">
+            Balances and movements of every G/L account by category; click an
+            account for its entries
+          </p>
+        </div>
+
+        <div className="bg-muted/50 flex items-center gap-3 rounded-lg border p-1 shadow-sm">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleExport}
+            disabled={isLoading || !trialBalance || trialBalance.categories.length === 0}
+            className="h-8 px-3 text-xs"
+          >
+            <Download className="mr-2 h-3.5 w-3.5" />
+            Export
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refetch}
+            disabled={isLoading || !enabled}
+            className="h-8 px-3 text-xs"
+          >
+            {isLoading ? (
+              <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <RefreshCcw className="mr-2 h-3.5 w-3.5" />
+            )}
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-card flex flex-wrap items-center gap-2 rounded-lg border p-4 shadow-sm">
+        <div className="w-36">
+          <DateInput
+            value={filters.fromDate}
+            onChange={(value) => handleFiltersChange({ fromDate: value })}
+          />
+        </div>
+        <span className="text-muted-foreground text-sm">to</span>
+        <div className="w-36">
+          <DateInput
+            value={filters.toDate}
+            onChange={(value) => handleFiltersChange({ toDate: value })}
+          />
+        </div>
+        {TRIAL_BALANCE_DIMENSIONS.map(({ key, label, dimensionType }) => (
+          <div key={key} className="w-40">
+            <DimensionSelect
+              dimensionType={dimensionType}
+              value={filters[key]}
+              onChange={(value) => handleFiltersChange({ [key]: value })}
+              placeholder={`All ${label}s`}
+            />
+          </div>
+        ))}
+        <div className="relative ml-auto w-56">
+          <Search className="text-muted-foreground absolute top-1/2 left-2 h-4 w-4 -translate-y-1/2" />
+          <Input
+            placeholder="Account no or name..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8 pl-8"
+          />
+        </div>
+      </div>
+
+      {trialBalance?.truncated && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          The ERP could not total the entries, and not all of them could be read.
+          Balances are incomplete; narrow the slice or period.
+        </div>
+      )}
+      {!isLoading && !isSliced && difference !== 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Closing debits and credits differ by {formatAmount(Math.abs(difference))}
+        </div>
+      )}
+
+      <div className="bg-card min-h-0 flex-1 overflow-auto rounded-lg border shadow-sm">
+        <Table>
+          <TableHeader className="bg-muted/50 sticky top-0 z-10">
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Account</TableHead>
+              <TableHead className="text-right">Opening</TableHead>
+              <TableHead className="text-right">Debit</TableHead>
+              <TableHead className="text-right">Credit</TableHead>
+              <TableHead className="text-right">Closing Debit</TableHead>
+              <TableHead className="text-right">Closing Credit</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!enabled ? (
+              <TableRow>
+                <TableCell colSpan={COL_SPAN} className="text-muted-foreground h-24 text-center">
+                  Select a valid date range
+                </TableCell>
+              </TableRow>
+            ) : isLoading && !trialBalance ? (
+              <TableRow>
+                <TableCell colSpan={COL_SPAN} className="h-24 text-center">
+                  <Loader2 className="text-muted-foreground mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={COL_SPAN} className="text-destructive h-24 text-center">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : categories.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={COL_SPAN} className="text-muted-foreground h-24 text-center">
+                  No balances or movements found
+                </TableCell>
+              </TableRow>
+            ) : (
+              categories.map((category) => (
+                <Fragment key={category.label}>
+                  <TableRow className="bg-muted/40 hover:bg-muted/40">
+                    <TableCell colSpan={COL_SPAN} className="text-xs font-bold tracking-wide uppercase">
+                      {category.label}
+                    </TableCell>
+                  </TableRow>
+                  {category.rows.map((row) => {
+                    const expanded = expandedAccount === row.accountNo;
+                    return (
+                      <Fragment key={row.accountNo}>
+                        <TableRow
+                          className={cn("cursor-pointer", isLoading && "opacity-60")}
+                          onClick={() => setExpandedAccount(expanded ? null : row.accountNo)}
+                          title="Show the entries behind this balance"
+                        >
+                          <TableCell>
+                            {expanded ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <span className="font-medium">{row.accountNo}</span>
+                            <span className="text-muted-foreground ml-2">{row.accountName}</span>
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatBalance(row.opening)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatAmount(row.debit)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatAmount(row.credit)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium tabular-nums">
+                            {row.closing > 0 ? formatAmount(row.closing) : "-"}
+                          </TableCell>
+                          <TableCell className="text-right font-medium tabular-nums">
+                            {row.closing < 0 ? formatAmount(-row.closing) : "-"}
+                          </TableCell>
+                        </TableRow>
+                        {expanded && (
+                          <TableRow className="hover:bg-transparent">
+                            <TableCell colSpan={COL_SPAN} className="p-0">
+                              <GLEntryDrillDown
+                                key={`${row.accountNo}|${JSON.stringify(filters)}`}
+                                accountNo={row.accountNo}
+                                fromDate={filters.fromDate}
+                                toDate={filters.toDate}
+                                additionalFilters={getDimensionConditions(filters)}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell />
+                    <TableCell className="text-muted-foreground text-xs font-semibold">
+                      Total {category.label}
+                    </TableCell>
+                    <TotalCells totals={category.totals} className="font-semibold" />
+                  </TableRow>
+                </Fragment>
+              ))
+            )}
+          </TableBody>
+          {enabled && totals && categories.length > 0 && (
+            <TableFooter className="bg-muted sticky bottom-0">
+              <TableRow>
+                <TableCell colSpan={2} className="font-bold">
+                  Grand Total
+                </TableCell>
+                <TotalCells totals={totals} className="font-bold" />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+    </div>
+  );
+}
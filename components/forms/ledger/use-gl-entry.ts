@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import {
   getGLEntries,
   getGLBalance,
@@ -23,7 +24,7 @@ import {
   ALL_COLUMNS,
 } from "@/components/forms/ledger/gl-entry-column-config";
 
-export function useGLEntry() {
+export function useGLEntry(initialFilters: Partial<GLEntryFilters> = {}) {
   const [entries, setEntries] = useState<GLEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
@@ -39,7 +40,7 @@ export function useGLEntry() {
   const lastRequestId = useRef(0);
   const entriesLengthRef = useRef(0);
 
-  const [filters, setFilters] = useState<GLEntryFilters>({
+  const [filters, setFilters] = useState<GLEntryFilters>(() => ({
     fromDate: "",
     toDate: "",
     accountNo: "",
@@ -47,8 +48,9 @@ export function useGLEntry() {
     additionalFilters: [],
     columnFilters: {},
     sortField: "Entry_No",
-    sortOrder: "desc"
-  });
+    sortOrder: "desc",
+    ...initialFilters,
+  }));
 
   const LIMIT = 200;
 
@@ -222,6 +224,37 @@ export function useGLEntry() {
     saveVisibleColumns(allColumnIds);
   }, []);
 
+  const savedViewState = useMemo<SavedViewState>(() => {
+    const { sortField, sortOrder, ...viewFilters } = filters;
+    return {
+      filters: viewFilters,
+      sortColumn: sortField,
+      sortDirection: sortOrder,
+      visibleColumns,
+    };
+  }, [filters, visibleColumns]);
+
+  const applySavedViewState = useCallback((state: SavedViewState) => {
+    const viewFilters = state.filters as Partial<GLEntryFilters>;
+    setFilters({
+      fromDate: viewFilters.fromDate ?? "",
+      toDate: viewFilters.toDate ?? "",
+      accountNo: viewFilters.accountNo ?? "",
+      search: viewFilters.search ?? "",
+      additionalFilters: viewFilters.additionalFilters ?? [],
+      columnFilters: viewFilters.columnFilters ?? {},
+      sortField: state.sortColumn ?? "Entry_No",
+      sortOrder: state.sortDirection ?? "desc",
+    });
+    if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+  }, []);
+
+  const savedViews = useSavedViews({
+    listKey: "gl-entry",
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     entries,
     isLoading,
@@ -251,5 +284,6 @@ export function useGLEntry() {
     saveColumnOrder,
     currentFilterString: buildGLFilterString(filters),
     refetch: () => fetchEntries(false),
+    savedViews,
   };
 }
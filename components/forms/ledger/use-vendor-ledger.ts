@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import {
   getVendorLedgerEntries,
   getVendorBalance,
@@ -252,6 +253,41 @@ export function useVendorLedger(options: UseVendorLedgerOptions = {}) {
     saveVisibleColumns(allColumnIds, options.isOutstanding);
   }, [options.isOutstanding]);
 
+  const savedViewState = useMemo<SavedViewState>(() => {
+    const { sortField, sortOrder, isOutstanding: _, ...viewFilters } = filters;
+    return {
+      filters: viewFilters,
+      sortColumn: sortField,
+      sortDirection: sortOrder,
+      visibleColumns,
+    };
+  }, [filters, visibleColumns]);
+
+  const applySavedViewState = useCallback(
+    (state: SavedViewState) => {
+      const viewFilters = state.filters as Partial<VendorLedgerFilters>;
+      setFilters({
+        fromDate: viewFilters.fromDate ?? "",
+        toDate: viewFilters.toDate ?? "",
+        vendorNo: viewFilters.vendorNo ?? "",
+        search: viewFilters.search ?? "",
+        additionalFilters: viewFilters.additionalFilters ?? [],
+        columnFilters: viewFilters.columnFilters ?? {},
+        sortField: state.sortColumn ?? "Posting_Date",
+        sortOrder: state.sortDirection ?? (options.isOutstanding ? "desc" : "asc"),
+        isOutstanding: options.isOutstanding,
+      });
+      if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+    },
+    [options.isOutstanding],
+  );
+
+  const savedViews = useSavedViews({
+    listKey: options.isOutstanding ? "vendor-outstanding" : "vendor-ledger",
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     entries,
     isLoading,
@@ -282,5 +318,6 @@ export function useVendorLedger(options: UseVendorLedgerOptions = {}) {
     currentFilterString: buildVendorFilterString({ ...filters, isOutstanding: options.isOutstanding }),
     humanReadableFilters: buildHumanReadableVendorFilters(filters),
     refetch: () => fetchEntries(false),
+    savedViews,
   };
 }
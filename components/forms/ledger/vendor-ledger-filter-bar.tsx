@@ -7,6 +7,8 @@ import { Label } from "@/components/ui/label";
 import { DateInput } from "@/components/ui/date-input";
 import type { VendorLedgerFilters, VendorLedgerEntry } from "@/lib/api/services/vendor-ledger.service";
 import { VendorColumnVisibility } from "./vendor-ledger-column-visibility";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 import { 
   LEDGER_DEFAULT_COLUMNS, 
   OUTSTANDING_DEFAULT_COLUMNS, 
@@ -43,6 +45,7 @@ interface VendorLedgerFilterBarProps {
   openingBalance?: number;
   closingBalance?: number;
   currentEntries?: VendorLedgerEntry[];
+  savedViews?: SavedViewsController;
 }
 
 export function VendorLedgerFilterBar({
@@ -63,6 +66,7 @@ export function VendorLedgerFilterBar({
   openingBalance,
   closingBalance,
   currentEntries = [],
+  savedViews,
 }: VendorLedgerFilterBarProps) {
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [filterPopoverOpen, setFilterPopoverOpen] = useState(false);
@@ -209,6 +213,8 @@ export function VendorLedgerFilterBar({
           Export
         </Button>
 
+        {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
         <VendorColumnVisibility
           visibleColumns={visibleColumns}
           defaultColumns={filters.isOutstanding ? OUTSTANDING_DEFAULT_COLUMNS : LEDGER_DEFAULT_COLUMNS}
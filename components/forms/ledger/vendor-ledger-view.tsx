@@ -117,6 +117,7 @@ export function VendorLedgerView() {
           openingBalance={currentState.openingBalance}
           closingBalance={currentState.closingBalance}
           currentEntries={currentState.entries}
+          savedViews={currentState.savedViews}
         />
       </div>
 
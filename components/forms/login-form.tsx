@@ -10,7 +10,7 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { loginSchema, type LoginFormData } from "@/lib/validations";
 import { loginUser } from "@/lib/api/services/auth.service";
-import { setAuthCredentials, getRememberedUsername } from "@/lib/auth/storage";
+import { setAuthSession, getRememberedUsername } from "@/lib/auth/storage";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { PasswordInput } from "@/components/ui/password-input";
@@ -92,8 +92,12 @@ export function LoginForm({
     setIsSubmitting(true);
 
     try {
-      // Call ERP login API directly
-      const response = await loginUser(formData.username, formData.password);
+      // Login through the server, which issues the session cookie
+      const response = await loginUser(
+        formData.username,
+        formData.password,
+        formData.rememberMe,
+      );
 
       // Check if login was successful (ERP returns "OK" in value field)
       if (response.value === "First Login") {
@@ -103,7 +107,7 @@ export function LoginForm({
         return;
       }
 
-      if (response.value !== "OK") {
+      if (response.value !== "OK" || !response.user) {
         setError(
           "Invalid credentials. Please check your username and password.",
         );
@@ -111,14 +115,10 @@ export function LoginForm({
         return;
       }
 
-      // Store credentials in localStorage/sessionStorage
-      setAuthCredentials(
-        formData.username.toUpperCase(),
-        formData.password,
-        formData.rememberMe,
-      );
+      // Store session user (role, permissions) in localStorage/sessionStorage
+      setAuthSession(response.user, formData.rememberMe);
 
-      // Refresh auth context to get userID
+      // Refresh auth context to get userID and permissions
       await refreshAuth();
 
       // Redirect to intended page or default
@@ -28,6 +28,14 @@ import {
 } from "@/lib/api/services/outward-gate-entry.service";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDate } from "@/lib/utils/date";
+import { toast } from "sonner";
+import { toastError } from "@/lib/errors";
+import { ScanButton } from "@/components/forms/shared/barcode-scanner-dialog";
+import {
+  parseScanPayload,
+  useWedgeScanner,
+  type ScanPayload,
+} from "@/lib/scanner";
 
 interface SourceLookupModalProps {
   isOpen: boolean;
@@ -120,6 +128,16 @@ export function SourceLookupModal({
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const loadSource = useCallback(
+    (params: Parameters<typeof getPostedPurchaseReturnShipments>[0]) => {
+      if (sourceType === "Posted Purchase Return Shipment") return getPostedPurchaseReturnShipments(params);
+      if (sourceType === "Transfer Shipment") return getTransferShipments(params);
+      if (sourceType === "Sales Shipment") return getSalesShipments(params);
+      return Promise.resolve(undefined);
+    },
+    [sourceType],
+  );
+
   const fetchData = useCallback(async (page: number, isNewSearch: boolean) => {
     const requestId = ++lastRequestId.current;
     
@@ -147,14 +165,7 @@ export function SourceLookupModal({
         $orderby: sortColumn && sortDirection ? `${sortColumn} ${sortDirection}` : undefined,
       };
 
-      let result;
-      if (sourceType === "Posted Purchase Return Shipment") {
-        result = await getPostedPurchaseReturnShipments(params);
-      } else if (sourceType === "Transfer Shipment") {
-        result = await getTransferShipments(params);
-      } else if (sourceType === "Sales Shipment") {
-        result = await getSalesShipments(params);
-      }
+      const result = await loadSource(params);
 
       if (requestId !== lastRequestId.current) return;
 
@@ -185,7 +196,7 @@ export function SourceLookupModal({
         }
       }
     }
-  }, [sourceType, debouncedSearch, branchCode, locationCode, columnFilters, sortColumn, sortDirection]);
+  }, [loadSource, debouncedSearch, branchCode, locationCode, columnFilters, sortColumn, sortDirection]);
 
   // Reset and fetch page 1 when search params, sorting or open state changes
   useEffect(() => {
@@ -242,6 +253,34 @@ export function SourceLookupModal({
     }
   }, [isOpen, fetchData]);
 
+  /** Select the scanned document when it matches exactly, otherwise search for it */
+  const handleScan = async (payload: ScanPayload) => {
+    const code = payload.documentNo || payload.raw;
+    try {
+      const result = await loadSource({
+        $top: 10,
+        $skip: 0,
+        searchTerm: code,
+        branchCode: branchCode || undefined,
+        locationCode: locationCode || undefined,
+        filters: {},
+      });
+      const match = result?.data.find(
+        (item) => String(item.No || item["No."] || "").toUpperCase() === code.toUpperCase(),
+      );
+      if (match) {
+        onSelect(match.No || match["No."], match);
+        return;
+      }
+      toast.info(`No ${sourceType} matches ${code} exactly`);
+      setSearchQuery(code);
+    } catch (error) {
+      toastError(error, "Failed to look up scanned document");
+    }
+  };
+
+  useWedgeScanner((code) => handleScan(parseScanPayload(code)), isOpen);
+
   const activeFiltersCount = Object.keys(columnFilters).length + (searchQuery ? 1 : 0);
 
   return (
@@ -261,6 +300,11 @@ export function SourceLookupModal({
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
+          <ScanButton
+            onScan={handleScan}
+            title={`Scan ${sourceType}`}
+            className="h-9 shrink-0"
+          />
           {activeFiltersCount > 0 && (
             <Button 
               variant="ghost" 
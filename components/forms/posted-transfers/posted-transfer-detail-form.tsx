@@ -13,7 +13,6 @@ import {
   cancelEInvoice, 
   generateEWayBill, 
   cancelEWayBill, 
-  updateVehicle, 
   updateTransporter 
 } from "@/lib/api/services/eway-einvoice.service";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -30,6 +29,7 @@ import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
 import { formatDate } from "@/lib/utils/date";
 import { undoTransferShipment } from "@/lib/api/services/undo-actions.service";
+import { EWayBillUpdateDialog } from "@/components/forms/shared/eway-bill-update-dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -72,6 +72,7 @@ export function PostedTransferDetailForm({
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [undoingLine, setUndoingLine] = useState<number | null>(null);
+  const [showPartB, setShowPartB] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
@@ -98,6 +99,24 @@ export function PostedTransferDetailForm({
     }
   };
 
+  const openPartB = () => {
+    if (!header?.E_Way_Bill_No) {
+      toastError(new Error("E-Way Bill No. is missing on the document."));
+      return;
+    }
+    setShowPartB(true);
+  };
+
+  const refreshHeader = async () => {
+    if (!activeNo) return;
+    try {
+      const headerData = await getPostedTransferShipmentByNo(activeNo);
+      if (headerData) setHeader(headerData);
+    } catch (err) {
+      console.error("Error refreshing posted transfer shipment:", err);
+    }
+  };
+
   const handleUndo = async (lineNo: number) => {
     if (!activeNo) return;
     
@@ -240,13 +259,8 @@ export function PostedTransferDetailForm({
                   <DropdownMenuItem onClick={() => handleAction("E-Way Bill Cancellation", () => cancelEWayBill("Transfer", header.No))}>
                     Cancel E-way Bill
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleAction("Vehicle Update", () => {
-                    if (!header.E_Way_Bill_No) {
-                      throw new Error("E-Way Bill No. is missing on the document.");
-                    }
-                    return updateVehicle(header.No, header.E_Way_Bill_No);
-                  })}>
-                    Updated Vehicle
+                  <DropdownMenuItem onClick={openPartB}>
+                    Update Vehicle (Part-B)
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => handleAction("Transporter Update", () => {
                     if (!header.E_Way_Bill_No) {
@@ -390,6 +404,18 @@ export function PostedTransferDetailForm({
         </div>
       </div>
 
+      {header.E_Way_Bill_No && (
+        <EWayBillUpdateDialog
+          open={showPartB}
+          onOpenChange={setShowPartB}
+          docType="Transfer"
+          docNo={header.No}
+          eWayBillNo={header.E_Way_Bill_No}
+          vehicleNo={header.Vehicle_No}
+          onUpdated={refreshHeader}
+        />
+      )}
+
       <AlertDialog
         open={confirmDialog.isOpen}
         onOpenChange={(open) => setConfirmDialog((prev) => ({ ...prev, isOpen: open }))}
@@ -25,6 +25,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { DateInput } from "@/components/ui/date-input";
+import { ScanButton } from "@/components/forms/shared/barcode-scanner-dialog";
+import type { ScanPayload } from "@/lib/scanner";
 import {
   assignItemTracking,
   getItemAvailabilityByLot,
@@ -260,6 +262,26 @@ export function ItemTrackingDialog({
     setQuantity(suggestedQty.toString());
   };
 
+  /** Fill the lot from a scanned label; a bare code is taken as the lot no */
+  const handleLotScan = (payload: ScanPayload) => {
+    if (!source) return;
+    const itemNo = getItemNo(source);
+    if (payload.itemNo && payload.itemNo !== itemNo) {
+      toast.error(`Scanned label is for item ${payload.itemNo}, not ${itemNo}`);
+      return;
+    }
+
+    const scannedLot = payload.lotNo || payload.documentNo || "";
+    const lot = availableLots.find((l) => l.LotNo === scannedLot);
+    if (lot) {
+      handleLotSelect(lot);
+      return;
+    }
+
+    setLotNo(scannedLot);
+    if (payload.expirationDate) setExpirationDate(payload.expirationDate);
+  };
+
   const handleFillDueDate = () => {
     let baseDate: string | undefined;
     if (line?.Due_Date) {
@@ -624,12 +646,19 @@ export function ItemTrackingDialog({
                       <Label htmlFor="lotNo" className="text-sm">
                         Lot No.
                       </Label>
-                      <Input
-                        id="lotNo"
-                        value={lotNo}
-                        onChange={(e) => setLotNo(e.target.value)}
-                        placeholder="Select or enter lot no"
-                      />
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="lotNo"
+                          value={lotNo}
+                          onChange={(e) => setLotNo(e.target.value)}
+                          placeholder="Select, scan or enter lot no"
+                        />
+                        <ScanButton
+                          onScan={handleLotScan}
+                          title="Scan Lot Label"
+                          className="h-8 shrink-0"
+                        />
+                      </div>
                     </div>
                     <div className="space-y-1.5">
                       <Label htmlFor="expirationDate" className="text-sm">
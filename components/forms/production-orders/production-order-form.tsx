@@ -60,6 +60,7 @@ import { CalculatorInput } from "@/components/ui/calculator-input";
 import { SourceNoSelect } from "./source-no-select";
 import { useFormStack } from "@/lib/form-stack/use-form-stack";
 import { getAuthCredentials } from "@/lib/auth/storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 import {
   getLOBsFromUserSetup,
   getBranchesFromUserSetup,
@@ -151,6 +152,8 @@ export function ProductionOrderForm({
     updateTab,
     closeTab,
   } = useFormStack(tabId);
+  const { can } = useAuth();
+  const canPostOrder = can("production", "post");
   const [userId, setUserId] = useState<string | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isInitialLoadComplete, setIsInitialLoadComplete] = useState(false);
@@ -1063,6 +1066,7 @@ export function ProductionOrderForm({
                   prodOrderNo={formState.No}
                   userId={userId || ""}
                   onClose={refreshOrderData}
+                  disabled={!canPostOrder}
                 />
               </div>
               {/* QR Code - hidden on xs/sm, visible on md+ */}
@@ -1117,6 +1121,7 @@ export function ProductionOrderForm({
                   {/* Post Order - show in dropdown on xs only */}
                   <DropdownMenuItem
                     className="sm:hidden"
+                    disabled={!canPostOrder}
                     onClick={() => {
                       // Trigger the sheet by programmatically clicking
                       const trigger = document.querySelector(
@@ -56,6 +56,8 @@ interface ProductionOrderPostSheetProps {
   prodOrderLineNo?: number;
   userId: string;
   onClose?: () => void;
+  /** Disables the "Post Order" trigger (e.g. role without post permission) */
+  disabled?: boolean;
 }
 
 type JournalEditableField = "Quantity" | "Output_Quantity";
@@ -75,6 +77,7 @@ export function ProductionOrderPostSheet({
   prodOrderLineNo = 10000,
   userId,
   onClose,
+  disabled = false,
 }: ProductionOrderPostSheetProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -470,7 +473,12 @@ export function ProductionOrderPostSheet({
         }}
       >
         <SheetTrigger asChild>
-          <Button variant="default" size="sm" data-post-order-trigger>
+          <Button
+            variant="default"
+            size="sm"
+            data-post-order-trigger
+            disabled={disabled}
+          >
             <FileText className="mr-2 h-4 w-4" />
             Post Order
           </Button>
@@ -0,0 +1,84 @@
+"use client";
+
+/**
+ * Production Order Scan Button
+ * Opens the order printed on a production QR label. Released orders open in
+ * the order form, finished orders in the read-only detail view. A USB wedge
+ * scan anywhere on the page (outside inputs) does the same
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { ScanButton } from "@/components/forms/shared/barcode-scanner-dialog";
+import { toastError } from "@/lib/errors";
+import { useFormStackContext } from "@/lib/form-stack/form-stack-context";
+import {
+  getFinishedProductionOrderByNo,
+  getProductionOrderByNo,
+} from "@/lib/api/services/production-orders.service";
+import {
+  parseScanPayload,
+  useWedgeScanner,
+  type ScanPayload,
+} from "@/lib/scanner";
+
+export function ProductionOrderScanButton() {
+  const { openTab } = useFormStackContext();
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const handleScan = async (payload: ScanPayload) => {
+    const orderNo = payload.documentNo;
+    if (!orderNo) {
+      toast.error("Scanned label has no production order number");
+      return;
+    }
+
+    // Scanned text goes into an OData string literal
+    const literal = orderNo.replace(/'/g, "''");
+    setIsLookingUp(true);
+    try {
+      const released = await getProductionOrderByNo(literal);
+      if (released) {
+        openTab("production-order", {
+          title: `Order: ${released.No}`,
+          context: {
+            mode: "view",
+            orderNo: released.No,
+            openedFromParent: true,
+          },
+          autoCloseOnSuccess: false,
+        });
+        return;
+      }
+
+      const finished = await getFinishedProductionOrderByNo(literal);
+      if (finished) {
+        openTab("finished-production-order-detail", {
+          title: `Finished Order ${finished.No}`,
+          context: { orderNo: finished.No },
+          autoCloseOnSuccess: false,
+        });
+        return;
+      }
+
+      toast.error(`Production order ${orderNo} not found`);
+    } catch (error) {
+      toastError(error, "Failed to look up production order");
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  useWedgeScanner((code) => handleScan(parseScanPayload(code)), !isLookingUp);
+
+  return (
+    <ScanButton
+      onScan={handleScan}
+      label="Scan Order"
+      title="Scan Production Order"
+      description="Scan the QR label of a production order to open it."
+      disabled={isLookingUp}
+      className="h-9"
+    />
+  );
+}
@@ -45,6 +45,7 @@ export function ReleasedOrdersView() {
     loadMore,
     hasMore,
     isLoadingMore,
+    savedViews,
   } = useProductionOrders();
 
   // Removed hasNextPage
@@ -111,6 +112,7 @@ export function ReleasedOrdersView() {
             additionalFilters={additionalFilters}
             onAddAdditionalFilter={handleAddAdditionalFilter}
             onRemoveAdditionalFilter={handleRemoveAdditionalFilter}
+            savedViews={savedViews}
           />
         </div>
 
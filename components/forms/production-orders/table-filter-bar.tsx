@@ -7,6 +7,8 @@ import { Button } from "@/components/ui/button";
 import { ColumnVisibility } from "./column-visibility";
 import { DynamicFilterBuilder } from "./dynamic-filter-builder";
 import type { FilterCondition } from "./types";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 
 interface TableFilterBarProps {
   // Basic filters
@@ -27,6 +29,8 @@ interface TableFilterBarProps {
   additionalFilters?: FilterCondition[];
   onAddAdditionalFilter?: (filter: FilterCondition) => void;
   onRemoveAdditionalFilter?: (index: number) => void;
+  // Optional: saved views menu
+  savedViews?: SavedViewsController;
 }
 
 export function TableFilterBar({
@@ -42,6 +46,7 @@ export function TableFilterBar({
   additionalFilters = [],
   onAddAdditionalFilter,
   onRemoveAdditionalFilter,
+  savedViews,
 }: TableFilterBarProps) {
   const [localSearch, setLocalSearch] = useState(searchQuery);
 
@@ -123,6 +128,8 @@ export function TableFilterBar({
         </Button>
       )}
 
+      {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
       {/* Column Visibility */}
       <ColumnVisibility
         visibleColumns={visibleColumns}
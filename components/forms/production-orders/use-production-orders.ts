@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import {
   getLOBsFromUserSetup,
   getAllBranchesFromUserSetup,
@@ -109,11 +110,16 @@ export function useProductionOrders() {
         setBranchOptions(bCodes.map((code) => ({ label: code, value: code })));
 
         // Select all branches by default - User requirement: "Branch -> ALL Selected"
+        // A saved view restored before this resolves keeps its own branches
         if (bCodes.length > 0) {
-          setColumnFilters((prev) => ({
-            ...prev,
-            Shortcut_Dimension_2_Code: { value: bCodes.join(",") },
-          }));
+          setColumnFilters((prev) =>
+            prev.Shortcut_Dimension_2_Code !== undefined
+              ? prev
+              : {
+                  ...prev,
+                  Shortcut_Dimension_2_Code: { value: bCodes.join(",") },
+                },
+          );
         }
       } catch (error) {
         console.error("Error fetching user setup:", error);
@@ -419,6 +425,70 @@ export function useProductionOrders() {
     setCurrentPage(1);
   }, []);
 
+  // Saved views: the branch filter is kept out of views that use the user's own branches
+  const savedViewState = useMemo<SavedViewState>(() => {
+    const { Shortcut_Dimension_2_Code: branchFilter, ...otherColumnFilters } =
+      columnFilters;
+    const isOwnBranches =
+      !branchFilter || branchFilter.value === userBranchCodes.join(",");
+    return {
+      filters: {
+        searchQuery,
+        dueDateFrom,
+        dueDateTo,
+        columnFilters: isOwnBranches ? otherColumnFilters : columnFilters,
+        additionalFilters,
+      },
+      sortColumn,
+      sortDirection,
+      visibleColumns,
+      pageSize,
+    };
+  }, [
+    searchQuery,
+    dueDateFrom,
+    dueDateTo,
+    columnFilters,
+    additionalFilters,
+    sortColumn,
+    sortDirection,
+    visibleColumns,
+    pageSize,
+    userBranchCodes,
+  ]);
+
+  const applySavedViewState = useCallback((state: SavedViewState) => {
+    const filters = state.filters as {
+      searchQuery?: string;
+      dueDateFrom?: string;
+      dueDateTo?: string;
+      columnFilters?: Record<string, { value: string; valueTo?: string }>;
+      additionalFilters?: FilterCondition[];
+    };
+    setSearchQuery(filters.searchQuery ?? "");
+    setDueDateFrom(filters.dueDateFrom ?? "");
+    setDueDateTo(filters.dueDateTo ?? "");
+    setColumnFilters((prev) => {
+      const next = { ...(filters.columnFilters ?? {}) };
+      if (!next.Shortcut_Dimension_2_Code && prev.Shortcut_Dimension_2_Code) {
+        next.Shortcut_Dimension_2_Code = prev.Shortcut_Dimension_2_Code;
+      }
+      return next;
+    });
+    setAdditionalFilters(filters.additionalFilters ?? []);
+    setSortColumn(state.sortColumn ?? "No");
+    setSortDirection(state.sortDirection ?? "desc");
+    if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+    if (state.pageSize) setPageSize(state.pageSize as PageSize);
+    setCurrentPage(1);
+  }, []);
+
+  const savedViews = useSavedViews({
+    listKey: "production-order",
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     // Data
     orders,
@@ -461,6 +531,8 @@ export function useProductionOrders() {
     loadMore,
     hasMore,
     isLoadingMore,
+    // Saved views
+    savedViews,
     addOrder: useCallback((order: ProductionOrder) => {
       setOrders((prev) => [order, ...prev]);
       setTotalCount((prev) => prev + 1);
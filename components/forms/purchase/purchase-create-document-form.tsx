@@ -31,6 +31,7 @@ import {
 } from "@/components/ui/accordion";
 import { CascadingDimensionSelect } from "@/components/forms/cascading-dimension-select";
 import { LocationCodeSelectDialog } from "@/components/forms/location-code-select-dialog";
+import { createBatch, sendBatch, type ODataBatch } from "@/lib/api/batch";
 import { getWebUserSetup } from "@/lib/api/services/dimension.service";
 import { VendorSelect, type PurchaseVendor } from "./vendor-select";
 import { BrokerSelect } from "./broker-select";
@@ -65,6 +66,7 @@ import {
   resolvePurchaseLocationCode,
 } from "./purchase-document-line-items-data";
 import { getAuthCredentials } from "@/lib/auth/storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 import { getErrorMessage, toastError } from "@/lib/errors";
 import type { LineItem } from "@/components/forms/purchase/purchase-line-item.type";
 import { PurchaseLineItemsTable } from "./purchase-line-items-table";
@@ -239,7 +241,7 @@ interface PurchaseCreateDocumentConfig {
     documentNo: string,
     lineItems: PurchaseOrderLineItem[],
     locationCode: string,
-  ) => Promise<void>;
+  ) => Promise<{ Line_No: number; [key: string]: unknown }[]>;
   addSingleLine: (
     documentNo: string,
     lineItem: PurchaseOrderLineItem,
@@ -255,7 +257,11 @@ interface PurchaseCreateDocumentConfig {
     body: Record<string, unknown>,
   ) => Promise<unknown>;
   deleteHeader: (documentNo: string) => Promise<unknown>;
-  deleteLine: (documentNo: string, lineNo: number) => Promise<void>;
+  deleteLine: (
+    documentNo: string,
+    lineNo: number,
+    batch?: ODataBatch,
+  ) => Promise<void>;
   statusActions: {
     open: string[];
     pending: string[];
@@ -430,8 +436,12 @@ const PURCHASE_CREATE_DOCUMENT_CONFIG: Record<
     updateSingleLine: updateSinglePurchaseOrderLine,
     updateHeader: patchPurchaseOrderHeader,
     deleteHeader: deletePurchaseOrderHeader,
-    deleteLine: async (documentNo: string, lineNo: number) => {
-      await deletePurchaseOrderLine(documentNo, lineNo);
+    deleteLine: async (
+      documentNo: string,
+      lineNo: number,
+      batch?: ODataBatch,
+    ) => {
+      await deletePurchaseOrderLine(documentNo, lineNo, batch);
     },
     statusActions: {
       open: ["Send For Approval"],
@@ -481,6 +491,7 @@ export function PurchaseCreateDocumentFormContent({
 }: PurchaseCreateDocumentFormContentProps) {
   const config = PURCHASE_CREATE_DOCUMENT_CONFIG[documentType];
   const capabilities = getPurchaseDocumentCapabilities(documentType);
+  const { can } = useAuth();
   const isCreateMode = mode === "create";
   const isEditMode = mode === "edit";
   const isViewMode = mode === "view";
@@ -1189,22 +1200,33 @@ export function PurchaseCreateDocumentFormContent({
     setPlaceOrderError(null);
 
     try {
-      let deletedCount = 0;
-      for (const lineId of selectedLineIds) {
-        const item = lineItems.find((i) => i.id === lineId);
-        if (item && item.lineNo) {
-          try {
-            await config.deleteLine(createdOrderNo, item.lineNo);
-            deletedCount++;
-          } catch (err) {
-            console.error(`Failed to delete line ${item.lineNo}:`, err);
-          }
-        }
-      }
+      const lineNos = selectedLineIds
+        .map((lineId) => lineItems.find((i) => i.id === lineId)?.lineNo)
+        .filter((lineNo): lineNo is number => !!lineNo);
+
+      // One atomic changeset: either every selected line goes or none does
+      const batch = createBatch();
+      const pending = lineNos.map((lineNo) =>
+        config.deleteLine(createdOrderNo, lineNo, batch),
+      );
+      const response = await batch.send();
+      const settled = await Promise.allSettled(pending);
+
       await refreshHydratedDocument();
-      setSelectedLineIds([]);
-      if (deletedCount > 0) {
-        toast.success(`${deletedCount} line items removed.`);
+      if (response.ok) {
+        setSelectedLineIds([]);
+        if (lineNos.length > 0) {
+          toast.success(`${lineNos.length} line items removed.`);
+        }
+      } else {
+        const failedLineNos = lineNos.filter(
+          (_, i) => settled[i].status === "rejected",
+        );
+        console.error(`Failed to delete lines ${failedLineNos.join(", ")}:`, response.failed);
+        toastError(
+          response.failed[0]?.error,
+          `Could not delete line(s) ${failedLineNos.join(", ")}. No lines were removed.`,
+        );
       }
     } catch (error) {
       console.error("Bulk delete operation encountered an error:", error);
@@ -1328,19 +1350,21 @@ export function PurchaseCreateDocumentFormContent({
         .map((line) => line.lineNo)
         .filter((lineNo): lineNo is number => typeof lineNo === "number");
 
-      for (const lineNo of persistedLineNos) {
-        try {
-          await config.deleteLine(createdOrderNo, lineNo);
-        } catch (err) {
-          console.error(`Failed to delete line ${lineNo} during document deletion:`, err);
-        }
-      }
+      // The header is only deleted once every line is gone; a failed line
+      // batch throws and leaves the document intact
+      const batch = createBatch();
+      await sendBatch(
+        batch,
+        persistedLineNos.map((lineNo) =>
+          config.deleteLine(createdOrderNo, lineNo, batch),
+        ),
+      );
 
       await config.deleteHeader(createdOrderNo);
       toast.success(`${config.displayTitle} deleted successfully.`);
       onSuccess(createdOrderNo);
     } catch (error) {
-      console.error("Failed to delete document header:", error);
+      console.error("Failed to delete document:", error);
       setPlaceOrderError(
         getErrorMessage(error, `Failed to delete ${config.displayTitle}.`),
       );
@@ -2760,7 +2784,7 @@ export function PurchaseCreateDocumentFormContent({
                     size="sm"
                     className="h-8"
                     onClick={handleDeleteDocument}
-                    disabled={isActionLoading}
+                    disabled={isActionLoading || !can("purchase", "delete")}
                   >
                     Delete
                   </Button>
@@ -2794,7 +2818,10 @@ export function PurchaseCreateDocumentFormContent({
                         size="sm"
                         className="h-8"
                         onClick={() => handleStatusAction(action)}
-                        disabled={isActionLoading}
+                        disabled={
+                          isActionLoading ||
+                          (action === "Post" && !can("purchase", "post"))
+                        }
                       >
                         {action}
                       </Button>
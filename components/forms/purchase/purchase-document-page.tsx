@@ -7,6 +7,7 @@ import {
   MiniAccessPanel,
 } from "@/components/form-stack";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getInitialSearchParam } from "@/lib/utils/search-params";
 import {
   getPurchaseDocumentConfig,
   type PurchaseDocumentStatusTab,
@@ -23,6 +24,11 @@ const TAB_STATUS_MAP: Record<PurchaseTab, PurchaseDocumentStatusTab> = {
   all: "",
 };
 
+/** ?receipt=pending narrows the Approved tab to orders not completely received */
+const RECEIPT_PENDING_FILTERS = {
+  Completely_Received: { value: "false" },
+};
+
 interface PurchaseDocumentPageProps {
   documentType: PurchaseDocumentType;
 }
@@ -31,7 +37,12 @@ function PurchaseDocumentPageContent({
   documentType,
 }: PurchaseDocumentPageProps) {
   const refetchRef = useRef<(() => void) | null>(null);
-  const [activeTab, setActiveTab] = useState<PurchaseTab>("all");
+  const [activeTab, setActiveTab] = useState<PurchaseTab>(() =>
+    getInitialSearchParam("tab", Object.keys(TAB_STATUS_MAP) as PurchaseTab[], "all"),
+  );
+  const [receiptFilter] = useState(() =>
+    getInitialSearchParam("receipt", ["pending", ""] as const, ""),
+  );
   const [poType, setPoType] = useState<string>("Both");
   const config = getPurchaseDocumentConfig(documentType);
 
@@ -101,6 +112,9 @@ function PurchaseDocumentPageContent({
             <PurchaseDocumentView
               documentType={documentType}
               statusFilter={TAB_STATUS_MAP.approved}
+              initialColumnFilters={
+                receiptFilter === "pending" ? RECEIPT_PENDING_FILTERS : undefined
+              }
               poType={poType}
               onPoTypeChange={setPoType}
               onPlaceOrder={() => refetchRef.current?.()}
@@ -27,6 +27,7 @@ interface PurchaseDocumentViewProps {
   registerRefetch?: (refetch: () => void) => void;
   poType?: string;
   onPoTypeChange?: (value: string) => void;
+  initialColumnFilters?: Record<string, { value: string; valueTo?: string }>;
 }
 
 export function PurchaseDocumentView({
@@ -36,6 +37,7 @@ export function PurchaseDocumentView({
   registerRefetch,
   poType: externalPoType,
   onPoTypeChange: externalOnPoTypeChange,
+  initialColumnFilters,
 }: PurchaseDocumentViewProps) {
   const { openTab } = useFormStackContext();
   const config = getPurchaseDocumentConfig(documentType);
@@ -147,7 +149,14 @@ export function PurchaseDocumentView({
     loadMore,
     hasMore,
     isLoadingMore,
-  } = usePurchaseDocuments({ documentType, statusFilter, externalPoType, externalOnPoTypeChange });
+    savedViews,
+  } = usePurchaseDocuments({
+    documentType,
+    statusFilter,
+    externalPoType,
+    externalOnPoTypeChange,
+    initialColumnFilters,
+  });
 
   useEffect(() => {
     registerRefetch?.(refetch);
@@ -187,6 +196,7 @@ export function PurchaseDocumentView({
         onPoTypeChange={
           config.supportsPoTypeFilter ? onPoTypeChange : undefined
         }
+        savedViews={savedViews}
       >
         {documentType === "order" && (
           <Button
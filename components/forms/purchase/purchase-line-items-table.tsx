@@ -345,6 +345,7 @@ export function PurchaseLineItemsTable({
             {lineItems.map((item) => (
               <TableRow
                 key={item.id}
+                data-line-no={item.lineNo}
                 className={cn(
                   "hover:bg-muted/50 cursor-pointer whitespace-nowrap",
                 )}
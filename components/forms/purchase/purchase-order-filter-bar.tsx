@@ -9,6 +9,8 @@ import { DynamicFilterBuilder } from "./dynamic-filter-builder";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import type { FilterCondition } from "./types";
 import type { ColumnConfig } from "./column-config";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 
 
 interface PurchaseOrderFilterBarProps {
@@ -28,6 +30,7 @@ interface PurchaseOrderFilterBarProps {
   onRemoveAdditionalFilter: (index: number) => void;
   poType?: string;
   onPoTypeChange?: (value: string) => void;
+  savedViews?: SavedViewsController;
   children?: React.ReactNode;
 }
 
@@ -49,6 +52,7 @@ export function PurchaseOrderFilterBar({
   onRemoveAdditionalFilter,
   poType,
   onPoTypeChange,
+  savedViews,
   children,
 }: PurchaseOrderFilterBarProps) {
 
@@ -139,6 +143,8 @@ export function PurchaseOrderFilterBar({
           </Tabs>
         )}
 
+        {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
         <PurchaseOrderColumnVisibility
           visibleColumns={visibleColumns}
           defaultColumns={defaultColumns}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import { getAllBranchesFromUserSetup } from "@/lib/api/services/dimension.service";
 import {
   getPurchaseOrdersWithCount,
@@ -83,10 +84,18 @@ export interface UsePurchaseDocumentsOptions {
   statusFilter?: PurchaseDocumentStatusTab;
   externalPoType?: string;
   externalOnPoTypeChange?: (value: string) => void;
+  /** Column filters applied on first load, e.g. from a dashboard link */
+  initialColumnFilters?: Record<string, { value: string; valueTo?: string }>;
 }
 
 export function usePurchaseDocuments(options: UsePurchaseDocumentsOptions) {
-  const { documentType, statusFilter, externalPoType, externalOnPoTypeChange } = options;
+  const {
+    documentType,
+    statusFilter,
+    externalPoType,
+    externalOnPoTypeChange,
+    initialColumnFilters,
+  } = options;
   const { userID } = useAuth();
 
   const columnConfig = useMemo(() => getColumnConfig(documentType), [documentType]);
@@ -105,7 +114,7 @@ export function usePurchaseDocuments(options: UsePurchaseDocumentsOptions) {
   const [searchQuery, setSearchQuery] = useState("");
   const [columnFilters, setColumnFilters] = useState<
     Record<string, { value: string; valueTo?: string }>
-  >({});
+  >(() => initialColumnFilters ?? {});
   const [additionalFilters, setAdditionalFilters] = useState<FilterCondition[]>(
     [],
   );
@@ -372,6 +381,73 @@ export function usePurchaseDocuments(options: UsePurchaseDocumentsOptions) {
     setCurrentPage(1);
   }, [setPoType]);
 
+  // Saved views: the branch filter is kept out of views that use the user's own branches
+  const savedViewState = useMemo<SavedViewState>(() => {
+    const { Shortcut_Dimension_2_Code: branchFilter, ...otherColumnFilters } =
+      columnFilters;
+    const isOwnBranches =
+      !branchFilter || branchFilter.value === userBranchCodes.join(",");
+    return {
+      filters: {
+        searchQuery,
+        columnFilters: isOwnBranches ? otherColumnFilters : columnFilters,
+        additionalFilters,
+        poType,
+      },
+      sortColumn,
+      sortDirection,
+      visibleColumns,
+      pageSize,
+    };
+  }, [
+    searchQuery,
+    columnFilters,
+    additionalFilters,
+    poType,
+    sortColumn,
+    sortDirection,
+    visibleColumns,
+    pageSize,
+    userBranchCodes,
+  ]);
+
+  const applySavedViewState = useCallback(
+    (state: SavedViewState) => {
+      const filters = state.filters as {
+        searchQuery?: string;
+        columnFilters?: Record<string, { value: string; valueTo?: string }>;
+        additionalFilters?: FilterCondition[];
+        poType?: string;
+      };
+      setSearchQuery(filters.searchQuery ?? "");
+      setColumnFilters((previousFilters) => {
+        const nextFilters = { ...(filters.columnFilters ?? {}) };
+        if (
+          !nextFilters.Shortcut_Dimension_2_Code &&
+          previousFilters.Shortcut_Dimension_2_Code
+        ) {
+          nextFilters.Shortcut_Dimension_2_Code =
+            previousFilters.Shortcut_Dimension_2_Code;
+        }
+        return nextFilters;
+      });
+      setAdditionalFilters(filters.additionalFilters ?? []);
+      setPoType(filters.poType ?? "Both");
+      setSortColumn(state.sortColumn ?? "No");
+      setSortDirection(state.sortDirection ?? "desc");
+      if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+      if (state.pageSize) setPageSize(state.pageSize);
+      setCurrentPage(1);
+    },
+    [setPoType],
+  );
+
+  const savedViews = useSavedViews({
+    listKey: `purchase-${documentType}`,
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     orders,
     isLoading,
@@ -405,5 +481,6 @@ export function usePurchaseDocuments(options: UsePurchaseDocumentsOptions) {
     loadMore,
     hasMore,
     isLoadingMore,
+    savedViews,
   };
 }
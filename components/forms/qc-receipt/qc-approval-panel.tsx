@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  CheckCircle2,
+  Loader2,
+  SendHorizontal,
+  ShieldCheck,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { toastError } from "@/lib/errors";
+import {
+  QC_APPROVAL_ACTION_LABELS,
+  QC_APPROVAL_STATUS_LABELS,
+  QC_SECOND_APPROVAL_DEVIATION_PERCENT,
+  type QCApprovalAction,
+  type QCApprovalStatus,
+  type UseQCApprovalResult,
+} from "@/lib/qc-approval";
+import { cn } from "@/lib/utils";
+
+interface QCApprovalPanelProps {
+  approval: UseQCApprovalResult;
+  isPosted: boolean;
+  /** Why the receipt cannot be submitted yet, e.g. unsaved changes */
+  submitBlockedReason: string | null;
+  /** Called after each transition, which the server writes to the ERP header */
+  onTransitioned: () => void;
+}
+
+const STATUS_CLASSES: Record<QCApprovalStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  submitted: "bg-blue-100 text-blue-700",
+  "first-approved": "bg-indigo-100 text-indigo-700",
+  approved: "bg-green-100 text-green-700",
+  returned: "bg-orange-100 text-orange-700",
+};
+
+const EVENT_ICONS: Record<QCApprovalAction, { icon: typeof CheckCircle2; className: string }> = {
+  submit: { icon: SendHorizontal, className: "text-blue-600" },
+  approve: { icon: CheckCircle2, className: "text-green-600" },
+  return: { icon: Undo2, className: "text-orange-600" },
+};
+
+/**
+ * Approval status, the actions open to the current user and the audit trail
+ */
+export function QCApprovalPanel({
+  approval,
+  isPosted,
+  submitBlockedReason,
+  onTransitioned,
+}: QCApprovalPanelProps) {
+  const { record, availableActions, isLoading, loadFailed, isTransitioning, transition } =
+    approval;
+  const [showReturn, setShowReturn] = useState(false);
+  const [comment, setComment] = useState("");
+
+  const run = async (action: QCApprovalAction, note?: string) => {
+    try {
+      await transition({ action, comment: note });
+      onTransitioned();
+      return true;
+    } catch (error) {
+      toastError(error, "Failed to record the approval action");
+      return false;
+    }
+  };
+
+  const handleReturn = async () => {
+    if (await run("return", comment)) {
+      setShowReturn(false);
+      setComment("");
+    }
+  };
+
+  const canAct = !isPosted && !isLoading && !loadFailed;
+  const events = [...record.events].reverse();
+  // Receipts posted before the workflow have no history to show
+  if (isPosted && !isLoading && events.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="text-muted-foreground h-5 w-5" />
+          <span className="text-sm font-semibold">Approval</span>
+          {isLoading ? (
+            <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+          ) : (
+            <span
+              className={cn(
+                "rounded px-2 py-0.5 text-[10px] font-bold uppercase",
+                STATUS_CLASSES[record.status],
+              )}
+            >
+              {QC_APPROVAL_STATUS_LABELS[record.status]}
+            </span>
+          )}
+          {record.requiresSecondApproval && (
+            <span className="text-muted-foreground text-[11px]">
+              Deviation {record.maxDeviationPercent}% is over{" "}
+              {QC_SECOND_APPROVAL_DEVIATION_PERCENT}%: two approvals needed
+            </span>
+          )}
+        </div>
+
+        {canAct && (
+          <div className="flex items-center gap-2">
+            {availableActions.includes("submit") && (
+              <Button
+                size="sm"
+                className="h-8 gap-2"
+                onClick={() => run("submit")}
+                disabled={isTransitioning || !!submitBlockedReason}
+                title={submitBlockedReason ?? undefined}
+              >
+                <SendHorizontal className="h-4 w-4" />
+                Submit for Approval
+              </Button>
+            )}
+            {availableActions.includes("return") && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 gap-2"
+                onClick={() => setShowReturn(true)}
+                disabled={isTransitioning}
+              >
+                <Undo2 className="h-4 w-4" />
+                Return
+              </Button>
+            )}
+            {availableActions.includes("approve") && (
+              <Button
+                size="sm"
+                className="h-8 gap-2 bg-green-600 text-white hover:bg-green-700"
+                onClick={() => run("approve")}
+                disabled={isTransitioning}
+              >
+                {isTransitioning ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4" />
+                )}
+                Approve
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {loadFailed && (
+        <p className="text-destructive mt-2 text-xs">
+          Approval history could not be loaded
+        </p>
+      )}
+
+      {events.length > 0 && (
+        <ol className="mt-3 space-y-2 border-l pl-4">
+          {events.map((event, index) => {
+            const { icon: Icon, className } = EVENT_ICONS[event.action];
+            return (
+              <li key={`${event.at}-${index}`} className="relative text-xs">
+                <Icon
+                  className={cn("bg-background absolute top-0.5 -left-[22px] h-3.5 w-3.5", className)}
+                />
+                <div>
+                  <span className="font-semibold">{QC_APPROVAL_ACTION_LABELS[event.action]}</span>{" "}
+                  by {event.by}
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {format(event.at, "dd/MM/yyyy HH:mm")}
+                    {event.action === "approve" && event.status === "first-approved" && " · 1st of 2"}
+                  </span>
+                </div>
+                {event.comment && (
+                  <div className="text-muted-foreground mt-0.5 whitespace-pre-wrap">
+                    {event.comment}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <Dialog open={showReturn} onOpenChange={setShowReturn}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return QC Receipt</DialogTitle>
+            <DialogDescription>
+              The checker can correct the receipt and submit it again. Say what
+              needs to change.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment"
+            className="min-h-[100px]"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReturn(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReturn}
+              disabled={isTransitioning || !comment.trim()}
+              className="gap-2"
+            >
+              {isTransitioning && <Loader2 className="h-4 w-4 animate-spin" />}
+              Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import type { QCReceiptHeader } from "@/lib/api/services/qc-receipt.service";
+import type { QCDecision, QCDecisionDriver, QCDecisionKind } from "@/lib/qc";
+import { CheckCircle2, Clock, Loader2, TriangleAlert, Wand2, XCircle } from "lucide-react";
+
+interface QCDecisionPanelProps {
+  decision: QCDecision;
+  receipt: QCReceiptHeader;
+  onApply: () => void;
+  isApplying: boolean;
+  canApply: boolean;
+}
+
+const DECISION_STYLES: Record<
+  QCDecisionKind,
+  { icon: typeof CheckCircle2; className: string }
+> = {
+  pending: { icon: Clock, className: "border-muted bg-muted/20 text-muted-foreground" },
+  accept: { icon: CheckCircle2, className: "border-green-200 bg-green-50 text-green-700 dark:border-green-900 dark:bg-green-950/30 dark:text-green-400" },
+  "accept-with-deviation": { icon: TriangleAlert, className: "border-orange-200 bg-orange-50 text-orange-700 dark:border-orange-900 dark:bg-orange-950/30 dark:text-orange-400" },
+  reject: { icon: XCircle, className: "border-red-200 bg-red-50 text-red-700 dark:border-red-900 dark:bg-red-950/30 dark:text-red-400" },
+};
+
+const SPLIT_FIELDS = [
+  { field: "Quantity_to_Accept", label: "Accept" },
+  { field: "Qty_to_Accept_with_Deviation", label: "Accept (Dev.)" },
+  { field: "Quantity_to_Reject", label: "Reject" },
+  { field: "Rabete_Percent", label: "Rebate %" },
+] as const;
+
+/**
+ * Suggested QC outcome with the parameters behind it
+ * Applying writes the proposed split to the header; it can still be edited
+ */
+export function QCDecisionPanel({
+  decision,
+  receipt,
+  onApply,
+  isApplying,
+  canApply,
+}: QCDecisionPanelProps) {
+  const style = DECISION_STYLES[decision.kind];
+  const Icon = style.icon;
+  const split = decision.split;
+  const isApplied =
+    !!split &&
+    SPLIT_FIELDS.every(({ field }) => (Number(receipt[field]) || 0) === split[field]) &&
+    !!receipt.Accepted_With_Approval === split.Accepted_With_Approval;
+
+  return (
+    <div className={`rounded-xl border p-4 ${style.className}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Icon className="h-5 w-5" />
+          <div>
+            <div className="text-[11px] font-semibold uppercase tracking-tight opacity-80">
+              Suggested Outcome
+            </div>
+            <div className="text-sm font-bold">{decision.summary}</div>
+          </div>
+        </div>
+
+        {split && (
+          <div className="flex items-center gap-4">
+            {SPLIT_FIELDS.map(({ field, label }) => (
+              <div key={field} className="text-right">
+                <div className="text-[10px] font-semibold uppercase opacity-70">{label}</div>
+                <div className="text-sm font-bold tabular-nums">
+                  {split[field].toLocaleString()}
+                </div>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onApply}
+              disabled={!canApply || isApplying || isApplied}
+              className="h-8 gap-2 bg-background text-foreground"
+            >
+              {isApplying ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Wand2 className="h-4 w-4" />
+              )}
+              {isApplied ? "Applied" : "Apply"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {(decision.drivers.length > 0 || decision.notes.length > 0) && (
+        <ul className="mt-3 space-y-1 text-[11px] text-foreground/80">
+          {decision.drivers.map((driver) => (
+            <DriverItem key={driver.lineNo} driver={driver} />
+          ))}
+          {decision.notes.map((driver) => (
+            <DriverItem key={driver.lineNo} driver={driver} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function DriverItem({ driver }: { driver: QCDecisionDriver }) {
+  return (
+    <li className="flex gap-2">
+      <span className="font-semibold">{driver.description}</span>
+      <span className="text-muted-foreground">
+        {driver.evaluation.reason}
+        {!driver.mandatory && " (optional, not deciding)"}
+      </span>
+    </li>
+  );
+}
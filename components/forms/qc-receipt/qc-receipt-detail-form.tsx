@@ -23,9 +23,15 @@ import { getDimensionValueName, getAllBranchesFromUserSetup } from "@/lib/api/se
 import type { QCReceiptHeader, QCReceiptLine } from "@/lib/api/services/qc-receipt.service";
 import { getTransferAllLocationCodes, type TransferLocationCode } from "@/lib/api/services/transfer-orders.service";
 import { getAuthCredentials } from "@/lib/auth/storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 import { useFormStackContext } from "@/lib/form-stack/form-stack-context";
-import { Loader2, RotateCcw, Save, Send, Trash2, Sparkles } from "lucide-react";
-import { useEffect, useState } from "react";
+import { FileText, Loader2, RotateCcw, Save, Send, Trash2, Sparkles } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { evaluateQCReceipt } from "@/lib/qc";
+import { useCertificateOfAnalysis } from "@/lib/coa";
+import { isQCApprovalLocked, useQCApproval } from "@/lib/qc-approval";
+import { QCApprovalPanel } from "./qc-approval-panel";
+import { QCDecisionPanel } from "./qc-decision-panel";
 import { QCReceiptLinesTable } from "./qc-receipt-lines-table";
 import { useQCReceiptDetail, useQCReceiptLines, useQCReceiptPosting, useQCReceiptUpdate, useQCReceiptDeletion, useQCReceiptBardana } from "./use-qc-receipts";
 import { formatDate } from "@/lib/utils/date";
@@ -38,6 +44,7 @@ interface QCReceiptDetailFormProps {
 
 export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps) {
   const { closeTab } = useFormStackContext();
+  const { can } = useAuth();
   const initialReceipt = context?.receipt as QCReceiptHeader | undefined;
   const isPosted = !!context?.isPosted;
   
@@ -55,6 +62,7 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
   const { updateHeader, isUpdating: isHeaderUpdating } = useQCReceiptUpdate();
   const { deleteReceipt, isDeleting } = useQCReceiptDeletion();
   const { generate: generateBardana, isGenerating } = useQCReceiptBardana();
+  const { generate: generateCertificate, isGenerating: isGeneratingCertificate } = useCertificateOfAnalysis();
   
   const [locations, setLocations] = useState<TransferLocationCode[]>([]);
   const [isLoadingLocations, setIsLoadingLocations] = useState(false);
@@ -62,6 +70,13 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
   const [userBranch, setUserBranch] = useState<string | undefined>(undefined);
   const [showConfirmPost, setShowConfirmPost] = useState(false);
   const [showConfirmDelete, setShowConfirmDelete] = useState(false);
+  const [lineDrafts, setLineDrafts] = useState<Record<number, string>>({});
+
+  const decision = useMemo(
+    () => evaluateQCReceipt(lines, receipt?.Inspection_Quantity || 0, lineDrafts),
+    [lines, receipt?.Inspection_Quantity, lineDrafts],
+  );
+  const approval = useQCApproval(receipt?.No);
 
   useEffect(() => {
     const creds = getAuthCredentials();
@@ -119,13 +134,17 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
     return <div className="p-4">No receipt selected</div>;
   }
 
+  // Checked values are frozen while the approvers have the receipt
+  const isLocked = !isPosted && isQCApprovalLocked(approval.record.status);
+  const isReadOnly = isPosted || isLocked;
+
   const handleFieldChange = (field: keyof QCReceiptHeader, value: any) => {
     setEditedFields(prev => ({ ...prev, [field]: value }));
     setReceipt(prev => prev ? ({ ...prev, [field]: value }) : null);
   };
 
   const handleFieldCommit = async (field: keyof QCReceiptHeader, value: any) => {
-    if (!receipt || isPosted) return;
+    if (!receipt || isReadOnly) return;
     
     const currentValue = (receipt as any)[field];
     // Skip if value hasn't changed AND it's not currently tracked in editedFields
@@ -194,12 +213,36 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
       newLines[index] = updatedLine;
       return newLines;
     });
-    // Refresh header data when a line is updated
-    refetchDetail();
+    setLineDrafts(prev => {
+      const next = { ...prev };
+      delete next[updatedLine.Line_No];
+      return next;
+    });
+    // Refresh header data when a line is updated (skipped while the edit is queued offline)
+    if (navigator.onLine) refetchDetail();
+  };
+
+  const handleLineDraftChange = (lineNo: number, value: string) => {
+    setLineDrafts(prev => ({ ...prev, [lineNo]: value }));
+  };
+
+  const handleApplyDecision = async () => {
+    if (!receipt || isReadOnly || !decision.split) return;
+    const result = await updateHeader(receipt.No, receipt["@odata.etag"] || "*", decision.split);
+    if (result) {
+      setReceipt(result);
+      refetchDetail();
+    }
   };
 
   const isHeaderDirty = Object.keys(editedFields).length > 0;
 
+  const submitBlockedReason = isHeaderDirty || Object.keys(lineDrafts).length > 0
+    ? "Save your changes before submitting"
+    : isLinesLoading || decision.kind === "pending"
+      ? "Enter all mandatory parameters before submitting"
+      : null;
+
   const formatQty = (val?: number) => {
     if (val === undefined || val === null) return "-";
     return val.toLocaleString();
@@ -237,6 +280,8 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
                   variant="destructive"
                   onClick={() => setShowConfirmDelete(true)}
                   disabled={
+                    !can("qc", "delete") ||
+                    isLocked ||
                     isDeleting ||
                     isPosting ||
                     isLinesLoading ||
@@ -253,12 +298,15 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
                   size="sm"
                   onClick={() => setShowConfirmPost(true)}
                   disabled={
+                    !can("qc", "post") ||
+                    approval.record.status !== "approved" ||
                     isPosting ||
                     isLinesLoading ||
                     isHeaderLoading ||
                     isHeaderDirty ||
                     isHeaderUpdating
                   }
+                  title={approval.record.status !== "approved" ? "The receipt must be approved before posting" : undefined}
                   className="gap-2 h-8"
                 >
                   {isPosting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
@@ -267,6 +315,23 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
               </>
             )}
 
+            {isPosted && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => generateCertificate(receipt.No)}
+                disabled={isGeneratingCertificate || isHeaderLoading}
+                className="gap-2 h-8"
+              >
+                {isGeneratingCertificate ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <FileText className="h-4 w-4" />
+                )}
+                Certificate of Analysis
+              </Button>
+            )}
+
             {isPosted && (
               <Button
                 size="sm"
@@ -285,6 +350,13 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
           </div>
         </div>
 
+        <QCApprovalPanel
+          approval={approval}
+          isPosted={isPosted}
+          submitBlockedReason={submitBlockedReason}
+          onTransitioned={refetchDetail}
+        />
+
         <div className="flex flex-col gap-4">
           <SectionContainer title="">
              <SummaryField label="No." value={receipt.No} />
@@ -315,44 +387,44 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
             <SectionContainer title="">
                <EditFormField 
                  label="QC Date" 
-                 isReadOnly={isPosted}
+                 isReadOnly={isReadOnly}
                >
                  <DateInput 
                    value={receipt.QC_Date} 
                    onChange={(val) => handleFieldCommit("QC_Date", val)}
-                   disabled={isPosted}
+                   disabled={isReadOnly}
                  />
                </EditFormField>
 
-                <EditFormField label="Inspection QTY" isReadOnly={isPosted}>
+                <EditFormField label="Inspection QTY" isReadOnly={isReadOnly}>
                   <CalculatorInput 
                     value={receipt.Inspection_Quantity || ""} 
                     onCommit={(val) => handleFieldCommit("Inspection_Quantity", val)}
-                    disabled={isPosted}
+                    disabled={isReadOnly}
                   />
                 </EditFormField>
 
-                <EditFormField label="Quantity to Accept" isReadOnly={isPosted}>
+                <EditFormField label="Quantity to Accept" isReadOnly={isReadOnly}>
                   <CalculatorInput 
                     value={receipt.Quantity_to_Accept || ""} 
                     onCommit={(val) => handleFieldCommit("Quantity_to_Accept", val)}
-                    disabled={isPosted}
+                    disabled={isReadOnly}
                   />
                 </EditFormField>
 
-                <EditFormField label="Qty Accept (Dev.)" isReadOnly={isPosted}>
+                <EditFormField label="Qty Accept (Dev.)" isReadOnly={isReadOnly}>
                   <CalculatorInput 
                     value={receipt.Qty_to_Accept_with_Deviation || ""} 
                     onCommit={(val) => handleFieldCommit("Qty_to_Accept_with_Deviation", val)}
-                    disabled={isPosted}
+                    disabled={isReadOnly}
                   />
                 </EditFormField>
 
-                <EditFormField label="Quantity to Reject" isReadOnly={isPosted}>
+                <EditFormField label="Quantity to Reject" isReadOnly={isReadOnly}>
                   <CalculatorInput 
                     value={receipt.Quantity_to_Reject || ""} 
                     onCommit={(val) => handleFieldCommit("Quantity_to_Reject", val)}
-                    disabled={isPosted}
+                    disabled={isReadOnly}
                   />
                 </EditFormField>
 
@@ -362,7 +434,7 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
                       id="accepted-with-approval" 
                       checked={receipt.Accepted_With_Approval} 
                       onCheckedChange={(val) => handleFieldCommit("Accepted_With_Approval", val)}
-                      disabled={isPosted}
+                      disabled={isReadOnly}
                     />
                     <Label htmlFor="accepted-with-approval" className="text-[11px] uppercase font-semibold text-muted-foreground">Accepted w/ Approval</Label>
                   </div>
@@ -372,38 +444,38 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
                       id="create-bardana" 
                       checked={receipt.Create_Bardana} 
                       onCheckedChange={(val) => handleFieldCommit("Create_Bardana", val)}
-                      disabled={isPosted}
+                      disabled={isReadOnly}
                     />
                     <Label htmlFor="create-bardana" className="text-[11px] uppercase font-semibold text-muted-foreground">Create Bardana</Label>
                   </div>
                </div>
 
-                <EditFormField label="Rebate %" isReadOnly={isPosted}>
+                <EditFormField label="Rebate %" isReadOnly={isReadOnly}>
                   <CalculatorInput 
                     value={receipt.Rabete_Percent || ""} 
                     onCommit={(val) => handleFieldCommit("Rabete_Percent", val)}
-                    disabled={isPosted || !receipt.Accepted_With_Approval}
+                    disabled={isReadOnly || !receipt.Accepted_With_Approval}
                   />
                 </EditFormField>
 
-               <EditFormField label="Store Location Code" isReadOnly={isPosted}>
+               <EditFormField label="Store Location Code" isReadOnly={isReadOnly}>
                   <LocationSelect
                     value={receipt.Store_Location_Code || ""}
                     onChange={(val) => handleFieldCommit("Store_Location_Code", val)}
                     placeholder="Select Store Location"
                     branchCode={receipt.Shortcut_Dimension_2_Code || receipt.Shortcut_Dimension_1_Code || userBranch}
-                    disabled={isPosted}
+                    disabled={isReadOnly}
                     className="h-10"
                   />
                </EditFormField>
 
                <div className="md:col-span-2 lg:col-span-3">
-                 <EditFormField label="Comments" isReadOnly={isPosted}>
+                 <EditFormField label="Comments" isReadOnly={isReadOnly}>
                    <Textarea 
                      value={receipt.Comment || ""} 
                      onChange={(e) => handleFieldChange("Comment", e.target.value)}
                      onBlur={(e) => handleFieldCommit("Comment", e.target.value)}
-                     disabled={isPosted}
+                     disabled={isReadOnly}
                      className="min-h-[80px]"
                    />
                  </EditFormField>
@@ -425,12 +497,23 @@ export function QCReceiptDetailForm({ tabId, context }: QCReceiptDetailFormProps
                {lines.length} parameters found
             </div>
           </div>
+          {!isPosted && !isLinesLoading && lines.length > 0 && (
+            <QCDecisionPanel
+              decision={decision}
+              receipt={receipt}
+              onApply={handleApplyDecision}
+              isApplying={isHeaderUpdating}
+              canApply={can("qc", "edit") && !isHeaderDirty && !isLocked}
+            />
+          )}
           <div className="min-h-0">
              <QCReceiptLinesTable 
                lines={lines} 
                isLoading={isLinesLoading} 
                onUpdate={handleLineUpdate}
-               isReadOnly={isPosted}
+               isReadOnly={isReadOnly}
+               drafts={lineDrafts}
+               onDraftChange={handleLineDraftChange}
              />
           </div>
         </div>
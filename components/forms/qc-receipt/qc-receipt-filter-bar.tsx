@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { QCReceiptColumnVisibility } from "./column-visibility";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 
 interface QCReceiptFilterBarProps {
   searchQuery: string;
@@ -20,6 +22,7 @@ interface QCReceiptFilterBarProps {
   showDateFilter?: boolean;
   onDateFilterChange: () => void;
   totalCount: number;
+  savedViews?: SavedViewsController;
 }
 
 export function QCReceiptFilterBar({
@@ -35,6 +38,7 @@ export function QCReceiptFilterBar({
   showDateFilter = true,
   onDateFilterChange,
   totalCount,
+  savedViews,
 }: QCReceiptFilterBarProps) {
   const [localSearch, setLocalSearch] = useState(searchQuery);
 
@@ -107,6 +111,8 @@ export function QCReceiptFilterBar({
 
       <div className="flex-1" />
 
+      {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
       <QCReceiptColumnVisibility
         visibleColumns={visibleColumns}
         onColumnToggle={onColumnToggle}
@@ -7,19 +7,32 @@ import { Loader2 } from "lucide-react";
 import { useState, useRef } from "react";
 import { useQCReceiptLineUpdate } from "./use-qc-receipts";
 import { toastError } from "@/lib/errors";
+import { evaluateQCLine, type QCLineOutcome } from "@/lib/qc";
 
 interface QCReceiptLinesTableProps {
   lines: QCReceiptLine[];
   isLoading: boolean;
   onUpdate?: (index: number, updatedLine: QCReceiptLine) => void;
   isReadOnly?: boolean;
+  /** Values being typed, keyed by line number, so results update live */
+  drafts?: Record<number, string>;
+  onDraftChange?: (lineNo: number, value: string) => void;
 }
 
+const OUTCOME_BADGES: Record<QCLineOutcome, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-muted text-muted-foreground" },
+  pass: { label: "Pass", className: "bg-green-100 text-green-700" },
+  deviation: { label: "Deviation", className: "bg-orange-100 text-orange-700" },
+  fail: { label: "Fail", className: "bg-red-100 text-red-700" },
+};
+
 export function QCReceiptLinesTable({
   lines,
   isLoading,
   onUpdate,
   isReadOnly = false,
+  drafts = {},
+  onDraftChange,
 }: QCReceiptLinesTableProps) {
   const [isUpdatingLine, setIsUpdatingLine] = useState<number | null>(null);
   const { updateLine } = useQCReceiptLineUpdate();
@@ -52,7 +65,7 @@ export function QCReceiptLinesTable({
     try {
       const result = await updateLine(line.No, line.Line_No, line["@odata.etag"] || "*", {
         [field]: finalValue,
-      });
+      }, line);
       if (result) {
         onUpdate?.(index, result);
       }
@@ -149,13 +162,14 @@ export function QCReceiptLinesTable({
               <th className="h-10 px-3 py-3 text-center text-[9px] w-[40px]">Rej</th>
               <th className="h-10 px-3 py-3 text-right text-[9px] w-[70px]">Rej Qty</th>
               <th className="h-10 px-3 py-3 text-center text-[9px] w-[50px]">Mand</th>
+              <th className="h-10 px-3 py-3 text-center w-[90px]">Result</th>
             </tr>
           </thead>
           <tbody className="[&_tr:last-child]:border-0 text-[11px]">
             {isLoading ? (
               Array.from({ length: 5 }).map((_, index) => (
                 <tr key={`skeleton-${index}`} className="border-b">
-                  {Array.from({ length: 13 }).map((_, cellIndex) => (
+                  {Array.from({ length: 14 }).map((_, cellIndex) => (
                     <td key={cellIndex} className="p-3">
                       <Skeleton className="h-4 w-full" />
                     </td>
@@ -164,13 +178,15 @@ export function QCReceiptLinesTable({
               ))
             ) : lines.length === 0 ? (
               <tr>
-                <td colSpan={13} className="text-muted-foreground h-24 text-center align-middle">
+                <td colSpan={14} className="text-muted-foreground h-24 text-center align-middle">
                   No line items found.
                 </td>
               </tr>
             ) : (
               lines.map((line, index) => {
                 const isText = isTextField(line.Type);
+                const evaluation = evaluateQCLine(line, drafts[line.Line_No]);
+                const badge = OUTCOME_BADGES[evaluation.outcome];
                 
                 return (
                   <tr key={`${line.No}-${line.Line_No}-${index}`} className="border-b transition-colors hover:bg-muted/30 group">
@@ -189,6 +205,7 @@ export function QCReceiptLinesTable({
                           data-row={index}
                           data-field="Actual_Value"
                           disabled={isReadOnly || isText || (isUpdatingLine === index)}
+                          onValueChange={(val) => !isText && onDraftChange?.(line.Line_No, val)}
                           onCommit={(val) => !isText && handleCellSave(index, "Actual_Value", val)}
                           onKeyDown={(e) => !isText && handleKeyDown(e as any, index, "Actual_Value")}
                           className={`w-full h-full px-3 text-right bg-transparent border-0 outline-none font-bold text-foreground transition-all shadow-none rounded-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:bg-background
@@ -216,6 +233,7 @@ export function QCReceiptLinesTable({
                           data-row={index}
                           data-field="Actual_Text"
                           disabled={isReadOnly || !isText || (isUpdatingLine === index)}
+                          onChange={(e) => isText && onDraftChange?.(line.Line_No, e.target.value)}
                           onBlur={(e) => isText && handleCellSave(index, "Actual_Text", e.target.value)}
                           onKeyDown={(e) => isText && handleKeyDown(e, index, "Actual_Text")}
                           className={`w-full h-full px-3 text-left bg-transparent border-0 outline-none italic text-foreground transition-all font-medium
@@ -247,6 +265,14 @@ export function QCReceiptLinesTable({
                         {line.Mandatory ? "Y" : "N"}
                       </span>
                     </td>
+                    <td className="p-3 align-middle text-center">
+                      <span
+                        className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${badge.className}`}
+                        title={evaluation.reason}
+                      >
+                        {badge.label}
+                      </span>
+                    </td>
                   </tr>
                 );
               })
@@ -44,6 +44,7 @@ export function QCReceiptView({ statusFilter, isPosted, skipDateFilter }: QCRece
     onShowAllColumns,
     refetch,
     loadMore,
+    savedViews,
   } = useQCReceipts({ statusFilter, isPosted, skipDateFilter });
 
   const handleRowClick = (receipt: QCReceiptHeader) => {
@@ -70,6 +71,7 @@ export function QCReceiptView({ statusFilter, isPosted, skipDateFilter }: QCRece
         showDateFilter={!skipDateFilter}
         onDateFilterChange={() => setDateFilter(null)}
         totalCount={totalCount}
+        savedViews={savedViews}
       />
 
       {/* Active Filters Chips */}
@@ -19,9 +19,11 @@ import {
 } from "@/lib/api/services/qc-receipt.service";
 import { useCallback, useEffect, useMemo, useState, useRef } from "react";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import { getAllBranchesFromUserSetup } from "@/lib/api/services/dimension.service";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
+import { isQueuedOfflineError } from "@/lib/api/client";
 import {
   ALL_COLUMNS,
   buildSelectQuery,
@@ -319,6 +321,38 @@ export function useQCReceipts(initialFilters?: {
     [],
   );
 
+  const savedViewState = useMemo<SavedViewState>(
+    () => ({
+      filters: { searchQuery, columnFilters, dateFilter },
+      sortColumn,
+      sortDirection,
+      visibleColumns,
+      pageSize,
+    }),
+    [searchQuery, columnFilters, dateFilter, sortColumn, sortDirection, visibleColumns, pageSize],
+  );
+
+  const applySavedViewState = useCallback((state: SavedViewState) => {
+    const filters = state.filters as {
+      searchQuery?: string;
+      columnFilters?: Record<string, { value: string; valueTo?: string }>;
+      dateFilter?: { fromDate: string; toDate: string } | null;
+    };
+    setSearchQuery(filters.searchQuery ?? "");
+    setColumnFilters(filters.columnFilters ?? {});
+    setDateFilter(filters.dateFilter ?? null);
+    setSortColumn(state.sortColumn ?? "QC_Date");
+    setSortDirection(state.sortDirection ?? "desc");
+    if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+    if (state.pageSize) setPageSize(state.pageSize);
+  }, []);
+
+  const savedViews = useSavedViews({
+    listKey: initialFilters?.isPosted ? "posted-qc-receipt" : "qc-receipt",
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     receipts,
     isLoading,
@@ -346,6 +380,7 @@ export function useQCReceipts(initialFilters?: {
     onClearFilters: handleClearFilters,
     refetch: () => fetchReceipts(true),
     loadMore,
+    savedViews,
   };
 }
 
@@ -444,6 +479,7 @@ export function useQCReceiptLineUpdate() {
       lineNo: number,
       etag: string,
       fields: Partial<QCReceiptLine>,
+      currentLine?: QCReceiptLine,
     ) => {
       setIsUpdating(true);
       try {
@@ -456,6 +492,11 @@ export function useQCReceiptLineUpdate() {
         toast.success("Line updated successfully");
         return result;
       } catch (error: any) {
+        if (isQueuedOfflineError(error)) {
+          // Show the edit locally; the queued PATCH syncs when back online
+          toast.info(error.message);
+          return currentLine ? { ...currentLine, ...fields } : null;
+        }
         console.error("Error updating QC line:", error);
         toastError(error, "Failed to update line");
         return null;
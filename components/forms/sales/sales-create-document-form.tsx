@@ -57,6 +57,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { createBatch, sendBatch, type ODataBatch } from "@/lib/api/batch";
 import { getWebUserSetup } from "@/lib/api/services/dimension.service";
 import { SALES_MENU_OPTIONS } from "@/lib/api/services/get-pstd-doc-lines-to-reverse.service";
 import {
@@ -65,6 +66,7 @@ import {
 import type { SalesGetPostedLineDocType } from "@/lib/api/services/sales-get-posted-line.service";
 import type { ShipToAddress } from "@/lib/api/services/shipto.service";
 import { getAuthCredentials } from "@/lib/auth/storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 import { getErrorMessage, toastError } from "@/lib/errors";
 import { cn } from "@/lib/utils";
 import { Loader2, Plus, Printer, Trash2 } from "lucide-react";
@@ -210,7 +212,7 @@ interface SalesDocumentOps {
       quantity: number;
     }[],
     locationCode: string,
-  ) => Promise<void>;
+  ) => Promise<{ Line_No: number; [key: string]: unknown }[]>;
   addSingleLine: (
     docNo: string,
     line: {
@@ -225,13 +227,18 @@ interface SalesDocumentOps {
     docNo: string,
     lineNo: number,
     body: Record<string, unknown>,
+    etag?: string,
   ) => Promise<unknown>;
   patchHeader: (
     docNo: string,
     body: Record<string, unknown>,
   ) => Promise<unknown>;
   deleteHeader: (docNo: string) => Promise<unknown>;
-  deleteLine: (docNo: string, lineNo: number) => Promise<unknown>;
+  deleteLine: (
+    docNo: string,
+    lineNo: number,
+    batch?: ODataBatch,
+  ) => Promise<unknown>;
   sendApproval: (docNo: string) => Promise<unknown>;
   cancelApproval: (docNo: string) => Promise<unknown>;
   reopen: (docNo: string) => Promise<unknown>;
@@ -370,6 +377,7 @@ export function SalesCreateDocumentFormContent({
 }: SalesCreateDocumentFormContentProps) {
   const config = getSalesDocumentConfig(documentType);
   const caps = getSalesDocumentCapabilities(documentType);
+  const { can } = useAuth();
   const ops = SALES_DOCUMENT_OPS[documentType];
 
   const isCreateMode = mode === "create";
@@ -906,17 +914,24 @@ export function SalesCreateDocumentFormContent({
           toastError(new Error("No lines selected"), "Select at least one line to delete");
           return;
         }
-        let deletedCount = 0;
-        for (const lineNo of selectedDeleteLineNos) {
-          try {
-            await ops.deleteLine(initialOrderNo, lineNo);
-            deletedCount++;
-          } catch (err) {
-            console.error(`Failed to delete line ${lineNo}:`, err);
-          }
-        }
-        if (deletedCount > 0) {
-          toast.success(`Deleted ${deletedCount} line(s)`);
+        // One atomic changeset: either every selected line goes or none does
+        const batch = createBatch();
+        const pending = selectedDeleteLineNos.map((lineNo) =>
+          ops.deleteLine(initialOrderNo, lineNo, batch),
+        );
+        const response = await batch.send();
+        const settled = await Promise.allSettled(pending);
+        if (response.ok) {
+          toast.success(`Deleted ${selectedDeleteLineNos.length} line(s)`);
+        } else {
+          const failedLineNos = selectedDeleteLineNos.filter(
+            (_, i) => settled[i].status === "rejected",
+          );
+          console.error(`Failed to delete lines ${failedLineNos.join(", ")}:`, response.failed);
+          toastError(
+            response.failed[0]?.error,
+            `Could not delete line(s) ${failedLineNos.join(", ")}. No lines were removed.`,
+          );
         }
         setSelectedDeleteLineNos([]);
         setIsDeleteDialogOpen(false);
@@ -926,13 +941,13 @@ export function SalesCreateDocumentFormContent({
       const allLineNos = lines
         .map((l) => l.Line_No)
         .filter((n): n is number => typeof n === "number");
-      for (const lineNo of allLineNos) {
-        try {
-          await ops.deleteLine(initialOrderNo, lineNo);
-        } catch (err) {
-          console.error(`Failed to delete line ${lineNo} during document deletion:`, err);
-        }
-      }
+      // The header is only deleted once every line is gone; a failed line
+      // batch throws and leaves the document intact
+      const batch = createBatch();
+      await sendBatch(
+        batch,
+        allLineNos.map((lineNo) => ops.deleteLine(initialOrderNo, lineNo, batch)),
+      );
       await ops.deleteHeader(initialOrderNo);
       toast.success("Document deleted");
       setIsDeleteDialogOpen(false);
@@ -959,24 +974,29 @@ export function SalesCreateDocumentFormContent({
 
     toast.info(`Deleting ${targets.length} line item(s) in background...`);
 
-    // Execute deletions in the background (asynchronous promise loop)
+    // Execute deletions in the background as one atomic $batch
     void (async () => {
-      let deletedCount = 0;
-      let failedCount = 0;
-      for (const lineNo of targets) {
-        try {
-          await ops.deleteLine(initialOrderNo, lineNo);
-          deletedCount++;
-        } catch (err) {
-          console.error(`Failed to delete line ${lineNo}:`, err);
-          failedCount++;
+      const batch = createBatch();
+      const pending = targets.map((lineNo) =>
+        ops.deleteLine(initialOrderNo, lineNo, batch),
+      );
+      try {
+        const response = await batch.send();
+        const settled = await Promise.allSettled(pending);
+        if (response.ok) {
+          toast.success(`Successfully deleted ${targets.length} line(s)`);
+        } else {
+          const failedLineNos = targets.filter(
+            (_, i) => settled[i].status === "rejected",
+          );
+          console.error(`Failed to delete lines ${failedLineNos.join(", ")}:`, response.failed);
+          toastError(
+            response.failed[0]?.error,
+            `Could not delete line(s) ${failedLineNos.join(", ")}. No lines were removed.`,
+          );
         }
-      }
-      if (deletedCount > 0) {
-        toast.success(`Successfully deleted ${deletedCount} line(s)`);
-      }
-      if (failedCount > 0) {
-        toast.error(`Failed to delete ${failedCount} line(s)`);
+      } catch (err) {
+        toastError(err, `Failed to delete ${targets.length} line(s)`);
       }
       // Re-sync with server state in the background
       await loadDocument();
@@ -1934,7 +1954,7 @@ export function SalesCreateDocumentFormContent({
                     setSelectedDeleteLineNos([]);
                     setIsDeleteDialogOpen(true);
                   }}
-                  disabled={isActionLoading}
+                  disabled={isActionLoading || !can("sales", "delete")}
                 >
                   Delete
                 </Button>
@@ -2045,7 +2065,7 @@ export function SalesCreateDocumentFormContent({
                         setIsPostDialogOpen(true);
                       }
                     }}
-                    disabled={isActionLoading}
+                    disabled={isActionLoading || !can("sales", "post")}
                   >
                     Post
                   </Button>
@@ -2232,12 +2252,25 @@ export function SalesCreateDocumentFormContent({
                   }}
                   onInlineUpdate={async (line, patch) => {
                     if (!currentDocNo || line.Line_No == null) return;
-                    await ops.updateLine(currentDocNo, line.Line_No, patch);
+                    const updated = await ops.updateLine(
+                      currentDocNo,
+                      line.Line_No,
+                      patch,
+                      line["@odata.etag"],
+                    );
                     // Optimistically update local lines — no full re-fetch to avoid flicker
+                    // Keep the server's new ETag so the next inline edit isn't rejected as stale
+                    const serverEtag = (updated as SalesLine | null)?.[
+                      "@odata.etag"
+                    ];
                     setLines((prev) =>
                       prev.map((l) =>
                         l.Line_No === line.Line_No
-                          ? { ...l, ...(patch as Partial<SalesLine>) }
+                          ? {
+                              ...l,
+                              ...(patch as Partial<SalesLine>),
+                              ...(serverEtag ? { "@odata.etag": serverEtag } : {}),
+                            }
                           : l,
                       ),
                     );
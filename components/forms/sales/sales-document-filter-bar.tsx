@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { SalesDocumentColumnVisibility } from "./sales-document-column-visibility";
 import { DynamicFilterBuilder } from "./dynamic-filter-builder";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 import type { ColumnConfig } from "./column-config";
 import type { FilterCondition } from "./types";
 
@@ -24,6 +26,7 @@ interface SalesDocumentFilterBarProps {
   onShowAllColumns: () => void;
   onAddAdditionalFilter: (filter: FilterCondition) => void;
   onRemoveAdditionalFilter: (index: number) => void;
+  savedViews?: SavedViewsController;
   children?: React.ReactNode;
 }
 
@@ -42,6 +45,7 @@ export function SalesDocumentFilterBar({
   onShowAllColumns,
   onAddAdditionalFilter,
   onRemoveAdditionalFilter,
+  savedViews,
   children,
 }: SalesDocumentFilterBarProps) {
   const [localSearch, setLocalSearch] = useState(searchQuery);
@@ -111,6 +115,8 @@ export function SalesDocumentFilterBar({
           </Button>
         )}
 
+        {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
         <SalesDocumentColumnVisibility
           visibleColumns={visibleColumns}
           defaultColumns={defaultColumns}
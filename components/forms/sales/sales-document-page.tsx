@@ -7,6 +7,7 @@ import {
   MiniAccessPanel,
 } from "@/components/form-stack";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getInitialSearchParam } from "@/lib/utils/search-params";
 import {
   getSalesDocumentConfig,
   type SalesDocumentStatusTab,
@@ -29,7 +30,9 @@ interface SalesDocumentPageProps {
 
 function SalesDocumentPageContent({ documentType }: SalesDocumentPageProps) {
   const refetchRef = useRef<(() => void) | null>(null);
-  const [activeTab, setActiveTab] = useState<SalesTab>("all");
+  const [activeTab, setActiveTab] = useState<SalesTab>(() =>
+    getInitialSearchParam("tab", Object.keys(TAB_STATUS_MAP) as SalesTab[], "all"),
+  );
   const config = getSalesDocumentConfig(documentType);
 
   return (
@@ -60,6 +60,7 @@ export function SalesDocumentView({
     loadMore,
     hasMore,
     isLoadingMore,
+    savedViews,
   } = useSalesDocuments({ documentType, statusFilter });
 
   useEffect(() => {
@@ -98,6 +99,7 @@ export function SalesDocumentView({
         onShowAllColumns={onShowAllColumns}
         onAddAdditionalFilter={onAddAdditionalFilter}
         onRemoveAdditionalFilter={onRemoveAdditionalFilter}
+        savedViews={savedViews}
       >
         <div className="flex items-center gap-4">
           {config.type === "order" && (
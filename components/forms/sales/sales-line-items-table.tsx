@@ -266,6 +266,7 @@ export function SalesLineItemsTable({
               return (
                 <TableRow
                   key={line.Line_No}
+                  data-line-no={line.Line_No}
                   tabIndex={0}
                   className={cn(
                     "hover:bg-muted/50 cursor-pointer outline-none focus:bg-primary/10",
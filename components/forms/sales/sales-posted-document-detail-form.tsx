@@ -17,7 +17,6 @@ import {
   cancelEInvoice,
   generateEWayBill,
   cancelEWayBill,
-  updateVehicle,
   updateTransporter,
 } from "@/lib/api/services/sales-posted-invoices.service";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -68,6 +67,7 @@ import type { SalesPostedDocumentType } from "./sales-posted-document-config";
 import { RequestFailedDialog } from "@/components/ui/request-failed-dialog";
 import { getErrorMessage } from "@/lib/errors";
 import { formatDate } from "@/lib/utils/date";
+import { EWayBillUpdateDialog } from "@/components/forms/shared/eway-bill-update-dialog";
 
 type Header = PostedSalesShipment | PostedSalesInvoiceHeader;
 type Line = PostedSalesShipmentLine | PostedSalesInvoiceLine;
@@ -81,7 +81,7 @@ interface Props {
 // ── Action Dialog Types ──────────────────────────────────────────────────────
 
 type EInvoiceAction = "generate" | "cancel";
-type EWayBillAction = "generate" | "cancel" | "updateVehicle" | "updateTransporter";
+type EWayBillAction = "generate" | "cancel" | "updateTransporter";
 
 interface ActionDialogState {
   open: boolean;
@@ -214,17 +214,25 @@ function EWayBillDialog({
   open,
   docno,
   ewaybillno,
+  vehicleNo,
   onClose,
   onRefresh,
 }: {
   open: boolean;
   docno: string;
   ewaybillno?: string;
+  vehicleNo?: string;
   onClose: () => void;
   onRefresh: () => void;
 }) {
   const [loading, setLoading] = useState<EWayBillAction | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [showPartB, setShowPartB] = useState(false);
+
+  const openPartB = () => {
+    setShowPartB(true);
+    onClose();
+  };
 
   const handleAction = async (action: EWayBillAction) => {
     setLoading(action);
@@ -236,9 +244,6 @@ function EWayBillDialog({
       } else if (action === "cancel") {
         await cancelEWayBill(docno);
         toast.success("E-Way Bill cancelled successfully.");
-      } else if (action === "updateVehicle") {
-        await updateVehicle(docno, billNo);
-        toast.success("Vehicle updated successfully.");
       } else if (action === "updateTransporter") {
         await updateTransporter(docno, billNo);
         toast.success("Transporter updated successfully.");
@@ -261,6 +266,17 @@ function EWayBillDialog({
         message={errorMsg}
         onOpenChange={(o) => !o && setErrorMsg(null)}
       />
+      {ewaybillno && (
+        <EWayBillUpdateDialog
+          open={showPartB}
+          onOpenChange={setShowPartB}
+          docType="SalesInvoice"
+          docNo={docno}
+          eWayBillNo={ewaybillno}
+          vehicleNo={vehicleNo}
+          onUpdated={onRefresh}
+        />
+      )}
       <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
         <DialogContent className="sm:max-w-xs">
           <DialogHeader>
@@ -288,12 +304,11 @@ function EWayBillDialog({
             <Button
               variant="outline"
               className="justify-start"
-              onClick={() => handleAction("updateVehicle")}
+              onClick={openPartB}
               disabled={loading !== null || !hasBillNo}
               title={!hasBillNo ? "E-Way Bill No. required" : undefined}
             >
-              {loading === "updateVehicle" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Update Vehicle
+              Update Vehicle (Part-B)
             </Button>
             <Button
               variant="outline"
@@ -586,6 +601,7 @@ export function SalesPostedDocumentDetailForm({ context }: Props) {
           open={actionDialog.open && actionDialog.type === "ewaybill"}
           docno={no!}
           ewaybillno={inv.E_Way_Bill_No}
+          vehicleNo={inv.Vehicle_No}
           onClose={() => setActionDialog({ open: false, type: null })}
           onRefresh={refreshHeader}
         />
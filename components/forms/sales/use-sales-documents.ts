@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import { getAllBranchesFromUserSetup } from "@/lib/api/services/dimension.service";
 import {
   getSalesOrdersWithCount as getSalesOrdersWithCountOrders,
@@ -350,6 +351,69 @@ export function useSalesDocuments(options: UseSalesDocumentsOptions) {
     [],
   );
 
+  // Saved views: the branch filter is kept out of views that use the user's own branches
+  const savedViewState = useMemo<SavedViewState>(() => {
+    const { Shortcut_Dimension_2_Code: branchFilter, ...otherColumnFilters } =
+      columnFilters;
+    const isOwnBranches =
+      !branchFilter || branchFilter.value === userBranchCodes.join(",");
+    return {
+      filters: {
+        searchQuery,
+        columnFilters: isOwnBranches ? otherColumnFilters : columnFilters,
+        additionalFilters,
+      },
+      sortColumn,
+      sortDirection,
+      visibleColumns,
+      pageSize,
+    };
+  }, [
+    searchQuery,
+    columnFilters,
+    additionalFilters,
+    sortColumn,
+    sortDirection,
+    visibleColumns,
+    pageSize,
+    userBranchCodes,
+  ]);
+
+  const applySavedViewState = useCallback(
+    (state: SavedViewState) => {
+      const filters = state.filters as {
+        searchQuery?: string;
+        columnFilters?: Record<string, { value: string; valueTo?: string }>;
+        additionalFilters?: FilterCondition[];
+      };
+      setSearchQuery(filters.searchQuery ?? "");
+      setColumnFilters((previousFilters) => {
+        const nextFilters = { ...(filters.columnFilters ?? {}) };
+        if (
+          !nextFilters.Shortcut_Dimension_2_Code &&
+          previousFilters.Shortcut_Dimension_2_Code
+        ) {
+          nextFilters.Shortcut_Dimension_2_Code =
+            previousFilters.Shortcut_Dimension_2_Code;
+        }
+        return nextFilters;
+      });
+      setAdditionalFilters(filters.additionalFilters ?? []);
+      setSortColumn(state.sortColumn ?? "Posting_Date");
+      setSortDirection(state.sortDirection ?? "desc");
+      if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+      if (state.pageSize) setPageSize(state.pageSize);
+      setCurrentPage(1);
+    },
+    [],
+  );
+
+  const savedViews = useSavedViews({
+    listKey: `sales-${documentType}`,
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     orders,
     isLoading,
@@ -381,5 +445,6 @@ export function useSalesDocuments(options: UseSalesDocumentsOptions) {
     hasMore,
     isLoadingMore,
     refetch: fetchOrders,
+    savedViews,
   };
 }
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Camera, ImageUp, Keyboard, Loader2, ScanLine } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toastError } from "@/lib/errors";
+import {
+  decodeImage,
+  listCameras,
+  parseScanPayload,
+  startCameraDecode,
+  type ScanPayload,
+  type ScanSource,
+} from "@/lib/scanner";
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (payload: ScanPayload, source: ScanSource) => void;
+  title?: string;
+  description?: string;
+}
+
+type ScanMode = "keyboard" | "camera";
+
+/**
+ * Barcode / QR scanner
+ * Reads a code from the camera, an uploaded image, or a USB wedge scanner
+ * (which types into the focused input) and closes after the first read
+ */
+export function BarcodeScannerDialog({
+  open,
+  onOpenChange,
+  onScan,
+  title = "Scan Barcode",
+  description = "Scan with a handheld scanner, the camera, or an image of the label.",
+}: BarcodeScannerDialogProps) {
+  const handleScan = (text: string, source: ScanSource) => {
+    const payload = parseScanPayload(text);
+    if (!payload.raw) return;
+    onOpenChange(false);
+    onScan(payload, source);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanLine className="h-4 w-4" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {open && <ScannerBody onScan={handleScan} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ScannerBody({
+  onScan,
+}: {
+  onScan: (text: string, source: ScanSource) => void;
+}) {
+  const [mode, setMode] = useState<ScanMode>("keyboard");
+  const [code, setCode] = useState("");
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isDecodingImage, setIsDecodingImage] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  // Camera decoding runs until the first read, a camera change or unmount
+  useEffect(() => {
+    if (mode !== "camera" || !videoRef.current) return;
+
+    let cancelled = false;
+    let stop: (() => void) | null = null;
+
+    startCameraDecode(deviceId, videoRef.current, (text) => {
+      if (cancelled) return;
+      cancelled = true;
+      stop?.();
+      onScanRef.current(text, "camera");
+    })
+      .then((controls) => {
+        if (cancelled) {
+          controls.stop();
+          return;
+        }
+        stop = () => controls.stop();
+        setCameraError(null);
+        return listCameras().then(setCameras);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error starting camera:", error);
+        setCameraError(
+          error instanceof DOMException && error.name === "NotAllowedError"
+            ? "Camera permission was denied"
+            : "No camera available",
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [mode, deviceId]);
+
+  const handleImage = async (file: File | undefined) => {
+    if (!file) return;
+    setIsDecodingImage(true);
+    try {
+      const text = await decodeImage(file);
+      if (!text) {
+        toast.error("No barcode found in the image");
+        return;
+      }
+      onScan(text, "image");
+    } catch (error) {
+      toastError(error, "Could not read the image");
+    } finally {
+      setIsDecodingImage(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "keyboard" ? "default" : "outline"}
+          onClick={() => setMode("keyboard")}
+        >
+          <Keyboard className="mr-2 h-4 w-4" />
+          Scanner / Manual
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "camera" ? "default" : "outline"}
+          onClick={() => setMode("camera")}
+        >
+          <Camera className="mr-2 h-4 w-4" />
+          Camera
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={isDecodingImage}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {isDecodingImage ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ImageUp className="mr-2 h-4 w-4" />
+          )}
+          Image
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => handleImage(e.target.files?.[0])}
+        />
+      </div>
+
+      {mode === "keyboard" ? (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim()) onScan(code, "wedge");
+          }}
+        >
+          <Input
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Scan or type the code, then press Enter"
+          />
+          <Button type="submit" disabled={!code.trim()}>
+            Go
+          </Button>
+        </form>
+      ) : (
+        <div className="space-y-2">
+          {cameras.length > 1 && (
+            <Select
+              value={deviceId ?? ""}
+              onValueChange={(value) => setDeviceId(value || undefined)}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Default camera" />
+              </SelectTrigger>
+              <SelectContent>
+                {cameras.map((camera, index) => (
+                  <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="relative aspect-video overflow-hidden rounded-md border bg-black">
+            <video
+              ref={videoRef}
+              className="h-full w-full object-cover"
+              muted
+              playsInline
+            />
+            {cameraError && (
+              <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-white">
+                {cameraError}
+              </div>
+            )}
+          </div>
+          <p className="text-muted-foreground text-xs">
+            Hold the label inside the frame; it is read automatically.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ScanButtonProps {
+  onScan: (payload: ScanPayload, source: ScanSource) => void;
+  label?: string;
+  title?: string;
+  description?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Button that opens the scanner dialog
+ */
+export function ScanButton({
+  onScan,
+  label = "Scan",
+  title,
+  description,
+  disabled,
+  className,
+}: ScanButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className={className}
+        disabled={disabled}
+        onClick={() => setOpen(true)}
+      >
+        <ScanLine className="mr-2 h-4 w-4" />
+        {label}
+      </Button>
+      <BarcodeScannerDialog
+        open={open}
+        onOpenChange={setOpen}
+        onScan={onScan}
+        title={title}
+        description={description}
+      />
+    </>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  updateVehicle,
+  type DocType,
+} from "@/lib/api/services/eway-einvoice.service";
+import {
+  getEWayBillHistory,
+  recordEWayBillChange,
+} from "@/lib/api/services/eway-bill-history.service";
+import {
+  OTHER_REASON_CODES,
+  PART_B_REASONS,
+  getCodeLabel,
+  type EWayBillChange,
+} from "@/lib/eway-bill";
+import {
+  normalizeVehicleNo,
+  validateVehicleNo,
+} from "@/lib/validations/eway-bill.validation";
+import { getErrorMessage, toastError } from "@/lib/errors";
+
+export interface EWayBillUpdateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  docType: DocType;
+  docNo: string;
+  eWayBillNo: string;
+  /** Vehicle on the document; the ERP sends this one to the portal */
+  vehicleNo?: string;
+  onUpdated?: () => void;
+}
+
+interface FormState {
+  reasonCode: string;
+  reasonRemark: string;
+}
+
+type FormErrors = Partial<Record<keyof FormState, string>>;
+
+const fieldClass = "min-w-0 space-y-1.5";
+const labelClass = "text-muted-foreground text-xs font-medium";
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-destructive text-xs">{message}</p> : null;
+}
+
+function validateForm(form: FormState): FormErrors {
+  const errors: FormErrors = {};
+  if (!form.reasonCode) errors.reasonCode = "Reason is required";
+  if (OTHER_REASON_CODES.includes(form.reasonCode) && !form.reasonRemark.trim()) {
+    errors.reasonRemark = "Remark is required for other reasons";
+  }
+  return errors;
+}
+
+function describeChange(change: EWayBillChange): string {
+  return `${change.vehicleNo} - ${getCodeLabel(PART_B_REASONS, change.reasonCode)}${
+    change.reasonRemark ? ` (${change.reasonRemark})` : ""
+  }`;
+}
+
+function EWayBillUpdateForm({
+  docType,
+  docNo,
+  eWayBillNo,
+  vehicleNo,
+  onOpenChange,
+  onUpdated,
+}: Omit<EWayBillUpdateDialogProps, "open">) {
+  const [form, setForm] = useState<FormState>({ reasonCode: "", reasonRemark: "" });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [history, setHistory] = useState<EWayBillChange[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const documentVehicleNo = normalizeVehicleNo(vehicleNo ?? "");
+  const vehicleError = validateVehicleNo(documentVehicleNo);
+
+  useEffect(() => {
+    let cancelled = false;
+    getEWayBillHistory(docType, docNo)
+      .then((changes) => {
+        if (!cancelled) setHistory(changes);
+      })
+      .catch((error) => {
+        console.error("Error loading e-way bill history:", error);
+        if (!cancelled) setHistory([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [docType, docNo]);
+
+  const setField = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => ({ ...prev, [key]: undefined }));
+  };
+
+  const handleSubmit = async () => {
+    const nextErrors = validateForm(form);
+    setErrors(nextErrors);
+    if (vehicleError || Object.keys(nextErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await updateVehicle(docNo, eWayBillNo);
+      toast.success("E-way bill Part-B updated");
+    } catch (error) {
+      toastError(error, "Failed to update Part-B");
+      setIsSubmitting(false);
+      return;
+    }
+
+    try {
+      await recordEWayBillChange({
+        docType,
+        docNo,
+        eWayBillNo,
+        vehicleNo: documentVehicleNo,
+        reasonCode: form.reasonCode,
+        reasonRemark: form.reasonRemark.trim(),
+      });
+    } catch (error) {
+      toast.warning(
+        getErrorMessage(error, "The change was applied but could not be added to the history"),
+      );
+    }
+    setIsSubmitting(false);
+    onUpdated?.();
+    onOpenChange(false);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Update Part-B (Vehicle)</DialogTitle>
+        <DialogDescription>
+          {docNo} · E-way bill {eWayBillNo}
+        </DialogDescription>
+      </DialogHeader>
+
+      {vehicleError && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          {vehicleError}. Correct the vehicle on the document in the ERP, then
+          update Part-B.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 py-1">
+        <div className={`${fieldClass} col-span-2`}>
+          <Label className={labelClass}>Vehicle No. (from the document)</Label>
+          <Input value={documentVehicleNo} readOnly className="h-8 text-sm" />
+        </div>
+
+        <div className={fieldClass}>
+          <Label className={labelClass}>Reason</Label>
+          <Select
+            value={form.reasonCode}
+            onValueChange={(value) => setField("reasonCode", value)}
+          >
+            <SelectTrigger className="h-8 w-full text-sm">
+              <SelectValue placeholder="Select reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {PART_B_REASONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FieldError message={errors.reasonCode} />
+        </div>
+
+        <div className={fieldClass}>
+          <Label className={labelClass}>Remark</Label>
+          <Input
+            value={form.reasonRemark}
+            onChange={(e) => setField("reasonRemark", e.target.value)}
+            maxLength={50}
+            className="h-8 text-sm"
+          />
+          <FieldError message={errors.reasonRemark} />
+        </div>
+      </div>
+
+      <Separator />
+      <div className="space-y-1.5">
+        <div className="text-muted-foreground flex items-center gap-1.5 text-xs font-medium">
+          <History className="h-3.5 w-3.5" />
+          Change History
+        </div>
+        {history === null ? (
+          <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+        ) : history.length === 0 ? (
+          <p className="text-muted-foreground text-xs">No changes recorded yet</p>
+        ) : (
+          <div className="max-h-32 space-y-1 overflow-y-auto">
+            {history.map((change) => (
+              <div key={change.id} className="text-xs">
+                <span className="font-medium">
+                  {format(change.changedAt, "dd/MM/yyyy HH:mm")}
+                </span>{" "}
+                <span className="text-muted-foreground">by {change.changedBy}:</span>{" "}
+                {describeChange(change)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          onClick={() => onOpenChange(false)}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={isSubmitting || !!vehicleError}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Update Part-B
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/**
+ * Part-B update of a document's e-way bill
+ * Re-sends the vehicle on the document through the ERP's UpdateVehicle action
+ * after checking its format, and records each update with its reason
+ */
+export function EWayBillUpdateDialog({
+  open,
+  onOpenChange,
+  ...props
+}: EWayBillUpdateDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {open && <EWayBillUpdateForm onOpenChange={onOpenChange} {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Bookmark,
+  Check,
+  Link2,
+  Save,
+  Star,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import type { SavedView, SavedViewsController } from "@/lib/saved-views";
+
+interface SavedViewsMenuProps {
+  savedViews: SavedViewsController;
+}
+
+/**
+ * Saved views dropdown for list filter bars
+ * Applies, saves, shares, defaults and links the list's saved views
+ */
+export function SavedViewsMenu({ savedViews }: SavedViewsMenuProps) {
+  const {
+    personalViews,
+    sharedViews,
+    activeView,
+    defaultViewId,
+    isModified,
+    isSaving,
+    applyView,
+    saveView,
+    updateView,
+    deleteView,
+    setDefaultView,
+    copyViewLink,
+    canModifyView,
+  } = savedViews;
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [setAsDefault, setSetAsDefault] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    await saveView({ name, shared, setAsDefault });
+    setName("");
+    setShared(false);
+    setSetAsDefault(false);
+  };
+
+  const renderGroup = (title: string, views: SavedView[]) =>
+    views.length > 0 && (
+      <div className="mb-2">
+        <span className="text-muted-foreground px-2 text-xs">{title}</span>
+        {views.map((view) => (
+          <div
+            key={view.id}
+            className="hover:bg-muted group flex items-center gap-1 rounded-sm px-2 py-1"
+          >
+            <button
+              type="button"
+              className="flex min-w-0 flex-1 items-center gap-2 text-left text-sm"
+              onClick={() => {
+                applyView(view);
+                setOpen(false);
+              }}
+            >
+              <Check
+                className={`h-3 w-3 shrink-0 ${
+                  activeView?.id === view.id ? "opacity-100" : "opacity-0"
+                }`}
+              />
+              <span className="truncate">{view.name}</span>
+              {view.shared && view.owner && (
+                <span className="text-muted-foreground shrink-0 text-xs">
+                  {view.owner}
+                </span>
+              )}
+            </button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title={
+                defaultViewId === view.id ? "Clear default" : "Set as default"
+              }
+              onClick={() =>
+                setDefaultView(defaultViewId === view.id ? null : view.id)
+              }
+            >
+              <Star
+                className={`h-3 w-3 ${
+                  defaultViewId === view.id
+                    ? "fill-amber-400 text-amber-400"
+                    : ""
+                }`}
+              />
+            </Button>
+            {canModifyView(view) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Delete view"
+                onClick={() => deleteView(view)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+
+  const hasViews = personalViews.length + sharedViews.length > 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Bookmark className="h-4 w-4" />
+          <span className="max-w-32 truncate">
+            {activeView ? activeView.name : "Views"}
+          </span>
+          {isModified && <span className="text-muted-foreground">*</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="end">
+        <div className="flex items-center justify-between border-b p-3">
+          <span className="text-sm font-medium">Saved Views</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => copyViewLink(activeView ?? undefined)}
+          >
+            <Link2 className="mr-1 h-3 w-3" />
+            Copy Link
+          </Button>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto p-2">
+          {hasViews ? (
+            <>
+              {renderGroup("My Views", personalViews)}
+              {renderGroup("Shared Views", sharedViews)}
+            </>
+          ) : (
+            <p className="text-muted-foreground px-2 py-3 text-center text-xs">
+              No saved views yet
+            </p>
+          )}
+        </div>
+
+        {activeView && isModified && canModifyView(activeView) && (
+          <>
+            <Separator />
+            <div className="p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start gap-2"
+                disabled={isSaving}
+                onClick={() => updateView(activeView)}
+              >
+                <Save className="h-4 w-4" />
+                Update &quot;{activeView.name}&quot;
+              </Button>
+            </div>
+          </>
+        )}
+
+        <Separator />
+        <div className="space-y-2 p-3">
+          <Input
+            placeholder="New view name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+            }}
+            className="h-8"
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="saved-view-shared"
+              checked={shared}
+              onCheckedChange={(checked) => setShared(checked === true)}
+            />
+            <Label htmlFor="saved-view-shared" className="gap-1 text-xs">
+              <Users className="h-3 w-3" />
+              Share with team
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="saved-view-default"
+              checked={setAsDefault}
+              onCheckedChange={(checked) => setSetAsDefault(checked === true)}
+            />
+            <Label htmlFor="saved-view-default" className="gap-1 text-xs">
+              <Star className="h-3 w-3" />
+              Open this view by default
+            </Label>
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={!name.trim() || isSaving}
+            onClick={handleSave}
+          >
+            Save Current View
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,520 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  Loader2,
+  Lock,
+  LockOpen,
+  Plug,
+  Scale,
+  Settings2,
+  Unplug,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { getErrorMessage, toastError } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+import {
+  WEIGHBRIDGE_ADAPTER_KINDS,
+  WEIGHMENT_FIELDS,
+  WEIGHMENT_STAGE_LABELS,
+  createWeighbridgeAdapter,
+  isWebSerialSupported,
+  isWeighmentReleased,
+  loadWeighbridgeConfig,
+  saveWeighbridgeConfig,
+  validateWeighment,
+  type GateEntryDirection,
+  type UseWeighmentsResult,
+  type WeighbridgeAdapter,
+  type WeighbridgeAdapterKind,
+  type WeighbridgeConfig,
+  type WeighbridgeReading,
+  type WeighmentStage,
+  type WeightField,
+} from "@/lib/weighbridge";
+
+const POLL_INTERVAL_MS = 1000;
+
+const ADAPTER_LABELS: Record<WeighbridgeAdapterKind, string> = {
+  serial: "Serial port",
+  http: "Local bridge",
+  simulator: "Simulator",
+};
+
+const FIELD_LABELS: Record<WeightField, string> = {
+  Gross_Weight: "Gross",
+  Tier_Weight: "Tare",
+};
+
+const STAGES: WeighmentStage[] = ["first", "second"];
+
+interface WeighbridgeCaptureProps {
+  direction: GateEntryDirection;
+  entryNo?: string;
+  weighments: UseWeighmentsResult;
+  /** Called once the weight is recorded and written to the gate entry header */
+  onCaptured: (field: WeightField, weight: number) => void;
+  canOverride: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Weighbridge capture panel for gate entries
+ * Reads the live weight, captures the first and second weighments with
+ * timestamps and lets a supervisor release the captured values
+ */
+export function WeighbridgeCapture({
+  direction,
+  entryNo,
+  weighments,
+  onCaptured,
+  canOverride,
+  disabled,
+}: WeighbridgeCaptureProps) {
+  const [config, setConfig] = useState<WeighbridgeConfig>(loadWeighbridgeConfig);
+  const [isConnected, setIsConnected] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [reading, setReading] = useState<WeighbridgeReading | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [capturingStage, setCapturingStage] = useState<WeighmentStage | null>(null);
+  const [isOverrideOpen, setIsOverrideOpen] = useState(false);
+  const adapterRef = useRef<WeighbridgeAdapter | null>(null);
+
+  const { record } = weighments;
+
+  // Poll the indicator while connected
+  useEffect(() => {
+    if (!isConnected) return;
+    let cancelled = false;
+
+    const poll = () => {
+      adapterRef.current
+        ?.read()
+        .then((next) => {
+          if (cancelled) return;
+          setReading(next);
+          setReadError(null);
+        })
+        .catch((error) => {
+          if (!cancelled) setReadError(getErrorMessage(error, "No reading"));
+        });
+    };
+
+    poll();
+    const timer = window.setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [isConnected]);
+
+  // Release the port when the form closes
+  useEffect(() => {
+    return () => {
+      adapterRef.current?.disconnect().catch(console.error);
+    };
+  }, []);
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    try {
+      const adapter = createWeighbridgeAdapter(config);
+      await adapter.connect();
+      adapterRef.current = adapter;
+      setIsConnected(true);
+    } catch (error) {
+      toastError(error, "Could not connect to the weighbridge");
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    const adapter = adapterRef.current;
+    adapterRef.current = null;
+    setIsConnected(false);
+    setReading(null);
+    setReadError(null);
+    await adapter?.disconnect().catch(console.error);
+  };
+
+  const handleConfigChange = (next: WeighbridgeConfig) => {
+    setConfig(next);
+    saveWeighbridgeConfig(next);
+    if (isConnected) void handleDisconnect();
+  };
+
+  const handleCapture = async (stage: WeighmentStage) => {
+    const adapter = adapterRef.current;
+    if (!adapter) return;
+
+    setCapturingStage(stage);
+    try {
+      const current = await adapter.read();
+      if (!current.stable) {
+        toast.error("Weight is not stable yet - wait for the vehicle to settle");
+        return;
+      }
+      const error = validateWeighment(direction, stage, current.weight, record);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+
+      await weighments.capture({
+        stage,
+        weight: current.weight,
+        source: adapter.kind,
+      });
+      onCaptured(WEIGHMENT_FIELDS[direction][stage], current.weight);
+      toast.success(
+        `${WEIGHMENT_STAGE_LABELS[stage]} captured: ${current.weight.toLocaleString()} kg`,
+      );
+    } catch (error) {
+      toastError(error, "Failed to capture weighment");
+    } finally {
+      setCapturingStage(null);
+    }
+  };
+
+  const hasCapture = !!record?.first || !!record?.second;
+  const lastOverride = record?.overrides[record.overrides.length - 1];
+  const isLocked = STAGES.some(
+    (stage) => !!record?.[stage] && !isWeighmentReleased(record, stage),
+  );
+
+  return (
+    <section className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Scale className="text-muted-foreground h-4 w-4" />
+        <span className="text-[10px] font-bold tracking-wider uppercase">
+          Weighbridge
+        </span>
+        <Badge variant="outline" className="h-5 text-[10px]">
+          {ADAPTER_LABELS[config.kind]}
+        </Badge>
+
+        <div
+          className={cn(
+            "ml-2 flex h-8 min-w-36 items-center justify-end gap-2 rounded border px-3 font-mono text-sm",
+            isConnected && reading && !readError
+              ? reading.stable
+                ? "border-green-300 bg-green-50 text-green-700 dark:bg-green-950/30"
+                : "border-amber-300 bg-amber-50 text-amber-700 dark:bg-amber-950/30"
+              : "bg-muted/30 text-muted-foreground border-dashed",
+          )}
+          title={readError ?? undefined}
+        >
+          {isConnected && reading && !readError ? (
+            <>
+              <span className="text-[10px] font-sans font-bold uppercase">
+                {reading.stable ? "Stable" : "Moving"}
+              </span>
+              {reading.weight.toLocaleString()} kg
+            </>
+          ) : isConnected ? (
+            <span className="text-xs font-sans">{readError ?? "Waiting..."}</span>
+          ) : (
+            <span className="text-xs font-sans">Not connected</span>
+          )}
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isConnected ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={handleDisconnect}
+            >
+              <Unplug className="mr-1.5 h-3.5 w-3.5" />
+              Disconnect
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={handleConnect}
+              disabled={isConnecting || disabled}
+            >
+              {isConnecting ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Plug className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              Connect
+            </Button>
+          )}
+          <WeighbridgeSettings config={config} onChange={handleConfigChange} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {STAGES.map((stage) => {
+          const weighment = record?.[stage];
+          const field = WEIGHMENT_FIELDS[direction][stage];
+          const canCapture =
+            isConnected &&
+            !disabled &&
+            !!entryNo &&
+            (!weighment || isWeighmentReleased(record, stage)) &&
+            (stage === "first" || !!record?.first);
+
+          return (
+            <div
+              key={stage}
+              className="flex items-center justify-between gap-3 rounded border px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-[10px] font-bold tracking-wider uppercase">
+                  {WEIGHMENT_STAGE_LABELS[stage]} · {FIELD_LABELS[field]}
+                </p>
+                {weighment ? (
+                  <p className="text-muted-foreground truncate text-xs">
+                    <span className="text-foreground font-mono font-medium">
+                      {weighment.weight.toLocaleString()} kg
+                    </span>{" "}
+                    · {format(weighment.capturedAt, "dd/MM/yyyy HH:mm:ss")} ·{" "}
+                    {weighment.capturedBy}
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground text-xs">Not captured</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                className="h-8 shrink-0"
+                variant={weighment ? "outline" : "default"}
+                disabled={!canCapture || capturingStage !== null}
+                onClick={() => handleCapture(stage)}
+              >
+                {capturingStage === stage && (
+                  <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                )}
+                {weighment ? "Recapture" : "Capture"}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {!entryNo ? (
+          <span className="text-muted-foreground">
+            Save the entry before capturing weighments.
+          </span>
+        ) : isLocked ? (
+          <span className="text-muted-foreground flex items-center gap-1">
+            <Lock className="h-3 w-3" />
+            Captured weights are locked against manual edits.
+          </span>
+        ) : hasCapture && lastOverride ? (
+          <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+            <LockOpen className="h-3 w-3" />
+            Released by {lastOverride.overriddenBy}: {lastOverride.reason}
+          </span>
+        ) : null}
+        {canOverride && isLocked && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 text-xs"
+            onClick={() => setIsOverrideOpen(true)}
+            disabled={disabled}
+          >
+            <LockOpen className="mr-1.5 h-3.5 w-3.5" />
+            Supervisor Override
+          </Button>
+        )}
+      </div>
+
+      <OverrideDialog
+        open={isOverrideOpen}
+        onOpenChange={setIsOverrideOpen}
+        onConfirm={weighments.override}
+      />
+    </section>
+  );
+}
+
+function WeighbridgeSettings({
+  config,
+  onChange,
+}: {
+  config: WeighbridgeConfig;
+  onChange: (config: WeighbridgeConfig) => void;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Connection</Label>
+          <Select
+            value={config.kind}
+            onValueChange={(kind) =>
+              onChange({ ...config, kind: kind as WeighbridgeAdapterKind })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEIGHBRIDGE_ADAPTER_KINDS.map((kind) => (
+                <SelectItem key={kind} value={kind} className="text-xs">
+                  {ADAPTER_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.kind === "serial" && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Baud Rate</Label>
+            <Input
+              type="number"
+              min={300}
+              value={config.baudRate}
+              onChange={(e) =>
+                onChange({ ...config, baudRate: parseInt(e.target.value, 10) || 9600 })
+              }
+              className="h-8 text-xs"
+            />
+            {!isWebSerialSupported() && (
+              <p className="text-destructive text-[11px]">
+                This browser has no WebSerial; use Chrome or Edge, or the local bridge.
+              </p>
+            )}
+          </div>
+        )}
+
+        {config.kind === "http" && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Bridge URL</Label>
+            <Input
+              value={config.bridgeUrl}
+              onChange={(e) => onChange({ ...config, bridgeUrl: e.target.value })}
+              className="h-8 font-mono text-xs"
+            />
+          </div>
+        )}
+
+        {config.kind === "simulator" && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Simulated Load (kg)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={config.simulatorWeight}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  simulatorWeight: Math.max(0, parseFloat(e.target.value) || 0),
+                })
+              }
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function OverrideDialog({
+  open,
+  onOpenChange,
+  onConfirm,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => Promise<unknown>;
+}) {
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(reason.trim());
+      toast.success("Weights released for manual editing");
+      setReason("");
+      onOpenChange(false);
+    } catch (error) {
+      toastError(error, "Failed to override weighments");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Override Captured Weights</DialogTitle>
+          <DialogDescription>
+            Gross and tare become editable and can be recaptured. The reason is
+            recorded with the weighments.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1.5">
+          <Label htmlFor="weighment-override-reason" className="text-xs">
+            Reason
+          </Label>
+          <Textarea
+            id="weighment-override-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Weighbridge out of calibration"
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!reason.trim() || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,8 @@ import { Search, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { TransferOrderColumnVisibility } from "./column-visibility";
+import { SavedViewsMenu } from "@/components/forms/shared/saved-views-menu";
+import type { SavedViewsController } from "@/lib/saved-views";
 
 interface TransferOrderFilterBarProps {
   searchQuery: string;
@@ -15,6 +17,7 @@ interface TransferOrderFilterBarProps {
   onColumnToggle: (columnId: string) => void;
   onResetColumns: () => void;
   onShowAllColumns: () => void;
+  savedViews?: SavedViewsController;
   children?: React.ReactNode;
 }
 
@@ -27,6 +30,7 @@ export function TransferOrderFilterBar({
   onColumnToggle,
   onResetColumns,
   onShowAllColumns,
+  savedViews,
   children,
 }: TransferOrderFilterBarProps) {
   const [localSearch, setLocalSearch] = useState(searchQuery);
@@ -87,6 +91,8 @@ export function TransferOrderFilterBar({
         </Button>
       )}
 
+      {savedViews && <SavedViewsMenu savedViews={savedViews} />}
+
       <TransferOrderColumnVisibility
         visibleColumns={visibleColumns}
         onColumnToggle={onColumnToggle}
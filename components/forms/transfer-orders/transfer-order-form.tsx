@@ -65,6 +65,7 @@ import {
 import { getTransporters, Vendor } from "@/lib/api/services/vendor.service";
 import { getDistance, getLocationPostCode } from "@/lib/api/services/distance.service";
 import { getAuthCredentials } from "@/lib/auth/storage";
+import { useAuth } from "@/lib/contexts/auth-context";
 import { useFormStack } from "@/lib/form-stack/use-form-stack";
 import { cn } from "@/lib/utils";
 import { getWebUser, type WebUser } from "@/lib/api/services/web-user.service";
@@ -147,6 +148,7 @@ export function TransferOrderForm({
   context,
 }: TransferOrderFormProps) {
   const { handleSuccess, updateTab, registerRefresh } = useFormStack(tabId);
+  const { can } = useAuth();
   const { showError } = useError();
   const [userId, setUserId] = useState<string | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -658,7 +660,7 @@ export function TransferOrderForm({
 
     setIsSubmitting(true);
     try {
-      await patchTransferOrder(formState.No, diff);
+      await patchTransferOrder(formState.No, diff, originalState["@odata.etag"]);
       setSuccessInfo({
         title: "Header Updated",
         message: `Order ${formState.No} has been updated successfully.`,
@@ -816,7 +818,7 @@ export function TransferOrderForm({
 
       let isHeaderUpdated = false;
       if (Object.keys(diff).length > 0) {
-        await patchTransferOrder(formState.No, diff);
+        await patchTransferOrder(formState.No, diff, originalState["@odata.etag"]);
         console.log("Header updated before posting:", diff);
         isHeaderUpdated = true;
       }
@@ -913,7 +915,7 @@ export function TransferOrderForm({
       const diff = calculateDiff(formState, originalState, allowedToUpdate);
 
       if (Object.keys(diff).length > 0) {
-        await patchTransferOrder(formState.No, diff);
+        await patchTransferOrder(formState.No, diff, originalState["@odata.etag"]);
         toast.success("Details saved successfully.");
         fetchOrderData(formState.No);
       } else {
@@ -1276,6 +1278,7 @@ export function TransferOrderForm({
                       }}
                       variant="default"
                       size="sm"
+                      disabled={!can("stock", "post")}
                       className="bg-green-600 font-bold text-white shadow-md transition-all hover:scale-105 hover:bg-green-700 active:scale-95"
                     >
                       Post
@@ -46,6 +46,7 @@ export function TransferOrderView({
     loadMore,
     hasMore,
     isLoadingMore,
+    savedViews,
   } = useTransferOrders({ statusFilter });
 
   useEffect(() => {
@@ -64,6 +65,7 @@ export function TransferOrderView({
           onColumnToggle={onColumnToggle}
           onResetColumns={onResetColumns}
           onShowAllColumns={onShowAllColumns}
+          savedViews={savedViews}
         >
           <div className="flex items-center gap-4">
             <span className="text-muted-foreground text-xs font-medium">
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { toastError } from "@/lib/errors";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { useSavedViews, type SavedViewState } from "@/lib/saved-views";
 import { getAllBranchesFromUserSetup, getLOBsFromUserSetup } from "@/lib/api/services/dimension.service";
 import {
   getTransferOrdersWithCount,
@@ -294,6 +295,67 @@ export function useTransferOrders(options: UseTransferOrdersOptions = {}) {
     [],
   );
 
+  // Saved views: LOB/branch filters are kept out of views that use the user's own setup
+  const savedViewState = useMemo<SavedViewState>(() => {
+    const {
+      Shortcut_Dimension_1_Code: lobFilter,
+      Shortcut_Dimension_2_Code: branchFilter,
+      ...otherColumnFilters
+    } = columnFilters;
+    const viewColumnFilters: Record<string, { value: string; valueTo?: string }> =
+      { ...otherColumnFilters };
+    if (lobFilter && lobFilter.value !== userLobCodes.join(",")) {
+      viewColumnFilters.Shortcut_Dimension_1_Code = lobFilter;
+    }
+    if (branchFilter && branchFilter.value !== userBranchCodes.join(",")) {
+      viewColumnFilters.Shortcut_Dimension_2_Code = branchFilter;
+    }
+    return {
+      filters: { searchQuery, columnFilters: viewColumnFilters },
+      sortColumn,
+      sortDirection,
+      visibleColumns,
+      pageSize,
+    };
+  }, [
+    searchQuery,
+    columnFilters,
+    sortColumn,
+    sortDirection,
+    visibleColumns,
+    pageSize,
+    userLobCodes,
+    userBranchCodes,
+  ]);
+
+  const applySavedViewState = useCallback((state: SavedViewState) => {
+    const filters = state.filters as {
+      searchQuery?: string;
+      columnFilters?: Record<string, { value: string; valueTo?: string }>;
+    };
+    setSearchQuery(filters.searchQuery ?? "");
+    setColumnFilters((prev) => {
+      const next = { ...(filters.columnFilters ?? {}) };
+      (["Shortcut_Dimension_1_Code", "Shortcut_Dimension_2_Code"] as const).forEach(
+        (key) => {
+          if (!next[key] && prev[key]) next[key] = prev[key];
+        },
+      );
+      return next;
+    });
+    setSortColumn(state.sortColumn ?? "No");
+    setSortDirection(state.sortDirection ?? "desc");
+    if (state.visibleColumns?.length) setVisibleColumns(state.visibleColumns);
+    if (state.pageSize) setPageSize(state.pageSize);
+    setCurrentPage(1);
+  }, []);
+
+  const savedViews = useSavedViews({
+    listKey: "transfer-order",
+    currentState: savedViewState,
+    applyState: applySavedViewState,
+  });
+
   return {
     orders,
     isLoading,
@@ -319,5 +381,6 @@ export function useTransferOrders(options: UseTransferOrdersOptions = {}) {
     loadMore,
     hasMore,
     isLoadingMore,
+    savedViews,
   };
 }
@@ -9,6 +9,7 @@ import React, { useCallback, useEffect, useRef, useState } from "react";
 import { z } from "zod";
 import { Pencil, Plus, Trash2, Upload, Info, Loader2, X, FileSpreadsheet, Paperclip } from "lucide-react";
 import { VoucherAttachmentDialog } from "./voucher-attachment-dialog";
+import { VoucherImportDialog } from "./voucher-import-dialog";
 
 import {
   voucherSchema,
@@ -78,7 +79,6 @@ import {
   getVoucherReportPdf,
   type TDSSection,
   type TCSSection,
-  type CreateVoucherPayload,
   type VoucherEntryResponse,
   type DefaultDimension,
 } from "@/lib/api/services/voucher.service";
@@ -87,6 +87,7 @@ import { getCustomerByNo } from "@/lib/api/services/customer.service";
 import { useAuth } from "@/lib/contexts/auth-context";
 import type { ApiError } from "@/lib/api/client";
 import { exportVouchersToExcel } from "@/lib/utils/export";
+import { buildVoucherPayload } from "@/lib/voucher-import";
 import { base64ToPdfBlob } from "@/lib/pdf-utils";
 
 // Removed VoucherEntry type as staging area is being removed
@@ -327,6 +328,7 @@ export function VoucherForm() {
     useState(false);
   const [isAttachmentDialogOpen, setIsAttachmentDialogOpen] = useState(false);
   const [attachmentVoucherNo, setAttachmentVoucherNo] = useState<string | null>(null);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   // Edit voucher state
   const [voucherToEdit, setVoucherToEdit] =
     useState<VoucherEntryResponse | null>(null);
@@ -1522,109 +1524,6 @@ export function VoucherForm() {
     });
   };
 
-  const mapVoucherTypeToTemplate = (voucherType: string): string => {
-    switch (voucherType) {
-      case "General Journal":
-        return "GENERAL";
-      case "Cash Payment":
-        return "CASH PAYM";
-      case "Cash Receipt":
-        return "CASH RECE";
-      default:
-        return "GENERAL";
-    }
-  };
-
-  const buildVoucherPayload = (
-    entry: VoucherFormData,
-    documentNo: string,
-  ): CreateVoucherPayload => {
-    // Build base payload with required fields only
-    const payload: Partial<CreateVoucherPayload> = {
-      Journal_Template_Name: mapVoucherTypeToTemplate(entry.voucherType),
-      Journal_Batch_Name: "WEB",
-      Posting_Date: entry.postingDate,
-      // Send empty string for Document_Type if it's NA, otherwise send the value or default to 'Payment'
-      Document_Type:
-        entry.documentType === "NA" ? "" : entry.documentType || "Payment",
-      Account_Type: entry.accountType,
-      Account_No: entry.accountNo,
-      Amount: entry.amount,
-      Bal_Account_Type: entry.balanceAccountType,
-      Document_Date: entry.documentDate,
-      Document_No: documentNo,
-    };
-
-    // Add User_ID only if it has a value
-    if (userID && userID.trim() !== "") {
-      payload.User_ID = userID;
-    }
-
-    // Add optional fields only if they have non-empty values
-    if (entry.balanceAccountNo && entry.balanceAccountNo.trim() !== "") {
-      payload.Bal_Account_No = entry.balanceAccountNo;
-    }
-    if (entry.description && entry.description.trim() !== "") {
-      payload.Description = entry.description;
-    }
-    if (entry.externalDocumentNo && entry.externalDocumentNo.trim() !== "") {
-      payload.External_Document_No = entry.externalDocumentNo;
-    }
-    if (entry.lineNarration && entry.lineNarration.trim() !== "") {
-      payload.Line_Narration1 = entry.lineNarration;
-    }
-    if (entry.lob && entry.lob.trim() !== "") {
-      payload.Shortcut_Dimension_1_Code = entry.lob;
-    }
-    if (entry.branch && entry.branch.trim() !== "") {
-      payload.Shortcut_Dimension_2_Code = entry.branch;
-    }
-    if (entry.loc && entry.loc.trim() !== "") {
-      payload.ShortcutDimCode3 = entry.loc;
-    }
-    if (entry.employee && entry.employee.trim() !== "") {
-      payload.ShortcutDimCode4 = entry.employee;
-    }
-    if (entry.assignment && entry.assignment.trim() !== "") {
-      payload.ShortcutDimCode5 = entry.assignment;
-    }
-
-    // Set Party_Type and Party_Code ONLY if Account-related TDS/TCS is present (and not NA)
-    // Party_Type = Account_Type and Party_Code = Account_No when TDS/TCS is applicable
-    if (
-      entry.accountTdsSection &&
-      entry.accountTdsSection.tdsType &&
-      entry.accountTdsSection.tdsType !== "NA"
-    ) {
-      payload.Party_Type = entry.accountType;
-      payload.Party_Code = entry.accountNo;
-      payload.TDS_Section_Code = entry.accountTdsSection.tdsType;
-    } else if (
-      entry.accountTcsSection &&
-      entry.accountTcsSection.tcsType &&
-      entry.accountTcsSection.tcsType !== "NA"
-    ) {
-      payload.Party_Type = entry.accountType;
-      payload.Party_Code = entry.accountNo;
-      payload.TCS_Nature_of_Collection = entry.accountTcsSection.tcsType;
-    }
-
-    // Remove any undefined or empty string values before returning
-    // BUT keep Document_Type even if it's empty string (for NA case)
-    const cleanPayload = Object.fromEntries(
-      Object.entries(payload).filter(([key, value]) => {
-        // Always keep Document_Type even if empty string
-        if (key === "Document_Type") {
-          return value !== undefined && value !== null;
-        }
-        // Keep the value if it's not undefined, null, or empty string
-        return value !== undefined && value !== null && value !== "";
-      }),
-    ) as unknown as CreateVoucherPayload;
-
-    return cleanPayload;
-  };
-
   // Helper function to extract Line_No from error message
   const extractLineNoFromError = (errorMessage: string): number | null => {
     // Pattern: "Line No.=10000" or "Line No.= 10000" or "Line No.=10000."
@@ -1709,7 +1608,7 @@ export function VoucherForm() {
       );
 
       // Step 2: Create voucher with the document number
-      const payload = buildVoucherPayload(data, documentNo);
+      const payload = buildVoucherPayload(data, documentNo, userID);
       await createVoucher(payload, data.voucherType);
 
       // Step 3: Upload attachments if any
@@ -2592,6 +2491,16 @@ export function VoucherForm() {
             Vouchers from ERP
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setIsImportDialogOpen(true)}
+              title="Create vouchers from an Excel sheet"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import from Excel
+            </Button>
             <Button
               type="button"
               variant="outline"
@@ -3452,6 +3361,12 @@ export function VoucherForm() {
         />
       )}
 
+      <VoucherImportDialog
+        isOpen={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onCompleted={() => fetchVouchersFromERP()}
+      />
+
       {/* Removed delete all dialog */}
     </div>
   );
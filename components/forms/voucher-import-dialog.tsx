@@ -0,0 +1,323 @@
+"use client";
+
+/**
+ * Voucher Import Dialog
+ * Reads voucher lines from an Excel template, validates every row and
+ * previews the errors row by row, then creates a voucher for each valid
+ * row with progress and a per-row result
+ */
+
+import { useRef, useState, type ChangeEvent } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { getErrorMessage } from "@/lib/errors";
+import { useAuth } from "@/lib/contexts/auth-context";
+import {
+  VOUCHER_IMPORT_MAX_ROWS,
+  downloadVoucherImportTemplate,
+  parseVoucherImportFile,
+  runVoucherImport,
+  validateVoucherImportRows,
+  type ValidatedVoucherRow,
+  type VoucherImportResult,
+} from "@/lib/voucher-import";
+
+interface VoucherImportDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called once an import finishes so the voucher list can reload */
+  onCompleted: (results: VoucherImportResult[]) => void;
+}
+
+function formatAmount(value: string): string {
+  const amount = Number(value.replace(/,/g, ""));
+  if (!value || isNaN(amount)) return value;
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function VoucherImportDialog({
+  isOpen,
+  onOpenChange,
+  onCompleted,
+}: VoucherImportDialogProps) {
+  const { userID } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ValidatedVoucherRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [results, setResults] = useState<VoucherImportResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const validRows = rows.filter((row) => row.data);
+  const invalidCount = rows.length - validRows.length;
+  const hasRun = results.length > 0 || isRunning;
+  const isDone = results.length > 0 && !isRunning;
+  const created = results.filter((result) => result.documentNo).length;
+  const resultByRow = new Map(results.map((result) => [result.rowNumber, result]));
+  const shownRows = showErrorsOnly ? rows.filter((row) => !row.data) : rows;
+
+  const reset = () => {
+    setFileName("");
+    setRows([]);
+    setParseError(null);
+    setShowErrorsOnly(false);
+    setResults([]);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    if (!userID) {
+      setParseError("User ID not available. Please login again.");
+      return;
+    }
+
+    setIsValidating(true);
+    try {
+      const parsed = await parseVoucherImportFile(file);
+      setRows(await validateVoucherImportRows(parsed, userID));
+    } catch (error) {
+      console.error("Error reading voucher import file:", error);
+      setParseError(getErrorMessage(error, "Could not read the file"));
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    setIsRunning(true);
+    setResults([]);
+    const runResults: VoucherImportResult[] = [];
+    try {
+      await runVoucherImport(validRows, userID ?? undefined, (result) => {
+        runResults.push(result);
+        setResults((prev) => [...prev, result]);
+      });
+    } finally {
+      setIsRunning(false);
+      onCompleted(runResults);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isRunning || isValidating) return;
+    if (!open) reset();
+    onOpenChange(open);
+  };
+
+  const getRowStatus = (row: ValidatedVoucherRow) => {
+    const result = resultByRow.get(row.rowNumber);
+    if (result?.documentNo) {
+      return (
+        <span className="flex items-center gap-1.5 text-emerald-700 dark:text-emerald-400">
+          <CheckCircle2 className="h-3.5 w-3.5 shrink-0" />
+          {result.documentNo}
+        </span>
+      );
+    }
+    if (result?.error) {
+      return (
+        <span className="text-destructive flex items-start gap-1.5 break-words">
+          <XCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          {result.error}
+        </span>
+      );
+    }
+    if (row.errors.length > 0) {
+      return (
+        <ul className="text-destructive space-y-0.5">
+          {row.errors.map((error) => (
+            <li key={error} className="flex items-start gap-1.5 break-words">
+              <XCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              {error}
+            </li>
+          ))}
+        </ul>
+      );
+    }
+    return (
+      <span className="text-muted-foreground flex items-start gap-1.5">
+        {row.warnings.length > 0 ? (
+          <>
+            <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-600" />
+            {row.warnings.join("; ")}
+          </>
+        ) : (
+          <>
+            <CheckCircle2 className="mt-0.5 h-3.5 w-3.5 shrink-0 text-emerald-600" />
+            Ready
+          </>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import Vouchers from Excel</DialogTitle>
+          <DialogDescription>
+            {isDone
+              ? `${created} of ${results.length} voucher(s) created in the WEB batch. Review, attach documents and post them from the voucher list.`
+              : rows.length > 0
+                ? `${rows.length} line(s) in ${fileName}: ${validRows.length} ready, ${invalidCount} with errors. Only ready lines are imported.`
+                : `Fill in the template, up to ${VOUCHER_IMPORT_MAX_ROWS} lines, and choose the file. Every line is checked before anything is created.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {!hasRun && (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isValidating}
+              >
+                {isValidating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                )}
+                {isValidating ? "Checking lines..." : fileName ? "Choose Another File" : "Choose File"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={downloadVoucherImportTemplate}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Template
+              </Button>
+              {invalidCount > 0 && (
+                <Button
+                  variant={showErrorsOnly ? "secondary" : "ghost"}
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => setShowErrorsOnly((prev) => !prev)}
+                >
+                  {showErrorsOnly ? "Show All Lines" : `Show ${invalidCount} With Errors`}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {parseError && (
+            <div className="border-destructive/40 bg-destructive/10 text-destructive flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+              <XCircle className="h-4 w-4 shrink-0" />
+              {parseError}
+            </div>
+          )}
+
+          {hasRun && <Progress value={(results.length / validRows.length) * 100} />}
+
+          {rows.length > 0 && (
+            <div className="max-h-[55vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader className="bg-muted/50 sticky top-0 z-10">
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Posting Date</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Bal. Account</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>LOB / Branch / LOC</TableHead>
+                    <TableHead className="w-[32%]">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(hasRun ? validRows : shownRows).map((row) => (
+                    <TableRow
+                      key={row.rowNumber}
+                      className={cn("align-top text-xs", !row.data && "bg-destructive/5")}
+                    >
+                      <TableCell className="tabular-nums">{row.rowNumber}</TableCell>
+                      <TableCell>{row.cells.voucherType}</TableCell>
+                      <TableCell>{row.cells.postingDate}</TableCell>
+                      <TableCell>
+                        <div className="text-muted-foreground">{row.cells.accountType}</div>
+                        <div className="font-medium">{row.cells.accountNo}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-muted-foreground">{row.cells.balanceAccountType}</div>
+                        <div className="font-medium">{row.cells.balanceAccountNo}</div>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatAmount(row.cells.amount)}
+                      </TableCell>
+                      <TableCell>
+                        {[row.cells.lob, row.cells.branch, row.cells.loc].filter(Boolean).join(" / ")}
+                      </TableCell>
+                      <TableCell>{getRowStatus(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isDone ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                disabled={isRunning || isValidating}
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                disabled={isRunning || isValidating || validRows.length === 0}
+                onClick={handleImport}
+              >
+                {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isRunning
+                  ? `Creating ${results.length + 1} of ${validRows.length}`
+                  : `Import ${validRows.length} Voucher(s)`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,11 +3,15 @@
 /**
  * Auth Guard component
  * Redirects to login if user is not authenticated
+ * Blocks routes the user's role is not permitted to open
  */
 
 import { useEffect } from "react";
+import Link from "next/link";
 import { useRouter, usePathname } from "next/navigation";
+import { ShieldAlert } from "lucide-react";
 import { useAuth } from "@/lib/contexts/auth-context";
+import { Button } from "@/components/ui/button";
 
 export function AuthGuard({ children }: { children: React.ReactNode }) {
   const router = useRouter();
@@ -36,3 +40,37 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
 
   return <>{children}</>;
 }
+
+/**
+ * Route Permission Guard component
+ * Renders an access denied message instead of the page when the
+ * signed-in user's role does not allow the current route
+ */
+export function RoutePermissionGuard({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const pathname = usePathname();
+  const { canAccessRoute } = useAuth();
+
+  if (!canAccessRoute(pathname)) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-3 p-6 text-center">
+        <div className="bg-muted rounded-full p-3">
+          <ShieldAlert className="text-muted-foreground h-6 w-6" />
+        </div>
+        <h2 className="text-base font-semibold">Access denied</h2>
+        <p className="text-muted-foreground max-w-sm text-sm">
+          Your role does not have access to this page. Contact your
+          administrator if you need it.
+        </p>
+        <Button asChild variant="outline" size="sm">
+          <Link href="/">Back to Dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,299 @@
+"use client";
+
+/**
+ * Command palette (Ctrl+K / Cmd+K)
+ * Jumps to modules, recently opened FormStack tabs and live documents by number
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { ChevronRight, History, Loader2, Search } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { filterModulesByAccess } from "@/lib/data/modules";
+import {
+  getRecentFormTabs,
+  queueFormStackAction,
+  type PendingFormStackAction,
+} from "@/lib/form-stack";
+import {
+  DOCUMENT_SEARCH_SOURCES,
+  isDocumentNumberQuery,
+  type DocumentMatch,
+} from "@/lib/command-palette";
+
+const SEARCH_DEBOUNCE_MS = 350;
+const RESULTS_PER_SOURCE = 5;
+
+interface PaletteItem {
+  key: string;
+  group: string;
+  title: string;
+  subtitle?: string;
+  icon: React.ComponentType<{ className?: string }>;
+  run: () => void;
+}
+
+export function CommandPalette() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { canAccessRoute } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [searchResult, setSearchResult] = useState<{
+    term: string;
+    matches: DocumentMatch[];
+  }>({ term: "", matches: [] });
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const handleOpenChange = useCallback((next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        handleOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, handleOpenChange]);
+
+  const sources = useMemo(
+    () => DOCUMENT_SEARCH_SOURCES.filter((s) => canAccessRoute(s.route)),
+    [canAccessRoute],
+  );
+
+  const term = query.trim();
+  const shouldSearch = open && isDocumentNumberQuery(term);
+  const documents = useMemo(
+    () => (shouldSearch && searchResult.term === term ? searchResult.matches : []),
+    [shouldSearch, searchResult, term],
+  );
+  const isSearching = shouldSearch && searchResult.term !== term;
+
+  // Live document lookup, debounced; a newer query supersedes older responses
+  useEffect(() => {
+    if (!shouldSearch) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const settled = await Promise.allSettled(
+        sources.map((source) => source.search(term, RESULTS_PER_SOURCE)),
+      );
+      if (cancelled) return;
+
+      const matches = settled.flatMap((result) =>
+        result.status === "fulfilled" ? result.value : [],
+      );
+      // Exact number matches first so "open SO-1234" is a single Enter
+      const needle = term.toLowerCase();
+      matches.sort(
+        (a, b) =>
+          Number(b.no.toLowerCase() === needle) -
+          Number(a.no.toLowerCase() === needle),
+      );
+      setSearchResult({ term, matches });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [shouldSearch, term, sources]);
+
+  const runAction = useCallback(
+    (formScope: string, route: string, action: PendingFormStackAction) => {
+      queueFormStackAction(formScope, action);
+      if (pathname !== route) router.push(route);
+      handleOpenChange(false);
+    },
+    [pathname, router, handleOpenChange],
+  );
+
+  const items = useMemo<PaletteItem[]>(() => {
+    if (!open) return [];
+    const needle = query.trim().toLowerCase();
+    const result: PaletteItem[] = [];
+
+    getRecentFormTabs()
+      .filter(({ route, tab }) => {
+        if (!route || !canAccessRoute(route)) return false;
+        return !needle || tab.title.toLowerCase().includes(needle);
+      })
+      .slice(0, needle ? 5 : 8)
+      .forEach(({ formScope, route, tab }) => {
+        result.push({
+          key: `tab:${formScope}:${tab.id}`,
+          group: "Recent Tabs",
+          title: tab.title,
+          subtitle: route,
+          icon: History,
+          run: () =>
+            runAction(formScope, route!, { type: "switch", tabId: tab.id }),
+        });
+      });
+
+    documents.forEach((match) => {
+      const source = sources.find((s) => s.id === match.sourceId);
+      result.push({
+        key: `doc:${match.sourceId}:${match.no}`,
+        group: "Documents",
+        title: match.no,
+        subtitle: [source?.label, match.description].filter(Boolean).join(" · "),
+        icon: source?.icon ?? Search,
+        run: () =>
+          runAction(match.target.formScope, match.target.route, {
+            type: "open",
+            formType: match.target.formType,
+            options: match.target.options,
+          }),
+      });
+    });
+
+    if (needle) {
+      filterModulesByAccess(canAccessRoute).forEach((category) => {
+        const matchesCategory = category.title.toLowerCase().includes(needle);
+        category.subItems
+          .filter(
+            (subItem) =>
+              matchesCategory || subItem.title.toLowerCase().includes(needle),
+          )
+          .forEach((subItem) => {
+            result.push({
+              key: `module:${subItem.url}`,
+              group: "Modules",
+              title: subItem.title,
+              subtitle: category.title,
+              icon: subItem.icon,
+              run: () => {
+                router.push(subItem.url);
+                handleOpenChange(false);
+              },
+            });
+          });
+      });
+    }
+
+    return result;
+  }, [
+    open,
+    query,
+    documents,
+    sources,
+    canAccessRoute,
+    runAction,
+    router,
+    handleOpenChange,
+  ]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, items.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      items[activeIndex]?.run();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        showCloseButton={false}
+        className="top-[20%] translate-y-0 gap-0 p-0 sm:max-w-xl"
+      >
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search modules, open tabs and documents by number
+        </DialogDescription>
+        <div className="relative border-b">
+          <Search className="text-muted-foreground absolute top-3 left-3 h-4 w-4" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Type a module or a document number (e.g. SO-1234)..."
+            className="h-10 rounded-none border-0 pl-9 shadow-none focus-visible:ring-0"
+          />
+          {isSearching && (
+            <Loader2 className="text-muted-foreground absolute top-3 right-3 h-4 w-4 animate-spin" />
+          )}
+        </div>
+
+        <div ref={listRef} className="max-h-[360px] overflow-y-auto p-1.5">
+          {items.length === 0 ? (
+            <div className="text-muted-foreground py-6 text-center text-xs">
+              {isSearching
+                ? "Searching documents..."
+                : query.trim()
+                  ? "No results found"
+                  : "Start typing to search"}
+            </div>
+          ) : (
+            items.map((item, index) => {
+              const showGroup = index === 0 || items[index - 1].group !== item.group;
+              return (
+                <div key={item.key}>
+                  {showGroup && (
+                    <div className="text-muted-foreground/80 px-2 pt-1.5 pb-0.5 text-[9px] font-bold tracking-wider uppercase">
+                      {item.group}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    data-index={index}
+                    onClick={item.run}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={`flex w-full items-center justify-between rounded-[var(--radius)] px-2 py-1.5 text-left text-xs transition-colors ${
+                      index === activeIndex
+                        ? "bg-zinc-100 dark:bg-zinc-800/60"
+                        : ""
+                    }`}
+                  >
+                    <div className="flex min-w-0 items-center gap-2">
+                      <item.icon className="h-3.5 w-3.5 shrink-0 text-zinc-400" />
+                      <span className="font-medium">{item.title}</span>
+                      {item.subtitle && (
+                        <span className="text-muted-foreground truncate">
+                          {item.subtitle}
+                        </span>
+                      )}
+                    </div>
+                    <ChevronRight className="h-3 w-3 shrink-0 text-zinc-400" />
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
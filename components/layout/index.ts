@@ -4,5 +4,7 @@
  */
 
 export { AppSidebar } from "./sidebar";
-export { AuthGuard } from "./auth-guard";
+export { AuthGuard, RoutePermissionGuard } from "./auth-guard";
 export { PublicGuard } from "./public-guard";
+export { SyncStatus } from "./sync-status";
+export { CommandPalette } from "./command-palette";
@@ -10,6 +10,7 @@ import Link from "next/link";
 import Image from "next/image";
 import { useAuth } from "@/lib/contexts/auth-context";
 import { useAuthStore } from "@/lib/stores/auth-store";
+import { SyncStatus } from "./sync-status";
 import {
   Sidebar as SidebarRoot,
   SidebarContent,
@@ -60,6 +61,10 @@ import {
   Store,
   Truck,
   ClipboardCheck,
+  ShieldCheck,
+  IndianRupee,
+  Timer,
+  Award,
 } from "lucide-react";
 
 const salesSubItems = [
@@ -70,6 +75,7 @@ const salesSubItems = [
   { title: "Posted Shipment", url: "/sales/posted-shipment", icon: Truck },
   { title: "Posted Invoice", url: "/sales/posted-invoice", icon: ClipboardCheck },
   { title: "Posted Credit Memo", url: "/sales/posted-credit-memo", icon: ClipboardCheck },
+  { title: "E-Invoice & E-Way Bill", url: "/sales/e-compliance", icon: ShieldCheck },
 ];
 
 const purchaseSubItems = [
@@ -107,11 +113,31 @@ const ledgerSubItems = [
     url: "/ledger/vendor-ledger",
     icon: BookOpenCheck,
   },
+  {
+    title: "Customer Ledger",
+    url: "/ledger/customer-ledger",
+    icon: BookOpenCheck,
+  },
+  {
+    title: "Payables",
+    url: "/ledger/payables",
+    icon: BookOpenCheck,
+  },
   {
     title: "GL Entry",
     url: "/ledger/gl-entry",
     icon: BookOpenCheck,
   },
+  {
+    title: "Trial Balance",
+    url: "/ledger/trial-balance",
+    icon: BookOpenCheck,
+  },
+  {
+    title: "Profitability",
+    url: "/ledger/profitability",
+    icon: BookOpenCheck,
+  },
   {
     title: "Item Ledger",
     url: "/ledger/report-ledger",
@@ -168,6 +194,16 @@ const gateEntrySubItems = [
     url: "/posted-outward-gate-entry",
     icon: ClipboardCheck,
   },
+  {
+    title: "Freight Register",
+    url: "/freight-register",
+    icon: IndianRupee,
+  },
+  {
+    title: "Vehicle Turnaround",
+    url: "/vehicle-turnaround",
+    icon: Timer,
+  },
 ];
 
 const qcSubItems = [
@@ -181,6 +217,11 @@ const qcSubItems = [
     url: "/posted-qc-receipt",
     icon: ClipboardCheck,
   },
+  {
+    title: "Vendor Quality",
+    url: "/vendor-quality",
+    icon: Award,
+  },
 ];
 
 const settingsItems = [
@@ -203,7 +244,7 @@ export function AppSidebar({
 }: React.ComponentProps<typeof SidebarRoot>) {
   const router = useRouter();
   const pathname = usePathname();
-  const { userID, username, logout: authLogout } = useAuth();
+  const { userID, username, canAccessRoute, logout: authLogout } = useAuth();
   const { clearAuth } = useAuthStore();
   const { isMobile } = useSidebar();
 
@@ -213,6 +254,17 @@ export function AppSidebar({
     router.push("/login");
   };
 
+  // Only show navigation entries the user's role may open
+  const visibleItems = <T extends { url: string }>(items: T[]) =>
+    items.filter((item) => canAccessRoute(item.url));
+  const visibleSalesItems = visibleItems(salesSubItems);
+  const visiblePurchaseItems = visibleItems(purchaseSubItems);
+  const visibleQcItems = visibleItems(qcSubItems);
+  const visibleGateEntryItems = visibleItems(gateEntrySubItems);
+  const visibleFormsItems = visibleItems(formsItems);
+  const visibleStockTransferItems = visibleItems(stockTransferSubItems);
+  const visibleLedgerItems = visibleItems(ledgerSubItems);
+
   // Determine which navigation items to show
   const isSettingsPage =
     pathname?.startsWith("/settings") || pathname?.startsWith("/account");
@@ -252,160 +304,171 @@ export function AppSidebar({
             <SidebarGroupLabel>Forms</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                <Collapsible
-                  defaultOpen={pathname?.startsWith("/sales")}
-                  className="group/collapsible"
-                >
-                  <SidebarMenuItem>
-                    <CollapsibleTrigger asChild>
-                      <SidebarMenuButton
-                        isActive={pathname?.startsWith("/sales")}
-                        className="w-full"
-                      >
-                        <Store />
-                        <span>Sales</span>
-                        <ChevronDown className="ml-auto size-4 group-data-[state=closed]/collapsible:-rotate-90 group-data-[state=open]/collapsible:rotate-0" />
-                      </SidebarMenuButton>
-                    </CollapsibleTrigger>
-                  </SidebarMenuItem>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {salesSubItems.map((item) => (
-                        <SidebarMenuSubItem key={item.url}>
-                          <SidebarMenuSubButton
-                            asChild
-                            isActive={pathname === item.url}
-                          >
-                            <Link href={item.url}>
-                              {item.icon && <item.icon />}
-                              <span>{item.title}</span>
-                            </Link>
-                          </SidebarMenuSubButton>
-                        </SidebarMenuSubItem>
-                      ))}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </Collapsible>
-                <Collapsible
-                  defaultOpen={
-                    pathname?.startsWith("/purchase") ||
-                    pathname?.startsWith("/purchase/posted")
-                  }
-                  className="group/purchase"
-                >
-                  <SidebarMenuItem>
-                    <CollapsibleTrigger asChild>
-                      <SidebarMenuButton
-                        isActive={pathname?.startsWith("/purchase")}
-                        className="w-full"
-                      >
-                        <ShoppingCart />
-                        <span>Purchase</span>
-                        <ChevronDown className="ml-auto size-4 group-data-[state=closed]/purchase:-rotate-90 group-data-[state=open]/purchase:rotate-0" />
-                      </SidebarMenuButton>
-                    </CollapsibleTrigger>
-                  </SidebarMenuItem>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {purchaseSubItems.map((item) => (
-                        <SidebarMenuSubItem key={item.url}>
-                          <SidebarMenuSubButton
-                            asChild
-                            isActive={pathname === item.url}
-                          >
-                            <Link href={item.url}>
-                              {item.icon && <item.icon />}
-                              <span>{item.title}</span>
-                            </Link>
-                          </SidebarMenuSubButton>
-                        </SidebarMenuSubItem>
-                      ))}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </Collapsible>
-                <Collapsible
-                  defaultOpen={
-                    pathname?.startsWith("/qc-receipt") ||
-                    pathname?.startsWith("/posted-qc-receipt")
-                  }
-                  className="group/qc"
-                >
-                  <SidebarMenuItem>
-                    <CollapsibleTrigger asChild>
-                      <SidebarMenuButton
-                        isActive={
-                          pathname?.startsWith("/qc-receipt") ||
-                          pathname?.startsWith("/posted-qc-receipt")
-                        }
-                        className="w-full"
-                      >
-                        <ClipboardCheck />
-                        <span>QC Documents</span>
-                        <ChevronDown className="ml-auto size-4 group-data-[state=closed]/qc:-rotate-90 group-data-[state=open]/qc:rotate-0" />
-                      </SidebarMenuButton>
-                    </CollapsibleTrigger>
-                  </SidebarMenuItem>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {qcSubItems.map((item) => (
-                        <SidebarMenuSubItem key={item.url}>
-                          <SidebarMenuSubButton
-                            asChild
-                            isActive={pathname === item.url}
-                          >
-                            <Link href={item.url}>
-                              {item.icon && <item.icon />}
-                              <span>{item.title}</span>
-                            </Link>
-                          </SidebarMenuSubButton>
-                        </SidebarMenuSubItem>
-                      ))}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </Collapsible>
-                <Collapsible
-                  defaultOpen={
-                    pathname?.startsWith("/inward-gate-entry") ||
-                    pathname?.startsWith("/outward-gate-entry") ||
-                    pathname?.startsWith("/posted-inward-gate-entry") ||
-                    pathname?.startsWith("/posted-outward-gate-entry")
-                  }
-                  className="group/gate"
-                >
-                  <SidebarMenuItem>
-                    <CollapsibleTrigger asChild>
-                      <SidebarMenuButton
-                        isActive={
-                          pathname?.startsWith("/inward-gate-entry") ||
-                          pathname?.startsWith("/outward-gate-entry")
-                        }
-                        className="w-full"
-                      >
-                        <Truck />
-                        <span>Gate Entry</span>
-                        <ChevronDown className="ml-auto size-4 group-data-[state=closed]/gate:-rotate-90 group-data-[state=open]/gate:rotate-0" />
-                      </SidebarMenuButton>
-                    </CollapsibleTrigger>
-                  </SidebarMenuItem>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {gateEntrySubItems.map((item) => (
-                        <SidebarMenuSubItem key={item.url}>
-                          <SidebarMenuSubButton
-                            asChild
-                            isActive={pathname === item.url}
-                          >
-                            <Link href={item.url}>
-                              {item.icon && <item.icon />}
-                              <span>{item.title}</span>
-                            </Link>
-                          </SidebarMenuSubButton>
-                        </SidebarMenuSubItem>
-                      ))}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </Collapsible>
-                {formsItems.map((item) => (
+                {visibleSalesItems.length > 0 && (
+                  <Collapsible
+                    defaultOpen={pathname?.startsWith("/sales")}
+                    className="group/collapsible"
+                  >
+                    <SidebarMenuItem>
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton
+                          isActive={pathname?.startsWith("/sales")}
+                          className="w-full"
+                        >
+                          <Store />
+                          <span>Sales</span>
+                          <ChevronDown className="ml-auto size-4 group-data-[state=closed]/collapsible:-rotate-90 group-data-[state=open]/collapsible:rotate-0" />
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                    </SidebarMenuItem>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visibleSalesItems.map((item) => (
+                          <SidebarMenuSubItem key={item.url}>
+                            <SidebarMenuSubButton
+                              asChild
+                              isActive={pathname === item.url}
+                            >
+                              <Link href={item.url}>
+                                {item.icon && <item.icon />}
+                                <span>{item.title}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+                {visiblePurchaseItems.length > 0 && (
+                  <Collapsible
+                    defaultOpen={
+                      pathname?.startsWith("/purchase") ||
+                      pathname?.startsWith("/purchase/posted")
+                    }
+                    className="group/purchase"
+                  >
+                    <SidebarMenuItem>
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton
+                          isActive={pathname?.startsWith("/purchase")}
+                          className="w-full"
+                        >
+                          <ShoppingCart />
+                          <span>Purchase</span>
+                          <ChevronDown className="ml-auto size-4 group-data-[state=closed]/purchase:-rotate-90 group-data-[state=open]/purchase:rotate-0" />
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                    </SidebarMenuItem>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visiblePurchaseItems.map((item) => (
+                          <SidebarMenuSubItem key={item.url}>
+                            <SidebarMenuSubButton
+                              asChild
+                              isActive={pathname === item.url}
+                            >
+                              <Link href={item.url}>
+                                {item.icon && <item.icon />}
+                                <span>{item.title}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+                {visibleQcItems.length > 0 && (
+                  <Collapsible
+                    defaultOpen={
+                      pathname?.startsWith("/qc-receipt") ||
+                      pathname?.startsWith("/posted-qc-receipt") ||
+                      pathname?.startsWith("/vendor-quality")
+                    }
+                    className="group/qc"
+                  >
+                    <SidebarMenuItem>
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton
+                          isActive={
+                            pathname?.startsWith("/qc-receipt") ||
+                            pathname?.startsWith("/posted-qc-receipt")
+                          }
+                          className="w-full"
+                        >
+                          <ClipboardCheck />
+                          <span>QC Documents</span>
+                          <ChevronDown className="ml-auto size-4 group-data-[state=closed]/qc:-rotate-90 group-data-[state=open]/qc:rotate-0" />
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                    </SidebarMenuItem>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visibleQcItems.map((item) => (
+                          <SidebarMenuSubItem key={item.url}>
+                            <SidebarMenuSubButton
+                              asChild
+                              isActive={pathname === item.url}
+                            >
+                              <Link href={item.url}>
+                                {item.icon && <item.icon />}
+                                <span>{item.title}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+                {visibleGateEntryItems.length > 0 && (
+                  <Collapsible
+                    defaultOpen={
+                      pathname?.startsWith("/inward-gate-entry") ||
+                      pathname?.startsWith("/outward-gate-entry") ||
+                      pathname?.startsWith("/posted-inward-gate-entry") ||
+                      pathname?.startsWith("/posted-outward-gate-entry") ||
+                      pathname?.startsWith("/freight-register") ||
+                      pathname?.startsWith("/vehicle-turnaround")
+                    }
+                    className="group/gate"
+                  >
+                    <SidebarMenuItem>
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton
+                          isActive={
+                            pathname?.startsWith("/inward-gate-entry") ||
+                            pathname?.startsWith("/outward-gate-entry")
+                          }
+                          className="w-full"
+                        >
+                          <Truck />
+                          <span>Gate Entry</span>
+                          <ChevronDown className="ml-auto size-4 group-data-[state=closed]/gate:-rotate-90 group-data-[state=open]/gate:rotate-0" />
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                    </SidebarMenuItem>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visibleGateEntryItems.map((item) => (
+                          <SidebarMenuSubItem key={item.url}>
+                            <SidebarMenuSubButton
+                              asChild
+                              isActive={pathname === item.url}
+                            >
+                              <Link href={item.url}>
+                                {item.icon && <item.icon />}
+                                <span>{item.title}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+                {visibleFormsItems.map((item) => (
                   <SidebarMenuItem key={item.url}>
                     <SidebarMenuButton asChild isActive={pathname === item.url}>
                       <Link href={item.url}>
@@ -415,81 +478,85 @@ export function AppSidebar({
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                 ))}
-                <Collapsible
-                  defaultOpen={
-                    pathname?.startsWith("/transfer-orders") ||
-                    pathname?.startsWith("/posted-transfer")
-                  }
-                  className="group/stock"
-                >
-                  <SidebarMenuItem>
-                    <CollapsibleTrigger asChild>
-                      <SidebarMenuButton
-                        isActive={
-                          pathname?.startsWith("/transfer-orders") ||
-                          pathname?.startsWith("/posted-transfer")
-                        }
-                        className="w-full"
-                      >
-                        <ArrowLeftRight />
-                        <span>Stock Transfer</span>
-                        <ChevronDown className="ml-auto size-4 group-data-[state=closed]/stock:-rotate-90 group-data-[state=open]/stock:rotate-0" />
-                      </SidebarMenuButton>
-                    </CollapsibleTrigger>
-                  </SidebarMenuItem>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {stockTransferSubItems.map((item) => (
-                        <SidebarMenuSubItem key={item.url}>
-                          <SidebarMenuSubButton
-                            asChild
-                            isActive={pathname === item.url}
-                          >
-                            <Link href={item.url}>
-                              {item.icon && <item.icon />}
-                              <span>{item.title}</span>
-                            </Link>
-                          </SidebarMenuSubButton>
-                        </SidebarMenuSubItem>
-                      ))}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </Collapsible>
+                {visibleStockTransferItems.length > 0 && (
+                  <Collapsible
+                    defaultOpen={
+                      pathname?.startsWith("/transfer-orders") ||
+                      pathname?.startsWith("/posted-transfer")
+                    }
+                    className="group/stock"
+                  >
+                    <SidebarMenuItem>
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton
+                          isActive={
+                            pathname?.startsWith("/transfer-orders") ||
+                            pathname?.startsWith("/posted-transfer")
+                          }
+                          className="w-full"
+                        >
+                          <ArrowLeftRight />
+                          <span>Stock Transfer</span>
+                          <ChevronDown className="ml-auto size-4 group-data-[state=closed]/stock:-rotate-90 group-data-[state=open]/stock:rotate-0" />
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                    </SidebarMenuItem>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visibleStockTransferItems.map((item) => (
+                          <SidebarMenuSubItem key={item.url}>
+                            <SidebarMenuSubButton
+                              asChild
+                              isActive={pathname === item.url}
+                            >
+                              <Link href={item.url}>
+                                {item.icon && <item.icon />}
+                                <span>{item.title}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
 
-                <Collapsible
-                  defaultOpen={pathname?.startsWith("/ledger")}
-                  className="group/ledger"
-                >
-                  <SidebarMenuItem>
-                    <CollapsibleTrigger asChild>
-                      <SidebarMenuButton
-                        isActive={pathname?.startsWith("/ledger")}
-                        className="w-full"
-                      >
-                        <BookOpenCheck />
-                        <span>Ledger</span>
-                        <ChevronDown className="ml-auto size-4 group-data-[state=closed]/ledger:-rotate-90 group-data-[state=open]/ledger:rotate-0" />
-                      </SidebarMenuButton>
-                    </CollapsibleTrigger>
-                  </SidebarMenuItem>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {ledgerSubItems.map((item) => (
-                        <SidebarMenuSubItem key={item.url}>
-                          <SidebarMenuSubButton
-                            asChild
-                            isActive={pathname === item.url}
-                          >
-                            <Link href={item.url}>
-                              {item.icon && <item.icon />}
-                              <span>{item.title}</span>
-                            </Link>
-                          </SidebarMenuSubButton>
-                        </SidebarMenuSubItem>
-                      ))}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </Collapsible>
+                {visibleLedgerItems.length > 0 && (
+                  <Collapsible
+                    defaultOpen={pathname?.startsWith("/ledger")}
+                    className="group/ledger"
+                  >
+                    <SidebarMenuItem>
+                      <CollapsibleTrigger asChild>
+                        <SidebarMenuButton
+                          isActive={pathname?.startsWith("/ledger")}
+                          className="w-full"
+                        >
+                          <BookOpenCheck />
+                          <span>Ledger</span>
+                          <ChevronDown className="ml-auto size-4 group-data-[state=closed]/ledger:-rotate-90 group-data-[state=open]/ledger:rotate-0" />
+                        </SidebarMenuButton>
+                      </CollapsibleTrigger>
+                    </SidebarMenuItem>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visibleLedgerItems.map((item) => (
+                          <SidebarMenuSubItem key={item.url}>
+                            <SidebarMenuSubButton
+                              asChild
+                              isActive={pathname === item.url}
+                            >
+                              <Link href={item.url}>
+                                {item.icon && <item.icon />}
+                                <span>{item.title}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
@@ -522,6 +589,7 @@ export function AppSidebar({
 
       </SidebarContent>
       <SidebarFooter>
+        <SyncStatus />
         <SidebarMenu>
           <SidebarMenuItem>
             <DropdownMenu>
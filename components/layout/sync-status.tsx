@@ -0,0 +1,176 @@
+"use client";
+
+/**
+ * Sync status - sidebar entry for the offline outbox
+ * Shows a pending-sync badge and lets the user replay, retry or discard queued changes
+ */
+
+import { useState } from "react";
+import { CloudOff, RefreshCw, AlertTriangle, Trash2 } from "lucide-react";
+import {
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useOutbox } from "@/lib/offline/use-outbox";
+import type { OutboxEntry } from "@/lib/offline/types";
+
+const STATUS_BADGE: Record<
+  OutboxEntry["status"],
+  { label: string; variant: "secondary" | "destructive" | "outline" }
+> = {
+  pending: { label: "Pending", variant: "secondary" },
+  conflict: { label: "Conflict", variant: "destructive" },
+  failed: { label: "Failed", variant: "outline" },
+};
+
+export function SyncStatus() {
+  const [open, setOpen] = useState(false);
+  const {
+    entries,
+    pendingCount,
+    attentionCount,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retry,
+    discard,
+  } = useOutbox({ autoSync: true });
+
+  if (isOnline && entries.length === 0) return null;
+
+  const label = !isOnline
+    ? "Offline"
+    : attentionCount > 0
+      ? "Sync needs attention"
+      : "Pending sync";
+
+  return (
+    <>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <SidebarMenuButton onClick={() => setOpen(true)} tooltip={label}>
+            {attentionCount > 0 ? (
+              <AlertTriangle className="text-destructive" />
+            ) : isOnline ? (
+              <RefreshCw className={isSyncing ? "animate-spin" : undefined} />
+            ) : (
+              <CloudOff />
+            )}
+            <span>{label}</span>
+          </SidebarMenuButton>
+          {entries.length > 0 && (
+            <SidebarMenuBadge
+              className={
+                attentionCount > 0
+                  ? "bg-destructive/10 text-destructive"
+                  : "bg-primary/10 text-primary"
+              }
+            >
+              {entries.length}
+            </SidebarMenuBadge>
+          )}
+        </SidebarMenuItem>
+      </SidebarMenu>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Offline changes</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? "Changes recorded while offline are sent in the order they were made."
+                : "You are offline. Changes are saved on this device and will sync when the connection returns."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground py-4 text-center text-sm">
+              Nothing waiting to sync
+            </p>
+          ) : (
+            <div className="max-h-80 space-y-2 overflow-y-auto">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-start justify-between gap-3 rounded-md border p-2.5"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium">
+                        {entry.label}
+                      </span>
+                      <Badge variant={STATUS_BADGE[entry.status].variant}>
+                        {STATUS_BADGE[entry.status].label}
+                      </Badge>
+                    </div>
+                    <p className="text-muted-foreground text-xs">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                    {entry.error && (
+                      <p className="text-destructive mt-1 text-xs">
+                        {entry.error}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    {entry.status === "conflict" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!isOnline || isSyncing}
+                        onClick={() => retry(entry, true)}
+                      >
+                        Overwrite
+                      </Button>
+                    )}
+                    {entry.status === "failed" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!isOnline || isSyncing}
+                        onClick={() => retry(entry)}
+                      >
+                        Retry
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Discard"
+                      onClick={() => discard(entry.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              onClick={syncNow}
+              disabled={!isOnline || isSyncing || pendingCount === 0}
+            >
+              <RefreshCw className={isSyncing ? "animate-spin" : undefined} />
+              Sync now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GitCompare } from "lucide-react";
+import type { ApiConflict } from "@/lib/api/conflicts";
+
+export interface ConflictDialogProps {
+  conflict: ApiConflict | null;
+  onResolve: (reapply: boolean) => void;
+}
+
+interface ConflictRow {
+  field: string;
+  serverValue: unknown;
+  pendingValue: unknown;
+}
+
+/**
+ * Pairs each pending field with the server's value
+ * Payload keys are sent with a lowercase first letter, so match case-insensitively
+ */
+function buildRows(conflict: ApiConflict): ConflictRow[] {
+  const current = conflict.current ?? {};
+  const currentKeys = Object.keys(current);
+
+  return Object.entries(conflict.pending ?? {}).map(([key, value]) => {
+    const serverKey =
+      currentKeys.find((k) => k.toLowerCase() === key.toLowerCase()) ?? key;
+    return {
+      field: serverKey.replace(/_/g, " "),
+      serverValue: current[serverKey],
+      pendingValue: value,
+    };
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "-";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function ConflictDialog({ conflict, onResolve }: ConflictDialogProps) {
+  const rows = conflict ? buildRows(conflict) : [];
+  const isDelete = conflict?.method === "DELETE";
+  const isMissing = !!conflict && !conflict.current;
+
+  return (
+    <Dialog
+      open={!!conflict}
+      onOpenChange={(open) => {
+        if (!open) onResolve(false);
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-4 w-4 text-amber-500" />
+            Record changed by someone else
+          </DialogTitle>
+          <DialogDescription>
+            {isMissing
+              ? "This record no longer exists on the server, so your change cannot be applied."
+              : `${conflict?.label ? `${conflict.label} was` : "This record was"} updated after you opened it. Review the server's values before ${isDelete ? "deleting it" : "re-applying your change"}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isMissing && rows.length > 0 && (
+          <div className="max-h-72 overflow-y-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 sticky top-0">
+                <tr className="text-muted-foreground text-left text-xs">
+                  <th className="p-2 font-medium">Field</th>
+                  <th className="p-2 font-medium">Current on server</th>
+                  <th className="p-2 font-medium">Your change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const differs =
+                    formatValue(row.serverValue) !==
+                    formatValue(row.pendingValue);
+                  return (
+                    <tr key={row.field} className="border-t">
+                      <td className="p-2 font-medium">{row.field}</td>
+                      <td className="text-muted-foreground p-2">
+                        {formatValue(row.serverValue)}
+                      </td>
+                      <td
+                        className={
+                          differs
+                            ? "p-2 font-semibold text-amber-600 dark:text-amber-400"
+                            : "p-2"
+                        }
+                      >
+                        {formatValue(row.pendingValue)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(false)}>
+            {isMissing ? "Close" : "Discard my change"}
+          </Button>
+          {!isMissing && (
+            <Button
+              variant={isDelete ? "destructive" : "default"}
+              onClick={() => onResolve(true)}
+            >
+              {isDelete ? "Delete anyway" : "Re-apply my change"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+/**
+ * OData $batch builder
+ * Collects POST/PATCH/DELETE operations and sends them in one round trip
+ * using the JSON batch format. Operations in the same changeset
+ * (atomicity group) are applied all-or-nothing by the ERP.
+ *
+ * Each queued operation returns a promise that settles with that operation's
+ * own result once the batch is sent, so callers can map results back to rows:
+ *
+ *   const batch = createBatch();
+ *   const pending = lineNos.map((lineNo) => deleteLine(docNo, lineNo, batch));
+ *   const response = await batch.send();
+ *   const settled = await Promise.allSettled(pending);
+ */
+
+import { cleanApiErrorMessage } from "../errors";
+import {
+  apiRequest,
+  transformPayloadKeys,
+  type ApiError,
+} from "./client";
+import { getEntitySetName, invalidateApiCache } from "./cache";
+
+export interface BatchOperationOptions {
+  /** Correlates the operation with its result; defaults to its position */
+  id?: string;
+  /** Changeset name; operations sharing it succeed or fail together */
+  changeset?: string;
+  headers?: Record<string, string>;
+}
+
+export interface BatchOperationResult<T = unknown> {
+  id: string;
+  status: number;
+  ok: boolean;
+  body: T | null;
+  error?: ApiError;
+}
+
+export interface BatchResponse {
+  /** True when every operation succeeded */
+  ok: boolean;
+  results: BatchOperationResult[];
+  failed: BatchOperationResult[];
+  get(id: string): BatchOperationResult | undefined;
+}
+
+export interface ODataBatch {
+  readonly size: number;
+  post<T = unknown>(
+    endpoint: string,
+    data: unknown,
+    options?: BatchOperationOptions,
+  ): Promise<T>;
+  patch<T = unknown>(
+    endpoint: string,
+    data: unknown,
+    options?: BatchOperationOptions,
+  ): Promise<T>;
+  delete<T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    options?: BatchOperationOptions,
+  ): Promise<T>;
+  send(): Promise<BatchResponse>;
+}
+
+interface QueuedOperation {
+  id: string;
+  method: "POST" | "PATCH" | "DELETE";
+  endpoint: string;
+  body?: unknown;
+  headers: Record<string, string>;
+  atomicityGroup?: string;
+  resolve: (value: unknown) => void;
+  reject: (error: ApiError) => void;
+}
+
+interface JsonBatchResponse {
+  responses?: Array<{
+    id: string;
+    status: number;
+    body?: unknown;
+  }>;
+}
+
+/** Default changeset used when the whole batch is atomic */
+const DEFAULT_CHANGESET = "changeset";
+
+function toBatchError(status: number, body: unknown): ApiError {
+  const error = (body as { error?: { message?: string; code?: string } })
+    ?.error;
+  return {
+    message:
+      cleanApiErrorMessage(error?.message) ||
+      `Batch operation failed with status ${status}`,
+    status,
+    code: error?.code,
+    details: body ? JSON.stringify(body, null, 2) : undefined,
+  };
+}
+
+/**
+ * Create a batch
+ * @param atomic - put every operation without an explicit changeset into one
+ *   shared changeset (default), so a single failure rolls back the rest
+ */
+export function createBatch({ atomic = true }: { atomic?: boolean } = {}): ODataBatch {
+  const operations: QueuedOperation[] = [];
+  let sent = false;
+
+  function enqueue<T>(
+    method: QueuedOperation["method"],
+    endpoint: string,
+    body: unknown,
+    defaultHeaders: Record<string, string>,
+    options: BatchOperationOptions = {},
+  ): Promise<T> {
+    if (sent) {
+      throw new Error("Cannot add operations to a batch that was already sent");
+    }
+    const id = options.id ?? String(operations.length + 1);
+    if (operations.some((op) => op.id === id)) {
+      throw new Error(`Duplicate batch operation id "${id}"`);
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      operations.push({
+        id,
+        method,
+        endpoint,
+        body: body === undefined ? undefined : transformPayloadKeys(body),
+        headers: { ...defaultHeaders, ...options.headers },
+        atomicityGroup:
+          options.changeset ?? (atomic ? DEFAULT_CHANGESET : undefined),
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+    // Results are also reported through send(); avoid unhandled rejections
+    // when the caller only inspects the BatchResponse
+    promise.catch(() => undefined);
+    return promise;
+  }
+
+  async function send(): Promise<BatchResponse> {
+    if (sent) throw new Error("Batch was already sent");
+    sent = true;
+
+    if (operations.length === 0) {
+      return { ok: true, results: [], failed: [], get: () => undefined };
+    }
+
+    const payload = {
+      requests: operations.map((op) => ({
+        id: op.id,
+        method: op.method,
+        url: op.endpoint.replace(/^\//, ""),
+        headers: op.headers,
+        ...(op.body !== undefined ? { body: op.body } : {}),
+        ...(op.atomicityGroup ? { atomicityGroup: op.atomicityGroup } : {}),
+      })),
+    };
+
+    let response: JsonBatchResponse | null;
+    try {
+      response = await apiRequest<JsonBatchResponse>("/$batch", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        headers: { "OData-Version": "4.0" },
+        retry: false,
+      });
+    } catch (error) {
+      operations.forEach((op) => op.reject(error as ApiError));
+      throw error;
+    }
+
+    const byId = new Map(
+      (response?.responses ?? []).map((item) => [item.id, item]),
+    );
+
+    const results = operations.map<BatchOperationResult>((op) => {
+      const item = byId.get(op.id);
+      if (!item) {
+        const error: ApiError = {
+          message: "No response was returned for this operation",
+          code: "BATCH_NO_RESPONSE",
+        };
+        op.reject(error);
+        return { id: op.id, status: 0, ok: false, body: null, error };
+      }
+
+      const ok = item.status >= 200 && item.status < 300;
+      if (ok) {
+        op.resolve(item.body ?? null);
+        return { id: op.id, status: item.status, ok, body: item.body ?? null };
+      }
+
+      const error = toBatchError(item.status, item.body);
+      op.reject(error);
+      return { id: op.id, status: item.status, ok, body: null, error };
+    });
+
+    // Writes make cached reads of the touched entity sets stale
+    new Set(operations.map((op) => getEntitySetName(op.endpoint))).forEach(
+      (entitySet) => invalidateApiCache(entitySet),
+    );
+
+    const resultsById = new Map(results.map((result) => [result.id, result]));
+    const failed = results.filter((result) => !result.ok);
+    return {
+      ok: failed.length === 0,
+      results,
+      failed,
+      get: (id) => resultsById.get(id),
+    };
+  }
+
+  return {
+    get size() {
+      return operations.length;
+    },
+    post: (endpoint, data, options) =>
+      enqueue("POST", endpoint, data, { "Content-Type": "application/json" }, options),
+    patch: (endpoint, data, options) =>
+      enqueue(
+        "PATCH",
+        endpoint,
+        data,
+        { "Content-Type": "application/json", "If-Match": "*" },
+        options,
+      ),
+    delete: (endpoint, data, options) =>
+      enqueue(
+        "DELETE",
+        endpoint,
+        data,
+        data === undefined ? {} : { "Content-Type": "application/json" },
+        options,
+      ),
+    send,
+  };
+}
+
+/**
+ * Throws the first failure of a batch as an ApiError
+ * For callers that only need all-or-nothing semantics
+ */
+export function assertBatchSucceeded(response: BatchResponse): void {
+  const [first] = response.failed;
+  if (!first) return;
+  throw {
+    ...(first.error ?? { message: "Batch failed" }),
+    message:
+      response.failed.length > 1
+        ? `${first.error?.message ?? "Batch failed"} (${response.failed.length} operations failed)`
+        : first.error?.message ?? "Batch failed",
+  } as ApiError;
+}
+
+/**
+ * Send a batch and settle the promises of its queued operations
+ * Throws the first failure like assertBatchSucceeded; otherwise returns each
+ * operation's result in the order of `pending`, so they map back to rows
+ */
+export async function sendBatch<T>(
+  batch: ODataBatch,
+  pending: Promise<T>[],
+): Promise<T[]> {
+  const response = await batch.send();
+  const settled = await Promise.allSettled(pending);
+  assertBatchSucceeded(response);
+  return settled.map((result) =>
+    result.status === "fulfilled" ? result.value : (undefined as T),
+  );
+}
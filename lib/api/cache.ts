@@ -0,0 +1,109 @@
+/**
+ * Request-level cache for ERP GET calls
+ * Keyed by endpoint + query string, with per-call TTLs and in-flight deduplication
+ * Cached values are shared between callers: treat them as read-only
+ */
+
+interface CacheEntry {
+  data: unknown;
+  expiresAt: number;
+}
+
+/** Common TTLs for lookup data */
+export const CACHE_TTL = {
+  /** Search results and other fast-changing lookups */
+  SHORT: 60 * 1000, // 1 minute
+  /** Master data (dimensions, transporters, units of measure) */
+  MASTER: 5 * 60 * 1000, // 5 minutes
+  /** Setup tables that rarely change (GST groups, TDS sections) */
+  SETUP: 30 * 60 * 1000, // 30 minutes
+} as const;
+
+export interface CacheOptions {
+  /** Time to live in milliseconds */
+  ttl: number;
+}
+
+const responseCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Returns the cached value for a key, or runs the fetcher once
+ * Concurrent calls for the same key share a single request
+ */
+export async function withApiCache<T>(
+  key: string,
+  options: CacheOptions,
+  fetcher: () => Promise<T>,
+): Promise<T> {
+  const cached = responseCache.get(key);
+  if (cached) {
+    if (Date.now() < cached.expiresAt) {
+      return cached.data as T;
+    }
+    responseCache.delete(key);
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const request = fetcher()
+    .then((data) => {
+      // Skip storing if the key was invalidated while the request was in flight
+      if (inFlight.get(key) === request) {
+        responseCache.set(key, {
+          data,
+          expiresAt: Date.now() + options.ttl,
+        });
+      }
+      return data;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) {
+        inFlight.delete(key);
+      }
+    });
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Returns the OData entity set an endpoint targets
+ * e.g. "/Company('X')/VendorCard('V001')" and "/VendorCard?$top=5" → "VendorCard"
+ */
+export function getEntitySetName(endpoint: string): string {
+  const path = endpoint.split("?")[0];
+  const lastSegment = path.split("/").filter(Boolean).pop() || "";
+  return lastSegment.split("(")[0].toLowerCase();
+}
+
+/**
+ * Invalidate cached responses
+ * - no argument: clear everything (e.g. on logout)
+ * - string: every key for that entity set (e.g. "DimensionValue")
+ * - function: every key the predicate matches
+ */
+export function invalidateApiCache(
+  match?: string | ((key: string) => boolean),
+): void {
+  if (match === undefined) {
+    responseCache.clear();
+    inFlight.clear();
+    return;
+  }
+
+  const predicate =
+    typeof match === "string"
+      ? (key: string) => getEntitySetName(key) === match.toLowerCase()
+      : match;
+
+  for (const key of [...responseCache.keys()]) {
+    if (predicate(key)) responseCache.delete(key);
+  }
+  for (const key of [...inFlight.keys()]) {
+    if (predicate(key)) inFlight.delete(key);
+  }
+}
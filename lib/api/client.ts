@@ -1,26 +1,43 @@
 import { cleanApiErrorMessage } from "../errors";
+import {
+  getEntitySetName,
+  invalidateApiCache,
+  withApiCache,
+  type CacheOptions,
+} from "./cache";
+import {
+  CONFLICT_CANCELLED_CODE,
+  getConflictHandler,
+  type ConflictOptions,
+} from "./conflicts";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isIdempotentRequest,
+  isRetryableError,
+  parseRetryAfter,
+  wait,
+  type RetryOptions,
+} from "./retry";
+import type { ODataBatch } from "./batch";
+import { getAuthSession } from "../auth/storage";
+import { addOutboxEntry, isOutboxSupported } from "../offline/storage";
+import type { OfflineQueueOptions, OutboxMethod } from "../offline/types";
 /**
  * Base API client for ERP OData V4 API
- * Makes direct calls to ERP API from client
- * Uses system credentials from environment variables for Basic Auth
+ * Routes every call through the server-side proxy at /api/erp
+ * System credentials are attached by the proxy and never reach the browser
  * User credentials are stored for login validation only
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL_DEV || "";
-const API_USERNAME = process.env.NEXT_PUBLIC_API_USERNAME || "";
-const API_PASSWORD = process.env.NEXT_PUBLIC_API_PASSWORD || "";
+export const API_PROXY_BASE_URL = "/api/erp";
 
 /**
- * Creates Basic Auth header for direct API calls
- * Uses system credentials from environment variables
+ * Creates default request headers for proxied API calls
+ * Authorization is added server-side by the proxy route
  */
-function createAuthHeaders(): HeadersInit {
-  // Use system credentials from environment variables
-  const credentials = `${API_USERNAME}:${API_PASSWORD}`;
-  const encodedCredentials = btoa(credentials);
-
+function createDefaultHeaders(): HeadersInit {
   return {
-    Authorization: `Basic ${encodedCredentials}`,
     "Content-Type": "application/json",
     Accept: "application/json",
   };
@@ -38,49 +55,270 @@ export interface ApiError {
   status?: number;
   code?: string;
   details?: string;
+  /** Server-requested wait (Retry-After) in milliseconds */
+  retryAfterMs?: number;
+}
+
+/**
+ * Error code thrown when an opted-in mutation was queued in the offline outbox
+ */
+export const QUEUED_OFFLINE_CODE = "QUEUED_OFFLINE";
+
+/**
+ * Header naming a create, so the proxy forwards it to the ERP only once
+ * however often it is sent (see app/api/erp)
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export interface ApiRequestOptions extends RequestInit {
+  /** Queue the mutation in the offline outbox when the ERP cannot be reached */
+  offline?: OfflineQueueOptions;
+  /**
+   * Retry transient failures with exponential backoff
+   * Defaults to on for idempotent requests; `false` disables, `true` forces it on
+   */
+  retry?: RetryOptions | boolean;
+  /**
+   * Offer the conflict dialog when a conditional write fails with 412
+   * Defaults to on; `false` lets the 412 reach the caller
+   */
+  conflict?: ConflictOptions | false;
+}
+
+/**
+ * Whether an error means the request was queued for later sync (not lost)
+ */
+export function isQueuedOfflineError(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    (error as ApiError).code === QUEUED_OFFLINE_CODE
+  );
+}
+
+function isNetworkError(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    (error as ApiError).code === "NETWORK_ERROR"
+  );
+}
+
+/** Random hex key; randomUUID is missing outside secure contexts (plain http) */
+function createIdempotencyKey(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
 }
 
 /**
- * Makes a direct API request to ERP API
- * Uses Basic Auth from environment variables (system credentials)
+ * Records the mutation in the user's outbox and throws a QUEUED_OFFLINE error
+ * so callers can tell the user the data is saved locally
+ */
+async function queueOfflineMutation(
+  endpoint: string,
+  init: RequestInit,
+  offline: OfflineQueueOptions,
+  userID: string,
+): Promise<never> {
+  await addOutboxEntry({
+    userID,
+    label: offline.label,
+    endpoint,
+    method: (init.method || "POST").toUpperCase() as OutboxMethod,
+    body: typeof init.body === "string" ? init.body : undefined,
+    headers: { ...(init.headers as Record<string, string> | undefined) },
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+  });
+
+  throw {
+    message: `${offline.label} saved offline and will sync when the connection returns`,
+    code: QUEUED_OFFLINE_CODE,
+  } as ApiError;
+}
+
+/**
+ * Makes an API request to ERP API through the server-side proxy
+ * Query strings, ETags and error bodies are forwarded unchanged
+ * Mutations that pass `offline` are queued in the outbox when the network
+ * or the ERP server is unreachable
  */
 export async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {},
+  options: ApiRequestOptions = {},
+): Promise<T> {
+  const { offline, retry, conflict, ...init } = options;
+  // Only a signed-in user's mutations are queued, so they replay under their session
+  const queueUserID = offline ? getAuthSession()?.userID : undefined;
+  const canQueue = !!offline && !!queueUserID && isOutboxSupported();
+
+  // A create that may end up queued carries its key from the first attempt:
+  // when that attempt's response is lost, the replay must not create it again
+  if (canQueue && init.method?.toUpperCase() === "POST") {
+    init.headers = {
+      ...(init.headers as Record<string, string> | undefined),
+      [IDEMPOTENCY_KEY_HEADER]: createIdempotencyKey(),
+    };
+  }
+
+  if (canQueue && typeof navigator !== "undefined" && !navigator.onLine) {
+    return queueOfflineMutation(endpoint, init, offline, queueUserID);
+  }
+
+  try {
+    const result = await sendWithRetry<T>(endpoint, init, retry);
+    // Writes make cached reads of the same entity set stale
+    if (init.method && init.method.toUpperCase() !== "GET") {
+      invalidateApiCache(getEntitySetName(endpoint));
+    }
+    return result;
+  } catch (error) {
+    if (canQueue && isNetworkError(error)) {
+      return queueOfflineMutation(endpoint, init, offline, queueUserID);
+    }
+    if (conflict !== false && isConditionalWriteConflict(error, init)) {
+      return resolveConflict<T>(endpoint, options, error as ApiError);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends the request, retrying transient failures when the call is idempotent
+ */
+async function sendWithRetry<T>(
+  endpoint: string,
+  init: RequestInit,
+  retry: RetryOptions | boolean | undefined,
+): Promise<T> {
+  const headers = init.headers as Record<string, string> | undefined;
+  const enabled =
+    retry === undefined
+      ? isIdempotentRequest(init.method, headers)
+      : retry !== false;
+  if (!enabled) {
+    return sendRequest<T>(endpoint, init);
+  }
+
+  const retryOptions = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...(typeof retry === "object" ? retry : {}),
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(endpoint, init);
+    } catch (error) {
+      const offline = typeof navigator !== "undefined" && !navigator.onLine;
+      if (
+        attempt >= retryOptions.retries ||
+        offline ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+      await wait(
+        getRetryDelay(
+          attempt,
+          retryOptions,
+          (error as ApiError).retryAfterMs,
+        ),
+      );
+    }
+  }
+}
+
+function isConditionalWriteConflict(
+  error: unknown,
+  init: RequestInit,
+): boolean {
+  const method = (init.method || "GET").toUpperCase();
+  const ifMatch = (init.headers as Record<string, string> | undefined)?.[
+    "If-Match"
+  ];
+  return (
+    (error as ApiError)?.status === 412 &&
+    (method === "PATCH" || method === "DELETE") &&
+    !!ifMatch &&
+    ifMatch !== "*"
+  );
+}
+
+/**
+ * Shows the server's current record next to the pending change and,
+ * if the user chooses to re-apply, resends the write against the fresh ETag
+ */
+async function resolveConflict<T>(
+  endpoint: string,
+  options: ApiRequestOptions,
+  error: ApiError,
+): Promise<T> {
+  const handler = getConflictHandler();
+  if (!handler) throw error;
+
+  let current: (Record<string, unknown> & { "@odata.etag"?: string }) | null =
+    null;
+  try {
+    current = await sendRequest(endpoint, { method: "GET" });
+  } catch (fetchError) {
+    // Record was deleted meanwhile: show the conflict without server values
+    if ((fetchError as ApiError)?.status !== 404) throw error;
+  }
+
+  let pending: Record<string, unknown> | null = null;
+  if (typeof options.body === "string") {
+    try {
+      pending = JSON.parse(options.body);
+    } catch {
+      pending = null;
+    }
+  }
+
+  const reapply = await handler({
+    endpoint,
+    method: (options.method || "PATCH").toUpperCase(),
+    label: options.conflict ? options.conflict.label : undefined,
+    current,
+    pending,
+  });
+
+  if (!reapply || !current) {
+    throw {
+      ...error,
+      message: "Your change was not saved because the record was changed by someone else",
+      code: CONFLICT_CANCELLED_CODE,
+    } as ApiError;
+  }
+
+  return apiRequest<T>(endpoint, {
+    ...options,
+    headers: {
+      ...(options.headers as Record<string, string> | undefined),
+      "If-Match": current["@odata.etag"] || "*",
+    },
+  });
+}
+
+async function sendRequest<T>(
+  endpoint: string,
+  options: RequestInit,
 ): Promise<T> {
   // Ensure endpoint starts with /
   const cleanEndpoint = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
-  const url = `${API_BASE_URL}${cleanEndpoint}`;
+  const url = `${API_PROXY_BASE_URL}${cleanEndpoint}`;
 
   try {
-    let response = await fetch(url, {
+    // Redirect handling for mutations is done by the proxy against the ERP server
+    const response = await fetch(url, {
       ...options,
       headers: {
-        ...createAuthHeaders(),
+        ...createDefaultHeaders(),
         ...options.headers,
       },
     });
 
-    // Handle redirect body-stripping: 301/302 redirects convert POST→GET, losing the body.
-    // If a mutation request was redirected and failed, retry to the final URL with original method/body.
-    if (
-      response.redirected &&
-      !response.ok &&
-      options.method &&
-      ["POST", "PATCH", "PUT", "DELETE"].includes(options.method.toUpperCase())
-    ) {
-      console.warn(
-        `[API] ${options.method} was redirected (${url} → ${response.url}), retrying with body...`,
-      );
-      response = await fetch(response.url, {
-        ...options,
-        headers: {
-          ...createAuthHeaders(),
-          ...options.headers,
-        },
-      });
-    }
-
     if (!response.ok) {
       // Try to extract detailed error message from response
       let errorMessage = `API request failed: ${response.statusText}`;
@@ -135,6 +373,7 @@ export async function apiRequest<T>(
         message: cleanApiErrorMessage(errorMessage),
         status: response.status,
         code: errorCode,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
       };
 
       // Attach details to error object for access
@@ -170,7 +409,7 @@ export async function apiRequest<T>(
 /**
  * Transforms an object or array of objects such that the first letter of every key is lowercase.
  */
-function transformPayloadKeys(data: any): any {
+export function transformPayloadKeys(data: any): any {
   if (data === null || data === undefined) return data;
   if (Array.isArray(data)) return data.map(transformPayloadKeys);
   if (typeof data !== "object") return data;
@@ -185,29 +424,58 @@ function transformPayloadKeys(data: any): any {
 
 /**
  * GET request helper
+ * Pass `cache` to serve repeat calls for the same endpoint + query from memory
+ * and share one request between concurrent callers
  */
-export async function apiGet<T>(endpoint: string): Promise<T> {
+export async function apiGet<T>(
+  endpoint: string,
+  options: { cache?: CacheOptions } = {},
+): Promise<T> {
+  if (options.cache) {
+    return withApiCache(endpoint, options.cache, () =>
+      apiRequest<T>(endpoint, { method: "GET" }),
+    );
+  }
   return apiRequest<T>(endpoint, { method: "GET" });
 }
 
 /**
  * POST request helper
+ * Pass `batch` to queue the call in an OData $batch instead of sending it
  */
-export async function apiPost<T>(endpoint: string, data: unknown): Promise<T> {
+export async function apiPost<T>(
+  endpoint: string,
+  data: unknown,
+  options: { offline?: OfflineQueueOptions; batch?: ODataBatch } = {},
+): Promise<T> {
+  if (options.batch) {
+    return options.batch.post<T>(endpoint, data);
+  }
   return apiRequest<T>(endpoint, {
     method: "POST",
     body: JSON.stringify(transformPayloadKeys(data)),
+    offline: options.offline,
   });
 }
 
 /**
  * PATCH request helper
+ * Pass `batch` to queue the call in an OData $batch instead of sending it
  */
 export async function apiPatch<T>(
   endpoint: string,
   data: unknown,
-  options: { headers?: Record<string, string> } = {},
+  options: {
+    headers?: Record<string, string>;
+    offline?: OfflineQueueOptions;
+    retry?: RetryOptions | boolean;
+    conflict?: ConflictOptions | false;
+    batch?: ODataBatch;
+  } = {},
 ): Promise<T> {
+  if (options.batch) {
+    return options.batch.patch<T>(endpoint, data, { headers: options.headers });
+  }
   return apiRequest<T>(endpoint, {
     method: "PATCH",
     body: JSON.stringify(transformPayloadKeys(data)),
@@ -216,6 +484,9 @@ export async function apiPatch<T>(
       "If-Match": "*", // Default for OData PATCH requests
       ...options.headers,
     },
+    offline: options.offline,
+    retry: options.retry,
+    conflict: options.conflict,
   });
 }
 
@@ -224,18 +495,28 @@ export async function apiPatch<T>(
  * DELETE request helper
  * @param endpoint - API endpoint
  * @param data - Optional request body data
- * @param options - Optional configuration (e.g. headers)
+ * @param options - Optional configuration (e.g. headers, batch)
  */
 export async function apiDelete<T>(
   endpoint: string,
   data?: unknown,
-  options: { headers?: Record<string, string> } = {},
+  options: {
+    headers?: Record<string, string>;
+    retry?: RetryOptions | boolean;
+    conflict?: ConflictOptions | false;
+    batch?: ODataBatch;
+  } = {},
 ): Promise<T> {
-  const requestOptions: RequestInit = {
+  if (options.batch) {
+    return options.batch.delete<T>(endpoint, data, { headers: options.headers });
+  }
+  const requestOptions: ApiRequestOptions = {
     method: "DELETE",
     headers: {
       ...options.headers,
     },
+    retry: options.retry,
+    conflict: options.conflict,
   };
 
   if (data !== undefined) {
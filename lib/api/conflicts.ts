@@ -0,0 +1,45 @@
+/**
+ * ETag conflict handling
+ * When a conditional PATCH/DELETE fails with 412, apiRequest fetches the
+ * server's current record and asks the registered handler (the conflict
+ * dialog) whether to re-apply the user's change on top of it
+ */
+
+export interface ApiConflict {
+  endpoint: string;
+  method: string;
+  /** Optional description of the record (e.g. "Sales line 10000") */
+  label?: string;
+  /** Server's current record, or null if it no longer exists */
+  current: Record<string, unknown> | null;
+  /** Fields the user tried to write (null for DELETE) */
+  pending: Record<string, unknown> | null;
+}
+
+/** Resolves to true to re-apply the pending change, false to cancel */
+export type ConflictHandler = (conflict: ApiConflict) => Promise<boolean>;
+
+export interface ConflictOptions {
+  label?: string;
+}
+
+/**
+ * Error code thrown when the user cancels re-applying a conflicted change
+ */
+export const CONFLICT_CANCELLED_CODE = "CONFLICT_CANCELLED";
+
+let conflictHandler: ConflictHandler | null = null;
+
+/**
+ * Register the UI that resolves conflicts; returns an unregister function
+ */
+export function setConflictHandler(handler: ConflictHandler): () => void {
+  conflictHandler = handler;
+  return () => {
+    if (conflictHandler === handler) conflictHandler = null;
+  };
+}
+
+export function getConflictHandler(): ConflictHandler | null {
+  return conflictHandler;
+}
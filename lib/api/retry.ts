@@ -0,0 +1,87 @@
+/**
+ * Retry policy for ERP requests
+ * Idempotent calls are retried with exponential backoff on transient failures
+ * (429, 502, 503, 504 and dropped connections)
+ */
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries?: number;
+  /** Delay before the first retry; doubles on every attempt */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (also caps Retry-After) */
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 3,
+  baseDelayMs: 400,
+  maxDelayMs: 5000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Whether repeating the request cannot apply a change twice
+ * A PATCH only counts when it carries a concrete ETag: a replay after a
+ * lost response then fails with 412 instead of silently writing again
+ */
+export function isIdempotentRequest(
+  method: string | undefined,
+  headers: Record<string, string> | undefined,
+): boolean {
+  const verb = (method || "GET").toUpperCase();
+  if (verb === "GET" || verb === "HEAD" || verb === "PUT" || verb === "DELETE") {
+    return true;
+  }
+  if (verb === "PATCH") {
+    const ifMatch = headers?.["If-Match"];
+    return !!ifMatch && ifMatch !== "*";
+  }
+  return false;
+}
+
+/**
+ * Whether an ApiError is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const { status, code } = error as { status?: number; code?: string };
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+  return code === "NETWORK_ERROR";
+}
+
+/**
+ * Backoff delay for an attempt (0-based), with jitter
+ * A server-provided Retry-After wins when present
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: Required<RetryOptions>,
+  retryAfterMs?: number,
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+  const exponential = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+export function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
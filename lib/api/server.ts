@@ -0,0 +1,42 @@
+/**
+ * Server-only ERP API helpers
+ * Used by route handlers (ERP proxy, auth) to call the ERP OData V4 API
+ * System credentials are read from server-only environment variables
+ * Never import this file from client components
+ */
+
+export const ERP_API_BASE_URL =
+  process.env.ERP_API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL_DEV || "";
+const ERP_API_USERNAME = process.env.ERP_API_USERNAME || "";
+const ERP_API_PASSWORD = process.env.ERP_API_PASSWORD || "";
+
+export const ERP_COMPANY =
+  process.env.NEXT_PUBLIC_API_COMPANY || "Sampoorna Feeds Pvt. Ltd";
+
+/**
+ * Creates Basic Auth header from server-only environment variables
+ */
+export function createErpAuthHeader(): string {
+  const credentials = `${ERP_API_USERNAME}:${ERP_API_PASSWORD}`;
+  return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+/**
+ * Calls the ERP API with system credentials
+ * @param endpoint - ERP path including query string (e.g. "/Webuser?company=...")
+ */
+export async function erpFetch(
+  endpoint: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const cleanEndpoint = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", createErpAuthHeader());
+  if (!headers.has("Accept")) headers.set("Accept", "application/json");
+
+  return fetch(`${ERP_API_BASE_URL}${cleanEndpoint}`, {
+    ...init,
+    headers,
+    cache: "no-store",
+  });
+}
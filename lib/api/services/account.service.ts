@@ -4,6 +4,7 @@
  */
 
 import { apiGet } from "../client";
+import { CACHE_TTL } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 
@@ -12,6 +13,15 @@ export interface GLAccount {
   Name: string;
 }
 
+/**
+ * G/L account with its place in the chart of accounts
+ */
+export interface GLAccountDetail extends GLAccount {
+  Account_Type: string;
+  Account_Category: string;
+  Income_Balance: string;
+}
+
 const COMPANY =
   process.env.NEXT_PUBLIC_API_COMPANY || "Sampoorna Feeds Pvt. Ltd";
 
@@ -190,6 +200,51 @@ export async function getGLAccountsPage(
   return uniqueResults;
 }
 
+/**
+ * Every posting G/L account with its category, for reports across the
+ * chart of accounts. Unlike the pickers this includes accounts closed to
+ * direct posting, since they still carry entries
+ */
+export async function getPostingGLAccounts(): Promise<GLAccountDetail[]> {
+  const pageSize = 1000;
+  const accounts: GLAccountDetail[] = [];
+  for (let skip = 0; ; skip += pageSize) {
+    const query = buildODataQuery({
+      $select: "No,Name,Account_Type,Account_Category,Income_Balance",
+      $filter: "Account_Type eq 'Posting'",
+      $orderby: "No",
+      $top: pageSize,
+      $skip: skip,
+    });
+    const endpoint = `/GLAccount?company='${encodeURIComponent(COMPANY)}'&${query}`;
+    const response = await apiGet<ODataResponse<GLAccountDetail>>(endpoint, {
+      cache: { ttl: CACHE_TTL.MASTER },
+    });
+    const page = response.value || [];
+    accounts.push(...page);
+    if (page.length < pageSize) return accounts;
+  }
+}
+
+/**
+ * Get a single G/L account open to direct posting
+ * @param accountNo - G/L account number
+ */
+export async function getGLAccountByNo(
+  accountNo: string,
+): Promise<GLAccount | null> {
+  if (!accountNo) return null;
+
+  const query = buildODataQuery({
+    $select: "No,Name",
+    $filter: `${getBaseFilter()} and No eq '${escapeODataValue(accountNo)}'`,
+  });
+
+  const endpoint = `/GLAccount?company='${encodeURIComponent(COMPANY)}'&${query}`;
+  const response = await apiGet<ODataResponse<GLAccount>>(endpoint);
+  return response.value.length > 0 ? response.value[0] : null;
+}
+
 /**
  * Clear search cache
  */
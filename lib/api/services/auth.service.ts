@@ -1,22 +1,31 @@
 /**
  * Authentication API Service
  * Handles authentication-related API calls to ERP
- * Note: These are now called directly from client (for static hosting)
+ * Note: Calls go through the server-side ERP proxy (credentials stay on the server)
+ * Login/logout/session use the /api/auth routes that manage the session cookie
  */
 
-import { apiPost } from "@/lib/api/client";
+import { API_PROXY_BASE_URL, apiPost } from "@/lib/api/client";
+import type { SessionUser } from "@/lib/auth/permissions";
 
 const COMPANY =
   process.env.NEXT_PUBLIC_API_COMPANY || "Sampoorna Feeds Pvt. Ltd";
 
+const AUTH_BASE_URL = "/api/auth";
+
 export interface LoginRequest {
   userID: string;
   password: string;
+  rememberMe?: boolean;
 }
 
 export interface LoginResponse {
-  "@odata.context": string;
   value: string;
+  user?: SessionUser;
+}
+
+export interface SessionResponse {
+  user: SessionUser;
 }
 
 export interface ResetPasswordRequest {
@@ -42,28 +51,19 @@ export interface ForgotPasswordResponse {
 
 /**
  * Login user
- * Calls ERP API directly from client
- * Uses system credentials for Basic Auth, user credentials in payload
+ * Server validates credentials against ERP and, on success,
+ * issues the per-user session cookie and returns the session user
  */
 export async function loginUser(
   userID: string,
   password: string,
+  rememberMe: boolean = false,
 ): Promise<LoginResponse> {
-  const endpoint = `/API_WebVesionLoginWebuser?Company=${encodeURIComponent(COMPANY)}`;
-  const payload: LoginRequest = { userID, password };
+  const payload: LoginRequest = { userID, password, rememberMe };
 
-  // Use system credentials for Basic Auth
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL_DEV || "";
-  const API_USERNAME = process.env.NEXT_PUBLIC_API_USERNAME || "";
-  const API_PASSWORD = process.env.NEXT_PUBLIC_API_PASSWORD || "";
-  const authString = `${API_USERNAME}:${API_PASSWORD}`;
-  const encodedCredentials = btoa(authString);
-
-  const url = `${API_BASE_URL}${endpoint}`;
-  const response = await fetch(url, {
+  const response = await fetch(`${AUTH_BASE_URL}/login`, {
     method: "POST",
     headers: {
-      Authorization: `Basic ${encodedCredentials}`,
       "Content-Type": "application/json",
       Accept: "application/json",
     },
@@ -80,26 +80,51 @@ export async function loginUser(
       if (errorData.message) {
         throw new Error(errorData.message);
       }
-    } catch {
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof SyntaxError)) {
+        throw error;
+      }
       // If we can't parse error, use status text
     }
     throw new Error(`API request failed: ${response.statusText}`);
   }
 
-  if (response.status === 204) {
-    // 204 No Content - return a default response
-    return {
-      "@odata.context": "",
-      value: "OK",
-    } as LoginResponse;
+  return response.json();
+}
+
+/**
+ * Get current session
+ * Returns null when the session cookie is missing or expired
+ */
+export async function getSession(): Promise<SessionUser | null> {
+  const response = await fetch(`${AUTH_BASE_URL}/session`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+
+  if (response.status === 401) {
+    return null;
   }
 
-  return response.json();
+  if (!response.ok) {
+    throw new Error(`API request failed: ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as SessionResponse;
+  return data.user;
+}
+
+/**
+ * Logout user
+ * Clears the session cookie on the server
+ */
+export async function logoutUser(): Promise<void> {
+  await fetch(`${AUTH_BASE_URL}/logout`, { method: "POST" });
 }
 
 /**
  * Reset password
- * Calls ERP API directly from client using stored credentials
+ * Calls ERP API through the server-side proxy
  */
 export async function resetPassword(
   userID: string,
@@ -113,8 +138,8 @@ export async function resetPassword(
 
 /**
  * Forgot password
- * Calls ERP API directly from client
- * Uses system credentials for Basic Auth
+ * Calls ERP API through the server-side proxy
+ * Proxy adds system credentials for Basic Auth
  */
 export async function forgotPassword(
   userID: string,
@@ -123,18 +148,11 @@ export async function forgotPassword(
   const endpoint = `/API_ForgetPasswordForWebUser?Company=${encodeURIComponent(COMPANY)}`;
   const payload: ForgotPasswordRequest = { userID, registredModileNo };
 
-  // Use system credentials for Basic Auth
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL_DEV || "";
-  const API_USERNAME = process.env.NEXT_PUBLIC_API_USERNAME || "";
-  const API_PASSWORD = process.env.NEXT_PUBLIC_API_PASSWORD || "";
-  const authString = `${API_USERNAME}:${API_PASSWORD}`;
-  const encodedCredentials = btoa(authString);
-
-  const url = `${API_BASE_URL}${endpoint}`;
+  // System credentials for Basic Auth are attached by the proxy
+  const url = `${API_PROXY_BASE_URL}${endpoint}`;
   const response = await fetch(url, {
     method: "POST",
     headers: {
-      Authorization: `Basic ${encodedCredentials}`,
       "Content-Type": "application/json",
       Accept: "application/json",
     },
@@ -92,6 +92,7 @@ export async function updateBardanaLine(
   try {
     await apiPatch(endpoint, transformedData, {
       headers: { "If-Match": etag },
+      conflict: { label: `Bardana line ${line.Line_No}` },
     });
   } catch (error: any) {
     console.error("Error updating bardana line:", error);
@@ -1,8 +1,16 @@
+/**
+ * Customer Ledger API Service
+ * Handles fetching customer ledger entries from ERP OData V4 API
+ */
+
 import { apiGet, apiPost } from "../client";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
+import type { FilterCondition } from "@/components/forms/report-ledger/types";
 
 const COMPANY = process.env.NEXT_PUBLIC_API_COMPANY || "Sampoorna Feeds Pvt. Ltd";
+// Whether aggregation ($apply) is supported by the ERP endpoint
+let aggregationSupported = true;
 
 export interface CustomerLedgerEntry {
   "@odata.etag"?: string;
@@ -25,6 +33,349 @@ export interface CustomerLedgerEntry {
   [key: string]: unknown;
 }
 
+export interface CustomerLedgerFilters {
+  fromDate?: string;
+  toDate?: string;
+  customerNo?: string;
+  isOutstanding?: boolean;
+  search?: string;
+  columnFilters?: Record<string, string>;
+  additionalFilters?: FilterCondition[];
+  sortField?: string;
+  sortOrder?: "asc" | "desc";
+}
+
+/**
+ * Get customer ledger entries with optional filters
+ */
+export async function getCustomerLedgerEntries(
+  filters: CustomerLedgerFilters,
+  top: number = 50,
+  skip: number = 0,
+): Promise<ODataResponse<CustomerLedgerEntry>> {
+  // Search one field per request; the ERP rejects "or" across some flow fields
+  if (filters.search && filters.search.trim() !== "") {
+    return await searchCustomerLedgerEntries(filters, top, skip);
+  }
+
+  const filterString = buildCustomerFilterString(filters);
+  const orderby = filters.sortField
+    ? `${filters.sortField} ${filters.sortOrder || "asc"}`
+    : "Posting_Date desc, Entry_No desc";
+
+  const query = buildODataQuery({
+    $filter: filterString || undefined,
+    $orderby: orderby,
+    $top: top,
+    $skip: skip,
+    $count: true,
+  });
+
+  const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${query}`;
+  return await apiGet<ODataResponse<CustomerLedgerEntry>>(endpoint);
+}
+
+/**
+ * Parallel search strategy, as for the vendor ledger: one query per field,
+ * merged and paged here
+ */
+async function searchCustomerLedgerEntries(
+  filters: CustomerLedgerFilters,
+  top: number,
+  skip: number,
+): Promise<ODataResponse<CustomerLedgerEntry>> {
+  const { search, ...rest } = filters;
+  const escaped = (search || "").replace(/'/g, "''");
+  const fieldsToSearch = ["Document_No", "External_Document_No", "CustomerName", "Description"];
+  const baseFilter = buildCustomerFilterString(rest);
+  const orderby = filters.sortField
+    ? `${filters.sortField} ${filters.sortOrder || "asc"}`
+    : "Posting_Date desc, Entry_No desc";
+
+  const responses = await Promise.all(
+    fieldsToSearch.map(async (field) => {
+      const fieldFilter = `contains(${field},'${escaped}')`;
+      const query = buildODataQuery({
+        $filter: baseFilter ? `(${baseFilter}) and (${fieldFilter})` : fieldFilter,
+        $orderby: orderby,
+        $top: top + skip,
+        $count: false,
+      });
+
+      const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${query}`;
+      try {
+        const res = await apiGet<ODataResponse<CustomerLedgerEntry>>(endpoint);
+        return res.value || [];
+      } catch (err) {
+        console.warn(`Search failed for ${field}:`, err);
+        return [];
+      }
+    }),
+  );
+
+  const entryMap = new Map<number, CustomerLedgerEntry>();
+  responses.forEach((entries) => {
+    entries.forEach((e) => entryMap.set(e.Entry_No, e));
+  });
+
+  const allResults = Array.from(entryMap.values());
+  const field = filters.sortField || "Posting_Date";
+  const order = filters.sortOrder || "desc";
+  allResults.sort((a, b) => {
+    const valA = a[field] as string | number;
+    const valB = b[field] as string | number;
+    if (valA < valB) return order === "asc" ? -1 : 1;
+    if (valA > valB) return order === "asc" ? 1 : -1;
+    return 0;
+  });
+
+  return {
+    value: allResults.slice(skip, skip + top),
+    "@odata.count": allResults.length,
+    "@odata.context": "",
+  };
+}
+
+/**
+ * Builds OData filter string from CustomerLedgerFilters
+ */
+export function buildCustomerFilterString(filters: CustomerLedgerFilters): string {
+  const filterParts: string[] = [];
+
+  if (filters.customerNo) {
+    filterParts.push(`Customer_No eq '${filters.customerNo.replace(/'/g, "''")}'`);
+  }
+
+  if (filters.fromDate && filters.toDate) {
+    filterParts.push(`Posting_Date ge ${filters.fromDate} and Posting_Date le ${filters.toDate}`);
+  } else if (filters.fromDate) {
+    filterParts.push(`Posting_Date ge ${filters.fromDate}`);
+  } else if (filters.toDate) {
+    filterParts.push(`Posting_Date le ${filters.toDate}`);
+  }
+
+  if (filters.isOutstanding) {
+    filterParts.push(`Remaining_Amount ne 0`);
+    filterParts.push(`Open eq true`);
+  }
+
+  // Dynamic Filter Builder conditions
+  filters.additionalFilters?.forEach((f) => {
+    const v = f.value.replace(/'/g, "''");
+    if (f.operator === "startswith") {
+      filterParts.push(`startswith(${f.field},'${v}')`);
+    } else if (f.operator === "endswith") {
+      filterParts.push(`endswith(${f.field},'${v}')`);
+    } else if (f.type === "number" || f.type === "boolean") {
+      filterParts.push(`${f.field} ${f.operator} ${f.value}`);
+    } else {
+      filterParts.push(`${f.field} ${f.operator} '${v}'`);
+    }
+  });
+
+  // Column header filters
+  Object.entries(filters.columnFilters || {}).forEach(([field, value]) => {
+    if (!value) return;
+    const s = value.toString().replace(/'/g, "''");
+
+    // Prefixed numeric operators (eq:100, gt:50, lt:200)
+    if (s.includes(":") && !s.includes("/")) {
+      const [op, val] = s.split(":");
+      if (["eq", "ne", "gt", "ge", "lt", "le"].includes(op)) {
+        if (val) filterParts.push(`${field} ${op} ${val}`);
+        return;
+      }
+    }
+
+    // Ranges (min,max) or multi-select
+    if (s.includes(",")) {
+      const parts = s.split(",");
+      const isRange =
+        parts.length === 2 &&
+        (field.toLowerCase().includes("date") ||
+          (!isNaN(Number(parts[0])) && !isNaN(Number(parts[1]))));
+      if (isRange) {
+        const [start, end] = parts;
+        if (start) filterParts.push(`${field} ge ${start}`);
+        if (end) filterParts.push(`${field} le ${end}`);
+      } else {
+        const orParts = parts.filter(Boolean).map((p) => `contains(${field},'${p}')`);
+        if (orParts.length > 0) filterParts.push(`(${orParts.join(" or ")})`);
+      }
+      return;
+    }
+
+    const isNumericValue = !isNaN(Number(s)) && s.trim() !== "";
+    const isDateField = field.toLowerCase().includes("date");
+    const isCodeField = field.toLowerCase().includes("no") && field !== "Entry_No";
+
+    if (isNumericValue && !isDateField && !isCodeField) {
+      filterParts.push(`${field} eq ${s}`);
+    } else if (s.toLowerCase() === "true" || s.toLowerCase() === "false") {
+      filterParts.push(`${field} eq ${s.toLowerCase()}`);
+    } else {
+      filterParts.push(`contains(${field},'${s}')`);
+    }
+  });
+
+  return filterParts.join(" and ");
+}
+
+/**
+ * Builds human readable filter descriptions
+ */
+export function buildHumanReadableCustomerFilters(filters: CustomerLedgerFilters): string[] {
+  const lines: string[] = [];
+
+  if (filters.customerNo) {
+    lines.push(`Customer No: ${filters.customerNo}`);
+  }
+
+  if (filters.fromDate && filters.toDate) {
+    lines.push(`Date Range: ${filters.fromDate} to ${filters.toDate}`);
+  } else if (filters.fromDate) {
+    lines.push(`Date From: ${filters.fromDate}`);
+  } else if (filters.toDate) {
+    lines.push(`Date To: ${filters.toDate}`);
+  }
+
+  if (filters.isOutstanding) {
+    lines.push(`Outstanding Only`);
+  }
+
+  if (filters.search) {
+    lines.push(`Search: "${filters.search}"`);
+  }
+
+  filters.additionalFilters?.forEach((f) => {
+    lines.push(`${f.field.replace(/_/g, " ")} ${f.operator} ${f.value}`);
+  });
+
+  return lines;
+}
+
+function entryAmount(entry: Partial<CustomerLedgerEntry>): number {
+  if (typeof entry.Amount_LCY !== "undefined") return Number(entry.Amount_LCY) || 0;
+  if (typeof entry.Amount !== "undefined") return Number(entry.Amount) || 0;
+  return (Number(entry.Debit_Amount) || 0) - (Number(entry.Credit_Amount) || 0);
+}
+
+/**
+ * Get opening or closing balance for a customer
+ */
+export async function getCustomerBalance(
+  customerNo: string,
+  date?: string, // If provided, balance up to this date (lt/le). If omitted, total balance.
+  isOpening: boolean = false,
+): Promise<number> {
+  if (!customerNo) return 0;
+
+  const filterParts: string[] = [`Customer_No eq '${customerNo.replace(/'/g, "''")}'`];
+  if (date) {
+    filterParts.push(`Posting_Date ${isOpening ? "lt" : "le"} ${date}`);
+  }
+  const $filter = filterParts.join(" and ");
+
+  try {
+    if (aggregationSupported) {
+      const aggregationQuery = buildODataQuery({
+        $filter,
+        $apply: "aggregate(Amount with sum as TotalAmount)",
+      });
+      const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${aggregationQuery}`;
+      const response = await apiGet<{ value?: Array<{ TotalAmount?: number }> }>(endpoint);
+      if (typeof response?.value?.[0]?.TotalAmount !== "undefined") {
+        return Number(response.value[0].TotalAmount) || 0;
+      }
+    }
+    throw new Error("Aggregation not supported or returned invalid structure");
+  } catch (error) {
+    if (aggregationSupported) {
+      console.warn("Aggregation failed, disabling for this session", error);
+      aggregationSupported = false;
+    }
+
+    const fallbackQuery = buildODataQuery({
+      $filter,
+      $select: "Amount,Debit_Amount,Credit_Amount,Amount_LCY",
+      $top: 10000,
+    });
+    const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${fallbackQuery}`;
+    const response = await apiGet<ODataResponse<CustomerLedgerEntry>>(endpoint);
+    return (response?.value || []).reduce((sum, entry) => sum + entryAmount(entry), 0);
+  }
+}
+
+/**
+ * Get total debit and credit sums for a customer based on current filters
+ */
+export async function getCustomerLedgerSums(
+  filters: CustomerLedgerFilters,
+): Promise<{ debitSum: number; creditSum: number }> {
+  if (!filters.customerNo) return { debitSum: 0, creditSum: 0 };
+
+  const $filter = buildCustomerFilterString(filters) || undefined;
+
+  try {
+    if (aggregationSupported) {
+      const aggregationQuery = buildODataQuery({
+        $filter,
+        $apply: "aggregate(Debit_Amount with sum as TotalDebit, Credit_Amount with sum as TotalCredit)",
+      });
+      const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${aggregationQuery}`;
+      const response = await apiGet<{
+        value?: Array<{ TotalDebit?: number; TotalCredit?: number }>;
+      }>(endpoint);
+      const totals = response?.value?.[0];
+      if (totals && (typeof totals.TotalDebit !== "undefined" || typeof totals.TotalCredit !== "undefined")) {
+        return {
+          debitSum: Number(totals.TotalDebit) || 0,
+          creditSum: Number(totals.TotalCredit) || 0,
+        };
+      }
+    }
+    throw new Error("Invalid or empty aggregation response");
+  } catch (error) {
+    if (aggregationSupported) {
+      console.warn("Aggregation failed for sums, disabling for this session", error);
+      aggregationSupported = false;
+    }
+
+    const fallbackQuery = buildODataQuery({
+      $filter,
+      $select: "Debit_Amount,Credit_Amount",
+      $top: 50000,
+    });
+    const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${fallbackQuery}`;
+    const response = await apiGet<ODataResponse<CustomerLedgerEntry>>(endpoint);
+    return (response?.value || []).reduce(
+      (acc, entry) => ({
+        debitSum: acc.debitSum + (Number(entry.Debit_Amount) || 0),
+        creditSum: acc.creditSum + (Number(entry.Credit_Amount) || 0),
+      }),
+      { debitSum: 0, creditSum: 0 },
+    );
+  }
+}
+
+/**
+ * Get customer ledger entries with custom OData params
+ */
+export async function getCustomerLedgerEntriesRaw(
+  params: {
+    $filter?: string;
+    $select?: string;
+    $orderby?: string;
+    $top?: number;
+    $skip?: number;
+    $count?: boolean;
+  } = {},
+): Promise<ODataResponse<CustomerLedgerEntry>> {
+  const query = buildODataQuery(params);
+  const endpoint = `/CustomerLedgerEntry?company='${encodeURIComponent(COMPANY)}'&${query}`;
+  return await apiGet<ODataResponse<CustomerLedgerEntry>>(endpoint);
+}
+
 export async function getCustomerLedgerEntriesForDialog(opts: {
   customerNo?: string;
   skip?: number;
@@ -4,6 +4,7 @@
  */
 
 import { apiGet } from "../client";
+import { CACHE_TTL, invalidateApiCache } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 
@@ -79,7 +80,9 @@ export async function getBranches(search?: string): Promise<DimensionValue[]> {
   });
 
   const endpoint = `/DimensionValue?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<DimensionValue>>(endpoint);
+  const response = await apiGet<ODataResponse<DimensionValue>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value;
 }
 
@@ -126,7 +129,9 @@ export async function getLOBs(): Promise<DimensionValue[]> {
   });
 
   const endpoint = `/DimensionValue?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<DimensionValue>>(endpoint);
+  const response = await apiGet<ODataResponse<DimensionValue>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value;
 }
 
@@ -150,7 +155,9 @@ export async function getLOCs(search?: string): Promise<DimensionValue[]> {
   });
 
   const endpoint = `/DimensionValue?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<DimensionValue>>(endpoint);
+  const response = await apiGet<ODataResponse<DimensionValue>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value;
 }
 
@@ -315,6 +322,7 @@ export async function getAssignmentsPage(
  */
 export function clearDimensionCache(): void {
   searchCache.clear();
+  invalidateApiCache("DimensionValue");
 }
 
 /**
@@ -328,24 +336,12 @@ export interface WebUserSetup {
   LOC_Code: string;
 }
 
-// Cache for WebUserSetup data to prevent redundant API calls
-const webUserSetupCache = new Map<
-  string,
-  { data: WebUserSetup[]; timestamp: number }
->();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 /**
  * Get WebUserSetup data for a specific user
+ * Cached per user; concurrent selects share one request
  * @param userId - User ID (required)
  */
 export async function getWebUserSetup(userId: string): Promise<WebUserSetup[]> {
-  // Check cache first
-  const cached = webUserSetupCache.get(userId);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached.data;
-  }
-
   const query = buildODataQuery({
     $select: "User_Name,LOB,Branch_Code,Branch_Name,LOC_Code",
     $filter: `User_name eq '${userId}'`,
@@ -353,13 +349,10 @@ export async function getWebUserSetup(userId: string): Promise<WebUserSetup[]> {
   const endpoint = `/WebUserSetup?company='${encodeURIComponent(COMPANY)}'&${query}`;
 
   try {
-    const response = await apiGet<ODataResponse<WebUserSetup>>(endpoint);
-    const data = response.value || [];
-
-    // Cache the result
-    webUserSetupCache.set(userId, { data, timestamp: Date.now() });
-
-    return data;
+    const response = await apiGet<ODataResponse<WebUserSetup>>(endpoint, {
+      cache: { ttl: CACHE_TTL.MASTER },
+    });
+    return response.value || [];
   } catch (error: any) {
     if (error?.status === 404) {
       console.warn(
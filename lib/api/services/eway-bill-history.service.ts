@@ -0,0 +1,58 @@
+/**
+ * E-Way Bill History API Service
+ * Part-B updates are recorded by the
+ * /api/eway-bill-history route, since the ERP keeps only the latest values
+ */
+
+import type { DocType } from "./eway-einvoice.service";
+import type { EWayBillChange, NewEWayBillChange } from "@/lib/eway-bill/types";
+
+const EWAY_BILL_HISTORY_URL = "/api/eway-bill-history";
+
+async function readResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = `API request failed: ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      message = errorData.error?.message || message;
+    } catch {
+      // Keep the status text
+    }
+    throw new Error(message);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Get the recorded changes of a document's e-way bill, newest first
+ */
+export async function getEWayBillHistory(
+  docType: DocType,
+  docNo: string,
+): Promise<EWayBillChange[]> {
+  const params = new URLSearchParams({ docType, docNo });
+  const response = await fetch(`${EWAY_BILL_HISTORY_URL}?${params}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+  const data = await readResponse<{ changes: EWayBillChange[] }>(response);
+  return data.changes;
+}
+
+/**
+ * Record a Part-B update against the document
+ */
+export async function recordEWayBillChange(
+  change: NewEWayBillChange,
+): Promise<EWayBillChange> {
+  const response = await fetch(EWAY_BILL_HISTORY_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify(change),
+  });
+  const data = await readResponse<{ change: EWayBillChange }>(response);
+  return data.change;
+}
@@ -0,0 +1,63 @@
+/**
+ * Freight Invoice API Service
+ * The invoice each gate entry's freight was billed on is recorded by the
+ * /api/freight-invoices route, since the gate entry has no field for it
+ */
+
+import type { FreightInvoiceMark } from "@/lib/freight/types";
+
+const FREIGHT_INVOICES_URL = "/api/freight-invoices";
+
+async function readResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = `API request failed: ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      message = errorData.error?.message || message;
+    } catch {
+      // Keep the status text
+    }
+    throw new Error(message);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Get the invoice marks of the given gate entries; entries not invoiced are left out
+ */
+export async function getFreightInvoiceMarks(
+  entryKeys: string[],
+): Promise<FreightInvoiceMark[]> {
+  if (entryKeys.length === 0) return [];
+  const response = await fetch(`${FREIGHT_INVOICES_URL}/lookup`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ entryKeys }),
+    cache: "no-store",
+  });
+  const data = await readResponse<{ marks: FreightInvoiceMark[] }>(response);
+  return data.marks;
+}
+
+/**
+ * Record the invoice against its gate entries
+ * Fails when any of them was already invoiced
+ */
+export async function recordFreightInvoice(
+  invoiceNo: string,
+  entryKeys: string[],
+): Promise<FreightInvoiceMark[]> {
+  const response = await fetch(FREIGHT_INVOICES_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ invoiceNo, entryKeys }),
+  });
+  const data = await readResponse<{ marks: FreightInvoiceMark[] }>(response);
+  return data.marks;
+}
@@ -239,6 +239,113 @@ export async function getGLEntrySums(
   }
 }
 
+export interface GLAccountTotals {
+  accountNo: string;
+  amount: number;
+  debit: number;
+  credit: number;
+}
+
+export interface GLGroupTotals {
+  /** Value of each grouping field */
+  keys: Record<string, string>;
+  amount: number;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * Sum entries matching the filters per combination of the given fields.
+ * Falls back to paging through the entries when aggregation is not
+ * available; `truncated` is set if that stopped before the last entry
+ */
+export async function getGLTotalsGrouped(
+  filters: GLEntryFilters,
+  groupFields: string[]
+): Promise<{ totals: GLGroupTotals[]; truncated: boolean }> {
+  const filterString = buildGLFilterString(filters);
+  const pickKeys = (row: any) =>
+    Object.fromEntries(groupFields.map((field) => [field, String(row[field] ?? "")]));
+
+  try {
+    const aggregationQuery = buildODataQuery({
+      $filter: filterString || undefined,
+      $apply:
+        `groupby((${groupFields.join(",")}),aggregate(Amount with sum as TotalAmount,Debit_Amount with sum as TotalDebit,Credit_Amount with sum as TotalCredit))`,
+    });
+
+    const endpoint = `/GLEntry?company='${encodeURIComponent(COMPANY)}'&${aggregationQuery}`;
+    const response = await apiGet<any>(endpoint);
+
+    if (Array.isArray(response?.value) &&
+        response.value.every((row: any) => typeof row[groupFields[0]] !== 'undefined')) {
+      return {
+        totals: response.value.map((row: any) => ({
+          keys: pickKeys(row),
+          amount: Number(row.TotalAmount) || 0,
+          debit: Number(row.TotalDebit) || 0,
+          credit: Number(row.TotalCredit) || 0,
+        })),
+        truncated: false,
+      };
+    }
+    throw new Error("Invalid aggregation response");
+  } catch (error) {
+    console.warn("Aggregation failed for grouped GL totals, falling back to manual sum", error);
+
+    const pageSize = 5000;
+    const maxEntries = 100000;
+    const groups = new Map<string, GLGroupTotals>();
+
+    for (let skip = 0; skip < maxEntries; skip += pageSize) {
+      const fallbackQuery = buildODataQuery({
+        $filter: filterString || undefined,
+        $select: ["Entry_No", ...groupFields, "Amount", "Debit_Amount", "Credit_Amount"].join(","),
+        $orderby: "Entry_No asc",
+        $top: pageSize,
+        $skip: skip,
+      });
+
+      const endpoint = `/GLEntry?company='${encodeURIComponent(COMPANY)}'&${fallbackQuery}`;
+      const response = await apiGet<ODataResponse<GLEntry>>(endpoint);
+      const page = response?.value || [];
+
+      page.forEach((entry) => {
+        const keys = pickKeys(entry);
+        const groupKey = groupFields.map((field) => keys[field]).join("\u0000");
+        const totals = groups.get(groupKey) ?? { keys, amount: 0, debit: 0, credit: 0 };
+        totals.amount += Number(entry.Amount) || 0;
+        totals.debit += Number(entry.Debit_Amount) || 0;
+        totals.credit += Number(entry.Credit_Amount) || 0;
+        groups.set(groupKey, totals);
+      });
+
+      if (page.length < pageSize) {
+        return { totals: Array.from(groups.values()), truncated: false };
+      }
+    }
+    return { totals: Array.from(groups.values()), truncated: true };
+  }
+}
+
+/**
+ * Sum entries matching the filters per G/L account
+ */
+export async function getGLTotalsByAccount(
+  filters: GLEntryFilters
+): Promise<{ totals: GLAccountTotals[]; truncated: boolean }> {
+  const { totals, truncated } = await getGLTotalsGrouped(filters, ["G_L_Account_No"]);
+  return {
+    totals: totals.map(({ keys, amount, debit, credit }) => ({
+      accountNo: keys.G_L_Account_No,
+      amount,
+      debit,
+      credit,
+    })),
+    truncated,
+  };
+}
+
 /**
  * Parallel search strategy to overcome "OR on distinct fields" limitation.
  * Executes concurrent queries for different fields and merges results.
@@ -175,7 +175,9 @@ export async function getInwardGateEntryLines(gateEntryNo: string, entryType: st
 export async function createInwardGateEntryHeader(data: Partial<InwardGateEntryHeader>): Promise<InwardGateEntryHeader> {
   const encodedCompany = encodeURIComponent(COMPANY);
   const endpoint = `/InwardGateEntry?company='${encodedCompany}'`;
-  return apiPost<InwardGateEntryHeader>(endpoint, data);
+  return apiPost<InwardGateEntryHeader>(endpoint, data, {
+    offline: { label: "Inward Gate Entry" },
+  });
 }
 
 export async function updateInwardGateEntryHeader(gateEntryNo: string, entryType: string, data: Partial<InwardGateEntryHeader>): Promise<InwardGateEntryHeader> {
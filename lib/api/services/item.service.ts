@@ -4,6 +4,7 @@
  */
 
 import { apiGet } from "../client";
+import { CACHE_TTL } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 
@@ -354,7 +355,9 @@ export async function getItemUnitOfMeasures(
   });
 
   const endpoint = `/ItemUnitofMeasure?Company=${encodeURIComponent(COMPANY)}&${query}`;
-  const response = await apiGet<ODataResponse<ItemUnitOfMeasure>>(endpoint);
+  const response = await apiGet<ODataResponse<ItemUnitOfMeasure>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value;
 }
 
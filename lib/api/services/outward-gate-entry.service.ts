@@ -175,7 +175,9 @@ export async function getOutwardGateEntryLines(gateEntryNo: string, entryType: s
 export async function createOutwardGateEntryHeader(data: Partial<OutwardGateEntryHeader>): Promise<OutwardGateEntryHeader> {
   const encodedCompany = encodeURIComponent(COMPANY);
   const endpoint = `/OutwardgateentryH?company='${encodedCompany}'`;
-  return apiPost<OutwardGateEntryHeader>(endpoint, data);
+  return apiPost<OutwardGateEntryHeader>(endpoint, data, {
+    offline: { label: "Outward Gate Entry" },
+  });
 }
 
 export async function updateOutwardGateEntryHeader(gateEntryNo: string, entryType: string, data: Partial<OutwardGateEntryHeader>): Promise<OutwardGateEntryHeader> {
@@ -14,6 +14,8 @@ export interface PostedPurchaseHeader {
   Posting_Date?: string;
   Document_Date?: string;
   Location_Code?: string;
+  /** When the receipt was posted, to the second */
+  SystemCreatedAt?: string;
   [key: string]: unknown;
 }
 
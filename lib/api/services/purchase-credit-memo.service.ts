@@ -4,6 +4,7 @@
  */
 
 import type { ApiError } from "../client";
+import type { ODataBatch } from "../batch";
 import type {
   PurchaseOrderData,
   PurchaseOrderLineItem,
@@ -153,9 +154,10 @@ export async function updateSinglePurchaseCreditMemoLine(
 export async function deleteSinglePurchaseCreditMemoLine(
   documentNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<void> {
   try {
-    await deleteSinglePurchaseDocumentLine("credit-memo", documentNo, lineNo);
+    await deleteSinglePurchaseDocumentLine("credit-memo", documentNo, lineNo, batch);
   } catch (error) {
     console.error("Error deleting purchase credit memo line:", error);
     throw error as ApiError;
@@ -169,6 +171,6 @@ export async function addPurchaseCreditMemoLineItems(
   documentNo: string,
   lineItems: PurchaseOrderLineItem[],
   _locationCode: string,
-): Promise<void> {
-  await addPurchaseDocumentLineItems("credit-memo", documentNo, lineItems);
+): Promise<{ Line_No: number; [key: string]: unknown }[]> {
+  return addPurchaseDocumentLineItems("credit-memo", documentNo, lineItems);
 }
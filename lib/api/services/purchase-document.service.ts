@@ -4,6 +4,7 @@
  */
 
 import { apiDelete, apiGet, apiPatch, apiPost } from "../client";
+import { createBatch, sendBatch, type ODataBatch } from "../batch";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 import type {
@@ -234,6 +235,7 @@ export async function addSinglePurchaseDocumentLine(
   documentType: PurchaseDocumentAdapterType,
   documentNo: string,
   lineItem: PurchaseOrderLineItem,
+  batch?: ODataBatch,
 ): Promise<{ Line_No: number;[key: string]: unknown }> {
   const config = PURCHASE_DOCUMENT_ADAPTER_CONFIG[documentType];
   const endpoint = `/${config.lineEntity}?company='${encodeURIComponent(COMPANY)}'`;
@@ -246,6 +248,7 @@ export async function addSinglePurchaseDocumentLine(
   return apiPost<{ Line_No: number;[key: string]: unknown }>(
     endpoint,
     payload,
+    { batch },
   );
 }
 
@@ -270,12 +273,13 @@ export async function deleteSinglePurchaseDocumentLine(
   documentType: PurchaseDocumentAdapterType,
   documentNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<void> {
   const config = PURCHASE_DOCUMENT_ADAPTER_CONFIG[documentType];
   const escapedNo = documentNo.replace(/'/g, "''");
   const endpoint = `/${config.lineEntity}(Document_Type='${config.documentTypeValue}',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
 
-  await apiDelete(endpoint);
+  await apiDelete(endpoint, undefined, { batch });
 }
 
 export async function patchPurchaseDocumentLineByKey(
@@ -283,20 +287,23 @@ export async function patchPurchaseDocumentLineByKey(
   documentNo: string,
   lineNo: number,
   body: Record<string, unknown>,
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const config = PURCHASE_DOCUMENT_ADAPTER_CONFIG[documentType];
   const escapedNo = documentNo.replace(/'/g, "''");
   const endpoint = `/${config.lineEntity}(Document_Type='${config.documentTypeValue}',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
   const payload = toUpperCaseValues(stripNullish(body), ["Document_Type", "Type"]);
-  return apiPatch<unknown>(endpoint, payload);
+  return apiPatch<unknown>(endpoint, payload, { batch });
 }
 
 export async function addPurchaseDocumentLineItems(
   documentType: PurchaseDocumentAdapterType,
   documentNo: string,
   lineItems: PurchaseOrderLineItem[],
-): Promise<void> {
-  for (const lineItem of lineItems) {
-    await addSinglePurchaseDocumentLine(documentType, documentNo, lineItem);
-  }
+): Promise<{ Line_No: number;[key: string]: unknown }[]> {
+  const batch = createBatch();
+  const pending = lineItems.map((lineItem) =>
+    addSinglePurchaseDocumentLine(documentType, documentNo, lineItem, batch),
+  );
+  return sendBatch(batch, pending);
 }
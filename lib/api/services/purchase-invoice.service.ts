@@ -4,6 +4,7 @@
  */
 
 import type { ApiError } from "../client";
+import type { ODataBatch } from "../batch";
 import type {
   PurchaseOrderData,
   PurchaseOrderLineItem,
@@ -149,9 +150,10 @@ export async function updateSinglePurchaseInvoiceLine(
 export async function deleteSinglePurchaseInvoiceLine(
   documentNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<void> {
   try {
-    await deleteSinglePurchaseDocumentLine("invoice", documentNo, lineNo);
+    await deleteSinglePurchaseDocumentLine("invoice", documentNo, lineNo, batch);
   } catch (error) {
     console.error("Error deleting purchase invoice line:", error);
     throw error as ApiError;
@@ -165,6 +167,6 @@ export async function addPurchaseInvoiceLineItems(
   documentNo: string,
   lineItems: PurchaseOrderLineItem[],
   _locationCode: string,
-): Promise<void> {
-  await addPurchaseDocumentLineItems("invoice", documentNo, lineItems);
+): Promise<{ Line_No: number; [key: string]: unknown }[]> {
+  return addPurchaseDocumentLineItems("invoice", documentNo, lineItems);
 }
@@ -4,6 +4,7 @@
  */
 
 import { apiGet, apiPost, apiPatch, apiDelete, apiRequest } from "../client";
+import { createBatch, sendBatch } from "../batch";
 import type { ApiError } from "../client";
 import type { ODataResponse } from "../types";
 import { buildPurchaseHeaderPayload } from "./purchase-header-payload";
@@ -181,28 +182,30 @@ export async function createPurchaseOrder(
 /**
  * Add line items to an existing purchase order.
  * Company is passed as query parameter; body only includes required fields.
+ * All lines are sent in one atomic $batch.
+ * Returns the created lines in the order of `lineItems`.
  */
 export async function addPurchaseOrderLineItems(
   documentNo: string,
   lineItems: PurchaseOrderLineItem[],
   _locationCode: string,
-): Promise<void> {
+): Promise<{ Line_No: number; [key: string]: any }[]> {
   if (!documentNo || lineItems.length === 0) {
-    return;
+    return [];
   }
 
   const endpoint = `/PurchaseLine?company='${encodeURIComponent(COMPANY)}'`;
 
   try {
-    for (const lineItem of lineItems) {
-      const payload = buildCreatePurchaseLinePayload(
-        "Order",
-        documentNo,
-        lineItem,
-      );
-
-      await apiPost(endpoint, payload);
-    }
+    const batch = createBatch();
+    const pending = lineItems.map((lineItem) =>
+      apiPost<{ Line_No: number; [key: string]: any }>(
+        endpoint,
+        buildCreatePurchaseLinePayload("Order", documentNo, lineItem),
+        { batch },
+      ),
+    );
+    return await sendBatch(batch, pending);
   } catch (error) {
     console.error("Error adding purchase order line items:", error);
     throw error as ApiError;
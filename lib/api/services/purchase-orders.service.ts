@@ -4,6 +4,8 @@
  */
 
 import { apiGet, apiPost, apiPatch, apiDelete, apiRequest } from "../client";
+import type { ODataBatch } from "../batch";
+import { CACHE_TTL } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 import { stripNullish } from "./purchase-header-payload";
@@ -382,12 +384,14 @@ export async function orderShiptocodeModify(
 export async function deletePurchaseOrderLine(
   orderNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const escapedNo = orderNo.replace(/'/g, "''");
   const endpoint = `/PurchaseLine(Document_Type='Order',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
   // OData DELETE on PurchaseLine requires If-Match header
   return apiDelete<unknown>(endpoint, undefined, {
     headers: { "If-Match": "*" },
+    batch,
   });
 }
 
@@ -568,7 +572,9 @@ export async function getTransporters(
     $skip: Math.max(0, skip),
   });
   const endpoint = `/VendorCard?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<Transporter>>(endpoint);
+  const response = await apiGet<ODataResponse<Transporter>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value || [];
 }
 
@@ -682,11 +688,13 @@ export async function addPurchaseLine(
 
 /**
  * Update an existing purchase line (PATCH by key)
+ * Pass `batch` to queue several line updates in one changeset
  */
 export async function updatePurchaseLine(
   documentNo: string,
   lineNo: number,
   body: Record<string, unknown>,
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const escapedNo = documentNo.replace(/'/g, "''");
   const endpoint = `/PurchaseLine(Document_Type='Order',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
@@ -694,7 +702,7 @@ export async function updatePurchaseLine(
     "Document_Type",
     "Type",
   ]);
-  return apiPatch<unknown>(endpoint, payload);
+  return apiPatch<unknown>(endpoint, payload, { batch });
 }
 
 // ============================================
@@ -709,7 +717,9 @@ export interface GstGroupCode {
 
 export async function getGstGroupCodes(): Promise<GstGroupCode[]> {
   const endpoint = `/GSTGroup?company='${encodeURIComponent(COMPANY)}'&$select=Code,GST_Group_Type,Reverse_Charge`;
-  const response = await apiGet<ODataResponse<GstGroupCode>>(endpoint);
+  const response = await apiGet<ODataResponse<GstGroupCode>>(endpoint, {
+    cache: { ttl: CACHE_TTL.SETUP },
+  });
   return response.value || [];
 }
 
@@ -4,6 +4,7 @@
  */
 
 import type { ApiError } from "../client";
+import type { ODataBatch } from "../batch";
 import type {
   PurchaseOrderData,
   PurchaseOrderLineItem,
@@ -153,9 +154,10 @@ export async function updateSinglePurchaseReturnOrderLine(
 export async function deleteSinglePurchaseReturnOrderLine(
   documentNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<void> {
   try {
-    await deleteSinglePurchaseDocumentLine("return-order", documentNo, lineNo);
+    await deleteSinglePurchaseDocumentLine("return-order", documentNo, lineNo, batch);
   } catch (error) {
     console.error("Error deleting purchase return order line:", error);
     throw error as ApiError;
@@ -169,6 +171,6 @@ export async function addPurchaseReturnOrderLineItems(
   documentNo: string,
   lineItems: PurchaseOrderLineItem[],
   _locationCode: string,
-): Promise<void> {
-  await addPurchaseDocumentLineItems("return-order", documentNo, lineItems);
+): Promise<{ Line_No: number; [key: string]: unknown }[]> {
+  return addPurchaseDocumentLineItems("return-order", documentNo, lineItems);
 }
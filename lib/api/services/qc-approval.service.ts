@@ -0,0 +1,61 @@
+/**
+ * QC Approval API Service
+ * Approvals go through the /api/qc-approvals route, which writes the status
+ * to the ERP header (Approval_Status, Approve, Approved_By) and keeps the
+ * audit trail
+ */
+
+import type {
+  QCApprovalRecord,
+  QCApprovalTransitionInput,
+} from "@/lib/qc-approval/types";
+
+const QC_APPROVALS_URL = "/api/qc-approvals";
+
+async function readResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = `API request failed: ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      message = errorData.error?.message || message;
+    } catch {
+      // Keep the status text
+    }
+    throw new Error(message);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Get the approval record of a QC receipt
+ */
+export async function getQCApproval(
+  receiptNo: string,
+): Promise<QCApprovalRecord | null> {
+  const params = new URLSearchParams({ receiptNo });
+  const response = await fetch(`${QC_APPROVALS_URL}?${params}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+  const data = await readResponse<{ record: QCApprovalRecord | null }>(response);
+  return data.record;
+}
+
+/**
+ * Submit, approve or return a QC receipt as the signed-in user
+ */
+export async function transitionQCApproval(
+  receiptNo: string,
+  input: QCApprovalTransitionInput,
+): Promise<QCApprovalRecord> {
+  const response = await fetch(QC_APPROVALS_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ receiptNo, ...input }),
+  });
+  const data = await readResponse<{ record: QCApprovalRecord }>(response);
+  return data.record;
+}
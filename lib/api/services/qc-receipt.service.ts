@@ -72,6 +72,8 @@ export interface QCReceiptHeader {
   Total_Rejected_Quantity: number;
   Shortcut_Dimension_1_Code?: string;
   Shortcut_Dimension_2_Code?: string;
+  /** When the record was inserted; for a posted receipt, when QC was posted */
+  SystemCreatedAt?: string;
   "@odata.etag"?: string;
 }
 
@@ -387,6 +389,7 @@ export async function updateQCReceiptLine(
 
   return await apiPatch<QCReceiptLine>(endpoint, data, {
     headers: { "If-Match": etag },
+    offline: { label: `QC Receipt ${receiptNo} line ${lineNo}` },
   });
 }
 
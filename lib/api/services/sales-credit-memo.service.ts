@@ -4,6 +4,7 @@
  */
 
 import { apiPost, apiPatch } from "../client";
+import { createBatch, sendBatch } from "../batch";
 import { toUpperCaseValues } from "./payload-utils";
 import type { ApiError } from "../client";
 import type { SalesDocumentHeaderData } from "@/components/forms/sales/sales-document-header-data";
@@ -125,15 +126,16 @@ export async function createSalesCreditMemoCopyHeader(
   }
 }
 
-/** Add multiple line items to a credit memo in sequence. */
+/** Add multiple line items to a credit memo in one atomic $batch, returning the created lines. */
 export async function addSalesCreditMemoLineItems(
   documentNo: string,
   lineItems: SalesDocumentLineItem[],
   locationCode: string,
-): Promise<void> {
-  if (!documentNo || lineItems.length === 0) return;
+): Promise<{ Line_No: number; [key: string]: unknown }[]> {
+  if (!documentNo || lineItems.length === 0) return [];
   const endpoint = `/${LINE_ENTITY}?company='${encodeURIComponent(COMPANY)}'`;
-  for (const item of lineItems) {
+  const batch = createBatch();
+  const pending = lineItems.map((item) => {
     const linePayload: Record<string, unknown> = {
       Document_No: documentNo,
       Type: item.type,
@@ -146,8 +148,13 @@ export async function addSalesCreditMemoLineItems(
     }
     if (item.uom) linePayload.Unit_of_Measure_Code = item.uom;
     const cleanedPayload = stripEmptyValues(linePayload);
-    await apiPost(endpoint, toUpperCaseValues(cleanedPayload, ["Document_Type", "Type"]));
-  }
+    return apiPost<{ Line_No: number; [key: string]: unknown }>(
+      endpoint,
+      toUpperCaseValues(cleanedPayload, ["Document_Type", "Type"]),
+      { batch },
+    );
+  });
+  return sendBatch(batch, pending);
 }
 
 /** Add a single line to an existing credit memo. */
@@ -5,6 +5,7 @@
  */
 
 import { apiPost, apiPatch } from "../client";
+import { createBatch, sendBatch } from "../batch";
 import { toUpperCaseValues } from "./payload-utils";
 import type { ApiError } from "../client";
 import type { SalesDocumentHeaderData } from "@/components/forms/sales/sales-document-header-data";
@@ -97,15 +98,16 @@ export async function createSalesOrder(
   }
 }
 
-/** Add multiple line items to a sales order in sequence. */
+/** Add multiple line items to a sales order in one atomic $batch, returning the created lines. */
 export async function addSalesOrderLineItems(
   documentNo: string,
   lineItems: SalesDocumentLineItem[],
   locationCode: string,
-): Promise<void> {
-  if (!documentNo || lineItems.length === 0) return;
+): Promise<{ Line_No: number; [key: string]: unknown }[]> {
+  if (!documentNo || lineItems.length === 0) return [];
   const endpoint = `/SalesLine?company='${encodeURIComponent(COMPANY)}'`;
-  for (const item of lineItems) {
+  const batch = createBatch();
+  const pending = lineItems.map((item) => {
     const linePayload: Record<string, unknown> = {
       Document_No: documentNo,
       Type: item.type,
@@ -117,11 +119,13 @@ export async function addSalesOrderLineItems(
       linePayload.ShortcutDimCode3 = locationCode;
     }
     if (item.uom) linePayload.Unit_of_Measure_Code = item.uom;
-    await apiPost(
+    return apiPost<{ Line_No: number; [key: string]: unknown }>(
       endpoint,
       toUpperCaseValues(linePayload, ["Document_Type", "Type"]),
+      { batch },
     );
-  }
+  });
+  return sendBatch(batch, pending);
 }
 
 /** Add a single line to an existing sales order. */
@@ -4,6 +4,8 @@
  */
 
 import { apiGet, apiPost, apiPatch, apiDelete } from "../client";
+import type { ODataBatch } from "../batch";
+import { CACHE_TTL } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 import { toUpperCaseValues } from "./payload-utils";
@@ -194,6 +196,7 @@ export interface SalesLine {
   Shortcut_Dimension_2_Code?: string;
   ShortcutDimCode3?: string;
   Appl_to_Item_Entry?: number;
+  "@odata.etag"?: string;
   [key: string]: unknown;
 }
 
@@ -256,9 +259,10 @@ export async function orderShiptocodeModify(
 export async function deleteSalesOrderLine(
   orderNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const endpoint = `/API_SalesOrderLine?company='${encodeURIComponent(COMPANY)}'`;
-  return apiPost<unknown>(endpoint, { orderNo, lineNo });
+  return apiPost<unknown>(endpoint, { orderNo, lineNo }, { batch });
 }
 
 /**
@@ -399,7 +403,9 @@ export async function getTransporters(
     $skip: Math.max(0, skip),
   });
   const endpoint = `/VendorCard?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<Transporter>>(endpoint);
+  const response = await apiGet<ODataResponse<Transporter>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value || [];
 }
 
@@ -518,11 +524,14 @@ export async function addSalesLine(
 
 /**
  * Update an existing sales line (PATCH by key)
+ * Pass `batch` to queue several line updates in one changeset
  */
 export async function updateSalesLine(
   documentNo: string,
   lineNo: number,
   body: Record<string, unknown>,
+  etag: string = "*",
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const escapedNo = documentNo.replace(/'/g, "''");
   const endpoint = `/SalesLine(Document_Type='Order',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
@@ -530,7 +539,11 @@ export async function updateSalesLine(
     "Document_Type",
     "Type",
   ]);
-  return apiPatch<unknown>(endpoint, payload);
+  return apiPatch<unknown>(endpoint, payload, {
+    headers: { "If-Match": etag },
+    conflict: { label: `Line ${lineNo} of ${documentNo}` },
+    batch,
+  });
 }
 
 // ============================================
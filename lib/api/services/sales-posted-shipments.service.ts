@@ -27,6 +27,8 @@ export interface PostedSalesShipment {
   LR_RR_Date?: string;
   Shortcut_Dimension_1_Code?: string;
   Shortcut_Dimension_2_Code?: string;
+  /** When the shipment was posted, to the second */
+  SystemCreatedAt?: string;
   "@odata.etag"?: string;
   [key: string]: unknown;
 }
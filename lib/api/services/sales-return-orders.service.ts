@@ -4,6 +4,8 @@
  */
 
 import { apiGet, apiPost, apiPatch, apiDelete } from "../client";
+import type { ODataBatch } from "../batch";
+import { CACHE_TTL } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 
@@ -302,10 +304,11 @@ export async function orderShiptocodeModify(
 export async function deleteSalesOrderLine(
   orderNo: string,
   lineNo: number,
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const escapedNo = orderNo.replace(/'/g, "''");
   const endpoint = `/${LINE_ENTITY}(Document_Type='${encodeURIComponent(DOCUMENT_TYPE)}',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
-  return apiDelete<unknown>(endpoint);
+  return apiDelete<unknown>(endpoint, undefined, { batch });
 }
 
 /**
@@ -446,7 +449,9 @@ export async function getTransporters(
     $skip: Math.max(0, skip),
   });
   const endpoint = `/VendorCard?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<Transporter>>(endpoint);
+  const response = await apiGet<ODataResponse<Transporter>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value || [];
 }
 
@@ -556,11 +561,14 @@ export async function addSalesLine(
 
 /**
  * Update an existing sales line (PATCH by key)
+ * Pass `batch` to queue several line updates in one changeset
  */
 export async function updateSalesLine(
   documentNo: string,
   lineNo: number,
   body: Record<string, unknown>,
+  etag: string = "*",
+  batch?: ODataBatch,
 ): Promise<unknown> {
   const escapedNo = documentNo.replace(/'/g, "''");
   const endpoint = `/${LINE_ENTITY}(Document_Type='${encodeURIComponent(DOCUMENT_TYPE)}',Document_No='${encodeURIComponent(escapedNo)}',Line_No=${lineNo})?company='${encodeURIComponent(COMPANY)}'`;
@@ -568,7 +576,11 @@ export async function updateSalesLine(
   delete cleanBody.shortcutDimCode3;
   delete cleanBody.ShortcutDimCode3;
   const payload = stripEmptyValues(cleanBody);
-  return apiPatch<unknown>(endpoint, payload);
+  return apiPatch<unknown>(endpoint, payload, {
+    headers: { "If-Match": etag },
+    conflict: { label: `Line ${lineNo} of ${documentNo}` },
+    batch,
+  });
 }
 
 // ============================================
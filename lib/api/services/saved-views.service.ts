@@ -0,0 +1,67 @@
+/**
+ * Saved Views API Service
+ * Shared (team-wide) saved views are stored by the /api/saved-views route
+ * Personal views stay in local storage (see lib/saved-views/storage.ts)
+ */
+
+import type { SavedView, SavedViewState } from "@/lib/saved-views/types";
+
+const SAVED_VIEWS_URL = "/api/saved-views";
+
+async function readResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = `API request failed: ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      message = errorData.error?.message || message;
+    } catch {
+      // Keep the status text
+    }
+    throw new Error(message);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Get shared views of a list
+ */
+export async function getSharedViews(listKey: string): Promise<SavedView[]> {
+  const response = await fetch(
+    `${SAVED_VIEWS_URL}?list=${encodeURIComponent(listKey)}`,
+    { headers: { Accept: "application/json" }, cache: "no-store" },
+  );
+  const data = await readResponse<{ views: SavedView[] }>(response);
+  return data.views;
+}
+
+/**
+ * Create or overwrite a shared view (owner only)
+ */
+export async function saveSharedView(view: {
+  id: string;
+  listKey: string;
+  name: string;
+  state: SavedViewState;
+}): Promise<SavedView> {
+  const response = await fetch(SAVED_VIEWS_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify(view),
+  });
+  const data = await readResponse<{ view: SavedView }>(response);
+  return data.view;
+}
+
+/**
+ * Delete a shared view (owner only)
+ */
+export async function deleteSharedView(id: string): Promise<void> {
+  const response = await fetch(
+    `${SAVED_VIEWS_URL}?id=${encodeURIComponent(id)}`,
+    { method: "DELETE" },
+  );
+  await readResponse<{ ok: boolean }>(response);
+}
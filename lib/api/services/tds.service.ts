@@ -4,6 +4,7 @@
  */
 
 import { apiGet } from "../client";
+import { CACHE_TTL } from "../cache";
 import type { ODataResponse } from "../types";
 
 export interface TDSGroupCode {
@@ -82,7 +83,9 @@ export async function getVendorTDSGroupCodes(
 export async function getAllTDSGroupCodes(): Promise<TDSGroupCode[]> {
   try {
     const endpoint = `/TDSSection?company='${encodeURIComponent(COMPANY)}'&$select=TDS_Nature_of_Collection`;
-    const response = await apiGet<ODataResponse<TDSGroupCode>>(endpoint);
+    const response = await apiGet<ODataResponse<TDSGroupCode>>(endpoint, {
+      cache: { ttl: CACHE_TTL.SETUP },
+    });
     // Deduplicate by TDS_Nature_of_Collection
     const uniqueMap = new Map<string, TDSGroupCode>();
     (response.value || []).forEach((item) => {
@@ -234,6 +234,7 @@ export async function createTransferOrder(
 export async function patchTransferOrder(
   orderNo: string,
   data: Partial<TransferOrder>,
+  etag: string = "*",
 ): Promise<void> {
   const encodedCompany = encodeURIComponent(COMPANY);
   const encodedNo = encodeURIComponent(orderNo);
@@ -244,7 +245,10 @@ export async function patchTransferOrder(
   delete payload["@odata.etag"];
   delete payload.No; // Primary key cannot be patched
 
-  return apiPatch<void>(endpoint, payload);
+  return apiPatch<void>(endpoint, payload, {
+    headers: { "If-Match": etag },
+    conflict: { label: `Transfer order ${orderNo}` },
+  });
 }
 
 export interface TransferLine {
@@ -4,6 +4,7 @@
  */
 
 import { apiGet } from "../client";
+import { CACHE_TTL } from "../cache";
 import { buildODataQuery } from "../endpoints";
 import type { ODataResponse } from "../types";
 
@@ -474,6 +475,23 @@ export async function getVendorsPage(
   return sorted.slice(skip, skip + PAGE_SIZE);
 }
 
+/**
+ * Get a single unblocked vendor by vendor number
+ * @param vendorNo - Vendor number
+ */
+export async function getVendorByNo(vendorNo: string): Promise<Vendor | null> {
+  if (!vendorNo) return null;
+
+  const query = buildODataQuery({
+    $select: "No,Name,P_A_N_No,Assessee_Code",
+    $filter: `${getBaseFilter()} and No eq '${escapeODataValue(vendorNo)}'`,
+  });
+
+  const endpoint = `/VendorCard?company='${encodeURIComponent(COMPANY)}'&${query}`;
+  const response = await apiGet<ODataResponse<Vendor>>(endpoint);
+  return response.value.length > 0 ? response.value[0] : null;
+}
+
 /**
  * Clear search cache
  */
@@ -589,7 +607,9 @@ export async function getTransporters(): Promise<Vendor[]> {
   });
 
   const endpoint = `/VendorCard?company='${encodeURIComponent(COMPANY)}'&${query}`;
-  const response = await apiGet<ODataResponse<Vendor>>(endpoint);
+  const response = await apiGet<ODataResponse<Vendor>>(endpoint, {
+    cache: { ttl: CACHE_TTL.MASTER },
+  });
   return response.value;
 }
 
@@ -10,6 +10,11 @@ export interface WebUser {
   Allow_Posting_To: string;
   Location_Code: string;
   Access_Purchase_Order: string;
+  /**
+   * Web role (see lib/auth/permissions); not yet exposed by every ERP
+   * version, so it is read by the login route and not $select-ed here
+   */
+  Role?: string;
 }
 
 const COMPANY =
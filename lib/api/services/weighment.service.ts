@@ -0,0 +1,83 @@
+/**
+ * Weighment API Service
+ * Weighbridge captures and supervisor overrides are recorded by the
+ * /api/weighments route; the ERP header only keeps gross, tare and net
+ */
+
+import type {
+  CaptureWeighmentInput,
+  GateEntryDirection,
+  WeighmentRecord,
+} from "@/lib/weighbridge/types";
+
+const WEIGHMENTS_URL = "/api/weighments";
+
+async function readResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = `API request failed: ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      message = errorData.error?.message || message;
+    } catch {
+      // Keep the status text
+    }
+    throw new Error(message);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Get the weighments of a gate entry, or null when none were captured
+ */
+export async function getWeighments(
+  direction: GateEntryDirection,
+  entryNo: string,
+): Promise<WeighmentRecord | null> {
+  const params = new URLSearchParams({ direction, entryNo });
+  const response = await fetch(`${WEIGHMENTS_URL}?${params}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  });
+  const data = await readResponse<{ record: WeighmentRecord | null }>(response);
+  return data.record;
+}
+
+/**
+ * Record a weighment captured from the weighbridge
+ */
+export async function captureWeighment(
+  direction: GateEntryDirection,
+  entryNo: string,
+  input: CaptureWeighmentInput,
+): Promise<WeighmentRecord> {
+  const response = await fetch(WEIGHMENTS_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ direction, entryNo, ...input }),
+  });
+  const data = await readResponse<{ record: WeighmentRecord }>(response);
+  return data.record;
+}
+
+/**
+ * Record a supervisor override releasing the captured weights
+ */
+export async function overrideWeighments(
+  direction: GateEntryDirection,
+  entryNo: string,
+  reason: string,
+): Promise<WeighmentRecord> {
+  const response = await fetch(`${WEIGHMENTS_URL}/override`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ direction, entryNo, reason }),
+  });
+  const data = await readResponse<{ record: WeighmentRecord }>(response);
+  return data.record;
+}
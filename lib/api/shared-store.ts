@@ -0,0 +1,176 @@
+/**
+ * Server-only shared store
+ * Keeps app-owned data the ERP has no table for (shared saved views, e-way bill
+ * change history, weighments, QC approval trails, invoiced freight) in a Redis database reached
+ * over its REST API (SHARED_STORE_URL / SHARED_STORE_TOKEN, Upstash-compatible),
+ * so every server instance (Netlify functions, IIS/pm2 workers) sees the same data
+ * Never import this file from client components
+ */
+
+const SHARED_STORE_URL = (process.env.SHARED_STORE_URL || "").replace(/\/$/, "");
+const SHARED_STORE_TOKEN = process.env.SHARED_STORE_TOKEN || "";
+const SHARED_STORE_PREFIX = process.env.SHARED_STORE_PREFIX || "sf:";
+
+/** Attempts before a contended read-modify-write gives up */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Replaces the value only if it still equals what was read
+ * ARGV[1] = value read ("" when missing), ARGV[2] = new value
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Sets every key only if none of them exists yet
+ * ARGV[i] = value for KEYS[i]; returns the keys that already exist
+ */
+const SET_ALL_IF_ABSENT_SCRIPT = `
+local existing = {}
+for _, key in ipairs(KEYS) do
+  if redis.call('EXISTS', key) == 1 then table.insert(existing, key) end
+end
+if #existing > 0 then return existing end
+for i, key in ipairs(KEYS) do redis.call('SET', key, ARGV[i]) end
+return existing
+`;
+
+/**
+ * Deletes the key only if it still holds the value read
+ * ARGV[1] = value read
+ */
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+return redis.call('DEL', KEYS[1])
+`;
+
+type RedisArgument = string | number;
+
+async function runCommand<T>(command: RedisArgument[]): Promise<T> {
+  if (!SHARED_STORE_URL || !SHARED_STORE_TOKEN) {
+    throw new Error("SHARED_STORE_URL / SHARED_STORE_TOKEN are not configured on the server");
+  }
+
+  const response = await fetch(SHARED_STORE_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${SHARED_STORE_TOKEN}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(command),
+    cache: "no-store",
+  });
+  const data = (await response.json().catch(() => ({}))) as {
+    result?: T;
+    error?: string;
+  };
+  if (!response.ok || data.error) {
+    throw new Error(
+      `Shared store ${command[0]} failed: ${data.error || response.statusText}`,
+    );
+  }
+  return data.result as T;
+}
+
+function storeKey(key: string): string {
+  return `${SHARED_STORE_PREFIX}${key}`;
+}
+
+function parse<T>(raw: string | null): T | null {
+  return raw ? (JSON.parse(raw) as T) : null;
+}
+
+/**
+ * Read a JSON value, or null when the key does not exist
+ */
+export async function readSharedValue<T>(key: string): Promise<T | null> {
+  return parse<T>(await runCommand<string | null>(["GET", storeKey(key)]));
+}
+
+/**
+ * Read several JSON values at once, null for keys that do not exist
+ */
+export async function readSharedValues<T>(keys: string[]): Promise<Array<T | null>> {
+  if (keys.length === 0) return [];
+  const raw = await runCommand<Array<string | null>>(["MGET", ...keys.map(storeKey)]);
+  return raw.map((item) => parse<T>(item));
+}
+
+/**
+ * Write several JSON values at once, only if none of the keys exists yet
+ * @returns the keys that already exist; nothing is written when there are any
+ */
+export async function createSharedValues<T>(values: Record<string, T>): Promise<string[]> {
+  const keys = Object.keys(values);
+  if (keys.length === 0) return [];
+  const existing = await runCommand<string[]>([
+    "EVAL",
+    SET_ALL_IF_ABSENT_SCRIPT,
+    keys.length,
+    ...keys.map(storeKey),
+    ...keys.map((key) => JSON.stringify(values[key])),
+  ]);
+  return existing.map((key) => key.slice(SHARED_STORE_PREFIX.length));
+}
+
+/**
+ * Read-modify-write a JSON value without losing concurrent updates
+ * from other instances; `update` may run more than once
+ * `update` returns null to leave the value untouched
+ */
+export async function updateSharedValue<T>(
+  key: string,
+  update: (current: T | null) => T | null,
+): Promise<T | null> {
+  const fullKey = storeKey(key);
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const raw = await runCommand<string | null>(["GET", fullKey]);
+    const next = update(parse<T>(raw));
+    if (next === null) return null;
+
+    const written = await runCommand<number>([
+      "EVAL",
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      fullKey,
+      raw ?? "",
+      JSON.stringify(next),
+    ]);
+    if (written === 1) return next;
+  }
+  throw new Error("The record is being changed by someone else. Please try again.");
+}
+
+/**
+ * Delete a JSON value, only if it still equals the value read
+ * @returns whether it was deleted; false when it changed or no longer exists
+ */
+export async function deleteSharedValue<T>(key: string, read: T): Promise<boolean> {
+  const deleted = await runCommand<number>([
+    "EVAL",
+    COMPARE_AND_DELETE_SCRIPT,
+    1,
+    storeKey(key),
+    JSON.stringify(read),
+  ]);
+  return deleted === 1;
+}
+
+/**
+ * Append an item to a JSON list
+ */
+export async function appendSharedList<T>(key: string, item: T): Promise<void> {
+  await runCommand<number>(["RPUSH", storeKey(key), JSON.stringify(item)]);
+}
+
+/**
+ * Read every item of a JSON list, oldest first
+ */
+export async function readSharedList<T>(key: string): Promise<T[]> {
+  const raw = await runCommand<string[] | null>(["LRANGE", storeKey(key), 0, -1]);
+  return (raw ?? []).map((item) => JSON.parse(item) as T);
+}
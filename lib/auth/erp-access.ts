@@ -0,0 +1,337 @@
+/**
+ * ERP request authorization
+ * Maps calls forwarded by the /api/erp proxy to permission modules so the
+ * server enforces the same role model the UI uses for buttons and routes
+ *
+ * - Entity reads need "view", creates/updates "edit" and deletes "delete"
+ * - Unbound actions (API_*, QCcode_*) carry their own action, e.g. posting
+ * - Master data the forms look up (items, customers, dimensions…) may be read
+ *   by every signed-in user; writes to it are refused
+ * - Entity sets and actions not listed here are refused, reads included
+ */
+
+import {
+  hasPermission,
+  isWithinPostingWindow,
+  type PermissionAction,
+  type PermissionModule,
+  type SessionUser,
+} from "./permissions";
+
+interface ErpPermission {
+  /** The user needs the action on at least one of these modules */
+  modules: PermissionModule[];
+  action: PermissionAction;
+}
+
+interface BatchRequestBody {
+  requests?: Array<{ method?: string; url?: string; body?: unknown }>;
+}
+
+/** One ERP call; a $batch call carries several */
+export interface ErpOperation {
+  method: string;
+  erpPath: string;
+  body: unknown;
+}
+
+const ALL_DOCUMENT_MODULES: PermissionModule[] = [
+  "sales",
+  "purchase",
+  "stock",
+  "production",
+];
+
+/**
+ * Entity set name pattern → modules; first match wins
+ */
+const ENTITY_MODULES: Array<{ pattern: RegExp; modules: PermissionModule[] }> = [
+  { pattern: /^(Posted)?Sales|^ShiptoAddress$|^ItemChargeAssignmentSales$/, modules: ["sales"] },
+  {
+    pattern: /^(Posted)?Purch|^GetPurchReturnShipmentLine$|^PostedReturnShipmentH$|^OrderAddress$|^ItemChargeAssignmentPurch$|^Attachment$/,
+    modules: ["purchase"],
+  },
+  { pattern: /gate_?entry/i, modules: ["gate-entry"] },
+  { pattern: /^qc/i, modules: ["qc"] },
+  { pattern: /^(Posted)?Transfer/, modules: ["stock"] },
+  { pattern: /^(GJ|CP|CR)$/, modules: ["voucher"] },
+  { pattern: /prodOrder|^ProductionJn$/i, modules: ["production"] },
+  { pattern: /^ConsumeInventory$/, modules: ["consumption"] },
+  { pattern: /^(GLEntry|CustomerLedgerEntry|VendorLedgerEntry)$/, modules: ["ledger"] },
+  { pattern: /^ItemTrackingLine$/, modules: ALL_DOCUMENT_MODULES },
+];
+
+/**
+ * Master data entity sets every signed-in user may read (lookups, dropdowns,
+ * validation); an entity set a feature starts to read must be listed here or
+ * in ENTITY_MODULES
+ */
+const MASTER_DATA_READS = new Set([
+  "ConsuPostingSetup",
+  "CustomerCard",
+  "DefaultDimensions",
+  "DimensionValue",
+  "FamilyList",
+  "FixedAssets",
+  "GLAccount",
+  "GSTGroup",
+  "GenprodPostingGroup",
+  "HSNSAC",
+  "ItemAvailabilitybyLot",
+  "ItemCard",
+  "ItemCharge",
+  "Itemcharge",
+  "ItemList",
+  "ItemUnitofMeasure",
+  "Itemledger_entry",
+  "LocationList",
+  "MandiMaster",
+  "PaymentMethod",
+  "PaymentTerm",
+  "PinCode",
+  "ProdBOMVersionList",
+  "ProductionBOMList",
+  "State",
+  "TCSSection",
+  "TDSSection",
+  "TermandCondition",
+  "UOM",
+  "VendorCard",
+  "WebUserSetup",
+  "Webuser",
+]);
+
+function permission(
+  modules: PermissionModule | PermissionModule[],
+  action: PermissionAction,
+): ErpPermission {
+  return { modules: Array.isArray(modules) ? modules : [modules], action };
+}
+
+/**
+ * Unbound actions → required permission
+ * Actions are always POSTed, so the action comes from this table, not the method
+ */
+const ACTION_PERMISSIONS: Record<string, ErpPermission> = {
+  // Sales
+  API_PostSales: permission("sales", "post"),
+  API_ReOpenSalesOrder: permission("sales", "edit"),
+  API_SendApprovalRequest: permission("sales", "edit"),
+  API_CancelApprovalRequest: permission("sales", "edit"),
+  API_SaleCopyDocument: permission("sales", "edit"),
+  API_SaleGetPostedline: permission("sales", "edit"),
+  API_SalesOrderLine: permission("sales", "edit"),
+  API_SuggestAssgmentSales: permission("sales", "edit"),
+  API_GetChargeItemLineSales: permission("sales", "view"),
+  API_GetPstdDocLinesToReverseSales: permission("sales", "view"),
+  API_GetInvoiceReportWeb: permission("sales", "view"),
+  API_GetDeliveryReportWeb: permission("sales", "view"),
+  API_SalesPLaning: permission("sales", "view"),
+  API_SalesPriceAPI: permission("sales", "view"),
+  API_UndoShipment: permission("sales", "post"),
+  API_SetCustApplId: permission(["sales", "ledger"], "edit"),
+  API_OrderShiptocodeModify: permission(["sales", "purchase"], "edit"),
+  // e-Invoice / e-Way Bill (sales invoices and transfer shipments)
+  API_GenerateEinvoice: permission("sales", "post"),
+  API_CancelEinvoice: permission("sales", "post"),
+  API_GenerateEWayBill: permission(["sales", "stock"], "post"),
+  API_CancelEWayBill: permission(["sales", "stock"], "post"),
+  API_UpdateVehicle: permission(["sales", "stock"], "edit"),
+  API_UpdateTransporter: permission(["sales", "stock"], "edit"),
+  API_GetDistance: permission(["sales", "stock"], "view"),
+  // Purchase
+  API_PostPurchase: permission("purchase", "post"),
+  API_ReopenPurchase: permission("purchase", "edit"),
+  API_SendPurchaseApprovalReqeust: permission("purchase", "edit"),
+  API_CancelApprovalPurchase: permission("purchase", "edit"),
+  API_PurchaseCopyDocument: permission("purchase", "edit"),
+  API_PurchaseGetPostedline: permission("purchase", "edit"),
+  API_SuggestAssgnmt: permission("purchase", "edit"),
+  API_PostItemChargeAssignment: permission(["purchase", "sales"], "post"),
+  API_InitiateUploadFilePurchase: permission("purchase", "edit"),
+  API_InitiateDownloadFilePurchase: permission("purchase", "view"),
+  API_GetChargeItemLinePurchase: permission("purchase", "view"),
+  API_GetPstdDocLinesToReverse: permission("purchase", "view"),
+  API_GetPurchaseOrderReport: permission("purchase", "view"),
+  API_GetPurchasereceiptReport: permission("purchase", "view"),
+  API_GetPendingMRNExcel: permission("purchase", "view"),
+  API_Purchasetotal: permission("purchase", "view"),
+  API_GetTaxComponentsInJson: permission(["purchase", "sales"], "view"),
+  API_GetTaxComponentsInJsonSales_Purchase: permission(["purchase", "sales"], "view"),
+  API_UndoReceipt: permission("purchase", "post"),
+  API_UndoReturnShipment: permission("purchase", "post"),
+  API_AttachedGateEntry: permission(["purchase", "gate-entry"], "edit"),
+  API_SetVendApplId: permission(["purchase", "ledger"], "edit"),
+  // Gate entry
+  API_PostGateEntry: permission("gate-entry", "post"),
+  // QC
+  QCCode_GenerateQCForm: permission("qc", "edit"),
+  QCcode_Generatebardana: permission("qc", "edit"),
+  QCcode_postQC: permission("qc", "post"),
+  QCcode_PostBardana: permission("qc", "post"),
+  // Transfers
+  API_PostTransferOrder: permission("stock", "post"),
+  API_UndoTransferShipment: permission("stock", "post"),
+  API_TransferOrderReleaseOpen: permission("stock", "edit"),
+  API_GetTransferReceiptReport: permission("stock", "view"),
+  API_GetTransferShipmentReport: permission("stock", "view"),
+  API_DownloadRecordLink: permission("stock", "view"),
+  API_TrackingAssign: permission(ALL_DOCUMENT_MODULES, "edit"),
+  // Vouchers
+  API_PostVouchers: permission("voucher", "post"),
+  API_CreateNoSeriesForVouchers: permission("voucher", "edit"),
+  API_InitiateUploadFileGJ: permission("voucher", "edit"),
+  API_GetVoucher: permission("voucher", "view"),
+  // Production and consumption
+  API_ChangeProdOrderStatus: permission("production", "post"),
+  API_PostRPO: permission("production", "post"),
+  API_CreateProductionJn: permission("production", "edit"),
+  API_DeleteProdJnlLines: permission("production", "edit"),
+  API_RefressProductionOrder: permission("production", "edit"),
+  API_UpdateComponent: permission("production", "edit"),
+  API_GetCompSubst: permission("production", "view"),
+  API_GetWorkOrder: permission("production", "view"),
+  API_QRCodePrint: permission("production", "view"),
+  API_PostConsumeInventory: permission("consumption", "post"),
+  API_ConsumptionRepor: permission("consumption", "view"),
+  // Reports
+  API_DayBook: permission("ledger", "view"),
+  API_PostedReport: permission(["sales", "purchase", "stock", "ledger"], "view"),
+  API_StockReport: permission(["stock", "ledger"], "view"),
+  API_InventoryAgeing: permission(["stock", "ledger"], "view"),
+  API_ExportItemAvailabilityExcel: permission(["stock", "ledger"], "view"),
+};
+
+/** Payload keys carrying a posting date (as sent, or camel-cased by the client) */
+const POSTING_DATE_KEY = /^posting_?date$/i;
+
+/** Company-scoped path prefix, e.g. "/Company('Sampoorna%20Feeds')/" */
+const COMPANY_SEGMENT = /^\/?Company\('(?:[^']|'')*'\)\//;
+
+/**
+ * Returns the entity set or action name of an ERP path
+ * e.g. "/SalesLine(Document_No='X')?company=..." and
+ * "/Company('X')/SalesLine(Document_No='X')" → "SalesLine"
+ */
+export function getErpResourceName(erpPath: string): string {
+  return (
+    erpPath
+      .replace(COMPANY_SEGMENT, "")
+      .replace(/^\//, "")
+      .split(/[(/?]/)[0] ?? ""
+  );
+}
+
+function isUnboundAction(name: string): boolean {
+  return /^API_|^QCcode_/i.test(name);
+}
+
+/**
+ * Returns the permission a single ERP call needs
+ * null means the call is open to every signed-in user (reads of master data);
+ * "denied" means nobody may make it through the proxy, which is the answer
+ * for every entity set and action not listed above
+ */
+export function getErpPermission(
+  method: string,
+  erpPath: string,
+): ErpPermission | null | "denied" {
+  const name = getErpResourceName(erpPath);
+  if (isUnboundAction(name)) {
+    return ACTION_PERMISSIONS[name] ?? "denied";
+  }
+
+  const upperMethod = method.toUpperCase();
+  const action: PermissionAction =
+    upperMethod === "GET" || upperMethod === "HEAD"
+      ? "view"
+      : upperMethod === "DELETE"
+        ? "delete"
+        : "edit";
+  const match = ENTITY_MODULES.find(({ pattern }) => pattern.test(name));
+  if (match) return { modules: match.modules, action };
+  return action === "view" && MASTER_DATA_READS.has(name) ? null : "denied";
+}
+
+function findPostingDate(body: unknown): string | null {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+  for (const [key, value] of Object.entries(body)) {
+    if (POSTING_DATE_KEY.test(key) && typeof value === "string" && value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function authorizeSingle(
+  user: SessionUser,
+  method: string,
+  erpPath: string,
+  body: unknown,
+): string | null {
+  const required = getErpPermission(method, erpPath);
+  const name = getErpResourceName(erpPath);
+  if (required === "denied") {
+    return `${name} is not available through the web portal`;
+  }
+  if (
+    required &&
+    !required.modules.some((moduleId) =>
+      hasPermission(user.permissions, moduleId, required.action),
+    )
+  ) {
+    return `You do not have permission to ${required.action} ${name}`;
+  }
+
+  const postingDate = method.toUpperCase() === "GET" ? null : findPostingDate(body);
+  if (postingDate && !isWithinPostingWindow(user.postingWindow, postingDate)) {
+    return `Posting Date ${postingDate.split("T")[0]} is outside your allowed posting period`;
+  }
+  return null;
+}
+
+/**
+ * Splits a proxied ERP call into its operations
+ * @returns one operation per $batch request, or null for a malformed batch
+ */
+export function getErpOperations(
+  method: string,
+  erpPath: string,
+  body: unknown,
+): ErpOperation[] | null {
+  if (getErpResourceName(erpPath) !== "$batch") {
+    return [{ method, erpPath, body }];
+  }
+  const requests = (body as BatchRequestBody | null)?.requests;
+  if (!Array.isArray(requests)) return null;
+  return requests.map((request) => ({
+    method: request.method || "GET",
+    erpPath: `/${(request.url || "").replace(/^\//, "")}`,
+    body: request.body,
+  }));
+}
+
+/**
+ * Checks a proxied ERP call against the session user
+ * $batch calls are checked operation by operation
+ * @returns the reason the call is refused, or null when it is allowed
+ */
+export function authorizeErpRequest(
+  user: SessionUser,
+  method: string,
+  erpPath: string,
+  body: unknown,
+): string | null {
+  const operations = getErpOperations(method, erpPath, body);
+  if (!operations) return "Invalid batch request";
+  for (const operation of operations) {
+    const reason = authorizeSingle(
+      user,
+      operation.method,
+      operation.erpPath,
+      operation.body,
+    );
+    if (reason) return reason;
+  }
+  return null;
+}
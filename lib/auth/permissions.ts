@@ -0,0 +1,351 @@
+/**
+ * Role-based permission model
+ * Shared between the server (session token) and client (sidebar, guards, buttons)
+ * Roles and permissions are derived from the ERP WebUser record at login
+ */
+
+export type PermissionModule =
+  | "sales"
+  | "purchase"
+  | "gate-entry"
+  | "qc"
+  | "stock"
+  | "voucher"
+  | "production"
+  | "consumption"
+  | "ledger";
+
+export type PermissionAction = "view" | "edit" | "delete" | "post";
+
+/**
+ * Access levels, each including everything below it
+ * none < view < edit (create/modify) < full (delete + post)
+ */
+export type AccessLevel = "none" | "view" | "edit" | "full";
+
+export type UserRole =
+  | "admin"
+  | "accountant"
+  | "gate"
+  | "qc"
+  | "qc-manager"
+  | "sales"
+  | "purchase"
+  | "production"
+  | "staff";
+
+export type PermissionMap = Record<PermissionModule, AccessLevel>;
+
+export interface PostingWindow {
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * Session payload carried in the signed session token
+ * and mirrored client-side for UI decisions
+ */
+export interface SessionUser {
+  userID: string;
+  fullName: string;
+  role: UserRole;
+  permissions: PermissionMap;
+  locationCode: string;
+  postingWindow: PostingWindow;
+}
+
+/**
+ * Minimal WebUser shape needed to derive a session
+ * Users with an unknown Role do not get a session; a missing or blank Role
+ * gets the fallback role
+ */
+export interface WebUserAccessRecord {
+  User_Name: string;
+  Full_Name?: string;
+  Role?: string;
+  Location_Code?: string;
+  Allow_Posting_From?: string;
+  Allow_Posting_To?: string;
+  Access_Purchase_Order?: string;
+}
+
+export const PERMISSION_MODULES: PermissionModule[] = [
+  "sales",
+  "purchase",
+  "gate-entry",
+  "qc",
+  "stock",
+  "voucher",
+  "production",
+  "consumption",
+  "ledger",
+];
+
+const LEVEL_RANK: Record<AccessLevel, number> = {
+  none: 0,
+  view: 1,
+  edit: 2,
+  full: 3,
+};
+
+const ACTION_REQUIRED_LEVEL: Record<PermissionAction, AccessLevel> = {
+  view: "view",
+  edit: "edit",
+  delete: "full",
+  post: "full",
+};
+
+function allModules(level: AccessLevel): PermissionMap {
+  return Object.fromEntries(
+    PERMISSION_MODULES.map((moduleId) => [moduleId, level]),
+  ) as PermissionMap;
+}
+
+/**
+ * Default permissions per role
+ * Gate staff do not see vouchers; accountants cannot post production
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, PermissionMap> = {
+  admin: allModules("full"),
+  accountant: {
+    ...allModules("view"),
+    sales: "full",
+    purchase: "full",
+    voucher: "full",
+    ledger: "full",
+  },
+  gate: {
+    ...allModules("none"),
+    "gate-entry": "full",
+    purchase: "view",
+    sales: "view",
+    stock: "view",
+  },
+  qc: {
+    ...allModules("none"),
+    qc: "full",
+    "gate-entry": "view",
+    purchase: "view",
+  },
+  "qc-manager": {
+    ...allModules("none"),
+    qc: "full",
+    "gate-entry": "view",
+    purchase: "view",
+  },
+  sales: {
+    ...allModules("none"),
+    sales: "full",
+    stock: "view",
+    ledger: "view",
+  },
+  purchase: {
+    ...allModules("none"),
+    purchase: "full",
+    "gate-entry": "view",
+    qc: "view",
+    ledger: "view",
+  },
+  production: {
+    ...allModules("none"),
+    production: "full",
+    consumption: "full",
+    stock: "edit",
+    qc: "view",
+  },
+  // Every module, as every user had before roles, without the supervisor rights
+  staff: allModules("full"),
+};
+
+/**
+ * Role of users whose WebUser record has no Role (the ERP does not expose
+ * the field yet, or it is blank for the user); AUTH_FALLBACK_ROLE replaces it,
+ * or turns it off with "none"
+ */
+export const DEFAULT_FALLBACK_ROLE: UserRole = "staff";
+
+/**
+ * Route prefix → permission module
+ * Routes not listed here (dashboard, settings) are open to every signed-in user
+ */
+const ROUTE_MODULES: Array<{ prefix: string; moduleId: PermissionModule }> = [
+  { prefix: "/sales", moduleId: "sales" },
+  { prefix: "/sales-form", moduleId: "sales" },
+  { prefix: "/purchase", moduleId: "purchase" },
+  { prefix: "/inward-gate-entry", moduleId: "gate-entry" },
+  { prefix: "/outward-gate-entry", moduleId: "gate-entry" },
+  { prefix: "/posted-inward-gate-entry", moduleId: "gate-entry" },
+  { prefix: "/posted-outward-gate-entry", moduleId: "gate-entry" },
+  { prefix: "/freight-register", moduleId: "gate-entry" },
+  { prefix: "/vehicle-turnaround", moduleId: "gate-entry" },
+  { prefix: "/qc-receipt", moduleId: "qc" },
+  { prefix: "/posted-qc-receipt", moduleId: "qc" },
+  { prefix: "/vendor-quality", moduleId: "qc" },
+  { prefix: "/transfer-orders", moduleId: "stock" },
+  { prefix: "/posted-transfer-shipments", moduleId: "stock" },
+  { prefix: "/posted-transfer-receipts", moduleId: "stock" },
+  { prefix: "/voucher-form", moduleId: "voucher" },
+  { prefix: "/production-orders", moduleId: "production" },
+  { prefix: "/consume-inventory", moduleId: "consumption" },
+  { prefix: "/ledger", moduleId: "ledger" },
+];
+
+/**
+ * ERP role values (normalized: lower case, words joined by "-") → UserRole
+ * Only exact matches are accepted; anything else has no access
+ */
+const ROLE_ALIASES: Record<string, UserRole> = {
+  admin: "admin",
+  administrator: "admin",
+  accountant: "accountant",
+  accounts: "accountant",
+  gate: "gate",
+  "gate-staff": "gate",
+  qc: "qc",
+  "qc-staff": "qc",
+  "qc-manager": "qc-manager",
+  sales: "sales",
+  "sales-staff": "sales",
+  purchase: "purchase",
+  "purchase-staff": "purchase",
+  production: "production",
+  "production-staff": "production",
+  staff: "staff",
+};
+
+/**
+ * Normalizes the ERP role value (e.g. "Gate Staff", "ACCOUNTANT") to a UserRole
+ * Returns null for blank or unknown roles
+ */
+export function normalizeRole(rawRole: string | undefined | null): UserRole | null {
+  const value = (rawRole || "").trim().toLowerCase().replace(/[\s_-]+/g, "-");
+  return ROLE_ALIASES[value] ?? null;
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value)
+  );
+}
+
+/**
+ * Reads the configured fallback role
+ * Unset means DEFAULT_FALLBACK_ROLE, "none" means no fallback; an unknown value
+ * also means no fallback, so a typo never widens access
+ */
+export function resolveFallbackRole(configured: string | undefined): UserRole | null {
+  if (!configured?.trim()) return DEFAULT_FALLBACK_ROLE;
+  return normalizeRole(configured);
+}
+
+/** ERP uses 0001-01-01 for "no limit" */
+function toPostingBound(value: string | undefined): string | null {
+  const date = value?.split("T")[0];
+  return date && date !== "0001-01-01" ? date : null;
+}
+
+/**
+ * Builds the session user from the WebUser record
+ * A missing or blank Role takes the fallback role; returns null for an
+ * unknown role, or a missing one without a fallback
+ * Access_Purchase_Order narrows purchase access to view-only when not "Edit"
+ */
+export function buildSessionUser(
+  record: WebUserAccessRecord,
+  fallbackRole: UserRole | null = DEFAULT_FALLBACK_ROLE,
+): SessionUser | null {
+  const role = record.Role?.trim() ? normalizeRole(record.Role) : fallbackRole;
+  if (!role) return null;
+  const permissions: PermissionMap = { ...ROLE_PERMISSIONS[role] };
+
+  if (
+    role !== "admin" &&
+    record.Access_Purchase_Order !== undefined &&
+    record.Access_Purchase_Order !== "Edit" &&
+    LEVEL_RANK[permissions.purchase] > LEVEL_RANK.view
+  ) {
+    permissions.purchase = "view";
+  }
+
+  return {
+    userID: record.User_Name.toUpperCase(),
+    fullName: record.Full_Name || record.User_Name,
+    role,
+    permissions,
+    locationCode: record.Location_Code || "",
+    postingWindow: {
+      from: toPostingBound(record.Allow_Posting_From),
+      to: toPostingBound(record.Allow_Posting_To),
+    },
+  };
+}
+
+/**
+ * Checks a posting date (yyyy-MM-dd or ISO) against the user's posting window
+ */
+export function isWithinPostingWindow(
+  postingWindow: PostingWindow | null | undefined,
+  date: string,
+): boolean {
+  const day = date.split("T")[0];
+  if (!day || day === "0001-01-01") return true;
+  if (postingWindow?.from && day < postingWindow.from) return false;
+  if (postingWindow?.to && day > postingWindow.to) return false;
+  return true;
+}
+
+/**
+ * Returns the permission module guarding a route, or null for open routes
+ */
+export function getRouteModule(pathname: string): PermissionModule | null {
+  const match = ROUTE_MODULES.filter(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  ).sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  return match?.moduleId ?? null;
+}
+
+/**
+ * Checks whether an access level allows an action
+ */
+export function hasPermission(
+  permissions: PermissionMap | null | undefined,
+  moduleId: PermissionModule,
+  action: PermissionAction,
+): boolean {
+  if (!permissions) return false;
+  const level = permissions[moduleId] ?? "none";
+  return LEVEL_RANK[level] >= LEVEL_RANK[ACTION_REQUIRED_LEVEL[action]];
+}
+
+/**
+ * Checks whether the user may open a route
+ */
+export function canAccessRoute(
+  permissions: PermissionMap | null | undefined,
+  pathname: string,
+): boolean {
+  const moduleId = getRouteModule(pathname);
+  if (!moduleId) return true;
+  return hasPermission(permissions, moduleId, "view");
+}
+
+/**
+ * Roles that may release captured weighbridge weights for manual editing
+ * Gate staff capture weighments but cannot type over them
+ */
+const WEIGHMENT_OVERRIDE_ROLES: UserRole[] = ["admin"];
+
+export function canOverrideWeighments(user: SessionUser | null | undefined): boolean {
+  return !!user && WEIGHMENT_OVERRIDE_ROLES.includes(user.role);
+}
+
+/**
+ * Roles that may approve or return submitted QC receipts
+ * QC staff check and submit; a QC manager signs off
+ */
+const QC_APPROVER_ROLES: UserRole[] = ["admin", "qc-manager"];
+
+export function canApproveQCReceipts(user: SessionUser | null | undefined): boolean {
+  return !!user && QC_APPROVER_ROLES.includes(user.role);
+}
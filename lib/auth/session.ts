@@ -0,0 +1,100 @@
+/**
+ * Server-side session token utilities
+ * Issues and verifies the signed per-user session cookie (JWT, HS256)
+ * Never import this file from client components
+ */
+
+import jwt from "jsonwebtoken";
+import type { NextRequest, NextResponse } from "next/server";
+import { isUserRole, type SessionUser } from "./permissions";
+
+export const SESSION_COOKIE_NAME = "sf_session";
+
+/** Session lifetime without "Remember Me" */
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+/** Session lifetime with "Remember Me" */
+const REMEMBERED_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const SESSION_SECRET = process.env.AUTH_SESSION_SECRET || "";
+
+function getSecret(): string {
+  if (!SESSION_SECRET) {
+    throw new Error("AUTH_SESSION_SECRET is not configured on the server");
+  }
+  return SESSION_SECRET;
+}
+
+/**
+ * Signs a session token for the given user
+ */
+export function signSessionToken(
+  user: SessionUser,
+  rememberMe: boolean = false,
+): string {
+  return jwt.sign({ user }, getSecret(), {
+    algorithm: "HS256",
+    subject: user.userID,
+    expiresIn: rememberMe
+      ? REMEMBERED_SESSION_TTL_SECONDS
+      : SESSION_TTL_SECONDS,
+  });
+}
+
+/**
+ * Verifies a session token and returns the user, or null if invalid/expired
+ * Tokens issued for a role that no longer exists are rejected
+ */
+export function verifySessionToken(
+  token: string | undefined | null,
+): SessionUser | null {
+  if (!token) return null;
+  try {
+    const payload = jwt.verify(token, getSecret(), {
+      algorithms: ["HS256"],
+    }) as jwt.JwtPayload & { user?: SessionUser };
+    return payload.user && isUserRole(payload.user.role) ? payload.user : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads and verifies the session cookie from an incoming request
+ */
+export function getSessionFromRequest(
+  request: NextRequest,
+): SessionUser | null {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Attaches the session cookie to a response
+ * Without "Remember Me" the cookie is a browser-session cookie
+ */
+export function setSessionCookie(
+  response: NextResponse,
+  token: string,
+  rememberMe: boolean = false,
+): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    ...(rememberMe ? { maxAge: REMEMBERED_SESSION_TTL_SECONDS } : {}),
+  });
+}
+
+/**
+ * Removes the session cookie
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
@@ -1,25 +1,29 @@
 /**
  * Client-side authentication storage utilities
- * Handles storing and retrieving user credentials from localStorage/sessionStorage
- * For static hosting - no server-side cookies needed
+ * Mirrors the signed-in session user (role, permissions) in localStorage/sessionStorage
+ * The session itself lives in an httpOnly cookie issued by /api/auth/login;
+ * passwords are never stored in the browser
  */
 
-const AUTH_STORAGE_KEY = "sf_auth_credentials";
+import type { SessionUser } from "./permissions";
+
+const AUTH_STORAGE_KEY = "sf_auth_session";
 const USERNAME_STORAGE_KEY = "sf_remembered_username";
 
+/** Legacy key that held plain-text credentials; cleared on sight */
+const LEGACY_CREDENTIALS_KEY = "sf_auth_credentials";
+
 export interface AuthCredentials {
   userID: string;
-  password: string;
 }
 
 /**
- * Set authentication credentials in storage
+ * Set the session user in storage
  * Uses sessionStorage for better security (clears on tab close)
  * Uses localStorage if rememberMe is true (persists across sessions)
  */
-export function setAuthCredentials(
-  userID: string,
-  password: string,
+export function setAuthSession(
+  user: SessionUser,
   rememberMe: boolean = false,
 ): void {
   if (typeof window === "undefined") {
@@ -27,46 +31,36 @@ export function setAuthCredentials(
   }
 
   const storage = rememberMe ? localStorage : sessionStorage;
-  const credentials: AuthCredentials = { userID, password };
-
-  storage.setItem(AUTH_STORAGE_KEY, JSON.stringify(credentials));
+  storage.setItem(AUTH_STORAGE_KEY, JSON.stringify(user));
 
   // Also store username separately for "Remember Me" functionality
   if (rememberMe) {
-    localStorage.setItem(USERNAME_STORAGE_KEY, userID);
+    localStorage.setItem(USERNAME_STORAGE_KEY, user.userID);
   } else {
     localStorage.removeItem(USERNAME_STORAGE_KEY);
   }
 }
 
 /**
- * Get authentication credentials from storage
+ * Get the session user from storage
  * Checks both sessionStorage and localStorage (sessionStorage takes precedence)
  */
-export function getAuthCredentials(): AuthCredentials | null {
+export function getAuthSession(): SessionUser | null {
   if (typeof window === "undefined") {
     return null; // Server-side, return null
   }
 
-  // Check sessionStorage first (more secure, takes precedence)
-  const sessionCreds = sessionStorage.getItem(AUTH_STORAGE_KEY);
-  if (sessionCreds) {
-    try {
-      return JSON.parse(sessionCreds) as AuthCredentials;
-    } catch {
-      // Invalid JSON, clear it
-      sessionStorage.removeItem(AUTH_STORAGE_KEY);
-    }
-  }
+  sessionStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+  localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
 
-  // Fall back to localStorage (for "Remember Me")
-  const localCreds = localStorage.getItem(AUTH_STORAGE_KEY);
-  if (localCreds) {
+  for (const storage of [sessionStorage, localStorage]) {
+    const stored = storage.getItem(AUTH_STORAGE_KEY);
+    if (!stored) continue;
     try {
-      return JSON.parse(localCreds) as AuthCredentials;
+      return JSON.parse(stored) as SessionUser;
     } catch {
       // Invalid JSON, clear it
-      localStorage.removeItem(AUTH_STORAGE_KEY);
+      storage.removeItem(AUTH_STORAGE_KEY);
     }
   }
 
@@ -74,7 +68,29 @@ export function getAuthCredentials(): AuthCredentials | null {
 }
 
 /**
- * Clear authentication credentials from both storages
+ * Whether the stored session user came from a "Remember Me" login
+ */
+export function isRememberedSession(): boolean {
+  if (typeof window === "undefined") {
+    return false;
+  }
+  return (
+    sessionStorage.getItem(AUTH_STORAGE_KEY) === null &&
+    localStorage.getItem(AUTH_STORAGE_KEY) !== null
+  );
+}
+
+/**
+ * Get the signed-in user's ID
+ * Kept for callers that only need the user ID for ERP payloads and filters
+ */
+export function getAuthCredentials(): AuthCredentials | null {
+  const session = getAuthSession();
+  return session ? { userID: session.userID } : null;
+}
+
+/**
+ * Clear the session user from both storages
  */
 export function clearAuthCredentials(): void {
   if (typeof window === "undefined") {
@@ -87,10 +103,10 @@ export function clearAuthCredentials(): void {
 }
 
 /**
- * Check if user is authenticated (has credentials in storage)
+ * Check if user is authenticated (has a session user in storage)
  */
 export function isAuthenticated(): boolean {
-  return getAuthCredentials() !== null;
+  return getAuthSession() !== null;
 }
 
 /**
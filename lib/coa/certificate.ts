@@ -0,0 +1,305 @@
+/**
+ * Certificate of Analysis
+ * Builds a one-lot certificate from a posted QC receipt: company header,
+ * lot and dates, each quality parameter with its specification and result,
+ * the outcome, who checked and approved it, and a QR code carrying the
+ * certificate's particulars, so a customer can read them without the app
+ */
+
+import { format } from "date-fns";
+import {
+  EncodeHintType,
+  QRCodeDecoderErrorCorrectionLevel,
+  QRCodeEncoder,
+} from "@zxing/library";
+import {
+  getPostedQCReceiptHeader,
+  getPostedQCReceiptLines,
+  type QCReceiptHeader,
+  type QCReceiptLine,
+} from "@/lib/api/services/qc-receipt.service";
+import { createPdfDocument, type PdfColor, type PdfDocument } from "@/lib/pdf-document";
+import { evaluateQCLine } from "@/lib/qc/evaluation";
+import { toReceiptSummary } from "@/lib/qc/scorecard";
+import type { QCLineOutcome } from "@/lib/qc/types";
+import { formatDate } from "@/lib/utils/date";
+import type { CertificateOfAnalysis } from "./types";
+
+const COMPANY = process.env.NEXT_PUBLIC_API_COMPANY || "Sampoorna Feeds Pvt. Ltd";
+
+const MARGIN = 40;
+const QR_SIZE = 96;
+const FOOTER_HEIGHT = 40;
+
+const MUTED: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.75, 0.75, 0.75];
+const HEADER_FILL: PdfColor = [0.93, 0.93, 0.93];
+
+const OUTCOME_LABELS: Record<QCLineOutcome, { label: string; color: PdfColor }> = {
+  pass: { label: "Conforms", color: [0.08, 0.5, 0.2] },
+  deviation: { label: "Deviation", color: [0.8, 0.4, 0] },
+  fail: { label: "Does not conform", color: [0.75, 0.1, 0.1] },
+  pending: { label: "-", color: MUTED },
+};
+
+const COLUMNS = [
+  { key: "index", title: "#", width: 22 },
+  { key: "parameter", title: "Parameter", width: 150 },
+  { key: "method", title: "Method", width: 100 },
+  { key: "specification", title: "Specification", width: 95 },
+  { key: "result", title: "Result", width: 78 },
+  { key: "status", title: "Status", width: 70 },
+] as const;
+
+type ColumnKey = (typeof COLUMNS)[number]["key"];
+
+/**
+ * Accepted, deviation and rejected quantities of the lot
+ */
+function formatOutcome(receipt: QCReceiptHeader): string[] {
+  const unit = receipt.Unit_of_Measure ? ` ${receipt.Unit_of_Measure}` : "";
+  const { accepted, deviation, rejected, rebatePercent } = toReceiptSummary(receipt);
+  return [
+    `Accepted: ${formatNumber(accepted)}${unit}`,
+    deviation > 0 &&
+      `Accepted with deviation: ${formatNumber(deviation)}${unit}` +
+        (rebatePercent ? ` (rebate ${rebatePercent}%)` : ""),
+    `Rejected: ${formatNumber(rejected)}${unit}`,
+  ].filter(Boolean) as string[];
+}
+
+/**
+ * What the QR code holds: the certificate's particulars as plain text, one
+ * per line. Customers cannot sign in to the app, so the code carries the
+ * data itself rather than a link back to the receipt
+ */
+export function getCertificateQRText(companyName: string, receipt: QCReceiptHeader): string {
+  return [
+    "Certificate of Analysis",
+    companyName,
+    `Certificate No: ${receipt.No}`,
+    `Item: ${[receipt.Item_No, receipt.Item_Name].filter(Boolean).join(" – ")}`,
+    receipt.Item_Tracking && `Lot No: ${receipt.Item_Tracking}`,
+    receipt.Vendor_Lot_No && `Vendor Lot No: ${receipt.Vendor_Lot_No}`,
+    `QC Date: ${formatDate(receipt.QC_Date)}`,
+    ...formatOutcome(receipt),
+    receipt.Approved_By && `Approved By: ${receipt.Approved_By}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export async function loadCertificateOfAnalysis(
+  receiptNo: string,
+): Promise<CertificateOfAnalysis> {
+  const [receipt, lines] = await Promise.all([
+    getPostedQCReceiptHeader(receiptNo),
+    getPostedQCReceiptLines(receiptNo),
+  ]);
+  return {
+    companyName: COMPANY,
+    receipt,
+    lines,
+    qrText: getCertificateQRText(COMPANY, receipt),
+    generatedAt: new Date(),
+  };
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-IN", { maximumFractionDigits: 3 });
+}
+
+function formatSpecification(line: QCReceiptLine): string {
+  const unit = line.Unit_of_Measure_Code ? ` ${line.Unit_of_Measure_Code}` : "";
+  if ((line.Type || "").toLowerCase() === "text") return line.Text_Value || "-";
+  const min = Number(line.Min_Value) || 0;
+  const max = Number(line.Max_Value) || 0;
+  if (min && max) return `${min} – ${max}${unit}`;
+  if (max) return `Max ${max}${unit}`;
+  if (min) return `Min ${min}${unit}`;
+  return "-";
+}
+
+function formatResult(line: QCReceiptLine, outcome: QCLineOutcome): string {
+  if (outcome === "pending") return line.Result || "-";
+  if ((line.Type || "").toLowerCase() === "text") return line.Actual_Text || "-";
+  const unit = line.Unit_of_Measure_Code ? ` ${line.Unit_of_Measure_Code}` : "";
+  return `${line.Actual_Value}${unit}`;
+}
+
+function drawQRCode(doc: PdfDocument, text: string, x: number, y: number, size: number) {
+  // UTF-8, so names in Devanagari and the ₹ sign survive
+  const hints = new Map([[EncodeHintType.CHARACTER_SET, "UTF-8"]]);
+  const matrix = QRCodeEncoder.encode(text, QRCodeDecoderErrorCorrectionLevel.M, hints)
+    .getMatrix();
+  const count = matrix.getWidth();
+  const cell = size / count;
+  for (let row = 0; row < count; row++) {
+    // Draw each run of dark modules as one rectangle
+    let start = -1;
+    for (let col = 0; col <= count; col++) {
+      const dark = col < count && matrix.get(col, row) === 1;
+      if (dark && start < 0) start = col;
+      if (!dark && start >= 0) {
+        doc.rect(x + start * cell, y + row * cell, (col - start) * cell, cell, {
+          fill: [0, 0, 0],
+        });
+        start = -1;
+      }
+    }
+  }
+}
+
+/**
+ * Render the certificate; returns the PDF as base64
+ */
+export async function renderCertificateOfAnalysis(
+  coa: CertificateOfAnalysis,
+): Promise<string> {
+  const { receipt, lines } = coa;
+  const doc = await createPdfDocument();
+  const right = doc.pageWidth - MARGIN;
+  const bottom = doc.pageHeight - FOOTER_HEIGHT;
+  const generated = format(coa.generatedAt, "dd/MM/yyyy HH:mm");
+  let pageNo = 1;
+  let y = MARGIN;
+
+  const drawFooter = () => {
+    const footerY = doc.pageHeight - 22;
+    doc.line(MARGIN, footerY - 12, right, footerY - 12, { color: RULE });
+    doc.text(`${receipt.No} · Generated ${generated}`, MARGIN, footerY, { size: 7.5, color: MUTED });
+    doc.text(`Page ${pageNo}`, right, footerY, { size: 7.5, color: MUTED, align: "right" });
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    pageNo += 1;
+    drawFooter();
+    y = MARGIN;
+  };
+
+  // Header
+  drawFooter();
+  doc.text(coa.companyName, MARGIN, y + 14, { size: 16, bold: true });
+  doc.text("Certificate of Analysis", MARGIN, y + 34, { size: 12, bold: true, color: MUTED });
+  doc.text(`Certificate No: ${receipt.No}`, MARGIN, y + 52, { size: 9 });
+  drawQRCode(doc, coa.qrText, right - QR_SIZE, y - 6, QR_SIZE);
+  doc.text("Scan for certificate details", right - QR_SIZE / 2, y + QR_SIZE + 4, {
+    size: 6.5,
+    color: MUTED,
+    align: "center",
+  });
+  y += QR_SIZE + 16;
+  doc.line(MARGIN, y, right, y, { width: 1 });
+  y += 18;
+
+  // Lot details, two per row
+  const details: Array<[string, string]> = [
+    ["Item", [receipt.Item_No, receipt.Item_Name].filter(Boolean).join(" – ")],
+    ["Unit of Measure", receipt.Unit_of_Measure],
+    ["Lot No", receipt.Item_Tracking],
+    ["Vendor Lot No", receipt.Vendor_Lot_No],
+    ["Mfg Date", formatDate(receipt.Mfg_Date)],
+    ["Expiry Date", formatDate(receipt.Exp_Date)],
+    ["QC Date", formatDate(receipt.QC_Date)],
+    ["Inspected Quantity", formatNumber(Number(receipt.Inspection_Quantity) || 0)],
+    ["Vendor", receipt.Buy_from_Vendor_Name || receipt.Buy_from_Vendor_No],
+    ["Purchase Receipt No", receipt.Purchase_Receipt_No],
+  ];
+  const columnWidth = (right - MARGIN) / 2;
+  details.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * columnWidth;
+    const rowY = y + Math.floor(index / 2) * 26;
+    doc.text(label.toUpperCase(), x, rowY, { size: 7, bold: true, color: MUTED });
+    const [first] = doc.wrapText(value || "-", columnWidth - 12, 9.5);
+    doc.text(first, x, rowY + 12, { size: 9.5 });
+  });
+  y += Math.ceil(details.length / 2) * 26 + 8;
+
+  // Parameters
+  const drawTableHeader = () => {
+    doc.rect(MARGIN, y, right - MARGIN, 18, { fill: HEADER_FILL });
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      doc.text(column.title, x + 4, y + 12, { size: 8, bold: true });
+      x += column.width;
+    }
+    y += 18;
+  };
+
+  doc.text("Test Results", MARGIN, y, { size: 11, bold: true });
+  y += 8;
+  drawTableHeader();
+
+  if (lines.length === 0) {
+    doc.text("No quality parameters recorded", MARGIN + 4, y + 14, { size: 9, color: MUTED });
+    y += 22;
+  }
+
+  lines.forEach((line, index) => {
+    const evaluation = evaluateQCLine(line);
+    const status = OUTCOME_LABELS[evaluation.outcome];
+    const cells: Record<ColumnKey, string[]> = {
+      index: [String(index + 1)],
+      parameter: doc.wrapText(line.Description || line.Quality_Parameter_Code, 142, 8.5),
+      method: doc.wrapText(line.Method_Description || "-", 92, 8.5),
+      specification: doc.wrapText(formatSpecification(line), 87, 8.5),
+      result: doc.wrapText(formatResult(line, evaluation.outcome), 70, 8.5),
+      status: doc.wrapText(status.label, 62, 8.5, true),
+    };
+    const rowHeight = Math.max(...Object.values(cells).map((cell) => cell.length)) * 11 + 7;
+
+    if (y + rowHeight > bottom) {
+      newPage();
+      drawTableHeader();
+    }
+
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      cells[column.key].forEach((text, lineIndex) => {
+        doc.text(text, x + 4, y + 12 + lineIndex * 11, {
+          size: 8.5,
+          bold: column.key === "status" || (column.key === "parameter" && line.Mandatory),
+          color: column.key === "status" ? status.color : undefined,
+        });
+      });
+      x += column.width;
+    }
+    y += rowHeight;
+    doc.line(MARGIN, y, right, y, { color: RULE });
+  });
+  if (lines.some((line) => line.Mandatory)) {
+    doc.text("Mandatory parameters in bold", MARGIN, y + 11, { size: 7, color: MUTED });
+    y += 12;
+  }
+
+  // Outcome and sign-off stay together
+  const comment = receipt.Comment ? doc.wrapText(receipt.Comment, right - MARGIN, 9) : [];
+  if (y + 120 + comment.length * 12 > bottom) newPage();
+  y += 24;
+
+  const outcome = formatOutcome(receipt);
+
+  doc.text("Outcome", MARGIN, y, { size: 11, bold: true });
+  y += 16;
+  doc.text(outcome.join("   ·   "), MARGIN, y, { size: 9.5 });
+  y += 14;
+  comment.forEach((text) => {
+    doc.text(text, MARGIN, y, { size: 9, color: MUTED });
+    y += 12;
+  });
+
+  y += 44;
+  const signatures: Array<[string, string]> = [
+    ["Checked By", receipt.Checked_By],
+    ["Approved By", receipt.Approved_By],
+  ];
+  signatures.forEach(([label, name], index) => {
+    const x = MARGIN + index * columnWidth;
+    doc.text(name || "", x, y - 6, { size: 9.5, bold: true });
+    doc.line(x, y, x + columnWidth - 40, y);
+    doc.text(label, x, y + 12, { size: 8, color: MUTED });
+  });
+
+  return doc.toBase64();
+}
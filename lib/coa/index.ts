@@ -0,0 +1,7 @@
+/**
+ * Certificate of Analysis exports
+ */
+
+export * from "./types";
+export * from "./certificate";
+export * from "./use-certificate-of-analysis";
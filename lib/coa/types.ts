@@ -0,0 +1,17 @@
+/**
+ * Certificate of Analysis Types
+ */
+
+import type {
+  QCReceiptHeader,
+  QCReceiptLine,
+} from "@/lib/api/services/qc-receipt.service";
+
+export interface CertificateOfAnalysis {
+  companyName: string;
+  receipt: QCReceiptHeader;
+  lines: QCReceiptLine[];
+  /** Encoded in the QR code; the certificate's particulars as plain text */
+  qrText: string;
+  generatedAt: Date;
+}
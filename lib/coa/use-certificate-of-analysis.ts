@@ -0,0 +1,32 @@
+/**
+ * Certificate of Analysis hook
+ * Loads a posted QC receipt, renders its certificate and opens it
+ */
+
+"use client";
+
+import { useCallback, useState } from "react";
+import { toastError } from "@/lib/errors";
+import { viewPdfFromBase64 } from "@/lib/pdf-utils";
+import { loadCertificateOfAnalysis, renderCertificateOfAnalysis } from "./certificate";
+
+export function useCertificateOfAnalysis() {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const generate = useCallback(async (receiptNo: string) => {
+    setIsGenerating(true);
+    try {
+      const coa = await loadCertificateOfAnalysis(receiptNo);
+      viewPdfFromBase64(await renderCertificateOfAnalysis(coa), `CoA_${receiptNo}`);
+      return true;
+    } catch (error) {
+      console.error("Error generating certificate of analysis:", error);
+      toastError(error, "Failed to generate the certificate of analysis");
+      return false;
+    } finally {
+      setIsGenerating(false);
+    }
+  }, []);
+
+  return { generate, isGenerating };
+}
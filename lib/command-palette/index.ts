@@ -0,0 +1,6 @@
+/**
+ * Command Palette exports
+ */
+
+export * from "./types";
+export * from "./sources";
@@ -0,0 +1,231 @@
+/**
+ * Document Search Sources
+ * Live document lookups shown in the command palette, each paired with the
+ * FormStack tab its list page opens for a row
+ */
+
+import {
+  ArrowLeftRight,
+  ClipboardCheck,
+  Factory,
+  Package,
+  ShoppingCart,
+  Truck,
+} from "lucide-react";
+import { searchSalesOrders } from "@/lib/api/services/sales-orders.service";
+import { searchPurchaseOrders } from "@/lib/api/services/purchase-orders.service";
+import { searchTransferOrders } from "@/lib/api/services/transfer-orders.service";
+import { getProductionOrdersWithCount } from "@/lib/api/services/production-orders.service";
+import { searchQCReceipts } from "@/lib/api/services/qc-receipt.service";
+import { searchInwardGateEntries } from "@/lib/api/services/inward-gate-entry.service";
+import { searchOutwardGateEntries } from "@/lib/api/services/outward-gate-entry.service";
+import type { DocumentSearchSource } from "./types";
+
+export const DOCUMENT_SEARCH_SOURCES: DocumentSearchSource[] = [
+  {
+    id: "sales-order",
+    label: "Sales Orders",
+    route: "/sales/order",
+    icon: Package,
+    search: async (term, top) => {
+      const { orders } = await searchSalesOrders({
+        searchTerm: term,
+        $select: "No,Sell_to_Customer_Name,Status",
+        $top: top,
+      });
+      return orders.map((order) => ({
+        sourceId: "sales-order",
+        no: order.No,
+        description: order.Sell_to_Customer_Name,
+        target: {
+          route: "/sales/order",
+          formScope: "sales",
+          formType: "sales-document",
+          options: {
+            title: `Order ${order.No}`,
+            context: { documentType: "order", mode: "view", orderNo: order.No },
+            autoCloseOnSuccess: false,
+          },
+        },
+      }));
+    },
+  },
+  {
+    id: "purchase-order",
+    label: "Purchase Orders",
+    route: "/purchase/order",
+    icon: ShoppingCart,
+    search: async (term, top) => {
+      const { orders } = await searchPurchaseOrders({
+        searchTerm: term,
+        $select: "No,Buy_from_Vendor_Name,Status",
+        $top: top,
+      });
+      return orders.map((order) => {
+        const vendorName = order.Buy_from_Vendor_Name;
+        return {
+          sourceId: "purchase-order",
+          no: order.No,
+          description: vendorName,
+          target: {
+            route: "/purchase/order",
+            formScope: "purchase",
+            formType: "purchase-document",
+            options: {
+              title: `Order ${order.No}${vendorName ? ` - ${vendorName}` : ""}`,
+              context: {
+                documentType: "order",
+                mode: "view",
+                orderNo: order.No,
+                vendorName,
+              },
+              autoCloseOnSuccess: false,
+            },
+          },
+        };
+      });
+    },
+  },
+  {
+    id: "transfer-order",
+    label: "Transfer Orders",
+    route: "/transfer-orders",
+    icon: ArrowLeftRight,
+    search: async (term, top) => {
+      const { orders } = await searchTransferOrders({
+        searchTerm: term,
+        $select: "No,Transfer_from_Code,Transfer_to_Code,Status",
+        $top: top,
+      });
+      return orders.map((order) => ({
+        sourceId: "transfer-order",
+        no: order.No,
+        description: [order.Transfer_from_Code, order.Transfer_to_Code]
+          .filter(Boolean)
+          .join(" → "),
+        target: {
+          route: "/transfer-orders",
+          formScope: "transfer",
+          formType: "transfer-order",
+          options: {
+            title: `Order ${order.No}`,
+            context: { orderNo: order.No, mode: "view" },
+          },
+        },
+      }));
+    },
+  },
+  {
+    id: "production-order",
+    label: "Production Orders",
+    route: "/production-orders",
+    icon: Factory,
+    search: async (term, top) => {
+      // No multi-field search exists for production orders; match on No
+      const escaped = term.replace(/'/g, "''");
+      const { orders } = await getProductionOrdersWithCount({
+        $filter: `Status eq 'Released' and contains(No,'${escaped}')`,
+        $top: top,
+      });
+      return orders.map((order) => ({
+        sourceId: "production-order",
+        no: order.No,
+        description: order.Description,
+        target: {
+          route: "/production-orders",
+          formScope: "production-orders",
+          formType: "production-order",
+          options: {
+            title: `Order: ${order.No}`,
+            context: { mode: "view", orderNo: order.No, openedFromParent: true },
+            autoCloseOnSuccess: false,
+          },
+        },
+      }));
+    },
+  },
+  {
+    id: "qc-receipt",
+    label: "QC Receipts",
+    route: "/qc-receipt",
+    icon: ClipboardCheck,
+    search: async (term, top) => {
+      const { receipts } = await searchQCReceipts({ searchTerm: term, $top: top });
+      return receipts.map((receipt) => ({
+        sourceId: "qc-receipt",
+        no: receipt.No,
+        description: receipt.Item_Name,
+        target: {
+          route: "/qc-receipt",
+          formScope: "qc-receipt",
+          formType: "qc-receipt-detail",
+          options: {
+            title: `QC Detail: ${receipt.No}`,
+            context: { receipt, isPosted: false },
+          },
+        },
+      }));
+    },
+  },
+  {
+    id: "inward-gate-entry",
+    label: "Inward Gate Entries",
+    route: "/inward-gate-entry",
+    icon: Truck,
+    search: async (term, top) => {
+      const { entries } = await searchInwardGateEntries({
+        searchTerm: term,
+        $top: top,
+      });
+      return entries.map((entry) => ({
+        sourceId: "inward-gate-entry",
+        no: entry.No,
+        description: entry.Description,
+        target: {
+          route: "/inward-gate-entry",
+          formScope: "inward-gate-entry",
+          formType: "inward-gate-entry",
+          options: {
+            title: `Gate Entry: ${entry.No}`,
+            context: { entry, mode: "view" },
+          },
+        },
+      }));
+    },
+  },
+  {
+    id: "outward-gate-entry",
+    label: "Outward Gate Entries",
+    route: "/outward-gate-entry",
+    icon: Truck,
+    search: async (term, top) => {
+      const { entries } = await searchOutwardGateEntries({
+        searchTerm: term,
+        $top: top,
+      });
+      return entries.map((entry) => ({
+        sourceId: "outward-gate-entry",
+        no: entry.No,
+        description: entry.Description,
+        target: {
+          route: "/outward-gate-entry",
+          formScope: "outward-gate-entry",
+          formType: "outward-gate-entry",
+          options: {
+            title: `Gate Entry: ${entry.No}`,
+            context: { entry, mode: "view" },
+          },
+        },
+      }));
+    },
+  },
+];
+
+/**
+ * Whether a query looks like a document number (e.g. "SO-1234", "1234")
+ * Live lookups fan out to several requests, so plain words only match modules
+ */
+export function isDocumentNumberQuery(query: string): boolean {
+  const trimmed = query.trim();
+  return trimmed.length >= 3 && /\d/.test(trimmed);
+}
@@ -0,0 +1,29 @@
+/**
+ * Command Palette Types
+ */
+
+import type { OpenTabOptions } from "@/lib/form-stack";
+
+/** FormStack tab to open for a document, on the page that hosts its scope */
+export interface DocumentOpenTarget {
+  route: string;
+  formScope: string;
+  formType: string;
+  options: OpenTabOptions;
+}
+
+export interface DocumentMatch {
+  sourceId: string;
+  no: string;
+  description?: string;
+  target: DocumentOpenTarget;
+}
+
+export interface DocumentSearchSource {
+  id: string;
+  label: string;
+  /** List page; also used for the permission check */
+  route: string;
+  icon: React.ComponentType<{ className?: string }>;
+  search: (term: string, top: number) => Promise<DocumentMatch[]>;
+}
@@ -0,0 +1,94 @@
+/**
+ * Bulk Compliance Actions
+ * Runs an e-invoice / e-way bill action over selected documents one at a time
+ * (the ERP calls the IRP/NIC portals synchronously) and reports each result
+ */
+
+import {
+  cancelEInvoice,
+  cancelEWayBill,
+  generateEInvoice,
+  generateEWayBill,
+} from "@/lib/api/services/eway-einvoice.service";
+import { getErrorMessage } from "@/lib/errors";
+import type {
+  BulkResult,
+  ComplianceActionDefinition,
+  ComplianceDocument,
+} from "./types";
+
+export const COMPLIANCE_ACTIONS: ComplianceActionDefinition[] = [
+  {
+    id: "generate-einvoice",
+    label: "Generate E-Invoice",
+    destructive: false,
+    isAllowed: (can) => can("sales", "post"),
+    getSkipReason: (doc) =>
+      doc.irnStatus === "generated" ? "IRN already generated" : null,
+    run: (doc) => generateEInvoice(doc.docType, doc.no),
+  },
+  {
+    id: "cancel-einvoice",
+    label: "Cancel E-Invoice",
+    destructive: true,
+    isAllowed: (can) => can("sales", "post"),
+    getSkipReason: (doc) =>
+      doc.irnStatus === "generated" ? null : "No active IRN",
+    run: (doc) => cancelEInvoice(doc.docType, doc.no),
+  },
+  {
+    id: "generate-ewaybill",
+    label: "Generate E-Way Bill",
+    destructive: false,
+    isAllowed: (can) => can("sales", "post") || can("stock", "post"),
+    getSkipReason: (doc) =>
+      doc.eWayBillNo ? "E-way bill already generated" : null,
+    run: (doc) => generateEWayBill(doc.docType, doc.no),
+  },
+  {
+    id: "cancel-ewaybill",
+    label: "Cancel E-Way Bill",
+    destructive: true,
+    isAllowed: (can) => can("sales", "post") || can("stock", "post"),
+    getSkipReason: (doc) => (doc.eWayBillNo ? null : "No e-way bill"),
+    run: (doc) => cancelEWayBill(doc.docType, doc.no),
+  },
+];
+
+/**
+ * Run an action over documents sequentially
+ * A failure is recorded against its document and the run continues
+ */
+export async function runBulkComplianceAction(
+  action: ComplianceActionDefinition,
+  documents: ComplianceDocument[],
+  onResult?: (result: BulkResult, index: number) => void,
+): Promise<BulkResult[]> {
+  const results: BulkResult[] = [];
+
+  for (const [index, doc] of documents.entries()) {
+    const base = { key: doc.key, no: doc.no, source: doc.source };
+    const skipReason = action.getSkipReason(doc);
+    let result: BulkResult;
+
+    if (skipReason) {
+      result = { ...base, status: "skipped", message: skipReason };
+    } else {
+      try {
+        await action.run(doc);
+        result = { ...base, status: "success", message: "Done" };
+      } catch (error) {
+        result = {
+          ...base,
+          status: "failed",
+          message: getErrorMessage(error, `${action.label} failed`),
+        };
+      }
+    }
+
+    results.push(result);
+    onResult?.(result, index);
+  }
+
+  return results;
+}
@@ -0,0 +1,9 @@
+/**
+ * Compliance exports
+ */
+
+export * from "./types";
+export * from "./validity";
+export * from "./sources";
+export * from "./bulk";
+export * from "./use-compliance-documents";
@@ -0,0 +1,143 @@
+/**
+ * Compliance Sources
+ * Loads posted invoices, credit memos and transfer shipments for a date range,
+ * limited to the user's branches, and maps them to one document shape
+ */
+
+import { getPostedInvoicesWithCount } from "@/lib/api/services/sales-posted-invoices.service";
+import { getPostedSalesCreditMemos } from "@/lib/api/services/posted-sales.service";
+import { getPostedTransferShipments } from "@/lib/api/services/transfer-orders.service";
+import { getEWayBillValidUntil } from "./validity";
+import type {
+  ComplianceDocument,
+  ComplianceFilters,
+  ComplianceSource,
+  IrnStatus,
+} from "./types";
+
+/** Per-source cap; the workspace is meant for recent dispatches */
+export const COMPLIANCE_PAGE_SIZE = 500;
+
+export const COMPLIANCE_SOURCE_LABELS: Record<ComplianceSource, string> = {
+  SalesInvoice: "Sales Invoice",
+  SalesCredit: "Credit Memo",
+  Transfer: "Transfer Shipment",
+};
+
+export interface ComplianceLoadResult {
+  documents: ComplianceDocument[];
+  /** Sources with more documents than were loaded */
+  truncatedSources: ComplianceSource[];
+}
+
+type HeaderRow = Record<string, unknown>;
+
+function text(row: HeaderRow, field: string): string {
+  const value = row[field];
+  return typeof value === "string" ? value : "";
+}
+
+function buildFilter(
+  { fromDate, toDate }: ComplianceFilters,
+  branchCodes: string[],
+): string {
+  const parts: string[] = [];
+  if (fromDate) parts.push(`Posting_Date ge ${fromDate}`);
+  if (toDate) parts.push(`Posting_Date le ${toDate}`);
+  // Users without any branch assignment see nothing, matching the list pages
+  const branchFilter =
+    branchCodes.length > 0
+      ? branchCodes
+          .map((code) => `Shortcut_Dimension_2_Code eq '${code.replace(/'/g, "''")}'`)
+          .join(" or ")
+      : "Shortcut_Dimension_2_Code eq 'NONE'";
+  parts.push(`(${branchFilter})`);
+  return parts.join(" and ");
+}
+
+function getIrnStatus(row: HeaderRow): IrnStatus {
+  if (/cancel/i.test(text(row, "E_Invoice_Status"))) return "cancelled";
+  return text(row, "E_Invoice_No") ? "generated" : "pending";
+}
+
+function toDocument(source: ComplianceSource, row: HeaderRow): ComplianceDocument {
+  const no = text(row, "No");
+  const postingDate = text(row, "Posting_Date");
+  const eWayBillNo = text(row, "E_Way_Bill_No");
+  const distance = row.Distance_Km;
+
+  return {
+    key: `${source}:${no}`,
+    source,
+    docType: source,
+    no,
+    postingDate,
+    party:
+      source === "Transfer"
+        ? `${text(row, "Transfer_from_Code")} → ${text(row, "Transfer_to_Code")}`
+        : text(row, "Sell_to_Customer_Name") || text(row, "Sell_to_Customer_No"),
+    branchCode: text(row, "Shortcut_Dimension_2_Code"),
+    vehicleNo: text(row, "Vehicle_No"),
+    irnNo: text(row, "E_Invoice_No"),
+    irnStatus: getIrnStatus(row),
+    eWayBillNo,
+    validUntil: eWayBillNo
+      ? getEWayBillValidUntil(
+          text(row, "E_Way_Bill_Date") || postingDate,
+          typeof distance === "number" ? distance : undefined,
+          text(row, "E_Way_Bill_Valid_Upto") || undefined,
+        )
+      : null,
+  };
+}
+
+async function loadSource(
+  source: ComplianceSource,
+  $filter: string,
+): Promise<{ rows: HeaderRow[]; totalCount: number }> {
+  const params = { $filter, $orderby: "No desc", $top: COMPLIANCE_PAGE_SIZE };
+
+  switch (source) {
+    case "SalesInvoice": {
+      const { orders, totalCount } = await getPostedInvoicesWithCount(params);
+      return { rows: orders, totalCount };
+    }
+    case "SalesCredit": {
+      const response = await getPostedSalesCreditMemos(params);
+      return {
+        rows: response.value || [],
+        totalCount: response["@odata.count"] ?? 0,
+      };
+    }
+    case "Transfer": {
+      const { orders, totalCount } = await getPostedTransferShipments({
+        ...params,
+        $select:
+          "No,Transfer_from_Code,Transfer_to_Code,Posting_Date,Vehicle_No,E_Way_Bill_No,E_Way_Bill_Date,E_Way_Bill_Valid_Upto,Distance_Km,E_Invoice_No,Shortcut_Dimension_2_Code",
+      });
+      return { rows: orders, totalCount };
+    }
+  }
+}
+
+export async function loadComplianceDocuments(
+  filters: ComplianceFilters,
+  branchCodes: string[],
+): Promise<ComplianceLoadResult> {
+  const $filter = buildFilter(filters, branchCodes);
+  const results = await Promise.all(
+    filters.sources.map(async (source) => ({
+      source,
+      ...(await loadSource(source, $filter)),
+    })),
+  );
+
+  return {
+    documents: results.flatMap(({ source, rows }) =>
+      rows.map((row) => toDocument(source, row)),
+    ),
+    truncatedSources: results
+      .filter(({ rows, totalCount }) => totalCount > rows.length)
+      .map(({ source }) => source),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Compliance Types
+ */
+
+import type { DocType } from "@/lib/api/services/eway-einvoice.service";
+import type { PermissionAction, PermissionModule } from "@/lib/auth/permissions";
+
+/** Posted documents the compliance workspace tracks */
+export type ComplianceSource = "SalesInvoice" | "SalesCredit" | "Transfer";
+
+export type IrnStatus = "pending" | "generated" | "cancelled";
+
+export type EWayBillStatus = "pending" | "active" | "expiring" | "expired";
+
+export interface ComplianceDocument {
+  /** Source and number together are unique */
+  key: string;
+  source: ComplianceSource;
+  docType: DocType;
+  no: string;
+  postingDate: string;
+  /** Customer name, or "from → to" for transfers */
+  party: string;
+  branchCode: string;
+  vehicleNo: string;
+  irnNo: string;
+  irnStatus: IrnStatus;
+  eWayBillNo: string;
+  /** Expiry of the e-way bill (ms epoch), null without a bill */
+  validUntil: number | null;
+}
+
+export type ComplianceAction =
+  | "generate-einvoice"
+  | "cancel-einvoice"
+  | "generate-ewaybill"
+  | "cancel-ewaybill";
+
+export interface ComplianceActionDefinition {
+  id: ComplianceAction;
+  label: string;
+  /** Cancellations ask for confirmation before running */
+  destructive: boolean;
+  /** Whether the user may run it; mirrors the /api/erp permission of its action */
+  isAllowed: (can: (moduleId: PermissionModule, action: PermissionAction) => boolean) => boolean;
+  /** Reason the document is skipped, or null when the action applies */
+  getSkipReason: (doc: ComplianceDocument) => string | null;
+  run: (doc: ComplianceDocument) => Promise<void>;
+}
+
+export type BulkResultStatus = "success" | "failed" | "skipped";
+
+export interface BulkResult {
+  key: string;
+  no: string;
+  source: ComplianceSource;
+  status: BulkResultStatus;
+  message: string;
+}
+
+export interface ComplianceFilters {
+  fromDate: string;
+  toDate: string;
+  sources: ComplianceSource[];
+}
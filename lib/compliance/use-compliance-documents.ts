@@ -0,0 +1,119 @@
+/**
+ * Compliance documents hook
+ * Loads the workspace documents for the current filters within the user's
+ * branches and keeps a clock for the validity countdowns
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { getWebUserSetup } from "@/lib/api/services/dimension.service";
+import { getErrorMessage } from "@/lib/errors";
+import { loadComplianceDocuments } from "./sources";
+import type {
+  ComplianceDocument,
+  ComplianceFilters,
+  ComplianceSource,
+} from "./types";
+
+const CLOCK_INTERVAL_MS = 60 * 1000;
+
+export const ALL_COMPLIANCE_SOURCES: ComplianceSource[] = [
+  "SalesInvoice",
+  "SalesCredit",
+  "Transfer",
+];
+
+interface LoadResult {
+  requestKey: string;
+  documents: ComplianceDocument[];
+  truncatedSources: ComplianceSource[];
+  error: string | null;
+}
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Yesterday and today: bills generated on dispatch day expire soonest */
+function getDefaultFilters(): ComplianceFilters {
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+  return {
+    fromDate: toDateString(yesterday),
+    toDate: toDateString(today),
+    sources: ALL_COMPLIANCE_SOURCES,
+  };
+}
+
+export function useComplianceDocuments() {
+  const { userID } = useAuth();
+  const [filters, setFilters] = useState<ComplianceFilters>(getDefaultFilters);
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const requestKey = `${JSON.stringify(filters)}#${generation}`;
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!userID) return;
+    let cancelled = false;
+
+    getWebUserSetup(userID)
+      .then((setup) => {
+        const branchCodes = Array.from(
+          new Set(setup.map((row) => row.Branch_Code).filter(Boolean)),
+        );
+        return loadComplianceDocuments(filters, branchCodes);
+      })
+      .then(({ documents, truncatedSources }) => {
+        if (cancelled) return;
+        setResult({ requestKey, documents, truncatedSources, error: null });
+        setNow(Date.now());
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setResult({
+          requestKey,
+          documents: [],
+          truncatedSources: [],
+          error: getErrorMessage(error, "Failed to load documents"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userID, filters, requestKey]);
+
+  const isLoading = !!userID && result?.requestKey !== requestKey;
+  const documents = useMemo(() => result?.documents ?? [], [result]);
+
+  const updateFilters = useCallback((next: Partial<ComplianceFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    documents,
+    truncatedSources: result?.truncatedSources ?? [],
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    now,
+    refetch,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * E-Way Bill Validity
+ * Rule 138(10): one day per 200 km (or part), each day ending at midnight
+ * of the day after generation. The ERP does not expose the generation time or
+ * NIC's valid-upto date on every posted header, so the posting date and, when
+ * missing, a single day are used - the countdown errs on the early side
+ */
+
+import type { EWayBillStatus } from "./types";
+
+const KM_PER_DAY = 200;
+
+/** Bills closer than this to expiry are flagged */
+export const EXPIRING_SOON_MS = 8 * 60 * 60 * 1000;
+
+/** Local midnight at the start of a YYYY-MM-DD date */
+function startOfLocalDay(date: string): Date | null {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  if (!year || !month || !day || year < 1900) return null;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Expiry (ms epoch) of a bill generated on `generatedOn` for `distanceKm`
+ * An explicit valid-upto value from the ERP wins when present
+ */
+export function getEWayBillValidUntil(
+  generatedOn: string | undefined,
+  distanceKm?: number,
+  validUpto?: string,
+): number | null {
+  if (validUpto) {
+    const explicit = new Date(validUpto);
+    if (!isNaN(explicit.getTime()) && explicit.getFullYear() > 1900) {
+      return explicit.getTime();
+    }
+  }
+  if (!generatedOn) return null;
+  const start = startOfLocalDay(generatedOn);
+  if (!start) return null;
+
+  const days = Math.max(1, Math.ceil((distanceKm || 0) / KM_PER_DAY));
+  // Day 1 ends at midnight after the generation date
+  start.setDate(start.getDate() + days + 1);
+  return start.getTime();
+}
+
+export function getEWayBillStatus(
+  eWayBillNo: string,
+  validUntil: number | null,
+  now: number,
+): EWayBillStatus {
+  if (!eWayBillNo) return "pending";
+  if (validUntil === null) return "active";
+  const remaining = validUntil - now;
+  if (remaining <= 0) return "expired";
+  return remaining <= EXPIRING_SOON_MS ? "expiring" : "active";
+}
+
+/** "1d 4h left", "35m left" or "Expired 2h ago" */
+export function formatValidityCountdown(validUntil: number, now: number): string {
+  const diff = validUntil - now;
+  const minutes = Math.floor(Math.abs(diff) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  const span =
+    days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+  return diff > 0 ? `${span} left` : `Expired ${span} ago`;
+}
@@ -2,8 +2,8 @@
 
 /**
  * Authentication Context
- * Provides userID and authentication state throughout the app
- * For static hosting - checks localStorage/sessionStorage instead of server API
+ * Provides userID, role/permissions and authentication state throughout the app
+ * Validates the httpOnly session cookie via /api/auth/session
  */
 
 import React, {
@@ -13,14 +13,31 @@ import React, {
   useState,
   useCallback,
 } from "react";
-import { getAuthCredentials, clearAuthCredentials } from "@/lib/auth/storage";
+import {
+  getAuthSession,
+  setAuthSession,
+  isRememberedSession,
+  clearAuthCredentials,
+} from "@/lib/auth/storage";
+import {
+  hasPermission,
+  canAccessRoute as canAccessRouteFor,
+  type PermissionAction,
+  type PermissionModule,
+  type SessionUser,
+} from "@/lib/auth/permissions";
+import { getSession, logoutUser } from "@/lib/api/services/auth.service";
+import { invalidateApiCache } from "@/lib/api/cache";
 import { clearAllFormStacks } from "@/lib/form-stack/storage";
 
 interface AuthContextType {
   userID: string | null;
   username: string | null;
+  user: SessionUser | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  can: (moduleId: PermissionModule, action: PermissionAction) => boolean;
+  canAccessRoute: (pathname: string) => boolean;
   refreshAuth: () => Promise<void>;
   logout: () => Promise<void>;
 }
@@ -30,34 +47,40 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [userID, setUserID] = useState<string | null>(null);
   const [username, setUsername] = useState<string | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  const applySession = useCallback((session: SessionUser | null) => {
+    setUser(session);
+    setUserID(session?.userID ?? null);
+    setUsername(session?.userID ?? null); // Use userID as username
+    setIsAuthenticated(session !== null);
+  }, []);
+
   /**
-   * Check authentication status by checking localStorage/sessionStorage
+   * Check authentication status against the session cookie
+   * Falls back to the stored session user if the server cannot be reached
    */
   const checkAuth = useCallback(async () => {
+    const stored = getAuthSession();
     try {
-      const credentials = getAuthCredentials();
+      const session = await getSession();
 
-      if (credentials) {
-        setUserID(credentials.userID);
-        setUsername(credentials.userID); // Use userID as username
-        setIsAuthenticated(true);
+      if (session) {
+        setAuthSession(session, isRememberedSession());
+        applySession(session);
       } else {
-        setUserID(null);
-        setUsername(null);
-        setIsAuthenticated(false);
+        clearAuthCredentials();
+        applySession(null);
       }
     } catch (error) {
       console.error("Auth check error:", error);
-      setUserID(null);
-      setUsername(null);
-      setIsAuthenticated(false);
+      applySession(stored);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [applySession]);
 
   /**
    * Refresh authentication
@@ -68,20 +91,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   /**
    * Logout
-   * Clears credentials from storage, FormStack data, and resets auth state
+   * Clears the session cookie, stored session user, FormStack data, and resets auth state
    */
   const logout = useCallback(async () => {
     try {
       clearAuthCredentials();
       clearAllFormStacks(); // Clear all FormStack data
+      invalidateApiCache(); // Cached lookups may be scoped to the user
+      await logoutUser();
     } catch (error) {
       console.error("Logout error:", error);
     } finally {
-      setUserID(null);
-      setUsername(null);
-      setIsAuthenticated(false);
+      applySession(null);
     }
-  }, []);
+  }, [applySession]);
+
+  const can = useCallback(
+    (moduleId: PermissionModule, action: PermissionAction) =>
+      hasPermission(user?.permissions, moduleId, action),
+    [user],
+  );
+
+  const canAccessRoute = useCallback(
+    (pathname: string) => canAccessRouteFor(user?.permissions, pathname),
+    [user],
+  );
 
   // Check auth on mount
   useEffect(() => {
@@ -91,8 +125,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value: AuthContextType = {
     userID,
     username,
+    user,
     isAuthenticated,
     isLoading,
+    can,
+    canAccessRoute,
     refreshAuth,
     logout,
   };
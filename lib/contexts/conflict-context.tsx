@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ConflictDialog } from "@/components/ui/conflict-dialog";
+import { setConflictHandler, type ApiConflict } from "@/lib/api/conflicts";
+
+interface PendingConflict {
+  conflict: ApiConflict;
+  resolve: (reapply: boolean) => void;
+}
+
+/**
+ * Registers the conflict dialog as apiRequest's 412 handler
+ * Conflicts raised while one is open are shown one after another
+ */
+export function ConflictProvider({ children }: { children: React.ReactNode }) {
+  const [active, setActive] = useState<PendingConflict | null>(null);
+  const queueRef = useRef<PendingConflict[]>([]);
+
+  const showNext = useCallback(() => {
+    setActive(queueRef.current.shift() ?? null);
+  }, []);
+
+  useEffect(() => {
+    return setConflictHandler(
+      (conflict) =>
+        new Promise<boolean>((resolve) => {
+          queueRef.current.push({ conflict, resolve });
+          setActive((current) => current ?? queueRef.current.shift() ?? null);
+        }),
+    );
+  }, []);
+
+  const handleResolve = useCallback(
+    (reapply: boolean) => {
+      active?.resolve(reapply);
+      showNext();
+    },
+    [active, showNext],
+  );
+
+  return (
+    <>
+      {children}
+      <ConflictDialog
+        conflict={active?.conflict ?? null}
+        onResolve={handleResolve}
+      />
+    </>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Dashboard exports
+ */
+
+export * from "./types";
+export * from "./widgets";
+export * from "./storage";
+export * from "./use-dashboard-kpis";
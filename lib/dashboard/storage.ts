@@ -0,0 +1,56 @@
+/**
+ * Dashboard Storage
+ * Persists each user's widget selection in local storage
+ */
+
+import type { DashboardPreferences } from "./types";
+import { DEFAULT_VISIBLE_WIDGET_IDS, KPI_WIDGETS } from "./widgets";
+
+const STORAGE_PREFIX = "dashboardWidgets_v1_";
+
+function getStorageKey(userId: string): string {
+  return `${STORAGE_PREFIX}${userId}`;
+}
+
+/**
+ * Load a user's dashboard preferences, dropping widgets that no longer exist
+ */
+export function loadDashboardPreferences(userId: string): DashboardPreferences {
+  const defaults = { visibleWidgetIds: DEFAULT_VISIBLE_WIDGET_IDS };
+  if (typeof window === "undefined") {
+    return defaults;
+  }
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(userId));
+    if (!stored) {
+      return defaults;
+    }
+    const parsed = JSON.parse(stored) as Partial<DashboardPreferences>;
+    if (!Array.isArray(parsed.visibleWidgetIds)) {
+      return defaults;
+    }
+    const knownIds = new Set(KPI_WIDGETS.map((widget) => widget.id));
+    return {
+      visibleWidgetIds: parsed.visibleWidgetIds.filter((id) => knownIds.has(id)),
+    };
+  } catch (error) {
+    console.error("Error loading dashboard preferences:", error);
+    return defaults;
+  }
+}
+
+export function saveDashboardPreferences(
+  userId: string,
+  preferences: DashboardPreferences,
+): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Error saving dashboard preferences:", error);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Dashboard Types
+ */
+
+/** Dimension scope the signed-in user may see, from WebUserSetup */
+export interface DashboardScope {
+  lobCodes: string[];
+  branchCodes: string[];
+}
+
+export interface KpiWidgetDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string }>;
+  /** Pre-filtered list page the widget opens */
+  href: string;
+  /** Tailwind accent for the icon badge */
+  accentClass: string;
+  fetchCount: (scope: DashboardScope) => Promise<number>;
+}
+
+export interface KpiWidgetState {
+  count: number | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface DashboardPreferences {
+  /** Visible widget ids, in display order */
+  visibleWidgetIds: string[];
+}
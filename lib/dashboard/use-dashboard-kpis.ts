@@ -0,0 +1,134 @@
+/**
+ * Dashboard KPIs hook
+ * Resolves the user's branch scope, loads every visible widget's count in
+ * parallel and keeps the per-user widget selection
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { getWebUserSetup } from "@/lib/api/services/dimension.service";
+import { getErrorMessage } from "@/lib/errors";
+import { loadDashboardPreferences, saveDashboardPreferences } from "./storage";
+import { DEFAULT_VISIBLE_WIDGET_IDS, KPI_WIDGETS } from "./widgets";
+import type {
+  DashboardScope,
+  KpiWidgetDefinition,
+  KpiWidgetState,
+} from "./types";
+
+interface WidgetResult {
+  generation: number;
+  count: number | null;
+  error: string | null;
+}
+
+async function loadScope(userId: string): Promise<DashboardScope> {
+  const setup = await getWebUserSetup(userId);
+  const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+  return {
+    lobCodes: unique(setup.map((row) => row.LOB)),
+    branchCodes: unique(setup.map((row) => row.Branch_Code)),
+  };
+}
+
+export function useDashboardKpis() {
+  const { userID, canAccessRoute } = useAuth();
+  const [visibleWidgetIds, setVisibleWidgetIds] = useState<string[]>(() =>
+    userID
+      ? loadDashboardPreferences(userID).visibleWidgetIds
+      : DEFAULT_VISIBLE_WIDGET_IDS,
+  );
+  const [generation, setGeneration] = useState(0);
+  const [results, setResults] = useState<Record<string, WidgetResult>>({});
+
+  /** Widgets the user's role may open */
+  const availableWidgets = useMemo(
+    () =>
+      KPI_WIDGETS.filter((widget) =>
+        canAccessRoute(widget.href.split("?")[0]),
+      ),
+    [canAccessRoute],
+  );
+
+  const visibleWidgets = useMemo(
+    () =>
+      visibleWidgetIds
+        .map((id) => availableWidgets.find((widget) => widget.id === id))
+        .filter((widget): widget is KpiWidgetDefinition => !!widget),
+    [visibleWidgetIds, availableWidgets],
+  );
+
+  useEffect(() => {
+    if (!userID || visibleWidgets.length === 0) return;
+    let cancelled = false;
+
+    const setResult = (id: string, result: Omit<WidgetResult, "generation">) => {
+      if (cancelled) return;
+      setResults((prev) => ({ ...prev, [id]: { ...result, generation } }));
+    };
+
+    loadScope(userID)
+      .then((scope) =>
+        Promise.all(
+          visibleWidgets.map((widget) =>
+            widget
+              .fetchCount(scope)
+              .then((count) => setResult(widget.id, { count, error: null }))
+              .catch((error) =>
+                setResult(widget.id, {
+                  count: null,
+                  error: getErrorMessage(error, "Failed to load"),
+                }),
+              ),
+          ),
+        ),
+      )
+      .catch((error) => {
+        const message = getErrorMessage(error, "Failed to load your branches");
+        visibleWidgets.forEach((widget) =>
+          setResult(widget.id, { count: null, error: message }),
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userID, visibleWidgets, generation]);
+
+  const widgetStates = useMemo(() => {
+    const states: Record<string, KpiWidgetState> = {};
+    visibleWidgets.forEach((widget) => {
+      const result = results[widget.id];
+      const isCurrent = result?.generation === generation;
+      states[widget.id] = {
+        count: result?.count ?? null,
+        isLoading: !isCurrent,
+        error: isCurrent ? result.error : null,
+      };
+    });
+    return states;
+  }, [visibleWidgets, results, generation]);
+
+  const refresh = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  const updateVisibleWidgets = useCallback(
+    (ids: string[]) => {
+      setVisibleWidgetIds(ids);
+      if (userID) saveDashboardPreferences(userID, { visibleWidgetIds: ids });
+    },
+    [userID],
+  );
+
+  return {
+    availableWidgets,
+    visibleWidgets,
+    visibleWidgetIds,
+    widgetStates,
+    refresh,
+    updateVisibleWidgets,
+  };
+}
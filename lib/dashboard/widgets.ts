@@ -0,0 +1,172 @@
+/**
+ * KPI Widgets
+ * Each widget counts one queue of work with a $top=1 call to a *WithCount
+ * service, limited to the user's branches
+ */
+
+import {
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  ClipboardCheck,
+  Factory,
+  FlaskConical,
+  Gauge,
+  PackageCheck,
+} from "lucide-react";
+import { format } from "date-fns";
+import { getSalesOrdersWithCount } from "@/lib/api/services/sales-orders.service";
+import { getPurchaseOrdersWithCount } from "@/lib/api/services/purchase-orders.service";
+import { getInwardGateEntriesWithCount } from "@/lib/api/services/inward-gate-entry.service";
+import { getOutwardGateEntriesWithCount } from "@/lib/api/services/outward-gate-entry.service";
+import { getQCReceiptsWithCount } from "@/lib/api/services/qc-receipt.service";
+import { getProductionOrdersWithCount } from "@/lib/api/services/production-orders.service";
+import { getItemLedgerEntries } from "@/lib/api/services/report-ledger.service";
+import type { DashboardScope, KpiWidgetDefinition } from "./types";
+
+/**
+ * Restricts a filter to the user's branches
+ * Users without any branch assignment see nothing, matching the list pages
+ */
+function withBranchFilter(
+  filter: string | null,
+  branchCodes: string[],
+  field = "Shortcut_Dimension_2_Code",
+): string {
+  const branchFilter =
+    branchCodes.length > 0
+      ? `(${branchCodes.map((code) => `${field} eq '${code.replace(/'/g, "''")}'`).join(" or ")})`
+      : `${field} eq 'NONE'`;
+  return filter ? `${filter} and ${branchFilter}` : branchFilter;
+}
+
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+export const KPI_WIDGETS: KpiWidgetDefinition[] = [
+  {
+    id: "sales-pending-approval",
+    title: "Sales Orders Pending Approval",
+    description: "Awaiting approver action",
+    icon: ClipboardCheck,
+    href: "/sales/order?tab=pending",
+    accentClass: "bg-emerald-500/10 text-emerald-600 dark:text-emerald-400",
+    fetchCount: async ({ branchCodes }: DashboardScope) => {
+      const { totalCount } = await getSalesOrdersWithCount({
+        $select: "No",
+        $filter: withBranchFilter("Status eq 'Pending Approval'", branchCodes),
+        $top: 1,
+      });
+      return totalCount;
+    },
+  },
+  {
+    id: "purchase-awaiting-receipt",
+    title: "Purchase Orders Awaiting Receipt",
+    description: "Released, not completely received",
+    icon: PackageCheck,
+    href: "/purchase/order?tab=approved&receipt=pending",
+    accentClass: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+    fetchCount: async ({ branchCodes }) => {
+      const { totalCount } = await getPurchaseOrdersWithCount({
+        $select: "No",
+        $filter: withBranchFilter(
+          "Status eq 'Released' and Completely_Received eq false",
+          branchCodes,
+        ),
+        $top: 1,
+      });
+      return totalCount;
+    },
+  },
+  {
+    id: "inward-gate-unposted",
+    title: "Unposted Inward Gate Entries",
+    description: "Vehicles in, not yet posted",
+    icon: ArrowDownToLine,
+    href: "/inward-gate-entry",
+    accentClass: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+    fetchCount: async ({ branchCodes }) => {
+      const { totalCount } = await getInwardGateEntriesWithCount({
+        $select: "No",
+        $filter: withBranchFilter(null, branchCodes),
+        $top: 1,
+      });
+      return totalCount;
+    },
+  },
+  {
+    id: "outward-gate-unposted",
+    title: "Unposted Outward Gate Entries",
+    description: "Vehicles out, not yet posted",
+    icon: ArrowUpFromLine,
+    href: "/outward-gate-entry",
+    accentClass: "bg-orange-500/10 text-orange-600 dark:text-orange-400",
+    fetchCount: async ({ branchCodes }) => {
+      const { totalCount } = await getOutwardGateEntriesWithCount({
+        $select: "No",
+        $filter: withBranchFilter(null, branchCodes),
+        $top: 1,
+      });
+      return totalCount;
+    },
+  },
+  {
+    id: "qc-pending-approval",
+    title: "QC Receipts Pending Approval",
+    description: "Inspected, awaiting approval",
+    icon: FlaskConical,
+    href: "/qc-receipt?status=pending",
+    accentClass: "bg-purple-500/10 text-purple-600 dark:text-purple-400",
+    fetchCount: async ({ branchCodes }) => {
+      const { totalCount } = await getQCReceiptsWithCount({
+        $select: "No",
+        $filter: withBranchFilter(
+          "Approval_Status eq 'Pending Approval'",
+          branchCodes,
+        ),
+        $top: 1,
+      });
+      return totalCount;
+    },
+  },
+  {
+    id: "production-released",
+    title: "Released Production Orders",
+    description: "On the shop floor",
+    icon: Factory,
+    href: "/production-orders",
+    accentClass: "bg-rose-500/10 text-rose-600 dark:text-rose-400",
+    fetchCount: async ({ lobCodes, branchCodes }) => {
+      const { totalCount } = await getProductionOrdersWithCount(
+        { $select: "No", $top: 1 },
+        lobCodes,
+        branchCodes,
+      );
+      return totalCount;
+    },
+  },
+  {
+    id: "consumption-today",
+    title: "Today's Consumption",
+    description: "Consumption ledger entries posted today",
+    icon: Gauge,
+    href: "/ledger/report-ledger",
+    accentClass: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400",
+    fetchCount: async ({ branchCodes }) => {
+      const { totalCount } = await getItemLedgerEntries({
+        $select: "Entry_No",
+        $filter: withBranchFilter(
+          `Posting_Date eq ${today()} and Consumption eq true`,
+          branchCodes,
+          "Global_Dimension_2_Code",
+        ),
+        $top: 1,
+        $count: true,
+      });
+      return totalCount;
+    },
+  },
+];
+
+export const DEFAULT_VISIBLE_WIDGET_IDS = KPI_WIDGETS.map((widget) => widget.id);
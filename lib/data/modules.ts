@@ -10,7 +10,11 @@ import {
   Package,
   ReceiptText,
   CreditCard,
-  Factory
+  Factory,
+  ShieldCheck,
+  IndianRupee,
+  Timer,
+  Award
 } from "lucide-react";
 
 export interface SubItem {
@@ -46,6 +50,7 @@ export const modules: ModuleCategory[] = [
       { title: "Posted Shipment", url: "/sales/posted-shipment", icon: Truck, isPosted: true },
       { title: "Posted Invoice", url: "/sales/posted-invoice", icon: ClipboardCheck, isPosted: true },
       { title: "Posted Credit Memo", url: "/sales/posted-credit-memo", icon: ClipboardCheck, isPosted: true },
+      { title: "E-Invoice & E-Way Bill", url: "/sales/e-compliance", icon: ShieldCheck, isPosted: true },
     ]
   },
   {
@@ -78,6 +83,8 @@ export const modules: ModuleCategory[] = [
       { title: "Outward Gate Entry", url: "/outward-gate-entry", icon: Truck, isPosted: false },
       { title: "Posted Inward", url: "/posted-inward-gate-entry", icon: ClipboardCheck, isPosted: true },
       { title: "Posted Outward", url: "/posted-outward-gate-entry", icon: ClipboardCheck, isPosted: true },
+      { title: "Freight Register", url: "/freight-register", icon: IndianRupee, isPosted: true },
+      { title: "Vehicle Turnaround", url: "/vehicle-turnaround", icon: Timer, isPosted: true },
     ]
   },
   {
@@ -90,6 +97,7 @@ export const modules: ModuleCategory[] = [
     subItems: [
       { title: "QC Receipt", url: "/qc-receipt", icon: ClipboardCheck, isPosted: false },
       { title: "Posted QC Receipt", url: "/posted-qc-receipt", icon: ClipboardCheck, isPosted: true },
+      { title: "Vendor Quality", url: "/vendor-quality", icon: Award, isPosted: true },
     ]
   },
   {
@@ -127,10 +135,29 @@ export const modules: ModuleCategory[] = [
     badgeColor: "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400",
     subItems: [
       { title: "Vendor Ledger", url: "/ledger/vendor-ledger", icon: BookOpenCheck, isPosted: false },
+      { title: "Customer Ledger", url: "/ledger/customer-ledger", icon: BookOpenCheck, isPosted: false },
+      { title: "Payables", url: "/ledger/payables", icon: BookOpenCheck, isPosted: false },
       { title: "GL Entry", url: "/ledger/gl-entry", icon: BookOpenCheck, isPosted: false },
+      { title: "Trial Balance", url: "/ledger/trial-balance", icon: BookOpenCheck, isPosted: false },
+      { title: "Profitability", url: "/ledger/profitability", icon: BookOpenCheck, isPosted: false },
       { title: "Item Ledger", url: "/ledger/report-ledger", icon: BookOpenCheck, isPosted: false },
       { title: "Consumption Report", url: "/ledger/consumption-report", icon: BookOpenCheck, isPosted: false },
       { title: "Stock Report", url: "/ledger/stock-report", icon: BookOpenCheck, isPosted: false },
     ]
   }
 ];
+
+/**
+ * Returns the module categories with only the sub-items the user may open
+ * Categories left without any sub-items are dropped
+ */
+export function filterModulesByAccess(
+  canAccessRoute: (url: string) => boolean,
+): ModuleCategory[] {
+  return modules
+    .map((category) => ({
+      ...category,
+      subItems: category.subItems.filter((item) => canAccessRoute(item.url)),
+    }))
+    .filter((category) => category.subItems.length > 0);
+}
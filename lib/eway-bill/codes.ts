@@ -0,0 +1,19 @@
+/**
+ * E-Way Bill Code Lists
+ */
+
+import type { CodeOption } from "./types";
+
+export const PART_B_REASONS: CodeOption[] = [
+  { value: "1", label: "Due to Break Down" },
+  { value: "2", label: "Due to Transhipment" },
+  { value: "3", label: "Others" },
+  { value: "4", label: "First Time" },
+];
+
+/** Reasons that need a remark */
+export const OTHER_REASON_CODES = ["3"];
+
+export function getCodeLabel(options: CodeOption[], value: string): string {
+  return options.find((option) => option.value === value)?.label ?? value;
+}
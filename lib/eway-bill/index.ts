@@ -0,0 +1,6 @@
+/**
+ * E-way bill exports
+ */
+
+export * from "./types";
+export * from "./codes";
@@ -0,0 +1,27 @@
+/**
+ * Server-side store for e-way bill change history
+ * Keeps Part-B updates in the shared store
+ * (see lib/api/shared-store), one list per document
+ * Never import this file from client components
+ */
+
+import { appendSharedList, readSharedList } from "@/lib/api/shared-store";
+import type { EWayBillChange } from "./types";
+
+function historyKey(docType: string, docNo: string): string {
+  return `eway-bill-history:${docType}:${docNo}`;
+}
+
+/** Changes recorded against a document, newest first */
+export async function listEWayBillChanges(
+  docType: string,
+  docNo: string,
+): Promise<EWayBillChange[]> {
+  const changes = await readSharedList<EWayBillChange>(historyKey(docType, docNo));
+  return changes.sort((a, b) => b.changedAt - a.changedAt);
+}
+
+export async function appendEWayBillChange(change: EWayBillChange): Promise<EWayBillChange> {
+  await appendSharedList(historyKey(change.docType, change.docNo), change);
+  return change;
+}
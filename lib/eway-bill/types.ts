@@ -0,0 +1,29 @@
+/**
+ * E-Way Bill Part-B Types
+ * Reason codes follow the NIC e-way bill API
+ */
+
+import type { DocType } from "@/lib/api/services/eway-einvoice.service";
+
+export interface CodeOption<T extends string = string> {
+  value: T;
+  label: string;
+}
+
+/**
+ * One recorded Part-B update of a document's e-way bill
+ * The ERP sends the vehicle on the document; the reason is kept for the history
+ */
+export interface EWayBillChange {
+  id: string;
+  docType: DocType;
+  docNo: string;
+  eWayBillNo: string;
+  vehicleNo: string;
+  reasonCode: string;
+  reasonRemark: string;
+  changedBy: string;
+  changedAt: number;
+}
+
+export type NewEWayBillChange = Omit<EWayBillChange, "id" | "changedBy" | "changedAt">;
@@ -0,0 +1,152 @@
+/**
+ * FormStack Deep Links
+ * Encodes a tab (form type, title, document number, document type context,
+ * optional focused line) in the `?form=` query param so the tab can be
+ * reopened from a shared URL. Records are never put in the link; the form
+ * reads the document again when the link is opened
+ */
+
+import type { FormTab } from "./types";
+
+export const FORM_LINK_PARAM = "form";
+
+/** Context key forms and the panel read to highlight a line (API Line_No) */
+export const FOCUS_LINE_CONTEXT_KEY = "focusLineNo";
+
+/** Context keys a link carries besides the document number */
+const LINK_CONTEXT_KEYS = ["documentType", "mode", "isPosted"];
+
+/** Context keys holding the document number itself */
+const NUMBER_KEYS = ["orderNo", "documentNo", "no"];
+
+/** Context keys holding a record snapshot, identified by its `No` */
+const RECORD_KEYS = ["receipt", "entry", "doc"];
+
+export interface FormTabLink {
+  formScope: string;
+  formType: string;
+  title: string;
+  /** Number of the document the tab shows */
+  documentNo?: string;
+  /** Context key the form reads the document from, e.g. "orderNo" or "entry" */
+  documentKey?: string;
+  /** Document type context only (document type, mode, posted) */
+  context: Record<string, unknown>;
+  line?: number;
+}
+
+/**
+ * Context key and number of the document a tab is showing, if any
+ * Tabs opened for creation have none and cannot be linked
+ */
+export function getTabDocument(
+  context?: Record<string, unknown>,
+): { key: string; documentNo: string } | null {
+  if (!context || context.mode === "create") return null;
+  for (const key of NUMBER_KEYS) {
+    const value = context[key];
+    if (typeof value === "string" && value !== "") return { key, documentNo: value };
+  }
+  for (const key of RECORD_KEYS) {
+    const value = (context[key] as { No?: unknown } | undefined)?.No;
+    if (typeof value === "string" && value !== "") return { key, documentNo: value };
+  }
+  return null;
+}
+
+/**
+ * Document number a tab is showing, if any
+ */
+export function getTabDocumentNo(
+  context?: Record<string, unknown>,
+): string | null {
+  return getTabDocument(context)?.documentNo ?? null;
+}
+
+/** The document type keys of a context; anything else is dropped */
+export function pickLinkContext(
+  context: Record<string, unknown> | undefined,
+): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const key of LINK_CONTEXT_KEYS) {
+    const value = context?.[key];
+    if (typeof value === "string" || typeof value === "boolean") picked[key] = value;
+  }
+  return picked;
+}
+
+/** Whether the link's document key holds a record rather than a number */
+export function isRecordLinkKey(key: string | undefined): boolean {
+  return !!key && RECORD_KEYS.includes(key);
+}
+
+/**
+ * Absolute link to the current page that reopens the tab
+ * Only the document number, document type context and focused line are
+ * sent; other query params are kept
+ */
+export function buildFormTabLink(
+  formScope: string,
+  tab: FormTab,
+  line?: number,
+): string {
+  const document = getTabDocument(tab.context);
+  const contextLine = tab.context?.[FOCUS_LINE_CONTEXT_KEY];
+
+  const link: FormTabLink = {
+    formScope,
+    formType: tab.formType,
+    title: tab.title,
+    documentNo: document?.documentNo,
+    documentKey: document?.key,
+    context: pickLinkContext(tab.context),
+    line: line ?? (typeof contextLine === "number" ? contextLine : undefined),
+  };
+
+  const url = new URL(window.location.href);
+  url.searchParams.set(FORM_LINK_PARAM, JSON.stringify(link));
+  return url.toString();
+}
+
+/**
+ * Read and remove the link for a scope from the current URL
+ * Links for other scopes are left for their own provider
+ */
+export function takeFormTabLink(formScope: string): FormTabLink | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  const url = new URL(window.location.href);
+  const raw = url.searchParams.get(FORM_LINK_PARAM);
+  if (!raw) {
+    return null;
+  }
+
+  let link: FormTabLink;
+  try {
+    link = JSON.parse(raw) as FormTabLink;
+  } catch (error) {
+    console.error("Error reading FormStack link:", error);
+    return null;
+  }
+  if (link?.formScope !== formScope || typeof link.formType !== "string") {
+    return null;
+  }
+
+  url.searchParams.delete(FORM_LINK_PARAM);
+  window.history.replaceState(window.history.state, "", url.toString());
+  const documentKey = [...NUMBER_KEYS, ...RECORD_KEYS].includes(link.documentKey ?? "")
+    ? link.documentKey
+    : undefined;
+  return {
+    formScope: link.formScope,
+    formType: link.formType,
+    title: link.title || link.formType,
+    documentNo:
+      documentKey && typeof link.documentNo === "string" ? link.documentNo : undefined,
+    documentKey,
+    context: pickLinkContext(link.context),
+    line: typeof link.line === "number" ? link.line : undefined,
+  };
+}
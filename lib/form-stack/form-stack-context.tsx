@@ -13,8 +13,27 @@ import React, {
   useState,
   useMemo,
 } from "react";
-import type { FormTab, FormStackContextType, FormStackState } from "./types";
-import { saveFormStack, loadFormStack, clearFormStack } from "./storage";
+import type {
+  FormTab,
+  FormStackContextType,
+  FormStackState,
+  OpenTabOptions,
+} from "./types";
+import {
+  saveFormStack,
+  loadFormStack,
+  clearFormStack,
+  takeFormStackAction,
+  FORM_STACK_PENDING_EVENT,
+} from "./storage";
+import { toastError } from "@/lib/errors";
+import {
+  FOCUS_LINE_CONTEXT_KEY,
+  getTabDocumentNo,
+  takeFormTabLink,
+  type FormTabLink,
+} from "./deep-link";
+import { resolveFormTabLinkContext } from "./link-records";
 
 const FormStackContext = createContext<FormStackContextType | undefined>(
   undefined,
@@ -57,6 +76,7 @@ export function FormStackProvider({
         formScope,
         isCollapsed,
         isFloating,
+        route: window.location.pathname,
       };
       saveFormStack(formScope, state);
     } else {
@@ -74,15 +94,7 @@ export function FormStackProvider({
   }, []);
 
   const openTab = useCallback(
-    (
-      formType: string,
-      options?: {
-        title?: string;
-        formData?: Record<string, any>;
-        context?: Record<string, any>;
-        autoCloseOnSuccess?: boolean;
-      },
-    ): string => {
+    (formType: string, options?: OpenTabOptions): string => {
       const now = Date.now();
       const tabId = `tab-${now}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -196,6 +208,85 @@ export function FormStackProvider({
     );
   }, []);
 
+  // Open a tab from a shared link, reusing an open tab for the same document;
+  // otherwise the document is read again rather than taken from the link
+  const openLinkedTab = useCallback(
+    async (link: FormTabLink) => {
+      const { documentNo } = link;
+      // State from session storage may not be committed yet; read it directly
+      const existing = documentNo
+        ? loadFormStack(formScope)?.tabs.find(
+            (t) =>
+              t.formType === link.formType &&
+              getTabDocumentNo(t.context) === documentNo,
+          )
+        : undefined;
+
+      if (!existing) {
+        try {
+          openTab(link.formType, {
+            title: link.title,
+            context: await resolveFormTabLinkContext(link),
+            autoCloseOnSuccess: false,
+          });
+        } catch (error) {
+          toastError(error, "Failed to open the linked document");
+        }
+        return;
+      }
+
+      setTabs((prev) =>
+        prev.map((t) =>
+          t.id === existing.id
+            ? {
+                ...t,
+                context: { ...t.context, [FOCUS_LINE_CONTEXT_KEY]: link.line },
+                lastVisitedAt: Date.now(),
+              }
+            : t,
+        ),
+      );
+      setActiveTabId(existing.id);
+      setIsCollapsed(false);
+    },
+    [formScope, openTab],
+  );
+
+  // Apply a shared link, then actions queued for this scope (e.g. by the
+  // command palette), both on mount and while the page is open
+  useEffect(() => {
+    const applyPending = () => {
+      // The link is removed from the URL when taken, so it opens once
+      const link = takeFormTabLink(formScope);
+      if (link) void openLinkedTab(link);
+
+      const action = takeFormStackAction(formScope);
+      if (!action) return;
+
+      if (action.type === "open") {
+        openTab(action.formType, action.options);
+      } else {
+        setTabs((prev) =>
+          prev.map((t) =>
+            t.id === action.tabId ? { ...t, lastVisitedAt: Date.now() } : t,
+          ),
+        );
+        setActiveTabId(action.tabId);
+        setIsCollapsed(false);
+      }
+    };
+
+    const handlePending = (event: Event) => {
+      const detail = (event as CustomEvent<{ formScope: string }>).detail;
+      if (detail?.formScope === formScope) applyPending();
+    };
+
+    applyPending();
+    window.addEventListener(FORM_STACK_PENDING_EVENT, handlePending);
+    return () =>
+      window.removeEventListener(FORM_STACK_PENDING_EVENT, handlePending);
+  }, [formScope, openTab, openLinkedTab]);
+
   const registerRefreshCallback = useCallback(
     (tabId: string, callback: () => void | Promise<void>) => {
       refreshCallbacksRef.current.set(tabId, callback);
@@ -4,6 +4,8 @@
 
 export * from "./types";
 export * from "./storage";
+export * from "./deep-link";
+export * from "./link-records";
 export * from "./form-stack-context";
 export * from "./use-form-stack";
 export * from "./form-registry";
@@ -0,0 +1,81 @@
+/**
+ * FormStack Link Records
+ * Rebuilds a linked tab's context from the ERP: forms that start from a
+ * record snapshot (gate entries, posted documents) get the record read again
+ * by its number, so a shared link never supplies record data
+ */
+
+import { getInwardGateEntriesWithCount } from "@/lib/api/services/inward-gate-entry.service";
+import { getOutwardGateEntriesWithCount } from "@/lib/api/services/outward-gate-entry.service";
+import {
+  getPostedInwardGateEntries,
+  getPostedOutwardGateEntries,
+} from "@/lib/api/services/posted-gate-entry.service";
+import {
+  getPostedPurchaseCreditMemos,
+  getPostedPurchaseInvoices,
+  getPostedPurchaseReceipts,
+  getPostedPurchaseReturnShipments,
+} from "@/lib/api/services/posted-purchase.service";
+import { getPostedSalesCreditMemos } from "@/lib/api/services/posted-sales.service";
+import { FOCUS_LINE_CONTEXT_KEY, isRecordLinkKey, type FormTabLink } from "./deep-link";
+
+type RecordLoader = (documentNo: string) => Promise<Record<string, unknown> | undefined>;
+
+type ListLoader = (params: {
+  $filter: string;
+  $top: number;
+}) => Promise<{ value?: Record<string, unknown>[] }>;
+
+function byNo(documentNo: string) {
+  return { $filter: `No eq '${documentNo.replace(/'/g, "''")}'`, $top: 1 };
+}
+
+function firstOf(load: ListLoader): RecordLoader {
+  return async (documentNo) => (await load(byNo(documentNo))).value?.[0];
+}
+
+/**
+ * Record loaders per form type
+ * Forms not listed here read the document themselves from its `No`
+ */
+const RECORD_LOADERS: Record<string, RecordLoader> = {
+  "inward-gate-entry": async (documentNo) =>
+    (await getInwardGateEntriesWithCount(byNo(documentNo))).entries[0],
+  "outward-gate-entry": async (documentNo) =>
+    (await getOutwardGateEntriesWithCount(byNo(documentNo))).entries[0],
+  "posted-inward-gate-entry": firstOf(getPostedInwardGateEntries),
+  "posted-outward-gate-entry": firstOf(getPostedOutwardGateEntries),
+  "posted-purchase-receipt": firstOf(getPostedPurchaseReceipts),
+  "posted-purchase-invoice": firstOf(getPostedPurchaseInvoices),
+  "posted-purchase-return-shipment": firstOf(getPostedPurchaseReturnShipments),
+  "posted-purchase-credit-memo": firstOf(getPostedPurchaseCreditMemos),
+  "posted-sales-credit-memo": firstOf(getPostedSalesCreditMemos),
+};
+
+/**
+ * Context to open a linked tab with
+ * Throws when the linked document no longer exists
+ */
+export async function resolveFormTabLinkContext(
+  link: FormTabLink,
+): Promise<Record<string, unknown>> {
+  const context: Record<string, unknown> = {
+    ...link.context,
+    [FOCUS_LINE_CONTEXT_KEY]: link.line,
+  };
+  const { documentNo, documentKey } = link;
+  if (!documentNo || !documentKey) return context;
+
+  if (!isRecordLinkKey(documentKey)) {
+    return { ...context, [documentKey]: documentNo };
+  }
+
+  const loader = RECORD_LOADERS[link.formType];
+  if (!loader) {
+    return { ...context, [documentKey]: { No: documentNo } };
+  }
+  const record = await loader(documentNo);
+  if (!record) throw new Error(`Document ${documentNo} was not found`);
+  return { ...context, [documentKey]: record };
+}
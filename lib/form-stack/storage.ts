@@ -3,9 +3,20 @@
  * Handles session storage persistence for FormStack tabs
  */
 
-import type { FormStackState } from "./types";
+import type {
+  FormStackState,
+  PendingFormStackAction,
+  RecentFormTab,
+} from "./types";
 
 const STORAGE_PREFIX = "formStack_";
+const PENDING_PREFIX = "formStackPending_";
+
+/**
+ * Window event fired when an action is queued for a scope
+ * Mounted providers listen for it so they can apply the action immediately
+ */
+export const FORM_STACK_PENDING_EVENT = "formstack:pending";
 
 const LEGACY_PURCHASE_FORM_TYPE_MAP: Readonly<Record<string, string>> = {
   "purchase-order": "order",
@@ -128,7 +139,7 @@ export function clearAllFormStacks(): void {
     const keys: string[] = [];
     for (let i = 0; i < sessionStorage.length; i++) {
       const key = sessionStorage.key(i);
-      if (key && key.startsWith(STORAGE_PREFIX)) {
+      if (key && (key.startsWith(STORAGE_PREFIX) || key.startsWith(PENDING_PREFIX))) {
         keys.push(key);
       }
     }
@@ -140,3 +151,81 @@ export function clearAllFormStacks(): void {
     console.error("Error clearing all FormStacks from session storage:", error);
   }
 }
+
+/**
+ * List tabs from every persisted scope, most recently visited first
+ */
+export function getRecentFormTabs(limit = 10): RecentFormTab[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const recent: RecentFormTab[] = [];
+  try {
+    for (let i = 0; i < sessionStorage.length; i++) {
+      const key = sessionStorage.key(i);
+      if (!key || !key.startsWith(STORAGE_PREFIX)) continue;
+
+      const formScope = key.slice(STORAGE_PREFIX.length);
+      const state = loadFormStack(formScope);
+      state?.tabs.forEach((tab) => {
+        recent.push({ formScope, route: state.route, tab });
+      });
+    }
+  } catch (error) {
+    console.error("Error reading FormStack tabs from session storage:", error);
+  }
+
+  return recent
+    .sort((a, b) => b.tab.lastVisitedAt - a.tab.lastVisitedAt)
+    .slice(0, limit);
+}
+
+/**
+ * Queue an action for a scope and notify its provider if mounted
+ * Otherwise the provider applies it when its page mounts
+ */
+export function queueFormStackAction(
+  formScope: string,
+  action: PendingFormStackAction,
+): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    sessionStorage.setItem(
+      `${PENDING_PREFIX}${formScope}`,
+      JSON.stringify(action),
+    );
+    window.dispatchEvent(
+      new CustomEvent(FORM_STACK_PENDING_EVENT, { detail: { formScope } }),
+    );
+  } catch (error) {
+    console.error("Error queueing FormStack action:", error);
+  }
+}
+
+/**
+ * Read and remove the queued action for a scope
+ */
+export function takeFormStackAction(
+  formScope: string,
+): PendingFormStackAction | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const key = `${PENDING_PREFIX}${formScope}`;
+    const stored = sessionStorage.getItem(key);
+    if (!stored) {
+      return null;
+    }
+    sessionStorage.removeItem(key);
+    return JSON.parse(stored) as PendingFormStackAction;
+  } catch (error) {
+    console.error("Error reading queued FormStack action:", error);
+    return null;
+  }
+}
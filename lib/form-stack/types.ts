@@ -22,6 +22,28 @@ export interface FormStackState {
   formScope: string; // e.g., 'sales'
   isCollapsed?: boolean; // Whether the panel is collapsed
   isFloating?: boolean; // Whether the panel is floating (popped to left)
+  route?: string; // Page the scope was last rendered on
+}
+
+export interface OpenTabOptions {
+  title?: string;
+  formData?: Record<string, any>;
+  context?: Record<string, any>;
+  autoCloseOnSuccess?: boolean;
+}
+
+/**
+ * Action queued for a scope whose page is not mounted yet
+ * (e.g. opening a document from the command palette on another page)
+ */
+export type PendingFormStackAction =
+  | { type: "open"; formType: string; options?: OpenTabOptions }
+  | { type: "switch"; tabId: string };
+
+export interface RecentFormTab {
+  formScope: string;
+  route?: string;
+  tab: FormTab;
 }
 
 export interface FormStackContextType {
@@ -33,15 +55,7 @@ export interface FormStackContextType {
   isFloating: boolean;
   toggleCollapse: () => void;
   toggleFloat: () => void;
-  openTab: (
-    formType: string,
-    options?: {
-      title?: string;
-      formData?: Record<string, any>;
-      context?: Record<string, any>;
-      autoCloseOnSuccess?: boolean;
-    },
-  ) => string; // Returns tab ID
+  openTab: (formType: string, options?: OpenTabOptions) => string; // Returns tab ID
   closeTab: (tabId: string) => void;
   switchTab: (tabId: string) => void;
   closeAllTabs: () => void;
@@ -0,0 +1,9 @@
+/**
+ * Freight exports
+ */
+
+export * from "./types";
+export * from "./shortage";
+export * from "./register";
+export * from "./invoice";
+export * from "./use-freight-register";
@@ -0,0 +1,99 @@
+/**
+ * Freight Invoice Draft
+ * Creates an open purchase invoice for a transporter's freight in a period,
+ * one G/L line for the amount payable after shortage deductions. The invoice
+ * is recorded against the gate entries so their freight is not billed again,
+ * then reviewed and posted from the purchase invoice page as usual
+ */
+
+import { recordFreightInvoice } from "@/lib/api/services/freight-invoice.service";
+import {
+  addSinglePurchaseInvoiceLine,
+  createPurchaseInvoice,
+  deletePurchaseInvoiceHeader,
+} from "@/lib/api/services/purchase-invoice.service";
+import type { FreightGroup } from "./types";
+
+export interface FreightInvoiceInput {
+  vendorNo: string;
+  vendorName?: string;
+  vendorInvoiceNo: string;
+  glAccountNo: string;
+  postingDate: string;
+  userId?: string;
+}
+
+/** Value shared by most entries of the group, for the header dimensions */
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  let best = "";
+  for (const value of values) {
+    if (!value) continue;
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > (counts.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
+
+export function getFreightInvoiceDescription(group: FreightGroup): string {
+  const entries = `${group.entries.length} gate ${group.entries.length === 1 ? "entry" : "entries"}`;
+  return `Freight ${group.periodLabel} (${entries})`.slice(0, 100);
+}
+
+/**
+ * Create the draft invoice; returns its document number
+ * When the line cannot be added or the entries were invoiced meanwhile, the
+ * header is deleted again
+ */
+export async function createFreightInvoiceDraft(
+  group: FreightGroup,
+  input: FreightInvoiceInput,
+): Promise<string> {
+  const amount = Math.round(group.payable * 100) / 100;
+  if (!(amount > 0)) {
+    throw new Error("Nothing is payable for this transporter and period");
+  }
+
+  const locationCode = mostCommon(group.entries.map((e) => e.locationCode));
+  const { orderNo } = await createPurchaseInvoice({
+    vendorNo: input.vendorNo,
+    vendorName: input.vendorName,
+    vendorInvoiceNo: input.vendorInvoiceNo,
+    postingDate: input.postingDate,
+    documentDate: input.postingDate,
+    orderDate: input.postingDate,
+    locationCode,
+    lob: mostCommon(group.entries.map((e) => e.lobCode)),
+    branch: mostCommon(group.entries.map((e) => e.branchCode)),
+    SFPL_User_ID: input.userId,
+  });
+  if (!orderNo) throw new Error("The invoice was created without a number");
+
+  try {
+    await addSinglePurchaseInvoiceLine(
+      orderNo,
+      {
+        type: "G/L Account",
+        no: input.glAccountNo,
+        description: getFreightInvoiceDescription(group),
+        quantity: 1,
+        unitPrice: amount,
+        discount: 0,
+        amount,
+      },
+      locationCode,
+    );
+    await recordFreightInvoice(
+      orderNo,
+      group.entries.map((entry) => entry.key),
+    );
+  } catch (error) {
+    await deletePurchaseInvoiceHeader(orderNo).catch((deleteError) => {
+      console.error(`Error deleting freight invoice ${orderNo}:`, deleteError);
+    });
+    throw error;
+  }
+
+  return orderNo;
+}
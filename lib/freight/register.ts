@@ -0,0 +1,276 @@
+/**
+ * Freight Register
+ * Loads posted inward and outward gate entries for a date range within the
+ * user's branches and groups their freight by transporter and period.
+ * Entries whose freight was already invoiced are left out
+ */
+
+import { endOfWeek, format, startOfWeek } from "date-fns";
+import { getFreightInvoiceMarks } from "@/lib/api/services/freight-invoice.service";
+import {
+  getPostedInwardGateEntries,
+  getPostedOutwardGateEntries,
+} from "@/lib/api/services/posted-gate-entry.service";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import { applyShortageRules } from "./shortage";
+import type {
+  FreightEntry,
+  FreightFilters,
+  FreightGroup,
+  FreightPeriod,
+  ShortageRules,
+} from "./types";
+
+const PAGE_SIZE = 500;
+
+/** Per-direction cap; narrow the dates when it is reached */
+export const FREIGHT_MAX_ENTRIES = 5000;
+
+/** Entries without a transporter are grouped under this name */
+export const UNASSIGNED_TRANSPORTER = "(No transporter)";
+
+const SELECT_FIELDS = [
+  "Entry_Type",
+  "No",
+  "Posting_Date",
+  "Transporter_Name",
+  "Vehicle_No",
+  "Location_Code",
+  "Shortcut_Dimension_1_Code",
+  "Shortcut_Dimension_2_Code",
+  "No_of_Bags",
+  "Per_Bag_Freight_Charges",
+  "Total_Freight_Amount",
+  "Net_Weight",
+].join(",");
+
+export interface FreightLoadResult {
+  entries: FreightEntry[];
+  /** Directions with more entries than were loaded */
+  truncatedDirections: GateEntryDirection[];
+}
+
+type HeaderRow = Record<string, unknown>;
+
+function text(row: HeaderRow, field: string): string {
+  const value = row[field];
+  return typeof value === "string" ? value : "";
+}
+
+function amount(row: HeaderRow, field: string): number {
+  const value = Number(row[field]);
+  return isNaN(value) ? 0 : value;
+}
+
+type FreightQuery = Pick<FreightFilters, "fromDate" | "toDate" | "directions">;
+
+function buildFilter(
+  { fromDate, toDate }: FreightQuery,
+  branchCodes: string[],
+): string {
+  const parts: string[] = [];
+  if (fromDate) parts.push(`Posting_Date ge ${fromDate}`);
+  if (toDate) parts.push(`Posting_Date le ${toDate}`);
+  // Users without any branch assignment see nothing, matching the list pages
+  const branchFilter =
+    branchCodes.length > 0
+      ? branchCodes
+          .map((code) => `Shortcut_Dimension_2_Code eq '${code.replace(/'/g, "''")}'`)
+          .join(" or ")
+      : "Shortcut_Dimension_2_Code eq 'NONE'";
+  parts.push(`(${branchFilter})`);
+  return parts.join(" and ");
+}
+
+function toEntry(direction: GateEntryDirection, row: HeaderRow): FreightEntry {
+  const no = text(row, "No");
+  const bags = amount(row, "No_of_Bags");
+  const perBagFreight = amount(row, "Per_Bag_Freight_Charges");
+  // Older entries only carry the per-bag rate
+  const freightAmount =
+    amount(row, "Total_Freight_Amount") || bags * perBagFreight;
+
+  return {
+    key: `${direction}:${no}`,
+    direction,
+    no,
+    postingDate: text(row, "Posting_Date"),
+    transporter: text(row, "Transporter_Name").trim() || UNASSIGNED_TRANSPORTER,
+    vehicleNo: text(row, "Vehicle_No"),
+    locationCode: text(row, "Location_Code"),
+    branchCode: text(row, "Shortcut_Dimension_2_Code"),
+    lobCode: text(row, "Shortcut_Dimension_1_Code"),
+    bags,
+    perBagFreight,
+    freightAmount,
+    netWeight: amount(row, "Net_Weight"),
+    expectedWeight: 0,
+    shortageKg: 0,
+    deduction: 0,
+    payable: freightAmount,
+  };
+}
+
+async function loadDirection(
+  direction: GateEntryDirection,
+  filter: string,
+): Promise<{ rows: HeaderRow[]; truncated: boolean }> {
+  const fetchPage =
+    direction === "Inward"
+      ? getPostedInwardGateEntries
+      : getPostedOutwardGateEntries;
+
+  const rows: HeaderRow[] = [];
+  let totalCount = 0;
+  do {
+    const response = await fetchPage({
+      $select: SELECT_FIELDS,
+      $filter: filter,
+      $orderby: "Posting_Date asc,No asc",
+      $top: PAGE_SIZE,
+      $skip: rows.length,
+    });
+    const page = (response.value || []) as HeaderRow[];
+    rows.push(...page);
+    totalCount = response["@odata.count"] ?? rows.length;
+    if (page.length < PAGE_SIZE) break;
+  } while (rows.length < totalCount && rows.length < FREIGHT_MAX_ENTRIES);
+
+  return { rows, truncated: totalCount > rows.length };
+}
+
+/**
+ * Load the freight-bearing posted gate entries of the selected directions
+ * Entries without any freight or already invoiced are left out
+ */
+export async function loadFreightEntries(
+  filters: FreightQuery,
+  branchCodes: string[],
+): Promise<FreightLoadResult> {
+  const filter = buildFilter(filters, branchCodes);
+  const results = await Promise.all(
+    filters.directions.map(async (direction) => ({
+      direction,
+      ...(await loadDirection(direction, filter)),
+    })),
+  );
+
+  const entries = results
+    .flatMap(({ direction, rows }) => rows.map((row) => toEntry(direction, row)))
+    .filter((entry) => entry.freightAmount > 0);
+  const invoiced = new Set(
+    (await getFreightInvoiceMarks(entries.map((entry) => entry.key))).map(
+      (mark) => mark.entryKey,
+    ),
+  );
+
+  return {
+    entries: entries.filter((entry) => !invoiced.has(entry.key)),
+    truncatedDirections: results
+      .filter((result) => result.truncated)
+      .map((result) => result.direction),
+  };
+}
+
+/** Local midnight of a YYYY-MM-DD date */
+function toLocalDate(date: string): Date | null {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  if (!year || !month || !day || year < 1900) return null;
+  return new Date(year, month - 1, day);
+}
+
+/** Sortable key and display label of the period a date falls in */
+export function getFreightPeriod(
+  postingDate: string,
+  period: FreightPeriod,
+): { key: string; label: string } {
+  const date = toLocalDate(postingDate);
+  if (!date) return { key: "", label: "-" };
+
+  if (period === "day") {
+    return { key: format(date, "yyyy-MM-dd"), label: format(date, "dd/MM/yyyy") };
+  }
+  if (period === "week") {
+    const start = startOfWeek(date, { weekStartsOn: 1 });
+    const end = endOfWeek(date, { weekStartsOn: 1 });
+    return {
+      key: format(start, "yyyy-MM-dd"),
+      label: `${format(start, "dd/MM")} - ${format(end, "dd/MM/yyyy")}`,
+    };
+  }
+  return { key: format(date, "yyyy-MM"), label: format(date, "MMM yyyy") };
+}
+
+/** Group totals kept to two decimals */
+const TOTAL_FIELDS = [
+  "freightAmount",
+  "netWeight",
+  "shortageKg",
+  "deduction",
+  "payable",
+] as const;
+
+/**
+ * Apply the shortage rules and group by transporter and period
+ * Groups are ordered by transporter, then period
+ */
+export function groupFreightEntries(
+  entries: FreightEntry[],
+  period: FreightPeriod,
+  rules: ShortageRules,
+): FreightGroup[] {
+  const groups = new Map<string, FreightGroup>();
+
+  for (const raw of entries) {
+    const entry = applyShortageRules(raw, rules);
+    const { key: periodKey, label: periodLabel } = getFreightPeriod(
+      entry.postingDate,
+      period,
+    );
+    const key = `${entry.transporter}|${periodKey}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        transporter: entry.transporter,
+        periodKey,
+        periodLabel,
+        entries: [],
+        bags: 0,
+        freightAmount: 0,
+        netWeight: 0,
+        shortageKg: 0,
+        deduction: 0,
+        payable: 0,
+      };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+    group.bags += entry.bags;
+    group.freightAmount += entry.freightAmount;
+    group.netWeight += entry.netWeight;
+    group.shortageKg += entry.shortageKg;
+    group.deduction += entry.deduction;
+    group.payable += entry.payable;
+  }
+
+  for (const group of groups.values()) {
+    for (const field of TOTAL_FIELDS) {
+      group[field] = Math.round(group[field] * 100) / 100;
+    }
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      a.transporter.localeCompare(b.transporter) ||
+      a.periodKey.localeCompare(b.periodKey),
+  );
+}
+
+/** Rupee amount with two decimals, grouped the Indian way */
+export function formatFreightAmount(value: number): string {
+  return value.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Server-side freight invoice checks on the ERP
+ * An entry's freight stays billed while the purchase invoice it was recorded
+ * on is in the ERP, open or posted and not cancelled. Marks of invoices that
+ * were deleted or cancelled since are released, so the freight can be billed
+ * again
+ * Never import this file from client components
+ */
+
+import { buildODataQuery } from "@/lib/api/endpoints";
+import { ERP_COMPANY, erpFetch } from "@/lib/api/server";
+import { getFreightInvoiceMarks, releaseFreightInvoiceMarks } from "./server-store";
+import type { FreightInvoiceMark } from "./types";
+
+/** Invoice numbers per ERP request, to keep the filter short */
+const INVOICES_PER_REQUEST = 20;
+
+type Row = Record<string, unknown>;
+
+function companyQuery(): string {
+  return `company='${encodeURIComponent(ERP_COMPANY)}'`;
+}
+
+async function readErpError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: { message?: string } };
+    return data.error?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Rows of the entity set whose field is one of the values */
+async function findRows(entitySet: string, field: string, values: string[]): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let start = 0; start < values.length; start += INVOICES_PER_REQUEST) {
+    const query = buildODataQuery({
+      $filter: values
+        .slice(start, start + INVOICES_PER_REQUEST)
+        .map((value) => `${field} eq '${value.replace(/'/g, "''")}'`)
+        .join(" or "),
+    });
+    const response = await erpFetch(`/${entitySet}?${companyQuery()}&${query}`);
+    if (!response.ok) {
+      throw new Error(await readErpError(response, "Failed to check the freight invoices"));
+    }
+    const data = (await response.json()) as { value?: Row[] };
+    rows.push(...(data.value ?? []));
+  }
+  return rows;
+}
+
+/**
+ * Numbers of the invoices still in the ERP
+ * A posted invoice keeps the draft's number as its pre-assigned number
+ */
+export async function findBilledFreightInvoices(invoiceNos: string[]): Promise<Set<string>> {
+  const unique = Array.from(new Set(invoiceNos));
+  if (unique.length === 0) return new Set();
+  const [open, posted] = await Promise.all([
+    findRows("PurchaseInvoiceHeader", "No", unique),
+    findRows("PostedPurchaseInvoiceH", "Pre_Assigned_No", unique),
+  ]);
+  return new Set([
+    ...open.map((row) => String(row.No)),
+    ...posted.filter((row) => row.Cancelled !== true).map((row) => String(row.Pre_Assigned_No)),
+  ]);
+}
+
+/**
+ * Marks of the entries whose invoice is still in the ERP; marks of invoices
+ * deleted or cancelled since are released
+ */
+export async function getBilledFreightInvoiceMarks(
+  entryKeys: string[],
+): Promise<FreightInvoiceMark[]> {
+  const marks = await getFreightInvoiceMarks(entryKeys);
+  const billed = await findBilledFreightInvoices(marks.map((mark) => mark.invoiceNo));
+  const stale = marks.filter((mark) => !billed.has(mark.invoiceNo));
+  if (stale.length > 0) await releaseFreightInvoiceMarks(stale);
+  return marks.filter((mark) => billed.has(mark.invoiceNo));
+}
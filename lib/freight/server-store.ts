@@ -0,0 +1,46 @@
+/**
+ * Server-side store for invoiced freight
+ * Keeps the purchase invoice each gate entry's freight was billed on in the
+ * shared store (see lib/api/shared-store), one value per gate entry
+ * Never import this file from client components
+ */
+
+import {
+  createSharedValues,
+  deleteSharedValue,
+  readSharedValues,
+} from "@/lib/api/shared-store";
+import type { FreightInvoiceMark } from "./types";
+
+const KEY_PREFIX = "freight-invoices:";
+
+function markKey(entryKey: string): string {
+  return `${KEY_PREFIX}${entryKey}`;
+}
+
+/** Marks of the entries that were invoiced; entries not invoiced are left out */
+export async function getFreightInvoiceMarks(
+  entryKeys: string[],
+): Promise<FreightInvoiceMark[]> {
+  const marks = await readSharedValues<FreightInvoiceMark>(entryKeys.map(markKey));
+  return marks.filter((mark): mark is FreightInvoiceMark => mark !== null);
+}
+
+/**
+ * Record the invoice against its entries, all or none
+ * @returns keys of the entries that were already invoiced; nothing is recorded when there are any
+ */
+export async function recordFreightInvoiceMarks(marks: FreightInvoiceMark[]): Promise<string[]> {
+  const existing = await createSharedValues(
+    Object.fromEntries(marks.map((mark) => [markKey(mark.entryKey), mark])),
+  );
+  return existing.map((key) => key.slice(KEY_PREFIX.length));
+}
+
+/**
+ * Remove marks so their entries can be billed again
+ * A mark re-recorded meanwhile is left alone
+ */
+export async function releaseFreightInvoiceMarks(marks: FreightInvoiceMark[]): Promise<void> {
+  await Promise.all(marks.map((mark) => deleteSharedValue(markKey(mark.entryKey), mark)));
+}
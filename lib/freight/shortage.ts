@@ -0,0 +1,46 @@
+/**
+ * Shortage Deductions
+ * Only inward loads are checked: the bags are counted against the net weight
+ * received. Outward shortages are claimed by the customer, not deducted here
+ */
+
+import type { FreightEntry, ShortageRules } from "./types";
+
+export const DEFAULT_SHORTAGE_RULES: ShortageRules = {
+  bagWeightKg: 50,
+  tolerancePercent: 0.5,
+  ratePerKg: 0,
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Fill the expected weight, shortage, deduction and payable of an entry
+ * The deduction never exceeds the freight
+ */
+export function applyShortageRules(
+  entry: FreightEntry,
+  rules: ShortageRules,
+): FreightEntry {
+  const expectedWeight =
+    entry.direction === "Inward" ? entry.bags * rules.bagWeightKg : 0;
+  const tolerance = (expectedWeight * rules.tolerancePercent) / 100;
+  const shortageKg =
+    expectedWeight > 0 && entry.netWeight > 0
+      ? Math.max(0, expectedWeight - entry.netWeight - tolerance)
+      : 0;
+  const deduction = Math.min(
+    entry.freightAmount,
+    round2(shortageKg * rules.ratePerKg),
+  );
+
+  return {
+    ...entry,
+    expectedWeight,
+    shortageKg: round2(shortageKg),
+    deduction,
+    payable: round2(entry.freightAmount - deduction),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Freight Register Types
+ */
+
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+
+export type FreightPeriod = "day" | "week" | "month";
+
+export interface FreightFilters {
+  fromDate: string;
+  toDate: string;
+  directions: GateEntryDirection[];
+  period: FreightPeriod;
+}
+
+/**
+ * Shortage deduction settings
+ * Expected weight is bags x bag weight; shortage beyond the tolerance is
+ * deducted from the freight at the deduction rate
+ */
+export interface ShortageRules {
+  bagWeightKg: number;
+  tolerancePercent: number;
+  ratePerKg: number;
+}
+
+/** One gate entry's freight */
+export interface FreightEntry {
+  key: string;
+  direction: GateEntryDirection;
+  no: string;
+  postingDate: string;
+  transporter: string;
+  vehicleNo: string;
+  locationCode: string;
+  branchCode: string;
+  lobCode: string;
+  bags: number;
+  perBagFreight: number;
+  freightAmount: number;
+  netWeight: number;
+  expectedWeight: number;
+  shortageKg: number;
+  deduction: number;
+  payable: number;
+}
+
+/** Freight of one transporter in one period */
+export interface FreightGroup {
+  key: string;
+  transporter: string;
+  periodKey: string;
+  periodLabel: string;
+  entries: FreightEntry[];
+  bags: number;
+  freightAmount: number;
+  netWeight: number;
+  shortageKg: number;
+  deduction: number;
+  payable: number;
+}
+
+/** Purchase invoice a posted gate entry's freight was billed on */
+export interface FreightInvoiceMark {
+  /** `FreightEntry.key`, e.g. "Inward:GI-0001" */
+  entryKey: string;
+  invoiceNo: string;
+  invoicedBy: string;
+  invoicedAt: number;
+}
@@ -0,0 +1,107 @@
+/**
+ * Freight register hook
+ * Loads the gate entries for the current filters within the user's branches
+ * and groups them by transporter and period under the shortage rules
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, startOfMonth } from "date-fns";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { getWebUserSetup } from "@/lib/api/services/dimension.service";
+import { getErrorMessage } from "@/lib/errors";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import { groupFreightEntries, loadFreightEntries } from "./register";
+import { DEFAULT_SHORTAGE_RULES } from "./shortage";
+import type { FreightEntry, FreightFilters, ShortageRules } from "./types";
+
+export const ALL_FREIGHT_DIRECTIONS: GateEntryDirection[] = ["Inward", "Outward"];
+
+interface LoadResult {
+  requestKey: string;
+  entries: FreightEntry[];
+  truncatedDirections: GateEntryDirection[];
+  error: string | null;
+}
+
+/** Current month to date */
+function getDefaultFilters(): FreightFilters {
+  const today = new Date();
+  return {
+    fromDate: format(startOfMonth(today), "yyyy-MM-dd"),
+    toDate: format(today, "yyyy-MM-dd"),
+    directions: ALL_FREIGHT_DIRECTIONS,
+    period: "month",
+  };
+}
+
+export function useFreightRegister() {
+  const { userID } = useAuth();
+  const [filters, setFilters] = useState<FreightFilters>(getDefaultFilters);
+  const [rules, setRules] = useState<ShortageRules>(DEFAULT_SHORTAGE_RULES);
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+
+  // Period only regroups; it does not reload
+  const { fromDate, toDate, directions } = filters;
+  const requestKey = `${fromDate}|${toDate}|${directions.join(",")}#${generation}`;
+
+  useEffect(() => {
+    if (!userID) return;
+    let cancelled = false;
+
+    getWebUserSetup(userID)
+      .then((setup) => {
+        const branchCodes = Array.from(
+          new Set(setup.map((row) => row.Branch_Code).filter(Boolean)),
+        );
+        return loadFreightEntries({ fromDate, toDate, directions }, branchCodes);
+      })
+      .then(({ entries, truncatedDirections }) => {
+        if (cancelled) return;
+        setResult({ requestKey, entries, truncatedDirections, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading freight register:", error);
+        setResult({
+          requestKey,
+          entries: [],
+          truncatedDirections: [],
+          error: getErrorMessage(error, "Failed to load gate entries"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userID, requestKey, fromDate, toDate, directions]);
+
+  const isLoading = !!userID && result?.requestKey !== requestKey;
+  const entries = useMemo(() => result?.entries ?? [], [result]);
+  const groups = useMemo(
+    () => groupFreightEntries(entries, filters.period, rules),
+    [entries, filters.period, rules],
+  );
+
+  const updateFilters = useCallback((next: Partial<FreightFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    rules,
+    setRules,
+    groups,
+    truncatedDirections: result?.truncatedDirections ?? [],
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Offline outbox exports
+ */
+
+export * from "./types";
+export * from "./storage";
+export * from "./outbox";
+export * from "./use-outbox";
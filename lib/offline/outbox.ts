@@ -0,0 +1,195 @@
+/**
+ * Offline Outbox
+ * Replays the signed-in user's queued mutations in the order they were recorded
+ * A 412 (stale ETag) marks the entry as a conflict; other server errors mark it failed
+ * Later entries of the same document wait until such an entry is retried or
+ * discarded, since they may build on it (lines written after their header)
+ */
+
+import { apiRequest, type ApiError } from "@/lib/api/client";
+import { getAuthSession } from "@/lib/auth/storage";
+import { cleanApiErrorMessage } from "@/lib/errors";
+import {
+  getOutboxEntries,
+  putOutboxEntry,
+  removeOutboxEntry,
+} from "./storage";
+import type { OutboxEntry, OutboxReplayResult } from "./types";
+
+/**
+ * Key fields naming the document a header or line belongs to; matched without
+ * case, since bodies are sent with camel-cased keys (transformPayloadKeys)
+ */
+const DOCUMENT_FIELDS = ["document_no", "gate_entry_no", "no"];
+
+/** Quoted values of an OData key, e.g. `(Entry_Type='Inward',No='GI-0001')` */
+const KEY_VALUE = /(?:(\w+)=)?'((?:[^']|'')*)'/g;
+
+/**
+ * Document number an entry writes to: from the record key in its endpoint,
+ * else from its body; null when unknown (a header numbered by the ERP)
+ */
+function getDocumentNo(entry: OutboxEntry): string | null {
+  const path = decodeURIComponent(entry.endpoint.split("?")[0]);
+  const key = path.slice(path.lastIndexOf("/") + 1).match(/\((.*)\)$/)?.[1];
+  const fields: Record<string, unknown> = {};
+  if (key) {
+    for (const [, name, value] of key.matchAll(KEY_VALUE)) {
+      fields[(name ?? "No").toLowerCase()] = value.replace(/''/g, "'");
+    }
+  } else if (entry.body) {
+    try {
+      for (const [name, value] of Object.entries(JSON.parse(entry.body))) {
+        fields[name.toLowerCase()] = value;
+      }
+    } catch {
+      // Not JSON; no document to tie it to
+    }
+  }
+  for (const field of DOCUMENT_FIELDS) {
+    const value = fields[field];
+    if (typeof value === "string" && value) return value;
+  }
+  return null;
+}
+
+let activeReplay: { userID: string; promise: Promise<OutboxReplayResult> } | null =
+  null;
+
+async function replayEntries(userID: string): Promise<OutboxReplayResult> {
+  const result: OutboxReplayResult = {
+    synced: 0,
+    conflicts: 0,
+    failed: 0,
+    blocked: 0,
+    interrupted: false,
+  };
+
+  const entries = await getOutboxEntries(userID);
+  // Documents with an entry that is waiting for the user
+  const heldDocuments = new Set<string>();
+
+  // Successive offline edits of one record all carry the ETag read before going
+  // offline; chain them onto the ETag returned by the previous replayed edit
+  const refreshedEtags = new Map<string, { sent: string; received: string }>();
+
+  for (const entry of entries) {
+    const documentNo = getDocumentNo(entry);
+    if (entry.status !== "pending") {
+      if (documentNo) heldDocuments.add(documentNo);
+      continue;
+    }
+    if (documentNo && heldDocuments.has(documentNo)) {
+      result.blocked++;
+      continue;
+    }
+
+    // The proxy sends each request as whoever holds the session cookie now;
+    // stop when the user signed out or someone else signed in
+    if (getAuthSession()?.userID !== userID) {
+      result.interrupted = true;
+      break;
+    }
+
+    const headers = { ...entry.headers };
+    const ifMatch = headers["If-Match"];
+    const refreshed = refreshedEtags.get(entry.endpoint);
+    if (ifMatch && ifMatch !== "*" && refreshed?.sent === ifMatch) {
+      headers["If-Match"] = refreshed.received;
+    }
+
+    try {
+      const response = await apiRequest<{ "@odata.etag"?: string } | null>(
+        entry.endpoint,
+        {
+          method: entry.method,
+          body: entry.body,
+          headers,
+          // Conflicts are reported in the sync dialog instead
+          conflict: false,
+        },
+      );
+      const receivedEtag = response?.["@odata.etag"];
+      if (ifMatch && receivedEtag) {
+        refreshedEtags.set(entry.endpoint, {
+          sent: ifMatch,
+          received: receivedEtag,
+        });
+      }
+      await removeOutboxEntry(entry.id);
+      result.synced++;
+    } catch (error) {
+      const apiError = error as ApiError;
+
+      // Still offline: keep this and every later entry queued, in order
+      if (apiError?.code === "NETWORK_ERROR") {
+        await putOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+        result.interrupted = true;
+        break;
+      }
+
+      if (documentNo) heldDocuments.add(documentNo);
+      const isConflict = apiError?.status === 412;
+      await putOutboxEntry({
+        ...entry,
+        status: isConflict ? "conflict" : "failed",
+        attempts: entry.attempts + 1,
+        error: isConflict
+          ? "The record was changed by someone else before this update synced"
+          : cleanApiErrorMessage(apiError?.message) || "Sync failed",
+      });
+      if (isConflict) {
+        result.conflicts++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replay the user's pending entries
+ * Concurrent callers for the same user share the in-flight replay; another
+ * user's replay waits for it to stop
+ */
+export function replayOutbox(userID: string): Promise<OutboxReplayResult> {
+  if (activeReplay?.userID === userID) return activeReplay.promise;
+
+  const previous = activeReplay?.promise.catch(() => undefined);
+  const promise = Promise.resolve(previous)
+    .then(() => replayEntries(userID))
+    .finally(() => {
+      if (activeReplay?.promise === promise) activeReplay = null;
+    });
+  activeReplay = { userID, promise };
+  return promise;
+}
+
+/**
+ * Put a conflicted or failed entry back in the queue
+ * With `overwrite`, a conflicted update is resent without its ETag check
+ */
+export async function retryOutboxEntry(
+  entry: OutboxEntry,
+  options: { overwrite?: boolean } = {},
+): Promise<void> {
+  const headers = { ...entry.headers };
+  if (options.overwrite && headers["If-Match"]) {
+    headers["If-Match"] = "*";
+  }
+  await putOutboxEntry({
+    ...entry,
+    headers,
+    status: "pending",
+    error: undefined,
+  });
+}
+
+/**
+ * Drop an entry without sending it
+ */
+export async function discardOutboxEntry(id: number): Promise<void> {
+  await removeOutboxEntry(id);
+}
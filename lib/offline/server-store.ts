@@ -0,0 +1,86 @@
+/**
+ * Server-side store for idempotent creates
+ * A create queued in the offline outbox carries an Idempotency-Key. The ERP
+ * proxy claims the key before forwarding the create and records the ERP's
+ * response against it, so a replay after a lost response gets the recorded
+ * response instead of creating the record twice
+ * Never import this file from client components
+ */
+
+import {
+  createSharedValues,
+  deleteSharedValue,
+  readSharedValue,
+  updateSharedValue,
+} from "@/lib/api/shared-store";
+
+const KEY_PREFIX = "idempotency:";
+
+/** Attempts to claim a key that is released meanwhile */
+const MAX_CLAIM_ATTEMPTS = 2;
+
+export interface IdempotentResponse {
+  status: number;
+  body: string | null;
+  headers: Record<string, string>;
+}
+
+export interface IdempotencyRecord {
+  claimedAt: number;
+  /** The ERP's answer; unset while the create is in flight */
+  response?: IdempotentResponse;
+}
+
+export interface IdempotencyClaim {
+  record: IdempotencyRecord;
+  /** False when an earlier request holds the key */
+  claimed: boolean;
+}
+
+function recordKey(userID: string, key: string): string {
+  return `${KEY_PREFIX}${userID}:${key}`;
+}
+
+/**
+ * Claim the key for a create, or read the claim of the request that holds it
+ * Keys are per user, so one user's key never answers another's request
+ */
+export async function claimIdempotencyKey(
+  userID: string,
+  key: string,
+): Promise<IdempotencyClaim> {
+  const storeKey = recordKey(userID, key);
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const record: IdempotencyRecord = { claimedAt: Date.now() };
+    const existing = await createSharedValues({ [storeKey]: record });
+    if (existing.length === 0) return { record, claimed: true };
+
+    const current = await readSharedValue<IdempotencyRecord>(storeKey);
+    if (current) return { record: current, claimed: false };
+  }
+  throw new Error("The request could not be claimed. Please try again.");
+}
+
+/**
+ * Record the ERP's response to a claimed create
+ */
+export async function completeIdempotencyKey(
+  userID: string,
+  key: string,
+  response: IdempotentResponse,
+): Promise<void> {
+  await updateSharedValue<IdempotencyRecord>(recordKey(userID, key), (current) =>
+    current ? { ...current, response } : null,
+  );
+}
+
+/**
+ * Give up a claim whose create did not go through, so it can be sent again
+ */
+export async function releaseIdempotencyKey(
+  userID: string,
+  key: string,
+  record: IdempotencyRecord,
+): Promise<void> {
+  await deleteSharedValue(recordKey(userID, key), record);
+}
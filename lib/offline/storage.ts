@@ -0,0 +1,121 @@
+/**
+ * Offline Outbox Storage
+ * IndexedDB persistence for queued mutations (survives reloads and closed tabs)
+ * Entries are kept per user: on a shared PC another user's entries stay parked
+ * until that user signs in again
+ */
+
+import type { OutboxEntry } from "./types";
+
+const DB_NAME = "sf-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "outbox";
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether IndexedDB is available (false server-side and in some private modes)
+ */
+export function isOutboxSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the outbox store and resolves with its result
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to outbox changes; returns an unsubscribe function
+ */
+export function subscribeToOutbox(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Add a mutation to the outbox
+ */
+export async function addOutboxEntry(
+  entry: Omit<OutboxEntry, "id">,
+): Promise<number> {
+  const id = await withStore("readwrite", (store) => store.add(entry));
+  notifyListeners();
+  return id as number;
+}
+
+/**
+ * The user's queued entries in the order they were recorded
+ */
+export async function getOutboxEntries(
+  userID: string | null,
+): Promise<OutboxEntry[]> {
+  if (!userID || !isOutboxSupported()) return [];
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) =>
+    store.getAll(),
+  );
+  return entries
+    .filter((entry) => entry.userID === userID)
+    .sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Update an existing entry (status, attempts, error)
+ */
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+  notifyListeners();
+}
+
+/**
+ * Remove an entry after it synced or was discarded by the user
+ */
+export async function removeOutboxEntry(id: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyListeners();
+}
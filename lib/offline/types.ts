@@ -0,0 +1,46 @@
+/**
+ * Offline outbox types
+ * Mutations recorded while the ERP is unreachable, replayed once back online
+ */
+
+export type OutboxEntryStatus = "pending" | "conflict" | "failed";
+
+export type OutboxMethod = "POST" | "PATCH" | "DELETE";
+
+/**
+ * A queued ERP mutation
+ * Body is stored already serialized, exactly as apiRequest would send it
+ */
+export interface OutboxEntry {
+  id: number;
+  /** User who recorded the entry; only their session lists and replays it */
+  userID: string;
+  /** Human-readable description shown in the sync dialog (e.g. "Inward Gate Entry") */
+  label: string;
+  endpoint: string;
+  method: OutboxMethod;
+  body?: string;
+  headers: Record<string, string>;
+  createdAt: string;
+  status: OutboxEntryStatus;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Opt-in flag for apiRequest and its helpers
+ * When set, a mutation that cannot reach the server is queued instead of failing
+ */
+export interface OfflineQueueOptions {
+  label: string;
+}
+
+export interface OutboxReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  /** Entries left queued behind an earlier entry of their document that needs attention */
+  blocked: number;
+  /** True when replay stopped early because the connection dropped again */
+  interrupted: boolean;
+}
@@ -0,0 +1,122 @@
+/**
+ * useOutbox Hook
+ * Live view of the signed-in user's offline outbox plus sync actions
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/lib/contexts/auth-context";
+import {
+  getOutboxEntries,
+  isOutboxSupported,
+  subscribeToOutbox,
+} from "./storage";
+import {
+  discardOutboxEntry,
+  replayOutbox,
+  retryOutboxEntry,
+} from "./outbox";
+import type { OutboxEntry } from "./types";
+
+interface UseOutboxOptions {
+  /** Replay automatically on mount and whenever the browser comes back online */
+  autoSync?: boolean;
+}
+
+export function useOutbox({ autoSync = false }: UseOutboxOptions = {}) {
+  const { userID } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await getOutboxEntries(userID));
+    } catch (error) {
+      console.error("Error reading offline outbox:", error);
+    }
+  }, [userID]);
+
+  const syncNow = useCallback(async () => {
+    if (!userID || !isOutboxSupported()) return;
+    setIsSyncing(true);
+    try {
+      const result = await replayOutbox(userID);
+      if (result.synced > 0) {
+        toast.success(
+          `${result.synced} offline ${result.synced === 1 ? "change" : "changes"} synced`,
+        );
+      }
+      if (result.conflicts > 0 || result.failed > 0) {
+        toast.error(
+          `${result.conflicts + result.failed} offline ${result.conflicts + result.failed === 1 ? "change needs" : "changes need"} attention`,
+        );
+      }
+      if (result.blocked > 0) {
+        toast.info(
+          `${result.blocked} offline ${result.blocked === 1 ? "change waits" : "changes wait"} for an earlier change of the same document`,
+        );
+      }
+    } catch (error) {
+      console.error("Error syncing offline outbox:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [userID]);
+
+  const retry = useCallback(
+    async (entry: OutboxEntry, overwrite = false) => {
+      await retryOutboxEntry(entry, { overwrite });
+      await syncNow();
+    },
+    [syncNow],
+  );
+
+  const discard = useCallback(async (id: number) => {
+    await discardOutboxEntry(id);
+  }, []);
+
+  useEffect(() => {
+    if (!isOutboxSupported()) return;
+    setIsOnline(navigator.onLine);
+    refresh();
+    return subscribeToOutbox(refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (autoSync) syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    if (autoSync && navigator.onLine) syncNow();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [autoSync, syncNow]);
+
+  const pendingCount = entries.filter(
+    (entry) => entry.status === "pending",
+  ).length;
+  const attentionCount = entries.length - pendingCount;
+
+  return {
+    entries,
+    pendingCount,
+    attentionCount,
+    isOnline,
+    isSyncing,
+    syncNow,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Payables exports
+ */
+
+export * from "./types";
+export * from "./schedule";
+export * from "./payment-run";
+export * from "./use-payables";
@@ -0,0 +1,165 @@
+/**
+ * Payment Run
+ * Turns a payment proposal into Cash Payment vouchers: one voucher per vendor
+ * for the net of the ticked entries, each entry then linked to the voucher
+ * for application. Vouchers land in the WEB batch like hand-made ones, where
+ * they are reviewed, given attachments and posted from the voucher page.
+ * When some entries cannot be applied the voucher is cut down to the applied
+ * ones, or deleted when none are. A failure stops only that vendor; the rest
+ * of the run carries on
+ */
+
+import {
+  createNoSeriesForVouchers,
+  createVoucher,
+  deleteVoucher,
+  updateVoucher,
+  type CreateVoucherPayload,
+} from "@/lib/api/services/voucher.service";
+import { applyVendorLedgerEntry } from "@/lib/api/services/vendor-ledger.service";
+import { getErrorMessage } from "@/lib/errors";
+import type { PayableEntry, PaymentRunInput, PaymentRunResult, PayablesVendor } from "./types";
+
+const VOUCHER_TYPE = "Cash Payment";
+const JOURNAL_TEMPLATE = "CASH PAYM";
+const JOURNAL_BATCH = "WEB";
+
+export interface PaymentProposalLine {
+  vendor: PayablesVendor;
+  entries: PayableEntry[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Net amount payable for the ticked entries */
+export function getProposalAmount(entries: PayableEntry[]): number {
+  return round2(entries.reduce((sum, payable) => sum + payable.amountDue, 0));
+}
+
+export function getPaymentDescription(vendor: PayablesVendor, entries: PayableEntry[]): string {
+  const documents = entries.map((payable) => payable.entry.Document_No).filter(Boolean);
+  const shown = documents.slice(0, 3).join(", ");
+  const more = documents.length > 3 ? ` +${documents.length - 3}` : "";
+  return `Payment ${vendor.vendorName || vendor.vendorNo} ${shown}${more}`.trim().slice(0, 100);
+}
+
+function buildPaymentPayload(
+  line: PaymentProposalLine,
+  amount: number,
+  documentNo: string,
+  input: PaymentRunInput,
+): CreateVoucherPayload {
+  const { vendor, entries } = line;
+  const payload: CreateVoucherPayload = {
+    Journal_Template_Name: JOURNAL_TEMPLATE,
+    Journal_Batch_Name: JOURNAL_BATCH,
+    Posting_Date: input.postingDate,
+    Document_Type: "Payment",
+    Account_Type: "Vendor",
+    Account_No: vendor.vendorNo,
+    Amount: amount,
+    Bal_Account_Type: "G/L Account",
+    Bal_Account_No: input.balAccountNo,
+    Document_Date: input.postingDate,
+    Document_No: documentNo,
+    Description: getPaymentDescription(vendor, entries),
+  };
+  if (input.userId) payload.User_ID = input.userId;
+
+  const tdsSection = input.tdsSections[vendor.vendorNo];
+  if (tdsSection) {
+    payload.Party_Type = "Vendor";
+    payload.Party_Code = vendor.vendorNo;
+    payload.TDS_Section_Code = tdsSection;
+  }
+  return payload;
+}
+
+async function payVendor(
+  line: PaymentProposalLine,
+  input: PaymentRunInput,
+): Promise<PaymentRunResult> {
+  const { vendor, entries } = line;
+  const amount = getProposalAmount(entries);
+  const result: PaymentRunResult = {
+    vendorNo: vendor.vendorNo,
+    vendorName: vendor.vendorName,
+    amount,
+    appliedEntries: 0,
+    failedEntries: [],
+  };
+
+  if (!(amount > 0)) {
+    return { ...result, error: "The ticked entries do not add up to a payment" };
+  }
+
+  let documentNo: string;
+  let lineNo: number;
+  try {
+    documentNo = await createNoSeriesForVouchers(VOUCHER_TYPE, input.postingDate);
+    if (!documentNo) throw new Error("No voucher number was issued");
+    const created = await createVoucher(
+      buildPaymentPayload(line, amount, documentNo, input),
+      VOUCHER_TYPE,
+    );
+    lineNo = Number(created.Line_No);
+  } catch (error) {
+    return { ...result, error: getErrorMessage(error, "Failed to create the payment voucher") };
+  }
+  result.documentNo = documentNo;
+
+  const applied: PayableEntry[] = [];
+  for (const payable of entries) {
+    try {
+      await applyVendorLedgerEntry(documentNo, payable.entry.Entry_No);
+      applied.push(payable);
+    } catch (error) {
+      console.error(`Error applying entry ${payable.entry.Entry_No} to ${documentNo}:`, error);
+      result.failedEntries.push(payable.entry.Entry_No);
+    }
+  }
+  result.appliedEntries = applied.length;
+  if (result.failedEntries.length === 0) return result;
+
+  // Pay only what was applied, so the voucher never pays for unlinked entries
+  const appliedAmount = getProposalAmount(applied);
+  try {
+    if (!lineNo) throw new Error(`Voucher ${documentNo} did not return its line number`);
+    if (appliedAmount > 0) {
+      await updateVoucher(JOURNAL_TEMPLATE, JOURNAL_BATCH, lineNo, { Amount: appliedAmount });
+      return { ...result, amount: appliedAmount };
+    }
+    await deleteVoucher(JOURNAL_TEMPLATE, JOURNAL_BATCH, lineNo);
+    return {
+      ...result,
+      documentNo: undefined,
+      appliedEntries: 0,
+      error: "The entries could not be applied, so the voucher was deleted",
+    };
+  } catch (error) {
+    return {
+      ...result,
+      error: `The voucher still pays the full amount; correct it on the voucher page (${getErrorMessage(error, "update failed")})`,
+    };
+  }
+}
+
+/**
+ * Create the vouchers one vendor at a time, so voucher numbers follow the
+ * order of the proposal; reports each vendor as it finishes
+ */
+export async function runPaymentProposal(
+  lines: PaymentProposalLine[],
+  input: PaymentRunInput,
+  onResult?: (result: PaymentRunResult) => void,
+): Promise<PaymentRunResult[]> {
+  const results: PaymentRunResult[] = [];
+  for (const line of lines) {
+    const result = await payVendor(line, input);
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
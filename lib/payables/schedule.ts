@@ -0,0 +1,200 @@
+/**
+ * Payables Schedule
+ * Buckets open vendor ledger entries by when they fall due: overdue, this
+ * week, next week or later, weeks starting Monday. Entries without a due
+ * date fall due on posting. Like receivables ageing, the ERP only knows
+ * today's remaining amount, so the schedule is always as of today
+ */
+
+import { endOfWeek, format } from "date-fns";
+import {
+  getVendorLedgerEntriesRaw,
+  type VendorLedgerEntry,
+} from "@/lib/api/services/vendor-ledger.service";
+import { getVendorTDSGroupCodes, type TDSGroupCode } from "@/lib/api/services/tds.service";
+import type { DueBucketKey, DueBuckets, PayableEntry, PayablesVendor } from "./types";
+
+const PAGE_SIZE = 1000;
+const TDS_LOOKUP_CONCURRENCY = 4;
+
+/** Open entries loaded for the payables workspace */
+export const PAYABLES_MAX_ENTRIES = 10000;
+
+export const DUE_BUCKETS: Array<{ key: DueBucketKey; label: string }> = [
+  { key: "overdue", label: "Overdue" },
+  { key: "thisWeek", label: "Due This Week" },
+  { key: "nextWeek", label: "Due Next Week" },
+  { key: "later", label: "Later" },
+];
+
+const SELECT_FIELDS = [
+  "Entry_No",
+  "Vendor_No",
+  "VendorName",
+  "Posting_Date",
+  "Document_Type",
+  "Document_No",
+  "External_Document_No",
+  "Description",
+  "Amount",
+  "Remaining_Amount",
+  "Due_Date",
+  "On_Hold",
+  "Applies_to_ID",
+].join(",");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Whole days from a yyyy-MM-dd date to another, ignoring time zones */
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.slice(0, 10).split("-").map(Number);
+  const [ty, tm, td] = to.slice(0, 10).split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+function isBlankDate(value: string | undefined): boolean {
+  return !value || value.startsWith("0001-01-01");
+}
+
+export function emptyDueBuckets(): DueBuckets {
+  return { overdue: 0, thisWeek: 0, nextWeek: 0, later: 0 };
+}
+
+/**
+ * Days left until the end of this week and of next week, from `today`
+ */
+export function getWeekBoundaries(today: Date): { thisWeekEnd: number; nextWeekEnd: number } {
+  const asOf = format(today, "yyyy-MM-dd");
+  const weekEnd = format(endOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd");
+  const thisWeekEnd = daysBetween(asOf, weekEnd);
+  return { thisWeekEnd, nextWeekEnd: thisWeekEnd + 7 };
+}
+
+export function formatPayableAmount(value: number): string {
+  return value.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+export function getDueBucket(
+  daysToDue: number,
+  { thisWeekEnd, nextWeekEnd }: { thisWeekEnd: number; nextWeekEnd: number },
+): DueBucketKey {
+  if (daysToDue < 0) return "overdue";
+  if (daysToDue <= thisWeekEnd) return "thisWeek";
+  if (daysToDue <= nextWeekEnd) return "nextWeek";
+  return "later";
+}
+
+export function toPayableEntry(entry: VendorLedgerEntry, today: Date): PayableEntry {
+  const asOf = format(today, "yyyy-MM-dd");
+  const dueDate = (isBlankDate(entry.Due_Date) ? entry.Posting_Date : entry.Due_Date) || asOf;
+  const daysToDue = daysBetween(asOf, dueDate);
+  return {
+    entry,
+    dueDate: dueDate.slice(0, 10),
+    daysToDue,
+    bucket: getDueBucket(daysToDue, getWeekBoundaries(today)),
+    // Vendor ledger amounts are negative when we owe the vendor
+    amountDue: round2(-(Number(entry.Remaining_Amount) || 0)),
+    onHold: String(entry.On_Hold || "").trim() !== "",
+    appliedTo: String(entry.Applies_to_ID || "").trim(),
+  };
+}
+
+/**
+ * Entries on hold or already applied to an unposted payment cannot be
+ * proposed, so a second run does not pay them twice
+ */
+export function canProposeEntry(payable: PayableEntry): boolean {
+  return !payable.onHold && !payable.appliedTo;
+}
+
+/**
+ * One row per vendor, soonest due first within a vendor and the most overdue
+ * vendors first
+ */
+export function buildPayablesVendors(
+  entries: VendorLedgerEntry[],
+  today: Date,
+): PayablesVendor[] {
+  const byVendor = new Map<string, PayableEntry[]>();
+  for (const entry of entries) {
+    const payable = toPayableEntry(entry, today);
+    const list = byVendor.get(entry.Vendor_No);
+    if (list) list.push(payable);
+    else byVendor.set(entry.Vendor_No, [payable]);
+  }
+
+  return Array.from(byVendor, ([vendorNo, vendorEntries]) => {
+    const buckets = emptyDueBuckets();
+    for (const payable of vendorEntries) buckets[payable.bucket] += payable.amountDue;
+    for (const { key } of DUE_BUCKETS) buckets[key] = round2(buckets[key]);
+    vendorEntries.sort((a, b) => a.daysToDue - b.daysToDue || a.entry.Entry_No - b.entry.Entry_No);
+    return {
+      vendorNo,
+      vendorName: vendorEntries.find((p) => p.entry.VendorName)?.entry.VendorName || "",
+      buckets,
+      total: round2(DUE_BUCKETS.reduce((sum, { key }) => sum + buckets[key], 0)),
+      entries: vendorEntries,
+    };
+  }).sort(
+    (a, b) =>
+      b.buckets.overdue - a.buckets.overdue ||
+      b.buckets.thisWeek - a.buckets.thisWeek ||
+      b.total - a.total,
+  );
+}
+
+/**
+ * Open entries with something remaining, across all vendors
+ */
+export async function loadOpenVendorEntries(): Promise<{
+  entries: VendorLedgerEntry[];
+  truncated: boolean;
+}> {
+  const entries: VendorLedgerEntry[] = [];
+  for (let skip = 0; skip < PAYABLES_MAX_ENTRIES; skip += PAGE_SIZE) {
+    const response = await getVendorLedgerEntriesRaw({
+      $filter: "Open eq true and Remaining_Amount ne 0",
+      $select: SELECT_FIELDS,
+      $orderby: "Vendor_No asc, Due_Date asc, Entry_No asc",
+      $top: PAGE_SIZE,
+      $skip: skip,
+    });
+    const page = response.value || [];
+    entries.push(...page);
+    if (page.length < PAGE_SIZE) return { entries, truncated: false };
+  }
+  return { entries, truncated: true };
+}
+
+/**
+ * TDS sections set up for each vendor; vendors without any are left out.
+ * A failed lookup counts as no TDS, as `getVendorTDSGroupCodes` does
+ */
+export async function loadVendorTDSSections(
+  vendorNos: string[],
+): Promise<Record<string, TDSGroupCode[]>> {
+  const sections: Record<string, TDSGroupCode[]> = {};
+  let next = 0;
+
+  const worker = async () => {
+    while (next < vendorNos.length) {
+      const vendorNo = vendorNos[next++];
+      const codes = await getVendorTDSGroupCodes(vendorNo);
+      const unique = new Map(codes.map((code) => [code.TDS_Section, code]));
+      if (unique.size > 0) sections[vendorNo] = Array.from(unique.values());
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(TDS_LOOKUP_CONCURRENCY, vendorNos.length) }, worker),
+  );
+  return sections;
+}
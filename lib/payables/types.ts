@@ -0,0 +1,53 @@
+/**
+ * Payables Types
+ */
+
+import type { VendorLedgerEntry } from "@/lib/api/services/vendor-ledger.service";
+
+export type DueBucketKey = "overdue" | "thisWeek" | "nextWeek" | "later";
+
+export type DueBuckets = Record<DueBucketKey, number>;
+
+export interface PayableEntry {
+  entry: VendorLedgerEntry;
+  /** Due date, or posting date when the entry has none (yyyy-MM-dd) */
+  dueDate: string;
+  /** Days from today to the due date; negative when overdue */
+  daysToDue: number;
+  bucket: DueBucketKey;
+  /** What we owe on the entry: positive for invoices, negative for advances and credit memos */
+  amountDue: number;
+  /** On hold entries are not proposed for payment */
+  onHold: boolean;
+  /** Payment document the entry is applied to until it posts; blank when not applied */
+  appliedTo: string;
+}
+
+export interface PayablesVendor {
+  vendorNo: string;
+  vendorName: string;
+  buckets: DueBuckets;
+  total: number;
+  entries: PayableEntry[];
+}
+
+export interface PaymentRunInput {
+  /** Bank or cash G/L account the payments are made from */
+  balAccountNo: string;
+  postingDate: string;
+  /** TDS section per vendor; vendors missing here are paid without TDS */
+  tdsSections: Record<string, string>;
+  userId?: string;
+}
+
+export interface PaymentRunResult {
+  vendorNo: string;
+  vendorName: string;
+  amount: number;
+  /** Voucher document number; missing when the voucher was not created */
+  documentNo?: string;
+  appliedEntries: number;
+  /** Entries that could not be linked to the voucher */
+  failedEntries: number[];
+  error?: string;
+}
@@ -0,0 +1,88 @@
+/**
+ * Payables hook
+ * Loads open vendor entries and buckets them by due date as of today, then
+ * looks up which of those vendors have TDS sections
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import type { VendorLedgerEntry } from "@/lib/api/services/vendor-ledger.service";
+import type { TDSGroupCode } from "@/lib/api/services/tds.service";
+import { getErrorMessage } from "@/lib/errors";
+import { buildPayablesVendors, loadOpenVendorEntries, loadVendorTDSSections } from "./schedule";
+
+interface LoadResult {
+  requestKey: string;
+  entries: VendorLedgerEntry[];
+  truncated: boolean;
+  error: string | null;
+}
+
+interface TDSResult {
+  requestKey: string;
+  sections: Record<string, TDSGroupCode[]>;
+}
+
+export function usePayables() {
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+  const [tds, setTds] = useState<TDSResult | null>(null);
+
+  const requestKey = String(generation);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadOpenVendorEntries()
+      .then(async ({ entries, truncated }) => {
+        if (cancelled) return;
+        setResult({ requestKey, entries, truncated, error: null });
+        const vendorNos = Array.from(new Set(entries.map((entry) => entry.Vendor_No)));
+        const sections = await loadVendorTDSSections(vendorNos);
+        if (cancelled) return;
+        setTds({ requestKey, sections });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading payables:", error);
+        setResult({
+          requestKey,
+          entries: [],
+          truncated: false,
+          error: getErrorMessage(error, "Failed to load open vendor entries"),
+        });
+        setTds({ requestKey, sections: {} });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  const isLoading = result?.requestKey !== requestKey;
+  const asOfDate = format(new Date(), "yyyy-MM-dd");
+  const vendors = useMemo(
+    // asOfDate keeps the buckets current when the page stays open past midnight
+    () => buildPayablesVendors(result?.entries ?? [], new Date(`${asOfDate}T00:00:00`)),
+    [result, asOfDate],
+  );
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    vendors,
+    asOfDate,
+    tdsSections: tds?.sections ?? {},
+    isLoadingTDS: tds?.requestKey !== requestKey,
+    truncated: result?.truncated ?? false,
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    refetch,
+  };
+}
+
+export type UsePayablesResult = ReturnType<typeof usePayables>;
@@ -0,0 +1,198 @@
+/**
+ * Client-side PDF writer
+ * Draws text, lines and rectangles on A4 pages with PDFKit and returns the
+ * file as base64, ready for `viewPdfFromBase64`. Text is set in Noto Sans,
+ * with Devanagari runs in Noto Sans Devanagari (public/fonts), so ₹ and
+ * Hindi names print as entered.
+ * Coordinates are in points from the top-left corner of the page; text `y`
+ * is the baseline
+ */
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+  color?: PdfColor;
+}
+
+export interface PdfLineOptions {
+  width?: number;
+  color?: PdfColor;
+}
+
+export interface PdfRectOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfDocument {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  addPage(): void;
+  text(value: string, x: number, y: number, options?: PdfTextOptions): void;
+  textWidth(value: string, size: number, bold?: boolean): number;
+  /** Split text into lines no wider than `width` */
+  wrapText(value: string, width: number, size: number, bold?: boolean): string[];
+  line(x1: number, y1: number, x2: number, y2: number, options?: PdfLineOptions): void;
+  rect(x: number, y: number, width: number, height: number, options?: PdfRectOptions): void;
+  toBase64(): Promise<string>;
+}
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+const BLACK: PdfColor = [0, 0, 0];
+
+/** Font files under public/, by registered name */
+const FONT_FILES = {
+  sans: "/fonts/NotoSans-Regular.ttf",
+  sansBold: "/fonts/NotoSans-Bold.ttf",
+  devanagari: "/fonts/NotoSansDevanagari-Regular.ttf",
+  devanagariBold: "/fonts/NotoSansDevanagari-Bold.ttf",
+};
+
+type FontName = keyof typeof FONT_FILES;
+
+/** Devanagari, its extensions and the joiners used inside conjuncts */
+const DEVANAGARI_RUN = /([\u0900-\u097F\uA8E0-\uA8FF\u1CD0-\u1CFF\u200C\u200D]+)/;
+
+let fontsPromise: Promise<Record<FontName, ArrayBuffer>> | null = null;
+
+async function fetchFont(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load the PDF font ${url}`);
+  return response.arrayBuffer();
+}
+
+/** Fonts are fetched once per page load */
+function loadFonts(): Promise<Record<FontName, ArrayBuffer>> {
+  if (!fontsPromise) {
+    const names = Object.keys(FONT_FILES) as FontName[];
+    fontsPromise = Promise.all(names.map((name) => fetchFont(FONT_FILES[name])))
+      .then(
+        (files) =>
+          Object.fromEntries(names.map((name, index) => [name, files[index]])) as Record<
+            FontName,
+            ArrayBuffer
+          >,
+      )
+      .catch((error) => {
+        fontsPromise = null;
+        throw error;
+      });
+  }
+  return fontsPromise;
+}
+
+/** Split text into runs that each need one font */
+function toRuns(value: string, bold: boolean): Array<{ text: string; font: FontName }> {
+  return value
+    .split(DEVANAGARI_RUN)
+    .filter(Boolean)
+    .map((text) => {
+      const family = DEVANAGARI_RUN.test(text) ? "devanagari" : "sans";
+      return { text, font: (bold ? `${family}Bold` : family) as FontName };
+    });
+}
+
+function toRgb(color: PdfColor): PdfColor {
+  return color.map((channel) => Math.round(channel * 255)) as PdfColor;
+}
+
+function toBase64(chunks: Uint8Array[]): string {
+  let binary = "";
+  for (const chunk of chunks) {
+    // Spread in slices so large files stay within the argument limit
+    for (let offset = 0; offset < chunk.length; offset += 0x8000) {
+      binary += String.fromCharCode(...chunk.subarray(offset, offset + 0x8000));
+    }
+  }
+  return btoa(binary);
+}
+
+export async function createPdfDocument(): Promise<PdfDocument> {
+  const [{ default: PDFDocument }, fonts] = await Promise.all([import("pdfkit"), loadFonts()]);
+  // No default font: the browser build does not bundle the standard fonts
+  const pdf = new PDFDocument({ size: [A4_WIDTH, A4_HEIGHT], margin: 0, font: "" });
+  for (const name of Object.keys(fonts) as FontName[]) {
+    pdf.registerFont(name, fonts[name]);
+  }
+  pdf.font("sans");
+
+  const chunks: Uint8Array[] = [];
+  const finished = new Promise<void>((resolve, reject) => {
+    pdf.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+    pdf.on("end", () => resolve());
+    pdf.on("error", reject);
+  });
+
+  const textWidth = (value: string, size: number, bold = false) =>
+    toRuns(value, bold).reduce(
+      (total, run) => total + pdf.font(run.font).fontSize(size).widthOfString(run.text),
+      0,
+    );
+
+  return {
+    pageWidth: A4_WIDTH,
+    pageHeight: A4_HEIGHT,
+
+    addPage() {
+      pdf.addPage({ size: [A4_WIDTH, A4_HEIGHT], margin: 0 });
+    },
+
+    text(value, x, y, { size = 10, bold = false, align = "left", color = BLACK } = {}) {
+      if (!value) return;
+      const width = textWidth(value, size, bold);
+      let left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+      pdf.fillColor(toRgb(color));
+      for (const run of toRuns(value, bold)) {
+        pdf.font(run.font).fontSize(size);
+        pdf.text(run.text, left, y, { lineBreak: false, baseline: "alphabetic" });
+        left += pdf.widthOfString(run.text);
+      }
+    },
+
+    textWidth,
+
+    wrapText(value, width, size, bold = false) {
+      const lines: string[] = [];
+      for (const paragraph of (value || "").split(/\r?\n/)) {
+        let line = "";
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+          const candidate = line ? `${line} ${word}` : word;
+          if (!line || textWidth(candidate, size, bold) <= width) {
+            line = candidate;
+          } else {
+            lines.push(line);
+            line = word;
+          }
+        }
+        lines.push(line);
+      }
+      return lines;
+    },
+
+    line(x1, y1, x2, y2, { width = 0.5, color = BLACK } = {}) {
+      pdf.moveTo(x1, y1).lineTo(x2, y2).lineWidth(width).stroke(toRgb(color));
+    },
+
+    rect(x, y, width, height, { fill, stroke, lineWidth = 0.5 } = {}) {
+      pdf.rect(x, y, width, height);
+      if (fill && stroke) {
+        pdf.lineWidth(lineWidth).fillAndStroke(toRgb(fill), toRgb(stroke));
+      } else if (fill) {
+        pdf.fill(toRgb(fill));
+      } else {
+        pdf.lineWidth(lineWidth).stroke(toRgb(stroke ?? BLACK));
+      }
+    },
+
+    async toBase64() {
+      pdf.end();
+      await finished;
+      return toBase64(chunks);
+    },
+  };
+}
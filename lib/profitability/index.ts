@@ -0,0 +1,7 @@
+/**
+ * Profitability exports
+ */
+
+export * from "./types";
+export * from "./profitability";
+export * from "./use-profitability";
@@ -0,0 +1,250 @@
+/**
+ * Profitability
+ * Revenue, cost of goods sold, expenses and margins of the income statement
+ * accounts per LOB, branch and location combination, optionally against an
+ * earlier period. G/L entries are summed once per account and dimension
+ * combination; regrouping by a different set of dimensions happens in the
+ * browser without going back to the ERP
+ */
+
+import { getPostingGLAccounts } from "@/lib/api/services/account.service";
+import { getGLTotalsGrouped, type GLGroupTotals } from "@/lib/api/services/gl-entry.service";
+import { TRIAL_BALANCE_DIMENSIONS, getDimensionConditions } from "@/lib/trial-balance";
+import type {
+  ComparisonMode,
+  Profitability,
+  ProfitabilityAccount,
+  ProfitabilityAmount,
+  ProfitabilityData,
+  ProfitabilityDimensionKey,
+  ProfitabilityFigures,
+  ProfitabilityFilters,
+  ProfitabilityLine,
+  ProfitabilityPeriod,
+  ProfitabilityRow,
+} from "./types";
+
+/** Account categories that make up each P&L line */
+export const PROFITABILITY_LINES: Array<{ line: ProfitabilityLine; category: string; label: string }> = [
+  { line: "revenue", category: "Income", label: "Revenue" },
+  { line: "cogs", category: "Cost of Goods Sold", label: "COGS" },
+  { line: "expenses", category: "Expense", label: "Expenses" },
+];
+
+export const COMPARISON_MODES: Array<{ value: ComparisonMode; label: string }> = [
+  { value: "previousPeriod", label: "Previous period" },
+  { value: "lastYear", label: "Same period last year" },
+  { value: "none", label: "No comparison" },
+];
+
+export const BLANK_DIMENSION_LABEL = "(blank)";
+
+const ACCOUNT_FIELD = "G_L_Account_No";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseDate(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** The same day a year earlier; 29 February becomes the 28th */
+function yearEarlier(date: string): string {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  const lastDay = new Date(Date.UTC(y - 1, m, 0)).getUTCDate();
+  return toDateString(Date.UTC(y - 1, m - 1, Math.min(d, lastDay)));
+}
+
+/**
+ * The period the report is compared with: the same number of days right
+ * before it, or the same dates a year earlier
+ */
+export function getComparisonPeriod(
+  fromDate: string,
+  toDate: string,
+  mode: ComparisonMode,
+): ProfitabilityPeriod | null {
+  if (mode === "lastYear") {
+    return { fromDate: yearEarlier(fromDate), toDate: yearEarlier(toDate) };
+  }
+  if (mode === "previousPeriod") {
+    const from = parseDate(fromDate);
+    const length = parseDate(toDate) - from;
+    return { fromDate: toDateString(from - DAY_MS - length), toDate: toDateString(from - DAY_MS) };
+  }
+  return null;
+}
+
+export function calculateFigures(revenue: number, cogs: number, expenses: number): ProfitabilityFigures {
+  const grossMargin = revenue - cogs;
+  const netMargin = grossMargin - expenses;
+  return {
+    revenue: round2(revenue),
+    cogs: round2(cogs),
+    grossMargin: round2(grossMargin),
+    expenses: round2(expenses),
+    netMargin: round2(netMargin),
+    marginPct: revenue ? Math.round((netMargin / revenue) * 1000) / 10 : null,
+  };
+}
+
+function sumFigures(accounts: ProfitabilityAccount[], comparison: boolean): ProfitabilityFigures {
+  const sums: Record<ProfitabilityLine, number> = { revenue: 0, cogs: 0, expenses: 0 };
+  for (const account of accounts) {
+    sums[account.line] += comparison ? account.comparisonAmount : account.amount;
+  }
+  return calculateFigures(sums.revenue, sums.cogs, sums.expenses);
+}
+
+/** Row label for a dimension value */
+export function formatDimensionValue(value: string): string {
+  return value || BLANK_DIMENSION_LABEL;
+}
+
+function toAmounts(
+  totals: GLGroupTotals[],
+  lines: Map<string, ProfitabilityLine>,
+): ProfitabilityAmount[] {
+  return totals
+    .filter(({ keys }) => lines.has(keys[ACCOUNT_FIELD]))
+    .map(({ keys, amount }) => ({
+      accountNo: keys[ACCOUNT_FIELD],
+      dimensions: Object.fromEntries(
+        TRIAL_BALANCE_DIMENSIONS.map(({ key, field }) => [key, keys[field] ?? ""]),
+      ) as Record<ProfitabilityDimensionKey, string>,
+      // Income is credit, i.e. negative, in the ledger; show it as a positive figure
+      amount: lines.get(keys[ACCOUNT_FIELD]) === "revenue" ? -amount : amount,
+    }));
+}
+
+/**
+ * Load the income statement accounts and their totals per dimension
+ * combination for the period and the comparison period
+ */
+export async function loadProfitabilityData(
+  filters: Omit<ProfitabilityFilters, "groupBy">,
+): Promise<ProfitabilityData> {
+  const additionalFilters = getDimensionConditions(filters);
+  const groupFields = [ACCOUNT_FIELD, ...TRIAL_BALANCE_DIMENSIONS.map(({ field }) => field)];
+  const comparisonPeriod = getComparisonPeriod(filters.fromDate, filters.toDate, filters.comparison);
+
+  const [chart, current, previous] = await Promise.all([
+    getPostingGLAccounts(),
+    getGLTotalsGrouped(
+      { fromDate: filters.fromDate, toDate: filters.toDate, additionalFilters },
+      groupFields,
+    ),
+    comparisonPeriod
+      ? getGLTotalsGrouped({ ...comparisonPeriod, additionalFilters }, groupFields)
+      : Promise.resolve({ totals: [], truncated: false }),
+  ]);
+
+  const lineByCategory = new Map(PROFITABILITY_LINES.map(({ category, line }) => [category, line]));
+  const accounts = chart.flatMap((account) => {
+    const line = lineByCategory.get((account.Account_Category ?? "").trim());
+    return line ? [{ accountNo: account.No, accountName: account.Name ?? "", line }] : [];
+  });
+  const lines = new Map(accounts.map(({ accountNo, line }) => [accountNo, line]));
+
+  return {
+    accounts,
+    current: toAmounts(current.totals, lines),
+    previous: toAmounts(previous.totals, lines),
+    comparisonPeriod,
+    truncated: current.truncated || previous.truncated,
+  };
+}
+
+/**
+ * Roll the loaded totals up into a row per combination of the grouped
+ * dimensions, with each row's accounts for the drill-down. Rows are sorted
+ * by net margin, best first
+ */
+export function buildProfitability(
+  data: ProfitabilityData,
+  groupBy: ProfitabilityDimensionKey[],
+): Profitability {
+  const accountMap = new Map(data.accounts.map((account) => [account.accountNo, account]));
+  const groups = new Map<
+    string,
+    { dimensions: Record<ProfitabilityDimensionKey, string>; accounts: Map<string, ProfitabilityAccount> }
+  >();
+
+  const add = (amount: ProfitabilityAmount, comparison: boolean) => {
+    const account = accountMap.get(amount.accountNo);
+    if (!account) return;
+    const key = groupBy.map((dimension) => amount.dimensions[dimension]).join("|");
+    let group = groups.get(key);
+    if (!group) {
+      const dimensions = { lob: "", branch: "", loc: "" };
+      groupBy.forEach((dimension) => {
+        dimensions[dimension] = amount.dimensions[dimension];
+      });
+      group = { dimensions, accounts: new Map() };
+      groups.set(key, group);
+    }
+    const line = group.accounts.get(account.accountNo) ?? {
+      ...account,
+      amount: 0,
+      comparisonAmount: 0,
+    };
+    if (comparison) line.comparisonAmount += amount.amount;
+    else line.amount += amount.amount;
+    group.accounts.set(account.accountNo, line);
+  };
+
+  data.current.forEach((amount) => add(amount, false));
+  data.previous.forEach((amount) => add(amount, true));
+
+  const hasComparison = data.comparisonPeriod !== null;
+  const rows: ProfitabilityRow[] = Array.from(groups.entries())
+    .map(([key, group]) => {
+      const accounts = Array.from(group.accounts.values())
+        .map((account) => ({
+          ...account,
+          amount: round2(account.amount),
+          comparisonAmount: round2(account.comparisonAmount),
+        }))
+        .filter((account) => account.amount || account.comparisonAmount)
+        .sort((a, b) => a.accountNo.localeCompare(b.accountNo));
+      return {
+        key,
+        dimensions: group.dimensions,
+        figures: sumFigures(accounts, false),
+        comparison: hasComparison ? sumFigures(accounts, true) : null,
+        accounts,
+      };
+    })
+    .filter((row) => row.accounts.length > 0)
+    .sort((a, b) => b.figures.netMargin - a.figures.netMargin);
+
+  const allAccounts = rows.flatMap((row) => row.accounts);
+  return {
+    rows,
+    totals: sumFigures(allAccounts, false),
+    comparisonTotals: hasComparison ? sumFigures(allAccounts, true) : null,
+    comparisonPeriod: data.comparisonPeriod,
+    truncated: data.truncated,
+  };
+}
+
+/**
+ * G/L entry conditions for a row's drill-down: the slices plus the row's
+ * own dimension values. A blank value cannot be filtered on, so a row with
+ * a blank dimension has no drill-down (null)
+ */
+export function getRowConditions(filters: ProfitabilityFilters, row: ProfitabilityRow) {
+  if (filters.groupBy.some((dimension) => !row.dimensions[dimension])) return null;
+  const scoped = { ...filters };
+  filters.groupBy.forEach((dimension) => {
+    scoped[dimension] = row.dimensions[dimension];
+  });
+  return getDimensionConditions(scoped);
+}
@@ -0,0 +1,80 @@
+/**
+ * Profitability Types
+ */
+
+export type ProfitabilityDimensionKey = "lob" | "branch" | "loc";
+
+/** Which earlier period the report is compared with */
+export type ComparisonMode = "previousPeriod" | "lastYear" | "none";
+
+/** The P&L line an income statement account rolls up to */
+export type ProfitabilityLine = "revenue" | "cogs" | "expenses";
+
+export interface ProfitabilityFilters {
+  fromDate: string;
+  toDate: string;
+  /** Dimension slices; empty means all values */
+  lob: string;
+  branch: string;
+  loc: string;
+  /** Dimensions that make up a row, in display order; at least one */
+  groupBy: ProfitabilityDimensionKey[];
+  comparison: ComparisonMode;
+}
+
+export interface ProfitabilityFigures {
+  revenue: number;
+  cogs: number;
+  grossMargin: number;
+  expenses: number;
+  netMargin: number;
+  /** Net margin as a percentage of revenue; null without revenue */
+  marginPct: number | null;
+}
+
+export interface ProfitabilityAccount {
+  accountNo: string;
+  accountName: string;
+  line: ProfitabilityLine;
+  /** Revenue as a credit-positive figure, costs as debit-positive */
+  amount: number;
+  comparisonAmount: number;
+}
+
+export interface ProfitabilityRow {
+  key: string;
+  /** Value of every grouped dimension; empty for entries without one */
+  dimensions: Record<ProfitabilityDimensionKey, string>;
+  figures: ProfitabilityFigures;
+  comparison: ProfitabilityFigures | null;
+  accounts: ProfitabilityAccount[];
+}
+
+export interface ProfitabilityPeriod {
+  fromDate: string;
+  toDate: string;
+}
+
+/** Income statement totals per account and dimension combination */
+export interface ProfitabilityAmount {
+  accountNo: string;
+  dimensions: Record<ProfitabilityDimensionKey, string>;
+  amount: number;
+}
+
+export interface ProfitabilityData {
+  accounts: Array<{ accountNo: string; accountName: string; line: ProfitabilityLine }>;
+  current: ProfitabilityAmount[];
+  previous: ProfitabilityAmount[];
+  comparisonPeriod: ProfitabilityPeriod | null;
+  /** Entries were summed by hand and not all of them could be read */
+  truncated: boolean;
+}
+
+export interface Profitability {
+  rows: ProfitabilityRow[];
+  totals: ProfitabilityFigures;
+  comparisonTotals: ProfitabilityFigures | null;
+  comparisonPeriod: ProfitabilityPeriod | null;
+  truncated: boolean;
+}
@@ -0,0 +1,96 @@
+/**
+ * Profitability hook
+ * Loads income statement totals for the period, slices and comparison, and
+ * regroups them by the selected dimensions
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, startOfMonth } from "date-fns";
+import { getErrorMessage } from "@/lib/errors";
+import { buildProfitability, loadProfitabilityData } from "./profitability";
+import type { ProfitabilityData, ProfitabilityFilters } from "./types";
+
+interface LoadResult {
+  requestKey: string;
+  data: ProfitabilityData | null;
+  error: string | null;
+}
+
+/** Current month to date against the previous period, by every dimension */
+function getDefaultFilters(): ProfitabilityFilters {
+  const today = new Date();
+  return {
+    fromDate: format(startOfMonth(today), "yyyy-MM-dd"),
+    toDate: format(today, "yyyy-MM-dd"),
+    lob: "",
+    branch: "",
+    loc: "",
+    groupBy: ["lob", "branch", "loc"],
+    comparison: "previousPeriod",
+  };
+}
+
+export function useProfitability() {
+  const [filters, setFilters] = useState<ProfitabilityFilters>(getDefaultFilters);
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+
+  const { fromDate, toDate, lob, branch, loc, comparison, groupBy } = filters;
+  const enabled = !!fromDate && !!toDate && fromDate <= toDate;
+  // Grouping is applied to the loaded totals, so it is not part of the key
+  const requestKey = `${fromDate}|${toDate}|${lob}|${branch}|${loc}|${comparison}#${generation}`;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    loadProfitabilityData({ fromDate, toDate, lob, branch, loc, comparison })
+      .then((data) => {
+        if (cancelled) return;
+        setResult({ requestKey, data, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading profitability:", error);
+        setResult({
+          requestKey,
+          data: null,
+          error: getErrorMessage(error, "Failed to load profitability"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, requestKey, fromDate, toDate, lob, branch, loc, comparison]);
+
+  const isLoading = enabled && result?.requestKey !== requestKey;
+  const data = result?.data ?? null;
+
+  const profitability = useMemo(
+    () => (data ? buildProfitability(data, groupBy) : null),
+    [data, groupBy],
+  );
+
+  const updateFilters = useCallback((next: Partial<ProfitabilityFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    profitability,
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    enabled,
+    refetch,
+  };
+}
+
+export type UseProfitabilityResult = ReturnType<typeof useProfitability>;
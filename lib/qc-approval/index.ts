@@ -0,0 +1,7 @@
+/**
+ * QC approval exports
+ */
+
+export * from "./types";
+export * from "./workflow";
+export * from "./use-qc-approval";
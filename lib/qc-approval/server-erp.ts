@@ -0,0 +1,200 @@
+/**
+ * Server-side QC approval on the ERP
+ * Reads a receipt's header and lines, writes the approval fields to the
+ * header and keeps the /api/erp proxy from posting unapproved receipts or
+ * changing receipts that are with the approvers
+ * Never import this file from client components
+ */
+
+import { buildODataQuery } from "@/lib/api/endpoints";
+import { ERP_COMPANY, erpFetch } from "@/lib/api/server";
+import type {
+  QCReceiptHeader,
+  QCReceiptLine,
+} from "@/lib/api/services/qc-receipt.service";
+import { getErpOperations, getErpResourceName } from "@/lib/auth/erp-access";
+import { listQCApprovalEvents } from "./server-store";
+import type { QCApprovalRecord } from "./types";
+import {
+  QC_ERP_APPROVAL_STATUS,
+  buildQCApprovalRecord,
+  type QCApprovalHeaderFields,
+} from "./workflow";
+
+export type QCApprovalHeader = Pick<
+  QCReceiptHeader,
+  "No" | "Inspection_Quantity" | "@odata.etag"
+> &
+  QCApprovalHeaderFields;
+
+export interface LoadedQCApproval {
+  header: QCApprovalHeader;
+  lines: QCReceiptLine[];
+  record: QCApprovalRecord;
+}
+
+/** Receipt key in an ERP path, e.g. "qcReceiptH('QC-0001')" or "qcreceiptLine(No='QC-0001',Line_No=10000)" */
+const RECEIPT_KEY = /^qc(?:ReceiptH\(|receiptLine\(No=)'((?:[^']|'')*)'/i;
+
+/** Approval fields in a payload, as sent or camel-cased by the client */
+const APPROVAL_KEYS = /^(approve|approved_?by|approval_?status)$/i;
+
+const WRITE_METHODS = ["POST", "PATCH", "PUT", "MERGE", "DELETE"];
+
+function companyQuery(): string {
+  return `company='${encodeURIComponent(ERP_COMPANY)}'`;
+}
+
+async function readErpError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: { message?: string } };
+    return data.error?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function headerEndpoint(receiptNo: string): string {
+  return `/qcReceiptH('${receiptNo.replace(/'/g, "''")}')?${companyQuery()}`;
+}
+
+export async function getQCApprovalHeader(receiptNo: string): Promise<QCApprovalHeader> {
+  const response = await erpFetch(headerEndpoint(receiptNo));
+  if (!response.ok) {
+    throw new Error(await readErpError(response, `QC receipt ${receiptNo} not found`));
+  }
+  return (await response.json()) as QCApprovalHeader;
+}
+
+async function getQCApprovalLines(receiptNo: string): Promise<QCReceiptLine[]> {
+  const query = buildODataQuery({
+    $filter: `No eq '${receiptNo.replace(/'/g, "''")}'`,
+    $orderby: "Line_No asc",
+  });
+  const response = await erpFetch(`/qcreceiptLine?${companyQuery()}&${query}`);
+  if (!response.ok) {
+    throw new Error(await readErpError(response, `Lines of QC receipt ${receiptNo} not found`));
+  }
+  const data = (await response.json()) as { value?: QCReceiptLine[] };
+  return data.value ?? [];
+}
+
+/**
+ * Read a receipt's approval from the ERP header and lines and the trail
+ */
+export async function loadQCApproval(receiptNo: string): Promise<LoadedQCApproval> {
+  const [header, lines, events] = await Promise.all([
+    getQCApprovalHeader(receiptNo),
+    getQCApprovalLines(receiptNo),
+    listQCApprovalEvents(receiptNo),
+  ]);
+  return {
+    header,
+    lines,
+    record: buildQCApprovalRecord(receiptNo, header, lines, events),
+  };
+}
+
+/**
+ * Write the approval fields to the receipt header
+ * `etag` is the header's etag when read, so concurrent approvals fail
+ * @returns the header's new etag
+ */
+export async function writeQCApprovalHeader(
+  receiptNo: string,
+  etag: string,
+  fields: QCApprovalHeaderFields,
+): Promise<string> {
+  const response = await erpFetch(headerEndpoint(receiptNo), {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", "If-Match": etag },
+    // Keys are camel-cased the way apiRequest sends them
+    body: JSON.stringify({
+      approval_Status: fields.Approval_Status,
+      approve: fields.Approve,
+      approved_By: fields.Approved_By,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      response.status === 412
+        ? "The receipt was changed by someone else. Reload it and try again."
+        : await readErpError(response, "Failed to update the QC receipt approval"),
+    );
+  }
+  const updated = (await response.json().catch(() => ({}))) as { "@odata.etag"?: string };
+  return updated["@odata.etag"] || "*";
+}
+
+function isPendingOrApproved(header: QCApprovalHeaderFields): boolean {
+  return (
+    header.Approval_Status === QC_ERP_APPROVAL_STATUS.pending ||
+    header.Approval_Status === QC_ERP_APPROVAL_STATUS.approved
+  );
+}
+
+function decodePath(erpPath: string): string {
+  try {
+    return decodeURIComponent(erpPath);
+  } catch {
+    return erpPath;
+  }
+}
+
+async function checkOperation(
+  method: string,
+  erpPath: string,
+  body: unknown,
+): Promise<string | null> {
+  const name = getErpResourceName(erpPath);
+
+  if (name.toLowerCase() === "qccode_postqc") {
+    const payload = body as { docNo?: string; docno?: string } | null;
+    const docNo = payload?.docNo || payload?.docno;
+    if (!docNo) return "QC receipt number is required to post";
+    const header = await getQCApprovalHeader(docNo);
+    return header.Approval_Status === QC_ERP_APPROVAL_STATUS.approved
+      ? null
+      : `QC receipt ${docNo} must be approved before posting`;
+  }
+
+  if (!WRITE_METHODS.includes(method.toUpperCase())) return null;
+  const lowerName = name.toLowerCase();
+  if (lowerName !== "qcreceipth" && lowerName !== "qcreceiptline") return null;
+
+  if (
+    lowerName === "qcreceipth" &&
+    body &&
+    typeof body === "object" &&
+    Object.keys(body).some((key) => APPROVAL_KEYS.test(key))
+  ) {
+    return "QC approval is recorded through the approval workflow";
+  }
+
+  const match = RECEIPT_KEY.exec(
+    decodePath(erpPath).replace(/^\/?(?:Company\('(?:[^']|'')*'\)\/)?/, ""),
+  );
+  if (!match) return null;
+  const receiptNo = match[1].replace(/''/g, "'");
+  const header = await getQCApprovalHeader(receiptNo);
+  return isPendingOrApproved(header)
+    ? `QC receipt ${receiptNo} is with the approvers and cannot be changed`
+    : null;
+}
+
+/**
+ * Checks a proxied ERP call against QC approvals
+ * $batch calls are checked operation by operation
+ * @returns the reason the call is refused, or null when it is allowed
+ */
+export async function getQCApprovalViolation(
+  method: string,
+  erpPath: string,
+  body: unknown,
+): Promise<string | null> {
+  for (const operation of getErpOperations(method, erpPath, body) ?? []) {
+    const reason = await checkOperation(operation.method, operation.erpPath, operation.body);
+    if (reason) return reason;
+  }
+  return null;
+}
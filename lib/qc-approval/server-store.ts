@@ -0,0 +1,26 @@
+/**
+ * Server-side store for QC approval trails
+ * Keeps each receipt's transitions (user, time, comment) in the shared store
+ * (see lib/api/shared-store); the status itself lives on the ERP header
+ * Never import this file from client components
+ */
+
+import { appendSharedList, readSharedList } from "@/lib/api/shared-store";
+import type { QCApprovalEvent } from "./types";
+
+function eventsKey(receiptNo: string): string {
+  return `qc-approval-events:${receiptNo}`;
+}
+
+/** Transitions recorded against a receipt, oldest first */
+export async function listQCApprovalEvents(receiptNo: string): Promise<QCApprovalEvent[]> {
+  const events = await readSharedList<QCApprovalEvent>(eventsKey(receiptNo));
+  return events.sort((a, b) => a.at - b.at);
+}
+
+export async function appendQCApprovalEvent(
+  receiptNo: string,
+  event: QCApprovalEvent,
+): Promise<void> {
+  await appendSharedList(eventsKey(receiptNo), event);
+}
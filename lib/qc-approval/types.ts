@@ -0,0 +1,47 @@
+/**
+ * QC Approval Types
+ */
+
+export type QCApprovalStatus =
+  | "draft"
+  | "submitted"
+  | "first-approved"
+  | "approved"
+  | "returned";
+
+export type QCApprovalAction = "submit" | "approve" | "return";
+
+/** One transition, kept forever as the receipt's audit trail */
+export interface QCApprovalEvent {
+  action: QCApprovalAction;
+  /** Status after the transition */
+  status: QCApprovalStatus;
+  by: string;
+  at: number;
+  comment?: string;
+}
+
+/**
+ * A receipt's approval as read by the server: the status comes from the ERP
+ * header, the deviation from the ERP lines and the events from the trail
+ */
+export interface QCApprovalRecord {
+  receiptNo: string;
+  status: QCApprovalStatus;
+  /** Largest parameter deviation on the receipt's lines */
+  maxDeviationPercent: number;
+  requiresSecondApproval: boolean;
+  events: QCApprovalEvent[];
+}
+
+export interface QCApprovalTransitionInput {
+  action: QCApprovalAction;
+  comment?: string;
+}
+
+/** Who is acting, as far as the workflow is concerned */
+export interface QCApprovalActor {
+  userID: string;
+  canSubmit: boolean;
+  canApprove: boolean;
+}
@@ -0,0 +1,103 @@
+/**
+ * QC approval hook
+ * Loads a receipt's approval record and performs transitions as the
+ * signed-in user; receipts never submitted read as drafts
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  getQCApproval,
+  transitionQCApproval,
+} from "@/lib/api/services/qc-approval.service";
+import { canApproveQCReceipts } from "@/lib/auth/permissions";
+import { useAuth } from "@/lib/contexts/auth-context";
+import {
+  createQCApprovalRecord,
+  getAvailableQCApprovalActions,
+} from "./workflow";
+import type {
+  QCApprovalActor,
+  QCApprovalRecord,
+  QCApprovalTransitionInput,
+} from "./types";
+
+interface LoadedRecord {
+  receiptNo: string;
+  record: QCApprovalRecord | null;
+  error: boolean;
+}
+
+export function useQCApproval(receiptNo: string | undefined) {
+  const { user, userID, can } = useAuth();
+  const [loaded, setLoaded] = useState<LoadedRecord | null>(null);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+
+  useEffect(() => {
+    if (!receiptNo) return;
+    let cancelled = false;
+
+    getQCApproval(receiptNo)
+      .then((record) => {
+        if (!cancelled) setLoaded({ receiptNo, record, error: false });
+      })
+      .catch((error) => {
+        console.error("Error loading QC approval:", error);
+        if (!cancelled) setLoaded({ receiptNo, record: null, error: true });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [receiptNo]);
+
+  const transition = useCallback(
+    async (input: QCApprovalTransitionInput) => {
+      if (!receiptNo) throw new Error("Receipt is not loaded");
+      setIsTransitioning(true);
+      try {
+        const record = await transitionQCApproval(receiptNo, input);
+        setLoaded({ receiptNo, record, error: false });
+        return record;
+      } finally {
+        setIsTransitioning(false);
+      }
+    },
+    [receiptNo],
+  );
+
+  const isCurrent = !!receiptNo && loaded?.receiptNo === receiptNo;
+  const record = useMemo(
+    () =>
+      isCurrent && loaded.record
+        ? loaded.record
+        : createQCApprovalRecord(receiptNo ?? ""),
+    [isCurrent, loaded, receiptNo],
+  );
+
+  const actor: QCApprovalActor = useMemo(
+    () => ({
+      userID: userID ?? "",
+      canSubmit: can("qc", "edit"),
+      canApprove: canApproveQCReceipts(user),
+    }),
+    [userID, can, user],
+  );
+
+  const availableActions = useMemo(
+    () => getAvailableQCApprovalActions(record, actor),
+    [record, actor],
+  );
+
+  return {
+    record,
+    availableActions,
+    isLoading: !!receiptNo && !isCurrent,
+    loadFailed: isCurrent && loaded.error,
+    isTransitioning,
+    transition,
+  };
+}
+
+export type UseQCApprovalResult = ReturnType<typeof useQCApproval>;
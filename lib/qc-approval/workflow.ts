@@ -0,0 +1,236 @@
+/**
+ * QC Approval Workflow
+ * The checker submits the receipt; a QC manager approves it or returns it
+ * with a comment. When a parameter deviates beyond the threshold a second,
+ * different manager must approve as well. Nobody approves their own
+ * submission. The same rules run in the form and in /api/qc-approvals
+ *
+ * The status lives on the ERP header (Approval_Status, Approve, Approved_By)
+ * so the ERP and the /api/erp proxy can refuse posting unapproved receipts
+ */
+
+import type {
+  QCReceiptHeader,
+  QCReceiptLine,
+} from "@/lib/api/services/qc-receipt.service";
+import { evaluateQCLine } from "@/lib/qc/evaluation";
+import type {
+  QCApprovalAction,
+  QCApprovalActor,
+  QCApprovalEvent,
+  QCApprovalRecord,
+  QCApprovalStatus,
+  QCApprovalTransitionInput,
+} from "./types";
+
+/** Parameter deviation (%) above which a second approver is needed */
+export const QC_SECOND_APPROVAL_DEVIATION_PERCENT =
+  Number(process.env.NEXT_PUBLIC_QC_SECOND_APPROVAL_DEVIATION) || 5;
+
+export const QC_APPROVAL_STATUS_LABELS: Record<QCApprovalStatus, string> = {
+  draft: "Draft",
+  submitted: "Awaiting Approval",
+  "first-approved": "Awaiting 2nd Approval",
+  approved: "Approved",
+  returned: "Returned",
+};
+
+export const QC_APPROVAL_ACTION_LABELS: Record<QCApprovalAction, string> = {
+  submit: "Submitted",
+  approve: "Approved",
+  return: "Returned",
+};
+
+/** Approval fields of the ERP QC receipt header */
+export type QCApprovalHeaderFields = Pick<
+  QCReceiptHeader,
+  "Approval_Status" | "Approve" | "Approved_By"
+>;
+
+/** Approval_Status values of the ERP QC receipt header */
+export const QC_ERP_APPROVAL_STATUS = {
+  open: "Open",
+  pending: "Pending Approval",
+  approved: "Approved",
+} as const;
+
+export function createQCApprovalRecord(receiptNo: string): QCApprovalRecord {
+  return {
+    receiptNo,
+    status: "draft",
+    maxDeviationPercent: 0,
+    requiresSecondApproval: false,
+    events: [],
+  };
+}
+
+/**
+ * Largest deviation beyond a limit across the receipt's parameters
+ */
+export function getMaxDeviationPercent(lines: QCReceiptLine[]): number {
+  return lines.reduce((max, line) => {
+    const { outcome, deviationPercent } = evaluateQCLine(line);
+    return outcome === "deviation" || outcome === "fail"
+      ? Math.max(max, deviationPercent)
+      : max;
+  }, 0);
+}
+
+/** Header and lines are frozen while the receipt is with the approvers */
+export function isQCApprovalLocked(status: QCApprovalStatus): boolean {
+  return status === "submitted" || status === "first-approved" || status === "approved";
+}
+
+/**
+ * Workflow status of an ERP header; Open reads as returned when the last
+ * recorded transition was a return
+ */
+export function getQCApprovalStatus(
+  header: Partial<QCApprovalHeaderFields>,
+  events: QCApprovalEvent[],
+): QCApprovalStatus {
+  if (header.Approval_Status === QC_ERP_APPROVAL_STATUS.approved) return "approved";
+  if (header.Approval_Status === QC_ERP_APPROVAL_STATUS.pending) {
+    return header.Approved_By ? "first-approved" : "submitted";
+  }
+  return events[events.length - 1]?.action === "return" ? "returned" : "draft";
+}
+
+/**
+ * Approval record of a receipt from its ERP header and lines and the
+ * recorded trail; the lines decide whether a second approver is needed
+ */
+export function buildQCApprovalRecord(
+  receiptNo: string,
+  header: Partial<QCApprovalHeaderFields>,
+  lines: QCReceiptLine[],
+  events: QCApprovalEvent[],
+): QCApprovalRecord {
+  const maxDeviationPercent = getMaxDeviationPercent(lines);
+  return {
+    receiptNo,
+    status: getQCApprovalStatus(header, events),
+    maxDeviationPercent,
+    requiresSecondApproval: maxDeviationPercent > QC_SECOND_APPROVAL_DEVIATION_PERCENT,
+    events,
+  };
+}
+
+/**
+ * ERP header fields for a workflow status
+ * `approvedBy` is the latest approver; after a first of two approvals the
+ * header stays pending with the first approver in Approved_By
+ */
+export function getQCApprovalHeaderFields(
+  status: QCApprovalStatus,
+  approvedBy: string,
+): QCApprovalHeaderFields {
+  switch (status) {
+    case "approved":
+      return {
+        Approval_Status: QC_ERP_APPROVAL_STATUS.approved,
+        Approve: true,
+        Approved_By: approvedBy,
+      };
+    case "first-approved":
+      return {
+        Approval_Status: QC_ERP_APPROVAL_STATUS.pending,
+        Approve: false,
+        Approved_By: approvedBy,
+      };
+    case "submitted":
+      return { Approval_Status: QC_ERP_APPROVAL_STATUS.pending, Approve: false, Approved_By: "" };
+    default:
+      return { Approval_Status: QC_ERP_APPROVAL_STATUS.open, Approve: false, Approved_By: "" };
+  }
+}
+
+/** Events since the receipt was last submitted */
+function currentRound(record: QCApprovalRecord): QCApprovalEvent[] {
+  const lastSubmit = record.events.map((event) => event.action).lastIndexOf("submit");
+  return lastSubmit >= 0 ? record.events.slice(lastSubmit) : [];
+}
+
+/**
+ * Why the actor may not perform the action, or null when they may
+ */
+export function validateQCApprovalTransition(
+  record: QCApprovalRecord,
+  actor: QCApprovalActor,
+  input: QCApprovalTransitionInput,
+): string | null {
+  const round = currentRound(record);
+  const submitter = round[0]?.by;
+
+  switch (input.action) {
+    case "submit":
+      if (!actor.canSubmit) return "You do not have permission to submit QC receipts";
+      if (record.status !== "draft" && record.status !== "returned") {
+        return "Receipt has already been submitted";
+      }
+      return null;
+
+    case "approve":
+    case "return":
+      if (!actor.canApprove) return "Only a QC manager can approve or return QC receipts";
+      if (record.status !== "submitted" && record.status !== "first-approved") {
+        return "Receipt is not awaiting approval";
+      }
+      if (input.action === "return") {
+        return input.comment?.trim() ? null : "A comment is required to return the receipt";
+      }
+      if (actor.userID === submitter) return "You cannot approve a receipt you submitted";
+      if (round.some((event) => event.action === "approve" && event.by === actor.userID)) {
+        return "A second approval must come from a different approver";
+      }
+      return null;
+  }
+}
+
+/**
+ * Actions the actor can take on the record now
+ */
+export function getAvailableQCApprovalActions(
+  record: QCApprovalRecord,
+  actor: QCApprovalActor,
+): QCApprovalAction[] {
+  const actions: QCApprovalAction[] = ["submit", "approve", "return"];
+  return actions.filter(
+    (action) =>
+      // Returning needs a comment; check the rest with a placeholder
+      !validateQCApprovalTransition(record, actor, { action, comment: "-" }),
+  );
+}
+
+/**
+ * Apply a validated transition and record it
+ */
+export function applyQCApprovalTransition(
+  record: QCApprovalRecord,
+  actor: QCApprovalActor,
+  input: QCApprovalTransitionInput,
+  now: number,
+): QCApprovalRecord {
+  let status: QCApprovalStatus;
+
+  if (input.action === "submit") {
+    status = "submitted";
+  } else if (input.action === "return") {
+    status = "returned";
+  } else {
+    status =
+      record.requiresSecondApproval && record.status === "submitted"
+        ? "first-approved"
+        : "approved";
+  }
+
+  const comment = input.comment?.trim();
+  return {
+    ...record,
+    status,
+    events: [
+      ...record.events,
+      { action: input.action, status, by: actor.userID, at: now, ...(comment ? { comment } : {}) },
+    ],
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * QC Evaluation
+ * Judges each quality parameter against its specification on the line
+ * (Min/Max for numeric parameters, Text_Value for text ones) and proposes the
+ * header outcome from the mandatory parameters:
+ * - any mandatory failure rejects the inspected quantity
+ * - otherwise any mandatory deviation within Max_Deviation_Allowed accepts it
+ *   with deviation, subject to approval, with a suggested rebate
+ * - otherwise it is accepted
+ * Optional parameters are shown but never decide
+ */
+
+import type { QCReceiptLine } from "@/lib/api/services/qc-receipt.service";
+import type {
+  QCDecision,
+  QCDecisionDriver,
+  QCLineEvaluation,
+} from "./types";
+
+/** Rebate (%) suggested per percent of deviation beyond the limit */
+export const REBATE_PER_DEVIATION_PERCENT =
+  Number(process.env.NEXT_PUBLIC_QC_REBATE_PER_DEVIATION_PERCENT) || 1;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isTextParameter(line: Pick<QCReceiptLine, "Type">): boolean {
+  return (line.Type || "").toLowerCase() === "text";
+}
+
+/**
+ * Evaluate one line; `actual` overrides the saved value while it is typed
+ * A numeric value of 0 outside the range counts as not yet entered, since
+ * the ERP defaults unentered values to 0. A numeric parameter without a
+ * specification (Min and Max both 0) is recorded for information and passes
+ */
+export function evaluateQCLine(
+  line: QCReceiptLine,
+  actual?: number | string,
+): QCLineEvaluation {
+  if (isTextParameter(line)) {
+    const value = String(actual ?? line.Actual_Text ?? "").trim();
+    const expected = (line.Text_Value || "").trim();
+    if (!value) return { outcome: "pending", deviationPercent: 0, reason: "Not entered" };
+    if (!expected || value.toLowerCase() === expected.toLowerCase()) {
+      return { outcome: "pass", deviationPercent: 0, reason: `"${value}" as specified` };
+    }
+    return {
+      outcome: "fail",
+      deviationPercent: 0,
+      reason: `"${value}" instead of "${expected}"`,
+    };
+  }
+
+  const raw = actual ?? line.Actual_Value;
+  const value = typeof raw === "number" ? raw : parseFloat(raw);
+  if (!Number(line.Min_Value) && !Number(line.Max_Value)) {
+    if (raw === "" || isNaN(value)) {
+      return { outcome: "pending", deviationPercent: 0, reason: "Not entered" };
+    }
+    return { outcome: "pass", deviationPercent: 0, reason: `${value}, no specification` };
+  }
+
+  const min = Number(line.Min_Value) || 0;
+  // A zero maximum with a minimum set means "no upper limit"
+  const max = Number(line.Max_Value) || (min > 0 ? Infinity : 0);
+
+  if (raw === "" || isNaN(value) || (value === 0 && (min > 0 || max < 0))) {
+    return { outcome: "pending", deviationPercent: 0, reason: "Not entered" };
+  }
+  if (value >= min && value <= max) {
+    return { outcome: "pass", deviationPercent: 0, reason: `${value} within range` };
+  }
+
+  const above = value > max;
+  const limit = above ? max : min;
+  const deviationPercent =
+    limit !== 0 ? round2((Math.abs(value - limit) / Math.abs(limit)) * 100) : 100;
+  const reason = `${value} ${above ? "above max" : "below min"} ${limit} by ${deviationPercent}%`;
+  const allowed = Number(line.Max_Deviation_Allowed) || 0;
+
+  return {
+    outcome: deviationPercent <= allowed ? "deviation" : "fail",
+    deviationPercent,
+    reason:
+      deviationPercent <= allowed
+        ? `${reason} (allowed ${allowed}%)`
+        : `${reason}, over the ${allowed}% allowed`,
+  };
+}
+
+/**
+ * Decide the receipt outcome and propose the quantity split
+ * `drafts` holds values being typed, keyed by line number
+ */
+export function evaluateQCReceipt(
+  lines: QCReceiptLine[],
+  inspectionQuantity: number,
+  drafts: Record<number, string> = {},
+): QCDecision {
+  const evaluated: QCDecisionDriver[] = lines.map((line) => ({
+    lineNo: line.Line_No,
+    description: line.Description || line.Quality_Parameter_Code,
+    mandatory: !!line.Mandatory,
+    evaluation: evaluateQCLine(line, drafts[line.Line_No]),
+  }));
+
+  const mandatory = evaluated.filter((line) => line.mandatory);
+  const notes = evaluated.filter(
+    (line) =>
+      !line.mandatory &&
+      (line.evaluation.outcome === "fail" || line.evaluation.outcome === "deviation"),
+  );
+  const byOutcome = (outcome: QCLineEvaluation["outcome"]) =>
+    mandatory.filter((line) => line.evaluation.outcome === outcome);
+
+  const failed = byOutcome("fail");
+  if (failed.length > 0) {
+    return {
+      kind: "reject",
+      drivers: failed,
+      notes,
+      split: {
+        Quantity_to_Accept: 0,
+        Qty_to_Accept_with_Deviation: 0,
+        Quantity_to_Reject: inspectionQuantity,
+        Accepted_With_Approval: false,
+        Rabete_Percent: 0,
+      },
+      summary: `Reject: ${failed.length} mandatory parameter${failed.length === 1 ? "" : "s"} failed`,
+    };
+  }
+
+  const pending = byOutcome("pending");
+  if (pending.length > 0) {
+    return {
+      kind: "pending",
+      drivers: pending,
+      notes,
+      split: null,
+      summary: `Waiting for ${pending.length} mandatory parameter${pending.length === 1 ? "" : "s"}`,
+    };
+  }
+
+  const deviating = byOutcome("deviation");
+  if (deviating.length > 0) {
+    const rebate = round2(
+      Math.min(
+        100,
+        deviating.reduce(
+          (sum, line) =>
+            sum + line.evaluation.deviationPercent * REBATE_PER_DEVIATION_PERCENT,
+          0,
+        ),
+      ),
+    );
+    return {
+      kind: "accept-with-deviation",
+      drivers: deviating,
+      notes,
+      split: {
+        Quantity_to_Accept: 0,
+        Qty_to_Accept_with_Deviation: inspectionQuantity,
+        Quantity_to_Reject: 0,
+        Accepted_With_Approval: true,
+        Rabete_Percent: rebate,
+      },
+      summary: `Accept with deviation at ${rebate}% rebate, subject to approval`,
+    };
+  }
+
+  return {
+    kind: "accept",
+    drivers: [],
+    notes,
+    split: {
+      Quantity_to_Accept: inspectionQuantity,
+      Qty_to_Accept_with_Deviation: 0,
+      Quantity_to_Reject: 0,
+      Accepted_With_Approval: false,
+      Rabete_Percent: 0,
+    },
+    summary:
+      mandatory.length > 0
+        ? "Accept: all mandatory parameters within specification"
+        : "Accept: no mandatory parameters on this receipt",
+  };
+}
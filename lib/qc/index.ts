@@ -0,0 +1,8 @@
+/**
+ * QC exports
+ */
+
+export * from "./types";
+export * from "./evaluation";
+export * from "./scorecard";
+export * from "./use-vendor-scorecard";
@@ -0,0 +1,311 @@
+/**
+ * Vendor Quality Scorecard
+ * Aggregates posted QC receipts by vendor: accepted, under-deviation and
+ * rejected quantities, rebates and a monthly trend. Per-parameter averages
+ * need the receipt lines, so they are loaded for one vendor at a time
+ */
+
+import { format } from "date-fns";
+import {
+  getPostedQCReceiptLines,
+  searchPostedQCReceipts,
+  type QCReceiptHeader,
+  type QCReceiptLine,
+} from "@/lib/api/services/qc-receipt.service";
+import { evaluateQCLine } from "./evaluation";
+import type {
+  ParameterScore,
+  QCReceiptSummary,
+  QualityTrendPoint,
+  VendorQualityFilters,
+  VendorScore,
+} from "./types";
+
+const PAGE_SIZE = 500;
+
+/** Receipts loaded per search; narrow the dates when it is reached */
+export const SCORECARD_MAX_RECEIPTS = 5000;
+
+/** Latest receipts whose lines are read for the parameter averages */
+export const PARAMETER_SAMPLE_RECEIPTS = 100;
+
+const LINE_FETCH_CONCURRENCY = 4;
+
+const SELECT_FIELDS = [
+  "No",
+  "QC_Date",
+  "Buy_from_Vendor_No",
+  "Buy_from_Vendor_Name",
+  "Item_No",
+  "Item_Name",
+  "Unit_of_Measure",
+  "Inspection_Quantity",
+  "Quantity_to_Accept",
+  "Qty_to_Accept_with_Deviation",
+  "Quantity_to_Reject",
+  "Total_Accepted_Quantity",
+  "Total_Under_Deviation_Acc_Qty",
+  "Total_Rejected_Quantity",
+  "Rabete_Percent",
+  "Purchase_Receipt_No",
+  "Vehicle_No",
+].join(",");
+
+/** Vendors without a number are grouped under this key */
+export const UNKNOWN_VENDOR = "(No vendor)";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? round2((part / whole) * 100) : 0;
+}
+
+/**
+ * Quantities of a posted receipt
+ * The totals are filled on posting; older receipts only carry the
+ * quantities entered on the header
+ */
+export function toReceiptSummary(header: QCReceiptHeader): QCReceiptSummary {
+  const totals = [
+    header.Total_Accepted_Quantity,
+    header.Total_Under_Deviation_Acc_Qty,
+    header.Total_Rejected_Quantity,
+  ].map((value) => Number(value) || 0);
+  const entered = [
+    header.Quantity_to_Accept,
+    header.Qty_to_Accept_with_Deviation,
+    header.Quantity_to_Reject,
+  ].map((value) => Number(value) || 0);
+  const [accepted, deviation, rejected] = totals.some((value) => value > 0)
+    ? totals
+    : entered;
+  const rebatePercent = Number(header.Rabete_Percent) || 0;
+
+  return {
+    no: header.No,
+    qcDate: header.QC_Date || "",
+    vendorNo: header.Buy_from_Vendor_No || UNKNOWN_VENDOR,
+    vendorName: header.Buy_from_Vendor_Name || "",
+    itemNo: header.Item_No || "",
+    itemName: header.Item_Name || "",
+    unitOfMeasure: header.Unit_of_Measure || "",
+    inspected: accepted + deviation + rejected,
+    accepted,
+    deviation,
+    rejected,
+    rebatePercent,
+    rebateQuantity: round2((deviation * rebatePercent) / 100),
+    purchaseReceiptNo: header.Purchase_Receipt_No || "",
+    vehicleNo: header.Vehicle_No || "",
+    header,
+  };
+}
+
+function buildFilter(
+  { fromDate, toDate }: VendorQualityFilters,
+  branchCodes: string[],
+): string {
+  const parts: string[] = [];
+  if (fromDate) parts.push(`QC_Date ge ${fromDate}`);
+  if (toDate) parts.push(`QC_Date le ${toDate}`);
+  // Users without any branch assignment see nothing, matching the list pages
+  parts.push(
+    branchCodes.length > 0
+      ? `(${branchCodes
+          .map((code) => `Shortcut_Dimension_2_Code eq '${code.replace(/'/g, "''")}'`)
+          .join(" or ")})`
+      : "No eq 'NONE'",
+  );
+  return parts.join(" and ");
+}
+
+/**
+ * Load the posted receipts in the range, optionally matching a search term
+ */
+export async function loadScorecardReceipts(
+  filters: VendorQualityFilters,
+  branchCodes: string[],
+): Promise<{ receipts: QCReceiptSummary[]; truncated: boolean }> {
+  const filter = buildFilter(filters, branchCodes);
+  const headers: QCReceiptHeader[] = [];
+  let totalCount = 0;
+  do {
+    const page = await searchPostedQCReceipts({
+      $select: SELECT_FIELDS,
+      $filter: filter,
+      $orderby: "QC_Date desc,No desc",
+      $top: PAGE_SIZE,
+      $skip: headers.length,
+      searchTerm: filters.searchTerm.trim() || undefined,
+    });
+    headers.push(...page.receipts);
+    totalCount = page.totalCount;
+    if (page.receipts.length < PAGE_SIZE) break;
+  } while (headers.length < totalCount && headers.length < SCORECARD_MAX_RECEIPTS);
+
+  return {
+    receipts: headers.map(toReceiptSummary),
+    truncated: totalCount > headers.length,
+  };
+}
+
+/**
+ * One score per vendor, highest rejection rate first
+ */
+export function buildVendorScores(receipts: QCReceiptSummary[]): VendorScore[] {
+  const byVendor = new Map<string, QCReceiptSummary[]>();
+  for (const receipt of receipts) {
+    const list = byVendor.get(receipt.vendorNo);
+    if (list) {
+      list.push(receipt);
+    } else {
+      byVendor.set(receipt.vendorNo, [receipt]);
+    }
+  }
+
+  return Array.from(byVendor, ([vendorNo, vendorReceipts]): VendorScore => {
+    const sum = (pick: (r: QCReceiptSummary) => number) =>
+      vendorReceipts.reduce((total, receipt) => total + pick(receipt), 0);
+    const inspected = sum((r) => r.inspected);
+    const deviation = sum((r) => r.deviation);
+    const rejected = sum((r) => r.rejected);
+    const rebateQuantity = sum((r) => r.rebateQuantity);
+
+    return {
+      vendorNo,
+      vendorName: vendorReceipts.find((r) => r.vendorName)?.vendorName ?? "",
+      receipts: vendorReceipts,
+      items: new Set(vendorReceipts.map((r) => r.itemNo)).size,
+      inspected,
+      accepted: sum((r) => r.accepted),
+      deviation,
+      rejected,
+      rejectionRate: ratio(rejected, inspected),
+      deviationRate: ratio(deviation, inspected),
+      rebateQuantity: round2(rebateQuantity),
+      // Weighted by the quantity the rebate applied to
+      avgRebatePercent: ratio(rebateQuantity, deviation),
+      rejectedReceipts: vendorReceipts.filter((r) => r.rejected > 0).length,
+    };
+  }).sort(
+    (a, b) =>
+      b.rejectionRate - a.rejectionRate ||
+      b.inspected - a.inspected ||
+      a.vendorNo.localeCompare(b.vendorNo),
+  );
+}
+
+/**
+ * Monthly rejection, deviation and rebate, oldest first
+ */
+export function buildQualityTrend(receipts: QCReceiptSummary[]): QualityTrendPoint[] {
+  const byMonth = new Map<string, QCReceiptSummary[]>();
+  for (const receipt of receipts) {
+    const key = receipt.qcDate.slice(0, 7);
+    if (!/^\d{4}-\d{2}$/.test(key) || key < "1900") continue;
+    const list = byMonth.get(key);
+    if (list) {
+      list.push(receipt);
+    } else {
+      byMonth.set(key, [receipt]);
+    }
+  }
+
+  return Array.from(byMonth, ([periodKey, monthReceipts]): QualityTrendPoint => {
+    const [year, month] = periodKey.split("-").map(Number);
+    const inspected = monthReceipts.reduce((sum, r) => sum + r.inspected, 0);
+    const deviation = monthReceipts.reduce((sum, r) => sum + r.deviation, 0);
+    const rebateQuantity = monthReceipts.reduce((sum, r) => sum + r.rebateQuantity, 0);
+    return {
+      periodKey,
+      label: format(new Date(year, month - 1, 1), "MMM yyyy"),
+      receipts: monthReceipts.length,
+      inspected,
+      rejectionRate: ratio(
+        monthReceipts.reduce((sum, r) => sum + r.rejected, 0),
+        inspected,
+      ),
+      deviationRate: ratio(deviation, inspected),
+      avgRebatePercent: ratio(rebateQuantity, deviation),
+    };
+  }).sort((a, b) => a.periodKey.localeCompare(b.periodKey));
+}
+
+async function fetchLines(receiptNos: string[]): Promise<QCReceiptLine[]> {
+  const lines: QCReceiptLine[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < receiptNos.length) {
+      const receiptNo = receiptNos[next++];
+      lines.push(...(await getPostedQCReceiptLines(receiptNo)));
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(LINE_FETCH_CONCURRENCY, receiptNos.length) }, worker),
+  );
+  return lines;
+}
+
+/**
+ * Average actual and deviation per quality parameter over the vendor's
+ * latest receipts; parameters with the most failures first
+ */
+export async function loadParameterScores(
+  receipts: QCReceiptSummary[],
+): Promise<{ parameters: ParameterScore[]; sampledReceipts: number }> {
+  const sample = [...receipts]
+    .sort((a, b) => b.qcDate.localeCompare(a.qcDate))
+    .slice(0, PARAMETER_SAMPLE_RECEIPTS);
+  const lines = await fetchLines(sample.map((receipt) => receipt.no));
+
+  const byParameter = new Map<string, QCReceiptLine[]>();
+  for (const line of lines) {
+    const key = line.Quality_Parameter_Code || line.Description;
+    if (!key) continue;
+    const list = byParameter.get(key);
+    if (list) {
+      list.push(line);
+    } else {
+      byParameter.set(key, [line]);
+    }
+  }
+
+  const parameters = Array.from(byParameter, ([code, paramLines]): ParameterScore => {
+    const first = paramLines[0];
+    const evaluated = paramLines
+      .map((line) => ({ line, evaluation: evaluateQCLine(line) }))
+      .filter(({ evaluation }) => evaluation.outcome !== "pending");
+    const isText = (first.Type || "").toLowerCase() === "text";
+    const actuals = isText ? [] : evaluated.map(({ line }) => Number(line.Actual_Value) || 0);
+
+    return {
+      code,
+      description: first.Description || code,
+      unitOfMeasure: first.Unit_of_Measure_Code || "",
+      isText,
+      minValue: Number(first.Min_Value) || 0,
+      maxValue: Number(first.Max_Value) || 0,
+      samples: evaluated.length,
+      avgActual: actuals.length > 0
+        ? round2(actuals.reduce((sum, value) => sum + value, 0) / actuals.length)
+        : null,
+      avgDeviationPercent: evaluated.length > 0
+        ? round2(
+            evaluated.reduce((sum, { evaluation }) => sum + evaluation.deviationPercent, 0) /
+              evaluated.length,
+          )
+        : 0,
+      deviations: evaluated.filter(({ evaluation }) => evaluation.outcome === "deviation").length,
+      failures: evaluated.filter(({ evaluation }) => evaluation.outcome === "fail").length,
+    };
+  }).sort(
+    (a, b) =>
+      b.failures - a.failures ||
+      b.avgDeviationPercent - a.avgDeviationPercent ||
+      a.description.localeCompare(b.description),
+  );
+
+  return { parameters, sampledReceipts: sample.length };
+}
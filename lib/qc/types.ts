@@ -0,0 +1,117 @@
+/**
+ * QC Types
+ */
+
+import type { QCReceiptHeader } from "@/lib/api/services/qc-receipt.service";
+
+export type QCLineOutcome = "pending" | "pass" | "deviation" | "fail";
+
+/** Outcome of one quality parameter */
+export interface QCLineEvaluation {
+  outcome: QCLineOutcome;
+  /** Percent beyond the violated limit; 0 within the range */
+  deviationPercent: number;
+  /** Short reason, e.g. "12.8 above max 12 by 6.67%" */
+  reason: string;
+}
+
+export type QCDecisionKind = "pending" | "accept" | "accept-with-deviation" | "reject";
+
+/** Header fields proposed by the decision */
+export interface QCQuantitySplit {
+  Quantity_to_Accept: number;
+  Qty_to_Accept_with_Deviation: number;
+  Quantity_to_Reject: number;
+  Accepted_With_Approval: boolean;
+  Rabete_Percent: number;
+}
+
+/** A parameter that decided (or is holding up) the outcome */
+export interface QCDecisionDriver {
+  lineNo: number;
+  description: string;
+  mandatory: boolean;
+  evaluation: QCLineEvaluation;
+}
+
+export interface QCDecision {
+  kind: QCDecisionKind;
+  /** Mandatory parameters that drove the decision */
+  drivers: QCDecisionDriver[];
+  /** Optional parameters out of range; noted but not deciding */
+  notes: QCDecisionDriver[];
+  /** Null while the decision is pending */
+  split: QCQuantitySplit | null;
+  summary: string;
+}
+
+export interface VendorQualityFilters {
+  fromDate: string;
+  toDate: string;
+  /** Vendor, item, receipt or vehicle */
+  searchTerm: string;
+}
+
+/** Quantities and rebate of one posted QC receipt */
+export interface QCReceiptSummary {
+  no: string;
+  qcDate: string;
+  vendorNo: string;
+  vendorName: string;
+  itemNo: string;
+  itemName: string;
+  unitOfMeasure: string;
+  inspected: number;
+  accepted: number;
+  deviation: number;
+  rejected: number;
+  rebatePercent: number;
+  /** Deviation quantity x rebate percent */
+  rebateQuantity: number;
+  purchaseReceiptNo: string;
+  vehicleNo: string;
+  header: QCReceiptHeader;
+}
+
+export interface VendorScore {
+  vendorNo: string;
+  vendorName: string;
+  receipts: QCReceiptSummary[];
+  items: number;
+  inspected: number;
+  accepted: number;
+  deviation: number;
+  rejected: number;
+  /** Percent of the inspected quantity */
+  rejectionRate: number;
+  deviationRate: number;
+  rebateQuantity: number;
+  avgRebatePercent: number;
+  rejectedReceipts: number;
+}
+
+export interface QualityTrendPoint {
+  periodKey: string;
+  label: string;
+  receipts: number;
+  inspected: number;
+  rejectionRate: number;
+  deviationRate: number;
+  avgRebatePercent: number;
+}
+
+export interface ParameterScore {
+  code: string;
+  description: string;
+  unitOfMeasure: string;
+  isText: boolean;
+  minValue: number;
+  maxValue: number;
+  /** Lines with a value entered */
+  samples: number;
+  /** Null for text parameters */
+  avgActual: number | null;
+  avgDeviationPercent: number;
+  deviations: number;
+  failures: number;
+}
@@ -0,0 +1,164 @@
+/**
+ * Vendor quality scorecard hooks
+ * Receipts load for the dates and search term; the parameter averages load
+ * only for the vendor being looked at
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, startOfMonth } from "date-fns";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { getAllBranchesFromUserSetup } from "@/lib/api/services/dimension.service";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  buildQualityTrend,
+  buildVendorScores,
+  loadParameterScores,
+  loadScorecardReceipts,
+} from "./scorecard";
+import type {
+  ParameterScore,
+  QCReceiptSummary,
+  VendorQualityFilters,
+  VendorScore,
+} from "./types";
+
+interface LoadResult {
+  requestKey: string;
+  receipts: QCReceiptSummary[];
+  truncated: boolean;
+  error: string | null;
+}
+
+/** Last three months including the current one */
+function getDefaultFilters(): VendorQualityFilters {
+  const today = new Date();
+  return {
+    fromDate: format(
+      startOfMonth(new Date(today.getFullYear(), today.getMonth() - 2, 1)),
+      "yyyy-MM-dd",
+    ),
+    toDate: format(today, "yyyy-MM-dd"),
+    searchTerm: "",
+  };
+}
+
+export function useVendorScorecard() {
+  const { userID } = useAuth();
+  const [filters, setFilters] = useState<VendorQualityFilters>(getDefaultFilters);
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+
+  const { fromDate, toDate, searchTerm } = filters;
+  const requestKey = `${fromDate}|${toDate}|${searchTerm}#${generation}`;
+
+  useEffect(() => {
+    if (!userID) return;
+    let cancelled = false;
+
+    getAllBranchesFromUserSetup(userID)
+      .then((branches) =>
+        loadScorecardReceipts(
+          { fromDate, toDate, searchTerm },
+          branches.map((branch) => branch.Code),
+        ),
+      )
+      .then(({ receipts, truncated }) => {
+        if (cancelled) return;
+        setResult({ requestKey, receipts, truncated, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading vendor quality scorecard:", error);
+        setResult({
+          requestKey,
+          receipts: [],
+          truncated: false,
+          error: getErrorMessage(error, "Failed to load posted QC receipts"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userID, requestKey, fromDate, toDate, searchTerm]);
+
+  const isLoading = !!userID && result?.requestKey !== requestKey;
+  const receipts = useMemo(() => result?.receipts ?? [], [result]);
+  const vendors = useMemo(() => buildVendorScores(receipts), [receipts]);
+  const trend = useMemo(() => buildQualityTrend(receipts), [receipts]);
+
+  const updateFilters = useCallback((next: Partial<VendorQualityFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    receipts,
+    vendors,
+    trend,
+    truncated: result?.truncated ?? false,
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    refetch,
+  };
+}
+
+interface ParameterResult {
+  requestKey: string;
+  parameters: ParameterScore[];
+  sampledReceipts: number;
+  error: string | null;
+}
+
+/**
+ * Per-parameter averages for one vendor; nothing loads without a vendor
+ */
+export function useVendorParameterScores(vendor: VendorScore | null) {
+  const [result, setResult] = useState<ParameterResult | null>(null);
+
+  const receipts = vendor?.receipts;
+  const requestKey = vendor
+    ? `${vendor.vendorNo}|${vendor.receipts.map((receipt) => receipt.no).join(",")}`
+    : "";
+
+  useEffect(() => {
+    if (!receipts) return;
+    let cancelled = false;
+
+    loadParameterScores(receipts)
+      .then(({ parameters, sampledReceipts }) => {
+        if (cancelled) return;
+        setResult({ requestKey, parameters, sampledReceipts, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading QC parameter scores:", error);
+        setResult({
+          requestKey,
+          parameters: [],
+          sampledReceipts: 0,
+          error: getErrorMessage(error, "Failed to load QC parameters"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, receipts]);
+
+  const isCurrent = !!vendor && result?.requestKey === requestKey;
+
+  return {
+    parameters: isCurrent ? result.parameters : [],
+    sampledReceipts: isCurrent ? result.sampledReceipts : 0,
+    error: isCurrent ? result.error : null,
+    isLoading: !!vendor && !isCurrent,
+  };
+}
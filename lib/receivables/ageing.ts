@@ -0,0 +1,143 @@
+/**
+ * Receivables Ageing
+ * Buckets open customer ledger entries by days past their due date, using
+ * the remaining amount. Entries without a due date age from posting. The
+ * ERP only knows today's remaining amount, so ageing is always as of today
+ */
+
+import {
+  getCustomerLedgerEntriesRaw,
+  type CustomerLedgerEntry,
+} from "@/lib/api/services/customer-ledger.service";
+import type { AgeingBucketKey, AgeingBuckets, CustomerAgeing } from "./types";
+
+const PAGE_SIZE = 1000;
+
+/** Open entries loaded for the ageing grid */
+export const AGEING_MAX_ENTRIES = 10000;
+
+export const AGEING_BUCKETS: Array<{ key: AgeingBucketKey; label: string }> = [
+  { key: "notDue", label: "Not Due" },
+  { key: "days0to30", label: "0-30" },
+  { key: "days31to60", label: "31-60" },
+  { key: "days61to90", label: "61-90" },
+  { key: "over90", label: "90+" },
+];
+
+const SELECT_FIELDS = [
+  "Entry_No",
+  "Customer_No",
+  "CustomerName",
+  "Posting_Date",
+  "Document_Type",
+  "Document_No",
+  "External_Document_No",
+  "Description",
+  "Amount",
+  "Remaining_Amount",
+  "Due_Date",
+].join(",");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Whole days from a yyyy-MM-dd date to another, ignoring time zones */
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.slice(0, 10).split("-").map(Number);
+  const [ty, tm, td] = to.slice(0, 10).split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+function isBlankDate(value: string | undefined): boolean {
+  return !value || value.startsWith("0001-01-01");
+}
+
+export function emptyAgeingBuckets(): AgeingBuckets {
+  return { notDue: 0, days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+}
+
+/**
+ * Days the entry is past due on `asOfDate` (yyyy-MM-dd); negative when not yet due
+ */
+export function getDaysOverdue(entry: CustomerLedgerEntry, asOfDate: string): number {
+  const basis = isBlankDate(entry.Due_Date) ? entry.Posting_Date : entry.Due_Date;
+  if (isBlankDate(basis)) return 0;
+  return daysBetween(basis, asOfDate);
+}
+
+export function getAgeingBucket(daysOverdue: number): AgeingBucketKey {
+  if (daysOverdue <= 0) return "notDue";
+  if (daysOverdue <= 30) return "days0to30";
+  if (daysOverdue <= 60) return "days31to60";
+  if (daysOverdue <= 90) return "days61to90";
+  return "over90";
+}
+
+/**
+ * Age the entries into buckets of remaining amount
+ */
+export function ageEntries(entries: CustomerLedgerEntry[], asOfDate: string): AgeingBuckets {
+  const buckets = emptyAgeingBuckets();
+  for (const entry of entries) {
+    const bucket = getAgeingBucket(getDaysOverdue(entry, asOfDate));
+    buckets[bucket] += Number(entry.Remaining_Amount) || 0;
+  }
+  for (const { key } of AGEING_BUCKETS) buckets[key] = round2(buckets[key]);
+  return buckets;
+}
+
+/**
+ * One row per customer, largest outstanding first
+ */
+export function buildCustomerAgeing(
+  entries: CustomerLedgerEntry[],
+  asOfDate: string,
+): CustomerAgeing[] {
+  const byCustomer = new Map<string, CustomerLedgerEntry[]>();
+  for (const entry of entries) {
+    const list = byCustomer.get(entry.Customer_No);
+    if (list) list.push(entry);
+    else byCustomer.set(entry.Customer_No, [entry]);
+  }
+
+  return Array.from(byCustomer, ([customerNo, customerEntries]) => {
+    const buckets = ageEntries(customerEntries, asOfDate);
+    const overdue = customerEntries.filter((entry) => (Number(entry.Remaining_Amount) || 0) > 0);
+    return {
+      customerNo,
+      customerName: customerEntries.find((entry) => entry.CustomerName)?.CustomerName || "",
+      buckets,
+      total: round2(AGEING_BUCKETS.reduce((sum, { key }) => sum + buckets[key], 0)),
+      maxDaysOverdue: Math.max(0, ...overdue.map((entry) => getDaysOverdue(entry, asOfDate))),
+      entries: customerEntries,
+    };
+  }).sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Open entries with something remaining, for one customer or all of them
+ */
+export async function loadOpenCustomerEntries(
+  customerNo?: string,
+): Promise<{ entries: CustomerLedgerEntry[]; truncated: boolean }> {
+  const filterParts = ["Open eq true", "Remaining_Amount ne 0"];
+  if (customerNo) filterParts.push(`Customer_No eq '${customerNo.replace(/'/g, "''")}'`);
+
+  const entries: CustomerLedgerEntry[] = [];
+  for (let skip = 0; skip < AGEING_MAX_ENTRIES; skip += PAGE_SIZE) {
+    const response = await getCustomerLedgerEntriesRaw({
+      $filter: filterParts.join(" and "),
+      $select: SELECT_FIELDS,
+      $orderby: "Customer_No asc, Due_Date asc, Entry_No asc",
+      $top: PAGE_SIZE,
+      $skip: skip,
+    });
+    const page = response.value || [];
+    entries.push(...page);
+    if (page.length < PAGE_SIZE) return { entries, truncated: false };
+  }
+  return { entries, truncated: true };
+}
@@ -0,0 +1,9 @@
+/**
+ * Receivables exports
+ */
+
+export * from "./types";
+export * from "./ageing";
+export * from "./statement";
+export * from "./use-receivables-ageing";
+export * from "./use-statement-of-account";
@@ -0,0 +1,315 @@
+/**
+ * Statement of Account
+ * A customer's movements for a period with a running balance, bracketed by
+ * the opening and closing balances, followed by the ageing of what is still
+ * open today
+ */
+
+import { format } from "date-fns";
+import {
+  getCustomerBalance,
+  getCustomerLedgerEntriesRaw,
+  getCustomerLedgerSums,
+  type CustomerLedgerEntry,
+} from "@/lib/api/services/customer-ledger.service";
+import { getCustomerByNo } from "@/lib/api/services/customer.service";
+import { createPdfDocument, type PdfColor } from "@/lib/pdf-document";
+import { formatDate } from "@/lib/utils/date";
+import { AGEING_BUCKETS, ageEntries, loadOpenCustomerEntries } from "./ageing";
+import type { StatementEntry, StatementOfAccount } from "./types";
+
+const COMPANY = process.env.NEXT_PUBLIC_API_COMPANY || "Sampoorna Feeds Pvt. Ltd";
+
+const PAGE_SIZE = 1000;
+
+/** Entries printed on one statement; narrow the period when it is reached */
+export const STATEMENT_MAX_ENTRIES = 5000;
+
+const SELECT_FIELDS = [
+  "Entry_No",
+  "Posting_Date",
+  "Document_Type",
+  "Document_No",
+  "External_Document_No",
+  "Description",
+  "Debit_Amount",
+  "Credit_Amount",
+  "Amount",
+  "Due_Date",
+].join(",");
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 40;
+const ROW_HEIGHT = 14;
+
+const MUTED: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.75, 0.75, 0.75];
+const HEADER_FILL: PdfColor = [0.93, 0.93, 0.93];
+
+const COLUMNS = [
+  { key: "date", title: "Date", width: 48, align: "left" },
+  { key: "type", title: "Type", width: 56, align: "left" },
+  { key: "document", title: "Document No.", width: 78, align: "left" },
+  { key: "description", title: "Description", width: 100, align: "left" },
+  { key: "due", title: "Due Date", width: 48, align: "left" },
+  { key: "debit", title: "Debit", width: 62, align: "right" },
+  { key: "credit", title: "Credit", width: 62, align: "right" },
+  { key: "balance", title: "Balance", width: 61, align: "right" },
+] as const;
+
+type ColumnKey = (typeof COLUMNS)[number]["key"];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function loadPeriodEntries(
+  customerNo: string,
+  fromDate: string,
+  toDate: string,
+): Promise<{ entries: CustomerLedgerEntry[]; truncated: boolean }> {
+  const $filter =
+    `Customer_No eq '${customerNo.replace(/'/g, "''")}' and ` +
+    `Posting_Date ge ${fromDate} and Posting_Date le ${toDate}`;
+
+  const entries: CustomerLedgerEntry[] = [];
+  for (let skip = 0; skip < STATEMENT_MAX_ENTRIES; skip += PAGE_SIZE) {
+    const response = await getCustomerLedgerEntriesRaw({
+      $filter,
+      $select: SELECT_FIELDS,
+      $orderby: "Posting_Date asc, Entry_No asc",
+      $top: PAGE_SIZE,
+      $skip: skip,
+    });
+    const page = response.value || [];
+    entries.push(...page);
+    if (page.length < PAGE_SIZE) return { entries, truncated: false };
+  }
+  return { entries, truncated: true };
+}
+
+export async function loadStatementOfAccount(
+  customerNo: string,
+  fromDate: string,
+  toDate: string,
+): Promise<StatementOfAccount> {
+  const [customer, openingBalance, sums, period, open] = await Promise.all([
+    getCustomerByNo(customerNo),
+    getCustomerBalance(customerNo, fromDate, true),
+    getCustomerLedgerSums({ customerNo, fromDate, toDate }),
+    loadPeriodEntries(customerNo, fromDate, toDate),
+    loadOpenCustomerEntries(customerNo),
+  ]);
+
+  let balance = openingBalance;
+  const entries: StatementEntry[] = period.entries.map((entry) => {
+    balance += (Number(entry.Debit_Amount) || 0) - (Number(entry.Credit_Amount) || 0);
+    return { entry, balance: round2(balance) };
+  });
+
+  const generatedAt = new Date();
+  return {
+    companyName: COMPANY,
+    customerNo,
+    customerName: customer?.Name || "",
+    fromDate,
+    toDate,
+    openingBalance: round2(openingBalance),
+    // Totals come from the ledger rather than the printed rows, so they hold
+    // when the listing is truncated
+    debitTotal: round2(sums.debitSum),
+    creditTotal: round2(sums.creditSum),
+    closingBalance: round2(openingBalance + sums.debitSum - sums.creditSum),
+    entries,
+    truncated: period.truncated,
+    ageing: ageEntries(open.entries, format(generatedAt, "yyyy-MM-dd")),
+    generatedAt,
+  };
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Balances read as receivable (Dr) or advance (Cr) */
+function formatBalance(value: number): string {
+  if (value === 0) return formatAmount(0);
+  return `${formatAmount(Math.abs(value))} ${value > 0 ? "Dr" : "Cr"}`;
+}
+
+/**
+ * Render the statement; returns the PDF as base64
+ */
+export async function renderStatementOfAccount(
+  statement: StatementOfAccount,
+): Promise<string> {
+  const doc = await createPdfDocument();
+  const right = doc.pageWidth - MARGIN;
+  const bottom = doc.pageHeight - FOOTER_HEIGHT;
+  const generated = format(statement.generatedAt, "dd/MM/yyyy HH:mm");
+  const period = `${formatDate(statement.fromDate)} to ${formatDate(statement.toDate)}`;
+  let pageNo = 1;
+  let y = MARGIN;
+
+  const drawFooter = () => {
+    const footerY = doc.pageHeight - 22;
+    doc.line(MARGIN, footerY - 12, right, footerY - 12, { color: RULE });
+    doc.text(
+      `${statement.customerNo} · ${period} · Generated ${generated}`,
+      MARGIN,
+      footerY,
+      { size: 7.5, color: MUTED },
+    );
+    doc.text(`Page ${pageNo}`, right, footerY, { size: 7.5, color: MUTED, align: "right" });
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    pageNo += 1;
+    drawFooter();
+    y = MARGIN;
+  };
+
+  // Header
+  drawFooter();
+  doc.text(statement.companyName, MARGIN, y + 14, { size: 16, bold: true });
+  doc.text("Statement of Account", MARGIN, y + 34, { size: 12, bold: true, color: MUTED });
+  doc.text(statement.customerName || statement.customerNo, right, y + 14, {
+    size: 11,
+    bold: true,
+    align: "right",
+  });
+  doc.text(`Customer No: ${statement.customerNo}`, right, y + 28, { size: 9, align: "right" });
+  doc.text(`Period: ${period}`, right, y + 40, { size: 9, align: "right" });
+  y += 56;
+  doc.line(MARGIN, y, right, y, { width: 1 });
+  y += 18;
+
+  // Summary
+  const summary: Array<[string, string]> = [
+    ["Opening Balance", formatBalance(statement.openingBalance)],
+    ["Total Debits", formatAmount(statement.debitTotal)],
+    ["Total Credits", formatAmount(statement.creditTotal)],
+    ["Closing Balance", formatBalance(statement.closingBalance)],
+  ];
+  const summaryWidth = (right - MARGIN) / summary.length;
+  summary.forEach(([label, value], index) => {
+    const x = MARGIN + index * summaryWidth;
+    doc.text(label.toUpperCase(), x, y, { size: 7, bold: true, color: MUTED });
+    doc.text(value, x, y + 14, { size: 10.5, bold: index === summary.length - 1 });
+  });
+  y += 34;
+
+  // Movements
+  const drawTableHeader = () => {
+    doc.rect(MARGIN, y, right - MARGIN, 18, { fill: HEADER_FILL });
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+      doc.text(column.title, textX, y + 12, { size: 8, bold: true, align: column.align });
+      x += column.width;
+    }
+    y += 18;
+  };
+
+  const drawRow = (cells: Partial<Record<ColumnKey, string[]>>, bold = false) => {
+    const rowHeight =
+      Math.max(1, ...Object.values(cells).map((lines) => lines?.length ?? 0)) * 10 + 4;
+    if (y + rowHeight > bottom) {
+      newPage();
+      drawTableHeader();
+    }
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+      (cells[column.key] ?? []).forEach((text, lineIndex) => {
+        doc.text(text, textX, y + 10 + lineIndex * 10, { size: 7.5, bold, align: column.align });
+      });
+      x += column.width;
+    }
+    y += Math.max(rowHeight, ROW_HEIGHT);
+    doc.line(MARGIN, y, right, y, { color: RULE });
+  };
+
+  doc.text("Transactions", MARGIN, y, { size: 11, bold: true });
+  y += 8;
+  drawTableHeader();
+
+  drawRow(
+    {
+      date: [formatDate(statement.fromDate)],
+      description: ["Opening Balance"],
+      balance: [formatBalance(statement.openingBalance)],
+    },
+    true,
+  );
+
+  statement.entries.forEach(({ entry, balance }) => {
+    const debit = Number(entry.Debit_Amount) || 0;
+    const credit = Number(entry.Credit_Amount) || 0;
+    const description = entry.Description || entry.External_Document_No || "";
+    drawRow({
+      date: [formatDate(entry.Posting_Date)],
+      type: doc.wrapText(entry.Document_Type || "", 48, 7.5),
+      document: doc.wrapText(entry.Document_No || "", 70, 7.5),
+      description: doc.wrapText(description, 92, 7.5).slice(0, 3),
+      due: [formatDate(entry.Due_Date)],
+      debit: [debit ? formatAmount(debit) : ""],
+      credit: [credit ? formatAmount(credit) : ""],
+      balance: [formatBalance(balance)],
+    });
+  });
+
+  drawRow(
+    {
+      date: [formatDate(statement.toDate)],
+      description: ["Closing Balance"],
+      debit: [formatAmount(statement.debitTotal)],
+      credit: [formatAmount(statement.creditTotal)],
+      balance: [formatBalance(statement.closingBalance)],
+    },
+    true,
+  );
+
+  if (statement.truncated) {
+    doc.text(
+      `Only the first ${STATEMENT_MAX_ENTRIES.toLocaleString()} transactions are listed; ` +
+        "totals and balances cover the whole period.",
+      MARGIN,
+      y + 11,
+      { size: 7, color: MUTED },
+    );
+    y += 12;
+  }
+
+  // Ageing of open items
+  if (y + 90 > bottom) newPage();
+  y += 28;
+  doc.text("Outstanding Ageing", MARGIN, y, { size: 11, bold: true });
+  doc.text(`Days past due as of ${format(statement.generatedAt, "dd/MM/yyyy")}`, right, y, {
+    size: 8,
+    color: MUTED,
+    align: "right",
+  });
+  y += 8;
+
+  const ageingColumns = [
+    ...AGEING_BUCKETS.map(({ key, label }) => ({ label, value: statement.ageing[key] })),
+    {
+      label: "Total",
+      value: AGEING_BUCKETS.reduce((sum, { key }) => sum + statement.ageing[key], 0),
+    },
+  ];
+  const ageingWidth = (right - MARGIN) / ageingColumns.length;
+  doc.rect(MARGIN, y, right - MARGIN, 18, { fill: HEADER_FILL });
+  ageingColumns.forEach(({ label, value }, index) => {
+    const x = MARGIN + (index + 1) * ageingWidth - 4;
+    const isTotal = index === ageingColumns.length - 1;
+    doc.text(label, x, y + 12, { size: 8, bold: true, align: "right" });
+    doc.text(formatAmount(round2(value)), x, y + 32, { size: 9, bold: isTotal, align: "right" });
+  });
+  y += 40;
+  doc.line(MARGIN, y, right, y, { color: RULE });
+
+  return doc.toBase64();
+}
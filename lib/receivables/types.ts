@@ -0,0 +1,43 @@
+/**
+ * Receivables Types
+ */
+
+import type { CustomerLedgerEntry } from "@/lib/api/services/customer-ledger.service";
+
+export type AgeingBucketKey = "notDue" | "days0to30" | "days31to60" | "days61to90" | "over90";
+
+export type AgeingBuckets = Record<AgeingBucketKey, number>;
+
+export interface CustomerAgeing {
+  customerNo: string;
+  customerName: string;
+  buckets: AgeingBuckets;
+  total: number;
+  /** Days past due of the oldest open entry; 0 when nothing is overdue */
+  maxDaysOverdue: number;
+  entries: CustomerLedgerEntry[];
+}
+
+export interface StatementEntry {
+  entry: CustomerLedgerEntry;
+  /** Balance after this entry */
+  balance: number;
+}
+
+export interface StatementOfAccount {
+  companyName: string;
+  customerNo: string;
+  customerName: string;
+  fromDate: string;
+  toDate: string;
+  openingBalance: number;
+  debitTotal: number;
+  creditTotal: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  /** More entries than the statement prints; totals still cover the period */
+  truncated: boolean;
+  /** Open entries aged as of `generatedAt` */
+  ageing: AgeingBuckets;
+  generatedAt: Date;
+}
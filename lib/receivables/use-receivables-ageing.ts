@@ -0,0 +1,74 @@
+/**
+ * Receivables ageing hook
+ * Loads open entries for one customer, or every customer when none is
+ * picked, and ages them as of today
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import type { CustomerLedgerEntry } from "@/lib/api/services/customer-ledger.service";
+import { getErrorMessage } from "@/lib/errors";
+import { buildCustomerAgeing, loadOpenCustomerEntries } from "./ageing";
+
+interface LoadResult {
+  requestKey: string;
+  entries: CustomerLedgerEntry[];
+  truncated: boolean;
+  error: string | null;
+}
+
+export function useReceivablesAgeing(customerNo: string, enabled: boolean = true) {
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+
+  const requestKey = `${customerNo}#${generation}`;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    loadOpenCustomerEntries(customerNo || undefined)
+      .then(({ entries, truncated }) => {
+        if (cancelled) return;
+        setResult({ requestKey, entries, truncated, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading receivables ageing:", error);
+        setResult({
+          requestKey,
+          entries: [],
+          truncated: false,
+          error: getErrorMessage(error, "Failed to load open customer entries"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, requestKey, customerNo]);
+
+  const isLoading = enabled && result?.requestKey !== requestKey;
+  const asOfDate = format(new Date(), "yyyy-MM-dd");
+  const customers = useMemo(
+    () => buildCustomerAgeing(result?.entries ?? [], asOfDate),
+    [result, asOfDate],
+  );
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    customers,
+    asOfDate,
+    truncated: result?.truncated ?? false,
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    refetch,
+  };
+}
+
+export type UseReceivablesAgeingResult = ReturnType<typeof useReceivablesAgeing>;
@@ -0,0 +1,35 @@
+/**
+ * Statement of Account hook
+ * Loads a customer's ledger for the period, renders the statement and opens it
+ */
+
+"use client";
+
+import { useCallback, useState } from "react";
+import { toastError } from "@/lib/errors";
+import { viewPdfFromBase64 } from "@/lib/pdf-utils";
+import { loadStatementOfAccount, renderStatementOfAccount } from "./statement";
+
+export function useStatementOfAccount() {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const generate = useCallback(
+    async (customerNo: string, fromDate: string, toDate: string) => {
+      setIsGenerating(true);
+      try {
+        const statement = await loadStatementOfAccount(customerNo, fromDate, toDate);
+        viewPdfFromBase64(await renderStatementOfAccount(statement), `Statement_${customerNo}`);
+        return true;
+      } catch (error) {
+        console.error("Error generating statement of account:", error);
+        toastError(error, "Failed to generate the statement of account");
+        return false;
+      } finally {
+        setIsGenerating(false);
+      }
+    },
+    [],
+  );
+
+  return { generate, isGenerating };
+}
@@ -0,0 +1,9 @@
+/**
+ * Saved views exports
+ * server-store.ts is server-only and intentionally not re-exported
+ */
+
+export * from "./types";
+export * from "./storage";
+export * from "./url";
+export * from "./use-saved-views";
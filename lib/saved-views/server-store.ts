@@ -0,0 +1,64 @@
+/**
+ * Server-side store for shared saved views
+ * Keeps team-wide views in the shared store (see lib/api/shared-store)
+ * Never import this file from client components
+ */
+
+import { readSharedValue, updateSharedValue } from "@/lib/api/shared-store";
+import type { SavedView } from "./types";
+
+const STORE_KEY = "saved-views";
+
+/** Result of a change; `views: null` leaves the store untouched */
+interface Mutation<T> {
+  views: SavedView[] | null;
+  result: T;
+}
+
+async function mutate<T>(update: (views: SavedView[]) => Mutation<T>): Promise<T> {
+  let result: T | undefined;
+  await updateSharedValue<SavedView[]>(STORE_KEY, (current) => {
+    const mutation = update(current ?? []);
+    result = mutation.result;
+    return mutation.views;
+  });
+  return result as T;
+}
+
+export async function listSharedViews(listKey: string): Promise<SavedView[]> {
+  const views = (await readSharedValue<SavedView[]>(STORE_KEY)) ?? [];
+  return views.filter((view) => view.listKey === listKey);
+}
+
+/**
+ * Insert or replace a shared view
+ * Returns null when the view exists and belongs to another user
+ */
+export function upsertSharedView(view: SavedView): Promise<SavedView | null> {
+  return mutate((views) => {
+    const index = views.findIndex((v) => v.id === view.id);
+    if (index < 0) {
+      return { views: [...views, view], result: view };
+    }
+    if (views[index].owner !== view.owner) {
+      return { views: null, result: null };
+    }
+    const next = [...views];
+    next[index] = { ...view, createdAt: views[index].createdAt };
+    return { views: next, result: next[index] };
+  });
+}
+
+/**
+ * Delete a shared view owned by the given user
+ * Returns false when the view is missing or owned by someone else
+ */
+export function deleteSharedView(id: string, owner: string): Promise<boolean> {
+  return mutate((views) => {
+    const target = views.find((view) => view.id === id);
+    if (!target || target.owner !== owner) {
+      return { views: null, result: false };
+    }
+    return { views: views.filter((view) => view.id !== id), result: true };
+  });
+}
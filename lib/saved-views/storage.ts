@@ -0,0 +1,109 @@
+/**
+ * Saved View Storage
+ * Persists a user's personal views and per-list default view in local storage
+ * Shared views live on the server (see saved-views.service)
+ */
+
+import type { SavedView } from "./types";
+
+const STORAGE_PREFIX = "savedViews_v1_";
+
+interface StoredSavedViews {
+  views: SavedView[];
+  /** listKey -> default view ID (personal or shared) */
+  defaults: Record<string, string>;
+}
+
+function getStorageKey(userId: string): string {
+  return `${STORAGE_PREFIX}${userId}`;
+}
+
+function loadStore(userId: string): StoredSavedViews {
+  const empty: StoredSavedViews = { views: [], defaults: {} };
+  if (typeof window === "undefined") {
+    return empty;
+  }
+
+  try {
+    const stored = localStorage.getItem(getStorageKey(userId));
+    if (!stored) {
+      return empty;
+    }
+    const parsed = JSON.parse(stored) as Partial<StoredSavedViews>;
+    return {
+      views: Array.isArray(parsed.views) ? parsed.views : [],
+      defaults: parsed.defaults ?? {},
+    };
+  } catch (error) {
+    console.error("Error loading saved views:", error);
+    return empty;
+  }
+}
+
+function saveStore(userId: string, store: StoredSavedViews): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    localStorage.setItem(getStorageKey(userId), JSON.stringify(store));
+  } catch (error) {
+    console.error("Error saving saved views:", error);
+  }
+}
+
+/**
+ * Personal views of a list, oldest first
+ */
+export function loadPersonalViews(userId: string, listKey: string): SavedView[] {
+  return loadStore(userId).views.filter((view) => view.listKey === listKey);
+}
+
+/**
+ * Insert or replace a personal view
+ */
+export function savePersonalView(userId: string, view: SavedView): void {
+  const store = loadStore(userId);
+  const index = store.views.findIndex((v) => v.id === view.id);
+  if (index >= 0) {
+    store.views[index] = view;
+  } else {
+    store.views.push(view);
+  }
+  saveStore(userId, store);
+}
+
+/**
+ * Remove a personal view, clearing it as default if needed
+ */
+export function deletePersonalView(userId: string, viewId: string): void {
+  const store = loadStore(userId);
+  store.views = store.views.filter((view) => view.id !== viewId);
+  Object.keys(store.defaults).forEach((listKey) => {
+    if (store.defaults[listKey] === viewId) {
+      delete store.defaults[listKey];
+    }
+  });
+  saveStore(userId, store);
+}
+
+export function getDefaultViewId(userId: string, listKey: string): string | null {
+  return loadStore(userId).defaults[listKey] ?? null;
+}
+
+/**
+ * Set or clear (null) the default view of a list
+ */
+export function setDefaultViewId(
+  userId: string,
+  listKey: string,
+  viewId: string | null,
+): void {
+  const store = loadStore(userId);
+  if (viewId) {
+    store.defaults[listKey] = viewId;
+  } else {
+    delete store.defaults[listKey];
+  }
+  saveStore(userId, store);
+}
@@ -0,0 +1,36 @@
+/**
+ * Saved View Types
+ * Named snapshots of a document list's filters, sort, columns and page size
+ */
+
+/**
+ * List state captured by a view
+ * `filters` is owned by each list hook; the store treats it as opaque JSON
+ */
+export interface SavedViewState {
+  filters: Record<string, unknown>;
+  sortColumn?: string | null;
+  sortDirection?: "asc" | "desc" | null;
+  visibleColumns?: string[];
+  pageSize?: number;
+}
+
+export interface SavedView {
+  id: string;
+  /** List the view belongs to, e.g. "sales-order" or "gl-entry" */
+  listKey: string;
+  name: string;
+  state: SavedViewState;
+  /** User ID of the creator */
+  owner: string;
+  /** Shared views are visible to every user and stored on the server */
+  shared: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SaveViewInput {
+  name: string;
+  shared: boolean;
+  setAsDefault: boolean;
+}
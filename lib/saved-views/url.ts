@@ -0,0 +1,84 @@
+/**
+ * Saved View URL helpers
+ * `?view=<id>` points at a saved view, `?viewState=<json>` carries an ad-hoc state
+ * `?viewList=<listKey>` scopes both to one list when a page mounts several lists
+ */
+
+import type { SavedViewState } from "./types";
+
+export const VIEW_ID_PARAM = "view";
+export const VIEW_STATE_PARAM = "viewState";
+export const VIEW_LIST_PARAM = "viewList";
+
+/**
+ * Read the view reference for a list from the current URL
+ */
+export function readViewFromUrl(listKey: string): {
+  viewId: string | null;
+  state: SavedViewState | null;
+} {
+  const none = { viewId: null, state: null };
+  if (typeof window === "undefined") {
+    return none;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const linkedList = params.get(VIEW_LIST_PARAM);
+  if (linkedList && linkedList !== listKey) {
+    return none;
+  }
+
+  const viewId = params.get(VIEW_ID_PARAM);
+  const rawState = params.get(VIEW_STATE_PARAM);
+  let state: SavedViewState | null = null;
+
+  if (rawState) {
+    try {
+      const parsed = JSON.parse(rawState) as SavedViewState;
+      if (parsed && typeof parsed.filters === "object" && parsed.filters) {
+        state = parsed;
+      }
+    } catch {
+      // Malformed links fall back to the default view
+    }
+  }
+
+  return { viewId, state };
+}
+
+/**
+ * Drop the view params once applied so a reload keeps later changes
+ */
+export function clearViewFromUrl(): void {
+  const url = new URL(window.location.href);
+  if (
+    !url.searchParams.has(VIEW_ID_PARAM) &&
+    !url.searchParams.has(VIEW_STATE_PARAM)
+  ) {
+    return;
+  }
+  [VIEW_ID_PARAM, VIEW_STATE_PARAM, VIEW_LIST_PARAM].forEach((param) =>
+    url.searchParams.delete(param),
+  );
+  window.history.replaceState(window.history.state, "", url.toString());
+}
+
+/**
+ * Absolute link to the current page that restores a view of a list
+ * Other query params (e.g. ?tab=) are kept
+ */
+export function buildViewUrl(
+  listKey: string,
+  view: { viewId: string } | { state: SavedViewState },
+): string {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(VIEW_ID_PARAM);
+  url.searchParams.delete(VIEW_STATE_PARAM);
+  url.searchParams.set(VIEW_LIST_PARAM, listKey);
+  if ("viewId" in view) {
+    url.searchParams.set(VIEW_ID_PARAM, view.viewId);
+  } else {
+    url.searchParams.set(VIEW_STATE_PARAM, JSON.stringify(view.state));
+  }
+  return url.toString();
+}
@@ -0,0 +1,296 @@
+/**
+ * Saved views hook
+ * Lists personal and shared views of a document list, saves the current list
+ * state as a view and restores a view from the URL or the user's default
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { toastError } from "@/lib/errors";
+import {
+  deleteSharedView,
+  getSharedViews,
+  saveSharedView,
+} from "@/lib/api/services/saved-views.service";
+import {
+  deletePersonalView,
+  getDefaultViewId,
+  loadPersonalViews,
+  savePersonalView,
+  setDefaultViewId,
+} from "./storage";
+import { buildViewUrl, clearViewFromUrl, readViewFromUrl } from "./url";
+import type { SaveViewInput, SavedView, SavedViewState } from "./types";
+
+export interface UseSavedViewsOptions {
+  /** Stable key of the list, e.g. "sales-order" */
+  listKey: string;
+  /** Current list state; memoise it so comparisons stay cheap */
+  currentState: SavedViewState;
+  /** Replaces the list state with a view's state */
+  applyState: (state: SavedViewState) => void;
+}
+
+function serializeState(state: SavedViewState): string {
+  return JSON.stringify(state);
+}
+
+export function useSavedViews({
+  listKey,
+  currentState,
+  applyState,
+}: UseSavedViewsOptions) {
+  const { userID } = useAuth();
+  const [revision, setRevision] = useState(0);
+  const [sharedResult, setSharedResult] = useState<{
+    listKey: string;
+    views: SavedView[];
+  } | null>(null);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyStateRef = useRef(applyState);
+  const initialisedListRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    applyStateRef.current = applyState;
+  });
+
+  const personalViews = useMemo(
+    // revision re-reads local storage after personal views change
+    () => (userID && revision >= 0 ? loadPersonalViews(userID, listKey) : []),
+    [userID, listKey, revision],
+  );
+
+  const defaultViewId = useMemo(
+    () => (userID && revision >= 0 ? getDefaultViewId(userID, listKey) : null),
+    [userID, listKey, revision],
+  );
+
+  const sharedViews = useMemo(
+    () => (sharedResult?.listKey === listKey ? sharedResult.views : []),
+    [sharedResult, listKey],
+  );
+  const isLoading = !!userID && sharedResult?.listKey !== listKey;
+
+  const views = useMemo(
+    () => [...personalViews, ...sharedViews],
+    [personalViews, sharedViews],
+  );
+
+  const activeView = views.find((view) => view.id === activeViewId) ?? null;
+  const isModified =
+    !!activeView &&
+    serializeState(activeView.state) !== serializeState(currentState);
+
+  const applyView = useCallback((view: SavedView) => {
+    applyStateRef.current(view.state);
+    setActiveViewId(view.id);
+  }, []);
+
+  // Load shared views, then restore the URL view or the default view once per list
+  useEffect(() => {
+    if (!userID) return;
+    let cancelled = false;
+
+    const restoreInitialView = (shared: SavedView[]) => {
+      if (initialisedListRef.current === listKey) return;
+      initialisedListRef.current = listKey;
+
+      const available = [...loadPersonalViews(userID, listKey), ...shared];
+      const fromUrl = readViewFromUrl(listKey);
+      if (fromUrl.state || fromUrl.viewId) clearViewFromUrl();
+
+      if (fromUrl.state) {
+        applyStateRef.current(fromUrl.state);
+        setActiveViewId(null);
+        return;
+      }
+      if (fromUrl.viewId) {
+        const linked = available.find((view) => view.id === fromUrl.viewId);
+        if (linked) {
+          applyView(linked);
+        } else {
+          toast.error("The linked view was not found or is not shared");
+        }
+        return;
+      }
+      const defaultId = getDefaultViewId(userID, listKey);
+      const defaultView = available.find((view) => view.id === defaultId);
+      if (defaultView) applyView(defaultView);
+    };
+
+    getSharedViews(listKey)
+      .catch((error) => {
+        console.error("Error loading shared views:", error);
+        return [] as SavedView[];
+      })
+      .then((shared) => {
+        if (cancelled) return;
+        setSharedResult({ listKey, views: shared });
+        restoreInitialView(shared);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userID, listKey, applyView]);
+
+  const saveView = useCallback(
+    async ({ name, shared, setAsDefault }: SaveViewInput) => {
+      if (!userID) return;
+      setIsSaving(true);
+      try {
+        const now = Date.now();
+        const draft: SavedView = {
+          id: crypto.randomUUID(),
+          listKey,
+          name: name.trim(),
+          state: currentState,
+          owner: userID,
+          shared,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        if (shared) {
+          const saved = await saveSharedView(draft);
+          setSharedResult((prev) => ({
+            listKey,
+            views: [...(prev?.listKey === listKey ? prev.views : []), saved],
+          }));
+        } else {
+          savePersonalView(userID, draft);
+        }
+        if (setAsDefault) {
+          setDefaultViewId(userID, listKey, draft.id);
+        }
+        setRevision((r) => r + 1);
+        setActiveViewId(draft.id);
+        toast.success(`View "${draft.name}" saved`);
+      } catch (error) {
+        toastError(error, "Failed to save view");
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [userID, listKey, currentState],
+  );
+
+  /** Overwrite a view with the current list state */
+  const updateView = useCallback(
+    async (view: SavedView) => {
+      if (!userID) return;
+      setIsSaving(true);
+      try {
+        const next = { ...view, state: currentState, updatedAt: Date.now() };
+        if (view.shared) {
+          const saved = await saveSharedView(next);
+          setSharedResult((prev) =>
+            prev && prev.listKey === listKey
+              ? {
+                  listKey,
+                  views: prev.views.map((v) => (v.id === saved.id ? saved : v)),
+                }
+              : prev,
+          );
+        } else {
+          savePersonalView(userID, next);
+          setRevision((r) => r + 1);
+        }
+        setActiveViewId(view.id);
+        toast.success(`View "${view.name}" updated`);
+      } catch (error) {
+        toastError(error, "Failed to update view");
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [userID, listKey, currentState],
+  );
+
+  const deleteView = useCallback(
+    async (view: SavedView) => {
+      if (!userID) return;
+      try {
+        if (view.shared) {
+          await deleteSharedView(view.id);
+          setSharedResult((prev) =>
+            prev && prev.listKey === listKey
+              ? { listKey, views: prev.views.filter((v) => v.id !== view.id) }
+              : prev,
+          );
+          if (getDefaultViewId(userID, listKey) === view.id) {
+            setDefaultViewId(userID, listKey, null);
+          }
+        } else {
+          deletePersonalView(userID, view.id);
+        }
+        setRevision((r) => r + 1);
+        setActiveViewId((current) => (current === view.id ? null : current));
+        toast.success(`View "${view.name}" deleted`);
+      } catch (error) {
+        toastError(error, "Failed to delete view");
+      }
+    },
+    [userID, listKey],
+  );
+
+  /** Set (or clear with null) the view applied when the list opens */
+  const setDefaultView = useCallback(
+    (viewId: string | null) => {
+      if (!userID) return;
+      setDefaultViewId(userID, listKey, viewId);
+      setRevision((r) => r + 1);
+    },
+    [userID, listKey],
+  );
+
+  /**
+   * Copy a link that restores the view
+   * Shared views link by ID; personal views and unsaved state embed the state
+   */
+  const copyViewLink = useCallback(
+    async (view?: SavedView) => {
+      const url =
+        view?.shared && serializeState(view.state) === serializeState(currentState)
+          ? buildViewUrl(listKey, { viewId: view.id })
+          : buildViewUrl(listKey, { state: currentState });
+      try {
+        await navigator.clipboard.writeText(url);
+        toast.success("Link copied to clipboard");
+      } catch (error) {
+        toastError(error, "Failed to copy link");
+      }
+    },
+    [listKey, currentState],
+  );
+
+  const canModifyView = useCallback(
+    (view: SavedView) => !view.shared || view.owner === userID,
+    [userID],
+  );
+
+  return {
+    views,
+    personalViews,
+    sharedViews,
+    activeView,
+    defaultViewId,
+    isModified,
+    isLoading,
+    isSaving,
+    applyView,
+    saveView,
+    updateView,
+    deleteView,
+    setDefaultView,
+    copyViewLink,
+    canModifyView,
+  };
+}
+
+export type SavedViewsController = ReturnType<typeof useSavedViews>;
@@ -0,0 +1,114 @@
+/**
+ * Browser Barcode Decoding
+ * Uses ZXing in the page - no frames or images leave the browser. Images are
+ * decoded from their pixels by `decodePixels`, which the unit tests run on
+ * image fixtures (tests/unit/fixtures/scanner)
+ */
+
+import {
+  BrowserCodeReader,
+  BrowserMultiFormatReader,
+  type IScannerControls,
+} from "@zxing/browser";
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  RGBLuminanceSource,
+} from "@zxing/library";
+
+/** Symbologies printed on production, lot and gate-entry labels */
+export const SCAN_FORMATS: BarcodeFormat[] = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.CODE_39,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+];
+
+function createHints(tryHarder = false): Map<DecodeHintType, unknown> {
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, SCAN_FORMATS);
+  // GS1-128 labels: "]C1" prefix and FNC1 separators, as DataMatrix already reports them
+  hints.set(DecodeHintType.ASSUME_GS1, true);
+  if (tryHarder) hints.set(DecodeHintType.TRY_HARDER, true);
+  return hints;
+}
+
+/** RGBA pixels to luminance, transparent pixels read as white */
+function toLuminance(rgba: Uint8ClampedArray | Uint8Array): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < luminance.length; i++) {
+    const [r, g, b, alpha] = rgba.subarray(i * 4, i * 4 + 4);
+    luminance[i] = alpha === 0 ? 0xff : (306 * r + 601 * g + 117 * b + 0x200) >> 10;
+  }
+  return luminance;
+}
+
+/**
+ * Decode the first barcode in RGBA pixels, e.g. a canvas's image data
+ * Returns null when the pixels hold no readable code
+ */
+export function decodePixels(
+  rgba: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+): string | null {
+  const source = new RGBLuminanceSource(toLuminance(rgba), width, height);
+  try {
+    return new MultiFormatReader()
+      .decode(new BinaryBitmap(new HybridBinarizer(source)), createHints(true))
+      .getText();
+  } catch (error) {
+    if (error instanceof NotFoundException) return null;
+    throw error;
+  }
+}
+
+/**
+ * Decode the first barcode in an image file or URL
+ * Returns null when the image holds no readable code
+ */
+export async function decodeImage(source: Blob | string): Promise<string | null> {
+  const url = typeof source === "string" ? source : URL.createObjectURL(source);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) throw new Error("Images cannot be read in this browser");
+    context.drawImage(image, 0, 0);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return decodePixels(data, canvas.width, canvas.height);
+  } finally {
+    if (typeof source !== "string") URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Decode continuously from a camera into the video element
+ * `onDecode` fires for every frame with a code; call `stop()` on the result
+ */
+export function startCameraDecode(
+  deviceId: string | undefined,
+  video: HTMLVideoElement,
+  onDecode: (text: string) => void,
+): Promise<IScannerControls> {
+  const reader = new BrowserMultiFormatReader(createHints());
+  return reader.decodeFromVideoDevice(deviceId, video, (result) => {
+    if (result) onDecode(result.getText());
+  });
+}
+
+/** Cameras the browser exposes; labels are empty until permission is granted */
+export function listCameras(): Promise<MediaDeviceInfo[]> {
+  return BrowserCodeReader.listVideoInputDevices();
+}
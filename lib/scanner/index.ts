@@ -0,0 +1,8 @@
+/**
+ * Scanner exports
+ */
+
+export * from "./types";
+export * from "./payload";
+export * from "./decode";
+export * from "./use-wedge-scanner";
@@ -0,0 +1,146 @@
+/**
+ * Scan Payload Parsing
+ * Labels in circulation carry one of:
+ * - a bare document number (production order, PO, shipment...)
+ * - JSON, e.g. {"prodOrderNo":"RPO/0001","itemNo":"FG001","lotNo":"L1"}
+ * - key=value pairs separated by ; | & or new lines
+ * - GS1 application identifiers: (01) item, (10) lot, (17) expiry, (400) order
+ */
+
+import type { ScanPayload } from "./types";
+
+const GROUP_SEPARATOR = "\x1d";
+
+/** Lower-cased, punctuation-free key aliases */
+const DOCUMENT_KEYS = ["no", "docno", "documentno", "orderno", "prodorderno", "productionorderno", "sourceno"];
+const ITEM_KEYS = ["item", "itemno", "gtin"];
+const LOT_KEYS = ["lot", "lotno", "batch", "batchno"];
+const EXPIRY_KEYS = ["exp", "expiry", "expirationdate", "expirydate"];
+
+/** GS1 identifiers read by the app, with fixed lengths where defined */
+const GS1_FIXED_LENGTH: Record<string, number> = { "01": 14, "17": 6 };
+const GS1_VARIABLE = ["10", "400"];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function pick(
+  fields: Record<string, string>,
+  keys: string[],
+): string | undefined {
+  for (const key of keys) {
+    const value = fields[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function fromFields(raw: string, fields: Record<string, string>): ScanPayload {
+  return {
+    raw,
+    documentNo: pick(fields, DOCUMENT_KEYS),
+    itemNo: pick(fields, ITEM_KEYS),
+    lotNo: pick(fields, LOT_KEYS),
+    expirationDate: pick(fields, EXPIRY_KEYS),
+  };
+}
+
+function parseJson(text: string): Record<string, string> | null {
+  if (!text.startsWith("{")) return null;
+  try {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value === "string" || typeof value === "number") {
+        fields[normalizeKey(key)] = String(value);
+      }
+    }
+    return fields;
+  } catch {
+    return null;
+  }
+}
+
+function parseKeyValue(text: string): Record<string, string> | null {
+  const parts = text.split(/[;|&\n]/).filter((part) => part.trim());
+  const fields: Record<string, string> = {};
+  for (const part of parts) {
+    const match = part.match(/^\s*([^=:]+?)\s*[=:]\s*(.*)$/);
+    if (!match) return null;
+    fields[normalizeKey(match[1])] = match[2];
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+}
+
+/** GS1 YYMMDD to YYYY-MM-DD; day 00 means the end of the month */
+function gs1Date(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return undefined;
+  if (day === 0) day = new Date(year, month, 0).getDate();
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseGs1(text: string): Record<string, string> | null {
+  const fields: Record<string, string> = {};
+
+  if (text.startsWith("(")) {
+    const matches = [...text.matchAll(/\((\d{2,4})\)([^(]*)/g)];
+    if (matches.length === 0) return null;
+    for (const [, ai, value] of matches) fields[ai] = value.trim();
+    return fields;
+  }
+
+  // Unbracketed form: "]C1" / "]Q3" symbology prefix or a leading FNC1, FNC1
+  // as group separator
+  let rest = text.replace(new RegExp(`^(\\][A-Za-z]\\d|${GROUP_SEPARATOR})`), "");
+  if (!/^(01|10|17|400)/.test(rest)) return null;
+  while (rest) {
+    const fixed = Object.keys(GS1_FIXED_LENGTH).find((ai) => rest.startsWith(ai));
+    if (fixed) {
+      const end = fixed.length + GS1_FIXED_LENGTH[fixed];
+      fields[fixed] = rest.slice(fixed.length, end);
+      rest = rest.slice(end).replace(new RegExp(`^${GROUP_SEPARATOR}`), "");
+      continue;
+    }
+    const variable = GS1_VARIABLE.find((ai) => rest.startsWith(ai));
+    if (!variable) return null;
+    const end = rest.indexOf(GROUP_SEPARATOR);
+    fields[variable] = rest.slice(variable.length, end < 0 ? undefined : end);
+    rest = end < 0 ? "" : rest.slice(end + 1);
+  }
+  return fields;
+}
+
+/**
+ * Read the document, item and lot out of a scanned code
+ */
+export function parseScanPayload(value: string): ScanPayload {
+  const raw = value.trim();
+  if (!raw) return { raw };
+
+  const json = parseJson(raw);
+  if (json) return fromFields(raw, json);
+
+  const gs1 = parseGs1(raw);
+  if (gs1) {
+    return {
+      raw,
+      documentNo: gs1["400"] || undefined,
+      itemNo: gs1["01"] || undefined,
+      lotNo: gs1["10"] || undefined,
+      expirationDate: gs1["17"] ? gs1Date(gs1["17"]) : undefined,
+    };
+  }
+
+  const pairs = /[=:]/.test(raw) ? parseKeyValue(raw) : null;
+  if (pairs) {
+    const payload = fromFields(raw, pairs);
+    if (payload.documentNo || payload.itemNo || payload.lotNo) return payload;
+  }
+
+  return { raw, documentNo: raw };
+}
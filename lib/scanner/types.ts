@@ -0,0 +1,18 @@
+/**
+ * Scanner Types
+ */
+
+/** Where a scanned code came from */
+export type ScanSource = "camera" | "image" | "wedge";
+
+/**
+ * Fields read from a scanned label
+ * Plain codes only fill `raw` and `documentNo`
+ */
+export interface ScanPayload {
+  raw: string;
+  documentNo?: string;
+  itemNo?: string;
+  lotNo?: string;
+  expirationDate?: string;
+}
@@ -0,0 +1,61 @@
+/**
+ * USB wedge scanner hook
+ * Wedge scanners type the code as keystrokes followed by Enter, far faster
+ * than a person types. Keystrokes closer together than WEDGE_KEY_GAP_MS are
+ * buffered; a burst of at least WEDGE_MIN_LENGTH characters ending in Enter
+ * is reported as a scan. Bursts typed into inputs are left to the input
+ */
+
+import { useEffect, useRef } from "react";
+
+export const WEDGE_KEY_GAP_MS = 50;
+export const WEDGE_MIN_LENGTH = 4;
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
+export function useWedgeScanner(
+  onScan: (code: string) => void,
+  enabled = true,
+): void {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || isEditable(e.target)) return;
+
+      const now = performance.now();
+      if (now - lastKeyAt > WEDGE_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (buffer.length >= WEDGE_MIN_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
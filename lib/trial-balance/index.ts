@@ -0,0 +1,7 @@
+/**
+ * Trial balance exports
+ */
+
+export * from "./types";
+export * from "./trial-balance";
+export * from "./use-trial-balance";
@@ -0,0 +1,189 @@
+/**
+ * Trial Balance
+ * Opening balance, period debits and credits and closing balance of every
+ * posting G/L account, grouped by account category. Dimension slices
+ * filter the G/L entries themselves, so a slice shows only that LOB, branch
+ * or location's share of each account. Opening balances of balance sheet
+ * accounts are everything before the period; income statement accounts
+ * open from the start of the period's fiscal year
+ */
+
+import type { FilterCondition } from "@/components/forms/report-ledger/types";
+import { getPostingGLAccounts, type GLAccountDetail } from "@/lib/api/services/account.service";
+import {
+  getGLTotalsByAccount,
+  type GLAccountTotals,
+} from "@/lib/api/services/gl-entry.service";
+import type {
+  TrialBalance,
+  TrialBalanceCategory,
+  TrialBalanceFilters,
+  TrialBalanceRow,
+  TrialBalanceTotals,
+} from "./types";
+
+/** Chart of accounts categories in statement order */
+export const TRIAL_BALANCE_CATEGORIES: Array<{ category: string; label: string }> = [
+  { category: "Assets", label: "Assets" },
+  { category: "Liabilities", label: "Liabilities" },
+  { category: "Equity", label: "Equity" },
+  { category: "Income", label: "Income" },
+  { category: "Cost of Goods Sold", label: "Cost of Goods Sold" },
+  { category: "Expense", label: "Expense" },
+];
+
+const UNCATEGORIZED_LABEL = "Uncategorized";
+
+/** Dimension slices and the G/L entry fields they filter */
+export const TRIAL_BALANCE_DIMENSIONS = [
+  { key: "lob", field: "Global_Dimension_1_Code", label: "LOB", dimensionType: "LOB" },
+  { key: "branch", field: "Global_Dimension_2_Code", label: "Branch", dimensionType: "BRANCH" },
+  { key: "loc", field: "Shortcut_Dimension_3_Code", label: "LOC", dimensionType: "LOC" },
+] as const;
+
+/** Month (1-12) the fiscal year starts in; April for Indian companies */
+export const FISCAL_YEAR_START_MONTH =
+  Number(process.env.NEXT_PUBLIC_FISCAL_YEAR_START_MONTH) || 4;
+
+/** Income_Balance of accounts that restart every fiscal year */
+const INCOME_STATEMENT = "Income Statement";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** The day before a yyyy-MM-dd date */
+function previousDay(date: string): string {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d) - DAY_MS).toISOString().slice(0, 10);
+}
+
+/** First day of the fiscal year a yyyy-MM-dd date falls in */
+export function getFiscalYearStart(date: string): string {
+  const [y, m] = date.slice(0, 10).split("-").map(Number);
+  const year = m >= FISCAL_YEAR_START_MONTH ? y : y - 1;
+  return `${year}-${String(FISCAL_YEAR_START_MONTH).padStart(2, "0")}-01`;
+}
+
+/**
+ * The dimension slices as G/L entry filter conditions, as the GL entry
+ * table's filter builder takes them
+ */
+export function getDimensionConditions(filters: TrialBalanceFilters): FilterCondition[] {
+  return TRIAL_BALANCE_DIMENSIONS.filter(({ key }) => filters[key]).map(({ key, field }) => ({
+    field,
+    operator: "eq",
+    value: filters[key],
+    type: "text",
+  }));
+}
+
+export function emptyTrialBalanceTotals(): TrialBalanceTotals {
+  return { opening: 0, debit: 0, credit: 0, closingDebit: 0, closingCredit: 0 };
+}
+
+function sumRows(rows: TrialBalanceRow[]): TrialBalanceTotals {
+  const totals = emptyTrialBalanceTotals();
+  for (const row of rows) {
+    totals.opening += row.opening;
+    totals.debit += row.debit;
+    totals.credit += row.credit;
+    if (row.closing >= 0) totals.closingDebit += row.closing;
+    else totals.closingCredit -= row.closing;
+  }
+  return {
+    opening: round2(totals.opening),
+    debit: round2(totals.debit),
+    credit: round2(totals.credit),
+    closingDebit: round2(totals.closingDebit),
+    closingCredit: round2(totals.closingCredit),
+  };
+}
+
+/**
+ * Combine the chart of accounts with the summed entries; accounts without
+ * any balance or movement are left out
+ * @param opening - totals of every entry before the period
+ * @param yearOpening - totals from the fiscal year start to the period,
+ *   the opening of income statement accounts
+ */
+export function buildTrialBalance(
+  accounts: GLAccountDetail[],
+  opening: GLAccountTotals[],
+  yearOpening: GLAccountTotals[],
+  period: GLAccountTotals[],
+  truncated: boolean,
+): TrialBalance {
+  const accountMap = new Map(accounts.map((account) => [account.No, account]));
+  const openingMap = new Map(opening.map((totals) => [totals.accountNo, totals]));
+  const yearOpeningMap = new Map(yearOpening.map((totals) => [totals.accountNo, totals]));
+  const periodMap = new Map(period.map((totals) => [totals.accountNo, totals]));
+  const accountNos = new Set([...openingMap.keys(), ...periodMap.keys()]);
+
+  const rows: TrialBalanceRow[] = [];
+  for (const accountNo of accountNos) {
+    if (!accountNo) continue;
+    const account = accountMap.get(accountNo);
+    const openingTotals =
+      account?.Income_Balance === INCOME_STATEMENT
+        ? yearOpeningMap.get(accountNo)
+        : openingMap.get(accountNo);
+    const openingAmount = round2(openingTotals?.amount ?? 0);
+    const movement = periodMap.get(accountNo);
+    const row: TrialBalanceRow = {
+      accountNo,
+      accountName: account?.Name ?? "",
+      category: (account?.Account_Category ?? "").trim(),
+      incomeBalance: account?.Income_Balance ?? "",
+      opening: openingAmount,
+      debit: round2(movement?.debit ?? 0),
+      credit: round2(movement?.credit ?? 0),
+      closing: round2(openingAmount + (movement?.amount ?? 0)),
+    };
+    if (row.opening || row.debit || row.credit || row.closing) rows.push(row);
+  }
+  rows.sort((a, b) => a.accountNo.localeCompare(b.accountNo));
+
+  const known = new Set(TRIAL_BALANCE_CATEGORIES.map(({ category }) => category));
+  const categories: TrialBalanceCategory[] = [
+    ...TRIAL_BALANCE_CATEGORIES,
+    { category: "", label: UNCATEGORIZED_LABEL },
+  ]
+    .map(({ category, label }) => {
+      const categoryRows = rows.filter((row) =>
+        category ? row.category === category : !known.has(row.category),
+      );
+      return { category, label, rows: categoryRows, totals: sumRows(categoryRows) };
+    })
+    .filter(({ rows: categoryRows }) => categoryRows.length > 0);
+
+  return { categories, totals: sumRows(rows), truncated };
+}
+
+/**
+ * Load the chart of accounts and the entries' totals before the period,
+ * from the fiscal year start to the period and within the period
+ */
+export async function loadTrialBalance(filters: TrialBalanceFilters): Promise<TrialBalance> {
+  const additionalFilters = getDimensionConditions(filters);
+  const openingTo = previousDay(filters.fromDate);
+  const yearStart = getFiscalYearStart(filters.fromDate);
+  const noYearOpening = { totals: [], truncated: false };
+  const [accounts, opening, yearOpening, period] = await Promise.all([
+    getPostingGLAccounts(),
+    getGLTotalsByAccount({ toDate: openingTo, additionalFilters }),
+    yearStart < filters.fromDate
+      ? getGLTotalsByAccount({ fromDate: yearStart, toDate: openingTo, additionalFilters })
+      : noYearOpening,
+    getGLTotalsByAccount({ fromDate: filters.fromDate, toDate: filters.toDate, additionalFilters }),
+  ]);
+  return buildTrialBalance(
+    accounts,
+    opening.totals,
+    yearOpening.totals,
+    period.totals,
+    opening.truncated || yearOpening.truncated || period.truncated,
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Trial Balance Types
+ */
+
+export interface TrialBalanceFilters {
+  fromDate: string;
+  toDate: string;
+  /** Dimension slices; empty means all values */
+  lob: string;
+  branch: string;
+  loc: string;
+}
+
+export interface TrialBalanceRow {
+  accountNo: string;
+  accountName: string;
+  category: string;
+  incomeBalance: string;
+  /** Balance before the period; debit positive */
+  opening: number;
+  debit: number;
+  credit: number;
+  /** Balance at the end of the period; debit positive */
+  closing: number;
+}
+
+export interface TrialBalanceTotals {
+  opening: number;
+  debit: number;
+  credit: number;
+  closingDebit: number;
+  closingCredit: number;
+}
+
+export interface TrialBalanceCategory {
+  category: string;
+  label: string;
+  rows: TrialBalanceRow[];
+  totals: TrialBalanceTotals;
+}
+
+export interface TrialBalance {
+  categories: TrialBalanceCategory[];
+  totals: TrialBalanceTotals;
+  /** Entries were summed by hand and not all of them could be read */
+  truncated: boolean;
+}
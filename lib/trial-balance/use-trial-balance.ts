@@ -0,0 +1,86 @@
+/**
+ * Trial balance hook
+ * Loads the trial balance for the period and dimension slices
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, startOfMonth } from "date-fns";
+import { getErrorMessage } from "@/lib/errors";
+import { loadTrialBalance } from "./trial-balance";
+import type { TrialBalance, TrialBalanceFilters } from "./types";
+
+interface LoadResult {
+  requestKey: string;
+  trialBalance: TrialBalance | null;
+  error: string | null;
+}
+
+/** Current month to date, all dimensions */
+function getDefaultFilters(): TrialBalanceFilters {
+  const today = new Date();
+  return {
+    fromDate: format(startOfMonth(today), "yyyy-MM-dd"),
+    toDate: format(today, "yyyy-MM-dd"),
+    lob: "",
+    branch: "",
+    loc: "",
+  };
+}
+
+export function useTrialBalance() {
+  const [filters, setFilters] = useState<TrialBalanceFilters>(getDefaultFilters);
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+
+  const { fromDate, toDate, lob, branch, loc } = filters;
+  const enabled = !!fromDate && !!toDate && fromDate <= toDate;
+  const requestKey = `${fromDate}|${toDate}|${lob}|${branch}|${loc}#${generation}`;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    loadTrialBalance({ fromDate, toDate, lob, branch, loc })
+      .then((trialBalance) => {
+        if (cancelled) return;
+        setResult({ requestKey, trialBalance, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading trial balance:", error);
+        setResult({
+          requestKey,
+          trialBalance: null,
+          error: getErrorMessage(error, "Failed to load the trial balance"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, requestKey, fromDate, toDate, lob, branch, loc]);
+
+  const isLoading = enabled && result?.requestKey !== requestKey;
+
+  const updateFilters = useCallback((next: Partial<TrialBalanceFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    trialBalance: result?.trialBalance ?? null,
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    enabled,
+    refetch,
+  };
+}
+
+export type UseTrialBalanceResult = ReturnType<typeof useTrialBalance>;
@@ -0,0 +1,9 @@
+/**
+ * Vehicle turnaround exports
+ */
+
+export * from "./types";
+export * from "./milestones";
+export * from "./visits";
+export * from "./stats";
+export * from "./use-vehicle-turnaround";
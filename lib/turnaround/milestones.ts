@@ -0,0 +1,131 @@
+/**
+ * Visit Milestones
+ * Gate entries carry arrival (document date/time) and gate-out (posting
+ * date/time). QC and unload milestones are the times the linked posted QC
+ * receipts, purchase receipts and sales shipments were created, i.e. posted;
+ * a document without that timestamp is linked but its wait stays in the next
+ * stage
+ */
+
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import type { StageDuration, TurnaroundStage, VehicleVisit } from "./types";
+
+export const TURNAROUND_STAGES: TurnaroundStage[] = ["qc", "unload", "posting"];
+
+/** Each stage is the wait up to its milestone: gate → QC → unload → posting */
+export const TURNAROUND_STAGE_LABELS: Record<TurnaroundStage, string> = {
+  qc: "QC",
+  unload: "Unloading",
+  posting: "Gate-out",
+};
+
+/** Outward vehicles are loaded; the shipment marks the end of loading */
+export const OUTWARD_STAGE_LABELS: Record<TurnaroundStage, string> = {
+  ...TURNAROUND_STAGE_LABELS,
+  unload: "Loading",
+};
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Local timestamp of an ERP date and time-of-day; null for a blank date
+ */
+export function toTimestamp(date: string, time = ""): number | null {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  if (!year || !month || !day || year < 1900) return null;
+  const [, hours = "0", minutes = "0", seconds = "0"] =
+    time.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/) ?? [];
+  return new Date(
+    year,
+    month - 1,
+    day,
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  ).getTime();
+}
+
+/**
+ * Timestamp of an ERP system date-time (`SystemCreatedAt`); null when blank
+ */
+export function toSystemTimestamp(value: string | undefined): number | null {
+  const at = value ? Date.parse(value) : NaN;
+  return Number.isNaN(at) || new Date(at).getUTCFullYear() < 1900 ? null : at;
+}
+
+/** "3h 20m", "2d 4h" or "45m" */
+export function formatDwell(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const mins = total % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+export function getStageLabel(
+  stage: TurnaroundStage,
+  direction?: GateEntryDirection,
+): string {
+  return direction === "Outward"
+    ? OUTWARD_STAGE_LABELS[stage]
+    : TURNAROUND_STAGE_LABELS[stage];
+}
+
+export interface VisitMilestones {
+  arrivedAt: number;
+  /** QC posting time, null when unknown */
+  qcAt: number | null;
+  /** Unload (receipt) or load (shipment) posting time, null when unknown */
+  unloadAt: number | null;
+  departedAt: number | null;
+}
+
+/**
+ * Place the milestones and split the dwell into stages
+ * A missing milestone's wait is counted in the next stage; while the vehicle
+ * is on site the last stage runs to now. Without a timed QC or unload
+ * milestone there is a single stage and no bottleneck
+ */
+export function computeStages(
+  milestones: VisitMilestones,
+  now: number,
+): Pick<VehicleVisit, "qcAt" | "unloadAt" | "dwellMinutes" | "stages" | "bottleneck"> {
+  const { arrivedAt, departedAt } = milestones;
+  const end = Math.max(arrivedAt, departedAt ?? now);
+
+  const place = (at: number | null, after: number): number | null =>
+    at === null ? null : Math.min(Math.max(at, after), end);
+
+  const qcAt = place(milestones.qcAt, arrivedAt);
+  const unloadAt = place(milestones.unloadAt, qcAt ?? arrivedAt);
+
+  const stages: StageDuration[] = [];
+  let previous = arrivedAt;
+  for (const [stage, at] of [
+    ["qc", qcAt],
+    ["unload", unloadAt],
+    ["posting", end],
+  ] as Array<[TurnaroundStage, number | null]>) {
+    if (at === null) continue;
+    stages.push({ stage, minutes: (at - previous) / MINUTE_MS });
+    previous = at;
+  }
+
+  const longest =
+    stages.length > 1
+      ? stages.reduce<StageDuration | null>(
+          (max, stage) => (stage.minutes > (max?.minutes ?? 0) ? stage : max),
+          null,
+        )
+      : null;
+
+  return {
+    qcAt,
+    unloadAt,
+    dwellMinutes: (end - arrivedAt) / MINUTE_MS,
+    stages,
+    bottleneck: longest?.stage ?? null,
+  };
+}
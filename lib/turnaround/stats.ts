@@ -0,0 +1,129 @@
+/**
+ * Turnaround Statistics
+ * Per-vehicle summaries and daily dwell histograms per location. Averages
+ * and histograms cover completed visits only; vehicles still on site are
+ * counted separately since their dwell is still growing
+ */
+
+import { format } from "date-fns";
+import { TURNAROUND_STAGES } from "./milestones";
+import type {
+  DailyDwell,
+  DwellBucket,
+  LocationHistogram,
+  TurnaroundStage,
+  VehicleSummary,
+  VehicleVisit,
+} from "./types";
+
+export const DWELL_BUCKETS: DwellBucket[] = [
+  { id: "lt2h", label: "< 2h", maxMinutes: 120 },
+  { id: "2-4h", label: "2-4h", maxMinutes: 240 },
+  { id: "4-8h", label: "4-8h", maxMinutes: 480 },
+  { id: "8-24h", label: "8-24h", maxMinutes: 1440 },
+  { id: "gt24h", label: "> 24h", maxMinutes: Infinity },
+];
+
+export function getDwellBucketIndex(minutes: number): number {
+  return DWELL_BUCKETS.findIndex((bucket) => minutes < bucket.maxMinutes);
+}
+
+/** Stage with the most waiting in total, over the visits split into stages */
+export function getBottleneck(visits: VehicleVisit[]): TurnaroundStage | null {
+  const totals = new Map<TurnaroundStage, number>();
+  for (const visit of visits) {
+    if (visit.stages.length < 2) continue;
+    for (const { stage, minutes } of visit.stages) {
+      totals.set(stage, (totals.get(stage) ?? 0) + minutes);
+    }
+  }
+  let bottleneck: TurnaroundStage | null = null;
+  for (const stage of TURNAROUND_STAGES) {
+    if ((totals.get(stage) ?? 0) > (bottleneck ? totals.get(bottleneck)! : 0)) {
+      bottleneck = stage;
+    }
+  }
+  return bottleneck;
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+/**
+ * One row per vehicle, longest average dwell first
+ */
+export function summarizeVehicles(visits: VehicleVisit[]): VehicleSummary[] {
+  const byVehicle = new Map<string, VehicleVisit[]>();
+  for (const visit of visits) {
+    const key = visit.vehicleNo || "(No vehicle)";
+    const list = byVehicle.get(key);
+    if (list) {
+      list.push(visit);
+    } else {
+      byVehicle.set(key, [visit]);
+    }
+  }
+
+  return Array.from(byVehicle, ([vehicleNo, vehicleVisits]) => {
+    const completed = vehicleVisits.filter((visit) => visit.posted);
+    const dwell = completed.map((visit) => visit.dwellMinutes);
+    return {
+      vehicleNo,
+      transporter:
+        vehicleVisits.find((visit) => visit.transporter)?.transporter ?? "",
+      visits: vehicleVisits.length,
+      onSite: vehicleVisits.length - completed.length,
+      avgDwellMinutes: average(dwell),
+      maxDwellMinutes: dwell.length > 0 ? Math.max(...dwell) : 0,
+      bottleneck: getBottleneck(completed),
+    };
+  }).sort(
+    (a, b) =>
+      b.avgDwellMinutes - a.avgDwellMinutes ||
+      a.vehicleNo.localeCompare(b.vehicleNo),
+  );
+}
+
+/**
+ * Completed visits per arrival day and dwell bucket, for each location
+ */
+export function buildDailyHistograms(
+  visits: VehicleVisit[],
+): LocationHistogram[] {
+  const byLocation = new Map<string, Map<string, VehicleVisit[]>>();
+  for (const visit of visits) {
+    if (!visit.posted) continue;
+    const location = visit.locationCode || "-";
+    const date = format(visit.arrivedAt, "yyyy-MM-dd");
+    let days = byLocation.get(location);
+    if (!days) {
+      days = new Map();
+      byLocation.set(location, days);
+    }
+    const list = days.get(date);
+    if (list) {
+      list.push(visit);
+    } else {
+      days.set(date, [visit]);
+    }
+  }
+
+  return Array.from(byLocation, ([locationCode, days]) => ({
+    locationCode,
+    days: Array.from(days, ([date, dayVisits]): DailyDwell => {
+      const counts = DWELL_BUCKETS.map(() => 0);
+      for (const visit of dayVisits) {
+        counts[getDwellBucketIndex(visit.dwellMinutes)] += 1;
+      }
+      return {
+        date,
+        counts,
+        total: dayVisits.length,
+        avgDwellMinutes: average(dayVisits.map((visit) => visit.dwellMinutes)),
+      };
+    }).sort((a, b) => a.date.localeCompare(b.date)),
+  })).sort((a, b) => a.locationCode.localeCompare(b.locationCode));
+}
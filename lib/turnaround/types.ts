@@ -0,0 +1,84 @@
+/**
+ * Vehicle Turnaround Types
+ */
+
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+
+/** Waits a vehicle goes through, each ending at a milestone */
+export type TurnaroundStage = "qc" | "unload" | "posting";
+
+/** Linked document sources, for the truncation warning */
+export type TurnaroundSource =
+  | "Inward"
+  | "Outward"
+  | "QC Receipts"
+  | "Purchase Receipts"
+  | "Sales Shipments";
+
+export interface TurnaroundFilters {
+  fromDate: string;
+  toDate: string;
+  directions: GateEntryDirection[];
+  /** Empty for all locations */
+  locationCode: string;
+}
+
+export interface StageDuration {
+  stage: TurnaroundStage;
+  minutes: number;
+}
+
+/** One gate entry, from arrival to gate-out posting */
+export interface VehicleVisit {
+  key: string;
+  direction: GateEntryDirection;
+  no: string;
+  /** Gate entry has been posted, i.e. the vehicle has left */
+  posted: boolean;
+  vehicleNo: string;
+  locationCode: string;
+  transporter: string;
+  sourceType: string;
+  sourceNo: string;
+  arrivedAt: number;
+  qcAt: number | null;
+  unloadAt: number | null;
+  departedAt: number | null;
+  qcDocuments: string[];
+  unloadDocuments: string[];
+  /** Arrival to departure, or to now while on site */
+  dwellMinutes: number;
+  stages: StageDuration[];
+  bottleneck: TurnaroundStage | null;
+}
+
+export interface VehicleSummary {
+  vehicleNo: string;
+  transporter: string;
+  visits: number;
+  onSite: number;
+  avgDwellMinutes: number;
+  maxDwellMinutes: number;
+  /** Stage with the most total waiting across the visits */
+  bottleneck: TurnaroundStage | null;
+}
+
+export interface DwellBucket {
+  id: string;
+  label: string;
+  /** Upper bound, exclusive */
+  maxMinutes: number;
+}
+
+export interface DailyDwell {
+  date: string;
+  /** Visits per dwell bucket, in bucket order */
+  counts: number[];
+  total: number;
+  avgDwellMinutes: number;
+}
+
+export interface LocationHistogram {
+  locationCode: string;
+  days: DailyDwell[];
+}
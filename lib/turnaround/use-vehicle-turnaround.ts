@@ -0,0 +1,116 @@
+/**
+ * Vehicle turnaround hook
+ * Loads the visits for the current dates and directions; the location filter
+ * only narrows what was loaded
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, startOfWeek } from "date-fns";
+import { useAuth } from "@/lib/contexts/auth-context";
+import { getWebUserSetup } from "@/lib/api/services/dimension.service";
+import { getErrorMessage } from "@/lib/errors";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import { loadVehicleVisits } from "./visits";
+import type { TurnaroundFilters, TurnaroundSource, VehicleVisit } from "./types";
+
+export const ALL_TURNAROUND_DIRECTIONS: GateEntryDirection[] = ["Inward", "Outward"];
+
+interface LoadResult {
+  requestKey: string;
+  visits: VehicleVisit[];
+  truncatedSources: TurnaroundSource[];
+  error: string | null;
+}
+
+/** Current week to date */
+function getDefaultFilters(): TurnaroundFilters {
+  const today = new Date();
+  return {
+    fromDate: format(startOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd"),
+    toDate: format(today, "yyyy-MM-dd"),
+    directions: ALL_TURNAROUND_DIRECTIONS,
+    locationCode: "",
+  };
+}
+
+export function useVehicleTurnaround() {
+  const { userID } = useAuth();
+  const [filters, setFilters] = useState<TurnaroundFilters>(getDefaultFilters);
+  const [generation, setGeneration] = useState(0);
+  const [result, setResult] = useState<LoadResult | null>(null);
+
+  const { fromDate, toDate, directions } = filters;
+  const requestKey = `${fromDate}|${toDate}|${directions.join(",")}#${generation}`;
+
+  useEffect(() => {
+    if (!userID) return;
+    let cancelled = false;
+    const now = Date.now();
+
+    getWebUserSetup(userID)
+      .then((setup) => {
+        const branchCodes = Array.from(
+          new Set(setup.map((row) => row.Branch_Code).filter(Boolean)),
+        );
+        return loadVehicleVisits({ fromDate, toDate, directions }, branchCodes, now);
+      })
+      .then(({ visits, truncatedSources }) => {
+        if (cancelled) return;
+        setResult({ requestKey, visits, truncatedSources, error: null });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error loading vehicle turnaround:", error);
+        setResult({
+          requestKey,
+          visits: [],
+          truncatedSources: [],
+          error: getErrorMessage(error, "Failed to load gate entries"),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userID, requestKey, fromDate, toDate, directions]);
+
+  const isLoading = !!userID && result?.requestKey !== requestKey;
+  const allVisits = useMemo(() => result?.visits ?? [], [result]);
+
+  const locations = useMemo(
+    () =>
+      Array.from(
+        new Set(allVisits.map((visit) => visit.locationCode).filter(Boolean)),
+      ).sort(),
+    [allVisits],
+  );
+
+  const visits = useMemo(
+    () =>
+      filters.locationCode
+        ? allVisits.filter((visit) => visit.locationCode === filters.locationCode)
+        : allVisits,
+    [allVisits, filters.locationCode],
+  );
+
+  const updateFilters = useCallback((next: Partial<TurnaroundFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const refetch = useCallback(() => {
+    setGeneration((prev) => prev + 1);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    visits,
+    locations,
+    truncatedSources: result?.truncatedSources ?? [],
+    error: isLoading ? null : (result?.error ?? null),
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,410 @@
+/**
+ * Vehicle Visits
+ * Loads the gate entries that arrived in a date range — posted ones for
+ * vehicles that have left, open ones for vehicles still on site — and links
+ * each to its QC receipts and purchase receipts (inward) or sales shipments
+ * (outward) by source document, falling back to the vehicle number within
+ * the visit's dates. The linked documents' posting times are the visit's QC
+ * and unload milestones
+ */
+
+import { format } from "date-fns";
+import { getInwardGateEntriesWithCount } from "@/lib/api/services/inward-gate-entry.service";
+import { getOutwardGateEntriesWithCount } from "@/lib/api/services/outward-gate-entry.service";
+import {
+  getPostedInwardGateEntries,
+  getPostedOutwardGateEntries,
+} from "@/lib/api/services/posted-gate-entry.service";
+import { getPostedPurchaseReceipts } from "@/lib/api/services/posted-purchase.service";
+import {
+  getPostedQCReceiptsWithCount,
+  getQCReceiptsWithCount,
+} from "@/lib/api/services/qc-receipt.service";
+import { getPostedShipmentsWithCount } from "@/lib/api/services/sales-posted-shipments.service";
+import { normalizeVehicleNo } from "@/lib/validations/eway-bill.validation";
+import type { GateEntryDirection } from "@/lib/weighbridge/types";
+import { computeStages, toSystemTimestamp, toTimestamp } from "./milestones";
+import type { TurnaroundFilters, TurnaroundSource, VehicleVisit } from "./types";
+
+const PAGE_SIZE = 500;
+
+/** Per-source cap; narrow the dates when it is reached */
+export const TURNAROUND_MAX_ROWS = 5000;
+
+/** Linked documents are looked up this many days past the range end */
+const LINK_WINDOW_DAYS = 3;
+
+const OPEN_GATE_ENTRY_FIELDS = [
+  "No",
+  "Document_Date",
+  "Document_Time",
+  "Vehicle_No",
+  "Location_Code",
+  "Transporter_Name",
+  "Source_Type",
+  "Source_No",
+].join(",");
+
+type Row = Record<string, unknown>;
+
+interface Page {
+  rows: Row[];
+  totalCount: number;
+}
+
+interface LinkedDocument {
+  no: string;
+  date: string;
+  /** Document and order numbers a gate entry's source may refer to */
+  refs: string[];
+  vehicleNo: string;
+  /** When the document was posted; null while open or when the ERP omits it */
+  postedAt: number | null;
+}
+
+export interface TurnaroundLoadResult {
+  visits: VehicleVisit[];
+  /** Sources with more rows than were loaded */
+  truncatedSources: TurnaroundSource[];
+}
+
+type TurnaroundQuery = Pick<TurnaroundFilters, "fromDate" | "toDate" | "directions">;
+
+function text(row: Row, field: string): string {
+  const value = row[field];
+  return typeof value === "string" ? value : "";
+}
+
+function escapeValue(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+function dateRange(field: string, fromDate: string, toDate: string): string {
+  const parts: string[] = [];
+  if (fromDate) parts.push(`${field} ge ${fromDate}`);
+  if (toDate) parts.push(`${field} le ${toDate}`);
+  return parts.join(" and ");
+}
+
+function addDays(date: string, days: number): string {
+  const at = toTimestamp(date);
+  if (at === null) return date;
+  const next = new Date(at);
+  next.setDate(next.getDate() + days);
+  return format(next, "yyyy-MM-dd");
+}
+
+async function loadPages(
+  fetchPage: (skip: number, top: number) => Promise<Page>,
+): Promise<{ rows: Row[]; truncated: boolean }> {
+  const rows: Row[] = [];
+  let totalCount = 0;
+  do {
+    const page = await fetchPage(rows.length, PAGE_SIZE);
+    rows.push(...page.rows);
+    totalCount = page.totalCount;
+    if (page.rows.length < PAGE_SIZE) break;
+  } while (rows.length < totalCount && rows.length < TURNAROUND_MAX_ROWS);
+
+  return { rows, truncated: totalCount > rows.length };
+}
+
+function loadOpenGateEntries(
+  direction: GateEntryDirection,
+  filter: string,
+) {
+  const fetchPage =
+    direction === "Inward"
+      ? getInwardGateEntriesWithCount
+      : getOutwardGateEntriesWithCount;
+  return loadPages(async (skip, top) => {
+    const page = await fetchPage({
+      $select: OPEN_GATE_ENTRY_FIELDS,
+      $filter: filter,
+      $orderby: "Document_Date asc,No asc",
+      $top: top,
+      $skip: skip,
+    });
+    return { rows: page.entries as Row[], totalCount: page.totalCount };
+  });
+}
+
+function loadPostedGateEntries(
+  direction: GateEntryDirection,
+  filter: string,
+) {
+  const fetchPage =
+    direction === "Inward"
+      ? getPostedInwardGateEntries
+      : getPostedOutwardGateEntries;
+  return loadPages(async (skip, top) => {
+    const response = await fetchPage({
+      $filter: filter,
+      $orderby: "Document_Date asc,No asc",
+      $top: top,
+      $skip: skip,
+    });
+    const rows = (response.value || []) as Row[];
+    return { rows, totalCount: response["@odata.count"] ?? rows.length };
+  });
+}
+
+function toLinkedDocument(
+  row: Row,
+  dateField: string,
+  refFields: string[],
+  posted: boolean,
+): LinkedDocument {
+  return {
+    no: text(row, "No"),
+    date: text(row, dateField),
+    refs: refFields.map((field) => text(row, field)),
+    vehicleNo: normalizeVehicleNo(text(row, "Vehicle_No")),
+    postedAt: posted ? toSystemTimestamp(text(row, "SystemCreatedAt")) : null,
+  };
+}
+
+async function loadQCReceipts(fromDate: string, toDate: string) {
+  const params = {
+    $select:
+      "No,QC_Date,Vehicle_No,Purchase_Order_No,Purchase_Receipt_No,SystemCreatedAt",
+    $filter: dateRange("QC_Date", fromDate, toDate),
+    $orderby: "QC_Date asc,No asc",
+  };
+  const [open, posted] = await Promise.all(
+    [getQCReceiptsWithCount, getPostedQCReceiptsWithCount].map((fetchPage) =>
+      loadPages(async (skip, top) => {
+        const page = await fetchPage({ ...params, $top: top, $skip: skip });
+        return { rows: page.receipts as unknown as Row[], totalCount: page.totalCount };
+      }),
+    ),
+  );
+  const refs = ["Purchase_Order_No", "Purchase_Receipt_No"];
+  return {
+    documents: [
+      ...open.rows.map((row) => toLinkedDocument(row, "QC_Date", refs, false)),
+      ...posted.rows.map((row) => toLinkedDocument(row, "QC_Date", refs, true)),
+    ],
+    truncated: open.truncated || posted.truncated,
+  };
+}
+
+async function loadPurchaseReceipts(fromDate: string, toDate: string) {
+  const { rows, truncated } = await loadPages(async (skip, top) => {
+    const response = await getPostedPurchaseReceipts({
+      $filter: dateRange("Posting_Date", fromDate, toDate),
+      $orderby: "Posting_Date asc,No asc",
+      $top: top,
+      $skip: skip,
+    });
+    const rows = (response.value || []) as Row[];
+    return { rows, totalCount: response["@odata.count"] ?? rows.length };
+  });
+  return {
+    documents: rows.map((row) =>
+      toLinkedDocument(row, "Posting_Date", ["No", "Order_No"], true),
+    ),
+    truncated,
+  };
+}
+
+async function loadSalesShipments(fromDate: string, toDate: string) {
+  const { rows, truncated } = await loadPages(async (skip, top) => {
+    const page = await getPostedShipmentsWithCount({
+      $select: "No,Order_No,Posting_Date,Vehicle_No,SystemCreatedAt",
+      $filter: dateRange("Posting_Date", fromDate, toDate),
+      $orderby: "Posting_Date asc,No asc",
+      $top: top,
+      $skip: skip,
+    });
+    return { rows: page.orders as Row[], totalCount: page.totalCount };
+  });
+  return {
+    documents: rows.map((row) =>
+      toLinkedDocument(row, "Posting_Date", ["No", "Order_No"], true),
+    ),
+    truncated,
+  };
+}
+
+type DocumentLookup = (
+  sourceNo: string,
+  vehicleNo: string,
+  fromDate: string,
+  toDate: string,
+) => LinkedDocument[];
+
+function addTo(map: Map<string, LinkedDocument[]>, key: string, doc: LinkedDocument) {
+  const list = map.get(key);
+  if (list) {
+    list.push(doc);
+  } else {
+    map.set(key, [doc]);
+  }
+}
+
+/**
+ * Index documents by reference and by vehicle
+ * Within the visit's dates, documents matching both the source and the
+ * vehicle win over either alone
+ */
+function createDocumentLookup(documents: LinkedDocument[]): DocumentLookup {
+  const byRef = new Map<string, LinkedDocument[]>();
+  const byVehicle = new Map<string, LinkedDocument[]>();
+  for (const doc of documents) {
+    if (toTimestamp(doc.date) === null) continue;
+    for (const ref of new Set(doc.refs.filter(Boolean))) addTo(byRef, ref, doc);
+    if (doc.vehicleNo) addTo(byVehicle, doc.vehicleNo, doc);
+  }
+
+  return (sourceNo, vehicleNo, fromDate, toDate) => {
+    const candidates = new Set([
+      ...(sourceNo ? (byRef.get(sourceNo) ?? []) : []),
+      ...(vehicleNo ? (byVehicle.get(vehicleNo) ?? []) : []),
+    ]);
+
+    let best: LinkedDocument[] = [];
+    let bestScore = 0;
+    for (const doc of candidates) {
+      const date = doc.date.slice(0, 10);
+      if (date < fromDate || date > toDate) continue;
+      const score =
+        (sourceNo && doc.refs.includes(sourceNo) ? 2 : 0) +
+        (vehicleNo && doc.vehicleNo === vehicleNo ? 1 : 0);
+      if (score > bestScore) {
+        best = [doc];
+        bestScore = score;
+      } else if (score === bestScore) {
+        best.push(doc);
+      }
+    }
+    return best.sort((a, b) => a.date.localeCompare(b.date));
+  };
+}
+
+/** The stage ends when the last of its documents is posted */
+function lastPostedAt(documents: LinkedDocument[]): number | null {
+  const times = documents.flatMap((doc) => (doc.postedAt === null ? [] : [doc.postedAt]));
+  return times.length > 0 ? Math.max(...times) : null;
+}
+
+function toVisit(
+  direction: GateEntryDirection,
+  row: Row,
+  posted: boolean,
+  links: { qc: DocumentLookup | null; unload: DocumentLookup },
+  now: number,
+): VehicleVisit | null {
+  const arrivedAt = toTimestamp(text(row, "Document_Date"), text(row, "Document_Time"));
+  if (arrivedAt === null) return null;
+  const departedAt = posted
+    ? toTimestamp(text(row, "Posting_Date"), text(row, "Posting_Time"))
+    : null;
+
+  const no = text(row, "No");
+  const sourceNo = text(row, "Source_No");
+  const vehicleNo = normalizeVehicleNo(text(row, "Vehicle_No"));
+  const fromDate = format(arrivedAt, "yyyy-MM-dd");
+  const toDate = format(departedAt ?? now, "yyyy-MM-dd");
+
+  const qcDocuments = links.qc?.(sourceNo, vehicleNo, fromDate, toDate) ?? [];
+  const unloadDocuments = links.unload(sourceNo, vehicleNo, fromDate, toDate);
+
+  return {
+    key: `${direction}:${posted ? "posted" : "open"}:${no}`,
+    direction,
+    no,
+    posted,
+    vehicleNo,
+    locationCode: text(row, "Location_Code"),
+    transporter: text(row, "Transporter_Name"),
+    sourceType: text(row, "Source_Type"),
+    sourceNo,
+    arrivedAt,
+    departedAt,
+    qcDocuments: qcDocuments.map((doc) => doc.no),
+    unloadDocuments: unloadDocuments.map((doc) => doc.no),
+    ...computeStages(
+      {
+        arrivedAt,
+        qcAt: lastPostedAt(qcDocuments),
+        unloadAt: lastPostedAt(unloadDocuments),
+        departedAt,
+      },
+      now,
+    ),
+  };
+}
+
+/**
+ * Load the visits of the selected directions that arrived in the range
+ * Open and posted gate entries are limited to the user's branches, like the
+ * list pages
+ */
+export async function loadVehicleVisits(
+  { fromDate, toDate, directions }: TurnaroundQuery,
+  branchCodes: string[],
+  now: number,
+): Promise<TurnaroundLoadResult> {
+  const arrivalFilter = dateRange("Document_Date", fromDate, toDate);
+  const branchFilter =
+    branchCodes.length > 0
+      ? branchCodes
+          .map((code) => `Shortcut_Dimension_2_Code eq '${escapeValue(code)}'`)
+          .join(" or ")
+      : "Shortcut_Dimension_2_Code eq 'NONE'";
+  const gateEntryFilter = [arrivalFilter, `(${branchFilter})`]
+    .filter(Boolean)
+    .join(" and ");
+  const linkToDate = toDate ? addDays(toDate, LINK_WINDOW_DAYS) : "";
+
+  const hasInward = directions.includes("Inward");
+  const hasOutward = directions.includes("Outward");
+  const none = Promise.resolve({ documents: [] as LinkedDocument[], truncated: false });
+
+  const [gateEntries, qc, receipts, shipments] = await Promise.all([
+    Promise.all(
+      directions.map(async (direction) => {
+        const [open, posted] = await Promise.all([
+          loadOpenGateEntries(direction, gateEntryFilter),
+          loadPostedGateEntries(direction, gateEntryFilter),
+        ]);
+        return { direction, open, posted };
+      }),
+    ),
+    hasInward ? loadQCReceipts(fromDate, linkToDate) : none,
+    hasInward ? loadPurchaseReceipts(fromDate, linkToDate) : none,
+    hasOutward ? loadSalesShipments(fromDate, linkToDate) : none,
+  ]);
+
+  const inwardLinks = {
+    qc: createDocumentLookup(qc.documents),
+    unload: createDocumentLookup(receipts.documents),
+  };
+  const outwardLinks = {
+    qc: null,
+    unload: createDocumentLookup(shipments.documents),
+  };
+
+  const visits = gateEntries.flatMap(({ direction, open, posted }) => {
+    const links = direction === "Inward" ? inwardLinks : outwardLinks;
+    return [
+      ...posted.rows.map((row) => toVisit(direction, row, true, links, now)),
+      ...open.rows.map((row) => toVisit(direction, row, false, links, now)),
+    ].filter((visit): visit is VehicleVisit => visit !== null);
+  });
+
+  const truncatedSources: TurnaroundSource[] = [
+    ...gateEntries
+      .filter(({ open, posted }) => open.truncated || posted.truncated)
+      .map(({ direction }) => direction),
+    ...(qc.truncated ? (["QC Receipts"] as const) : []),
+    ...(receipts.truncated ? (["Purchase Receipts"] as const) : []),
+    ...(shipments.truncated ? (["Sales Shipments"] as const) : []),
+  ];
+
+  return {
+    visits: visits.sort((a, b) => b.arrivedAt - a.arrivedAt),
+    truncatedSources,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * URL search param helpers
+ */
+
+/**
+ * Read a query param restricted to known values, for initial page state
+ * Protected pages render client-side only, so reading window.location is safe
+ * @example getInitialSearchParam("tab", ["open", "pending"], "all")
+ */
+export function getInitialSearchParam<T extends string>(
+  name: string,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  if (typeof window === "undefined") return fallback;
+  const value = new URLSearchParams(window.location.search).get(name);
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
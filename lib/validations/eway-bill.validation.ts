@@ -0,0 +1,38 @@
+/**
+ * E-Way Bill Validation
+ * Validation functions for Part-B fields
+ */
+
+/** Regular registration, e.g. KA01AB1234 or DL1C1234 */
+const REGULAR_VEHICLE = /^[A-Z]{2}[0-9]{1,2}[A-Z]{0,3}[0-9]{4}$/;
+/** Bharat series, e.g. 22BH1234AA */
+const BH_SERIES_VEHICLE = /^[0-9]{2}BH[0-9]{4}[A-Z]{1,2}$/;
+/** Temporary (TR) and defence (DF) registrations */
+const SPECIAL_VEHICLE = /^(TR|DF)[A-Z0-9]{6,13}$/;
+
+/**
+ * Uppercase the vehicle number and drop spaces, hyphens and dots
+ */
+export function normalizeVehicleNo(value: string): string {
+  return value.toUpperCase().replace(/[\s.-]/g, "");
+}
+
+/**
+ * Validate vehicle number
+ * - Required
+ * - Regular, Bharat series, temporary or defence format
+ */
+export function validateVehicleNo(value: string): string | null {
+  const vehicleNo = normalizeVehicleNo(value);
+  if (!vehicleNo) {
+    return "Vehicle number is required";
+  }
+  if (
+    !REGULAR_VEHICLE.test(vehicleNo) &&
+    !BH_SERIES_VEHICLE.test(vehicleNo) &&
+    !SPECIAL_VEHICLE.test(vehicleNo)
+  ) {
+    return "Invalid vehicle number (e.g. KA01AB1234, 22BH1234AA or TR...)";
+  }
+  return null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Voucher import run
+ * Creates one voucher per valid row, each with its own document number,
+ * in the WEB batch where they are reviewed and posted like hand-made ones.
+ * A failed row is reported and the run carries on with the next
+ */
+
+import {
+  createNoSeriesForVouchers,
+  createVoucher,
+} from "@/lib/api/services/voucher.service";
+import { getErrorMessage } from "@/lib/errors";
+import type { VoucherFormData } from "@/lib/validations/voucher.validation";
+import { buildVoucherPayload } from "./payload";
+import type { ValidatedVoucherRow, VoucherImportResult } from "./types";
+
+async function importRow(
+  rowNumber: number,
+  data: VoucherFormData,
+  userId?: string,
+): Promise<VoucherImportResult> {
+  try {
+    const documentNo = await createNoSeriesForVouchers(data.voucherType, data.postingDate);
+    if (!documentNo) throw new Error("No voucher number was issued");
+    await createVoucher(buildVoucherPayload(data, documentNo, userId), data.voucherType);
+    return { rowNumber, documentNo };
+  } catch (error) {
+    return { rowNumber, error: getErrorMessage(error, "Failed to create the voucher") };
+  }
+}
+
+/**
+ * Create the vouchers one row at a time, so voucher numbers follow the
+ * sheet; rows with errors are skipped. Reports each row as it finishes
+ */
+export async function runVoucherImport(
+  rows: ValidatedVoucherRow[],
+  userId?: string,
+  onResult?: (result: VoucherImportResult) => void,
+): Promise<VoucherImportResult[]> {
+  const results: VoucherImportResult[] = [];
+  for (const row of rows) {
+    if (!row.data) continue;
+    const result = await importRow(row.rowNumber, row.data, userId);
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
@@ -0,0 +1,9 @@
+/**
+ * Voucher import exports
+ */
+
+export * from "./types";
+export * from "./payload";
+export * from "./template";
+export * from "./validate";
+export * from "./import";
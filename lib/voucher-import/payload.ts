@@ -0,0 +1,113 @@
+/**
+ * Voucher payload
+ * Maps a validated voucher line onto the journal line the ERP expects;
+ * shared by the voucher form and the Excel import
+ */
+
+import type { CreateVoucherPayload } from "@/lib/api/services/voucher.service";
+import type { VoucherFormData } from "@/lib/validations/voucher.validation";
+
+/** Journal template each voucher type is created in */
+export function getVoucherTemplateName(voucherType: string): string {
+  switch (voucherType) {
+    case "General Journal":
+      return "GENERAL";
+    case "Cash Payment":
+      return "CASH PAYM";
+    case "Cash Receipt":
+      return "CASH RECE";
+    default:
+      return "GENERAL";
+  }
+}
+
+export function buildVoucherPayload(
+  entry: VoucherFormData,
+  documentNo: string,
+  userID?: string | null,
+): CreateVoucherPayload {
+  // Build base payload with required fields only
+  const payload: Partial<CreateVoucherPayload> = {
+    Journal_Template_Name: getVoucherTemplateName(entry.voucherType),
+    Journal_Batch_Name: "WEB",
+    Posting_Date: entry.postingDate,
+    // Send empty string for Document_Type if it's NA, otherwise send the value or default to 'Payment'
+    Document_Type:
+      entry.documentType === "NA" ? "" : entry.documentType || "Payment",
+    Account_Type: entry.accountType,
+    Account_No: entry.accountNo,
+    Amount: entry.amount,
+    Bal_Account_Type: entry.balanceAccountType,
+    Document_Date: entry.documentDate,
+    Document_No: documentNo,
+  };
+
+  // Add User_ID only if it has a value
+  if (userID && userID.trim() !== "") {
+    payload.User_ID = userID;
+  }
+
+  // Add optional fields only if they have non-empty values
+  if (entry.balanceAccountNo && entry.balanceAccountNo.trim() !== "") {
+    payload.Bal_Account_No = entry.balanceAccountNo;
+  }
+  if (entry.description && entry.description.trim() !== "") {
+    payload.Description = entry.description;
+  }
+  if (entry.externalDocumentNo && entry.externalDocumentNo.trim() !== "") {
+    payload.External_Document_No = entry.externalDocumentNo;
+  }
+  if (entry.lineNarration && entry.lineNarration.trim() !== "") {
+    payload.Line_Narration1 = entry.lineNarration;
+  }
+  if (entry.lob && entry.lob.trim() !== "") {
+    payload.Shortcut_Dimension_1_Code = entry.lob;
+  }
+  if (entry.branch && entry.branch.trim() !== "") {
+    payload.Shortcut_Dimension_2_Code = entry.branch;
+  }
+  if (entry.loc && entry.loc.trim() !== "") {
+    payload.ShortcutDimCode3 = entry.loc;
+  }
+  if (entry.employee && entry.employee.trim() !== "") {
+    payload.ShortcutDimCode4 = entry.employee;
+  }
+  if (entry.assignment && entry.assignment.trim() !== "") {
+    payload.ShortcutDimCode5 = entry.assignment;
+  }
+
+  // Set Party_Type and Party_Code ONLY if Account-related TDS/TCS is present (and not NA)
+  // Party_Type = Account_Type and Party_Code = Account_No when TDS/TCS is applicable
+  if (
+    entry.accountTdsSection &&
+    entry.accountTdsSection.tdsType &&
+    entry.accountTdsSection.tdsType !== "NA"
+  ) {
+    payload.Party_Type = entry.accountType;
+    payload.Party_Code = entry.accountNo;
+    payload.TDS_Section_Code = entry.accountTdsSection.tdsType;
+  } else if (
+    entry.accountTcsSection &&
+    entry.accountTcsSection.tcsType &&
+    entry.accountTcsSection.tcsType !== "NA"
+  ) {
+    payload.Party_Type = entry.accountType;
+    payload.Party_Code = entry.accountNo;
+    payload.TCS_Nature_of_Collection = entry.accountTcsSection.tcsType;
+  }
+
+  // Remove any undefined or empty string values before returning
+  // BUT keep Document_Type even if it's empty string (for NA case)
+  const cleanPayload = Object.fromEntries(
+    Object.entries(payload).filter(([key, value]) => {
+      // Always keep Document_Type even if empty string
+      if (key === "Document_Type") {
+        return value !== undefined && value !== null;
+      }
+      // Keep the value if it's not undefined, null, or empty string
+      return value !== undefined && value !== null && value !== "";
+    }),
+  ) as unknown as CreateVoucherPayload;
+
+  return cleanPayload;
+}
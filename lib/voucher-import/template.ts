@@ -0,0 +1,125 @@
+/**
+ * Voucher import template
+ * The spreadsheet layout for bulk voucher lines: downloading a blank
+ * template and reading a filled one back. Columns are matched by header,
+ * so their order does not matter
+ */
+
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import type { VoucherImportField, VoucherImportRow } from "./types";
+
+export const VOUCHER_IMPORT_MAX_ROWS = 1000;
+
+export const VOUCHER_IMPORT_COLUMNS: Array<{
+  field: VoucherImportField;
+  label: string;
+  required?: boolean;
+  example: string | number;
+}> = [
+  { field: "voucherType", label: "Voucher Type", required: true, example: "General Journal" },
+  { field: "documentType", label: "Document Type", example: "Invoice" },
+  { field: "postingDate", label: "Posting Date", required: true, example: "2026-03-31" },
+  { field: "documentDate", label: "Document Date", example: "2026-03-31" },
+  { field: "accountType", label: "Account Type", required: true, example: "G/L Account" },
+  { field: "accountNo", label: "Account No", required: true, example: "" },
+  { field: "tdsSection", label: "TDS Section", example: "" },
+  { field: "tcsNature", label: "TCS Nature of Collection", example: "" },
+  { field: "externalDocumentNo", label: "External Document No", example: "INV-001" },
+  { field: "description", label: "Description", example: "" },
+  { field: "amount", label: "Amount", required: true, example: 1000 },
+  { field: "balanceAccountType", label: "Bal Account Type", required: true, example: "G/L Account" },
+  { field: "balanceAccountNo", label: "Bal Account No", required: true, example: "" },
+  { field: "lineNarration", label: "Line Narration", example: "" },
+  { field: "lob", label: "LOB", required: true, example: "" },
+  { field: "branch", label: "Branch", required: true, example: "" },
+  { field: "loc", label: "LOC", required: true, example: "" },
+  { field: "employee", label: "Employee", example: "" },
+  { field: "assignment", label: "Assignment", example: "" },
+];
+
+const DATE_FIELDS: VoucherImportField[] = ["postingDate", "documentDate"];
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** dd-MM-yyyy, dd/MM/yyyy and yyyy-MM-dd text, or an Excel date, as yyyy-MM-dd */
+function toDateText(value: unknown): string {
+  if (value instanceof Date) return format(value, "yyyy-MM-dd");
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return String(value);
+    return `${parsed.y}-${String(parsed.m).padStart(2, "0")}-${String(parsed.d).padStart(2, "0")}`;
+  }
+  const text = String(value ?? "").trim();
+  const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dayFirst) {
+    const [, d, m, y] = dayFirst;
+    return `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  }
+  return text;
+}
+
+/**
+ * Download an empty template with one example line
+ */
+export function downloadVoucherImportTemplate(): void {
+  const worksheet = XLSX.utils.aoa_to_sheet([
+    VOUCHER_IMPORT_COLUMNS.map((col) => col.label),
+    VOUCHER_IMPORT_COLUMNS.map((col) => col.example),
+  ]);
+  worksheet["!cols"] = VOUCHER_IMPORT_COLUMNS.map((col) => ({
+    wch: Math.max(col.label.length, 12) + 2,
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Vouchers");
+  XLSX.writeFile(workbook, "Voucher_Import_Template.xlsx");
+}
+
+/**
+ * Read the first sheet of a filled template. Blank lines are skipped;
+ * throws when a required column is missing or the sheet is too long
+ */
+export async function parseVoucherImportFile(file: File): Promise<VoucherImportRow[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The file has no sheets");
+
+  const lines = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "" });
+  const headerIndex = lines.findIndex((line) => line.some((cell) => String(cell).trim() !== ""));
+  if (headerIndex < 0) throw new Error("The sheet is empty");
+
+  const headers = lines[headerIndex].map(normalizeHeader);
+  const columnIndex = new Map(
+    VOUCHER_IMPORT_COLUMNS.map((col) => [col.field, headers.indexOf(normalizeHeader(col.label))]),
+  );
+  const missing = VOUCHER_IMPORT_COLUMNS.filter(
+    (col) => col.required && columnIndex.get(col.field)! < 0,
+  );
+  if (missing.length > 0) {
+    throw new Error(`Missing column(s): ${missing.map((col) => col.label).join(", ")}`);
+  }
+
+  const rows: VoucherImportRow[] = [];
+  lines.slice(headerIndex + 1).forEach((line, offset) => {
+    if (!line.some((cell) => String(cell).trim() !== "")) return;
+    const cells = Object.fromEntries(
+      VOUCHER_IMPORT_COLUMNS.map(({ field }) => {
+        const index = columnIndex.get(field)!;
+        const value = index >= 0 ? line[index] : "";
+        return [field, DATE_FIELDS.includes(field) ? toDateText(value) : String(value ?? "").trim()];
+      }),
+    ) as Record<VoucherImportField, string>;
+    rows.push({ rowNumber: headerIndex + offset + 2, cells });
+  });
+
+  if (rows.length === 0) throw new Error("The sheet has no voucher lines");
+  if (rows.length > VOUCHER_IMPORT_MAX_ROWS) {
+    throw new Error(
+      `The sheet has ${rows.length} lines; import at most ${VOUCHER_IMPORT_MAX_ROWS} at a time`,
+    );
+  }
+  return rows;
+}
@@ -0,0 +1,47 @@
+/**
+ * Voucher Import Types
+ */
+
+import type { VoucherFormData } from "@/lib/validations/voucher.validation";
+
+export type VoucherImportField =
+  | "voucherType"
+  | "documentType"
+  | "postingDate"
+  | "documentDate"
+  | "accountType"
+  | "accountNo"
+  | "tdsSection"
+  | "tcsNature"
+  | "externalDocumentNo"
+  | "description"
+  | "amount"
+  | "balanceAccountType"
+  | "balanceAccountNo"
+  | "lineNarration"
+  | "lob"
+  | "branch"
+  | "loc"
+  | "employee"
+  | "assignment";
+
+/** One spreadsheet line as text, dates already as yyyy-MM-dd */
+export interface VoucherImportRow {
+  /** Row number in the sheet, for messages */
+  rowNumber: number;
+  cells: Record<VoucherImportField, string>;
+}
+
+export interface ValidatedVoucherRow extends VoucherImportRow {
+  /** The voucher line, set only when the row has no errors */
+  data: VoucherFormData | null;
+  errors: string[];
+  /** Things to follow up that do not stop the import */
+  warnings: string[];
+}
+
+export interface VoucherImportResult {
+  rowNumber: number;
+  documentNo?: string;
+  error?: string;
+}
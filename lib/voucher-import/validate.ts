@@ -0,0 +1,272 @@
+/**
+ * Voucher import validation
+ * Checks every imported line the way the voucher form would: the voucher
+ * schema, that both accounts exist and are open, that TDS sections and TCS
+ * natures are ones the party has, that LOB, Branch and LOC form one of the
+ * user's combinations, that Employee and Assignment are given where the
+ * accounts' default dimensions demand them, and the user's posting window.
+ * Lookups are made once per distinct value
+ */
+
+import { getGLAccountByNo } from "@/lib/api/services/account.service";
+import { getCustomerByNo } from "@/lib/api/services/customer.service";
+import { getWebUserSetup, type WebUserSetup } from "@/lib/api/services/dimension.service";
+import { getVendorByNo } from "@/lib/api/services/vendor.service";
+import {
+  getDefaultDimensions,
+  getTCSSection,
+  getTDSSection,
+} from "@/lib/api/services/voucher.service";
+import { getWebUser } from "@/lib/api/services/web-user.service";
+import { getErrorMessage } from "@/lib/errors";
+import { voucherSchema, type VoucherFormData } from "@/lib/validations/voucher.validation";
+import { VOUCHER_IMPORT_COLUMNS } from "./template";
+import type { ValidatedVoucherRow, VoucherImportField, VoucherImportRow } from "./types";
+
+const LOOKUP_CONCURRENCY = 4;
+
+const VOUCHER_TYPES = ["General Journal", "Cash Payment", "Cash Receipt"] as const;
+const DOCUMENT_TYPES = ["Payment", "Invoice", "Credit Memo", "Refund", "NA"] as const;
+const ACCOUNT_TYPES = ["G/L Account", "Customer", "Vendor"] as const;
+
+/** Schema paths reported under the spreadsheet column they came from */
+const SCHEMA_PATH_FIELDS: Record<string, VoucherImportField> = {
+  accountTdsSection: "tdsSection",
+  accountTcsSection: "tcsNature",
+};
+
+const COLUMN_LABELS = Object.fromEntries(
+  VOUCHER_IMPORT_COLUMNS.map(({ field, label }) => [field, label]),
+) as Record<VoucherImportField, string>;
+
+interface PartyLookup {
+  found: boolean;
+  assesseeCode?: string;
+  error?: string;
+}
+
+/** Case-insensitive match against the allowed values; unknown text is kept for the schema to reject */
+function matchOption<T extends string>(value: string, options: readonly T[]): T | undefined {
+  if (!value) return undefined;
+  return options.find((option) => option.toLowerCase() === value.toLowerCase()) ?? (value as T);
+}
+
+function partyKey(type: string, no: string): string {
+  return `${type}|${no}`;
+}
+
+/** Run the lookup for every key, a few at a time */
+async function lookupAll<T>(
+  keys: string[],
+  lookup: (key: string) => Promise<T>,
+): Promise<Map<string, T>> {
+  const results = new Map<string, T>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < keys.length) {
+      const key = keys[next++];
+      results.set(key, await lookup(key));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, keys.length) }, worker));
+  return results;
+}
+
+async function lookupParty(key: string): Promise<PartyLookup> {
+  const [type, no] = key.split("|");
+  try {
+    if (type === "Vendor") {
+      const vendor = await getVendorByNo(no);
+      return { found: !!vendor, assesseeCode: vendor?.Assessee_Code };
+    }
+    if (type === "Customer") {
+      const customer = await getCustomerByNo(no);
+      return { found: !!customer, assesseeCode: customer?.Assessee_Code };
+    }
+    return { found: !!(await getGLAccountByNo(no)) };
+  } catch (error) {
+    return { found: false, error: getErrorMessage(error, "lookup failed") };
+  }
+}
+
+/** The voucher line a row describes, as the voucher form would submit it */
+export function toVoucherData(cells: Record<VoucherImportField, string>): Partial<VoucherFormData> {
+  const amount = Number(cells.amount.replace(/,/g, ""));
+  const data: Partial<VoucherFormData> = {
+    voucherType: matchOption(cells.voucherType, VOUCHER_TYPES),
+    documentType: matchOption(cells.documentType, DOCUMENT_TYPES) ?? "NA",
+    postingDate: cells.postingDate,
+    documentDate: cells.documentDate || cells.postingDate,
+    accountType: matchOption(cells.accountType, ACCOUNT_TYPES),
+    accountNo: cells.accountNo,
+    externalDocumentNo: cells.externalDocumentNo,
+    description: cells.description,
+    balanceAccountType: matchOption(cells.balanceAccountType, ACCOUNT_TYPES),
+    balanceAccountNo: cells.balanceAccountNo,
+    lineNarration: cells.lineNarration,
+    lob: cells.lob,
+    branch: cells.branch,
+    loc: cells.loc,
+    employee: cells.employee,
+    assignment: cells.assignment,
+  };
+  if (cells.amount && !isNaN(amount)) data.amount = amount;
+  if (cells.tdsSection && cells.tdsSection !== "NA") {
+    data.accountTdsSection = { tdsType: cells.tdsSection };
+  }
+  if (cells.tcsNature && cells.tcsNature !== "NA") {
+    data.accountTcsSection = { tcsType: cells.tcsNature };
+  }
+  return data;
+}
+
+function getSchemaErrors(data: Partial<VoucherFormData>): string[] {
+  const result = voucherSchema.safeParse(data);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => {
+    const path = String(issue.path[0] ?? "");
+    const field = SCHEMA_PATH_FIELDS[path] ?? (path as VoucherImportField);
+    const label = COLUMN_LABELS[field];
+    return label ? `${label}: ${issue.message}` : issue.message;
+  });
+}
+
+function getDimensionErrors(cells: Record<VoucherImportField, string>, setup: WebUserSetup[]): string[] {
+  const { lob, branch, loc } = cells;
+  if (!lob || !branch || !loc) return [];
+  if (!setup.some((item) => item.LOB === lob)) {
+    return [`LOB ${lob} is not assigned to you`];
+  }
+  if (!setup.some((item) => item.LOB === lob && item.Branch_Code === branch)) {
+    return [`Branch ${branch} is not under LOB ${lob} for you`];
+  }
+  if (!setup.some((item) => item.LOB === lob && item.Branch_Code === branch && item.LOC_Code === loc)) {
+    return [`LOC ${loc} is not under ${lob} / ${branch} for you`];
+  }
+  return [];
+}
+
+/** A posting window bound, or undefined when the ERP leaves it open */
+function getPostingBound(value: string | undefined): string | undefined {
+  const date = value?.split("T")[0];
+  return date && !date.startsWith("0001") ? date : undefined;
+}
+
+/**
+ * Validate the imported rows against the schema and the ERP's master data
+ */
+export async function validateVoucherImportRows(
+  rows: VoucherImportRow[],
+  userId: string,
+): Promise<ValidatedVoucherRow[]> {
+  const partyKeys = new Set<string>();
+  const tdsVendors = new Set<string>();
+  const tcsCustomers = new Set<string>();
+  const dimensionAccounts = new Set<string>();
+
+  for (const { cells } of rows) {
+    const accountType = matchOption(cells.accountType, ACCOUNT_TYPES);
+    const balanceType = matchOption(cells.balanceAccountType, ACCOUNT_TYPES);
+    if (accountType && cells.accountNo) partyKeys.add(partyKey(accountType, cells.accountNo));
+    if (balanceType && cells.balanceAccountNo) {
+      partyKeys.add(partyKey(balanceType, cells.balanceAccountNo));
+    }
+    if (accountType === "Vendor" && cells.tdsSection) tdsVendors.add(cells.accountNo);
+    if (accountType === "Customer" && cells.tcsNature) tcsCustomers.add(cells.accountNo);
+    if (cells.accountNo) dimensionAccounts.add(cells.accountNo);
+    if (cells.balanceAccountNo) dimensionAccounts.add(cells.balanceAccountNo);
+  }
+
+  const [setup, profile, parties, tdsSections, tcsSections, defaultDimensions] = await Promise.all([
+    getWebUserSetup(userId),
+    getWebUser(userId),
+    lookupAll(Array.from(partyKeys), lookupParty),
+    lookupAll(Array.from(tdsVendors), async (vendorNo) =>
+      new Set((await getTDSSection(vendorNo)).map((section) => section.TDS_Section)),
+    ),
+    lookupAll(Array.from(tcsCustomers), async (customerNo) =>
+      new Set((await getTCSSection(customerNo)).map((section) => section.TCS_Nature_of_Collection)),
+    ),
+    lookupAll(Array.from(dimensionAccounts), async (accountNo) =>
+      new Set((await getDefaultDimensions(accountNo)).map((dimension) => dimension.Dimension_Code)),
+    ),
+  ]);
+  const postingFrom = getPostingBound(profile?.Allow_Posting_From);
+  const postingTo = getPostingBound(profile?.Allow_Posting_To);
+
+  return rows.map((row) => {
+    const { cells } = row;
+    const data = toVoucherData(cells);
+    const errors = getSchemaErrors(data);
+    const warnings: string[] = [];
+
+    const checkParty = (type: string | undefined, no: string, label: string) => {
+      if (!type || !no) return undefined;
+      const party = parties.get(partyKey(type, no));
+      if (party?.error) errors.push(`${label}: could not check ${no} (${party.error})`);
+      else if (!party?.found) errors.push(`${label}: ${type} ${no} does not exist or is blocked`);
+      return party;
+    };
+    const account = checkParty(data.accountType, cells.accountNo, COLUMN_LABELS.accountNo);
+    const balance = checkParty(
+      data.balanceAccountType,
+      cells.balanceAccountNo,
+      COLUMN_LABELS.balanceAccountNo,
+    );
+
+    if (data.accountTdsSection) {
+      const tdsType = data.accountTdsSection.tdsType;
+      if (data.accountType !== "Vendor") {
+        errors.push("TDS Section: only applies when the account is a vendor");
+      } else if (data.balanceAccountType === "Customer" && balance?.found && !balance.assesseeCode?.trim()) {
+        errors.push("TDS Section: does not apply, the balancing customer has no assessee code");
+      } else if (!tdsSections.get(cells.accountNo)?.has(tdsType)) {
+        errors.push(`TDS Section: ${tdsType} is not set up for vendor ${cells.accountNo}`);
+      }
+    }
+    if (data.accountTcsSection) {
+      const tcsType = data.accountTcsSection.tcsType;
+      if (data.accountType !== "Customer") {
+        errors.push("TCS Nature of Collection: only applies when the account is a customer");
+      } else if (account?.found && !account.assesseeCode?.trim()) {
+        errors.push("TCS Nature of Collection: does not apply, the customer has no assessee code");
+      } else if (!tcsSections.get(cells.accountNo)?.has(tcsType)) {
+        errors.push(`TCS Nature of Collection: ${tcsType} is not set up for customer ${cells.accountNo}`);
+      }
+    }
+
+    errors.push(...getDimensionErrors(cells, setup));
+    const requiredDimensions = new Set(
+      [cells.accountNo, cells.balanceAccountNo].flatMap((no) =>
+        Array.from(defaultDimensions.get(no) ?? []),
+      ),
+    );
+    if (requiredDimensions.has("EMPLOYEE") && !cells.employee) {
+      errors.push("Employee: required for these accounts");
+    }
+    if (requiredDimensions.has("ASSIGNMENT") && !cells.assignment) {
+      errors.push("Assignment: required for these accounts");
+    }
+
+    if (data.postingDate) {
+      if (postingFrom && data.postingDate < postingFrom) {
+        errors.push(`Posting Date: you may post from ${postingFrom} only`);
+      } else if (postingTo && data.postingDate > postingTo) {
+        errors.push(`Posting Date: you may post up to ${postingTo} only`);
+      }
+    }
+
+    if (data.voucherType === "Cash Payment") {
+      warnings.push("Attach the supporting document from the voucher list before posting");
+    }
+
+    return {
+      ...row,
+      data: errors.length === 0 ? (data as VoucherFormData) : null,
+      errors,
+      warnings,
+    };
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Weighbridge Adapters
+ * - serial: indicator on a COM / USB-serial port, read through WebSerial
+ *   (Chromium browsers, secure context)
+ * - http: local bridge service polling the indicator, answering GET requests
+ * - simulator: settles on a configured load, for testing without hardware;
+ *   development builds only (WEIGHBRIDGE_SIMULATOR_ENABLED)
+ */
+
+import { WEIGHBRIDGE_SIMULATOR_ENABLED } from "./config";
+import { parseBridgeResponse, parseIndicatorLine } from "./parse";
+import type {
+  WeighbridgeAdapter,
+  WeighbridgeConfig,
+  WeighbridgeReading,
+} from "./types";
+
+/** Readings older than this mean the indicator stopped sending */
+export const READING_STALE_MS = 5000;
+
+const BRIDGE_TIMEOUT_MS = 3000;
+
+/** The parts of the WebSerial API used here (not yet in the DOM typings) */
+interface SerialPortLike {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  readable: ReadableStream<Uint8Array> | null;
+}
+
+interface SerialLike {
+  requestPort(): Promise<SerialPortLike>;
+}
+
+function getSerial(): SerialLike | null {
+  if (typeof navigator === "undefined") return null;
+  return (navigator as Navigator & { serial?: SerialLike }).serial ?? null;
+}
+
+export function isWebSerialSupported(): boolean {
+  return getSerial() !== null;
+}
+
+function createSerialAdapter(baudRate: number): WeighbridgeAdapter {
+  let port: SerialPortLike | null = null;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let latest: WeighbridgeReading | null = null;
+
+  const readLoop = async () => {
+    if (!reader) return;
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const reading = parseIndicatorLine(line);
+          if (reading) latest = reading;
+        }
+      }
+    } catch (error) {
+      console.error("Weighbridge serial read failed:", error);
+    } finally {
+      reader?.releaseLock();
+    }
+  };
+
+  return {
+    kind: "serial",
+    async connect() {
+      const serial = getSerial();
+      if (!serial) {
+        throw new Error("This browser cannot open serial ports; use Chrome or Edge, or the local bridge");
+      }
+      port = await serial.requestPort();
+      await port.open({ baudRate });
+      if (!port.readable) throw new Error("Serial port is not readable");
+      reader = port.readable.getReader();
+      void readLoop();
+    },
+    async read() {
+      if (!latest) throw new Error("No reading from the weighbridge yet");
+      if (Date.now() - latest.readAt > READING_STALE_MS) {
+        throw new Error("Weighbridge stopped sending readings");
+      }
+      return latest;
+    },
+    async disconnect() {
+      try {
+        await reader?.cancel();
+        await port?.close();
+      } finally {
+        reader = null;
+        port = null;
+        latest = null;
+      }
+    },
+  };
+}
+
+function createHttpAdapter(bridgeUrl: string): WeighbridgeAdapter {
+  const fetchReading = async (): Promise<WeighbridgeReading> => {
+    const response = await fetch(bridgeUrl, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(BRIDGE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Weighbridge bridge failed: ${response.statusText}`);
+    }
+    const reading = parseBridgeResponse(await response.text());
+    if (!reading) throw new Error("Weighbridge bridge sent no weight");
+    return reading;
+  };
+
+  return {
+    kind: "http",
+    async connect() {
+      await fetchReading();
+    },
+    read: fetchReading,
+    async disconnect() {},
+  };
+}
+
+function createSimulatorAdapter(targetWeight: number): WeighbridgeAdapter {
+  let current = 0;
+
+  return {
+    kind: "simulator",
+    async connect() {
+      current = 0;
+    },
+    async read() {
+      // Close half the gap each read, with indicator jitter until settled
+      current += (targetWeight - current) / 2;
+      const settled = Math.abs(targetWeight - current) < 10;
+      const jitter = settled ? 0 : (Math.random() - 0.5) * 40;
+      return {
+        weight: Math.round((settled ? targetWeight : current + jitter) / 10) * 10,
+        stable: settled,
+        readAt: Date.now(),
+      };
+    },
+    async disconnect() {
+      current = 0;
+    },
+  };
+}
+
+export function createWeighbridgeAdapter(
+  config: WeighbridgeConfig,
+): WeighbridgeAdapter {
+  switch (config.kind) {
+    case "http":
+      return createHttpAdapter(config.bridgeUrl);
+    case "simulator":
+      if (!WEIGHBRIDGE_SIMULATOR_ENABLED) {
+        throw new Error("The weighbridge simulator is not available in this build");
+      }
+      return createSimulatorAdapter(config.simulatorWeight);
+    default:
+      return createSerialAdapter(config.baudRate);
+  }
+}
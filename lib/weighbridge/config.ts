@@ -0,0 +1,66 @@
+/**
+ * Weighbridge Config Storage
+ * The indicator is wired to one workstation, so settings stay in that
+ * browser's local storage rather than with the user
+ */
+
+import type { WeighbridgeAdapterKind, WeighbridgeConfig } from "./types";
+
+const STORAGE_KEY = "weighbridge_v1";
+
+/**
+ * The simulator settles on a load typed into its settings, so it is only
+ * offered by development builds that set NEXT_PUBLIC_WEIGHBRIDGE_SIMULATOR=true;
+ * /api/weighments refuses its captures everywhere else
+ */
+export const WEIGHBRIDGE_SIMULATOR_ENABLED =
+  process.env.NODE_ENV !== "production" &&
+  process.env.NEXT_PUBLIC_WEIGHBRIDGE_SIMULATOR === "true";
+
+/** Adapters a workstation may choose from */
+export const WEIGHBRIDGE_ADAPTER_KINDS: WeighbridgeAdapterKind[] = WEIGHBRIDGE_SIMULATOR_ENABLED
+  ? ["serial", "http", "simulator"]
+  : ["serial", "http"];
+
+export const DEFAULT_WEIGHBRIDGE_CONFIG: WeighbridgeConfig = {
+  kind: "serial",
+  baudRate: 9600,
+  bridgeUrl: "http://localhost:8765/weight",
+  simulatorWeight: 25000,
+};
+
+export function loadWeighbridgeConfig(): WeighbridgeConfig {
+  if (typeof window === "undefined") {
+    return DEFAULT_WEIGHBRIDGE_CONFIG;
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_WEIGHBRIDGE_CONFIG;
+    }
+    const config = {
+      ...DEFAULT_WEIGHBRIDGE_CONFIG,
+      ...(JSON.parse(stored) as Partial<WeighbridgeConfig>),
+    };
+    // A workstation left on the simulator falls back to the scale
+    return WEIGHBRIDGE_ADAPTER_KINDS.includes(config.kind)
+      ? config
+      : { ...config, kind: DEFAULT_WEIGHBRIDGE_CONFIG.kind };
+  } catch (error) {
+    console.error("Error loading weighbridge config:", error);
+    return DEFAULT_WEIGHBRIDGE_CONFIG;
+  }
+}
+
+export function saveWeighbridgeConfig(config: WeighbridgeConfig): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error("Error saving weighbridge config:", error);
+  }
+}
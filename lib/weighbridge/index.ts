@@ -0,0 +1,10 @@
+/**
+ * Weighbridge exports
+ */
+
+export * from "./types";
+export * from "./weighments";
+export * from "./parse";
+export * from "./config";
+export * from "./adapters";
+export * from "./use-weighments";
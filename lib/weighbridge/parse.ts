@@ -0,0 +1,46 @@
+/**
+ * Indicator Output Parsing
+ * Indicators stream one line per reading, e.g. "ST,GS,+0012340kg",
+ * "US,GS,+0012350kg" or a bare "  12340". "US" / "M" mark a moving load.
+ * The local bridge answers JSON: { "weight": 12340, "stable": true }
+ */
+
+import type { WeighbridgeReading } from "./types";
+
+const NUMBER = /([+-]?\s*\d+(?:\.\d+)?)\s*(kg|t)?\s*$/i;
+const UNSTABLE = /(^|[,\s])(US|M|MO|MOTION|UNSTABLE)([,\s]|$)/i;
+
+/**
+ * Reading from one indicator line, or null when the line holds no weight
+ */
+export function parseIndicatorLine(
+  line: string,
+  readAt = Date.now(),
+): WeighbridgeReading | null {
+  const text = line.replace(/[\x00-\x1f]/g, " ").trim();
+  const match = text.match(NUMBER);
+  if (!match) return null;
+
+  let weight = parseFloat(match[1].replace(/\s/g, ""));
+  if (isNaN(weight)) return null;
+  if (match[2]?.toLowerCase() === "t") weight *= 1000;
+
+  return { weight, stable: !UNSTABLE.test(text), readAt };
+}
+
+/**
+ * Reading from a bridge response body (JSON or a raw indicator line)
+ */
+export function parseBridgeResponse(
+  body: string,
+  readAt = Date.now(),
+): WeighbridgeReading | null {
+  try {
+    const data = JSON.parse(body) as { weight?: unknown; stable?: unknown };
+    const weight = Number(data.weight);
+    if (data.weight === undefined || isNaN(weight)) return null;
+    return { weight, stable: data.stable !== false, readAt };
+  } catch {
+    return parseIndicatorLine(body, readAt);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Server-side gate entry weights
+ * Writes captured weighments to the ERP gate entry header and keeps the
+ * /api/erp proxy from overwriting captured weights that are still locked
+ * Never import this file from client components
+ */
+
+import { ERP_COMPANY, erpFetch } from "@/lib/api/server";
+import { getErpOperations } from "@/lib/auth/erp-access";
+import { getWeighmentRecord } from "./server-store";
+import type { GateEntryDirection, WeighmentStage, WeightField } from "./types";
+import { WEIGHMENT_FIELDS, isWeighmentReleased } from "./weighments";
+
+/** Gate entry header entity set per direction */
+const HEADER_ENTITIES: Record<GateEntryDirection, string> = {
+  Inward: "InwardGateEntry",
+  Outward: "OutwardgateentryH",
+};
+
+/** Header key in an ERP path, e.g. "InwardGateEntry(Entry_Type='Inward',No='GI-0001')" */
+const HEADER_KEY =
+  /(InwardGateEntry|OutwardgateentryH)\(Entry_Type='(Inward|Outward)',No='((?:[^']|'')*)'\)/;
+
+/** Payload keys of the weight fields, as sent or camel-cased by the client */
+const WEIGHT_KEYS: Record<WeightField, RegExp> = {
+  Gross_Weight: /^gross_?weight$/i,
+  Tier_Weight: /^tier_?weight$/i,
+};
+
+const WRITE_METHODS = ["PATCH", "PUT", "MERGE"];
+
+function headerEndpoint(direction: GateEntryDirection, entryNo: string): string {
+  const encodedCompany = encodeURIComponent(ERP_COMPANY);
+  return `/Company('${encodedCompany}')/${HEADER_ENTITIES[direction]}(Entry_Type='${direction}',No='${entryNo.replace(/'/g, "''")}')`;
+}
+
+async function readErpError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = (await response.json()) as { error?: { message?: string } };
+    return data.error?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write a captured weight to the gate entry header
+ * The header is re-read for its etag so a concurrent edit fails instead of
+ * being overwritten
+ */
+export async function writeHeaderWeight(
+  direction: GateEntryDirection,
+  entryNo: string,
+  field: WeightField,
+  weight: number,
+): Promise<void> {
+  const endpoint = headerEndpoint(direction, entryNo);
+
+  const current = await erpFetch(endpoint);
+  if (!current.ok) {
+    throw new Error(await readErpError(current, `Gate entry ${entryNo} not found`));
+  }
+  const header = (await current.json()) as { "@odata.etag"?: string };
+
+  const response = await erpFetch(endpoint, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      "If-Match": header["@odata.etag"] || "*",
+    },
+    // Keys are camel-cased the way apiRequest sends them
+    body: JSON.stringify({ [field.charAt(0).toLowerCase() + field.slice(1)]: weight }),
+  });
+  if (!response.ok) {
+    throw new Error(await readErpError(response, "Failed to update the gate entry weight"));
+  }
+}
+
+function decodePath(erpPath: string): string {
+  try {
+    return decodeURIComponent(erpPath);
+  } catch {
+    return erpPath;
+  }
+}
+
+async function checkHeaderWrite(
+  method: string,
+  erpPath: string,
+  body: unknown,
+): Promise<string | null> {
+  if (!WRITE_METHODS.includes(method.toUpperCase())) return null;
+  if (!body || typeof body !== "object" || Array.isArray(body)) return null;
+
+  const match = HEADER_KEY.exec(decodePath(erpPath));
+  if (!match) return null;
+
+  const written = Object.entries(body);
+  const touchesWeights = written.some(([key]) =>
+    Object.values(WEIGHT_KEYS).some((pattern) => pattern.test(key)),
+  );
+  if (!touchesWeights) return null;
+
+  const direction = match[2] as GateEntryDirection;
+  const entryNo = match[3].replace(/''/g, "'");
+  const record = await getWeighmentRecord(direction, entryNo);
+  if (!record) return null;
+
+  for (const stage of ["first", "second"] as WeighmentStage[]) {
+    const weighment = record[stage];
+    if (!weighment || isWeighmentReleased(record, stage)) continue;
+    const field = WEIGHMENT_FIELDS[direction][stage];
+    const value = written.find(([key]) => WEIGHT_KEYS[field].test(key))?.[1];
+    if (value !== undefined && Number(value) !== weighment.weight) {
+      return `${field.replace("_", " ")} was captured from the weighbridge; a supervisor override is required to change it`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a proxied ERP call against the captured weighments
+ * $batch calls are checked operation by operation
+ * @returns the reason the call is refused, or null when it is allowed
+ */
+export async function getWeighmentLockViolation(
+  method: string,
+  erpPath: string,
+  body: unknown,
+): Promise<string | null> {
+  for (const operation of getErpOperations(method, erpPath, body) ?? []) {
+    const reason = await checkHeaderWrite(operation.method, operation.erpPath, operation.body);
+    if (reason) return reason;
+  }
+  return null;
+}
@@ -0,0 +1,35 @@
+/**
+ * Server-side store for weighments
+ * Keeps capture timestamps and supervisor overrides in the shared store
+ * (see lib/api/shared-store), one value per gate entry
+ * Never import this file from client components
+ */
+
+import { readSharedValue, updateSharedValue } from "@/lib/api/shared-store";
+import type { GateEntryDirection, WeighmentRecord } from "./types";
+
+function recordKey(direction: GateEntryDirection, entryNo: string): string {
+  return `weighments:${direction}:${entryNo}`;
+}
+
+export async function getWeighmentRecord(
+  direction: GateEntryDirection,
+  entryNo: string,
+): Promise<WeighmentRecord | null> {
+  return readSharedValue<WeighmentRecord>(recordKey(direction, entryNo));
+}
+
+/**
+ * Apply `update` to the entry's record (an empty one when none exists)
+ * `update` may run more than once when another instance writes concurrently,
+ * and returns null to leave the store untouched
+ */
+export function updateWeighmentRecord(
+  direction: GateEntryDirection,
+  entryNo: string,
+  update: (record: WeighmentRecord) => WeighmentRecord | null,
+): Promise<WeighmentRecord | null> {
+  return updateSharedValue<WeighmentRecord>(recordKey(direction, entryNo), (current) =>
+    update(current ?? { direction, entryNo, overrides: [] }),
+  );
+}
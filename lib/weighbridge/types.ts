@@ -0,0 +1,75 @@
+/**
+ * Weighbridge Types
+ * Weighments are captured from the weighbridge indicator and recorded by the
+ * app; the ERP gate entry only carries the resulting gross, tare and net
+ */
+
+/** Gate entry direction; `Entry_Type` on the ERP header */
+export type GateEntryDirection = "Inward" | "Outward";
+
+/** First weighment on arrival, second on departure */
+export type WeighmentStage = "first" | "second";
+
+/** Header fields a weighment fills */
+export type WeightField = "Gross_Weight" | "Tier_Weight";
+
+export type WeighbridgeAdapterKind = "serial" | "http" | "simulator";
+
+/** One reading from the indicator, in kg */
+export interface WeighbridgeReading {
+  weight: number;
+  /** Indicator reports the load as settled */
+  stable: boolean;
+  readAt: number;
+}
+
+/**
+ * Connection to a weighbridge indicator
+ * `connect` may prompt the user (WebSerial port picker), so call it from a click
+ */
+export interface WeighbridgeAdapter {
+  kind: WeighbridgeAdapterKind;
+  connect(): Promise<void>;
+  /** Latest reading; rejects when no reading has been received yet */
+  read(): Promise<WeighbridgeReading>;
+  disconnect(): Promise<void>;
+}
+
+/** Per-workstation adapter settings */
+export interface WeighbridgeConfig {
+  kind: WeighbridgeAdapterKind;
+  /** Serial line speed of the indicator */
+  baudRate: number;
+  /** Local bridge endpoint returning the current reading */
+  bridgeUrl: string;
+  /** Load the simulator settles on, in kg */
+  simulatorWeight: number;
+}
+
+export interface Weighment {
+  weight: number;
+  capturedAt: number;
+  capturedBy: string;
+  source: WeighbridgeAdapterKind;
+}
+
+/** Supervisor release of captured weights for manual editing */
+export interface WeighmentOverride {
+  reason: string;
+  overriddenBy: string;
+  overriddenAt: number;
+}
+
+export interface WeighmentRecord {
+  direction: GateEntryDirection;
+  entryNo: string;
+  first?: Weighment;
+  second?: Weighment;
+  overrides: WeighmentOverride[];
+}
+
+export interface CaptureWeighmentInput {
+  stage: WeighmentStage;
+  weight: number;
+  source: WeighbridgeAdapterKind;
+}
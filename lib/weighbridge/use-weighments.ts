@@ -0,0 +1,80 @@
+/**
+ * Weighments hook
+ * Loads a gate entry's captured weighments and records new captures and
+ * supervisor overrides. The server writes captured weights to the ERP header
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  captureWeighment,
+  getWeighments,
+  overrideWeighments,
+} from "@/lib/api/services/weighment.service";
+import type {
+  CaptureWeighmentInput,
+  GateEntryDirection,
+  WeighmentRecord,
+} from "./types";
+
+interface LoadedRecord {
+  entryNo: string;
+  record: WeighmentRecord | null;
+}
+
+export function useWeighments(
+  direction: GateEntryDirection,
+  entryNo: string | undefined,
+) {
+  const [loaded, setLoaded] = useState<LoadedRecord | null>(null);
+
+  useEffect(() => {
+    if (!entryNo) return;
+    let cancelled = false;
+
+    getWeighments(direction, entryNo)
+      .then((record) => {
+        if (!cancelled) setLoaded({ entryNo, record });
+      })
+      .catch((error) => {
+        console.error("Error loading weighments:", error);
+        if (!cancelled) setLoaded({ entryNo, record: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [direction, entryNo]);
+
+  const capture = useCallback(
+    async (input: CaptureWeighmentInput) => {
+      if (!entryNo) throw new Error("Please save the entry first");
+      const record = await captureWeighment(direction, entryNo, input);
+      setLoaded({ entryNo, record });
+      return record;
+    },
+    [direction, entryNo],
+  );
+
+  const override = useCallback(
+    async (reason: string) => {
+      if (!entryNo) throw new Error("Please save the entry first");
+      const record = await overrideWeighments(direction, entryNo, reason);
+      setLoaded({ entryNo, record });
+      return record;
+    },
+    [direction, entryNo],
+  );
+
+  const isCurrent = !!entryNo && loaded?.entryNo === entryNo;
+
+  return {
+    record: isCurrent ? loaded.record : null,
+    isLoading: !!entryNo && !isCurrent,
+    capture,
+    override,
+  };
+}
+
+export type UseWeighmentsResult = ReturnType<typeof useWeighments>;
@@ -0,0 +1,105 @@
+/**
+ * Weighment Rules
+ * Inward vehicles arrive loaded: the first weighment is gross, the second tare.
+ * Outward vehicles arrive empty: the first weighment is tare, the second gross
+ */
+
+import type {
+  GateEntryDirection,
+  WeighbridgeAdapterKind,
+  WeighmentRecord,
+  WeighmentStage,
+  WeightField,
+} from "./types";
+
+export const WEIGHMENT_FIELDS: Record<
+  GateEntryDirection,
+  Record<WeighmentStage, WeightField>
+> = {
+  Inward: { first: "Gross_Weight", second: "Tier_Weight" },
+  Outward: { first: "Tier_Weight", second: "Gross_Weight" },
+};
+
+export const WEIGHMENT_STAGE_LABELS: Record<WeighmentStage, string> = {
+  first: "First Weighment",
+  second: "Second Weighment",
+};
+
+/** Gross less tare, never negative */
+export function computeNetWeight(gross: number, tare: number): number {
+  return Math.max(0, (gross || 0) - (tare || 0));
+}
+
+/**
+ * Why a weighment cannot be captured, or null when it can
+ */
+export function validateWeighment(
+  direction: GateEntryDirection,
+  stage: WeighmentStage,
+  weight: number,
+  record: WeighmentRecord | null,
+): string | null {
+  if (!(weight > 0)) {
+    return "Weighbridge reads zero - is the vehicle on the platform?";
+  }
+  if (stage === "second") {
+    const first = record?.first?.weight;
+    if (first === undefined) {
+      return "Capture the first weighment before the second";
+    }
+    if (direction === "Inward" && weight >= first) {
+      return `Tare (${weight} kg) must be lighter than the gross weight (${first} kg)`;
+    }
+    if (direction === "Outward" && weight <= first) {
+      return `Gross (${weight} kg) must be heavier than the tare weight (${first} kg)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a capture may come from the source
+ * Simulated weights are typed in by hand, so they count only where the
+ * simulator is enabled
+ */
+export function isWeighmentSource(
+  value: unknown,
+  simulatorEnabled: boolean,
+): value is WeighbridgeAdapterKind {
+  return value === "serial" || value === "http" || (value === "simulator" && simulatorEnabled);
+}
+
+/**
+ * A captured weighment is released for manual editing or recapture by a
+ * supervisor override made after it was captured
+ */
+export function isWeighmentReleased(
+  record: WeighmentRecord | null,
+  stage: WeighmentStage,
+): boolean {
+  const weighment = record?.[stage];
+  const lastOverride = record?.overrides[record.overrides.length - 1];
+  return !!weighment && !!lastOverride && lastOverride.overriddenAt > weighment.capturedAt;
+}
+
+/**
+ * Header weight fields that hold captured values and may not be typed over
+ * The /api/erp proxy refuses writes to them with the same rule
+ */
+export function getLockedWeightFields(
+  direction: GateEntryDirection,
+  record: WeighmentRecord | null,
+): Record<WeightField, boolean> {
+  const locked: Record<WeightField, boolean> = {
+    Gross_Weight: false,
+    Tier_Weight: false,
+  };
+  if (!record) return locked;
+  const fields = WEIGHMENT_FIELDS[direction];
+  for (const stage of ["first", "second"] as const) {
+    if (record[stage] && !isWeighmentReleased(record, stage)) {
+      locked[fields[stage]] = true;
+    }
+  }
+  return locked;
+}
@@ -18,5 +18,10 @@ export default defineConfig({
       name: "chromium",
       use: { ...devices["Desktop Chrome"] },
     },
+    // Pure logic under lib/, run in Node without a browser or server
+    {
+      name: "unit",
+      testDir: "./tests/unit",
+    },
   ],
 });
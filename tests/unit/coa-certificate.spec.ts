@@ -0,0 +1,44 @@
+import { test, expect } from "@playwright/test";
+import type { QCReceiptHeader } from "@/lib/api/services/qc-receipt.service";
+import { getCertificateQRText } from "@/lib/coa/certificate";
+import { fixture } from "./fixtures";
+
+const receipt = fixture<QCReceiptHeader>({
+  No: "PQC-0001",
+  Item_No: "RM001",
+  Item_Name: "Maize",
+  Unit_of_Measure: "KG",
+  Item_Tracking: "L24-07",
+  Vendor_Lot_No: "",
+  QC_Date: "2025-06-15",
+  Approved_By: "QCMGR",
+  Rabete_Percent: 2,
+  Total_Accepted_Quantity: 9000,
+  Total_Under_Deviation_Acc_Qty: 1000,
+  Total_Rejected_Quantity: 0,
+} as QCReceiptHeader);
+
+test.describe("Certificate of analysis QR code", () => {
+  test("carries the certificate's particulars instead of a link", () => {
+    expect(getCertificateQRText("Sampoorna Feeds Pvt. Ltd", receipt()).split("\n")).toEqual([
+      "Certificate of Analysis",
+      "Sampoorna Feeds Pvt. Ltd",
+      "Certificate No: PQC-0001",
+      "Item: RM001 – Maize",
+      "Lot No: L24-07",
+      "QC Date: 15/06/2025",
+      "Accepted: 9,000 KG",
+      "Accepted with deviation: 1,000 KG (rebate 2%)",
+      "Rejected: 0 KG",
+      "Approved By: QCMGR",
+    ]);
+  });
+
+  test("leaves out particulars the receipt does not have", () => {
+    const text = getCertificateQRText(
+      "Sampoorna Feeds Pvt. Ltd",
+      receipt({ Item_Tracking: "", Approved_By: "", Total_Under_Deviation_Acc_Qty: 0 }),
+    );
+    expect(text).not.toMatch(/Lot No|Approved By|deviation/);
+  });
+});
@@ -0,0 +1,176 @@
+import { test, expect } from "@playwright/test";
+import {
+  authorizeErpRequest,
+  getErpOperations,
+  getErpPermission,
+  getErpResourceName,
+} from "@/lib/auth/erp-access";
+import { ROLE_PERMISSIONS, type SessionUser } from "@/lib/auth/permissions";
+import { fixture } from "./fixtures";
+
+const user = fixture<SessionUser>({
+  userID: "ACCT01",
+  fullName: "Accounts",
+  role: "accountant",
+  permissions: {
+    ...ROLE_PERMISSIONS.accountant,
+    sales: "none",
+    purchase: "view",
+    qc: "edit",
+    voucher: "full",
+  },
+  locationCode: "PUNE",
+  postingWindow: { from: "2025-06-01", to: "2025-06-30" },
+});
+
+const COMPANY = "?company='Sampoorna%20Feeds'";
+
+test.describe("ERP request authorization", () => {
+  test("reads entity and action names from plain and company-scoped paths", () => {
+    expect(
+      getErpResourceName(`/SalesLine(Document_No='SO-1',Line_No=1)${COMPANY}`),
+    ).toBe("SalesLine");
+    expect(
+      getErpResourceName("/Company('Sampoorna%20Feeds')/InwardGateEntry"),
+    ).toBe("InwardGateEntry");
+    expect(getErpResourceName(`/API_PostSales${COMPANY}`)).toBe(
+      "API_PostSales",
+    );
+  });
+
+  test("needs view to read, edit to write and full to delete or post", () => {
+    expect(getErpPermission("GET", "/PurchaseOrder")).toEqual({
+      modules: ["purchase"],
+      action: "view",
+    });
+    expect(getErpPermission("PATCH", "/qcReceiptH('QC-1')")).toMatchObject({
+      action: "edit",
+    });
+    expect(getErpPermission("DELETE", "/GJ(1)")).toMatchObject({
+      action: "delete",
+    });
+    expect(getErpPermission("POST", "/API_PostVouchers")).toEqual({
+      modules: ["voucher"],
+      action: "post",
+    });
+  });
+
+  test("applies each access level of the user's modules", () => {
+    const reason = (method: string, path: string) =>
+      authorizeErpRequest(user(), method, path, null);
+
+    // none
+    expect(reason("GET", "/SalesOrder")).toBe(
+      "You do not have permission to view SalesOrder",
+    );
+    // view
+    expect(reason("GET", "/PurchaseOrder")).toBeNull();
+    expect(reason("PATCH", "/PurchaseOrder('PO-1')")).toBe(
+      "You do not have permission to edit PurchaseOrder",
+    );
+    // edit
+    expect(reason("PATCH", "/qcReceiptH('QC-1')")).toBeNull();
+    expect(reason("DELETE", "/qcreceiptLine('QC-1',10000)")).toBe(
+      "You do not have permission to delete qcreceiptLine",
+    );
+    expect(reason("POST", "/QCcode_postQC")).toBe(
+      "You do not have permission to post QCcode_postQC",
+    );
+    // full
+    expect(reason("DELETE", "/GJ(1)")).toBeNull();
+    expect(reason("POST", "/API_PostVouchers")).toBeNull();
+  });
+
+  test("lets every user read master data but nobody write it", () => {
+    const gate = user({ role: "gate", permissions: ROLE_PERMISSIONS.gate });
+    expect(
+      authorizeErpRequest(gate, "GET", `/ItemCard${COMPANY}`, null),
+    ).toBeNull();
+    expect(
+      authorizeErpRequest(
+        gate,
+        "GET",
+        "/Company('X')/ItemAvailabilitybyLot",
+        null,
+      ),
+    ).toBeNull();
+    expect(
+      authorizeErpRequest(
+        user({ role: "admin" }),
+        "PATCH",
+        "/ItemCard('I-1')",
+        {},
+      ),
+    ).toBe("ItemCard is not available through the web portal");
+  });
+
+  test("refuses entity sets and actions it does not list, reads included", () => {
+    const admin = user({ role: "admin", permissions: ROLE_PERMISSIONS.admin });
+    expect(getErpPermission("GET", "/UserSetup")).toBe("denied");
+    expect(authorizeErpRequest(admin, "GET", "/UserSetup", null)).toBe(
+      "UserSetup is not available through the web portal",
+    );
+    expect(authorizeErpRequest(admin, "POST", "/API_DeleteCompany", {})).toBe(
+      "API_DeleteCompany is not available through the web portal",
+    );
+  });
+
+  test("refuses writes dated outside the posting window", () => {
+    expect(
+      authorizeErpRequest(user(), "POST", "/GJ", { postingDate: "2025-05-31" }),
+    ).toBe("Posting Date 2025-05-31 is outside your allowed posting period");
+    expect(
+      authorizeErpRequest(user(), "PATCH", "/GJ(1)", {
+        Posting_Date: "2025-07-01T00:00:00Z",
+      }),
+    ).toBe("Posting Date 2025-07-01 is outside your allowed posting period");
+    expect(
+      authorizeErpRequest(user(), "POST", "/GJ", { postingDate: "2025-06-15" }),
+    ).toBeNull();
+    // Reads filter by date without posting anything
+    expect(
+      authorizeErpRequest(user(), "GET", "/GJ", { postingDate: "2025-05-31" }),
+    ).toBeNull();
+  });
+
+  test("splits a $batch into its operations and checks each", () => {
+    const batch = {
+      requests: [
+        { method: "PATCH", url: "qcReceiptH('QC-1')", body: {} },
+        { url: "/PurchaseOrder" },
+        { method: "POST", url: "GJ", body: { postingDate: "2025-06-15" } },
+      ],
+    };
+    expect(getErpOperations("POST", "/$batch", batch)).toEqual([
+      { method: "PATCH", erpPath: "/qcReceiptH('QC-1')", body: {} },
+      { method: "GET", erpPath: "/PurchaseOrder", body: undefined },
+      { method: "POST", erpPath: "/GJ", body: { postingDate: "2025-06-15" } },
+    ]);
+    expect(authorizeErpRequest(user(), "POST", "/$batch", batch)).toBeNull();
+
+    batch.requests.push({ method: "POST", url: "SalesLine", body: {} });
+    expect(authorizeErpRequest(user(), "POST", "/$batch", batch)).toBe(
+      "You do not have permission to edit SalesLine",
+    );
+    batch.requests.push({
+      method: "POST",
+      url: "GJ",
+      body: { postingDate: "2024-01-01" },
+    });
+    expect(
+      authorizeErpRequest(
+        user({ permissions: ROLE_PERMISSIONS.admin }),
+        "POST",
+        "/$batch",
+        batch,
+      ),
+    ).toBe("Posting Date 2024-01-01 is outside your allowed posting period");
+  });
+
+  test("refuses a malformed $batch", () => {
+    expect(getErpOperations("POST", "/$batch", { requests: "all" })).toBeNull();
+    expect(authorizeErpRequest(user(), "POST", "/$batch", null)).toBe(
+      "Invalid batch request",
+    );
+  });
+});
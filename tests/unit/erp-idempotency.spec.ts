@@ -0,0 +1,136 @@
+import "./fixtures/server-env";
+import { test, expect } from "@playwright/test";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/erp/[...path]/route";
+import { ROLE_PERMISSIONS } from "@/lib/auth/permissions";
+import { SESSION_COOKIE_NAME, signSessionToken } from "@/lib/auth/session";
+import { stubFetch } from "./fixtures";
+
+const ENDPOINT = "/InwardGateEntry?company='Sampoorna%20Feeds'";
+
+/** Shared store contents by full key */
+let store: Map<string, string>;
+/** Creates that reached the ERP */
+let created: number;
+/** How the stubbed ERP answers a create */
+let erpAnswer: () => Response | Promise<Response>;
+
+/** Redis REST stub for the commands and scripts of lib/api/shared-store */
+function runRedis([name, ...args]: string[]): unknown {
+  if (name === "GET") return store.get(args[0]) ?? null;
+  const [script, , key, ...argv] = args;
+  if (script.includes("EXISTS")) {
+    if (store.has(key)) return [key];
+    store.set(key, argv[0]);
+    return [];
+  }
+  if (script.includes("DEL")) {
+    return store.get(key) === argv[0] && store.delete(key) ? 1 : 0;
+  }
+  // Compare-and-set
+  if ((store.get(key) ?? "") !== argv[0]) return 0;
+  store.set(key, argv[1]);
+  return 1;
+}
+
+function create(idempotencyKey: string | null, userID = "GATE01") {
+  const token = signSessionToken({
+    userID,
+    fullName: "Gate Staff",
+    role: "gate",
+    permissions: ROLE_PERMISSIONS.gate,
+    locationCode: "PUNE",
+    postingWindow: { from: null, to: null },
+  });
+  const headers: Record<string, string> = {
+    cookie: `${SESSION_COOKIE_NAME}=${token}`,
+    "content-type": "application/json",
+  };
+  if (idempotencyKey) headers["idempotency-key"] = idempotencyKey;
+  return POST(
+    new NextRequest(`http://localhost/api/erp${ENDPOINT}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ vehicle_No: "MH12AB1234" }),
+    }),
+  );
+}
+
+test.describe("Idempotent creates in the ERP proxy", () => {
+  stubFetch((url, init) => {
+    if (url.startsWith("https://shared-store.test")) {
+      return { result: runRedis(JSON.parse(String(init.body)) as string[]) };
+    }
+    return erpAnswer();
+  });
+
+  test.beforeEach(() => {
+    store = new Map();
+    created = 0;
+    erpAnswer = () => {
+      created++;
+      return Response.json({ No: `GI-000${created}` }, { status: 201 });
+    };
+  });
+
+  test("answers a repeated create with the first response", async () => {
+    const first = await create("key-1");
+    const repeat = await create("key-1");
+
+    expect(created).toBe(1);
+    expect(repeat.status).toBe(201);
+    expect(await repeat.json()).toEqual(await first.json());
+    expect(await (await create("key-2")).json()).toEqual({ No: "GI-0002" });
+  });
+
+  test("keeps each user's keys apart and creates without a key as before", async () => {
+    await create("key-1");
+    await create("key-1", "GATE02");
+    await create(null);
+    await create(null);
+    expect(created).toBe(4);
+  });
+
+  test("refuses a repeat while the first create is in flight", async () => {
+    let finish = () => {};
+    erpAnswer = () => {
+      created++;
+      return new Promise((resolve) => {
+        finish = () => resolve(Response.json({ No: "GI-0001" }, { status: 201 }));
+      });
+    };
+
+    const first = create("key-1");
+    await expect.poll(() => created).toBe(1);
+    const repeat = await create("key-1");
+    finish();
+
+    expect(repeat.status).toBe(409);
+    expect(await repeat.json()).toMatchObject({ error: { code: "REQUEST_IN_PROGRESS" } });
+    expect((await first).status).toBe(201);
+    expect(created).toBe(1);
+  });
+
+  test("lets a create the ERP refused or never got be sent again", async () => {
+    erpAnswer = () => {
+      created++;
+      return Response.json(
+        { error: { message: "Vehicle No. must not be blank" } },
+        { status: 400 },
+      );
+    };
+    expect((await create("key-1")).status).toBe(400);
+
+    erpAnswer = () => {
+      throw new TypeError("fetch failed");
+    };
+    expect((await create("key-1")).status).toBe(502);
+
+    erpAnswer = () => {
+      created++;
+      return Response.json({ No: "GI-0001" }, { status: 201 });
+    };
+    expect((await create("key-1")).status).toBe(201);
+    expect(created).toBe(2);
+  });
+});
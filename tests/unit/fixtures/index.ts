@@ -0,0 +1,83 @@
+/**
+ * Shared unit test fixtures
+ */
+
+import { test } from "@playwright/test";
+import { IDBFactory } from "fake-indexeddb";
+
+/** A factory for records of one shape: the defaults with the given fields overridden */
+export function fixture<T extends object>(defaults: T): (overrides?: Partial<T>) => T {
+  return (overrides = {}) => ({ ...defaults, ...overrides });
+}
+
+/**
+ * Answer the fetch calls of every test in the enclosing describe block
+ * The handler gets the requested URL and init; what it returns is sent as a
+ * JSON body unless it already is a Response
+ */
+export function stubFetch(
+  handler: (url: string, init: RequestInit) => unknown | Promise<unknown>,
+): void {
+  const realFetch = globalThis.fetch;
+
+  test.beforeEach(() => {
+    globalThis.fetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const result = await handler(String(input), init);
+      return result instanceof Response ? result : Response.json(result);
+    }) as typeof fetch;
+  });
+
+  test.afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+}
+
+/** In-memory Web Storage */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+const BROWSER_GLOBALS = ["window", "indexedDB", "localStorage", "sessionStorage"];
+
+/**
+ * Give the tests of the enclosing describe block a browser's storage: window,
+ * localStorage, sessionStorage and an empty IndexedDB
+ */
+export function useBrowserStorage(): void {
+  const globals = globalThis as unknown as Record<string, unknown>;
+
+  test.beforeAll(() => {
+    globals.window = globalThis;
+    globals.indexedDB = new IDBFactory();
+    globals.localStorage = new MemoryStorage();
+    globals.sessionStorage = new MemoryStorage();
+  });
+
+  test.afterAll(() => {
+    for (const name of BROWSER_GLOBALS) delete globals[name];
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * Server settings for specs of server-only modules, which read them when loaded
+ * Import first; stubFetch then answers for the shared store and the ERP
+ */
+
+process.env.SHARED_STORE_URL = "https://shared-store.test";
+process.env.SHARED_STORE_TOKEN = "test-token";
+process.env.ERP_API_BASE_URL = "https://erp.test";
+process.env.AUTH_SESSION_SECRET = "test-session-secret";
@@ -0,0 +1,98 @@
+import "./fixtures/server-env";
+import { test, expect } from "@playwright/test";
+import { getBilledFreightInvoiceMarks } from "@/lib/freight/server-erp";
+import type { FreightInvoiceMark } from "@/lib/freight/types";
+import { fixture, stubFetch } from "./fixtures";
+
+const mark = fixture<FreightInvoiceMark>({
+  entryKey: "Inward:GI-0001",
+  invoiceNo: "PI-0001",
+  invoicedBy: "ACCT01",
+  invoicedAt: 1000,
+});
+
+/** Shared store contents by key, without the prefix */
+let store: Record<string, string> = {};
+/** Invoices the stubbed ERP has, per entity set */
+let erp: Record<string, Record<string, unknown>[]> = {};
+let erpDown = false;
+
+function answerStore(command: string[]) {
+  const [name, ...args] = command;
+  const key = (fullKey: string) => fullKey.slice("sf:".length);
+  if (name === "MGET") return args.map((fullKey) => store[key(fullKey)] ?? null);
+  if (name === "EVAL") {
+    // Compare-and-delete: [script, 1, key, value read]
+    const [, , fullKey, read] = args;
+    if (store[key(fullKey)] !== read) return 0;
+    delete store[key(fullKey)];
+    return 1;
+  }
+  throw new Error(`Unexpected shared store command ${name}`);
+}
+
+/** Rows whose field equals one of the `Field eq 'value'` conditions */
+function answerErp(url: string) {
+  const { pathname, searchParams } = new URL(url);
+  const filter = searchParams.get("$filter") ?? "";
+  const conditions = Array.from(filter.matchAll(/(\w+) eq '([^']*)'/g));
+  return (erp[pathname.slice(1)] ?? []).filter((row) =>
+    conditions.some(([, field, value]) => row[field] === value),
+  );
+}
+
+test.describe("Billed freight invoices", () => {
+  stubFetch((url, init) => {
+    if (url.startsWith("https://shared-store.test")) {
+      return { result: answerStore(JSON.parse(String(init.body)) as string[]) };
+    }
+    return erpDown
+      ? Response.json({ error: { message: "Service unavailable" } }, { status: 503 })
+      : { value: answerErp(url) };
+  });
+
+  test.beforeEach(() => {
+    erpDown = false;
+    store = Object.fromEntries(
+      [
+        mark(),
+        mark({ entryKey: "Inward:GI-0002", invoiceNo: "PI-0002" }),
+        mark({ entryKey: "Inward:GI-0003", invoiceNo: "PI-0003" }),
+        mark({ entryKey: "Inward:GI-0004", invoiceNo: "PI-0004" }),
+      ].map((item) => [`freight-invoices:${item.entryKey}`, JSON.stringify(item)]),
+    );
+    erp = {
+      PurchaseInvoiceHeader: [{ No: "PI-0001" }],
+      PostedPurchaseInvoiceH: [
+        { No: "PPI-0001", Pre_Assigned_No: "PI-0002", Cancelled: false },
+        { No: "PPI-0002", Pre_Assigned_No: "PI-0004", Cancelled: true },
+      ],
+    };
+  });
+
+  test("keeps entries billed on open and posted invoices", async () => {
+    const marks = await getBilledFreightInvoiceMarks([
+      "Inward:GI-0001",
+      "Inward:GI-0002",
+      "Inward:GI-0005",
+    ]);
+    expect(marks.map((item) => item.invoiceNo)).toEqual(["PI-0001", "PI-0002"]);
+  });
+
+  test("releases entries whose invoice was deleted or cancelled", async () => {
+    const marks = await getBilledFreightInvoiceMarks(["Inward:GI-0003", "Inward:GI-0004"]);
+    expect(marks).toEqual([]);
+    expect(Object.keys(store)).toEqual([
+      "freight-invoices:Inward:GI-0001",
+      "freight-invoices:Inward:GI-0002",
+    ]);
+  });
+
+  test("releases nothing when the ERP cannot be checked", async () => {
+    erpDown = true;
+    await expect(getBilledFreightInvoiceMarks(["Inward:GI-0003"])).rejects.toThrow(
+      "Service unavailable",
+    );
+    expect(Object.keys(store)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from "@playwright/test";
+import { groupFreightEntries } from "@/lib/freight/register";
+import { applyShortageRules } from "@/lib/freight/shortage";
+import type { FreightEntry, ShortageRules } from "@/lib/freight/types";
+import { fixture } from "./fixtures";
+
+const RULES: ShortageRules = { bagWeightKg: 50, tolerancePercent: 0.5, ratePerKg: 2 };
+
+const entry = fixture<FreightEntry>({
+  key: "Inward:GI-0001",
+  direction: "Inward",
+  no: "GI-0001",
+  postingDate: "2025-04-16",
+  transporter: "Shree Roadways",
+  vehicleNo: "MH12AB1234",
+  locationCode: "MAIN",
+  branchCode: "PUNE",
+  lobCode: "FEED",
+  bags: 100,
+  perBagFreight: 100,
+  freightAmount: 10000,
+  netWeight: 4900,
+  expectedWeight: 0,
+  shortageKg: 0,
+  deduction: 0,
+  payable: 0,
+});
+
+test.describe("Freight shortage deductions", () => {
+  test("deducts the shortage beyond the tolerance at the rate per kg", () => {
+    // 100 bags x 50 kg = 5000 kg expected, 25 kg tolerance, 4900 kg received
+    expect(applyShortageRules(entry(), RULES)).toMatchObject({
+      expectedWeight: 5000,
+      shortageKg: 75,
+      deduction: 150,
+      payable: 9850,
+    });
+  });
+
+  test("deducts nothing within the tolerance", () => {
+    expect(applyShortageRules(entry({ netWeight: 4980 }), RULES)).toMatchObject({
+      shortageKg: 0,
+      deduction: 0,
+      payable: 10000,
+    });
+  });
+
+  test("never deducts more than the freight", () => {
+    expect(applyShortageRules(entry({ freightAmount: 100 }), RULES)).toMatchObject({
+      deduction: 100,
+      payable: 0,
+    });
+  });
+
+  test("leaves outward and unweighed loads alone", () => {
+    expect(
+      applyShortageRules(entry({ direction: "Outward", netWeight: 1000 }), RULES),
+    ).toMatchObject({ expectedWeight: 0, shortageKg: 0, deduction: 0, payable: 10000 });
+    expect(applyShortageRules(entry({ netWeight: 0 }), RULES)).toMatchObject({
+      expectedWeight: 5000,
+      shortageKg: 0,
+      deduction: 0,
+    });
+  });
+
+  test("rounds deductions and payables to paise", () => {
+    const result = applyShortageRules(entry({ netWeight: 4900.333 }), {
+      ...RULES,
+      ratePerKg: 1.1,
+    });
+    expect(result.shortageKg).toBe(74.67);
+    expect(result.deduction).toBe(82.13);
+    expect(result.payable).toBe(9917.87);
+  });
+});
+
+test.describe("Freight grouping", () => {
+  test("totals each transporter's week, ordered by transporter then week", () => {
+    const groups = groupFreightEntries(
+      [
+        entry({ key: "Inward:GI-0003", postingDate: "2025-04-22", transporter: "Shree Roadways" }),
+        entry({ key: "Inward:GI-0001", postingDate: "2025-04-14" }),
+        entry({ key: "Inward:GI-0002", postingDate: "2025-04-20", netWeight: 5000 }),
+        entry({ key: "Outward:GO-0001", direction: "Outward", transporter: "Ajay Transport" }),
+      ],
+      "week",
+      RULES,
+    );
+
+    expect(groups.map((group) => [group.transporter, group.periodKey])).toEqual([
+      ["Ajay Transport", "2025-04-14"],
+      ["Shree Roadways", "2025-04-14"],
+      ["Shree Roadways", "2025-04-21"],
+    ]);
+    expect(groups[1]).toMatchObject({
+      periodLabel: "14/04 - 20/04/2025",
+      bags: 200,
+      freightAmount: 20000,
+      netWeight: 9900,
+      shortageKg: 75,
+      deduction: 150,
+      payable: 19850,
+    });
+    expect(groups[1].entries.map((item) => item.key)).toEqual([
+      "Inward:GI-0001",
+      "Inward:GI-0002",
+    ]);
+  });
+
+  test("keeps group totals to paise", () => {
+    const outward = { direction: "Outward", netWeight: 0.1 } as const;
+    const [group] = groupFreightEntries(
+      [
+        entry({ ...outward, key: "Outward:GO-0001", freightAmount: 0.1 }),
+        entry({ ...outward, key: "Outward:GO-0002", freightAmount: 0.2 }),
+      ],
+      "month",
+      RULES,
+    );
+    expect(group).toMatchObject({ freightAmount: 0.3, netWeight: 0.2, payable: 0.3 });
+  });
+});
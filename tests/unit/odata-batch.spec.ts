@@ -0,0 +1,119 @@
+import { test, expect } from "@playwright/test";
+import { createBatch, sendBatch } from "@/lib/api/batch";
+import { stubFetch } from "./fixtures";
+
+interface SentRequest {
+  id: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  atomicityGroup?: string;
+}
+
+let sent: { url: string; requests: SentRequest[] }[] = [];
+/** Status and body the stubbed ERP answers each operation with, by id */
+let answers: Record<string, { status: number; body?: unknown }> = {};
+
+test.describe("OData $batch builder", () => {
+  stubFetch((url, init) => {
+    const { requests } = JSON.parse(String(init.body)) as { requests: SentRequest[] };
+    sent.push({ url, requests });
+    return {
+      responses: requests
+        .filter((request) => answers[request.id])
+        .map((request) => ({ id: request.id, ...answers[request.id] })),
+    };
+  });
+
+  test.beforeEach(() => {
+    sent = [];
+    answers = {};
+  });
+
+  test("sends every operation in one request and one changeset", async () => {
+    const batch = createBatch();
+    batch.post("/SalesLine", { Document_No: "SO-0001", Quantity: 5 });
+    batch.patch("/SalesLine(Document_No='SO-0001',Line_No=10000)", { Quantity: 2 });
+    batch.delete("/SalesLine(Document_No='SO-0001',Line_No=20000)");
+    answers = { 1: { status: 201 }, 2: { status: 200 }, 3: { status: 204 } };
+
+    const response = await batch.send();
+
+    expect(response.ok).toBe(true);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].url).toBe("/api/erp/$batch");
+    expect(sent[0].requests.map((request) => [request.id, request.method, request.url])).toEqual([
+      ["1", "POST", "SalesLine"],
+      ["2", "PATCH", "SalesLine(Document_No='SO-0001',Line_No=10000)"],
+      ["3", "DELETE", "SalesLine(Document_No='SO-0001',Line_No=20000)"],
+    ]);
+    expect(sent[0].requests.every((request) => request.atomicityGroup === "changeset")).toBe(true);
+    expect(sent[0].requests[1].headers["If-Match"]).toBe("*");
+    expect(sent[0].requests[2]).not.toHaveProperty("body");
+  });
+
+  test("leaves operations independent unless the batch is atomic", async () => {
+    const batch = createBatch({ atomic: false });
+    batch.post("/SalesLine", {}, { id: "a" });
+    batch.post("/SalesLine", {}, { id: "b", changeset: "lines" });
+    await batch.send();
+
+    expect(sent[0].requests.map((request) => request.atomicityGroup)).toEqual([
+      undefined,
+      "lines",
+    ]);
+  });
+
+  test("settles each operation with its own result", async () => {
+    const batch = createBatch({ atomic: false });
+    const inserted = batch.post("/SalesLine", {}, { id: "line-1" });
+    const rejected = batch.post("/SalesLine", {}, { id: "line-2" });
+    const missing = batch.post("/SalesLine", {}, { id: "line-3" });
+    answers = {
+      "line-1": { status: 201, body: { Line_No: 10000 } },
+      "line-2": {
+        status: 400,
+        body: { error: { code: "BadRequest", message: "Item is blocked" } },
+      },
+    };
+
+    const response = await batch.send();
+
+    await expect(inserted).resolves.toEqual({ Line_No: 10000 });
+    await expect(rejected).rejects.toMatchObject({ status: 400, message: "Item is blocked" });
+    await expect(missing).rejects.toMatchObject({ code: "BATCH_NO_RESPONSE" });
+    expect(response.ok).toBe(false);
+    expect(response.failed.map((result) => result.id)).toEqual(["line-2", "line-3"]);
+    expect(response.get("line-1")?.status).toBe(201);
+  });
+
+  test("maps results back in order and throws the first failure", async () => {
+    const batch = createBatch();
+    const pending = ["a", "b"].map((id) => batch.post("/SalesLine", {}, { id }));
+    answers = { a: { status: 201, body: { Line_No: 10000 } }, b: { status: 201, body: null } };
+    expect(await sendBatch(batch, pending)).toEqual([{ Line_No: 10000 }, null]);
+
+    const failing = createBatch();
+    const failed = ["a", "b"].map((id) => failing.post("/SalesLine", {}, { id }));
+    answers = {
+      a: { status: 400, body: { error: { message: "Quantity must be positive" } } },
+      b: { status: 424 },
+    };
+    await expect(sendBatch(failing, failed)).rejects.toMatchObject({
+      message: "Quantity must be positive (2 operations failed)",
+    });
+  });
+
+  test("refuses duplicate ids and operations after sending", async () => {
+    const batch = createBatch();
+    batch.post("/SalesLine", {}, { id: "a" });
+    expect(() => batch.post("/SalesLine", {}, { id: "a" })).toThrow(
+      'Duplicate batch operation id "a"',
+    );
+
+    await batch.send();
+    expect(() => batch.post("/SalesLine", {})).toThrow("already sent");
+    await expect(batch.send()).rejects.toThrow("Batch was already sent");
+  });
+});
@@ -0,0 +1,152 @@
+import { test, expect } from "@playwright/test";
+import { apiPost, IDEMPOTENCY_KEY_HEADER, QUEUED_OFFLINE_CODE } from "@/lib/api/client";
+import { ROLE_PERMISSIONS } from "@/lib/auth/permissions";
+import { setAuthSession } from "@/lib/auth/storage";
+import { replayOutbox, retryOutboxEntry } from "@/lib/offline/outbox";
+import { addOutboxEntry, getOutboxEntries, removeOutboxEntry } from "@/lib/offline/storage";
+import type { OutboxEntry } from "@/lib/offline/types";
+import { fixture, stubFetch, useBrowserStorage } from "./fixtures";
+
+const USER = "GATE01";
+const COMPANY = "?company='Sampoorna%20Feeds'";
+
+const HEADER = `/Company('Sampoorna%20Feeds')/InwardGateEntry(Entry_Type='Inward',No='GI-0001')`;
+const LINES = `/InwardGateEntrySubForm${COMPANY}`;
+const QC_LINE = `/qcreceiptLine(No='QC-0001',Line_No=10000)${COMPANY}`;
+
+const entry = fixture<Omit<OutboxEntry, "id">>({
+  userID: USER,
+  label: "Inward Gate Entry",
+  endpoint: HEADER,
+  method: "PATCH",
+  body: JSON.stringify({ vehicle_No: "MH12AB1234" }),
+  headers: { "If-Match": 'W/"1"' },
+  createdAt: "2025-06-15T08:00:00.000Z",
+  status: "pending",
+  attempts: 0,
+});
+
+interface SentRequest {
+  endpoint: string;
+  headers: Record<string, string>;
+}
+
+let sent: SentRequest[] = [];
+/** How the stubbed proxy answers each request; throwing drops the connection */
+let answer: (endpoint: string) => unknown = () => ({});
+
+const rejected = (message: string) =>
+  Response.json({ error: { code: "BadRequest", message } }, { status: 400 });
+
+async function queued(): Promise<OutboxEntry[]> {
+  return getOutboxEntries(USER);
+}
+
+test.describe("Offline outbox replay", () => {
+  useBrowserStorage();
+
+  stubFetch((url, init) => {
+    const endpoint = url.slice("/api/erp".length);
+    sent.push({ endpoint, headers: { ...(init.headers as Record<string, string>) } });
+    return answer(endpoint);
+  });
+
+  test.beforeEach(async () => {
+    setAuthSession({
+      userID: USER,
+      fullName: "Gate Staff",
+      role: "gate",
+      permissions: ROLE_PERMISSIONS.gate,
+      locationCode: "PUNE",
+      postingWindow: { from: null, to: null },
+    });
+    for (const item of await queued()) await removeOutboxEntry(item.id);
+    sent = [];
+    answer = () => ({});
+  });
+
+  test("replays entries in the order they were recorded", async () => {
+    await addOutboxEntry(entry());
+    await addOutboxEntry(entry({ endpoint: QC_LINE }));
+
+    const result = await replayOutbox(USER);
+
+    expect(result).toEqual({ synced: 2, conflicts: 0, failed: 0, blocked: 0, interrupted: false });
+    expect(sent.map((request) => request.endpoint)).toEqual([HEADER, QC_LINE]);
+    expect(await queued()).toEqual([]);
+  });
+
+  test("holds the later entries of a document until its failed entry is dealt with", async () => {
+    await addOutboxEntry(entry());
+    await addOutboxEntry(
+      entry({
+        endpoint: LINES,
+        method: "POST",
+        body: JSON.stringify({ gate_Entry_No: "GI-0001", line_No: 10000 }),
+        headers: {},
+      }),
+    );
+    await addOutboxEntry(entry({ endpoint: QC_LINE }));
+    answer = (endpoint) =>
+      endpoint === HEADER ? rejected("Vehicle No. must not be blank") : {};
+
+    expect(await replayOutbox(USER)).toMatchObject({ synced: 1, failed: 1, blocked: 1 });
+    expect(sent.map((request) => request.endpoint)).toEqual([HEADER, QC_LINE]);
+    const [header, line] = await queued();
+    expect(header).toMatchObject({ status: "failed", error: "Vehicle No. must not be blank" });
+    expect(line.status).toBe("pending");
+
+    // Still held on the next sync, until the header is retried
+    sent = [];
+    expect(await replayOutbox(USER)).toMatchObject({ synced: 0, blocked: 1 });
+    expect(sent).toEqual([]);
+
+    answer = () => ({});
+    await retryOutboxEntry(header);
+    expect(await replayOutbox(USER)).toMatchObject({ synced: 2, blocked: 0 });
+    expect(sent.map((request) => request.endpoint)).toEqual([HEADER, LINES]);
+  });
+
+  test("holds a document behind a conflict too", async () => {
+    await addOutboxEntry(entry());
+    await addOutboxEntry(entry({ body: JSON.stringify({ description: "Maize" }) }));
+    answer = () => new Response(null, { status: 412 });
+
+    expect(await replayOutbox(USER)).toMatchObject({ conflicts: 1, blocked: 1 });
+    expect(sent).toHaveLength(1);
+  });
+
+  test("stops when the connection drops, keeping the rest queued", async () => {
+    await addOutboxEntry(entry({ endpoint: LINES, method: "POST", headers: {} }));
+    await addOutboxEntry(entry({ endpoint: QC_LINE }));
+    answer = () => {
+      throw new TypeError("fetch failed");
+    };
+
+    expect(await replayOutbox(USER)).toMatchObject({ synced: 0, interrupted: true });
+    expect(sent).toHaveLength(1);
+    expect((await queued()).map((item) => [item.status, item.attempts])).toEqual([
+      ["pending", 1],
+      ["pending", 0],
+    ]);
+  });
+
+  test("replays a create with the idempotency key of its first attempt", async () => {
+    answer = () => {
+      throw new TypeError("fetch failed");
+    };
+    const create = apiPost("/InwardGateEntry", { Vehicle_No: "MH12AB1234" }, {
+      offline: { label: "Inward Gate Entry" },
+    });
+    await expect(create).rejects.toMatchObject({ code: QUEUED_OFFLINE_CODE });
+
+    const key = sent[0].headers[IDEMPOTENCY_KEY_HEADER];
+    expect(key).toMatch(/^[0-9a-f]{32}$/);
+    const [queuedCreate] = await queued();
+    expect(queuedCreate.headers[IDEMPOTENCY_KEY_HEADER]).toBe(key);
+
+    answer = () => ({ No: "GI-0002" });
+    expect(await replayOutbox(USER)).toMatchObject({ synced: 1 });
+    expect(sent[1].headers[IDEMPOTENCY_KEY_HEADER]).toBe(key);
+  });
+});
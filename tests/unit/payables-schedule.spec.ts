@@ -0,0 +1,103 @@
+import { test, expect } from "@playwright/test";
+import type { VendorLedgerEntry } from "@/lib/api/services/vendor-ledger.service";
+import { getProposalAmount } from "@/lib/payables/payment-run";
+import {
+  buildPayablesVendors,
+  canProposeEntry,
+  getWeekBoundaries,
+  toPayableEntry,
+} from "@/lib/payables/schedule";
+import { fixture } from "./fixtures";
+
+// Wednesday; this week ends Sunday 29 June, next week Sunday 6 July
+const TODAY = new Date(2025, 5, 25);
+
+const entry = fixture<VendorLedgerEntry>({
+  "@odata.etag": "",
+  Entry_No: 1,
+  Posting_Date: "2025-06-01",
+  Invoice_Received_Date: "",
+  Document_Type: "Invoice",
+  Document_No: "PI-0001",
+  External_Document_No: "",
+  Vendor_No: "V0001",
+  VendorName: "Kisan Traders",
+  Description: "",
+  Debit_Amount: 0,
+  Credit_Amount: 0,
+  Amount: 0,
+  Remaining_Amount: -1000,
+  Document_Date: "2025-06-01",
+  Due_Date: "2025-06-20",
+  Open: true,
+  Closed_at_Date: "",
+  RunningBalanceLCY: 0,
+});
+
+test.describe("Payables schedule", () => {
+  test("ends this week on Sunday", () => {
+    expect(getWeekBoundaries(TODAY)).toEqual({ thisWeekEnd: 4, nextWeekEnd: 11 });
+    // On a Sunday this week ends today
+    expect(getWeekBoundaries(new Date(2025, 5, 29))).toEqual({ thisWeekEnd: 0, nextWeekEnd: 7 });
+  });
+
+  test("buckets entries by due date, posting date when blank", () => {
+    const bucket = (overrides: Partial<VendorLedgerEntry>) =>
+      toPayableEntry(entry(overrides), TODAY).bucket;
+    expect(bucket({ Due_Date: "2025-06-24" })).toBe("overdue");
+    expect(bucket({ Due_Date: "2025-06-25" })).toBe("thisWeek");
+    expect(bucket({ Due_Date: "2025-06-29" })).toBe("thisWeek");
+    expect(bucket({ Due_Date: "2025-06-30" })).toBe("nextWeek");
+    expect(bucket({ Due_Date: "2025-07-06" })).toBe("nextWeek");
+    expect(bucket({ Due_Date: "2025-07-07" })).toBe("later");
+    expect(bucket({ Due_Date: "0001-01-01", Posting_Date: "2025-06-27" })).toBe("thisWeek");
+  });
+
+  test("owes the negated remaining amount, credits reducing it", () => {
+    expect(toPayableEntry(entry(), TODAY)).toMatchObject({
+      dueDate: "2025-06-20",
+      daysToDue: -5,
+      amountDue: 1000,
+    });
+    expect(toPayableEntry(entry({ Remaining_Amount: 250.5 }), TODAY).amountDue).toBe(-250.5);
+  });
+
+  test("does not propose entries on hold or already applied to a payment", () => {
+    expect(canProposeEntry(toPayableEntry(entry(), TODAY))).toBe(true);
+    expect(canProposeEntry(toPayableEntry(entry({ On_Hold: "QC" }), TODAY))).toBe(false);
+    expect(canProposeEntry(toPayableEntry(entry({ Applies_to_ID: "PV-0001" }), TODAY))).toBe(
+      false,
+    );
+  });
+
+  test("nets the proposal to paise", () => {
+    const entries = [
+      entry({ Remaining_Amount: -0.1 }),
+      entry({ Remaining_Amount: -0.2 }),
+      entry({ Remaining_Amount: 100 }),
+      entry({ Remaining_Amount: -1200.45 }),
+    ].map((item) => toPayableEntry(item, TODAY));
+    expect(getProposalAmount(entries)).toBe(1100.75);
+  });
+
+  test("lists the most overdue vendors first, soonest due first within", () => {
+    const vendors = buildPayablesVendors(
+      [
+        entry({ Entry_No: 1, Vendor_No: "V0001", Due_Date: "2025-07-20", Remaining_Amount: -9000 }),
+        entry({ Entry_No: 2, Vendor_No: "V0001", Due_Date: "2025-06-10", Remaining_Amount: -500 }),
+        entry({ Entry_No: 3, Vendor_No: "V0002", VendorName: "Maize Mart" }),
+        entry({ Entry_No: 4, Vendor_No: "V0002", Due_Date: "2025-06-28", Remaining_Amount: 200 }),
+      ],
+      TODAY,
+    );
+
+    expect(vendors.map((vendor) => vendor.vendorNo)).toEqual(["V0002", "V0001"]);
+    expect(vendors[0]).toMatchObject({
+      vendorName: "Maize Mart",
+      buckets: { overdue: 1000, thisWeek: -200, nextWeek: 0, later: 0 },
+      total: 800,
+    });
+    expect(vendors[1].entries.map((payable) => payable.entry.Entry_No)).toEqual([2, 1]);
+    expect(vendors[1].buckets).toEqual({ overdue: 500, thisWeek: 0, nextWeek: 0, later: 9000 });
+  });
+});
@@ -0,0 +1,96 @@
+import { test, expect } from "@playwright/test";
+import {
+  ROLE_PERMISSIONS,
+  buildSessionUser,
+  canAccessRoute,
+  canApproveQCReceipts,
+  canOverrideWeighments,
+  hasPermission,
+  isWithinPostingWindow,
+  resolveFallbackRole,
+  type WebUserAccessRecord,
+} from "@/lib/auth/permissions";
+import { fixture } from "./fixtures";
+
+const webUser = fixture<WebUserAccessRecord>({
+  User_Name: "gate01",
+  Full_Name: "Gate Staff",
+  Role: "Gate Staff",
+  Location_Code: "PUNE",
+  Allow_Posting_From: "2025-06-01T00:00:00Z",
+  Allow_Posting_To: "0001-01-01",
+  Access_Purchase_Order: "Edit",
+});
+
+test.describe("Session roles", () => {
+  test("derives the session from the WebUser role", () => {
+    expect(buildSessionUser(webUser())).toEqual({
+      userID: "GATE01",
+      fullName: "Gate Staff",
+      role: "gate",
+      permissions: ROLE_PERMISSIONS.gate,
+      locationCode: "PUNE",
+      postingWindow: { from: "2025-06-01", to: null },
+    });
+  });
+
+  test("refuses an unknown role", () => {
+    expect(buildSessionUser(webUser({ Role: "Gatekeeper" }))).toBeNull();
+  });
+
+  test("gives users without a role the fallback role", () => {
+    const staff = buildSessionUser(webUser({ Role: undefined }));
+    expect(staff?.role).toBe("staff");
+    expect(buildSessionUser(webUser({ Role: " " }))?.role).toBe("staff");
+    expect(buildSessionUser(webUser({ Role: undefined }), "accountant")?.role).toBe("accountant");
+    expect(buildSessionUser(webUser({ Role: undefined }), null)).toBeNull();
+
+    // Every module, but none of the supervisor rights
+    expect(hasPermission(staff?.permissions, "voucher", "post")).toBe(true);
+    expect(canOverrideWeighments(staff)).toBe(false);
+    expect(canApproveQCReceipts(staff)).toBe(false);
+  });
+
+  test("reads the configured fallback role, never widening on a typo", () => {
+    expect(resolveFallbackRole(undefined)).toBe("staff");
+    expect(resolveFallbackRole("Accounts")).toBe("accountant");
+    expect(resolveFallbackRole("none")).toBeNull();
+    expect(resolveFallbackRole("admn")).toBeNull();
+  });
+
+  test("narrows purchase to view without purchase order edit access", () => {
+    const user = buildSessionUser(webUser({ Role: "Purchase", Access_Purchase_Order: "View" }));
+    expect(user?.permissions.purchase).toBe("view");
+    const admin = buildSessionUser(webUser({ Role: "Admin", Access_Purchase_Order: "View" }));
+    expect(admin?.permissions.purchase).toBe("full");
+  });
+});
+
+test.describe("Access levels", () => {
+  test("lets each level do what the levels below it do", () => {
+    const permissions = { ...ROLE_PERMISSIONS.gate, sales: "none", qc: "edit" } as const;
+    const allowed = (moduleId: "sales" | "purchase" | "qc" | "gate-entry") =>
+      (["view", "edit", "delete", "post"] as const).filter((action) =>
+        hasPermission(permissions, moduleId, action),
+      );
+    expect(allowed("sales")).toEqual([]);
+    expect(allowed("purchase")).toEqual(["view"]);
+    expect(allowed("qc")).toEqual(["view", "edit"]);
+    expect(allowed("gate-entry")).toEqual(["view", "edit", "delete", "post"]);
+    expect(hasPermission(null, "sales", "view")).toBe(false);
+  });
+
+  test("guards routes by their module", () => {
+    expect(canAccessRoute(ROLE_PERMISSIONS.gate, "/inward-gate-entry/GI-0001")).toBe(true);
+    expect(canAccessRoute(ROLE_PERMISSIONS.gate, "/voucher-form")).toBe(false);
+    expect(canAccessRoute(ROLE_PERMISSIONS.gate, "/")).toBe(true);
+  });
+
+  test("keeps posting dates within the window, open bounds unlimited", () => {
+    const window = { from: "2025-06-01", to: "2025-06-30" };
+    expect(isWithinPostingWindow(window, "2025-05-31")).toBe(false);
+    expect(isWithinPostingWindow(window, "2025-06-30T00:00:00Z")).toBe(true);
+    expect(isWithinPostingWindow(window, "2025-07-01")).toBe(false);
+    expect(isWithinPostingWindow({ from: null, to: null }, "1999-01-01")).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { test, expect } from "@playwright/test";
+import {
+  buildProfitability,
+  calculateFigures,
+  getComparisonPeriod,
+  getRowConditions,
+} from "@/lib/profitability/profitability";
+import type {
+  ProfitabilityAmount,
+  ProfitabilityData,
+  ProfitabilityFilters,
+} from "@/lib/profitability/types";
+
+function amount(
+  accountNo: string,
+  lob: string,
+  branch: string,
+  value: number,
+): ProfitabilityAmount {
+  return { accountNo, dimensions: { lob, branch, loc: "" }, amount: value };
+}
+
+const DATA: ProfitabilityData = {
+  accounts: [
+    { accountNo: "40100", accountName: "Sales", line: "revenue" },
+    { accountNo: "50100", accountName: "Raw Material Consumed", line: "cogs" },
+    { accountNo: "60100", accountName: "Freight", line: "expenses" },
+  ],
+  current: [
+    amount("40100", "FEED", "PUNE", 1000),
+    amount("40100", "FEED", "NASIK", 500),
+    amount("50100", "FEED", "PUNE", 900),
+    amount("60100", "FEED", "NASIK", 100.1),
+    amount("40100", "", "PUNE", 200),
+    amount("60100", "", "PUNE", 50.2),
+    // Not an income statement account of the report
+    amount("10100", "FEED", "PUNE", 99999),
+  ],
+  previous: [amount("40100", "FEED", "PUNE", 800), amount("50100", "FEED", "PUNE", 700)],
+  comparisonPeriod: { fromDate: "2025-05-02", toDate: "2025-05-31" },
+  truncated: false,
+};
+
+const FILTERS: ProfitabilityFilters = {
+  fromDate: "2025-06-01",
+  toDate: "2025-06-30",
+  lob: "",
+  branch: "PUNE",
+  loc: "",
+  groupBy: ["lob"],
+  comparison: "previousPeriod",
+};
+
+test.describe("Profitability", () => {
+  test("compares with the days right before, or the same dates last year", () => {
+    expect(getComparisonPeriod("2025-06-01", "2025-06-30", "previousPeriod")).toEqual({
+      fromDate: "2025-05-02",
+      toDate: "2025-05-31",
+    });
+    expect(getComparisonPeriod("2024-02-01", "2024-02-29", "lastYear")).toEqual({
+      fromDate: "2023-02-01",
+      toDate: "2023-02-28",
+    });
+    expect(getComparisonPeriod("2025-06-01", "2025-06-30", "none")).toBeNull();
+  });
+
+  test("derives margins from revenue, COGS and expenses", () => {
+    expect(calculateFigures(1000, 600, 250)).toEqual({
+      revenue: 1000,
+      cogs: 600,
+      grossMargin: 400,
+      expenses: 250,
+      netMargin: 150,
+      marginPct: 15,
+    });
+    expect(calculateFigures(0, 0, 120).marginPct).toBeNull();
+  });
+
+  test("rolls amounts up per grouped dimension, best net margin first", () => {
+    const report = buildProfitability(DATA, ["lob"]);
+
+    expect(report.rows.map((row) => [row.key, row.figures.netMargin])).toEqual([
+      ["FEED", 499.9],
+      ["", 149.8],
+    ]);
+    expect(report.rows[0].figures).toMatchObject({
+      revenue: 1500,
+      cogs: 900,
+      grossMargin: 600,
+      expenses: 100.1,
+      marginPct: 33.3,
+    });
+    expect(report.rows[0].comparison).toMatchObject({ revenue: 800, cogs: 700, netMargin: 100 });
+    expect(report.rows[0].accounts.map((account) => account.accountNo)).toEqual([
+      "40100",
+      "50100",
+      "60100",
+    ]);
+    expect(report.totals).toMatchObject({ revenue: 1700, netMargin: 649.7 });
+    expect(report.comparisonTotals).toMatchObject({ revenue: 800, netMargin: 100 });
+  });
+
+  test("regroups the same data by a different set of dimensions", () => {
+    const report = buildProfitability(DATA, ["lob", "branch"]);
+    expect(report.rows.map((row) => row.key).sort()).toEqual(["FEED|NASIK", "FEED|PUNE", "|PUNE"]);
+    expect(report.totals.netMargin).toBe(649.7);
+  });
+
+  test("drills into a row within the slices, never into a blank dimension", () => {
+    const [feed, blank] = buildProfitability(DATA, ["lob"]).rows;
+    expect(getRowConditions(FILTERS, feed)).toEqual([
+      { field: "Global_Dimension_1_Code", operator: "eq", value: "FEED", type: "text" },
+      { field: "Global_Dimension_2_Code", operator: "eq", value: "PUNE", type: "text" },
+    ]);
+    expect(getRowConditions(FILTERS, blank)).toBeNull();
+  });
+});
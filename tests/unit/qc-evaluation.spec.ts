@@ -0,0 +1,139 @@
+import { test, expect } from "@playwright/test";
+import type { QCReceiptLine } from "@/lib/api/services/qc-receipt.service";
+import { evaluateQCLine, evaluateQCReceipt } from "@/lib/qc/evaluation";
+import { fixture } from "./fixtures";
+
+const line = fixture<QCReceiptLine>({
+  No: "QC-0001",
+  Line_No: 10000,
+  Quality_Parameter_Code: "MOISTURE",
+  Method_Description: "Oven",
+  Description: "Moisture",
+  Unit_of_Measure_Code: "%",
+  Type: "Numeric",
+  Min_Value: 0,
+  Max_Value: 12,
+  Text_Value: "",
+  Actual_Value: 0,
+  Max_Deviation_Allowed: 10,
+  Deviation_Percent: 0,
+  Actual_Text: "",
+  Rejection: false,
+  Rejected_Qty: 0,
+  Mandatory: true,
+  Result: "",
+});
+
+const MOISTURE = line();
+const PROTEIN = line({
+  Line_No: 20000,
+  Quality_Parameter_Code: "PROTEIN",
+  Description: "Protein",
+  Min_Value: 40,
+  Max_Value: 0,
+  Max_Deviation_Allowed: 10,
+});
+const COLOUR = line({
+  Line_No: 30000,
+  Quality_Parameter_Code: "COLOUR",
+  Description: "Colour",
+  Type: "Text",
+  Max_Value: 0,
+  Text_Value: "Yellow",
+  Mandatory: false,
+});
+
+test.describe("QC line evaluation", () => {
+  test("passes a value within the range", () => {
+    expect(evaluateQCLine(MOISTURE, 11).outcome).toBe("pass");
+  });
+
+  test("accepts a deviation within the allowed percent", () => {
+    expect(evaluateQCLine(MOISTURE, 12.8)).toMatchObject({
+      outcome: "deviation",
+      deviationPercent: 6.67,
+    });
+  });
+
+  test("fails a deviation beyond the allowed percent", () => {
+    expect(evaluateQCLine(MOISTURE, 14)).toMatchObject({
+      outcome: "fail",
+      deviationPercent: 16.67,
+    });
+  });
+
+  test("treats a zero maximum with a minimum as no upper limit", () => {
+    expect(evaluateQCLine(PROTEIN, 55).outcome).toBe("pass");
+    expect(evaluateQCLine(PROTEIN, 38)).toMatchObject({
+      outcome: "deviation",
+      deviationPercent: 5,
+    });
+  });
+
+  test("waits for values the ERP defaults to 0", () => {
+    expect(evaluateQCLine(PROTEIN).outcome).toBe("pending");
+    expect(evaluateQCLine(MOISTURE, "").outcome).toBe("pending");
+  });
+
+  test("passes a parameter without a specification", () => {
+    const ash = line({ Min_Value: 0, Max_Value: 0 });
+    expect(evaluateQCLine(ash, 7).outcome).toBe("pass");
+    expect(evaluateQCLine(ash, "").outcome).toBe("pending");
+  });
+
+  test("compares text parameters without case", () => {
+    expect(evaluateQCLine(COLOUR, "yellow").outcome).toBe("pass");
+    expect(evaluateQCLine(COLOUR, "Brown").outcome).toBe("fail");
+    expect(evaluateQCLine(COLOUR).outcome).toBe("pending");
+  });
+});
+
+test.describe("QC receipt decision", () => {
+  test("rejects the inspected quantity when a mandatory parameter fails", () => {
+    const decision = evaluateQCReceipt([MOISTURE, PROTEIN], 250, {
+      10000: "14",
+      20000: "42",
+    });
+    expect(decision.kind).toBe("reject");
+    expect(decision.drivers.map((driver) => driver.lineNo)).toEqual([10000]);
+    expect(decision.split).toEqual({
+      Quantity_to_Accept: 0,
+      Qty_to_Accept_with_Deviation: 0,
+      Quantity_to_Reject: 250,
+      Accepted_With_Approval: false,
+      Rabete_Percent: 0,
+    });
+  });
+
+  test("waits while a mandatory parameter is not entered", () => {
+    const decision = evaluateQCReceipt([MOISTURE, PROTEIN], 250, { 10000: "11" });
+    expect(decision.kind).toBe("pending");
+    expect(decision.split).toBeNull();
+  });
+
+  test("sums the deviations into the suggested rebate", () => {
+    const decision = evaluateQCReceipt([MOISTURE, PROTEIN], 250, {
+      10000: "12.8",
+      20000: "38",
+    });
+    expect(decision.kind).toBe("accept-with-deviation");
+    // 6.67% + 5% at the default 1% rebate per percent
+    expect(decision.split).toEqual({
+      Quantity_to_Accept: 0,
+      Qty_to_Accept_with_Deviation: 250,
+      Quantity_to_Reject: 0,
+      Accepted_With_Approval: true,
+      Rabete_Percent: 11.67,
+    });
+  });
+
+  test("accepts with optional failures noted but not deciding", () => {
+    const decision = evaluateQCReceipt([MOISTURE, COLOUR], 250, {
+      10000: "11",
+      30000: "Brown",
+    });
+    expect(decision.kind).toBe("accept");
+    expect(decision.split?.Quantity_to_Accept).toBe(250);
+    expect(decision.notes.map((note) => note.lineNo)).toEqual([30000]);
+  });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from "@playwright/test";
+import type { CustomerLedgerEntry } from "@/lib/api/services/customer-ledger.service";
+import {
+  ageEntries,
+  buildCustomerAgeing,
+  getAgeingBucket,
+  getDaysOverdue,
+} from "@/lib/receivables/ageing";
+import { fixture } from "./fixtures";
+
+const AS_OF = "2025-06-30";
+
+const entry = fixture<CustomerLedgerEntry>({
+  Entry_No: 1,
+  Posting_Date: "2025-06-01",
+  Document_Type: "Invoice",
+  Document_No: "SI-0001",
+  External_Document_No: "",
+  Customer_No: "C0001",
+  CustomerName: "Patil Poultry",
+  Description: "",
+  Debit_Amount: 0,
+  Credit_Amount: 0,
+  Amount: 0,
+  Remaining_Amount: 1000,
+  Original_Amount: 0,
+  Document_Date: "2025-06-01",
+  Due_Date: "2025-06-15",
+  Open: true,
+});
+
+test.describe("Receivables ageing", () => {
+  test("counts days from the due date, or posting when it is blank", () => {
+    expect(getDaysOverdue(entry(), AS_OF)).toBe(15);
+    expect(getDaysOverdue(entry({ Due_Date: "2025-07-10" }), AS_OF)).toBe(-10);
+    expect(getDaysOverdue(entry({ Due_Date: "0001-01-01" }), AS_OF)).toBe(29);
+    expect(getDaysOverdue(entry({ Due_Date: "", Posting_Date: "" }), AS_OF)).toBe(0);
+  });
+
+  test("places bucket edges in the lower bucket", () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91].map(getAgeingBucket)).toEqual([
+      "notDue",
+      "days0to30",
+      "days0to30",
+      "days31to60",
+      "days31to60",
+      "days61to90",
+      "days61to90",
+      "over90",
+    ]);
+  });
+
+  test("buckets remaining amounts, credits reducing their bucket", () => {
+    const buckets = ageEntries(
+      [
+        entry({ Due_Date: "2025-07-15", Remaining_Amount: 500.1 }),
+        entry({ Due_Date: "2025-06-15", Remaining_Amount: 1000.2 }),
+        entry({ Due_Date: "2025-06-20", Remaining_Amount: -200.1, Document_Type: "Payment" }),
+        entry({ Due_Date: "2025-03-01", Remaining_Amount: 750 }),
+      ],
+      AS_OF,
+    );
+    expect(buckets).toEqual({
+      notDue: 500.1,
+      days0to30: 800.1,
+      days31to60: 0,
+      days61to90: 0,
+      over90: 750,
+    });
+  });
+
+  test("rows each customer, largest outstanding first", () => {
+    const rows = buildCustomerAgeing(
+      [
+        entry({ Customer_No: "C0001", Due_Date: "2025-06-15", Remaining_Amount: 1000 }),
+        entry({
+          Customer_No: "C0002",
+          CustomerName: "",
+          Due_Date: "2025-04-01",
+          Remaining_Amount: 2500,
+        }),
+        entry({ Customer_No: "C0002", CustomerName: "Shinde Feeds", Remaining_Amount: -500 }),
+        entry({ Customer_No: "C0001", Due_Date: "2025-05-01", Remaining_Amount: -300 }),
+      ],
+      AS_OF,
+    );
+
+    expect(rows.map((row) => [row.customerNo, row.customerName, row.total])).toEqual([
+      ["C0002", "Shinde Feeds", 2000],
+      ["C0001", "Patil Poultry", 700],
+    ]);
+    // Open credits do not make a customer overdue
+    expect(rows[0].maxDaysOverdue).toBe(90);
+    expect(rows[1].maxDaysOverdue).toBe(15);
+    expect(rows[1].buckets).toMatchObject({ days0to30: 1000, days31to60: -300 });
+  });
+});
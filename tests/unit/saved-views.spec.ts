@@ -0,0 +1,53 @@
+import "./fixtures/server-env";
+import { test, expect } from "@playwright/test";
+import { NextRequest } from "next/server";
+import { DELETE, GET, POST } from "@/app/api/saved-views/route";
+import { ROLE_PERMISSIONS } from "@/lib/auth/permissions";
+import { SESSION_COOKIE_NAME, signSessionToken } from "@/lib/auth/session";
+import { stubFetch } from "./fixtures";
+
+function request(method: string, query: string, body?: unknown) {
+  const token = signSessionToken({
+    userID: "ACCT01",
+    fullName: "Accounts",
+    role: "accountant",
+    permissions: ROLE_PERMISSIONS.accountant,
+    locationCode: "PUNE",
+    postingWindow: { from: null, to: null },
+  });
+  return new NextRequest(`http://localhost/api/saved-views${query}`, {
+    method,
+    headers: { cookie: `${SESSION_COOKIE_NAME}=${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+test.describe("Saved views route", () => {
+  // The shared store is down
+  stubFetch(() => new Response("Service Unavailable", { status: 503 }));
+
+  test("answers a shared store outage with a structured 503", async () => {
+    const responses = await Promise.all([
+      GET(request("GET", "?list=sales-orders")),
+      POST(
+        request("POST", "", {
+          id: "view-1",
+          listKey: "sales-orders",
+          name: "Open orders",
+          state: { filters: {} },
+        }),
+      ),
+      DELETE(request("DELETE", "?id=view-1")),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "STORE_UNAVAILABLE",
+          message: "Shared views are unavailable right now. Please try again.",
+        },
+      });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { test, expect } from "@playwright/test";
+import { PNG } from "pngjs";
+import { decodePixels, parseScanPayload } from "@/lib/scanner";
+
+// Labels rendered with bwip-js, one per symbology and payload format
+const FIXTURES = path.join(__dirname, "fixtures", "scanner");
+
+function decodeFixture(name: string): string | null {
+  const png = PNG.sync.read(readFileSync(path.join(FIXTURES, name)));
+  return decodePixels(png.data, png.width, png.height);
+}
+
+function scanFixture(name: string) {
+  const text = decodeFixture(name);
+  expect(text, `${name} should decode`).not.toBeNull();
+  return parseScanPayload(text!);
+}
+
+test.describe("Scanner decoding", () => {
+  test("reads a JSON production order label from a QR code", () => {
+    expect(scanFixture("qr-json.png")).toMatchObject({
+      documentNo: "RPO/0001",
+      itemNo: "FG001",
+      lotNo: "L1",
+    });
+  });
+
+  test("reads key=value pairs from a QR code", () => {
+    expect(scanFixture("qr-key-value.png")).toMatchObject({
+      documentNo: "GI-0001",
+      itemNo: "RM001",
+      lotNo: "L24-07",
+    });
+  });
+
+  test("reads GS1 identifiers from a DataMatrix", () => {
+    expect(scanFixture("datamatrix-gs1.png")).toMatchObject({
+      itemNo: "08901234567890",
+      lotNo: "LOT42",
+      // Day 00 is the last day of the month
+      expirationDate: "2025-12-31",
+    });
+  });
+
+  test("reads GS1 identifiers from a GS1-128 barcode", () => {
+    const payload = scanFixture("code128-gs1.png");
+    expect(payload).toMatchObject({ documentNo: "PO-0042", lotNo: "L1" });
+    expect(payload.itemNo).toBeUndefined();
+  });
+
+  test("reads a bare document number from Code 128", () => {
+    expect(scanFixture("code128-document.png")).toEqual({
+      raw: "RPO/0001",
+      documentNo: "RPO/0001",
+    });
+  });
+
+  test("reads a bare document number from Code 39", () => {
+    expect(scanFixture("code39-document.png")).toEqual({
+      raw: "PO-0042",
+      documentNo: "PO-0042",
+    });
+  });
+
+  test("reads EAN-13 and EAN-8 item codes", () => {
+    expect(decodeFixture("ean13-item.png")).toBe("8901234567890");
+    expect(decodeFixture("ean8-item.png")).toBe("96385074");
+  });
+
+  test("returns null for an image without a code", () => {
+    expect(decodeFixture("blank.png")).toBeNull();
+  });
+});
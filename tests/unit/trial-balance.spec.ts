@@ -0,0 +1,117 @@
+import { test, expect } from "@playwright/test";
+import type { GLAccountDetail } from "@/lib/api/services/account.service";
+import type { GLAccountTotals } from "@/lib/api/services/gl-entry.service";
+import {
+  buildTrialBalance,
+  getDimensionConditions,
+  getFiscalYearStart,
+} from "@/lib/trial-balance/trial-balance";
+
+function account(
+  No: string,
+  Account_Category: string,
+  Income_Balance: string,
+  Name = `Account ${No}`,
+): GLAccountDetail {
+  return { No, Name, Account_Type: "Posting", Account_Category, Income_Balance };
+}
+
+function totals(accountNo: string, debit: number, credit: number): GLAccountTotals {
+  return { accountNo, debit, credit, amount: debit - credit };
+}
+
+const ACCOUNTS = [
+  account("10100", "Assets", "Balance Sheet", "Cash"),
+  account("20100", "Liabilities", "Balance Sheet", "Creditors"),
+  account("40100", "Income", "Income Statement", "Sales"),
+  account("50100", "Expense", "Income Statement", "Freight"),
+  account("90100", "", "Balance Sheet", "Suspense"),
+];
+
+test.describe("Trial balance", () => {
+  test("starts the fiscal year in April", () => {
+    expect(getFiscalYearStart("2025-04-01")).toBe("2025-04-01");
+    expect(getFiscalYearStart("2025-12-31")).toBe("2025-04-01");
+    expect(getFiscalYearStart("2026-03-31")).toBe("2025-04-01");
+  });
+
+  test("filters G/L entries by the chosen dimension slices", () => {
+    expect(
+      getDimensionConditions({
+        fromDate: "2025-06-01",
+        toDate: "2025-06-30",
+        lob: "FEED",
+        branch: "",
+        loc: "PUNE",
+      }),
+    ).toEqual([
+      { field: "Global_Dimension_1_Code", operator: "eq", value: "FEED", type: "text" },
+      { field: "Shortcut_Dimension_3_Code", operator: "eq", value: "PUNE", type: "text" },
+    ]);
+  });
+
+  test("opens income statement accounts from the fiscal year start", () => {
+    const balance = buildTrialBalance(
+      ACCOUNTS,
+      // Everything before the period, prior years included
+      [totals("10100", 80000, 30000), totals("40100", 0, 90000)],
+      // From the fiscal year start to the period
+      [totals("10100", 20000, 5000), totals("40100", 0, 12000)],
+      [totals("10100", 1000, 500), totals("40100", 0, 3000)],
+      false,
+    );
+    const rows = balance.categories.flatMap((category) => category.rows);
+
+    expect(rows.find((row) => row.accountNo === "10100")).toMatchObject({
+      opening: 50000,
+      closing: 50500,
+    });
+    expect(rows.find((row) => row.accountNo === "40100")).toMatchObject({
+      opening: -12000,
+      debit: 0,
+      credit: 3000,
+      closing: -15000,
+    });
+  });
+
+  test("groups accounts by category and splits closing balances", () => {
+    const balance = buildTrialBalance(
+      ACCOUNTS,
+      [totals("10100", 5000, 0), totals("20100", 0, 5000)],
+      [],
+      [
+        totals("10100", 1200.1, 0),
+        totals("50100", 300.2, 0),
+        totals("40100", 0, 1500.3),
+        totals("90100", 0, 0),
+      ],
+      true,
+    );
+
+    // Accounts with neither balance nor movement are left out
+    expect(balance.categories.map((category) => [category.label, category.rows.length])).toEqual([
+      ["Assets", 1],
+      ["Liabilities", 1],
+      ["Income", 1],
+      ["Expense", 1],
+    ]);
+    expect(balance.totals).toEqual({
+      opening: 0,
+      debit: 1500.3,
+      credit: 1500.3,
+      closingDebit: 6500.3,
+      closingCredit: 6500.3,
+    });
+    expect(balance.truncated).toBe(true);
+  });
+
+  test("lists accounts outside the known categories as uncategorized", () => {
+    const balance = buildTrialBalance(ACCOUNTS, [], [], [totals("90100", 10, 0)], false);
+    expect(balance.categories).toHaveLength(1);
+    expect(balance.categories[0]).toMatchObject({
+      category: "",
+      label: "Uncategorized",
+      totals: { debit: 10, closingDebit: 10, closingCredit: 0 },
+    });
+  });
+});
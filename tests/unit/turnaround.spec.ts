@@ -0,0 +1,145 @@
+import { test, expect } from "@playwright/test";
+import { computeStages, toSystemTimestamp } from "@/lib/turnaround/milestones";
+import { getBottleneck } from "@/lib/turnaround/stats";
+import type { VehicleVisit } from "@/lib/turnaround/types";
+import { loadVehicleVisits } from "@/lib/turnaround/visits";
+import { fixture, stubFetch } from "./fixtures";
+
+/** Local time on 15 June 2025 */
+const at = (hours: number, minutes = 0) => new Date(2025, 5, 15, hours, minutes).getTime();
+
+const milestones = fixture({
+  arrivedAt: at(8),
+  qcAt: null as number | null,
+  unloadAt: null as number | null,
+  departedAt: at(14) as number | null,
+});
+
+test.describe("Turnaround stages", () => {
+  test("splits the dwell at each milestone and names the longest stage", () => {
+    const visit = computeStages(milestones({ qcAt: at(9), unloadAt: at(13) }), at(20));
+    expect(visit.dwellMinutes).toBe(360);
+    expect(visit.stages).toEqual([
+      { stage: "qc", minutes: 60 },
+      { stage: "unload", minutes: 240 },
+      { stage: "posting", minutes: 60 },
+    ]);
+    expect(visit.bottleneck).toBe("unload");
+  });
+
+  test("counts a missing milestone's wait in the next stage", () => {
+    const visit = computeStages(milestones({ unloadAt: at(9) }), at(20));
+    expect(visit.stages).toEqual([
+      { stage: "unload", minutes: 60 },
+      { stage: "posting", minutes: 300 },
+    ]);
+    expect(visit.bottleneck).toBe("posting");
+  });
+
+  test("keeps milestones within the visit and runs on-site visits to now", () => {
+    const visit = computeStages(
+      milestones({ qcAt: at(7), unloadAt: at(18), departedAt: null }),
+      at(11),
+    );
+    expect(visit.qcAt).toBe(at(8));
+    expect(visit.unloadAt).toBe(at(11));
+    expect(visit.dwellMinutes).toBe(180);
+    expect(visit.stages.map((stage) => stage.minutes)).toEqual([0, 180, 0]);
+  });
+
+  test("has no bottleneck without a QC or unload milestone", () => {
+    const visit = computeStages(milestones(), at(20));
+    expect(visit.stages).toEqual([{ stage: "posting", minutes: 360 }]);
+    expect(visit.bottleneck).toBeNull();
+  });
+
+  test("totals the stages of split visits for the overall bottleneck", () => {
+    const visits = [
+      computeStages(milestones({ qcAt: at(11), unloadAt: at(12) }), at(20)),
+      computeStages(milestones({ unloadAt: at(9) }), at(20)),
+      computeStages(milestones({ departedAt: at(23) }), at(23)),
+    ] as VehicleVisit[];
+    // qc 180, unload 60 + 60, posting 120 + 300; the unsplit visit is left out
+    expect(getBottleneck(visits)).toBe("posting");
+    expect(getBottleneck(visits.slice(0, 1))).toBe("qc");
+    expect(getBottleneck([])).toBeNull();
+  });
+
+  test("reads ERP system timestamps, blank ones as unknown", () => {
+    expect(toSystemTimestamp("2025-06-15T03:30:00Z")).toBe(Date.UTC(2025, 5, 15, 3, 30));
+    expect(toSystemTimestamp("0001-01-01T00:00:00Z")).toBeNull();
+    expect(toSystemTimestamp("")).toBeNull();
+    expect(toSystemTimestamp(undefined)).toBeNull();
+  });
+});
+
+/** Rows the stubbed ERP answers with, per entity set */
+const ERP: Record<string, Record<string, unknown>[]> = {
+  PostedInwardGateEntryH: [
+    {
+      No: "GI-0001",
+      Document_Date: "2025-06-15",
+      Document_Time: "08:00:00",
+      Posting_Date: "2025-06-15",
+      Posting_Time: "14:00:00",
+      Vehicle_No: "MH 12 AB 1234",
+      Location_Code: "PUNE",
+      Source_Type: "Purchase Order",
+      Source_No: "PO-0001",
+    },
+  ],
+  qcReceiptH: [
+    { No: "QC-0002", QC_Date: "2025-06-15", Purchase_Order_No: "PO-0001", Vehicle_No: "" },
+  ],
+  qcReceiptPostedH: [
+    {
+      No: "QC-0001",
+      QC_Date: "2025-06-15",
+      Purchase_Order_No: "PO-0001",
+      Vehicle_No: "",
+      SystemCreatedAt: new Date(at(9, 30)).toISOString(),
+    },
+  ],
+  PostedPurchaseReceiptsH: [
+    {
+      No: "PR-0001",
+      Order_No: "PO-0001",
+      Posting_Date: "2025-06-15",
+      Vehicle_No: "MH12AB1234",
+      SystemCreatedAt: new Date(at(13)).toISOString(),
+    },
+  ],
+};
+
+test.describe("Vehicle visits", () => {
+  stubFetch((url) => {
+    const entitySet = new URL(url, "http://erp.test").pathname.split("/").pop() ?? "";
+    const value = ERP[entitySet] ?? [];
+    return { value, "@odata.count": value.length };
+  });
+
+  test("takes QC and unload milestones from the linked documents' posting times", async () => {
+    const { visits, truncatedSources } = await loadVehicleVisits(
+      { fromDate: "2025-06-15", toDate: "2025-06-15", directions: ["Inward"] },
+      ["PUNE"],
+      at(20),
+    );
+
+    expect(truncatedSources).toEqual([]);
+    expect(visits).toHaveLength(1);
+    expect(visits[0]).toMatchObject({
+      no: "GI-0001",
+      posted: true,
+      qcDocuments: ["QC-0002", "QC-0001"],
+      unloadDocuments: ["PR-0001"],
+      qcAt: at(9, 30),
+      unloadAt: at(13),
+      stages: [
+        { stage: "qc", minutes: 90 },
+        { stage: "unload", minutes: 210 },
+        { stage: "posting", minutes: 60 },
+      ],
+      bottleneck: "unload",
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { test, expect } from "@playwright/test";
+import type { VoucherImportField, VoucherImportRow } from "@/lib/voucher-import/types";
+import { toVoucherData, validateVoucherImportRows } from "@/lib/voucher-import/validate";
+import { fixture, stubFetch } from "./fixtures";
+
+type ErpRecord = Record<string, string>;
+
+/** Master data the stubbed ERP answers with, per entity set */
+const ERP: Record<string, ErpRecord[]> = {
+  WebUserSetup: [
+    { User_name: "ACCT01", LOB: "FEED", Branch_Code: "PUNE", LOC_Code: "PUNE-01" },
+    { User_name: "ACCT01", LOB: "FEED", Branch_Code: "NASIK", LOC_Code: "NASIK-01" },
+  ],
+  Webuser: [
+    {
+      User_Name: "ACCT01",
+      Allow_Posting_From: "2025-06-01",
+      Allow_Posting_To: "0001-01-01",
+    },
+  ],
+  VendorCard: [{ No: "V0001", Name: "Kisan Traders", Assessee_Code: "COM" }],
+  CustomerCard: [
+    { No: "C0001", Name: "Patil Poultry", Assessee_Code: "IND" },
+    { No: "C0002", Name: "Shinde Feeds", Assessee_Code: "" },
+  ],
+  GLAccount: [
+    { No: "10100", Name: "Cash" },
+    { No: "60100", Name: "Salaries" },
+  ],
+  TDSSection: [{ Vendor_No: "V0001", TDS_Section: "194C" }],
+  TCSSection: [{ Customer_No: "C0001", TCS_Nature_of_Collection: "1H" }],
+  DefaultDimensions: [{ No: "60100", Dimension_Code: "EMPLOYEE" }],
+};
+
+/** Rows of the entity set matching every `Field eq 'value'` of the filter the row has */
+function answer(url: string): ErpRecord[] {
+  const { pathname, searchParams } = new URL(url, "http://erp.test");
+  const filter = searchParams.get("$filter") ?? searchParams.get("$Filter") ?? "";
+  const conditions = Array.from(filter.matchAll(/(\w+) eq '([^']*)'/g));
+  return (ERP[pathname.split("/").pop() ?? ""] ?? []).filter((row) =>
+    conditions.every(([, field, value]) => !(field in row) || row[field] === value),
+  );
+}
+
+const cells = fixture<Record<VoucherImportField, string>>({
+  voucherType: "General Journal",
+  documentType: "Invoice",
+  postingDate: "2025-06-15",
+  documentDate: "",
+  accountType: "G/L Account",
+  accountNo: "60100",
+  tdsSection: "",
+  tcsNature: "",
+  externalDocumentNo: "EXT-1",
+  description: "June salaries",
+  amount: "1,250.50",
+  balanceAccountType: "G/L Account",
+  balanceAccountNo: "10100",
+  lineNarration: "",
+  lob: "FEED",
+  branch: "PUNE",
+  loc: "PUNE-01",
+  employee: "E001",
+  assignment: "",
+});
+
+function rows(...overrides: Partial<Record<VoucherImportField, string>>[]): VoucherImportRow[] {
+  return overrides.map((item, index) => ({ rowNumber: index + 2, cells: cells(item) }));
+}
+
+test.describe("Voucher import row mapping", () => {
+  test("matches options without case and reads grouped amounts", () => {
+    const data = toVoucherData(
+      cells({ voucherType: "cash payment", accountType: "vendor", documentType: "" }),
+    );
+    expect(data).toMatchObject({
+      voucherType: "Cash Payment",
+      accountType: "Vendor",
+      documentType: "NA",
+      amount: 1250.5,
+      documentDate: "2025-06-15",
+    });
+  });
+
+  test("keeps unknown text and leaves a bad amount unset for the schema", () => {
+    const data = toVoucherData(cells({ voucherType: "Petty Cash", amount: "12O" }));
+    expect(data.voucherType).toBe("Petty Cash");
+    expect(data).not.toHaveProperty("amount");
+  });
+
+  test("takes TDS sections and TCS natures except NA", () => {
+    expect(toVoucherData(cells({ tdsSection: "194C", tcsNature: "NA" }))).toMatchObject({
+      accountTdsSection: { tdsType: "194C" },
+    });
+    expect(toVoucherData(cells({ tdsSection: "NA" }))).not.toHaveProperty("accountTdsSection");
+  });
+});
+
+test.describe("Voucher import validation", () => {
+  stubFetch((url) => ({ value: answer(url) }));
+
+  test("accepts a line that checks out", async () => {
+    const [row] = await validateVoucherImportRows(rows({}), "ACCT01");
+    expect(row.errors).toEqual([]);
+    expect(row.data).toMatchObject({ accountNo: "60100", amount: 1250.5 });
+  });
+
+  test("rejects accounts the ERP does not have", async () => {
+    const [row] = await validateVoucherImportRows(
+      rows({ accountType: "Vendor", accountNo: "V0099" }),
+      "ACCT01",
+    );
+    expect(row.errors).toContain("Account No: Vendor V0099 does not exist or is blocked");
+    expect(row.data).toBeNull();
+  });
+
+  test("checks TDS sections and TCS natures against the party", async () => {
+    const [tds, tcs, noAssessee] = await validateVoucherImportRows(
+      rows(
+        { accountType: "Vendor", accountNo: "V0001", tdsSection: "194J" },
+        { accountType: "Customer", accountNo: "C0001", tcsNature: "1H" },
+        { accountType: "Customer", accountNo: "C0002", tcsNature: "1H" },
+      ),
+      "ACCT01",
+    );
+    expect(tds.errors).toEqual(["TDS Section: 194J is not set up for vendor V0001"]);
+    expect(tcs.errors).toEqual([]);
+    expect(noAssessee.errors).toEqual([
+      "TCS Nature of Collection: does not apply, the customer has no assessee code",
+    ]);
+  });
+
+  test("reports the first dimension outside the user's combinations", async () => {
+    const [lob, branch, loc] = await validateVoucherImportRows(
+      rows({ lob: "PHARMA" }, { branch: "NAGPUR" }, { loc: "NASIK-01" }),
+      "ACCT01",
+    );
+    expect(lob.errors).toEqual(["LOB PHARMA is not assigned to you"]);
+    expect(branch.errors).toEqual(["Branch NAGPUR is not under LOB FEED for you"]);
+    expect(loc.errors).toEqual(["LOC NASIK-01 is not under FEED / PUNE for you"]);
+  });
+
+  test("requires dimensions the accounts default to", async () => {
+    const [row] = await validateVoucherImportRows(rows({ employee: "" }), "ACCT01");
+    expect(row.errors).toEqual(["Employee: required for these accounts"]);
+  });
+
+  test("keeps posting dates within the user's window", async () => {
+    const [early, late] = await validateVoucherImportRows(
+      rows({ postingDate: "2025-05-31" }, { postingDate: "2030-01-01" }),
+      "ACCT01",
+    );
+    expect(early.errors).toEqual(["Posting Date: you may post from 2025-06-01 only"]);
+    // A blank upper bound leaves the window open
+    expect(late.errors).toEqual([]);
+  });
+
+  test("warns cash payments to attach their document", async () => {
+    const [row] = await validateVoucherImportRows(
+      rows({ voucherType: "Cash Payment", externalDocumentNo: "" }),
+      "ACCT01",
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.warnings).toEqual([
+      "Attach the supporting document from the voucher list before posting",
+    ]);
+  });
+});
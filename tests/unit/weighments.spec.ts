@@ -0,0 +1,130 @@
+import "./fixtures/server-env";
+import { test, expect } from "@playwright/test";
+import { getWeighmentLockViolation } from "@/lib/weighbridge/server-gate-entry";
+import type { Weighment, WeighmentRecord } from "@/lib/weighbridge/types";
+import {
+  getLockedWeightFields,
+  isWeighmentReleased,
+  isWeighmentSource,
+  validateWeighment,
+} from "@/lib/weighbridge/weighments";
+import { fixture, stubFetch } from "./fixtures";
+
+const weighment = fixture<Weighment>({
+  weight: 32000,
+  capturedAt: 1000,
+  capturedBy: "GATE01",
+  source: "serial",
+});
+
+const record = fixture<WeighmentRecord>({
+  direction: "Inward",
+  entryNo: "GI-0001",
+  first: weighment(),
+  overrides: [],
+});
+
+const override = (overriddenAt: number) => ({
+  reason: "Indicator drift",
+  overriddenBy: "SUP01",
+  overriddenAt,
+});
+
+test.describe("Weighment rules", () => {
+  test("weighs inward vehicles loaded first and outward empty first", () => {
+    expect(validateWeighment("Inward", "second", 12000, record())).toBeNull();
+    expect(validateWeighment("Inward", "second", 32000, record())).toBe(
+      "Tare (32000 kg) must be lighter than the gross weight (32000 kg)",
+    );
+    const outward = record({ direction: "Outward", first: weighment({ weight: 12000 }) });
+    expect(validateWeighment("Outward", "second", 30000, outward)).toBeNull();
+    expect(validateWeighment("Outward", "second", 11000, outward)).toMatch(/must be heavier/);
+  });
+
+  test("needs a load and the first weighment before the second", () => {
+    expect(validateWeighment("Inward", "first", 0, null)).toMatch(/reads zero/);
+    expect(validateWeighment("Inward", "second", 12000, record({ first: undefined }))).toBe(
+      "Capture the first weighment before the second",
+    );
+  });
+
+  test("takes captures from the scale, the simulator only where enabled", () => {
+    expect(isWeighmentSource("serial", false)).toBe(true);
+    expect(isWeighmentSource("http", false)).toBe(true);
+    expect(isWeighmentSource("simulator", false)).toBe(false);
+    expect(isWeighmentSource("simulator", true)).toBe(true);
+    expect(isWeighmentSource("manual", true)).toBe(false);
+  });
+});
+
+test.describe("Weighment locking", () => {
+  test("locks the header field of every captured weighment", () => {
+    expect(getLockedWeightFields("Inward", null)).toEqual({
+      Gross_Weight: false,
+      Tier_Weight: false,
+    });
+    expect(getLockedWeightFields("Inward", record())).toEqual({
+      Gross_Weight: true,
+      Tier_Weight: false,
+    });
+    const outward = record({ direction: "Outward", second: weighment({ capturedAt: 2000 }) });
+    expect(getLockedWeightFields("Outward", outward)).toEqual({
+      Gross_Weight: true,
+      Tier_Weight: true,
+    });
+  });
+
+  test("releases weighments captured before the last override only", () => {
+    const overridden = record({
+      second: weighment({ weight: 12000, capturedAt: 3000 }),
+      overrides: [override(2000)],
+    });
+    expect(isWeighmentReleased(overridden, "first")).toBe(true);
+    expect(isWeighmentReleased(overridden, "second")).toBe(false);
+    expect(getLockedWeightFields("Inward", overridden)).toEqual({
+      Gross_Weight: false,
+      Tier_Weight: true,
+    });
+  });
+});
+
+test.describe("Weighment lock in the ERP proxy", () => {
+  let stored: WeighmentRecord | null = null;
+
+  // Redis REST stub: the record is the only value in the store
+  stubFetch((_url, init) => {
+    const [command] = JSON.parse(String(init.body)) as string[];
+    return { result: command === "GET" && stored ? JSON.stringify(stored) : null };
+  });
+
+  test.beforeEach(() => {
+    stored = record();
+  });
+
+  const HEADER = "/InwardGateEntry(Entry_Type='Inward',No='GI-0001')";
+
+  test("refuses a header write that changes a captured weight", async () => {
+    expect(await getWeighmentLockViolation("PATCH", HEADER, { gross_Weight: 31000 })).toMatch(
+      /^Gross Weight was captured from the weighbridge; a supervisor override is required/,
+    );
+  });
+
+  test("allows the captured value, other fields and released weighments", async () => {
+    expect(await getWeighmentLockViolation("PATCH", HEADER, { gross_Weight: 32000 })).toBeNull();
+    expect(await getWeighmentLockViolation("PATCH", HEADER, { tier_Weight: 12000 })).toBeNull();
+    expect(await getWeighmentLockViolation("PATCH", HEADER, { vehicle_No: "MH12" })).toBeNull();
+
+    stored = record({ overrides: [override(2000)] });
+    expect(await getWeighmentLockViolation("PATCH", HEADER, { gross_Weight: 31000 })).toBeNull();
+  });
+
+  test("checks each operation of a $batch", async () => {
+    const reason = await getWeighmentLockViolation("POST", "/$batch", {
+      requests: [
+        { method: "PATCH", url: "InwardGateLine(No='GI-0001',Line_No=10000)", body: {} },
+        { method: "PATCH", url: HEADER.slice(1), body: { gross_Weight: 1 } },
+      ],
+    });
+    expect(reason).toMatch(/^Gross Weight was captured/);
+  });
+});